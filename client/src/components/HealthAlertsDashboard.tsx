@@ -10,8 +10,8 @@ export function HealthAlertsDashboard({ farmId }: { farmId?: number }) {
   const [selectedAlerts, setSelectedAlerts] = useState<number[]>([]);
 
   const { data: alerts, isLoading, refetch } = trpc.healthAlerts.getActiveAlerts.useQuery(
-    { farmId },
-    { refetchInterval: 60000 } // Refetch every minute
+    { farmId: farmId! },
+    { enabled: !!farmId, refetchInterval: 60000 } // Refetch every minute
   );
 
   const resolveAlertMutation = trpc.healthAlerts.resolveAlert.useMutation({
@@ -29,12 +29,12 @@ export function HealthReportGenerator({ farmId, animalId }: HealthReportGenerato
   );
 
   const generateBreedReportQuery = trpc.healthReports.generateBreedReport.useQuery(
-    { farmId, breed, startDate, endDate },
+    { farmId: farmId!, breed, startDate, endDate },
     { enabled: false }
   );
 
   const generateFarmReportQuery = trpc.healthReports.generateFarmReport.useQuery(
-    { farmId, startDate, endDate },
+    { farmId: farmId!, startDate, endDate },
     { enabled: false }
   );
 
@@ -67,7 +67,7 @@ export function HealthReportGenerator({ farmId, animalId }: HealthReportGenerato
             filename: `animal-report-${animalId}-${endDate}.pdf`,
           });
         }
-      } else if (reportType === "breed") {
+      } else if (reportType === "breed" && farmId) {
         if (!breed) {
           toast.error("Please select a breed");
           return;
@@ -80,7 +80,7 @@ export function HealthReportGenerator({ farmId, animalId }: HealthReportGenerato
             filename: `breed-report-${breed}-${endDate}.pdf`,
           });
         }
-      } else if (reportType === "farm") {
+      } else if (reportType === "farm" && farmId) {
         const data = await generateFarmReportQuery.refetch();
         if (data.data) {
           exportPDFMutation.mutate({
@@ -13,37 +13,37 @@ export function HealthTrendsDashboard({ farmId }: HealthTrendsDashboardProps) {
   const [months, setMonths] = useState(6);
 
   const { data: vaccinationTrends } = trpc.healthTrendsAnalytics.getVaccinationTrends.useQuery({
-    farmId,
+    farmId: farmId!,
     breed: selectedBreed,
     months,
-  });
+  }, { enabled: !!farmId });
 
   const { data: healthIssuesTrends } = trpc.healthTrendsAnalytics.getHealthIssuesTrends.useQuery({
-    farmId,
+    farmId: farmId!,
     breed: selectedBreed,
     months,
-  });
+  }, { enabled: !!farmId });
 
   const { data: performanceTrends } = trpc.healthTrendsAnalytics.getPerformanceTrends.useQuery({
-    farmId,
+    farmId: farmId!,
     breed: selectedBreed,
     months,
-  });
+  }, { enabled: !!farmId });
 
   const { data: breedComparison } = trpc.healthTrendsAnalytics.getBreedHealthComparison.useQuery({
-    farmId,
+    farmId: farmId!,
     months,
-  });
+  }, { enabled: !!farmId });
 
   const { data: animalHealthScores } = trpc.healthTrendsAnalytics.getAnimalHealthScores.useQuery({
-    farmId,
+    farmId: farmId!,
     limit: 10,
-  });
+  }, { enabled: !!farmId });
 
   const { data: vaccinationCoverage } = trpc.healthTrendsAnalytics.getVaccinationCoverageReport.useQuery({
-    farmId,
+    farmId: farmId!,
     breed: selectedBreed,
-  });
+  }, { enabled: !!farmId });
 
   return (
     <div className="space-y-6">
@@ -26,10 +26,10 @@ export function MedicationTrackingPanel({ farmId, animalId }: MedicationTracking
   });
 
   const { data: inventory, refetch: refetchInventory } = trpc.medicationTracking.getMedicationInventory.useQuery({
-    farmId,
-  });
+    farmId: farmId!,
+  }, { enabled: !!farmId });
 
-  const { data: stats } = trpc.medicationTracking.getMedicationStats.useQuery({ farmId });
+  const { data: stats } = trpc.medicationTracking.getMedicationStats.useQuery({ farmId: farmId! }, { enabled: !!farmId });
 
   const addMedicationMutation = trpc.medicationTracking.addMedication.useMutation({
     onSuccess: () => {
@@ -50,6 +50,7 @@ export function MedicationTrackingPanel({ farmId, animalId }: MedicationTracking
   });
 
   const handleAddMedication = () => {
+    if (!farmId) return;
     if (!formData.medicationName || !formData.quantity || !formData.expirationDate) {
       toast.error("Please fill in all required fields");
       return;
@@ -3,22 +3,31 @@ import { Search, Loader2, AlertCircle, Filter, TrendingUp, Clock } from "lucide-
 import { trpc } from "@/lib/trpc";
 import { useLocation } from "wouter";
 
+type SearchCategory = "animal" | "farm" | "field" | "crop_cycle" | "product" | "task" | "invoice" | "supplier";
+
 interface SearchResult {
   id: number;
   name: string;
-  category: "animal" | "farm" | "crop";
-  path?: string;
-  type?: string;
-  location?: string;
-  variety?: string;
+  category: SearchCategory;
+  path: string;
+  subtitle: string | null;
 }
 
 interface SearchFilter {
-  type?: string;
-  status?: string;
-  category?: "animal" | "farm" | "crop";
+  entityTypes?: SearchCategory[];
 }
 
+const CATEGORY_LABELS: Record<SearchCategory, string> = {
+  animal: "Animal",
+  farm: "Farm",
+  field: "Field",
+  crop_cycle: "Crop cycle",
+  product: "Marketplace",
+  task: "Task",
+  invoice: "Invoice",
+  supplier: "Supplier",
+};
+
 export function SearchComponent() {
   const [query, setQuery] = useState("");
   const [isOpen, setIsOpen] = useState(false);
@@ -26,13 +35,21 @@ export function SearchComponent() {
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<SearchFilter>({});
   const [sessionId] = useState(() => Math.random().toString(36).substring(7));
+  const [debouncedQuery, setDebouncedQuery] = useState("");
   const searchRef = useRef<HTMLDivElement>(null);
   const [, setLocation] = useLocation();
+  const recordClick = trpc.search.recordClick.useMutation();
+
+  // Wait for a pause in typing so analytics log the query, not every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [query]);
 
   // Main search query
   const { data: searchResults, isLoading } = trpc.search.globalSearch.useQuery(
-    { query, limit: 8, filters, sessionId },
-    { enabled: query.length > 0 }
+    { query: debouncedQuery, limit: 8, filters, sessionId },
+    { enabled: debouncedQuery.length > 0 }
   );
 
   // Get suggestions when search box is focused but empty
@@ -47,7 +64,8 @@ export function SearchComponent() {
     { enabled: isOpen && query.length === 0 }
   );
 
-  const results = searchResults?.results || [];
+  const results: SearchResult[] = searchResults?.results || [];
+  const corrections = Object.values(searchResults?.corrections ?? {});
   const suggestions = suggestionsData?.recent || [];
   const trending = trendingData?.trending || [];
 
@@ -95,18 +113,8 @@ export function SearchComponent() {
   }, []);
 
   const handleSelectResult = (result: SearchResult) => {
-    if (result.path) {
-      setLocation(result.path);
-    } else {
-      // Default navigation based on category
-      if (result.category === "animal") {
-        setLocation(`/livestock-management?animal=${result.id}`);
-      } else if (result.category === "farm") {
-        setLocation(`/farms`);
-      } else if (result.category === "crop") {
-        setLocation(`/crops`);
-      }
-    }
+    recordClick.mutate({ query: debouncedQuery, entityType: result.category, entityId: result.id, sessionId });
+    setLocation(result.path);
     setQuery("");
     setIsOpen(false);
   };
@@ -126,16 +134,20 @@ export function SearchComponent() {
       case "animal":
         return "text-blue-600 dark:text-blue-400";
       case "farm":
+      case "field":
         return "text-green-600 dark:text-green-400";
-      case "crop":
+      case "crop_cycle":
+      case "product":
         return "text-amber-600 dark:text-amber-400";
+      case "task":
+        return "text-purple-600 dark:text-purple-400";
       default:
         return "text-gray-600 dark:text-gray-400";
     }
   };
 
-  const getCategoryLabel = (category: string) => {
-    return category.charAt(0).toUpperCase() + category.slice(1);
+  const getCategoryLabel = (category: SearchCategory) => {
+    return CATEGORY_LABELS[category] ?? category;
   };
 
   return (
@@ -143,7 +155,7 @@ export function SearchComponent() {
       <div className="relative">
         <input
           type="text"
-          placeholder="Search animals, farms, crops..."
+          placeholder="Search animals, fields, tasks, invoices..."
           value={query}
           onChange={(e) => {
             setQuery(e.target.value);
@@ -173,26 +185,20 @@ export function SearchComponent() {
       {showFilters && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-40 p-3 space-y-3">
           <div>
-            <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Type</label>
-            <input
-              type="text"
-              placeholder="e.g., cattle, goat"
-              value={filters.type || ""}
-              onChange={(e) => setFilters({ ...filters, type: e.target.value || undefined })}
-              className="w-full mt-1 px-2 py-1 text-sm bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded"
-            />
-          </div>
-          <div>
-            <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Status</label>
+            <label className="text-xs font-medium text-gray-700 dark:text-gray-300">Show only</label>
             <select
-              value={filters.status || ""}
-              onChange={(e) => setFilters({ ...filters, status: e.target.value || undefined })}
+              value={filters.entityTypes?.[0] || ""}
+              onChange={(e) =>
+                setFilters(e.target.value ? { entityTypes: [e.target.value as SearchCategory] } : {})
+              }
               className="w-full mt-1 px-2 py-1 text-sm bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded"
             >
-              <option value="">All</option>
-              <option value="active">Active</option>
-              <option value="inactive">Inactive</option>
-              <option value="archived">Archived</option>
+              <option value="">Everything</option>
+              {(Object.keys(CATEGORY_LABELS) as SearchCategory[]).map((category) => (
+                <option key={category} value={category}>
+                  {CATEGORY_LABELS[category]}
+                </option>
+              ))}
             </select>
           </div>
           <button
@@ -254,6 +260,11 @@ export function SearchComponent() {
             </div>
           ) : results.length > 0 ? (
             <div>
+              {corrections.length > 0 && (
+                <div className="px-4 py-2 text-xs text-gray-600 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+                  Showing results for <span className="font-medium">{corrections.join(" ")}</span>
+                </div>
+              )}
               {results.map((result, index) => (
                 <button
                   key={`${result.category}-${result.id}`}
@@ -271,9 +282,7 @@ export function SearchComponent() {
                       </p>
                       <p className={`text-xs ${getCategoryColor(result.category)}`}>
                         {getCategoryLabel(result.category)}
-                        {result.type && ` • ${result.type}`}
-                        {result.location && ` • ${result.location}`}
-                        {result.variety && ` • ${result.variety}`}
+                        {result.subtitle && ` • ${result.subtitle}`}
                       </p>
                     </div>
                   </div>
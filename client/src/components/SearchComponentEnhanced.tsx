@@ -58,7 +58,9 @@ export function SearchComponentEnhanced() {
       {
         query,
         limit: 10,
-        filters,
+        filters: filters.category
+          ? { entityTypes: [filters.category === "crop" ? "crop_cycle" : filters.category] }
+          : undefined,
       },
       { enabled: query.length > 0 && isOpen }
     ) as any;
@@ -25,7 +25,7 @@ export function VetAppointmentsPanel({ farmId, animalId }: VetAppointmentsPanelP
 
   const { data: appointments, isLoading, refetch } = animalId
     ? trpc.vetAppointments.getAnimalAppointments.useQuery({ animalId })
-    : trpc.vetAppointments.getUpcomingAppointments.useQuery({ farmId });
+    : trpc.vetAppointments.getUpcomingAppointments.useQuery({ farmId: farmId! }, { enabled: !!farmId });
 
   const createAppointmentMutation = trpc.vetAppointments.createAppointment.useMutation({
     onSuccess: () => {
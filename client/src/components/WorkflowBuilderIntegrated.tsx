@@ -29,8 +29,8 @@ export function WorkflowBuilderIntegrated({ farmId }: { farmId: number }) {
     {
       id: "trigger-1",
       type: "trigger",
-      label: "Failed Login Alert",
-      config: { threshold: 3, timeWindow: 5 },
+      label: "Budget Exceeded",
+      config: {},
       position: { x: 50, y: 50 },
     },
   ]);
@@ -38,6 +38,7 @@ export function WorkflowBuilderIntegrated({ farmId }: { farmId: number }) {
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
   const [showNodePalette, setShowNodePalette] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [savedWorkflowId, setSavedWorkflowId] = useState<number | null>(null);
 
   // tRPC hooks
   const createWorkflow = trpc.workflowBuilder.createWorkflow.useMutation();
@@ -53,10 +54,10 @@ export function WorkflowBuilderIntegrated({ farmId }: { farmId: number }) {
 
   const actionTemplates = {
     trigger: [
-      "Failed Login Alert",
-      "Suspicious Device",
       "Budget Exceeded",
-      "Access Denied",
+      "Sensor Alert",
+      "Task Overdue",
+      "Prescription Due",
     ],
     condition: [
       "Check IP Whitelist",
@@ -138,12 +139,11 @@ export function WorkflowBuilderIntegrated({ farmId }: { farmId: number }) {
         throw new Error("Workflow must have at least one trigger");
       }
 
-      await createWorkflow.mutateAsync({
-        farmId,
+      const definition = {
         name: workflowName,
         description: workflowDescription,
         trigger: trigger.label,
-        triggerConditions: trigger.config,
+        triggerConditions: trigger.config?.condition,
         nodes: nodes.map(({ id, type, label, config, position }) => ({
           id,
           type,
@@ -156,7 +156,13 @@ export function WorkflowBuilderIntegrated({ farmId }: { farmId: number }) {
           source,
           target,
         })),
-      });
+      };
+      if (savedWorkflowId) {
+        await updateWorkflow.mutateAsync({ id: savedWorkflowId, ...definition });
+      } else {
+        const created = await createWorkflow.mutateAsync({ farmId, ...definition });
+        setSavedWorkflowId(created.id);
+      }
 
       toast({
         title: "Success",
@@ -174,16 +180,26 @@ export function WorkflowBuilderIntegrated({ farmId }: { farmId: number }) {
   };
 
   const testWorkflow = async () => {
+    if (!savedWorkflowId) {
+      toast({
+        title: "Error",
+        description: "Save the workflow before testing it",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSaving(true);
     try {
       const result = await executeWorkflow.mutateAsync({
-        workflowId: 1,
+        workflowId: savedWorkflowId,
         triggerData: { test: true },
       });
 
       toast({
-        title: "Success",
-        description: `Workflow executed successfully. Execution ID: ${result.executionId}`,
+        title: result.success ? "Success" : "Run did not complete",
+        description: `Workflow run ${result.executionId} ${result.status}`,
+        variant: result.success ? undefined : "destructive",
       });
     } catch (error) {
       toast({
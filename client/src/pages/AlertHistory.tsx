@@ -18,10 +18,11 @@ export default function AlertHistory() {
 
   // Fetch farms
   const { data: farms = [] } = trpc.farms.list.useQuery();
+  const farmId = selectedFarmId ?? farms[0]?.id;
 
   // Fetch alerts
   const { data: alertData, isLoading } = trpc.alertHistory.list.useQuery({
-    farmId: selectedFarmId || undefined,
+    farmId: farmId!,
     severity: severity !== "all" ? severity : undefined,
     alertType: alertType !== "all" ? alertType : undefined,
     isRead: isRead === "all" ? undefined : isRead === "read",
@@ -29,12 +30,13 @@ export default function AlertHistory() {
     endDate: endDate || undefined,
     limit: 50,
     offset: 0,
-  });
+  }, { enabled: !!farmId });
 
   // Fetch unread count
-  const { data: unreadCount = 0 } = trpc.alertHistory.unreadCount.useQuery({
-    farmId: selectedFarmId || undefined,
-  });
+  const { data: unreadCount = 0 } = trpc.alertHistory.unreadCount.useQuery(
+    { farmId: farmId! },
+    { enabled: !!farmId }
+  );
 
   // Mutations
   const markAsRead = trpc.alertHistory.markAsRead.useMutation({
@@ -66,9 +68,10 @@ export default function AlertHistory() {
   });
 
   // Fetch acknowledgment stats
-  const { data: ackStats } = trpc.alertHistory.getAcknowledgmentStats.useQuery({
-    farmId: selectedFarmId || undefined,
-  });
+  const { data: ackStats } = trpc.alertHistory.getAcknowledgmentStats.useQuery(
+    { farmId: farmId! },
+    { enabled: !!farmId }
+  );
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -115,8 +118,8 @@ export default function AlertHistory() {
           </p>
         </div>
         <Button
-          onClick={() => markAllAsRead.mutate({ farmId: selectedFarmId || undefined })}
-          disabled={unreadCount === 0 || markAllAsRead.isPending}
+          onClick={() => farmId && markAllAsRead.mutate({ farmId })}
+          disabled={!farmId || unreadCount === 0 || markAllAsRead.isPending}
         >
           <CheckCircle className="w-4 h-4 mr-2" />
           Mark All Read
@@ -137,14 +140,13 @@ export default function AlertHistory() {
             <div>
               <label className="text-sm font-medium mb-2 block">Farm</label>
               <Select
-                value={selectedFarmId?.toString() || "all"}
-                onValueChange={(val) => setSelectedFarmId(val === "all" ? null : parseInt(val))}
+                value={farmId?.toString() ?? ""}
+                onValueChange={(val) => setSelectedFarmId(parseInt(val))}
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="All Farms" />
+                  <SelectValue placeholder="Select a farm" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Farms</SelectItem>
                   {farms.map((farm) => (
                     <SelectItem key={farm.id} value={farm.id.toString()}>
                       {farm.farmName}
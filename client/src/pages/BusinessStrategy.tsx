@@ -57,9 +57,17 @@ export default function BusinessStrategy() {
   });
 
   // Queries
-  const { data: goals = [], isLoading: goalsLoading } = trpc.business.goals.list.useQuery({});
-  const { data: swotAnalyses = [], isLoading: swotLoading } = trpc.business.swot.list.useQuery({});
+  const [selectedFarmId, setSelectedFarmId] = useState<number | null>(null);
   const { data: farms = [] } = trpc.farms.list.useQuery();
+  const farmId = selectedFarmId ?? farms[0]?.id;
+  const { data: goals = [], isLoading: goalsLoading } = trpc.business.goals.list.useQuery(
+    { farmId: farmId! },
+    { enabled: !!farmId }
+  );
+  const { data: swotAnalyses = [], isLoading: swotLoading } = trpc.business.swot.list.useQuery(
+    { farmId: farmId! },
+    { enabled: !!farmId }
+  );
 
   // Mutations
   const createGoal = trpc.business.goals.create.useMutation({
@@ -235,6 +243,18 @@ export default function BusinessStrategy() {
           <h1 className="text-3xl font-bold">Business Strategy</h1>
           <p className="text-muted-foreground">Strategic planning and SWOT analysis for farm growth</p>
         </div>
+        <Select value={farmId?.toString() ?? ""} onValueChange={(value) => setSelectedFarmId(parseInt(value))}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Select a farm" />
+          </SelectTrigger>
+          <SelectContent>
+            {farms.map((farm) => (
+              <SelectItem key={farm.id} value={farm.id.toString()}>
+                {farm.farmName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Summary Cards */}
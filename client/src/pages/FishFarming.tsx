@@ -34,8 +34,8 @@ export default function FishFarming() {
 
   // Fetch water quality records
   const { data: waterQualityRecords = [], isLoading: waterQualityLoading, refetch: refetchWaterQuality } = trpc.fishFarming.waterQuality.getMeasurementHistory.useQuery(
-    selectedPondId ? { pondId: selectedPondId, startDate: new Date(new Date().setDate(new Date().getDate() - 30)), endDate: new Date() } : { pondId: 0, startDate: new Date(), endDate: new Date() },
-    { enabled: !!selectedPondId }
+    selectedFarmId && selectedPondId ? { farmId: selectedFarmId, pondId: selectedPondId, startDate: new Date(new Date().setDate(new Date().getDate() - 30)), endDate: new Date() } : { farmId: 0, pondId: 0, startDate: new Date(), endDate: new Date() },
+    { enabled: !!selectedFarmId && !!selectedPondId }
   );
 
   // Mutations
@@ -88,11 +88,12 @@ export default function FishFarming() {
 
   const handleAddWaterQuality = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!selectedPondId) return;
+    if (!selectedFarmId || !selectedPondId) return;
 
     const formData = new FormData(e.currentTarget);
 
     await createWaterQuality.mutateAsync({
+      farmId: selectedFarmId,
       pondId: selectedPondId,
       measurementDate: new Date(formData.get("recordDate") as string),
       temperature: parseFloat(formData.get("temperature") as string),
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { trpc } from "@/lib/trpc";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
@@ -16,11 +16,23 @@ import { toast } from "sonner";
 
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
 
+const HISTORY_WINDOWS = {
+  "24h": { label: "Last 24 hours", hours: 24 },
+  "7d": { label: "Last 7 days", hours: 24 * 7 },
+  "30d": { label: "Last 30 days", hours: 24 * 30 },
+  "1y": { label: "Last year", hours: 24 * 365 },
+} as const;
+
+type HistoryWindow = keyof typeof HISTORY_WINDOWS;
+
+const SERIES_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6"];
+
 export default function IoTDashboard() {
   const { user } = useAuth();
   const [selectedFarmId, setSelectedFarmId] = useState<number | null>(null);
   const [selectedDeviceId, setSelectedDeviceId] = useState<number | null>(null);
   const [open, setOpen] = useState(false);
+  const [historyWindow, setHistoryWindow] = useState<HistoryWindow>("24h");
   const [deviceForm, setDeviceForm] = useState({
     deviceSerial: "",
     deviceType: "soil_sensor" as const,
@@ -33,9 +45,18 @@ export default function IoTDashboard() {
     { enabled: !!selectedFarmId }
   );
   const { data: readings = [] } = trpc.iot.getSensorReadings.useQuery(
-    { deviceId: selectedDeviceId! },
+    { deviceId: selectedDeviceId!, limit: 1 },
     { enabled: !!selectedDeviceId }
   );
+  // Rounded to the minute so the query key stays stable between renders
+  const historyFrom = useMemo(() => {
+    const minute = Math.floor(Date.now() / 60000) * 60000;
+    return new Date(minute - HISTORY_WINDOWS[historyWindow].hours * 3600000);
+  }, [historyWindow, selectedDeviceId]);
+  const { data: history } = trpc.iot.getSensorHistory.useQuery(
+    { farmId: selectedFarmId!, deviceId: selectedDeviceId!, from: historyFrom },
+    { enabled: !!selectedFarmId && !!selectedDeviceId }
+  );
   const { data: alerts = [] } = trpc.iot.getAlerts.useQuery(
     { farmId: selectedFarmId! },
     { enabled: !!selectedFarmId }
@@ -73,17 +94,42 @@ export default function IoTDashboard() {
   if (!user) return null;
 
   const selectedDevice = devices.find((d: any) => d.id === selectedDeviceId);
-  const chartData = readings.length > 0 ? {
-    labels: readings.slice(-24).map((r: any) => new Date(r.readingTimestamp).toLocaleTimeString()),
-    datasets: [
-      {
-        label: `${selectedDevice?.deviceType || "Sensor"} (${readings[0]?.unit || "unit"})`,
-        data: readings.slice(-24).map((r: any) => parseFloat(r.value)),
-        borderColor: "#3b82f6",
-        backgroundColor: "rgba(59, 130, 246, 0.1)",
-        tension: 0.4,
-      },
-    ],
+  const series = history?.series ?? [];
+  const bucketTimes = Array.from(
+    new Set(series.flatMap((entry) => entry.points.map((p) => new Date(p.bucketStart).getTime())))
+  ).sort((a, b) => a - b);
+  const formatBucket = (time: number) =>
+    history?.resolution === "day" ? new Date(time).toLocaleDateString() : new Date(time).toLocaleString();
+  const chartData = bucketTimes.length > 0 ? {
+    labels: bucketTimes.map(formatBucket),
+    datasets: series.flatMap((entry, index) => {
+      const color = SERIES_COLORS[index % SERIES_COLORS.length];
+      const byTime = new Map(entry.points.map((p) => [new Date(p.bucketStart).getTime(), p]));
+      const values = (pick: (p: (typeof entry.points)[number]) => number) =>
+        bucketTimes.map((time) => {
+          const point = byTime.get(time);
+          return point ? pick(point) : null;
+        });
+      const name = `${entry.readingType.replace(/_/g, " ")}${entry.unit ? ` (${entry.unit})` : ""}`;
+      const datasets = [
+        {
+          label: name,
+          data: values((p) => p.avg),
+          borderColor: color,
+          backgroundColor: color,
+          tension: 0.4,
+          spanGaps: true,
+        },
+      ];
+      // Rolled-up buckets also show the range each average hides
+      if (history?.resolution !== "raw") {
+        datasets.push(
+          { label: `${name} min`, data: values((p) => p.min), borderColor: `${color}66`, backgroundColor: `${color}66`, tension: 0.4, spanGaps: true },
+          { label: `${name} max`, data: values((p) => p.max), borderColor: `${color}66`, backgroundColor: `${color}66`, tension: 0.4, spanGaps: true }
+        );
+      }
+      return datasets;
+    }),
   } : null;
 
   const activeDevices = devices.filter((d: any) => d.status === "active").length;
@@ -200,7 +246,7 @@ export default function IoTDashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {readings.length > 0 ? new Date(readings[readings.length - 1].readingTimestamp).toLocaleTimeString() : "—"}
+              {readings.length > 0 ? new Date(readings[0].readingTimestamp).toLocaleTimeString() : "—"}
             </div>
             <p className="text-xs text-muted-foreground mt-1">Most recent</p>
           </CardContent>
@@ -243,14 +289,36 @@ export default function IoTDashboard() {
         </TabsContent>
 
         <TabsContent value="readings" className="space-y-4">
-          {selectedDevice && chartData ? (
+          {selectedDevice ? (
             <Card>
               <CardHeader>
-                <CardTitle>Sensor Readings - {selectedDevice.deviceSerial}</CardTitle>
-                <CardDescription>Last 24 readings</CardDescription>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle>Sensor Readings - {selectedDevice.deviceSerial}</CardTitle>
+                    <CardDescription>
+                      {history?.resolution === "day" ? "Daily averages" : history?.resolution === "hour" ? "Hourly averages" : "Raw readings"}
+                    </CardDescription>
+                  </div>
+                  <Select value={historyWindow} onValueChange={(v) => setHistoryWindow(v as HistoryWindow)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(HISTORY_WINDOWS).map(([key, option]) => (
+                        <SelectItem key={key} value={key}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </CardHeader>
               <CardContent>
-                <Line data={chartData} options={{ responsive: true, plugins: { legend: { position: "top" as const } } }} />
+                {chartData ? (
+                  <Line data={chartData} options={{ responsive: true, plugins: { legend: { position: "top" as const } } }} />
+                ) : (
+                  <p className="py-12 text-center text-muted-foreground">No readings in this period</p>
+                )}
               </CardContent>
             </Card>
           ) : (
@@ -442,6 +442,7 @@ export default function IoTManagement() {
                       </div>
                       <Button
                         onClick={() => recordReading.mutate({
+                          farmId: selectedFarm || 0,
                           deviceId: selectedDevice || 0,
                           value: parseFloat(newReading.value),
                           unit: newReading.unit,
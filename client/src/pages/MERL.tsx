@@ -20,16 +20,20 @@ export default function MERL() {
 
   // Queries
   const { data: farms = [] } = trpc.farms.list.useQuery();
+  const farmId = selectedFarm ?? farms[0]?.id;
   const { data: kpis = [], refetch: refetchKPIs } = trpc.merl.kpis.list.useQuery();
-  const { data: kpiValues = [], refetch: refetchKPIValues } = trpc.merl.kpiValues.list.useQuery({
-    farmId: selectedFarm || undefined,
-  });
-  const { data: visits = [], refetch: refetchVisits } = trpc.merl.visits.list.useQuery({
-    farmId: selectedFarm || undefined,
-  });
-  const { data: challenges = [], refetch: refetchChallenges } = trpc.merl.challenges.list.useQuery({
-    farmId: selectedFarm || undefined,
-  });
+  const { data: kpiValues = [], refetch: refetchKPIValues } = trpc.merl.kpiValues.list.useQuery(
+    { farmId: farmId! },
+    { enabled: !!farmId }
+  );
+  const { data: visits = [], refetch: refetchVisits } = trpc.merl.visits.list.useQuery(
+    { farmId: farmId! },
+    { enabled: !!farmId }
+  );
+  const { data: challenges = [], refetch: refetchChallenges } = trpc.merl.challenges.list.useQuery(
+    { farmId: farmId! },
+    { enabled: !!farmId }
+  );
 
   // Mutations
   const createKPI = trpc.merl.kpis.create.useMutation({
@@ -114,14 +118,13 @@ export default function MERL() {
         </div>
         <div className="flex gap-2">
           <Select
-            value={selectedFarm?.toString() || "all"}
-            onValueChange={(value) => setSelectedFarm(value === "all" ? null : parseInt(value))}
+            value={farmId?.toString() ?? ""}
+            onValueChange={(value) => setSelectedFarm(parseInt(value))}
           >
             <SelectTrigger className="w-[200px]">
-              <SelectValue placeholder="All farms" />
+              <SelectValue placeholder="Select a farm" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All farms</SelectItem>
               {farms.map((f) => (
                 <SelectItem key={f.id} value={f.id.toString()}>
                   {f.farmName}
@@ -43,6 +43,7 @@ export default function ReportTemplateCustomization() {
   const [footerText, setFooterText] = useState("");
   const [logoUrl, setLogoUrl] = useState("");
   const [pageOrientation, setPageOrientation] = useState<"portrait" | "landscape">("portrait");
+  const [pageSize, setPageSize] = useState<"A4" | "Letter">("A4");
 
   const [includeCharts, setIncludeCharts] = useState(true);
   const [includeMetrics, setIncludeMetrics] = useState(true);
@@ -87,6 +88,7 @@ export default function ReportTemplateCustomization() {
         footerText,
         logoUrl,
         pageOrientation,
+        pageSize,
         includeCharts,
         includeMetrics,
         includeRecommendations,
@@ -216,6 +218,19 @@ export default function ReportTemplateCustomization() {
               </Select>
             </div>
 
+            <div>
+              <Label>Page Size</Label>
+              <Select value={pageSize} onValueChange={(value: any) => setPageSize(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="A4">A4</SelectItem>
+                  <SelectItem value="Letter">Letter</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div>
               <Label>Header Text</Label>
               <Input
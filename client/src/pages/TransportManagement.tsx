@@ -19,7 +19,6 @@ export default function TransportManagement() {
   // Queries
   const { data: transportRequests = [], refetch: refetchRequests } = trpc.transport.requests.list.useQuery({});
   const { data: orders = [], refetch: refetchOrders } = trpc.transport.orders.list.useQuery({});
-  const { data: listings = [] } = trpc.transport.listings.list.useQuery({});
 
   // Mutations
   const createRequest = trpc.transport.requests.create.useMutation({
@@ -127,14 +127,14 @@ export default function AnalyticsDashboard() {
     setIsExporting(true);
     try {
       const result = await generatePDFReport.mutateAsync({ startDate, endDate, farmId: selectedFarmId });
-      const blob = new Blob([result.html], { type: 'text/html' });
+      const blob = new Blob([Uint8Array.from(atob(result.data), c => c.charCodeAt(0))], {
+        type: 'application/pdf'
+      });
       const url = URL.createObjectURL(blob);
-      const win = window.open(url, '_blank');
-      if (win) {
-        win.onload = () => {
-          win.print();
-        };
-      }
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = result.filename;
+      a.click();
       URL.revokeObjectURL(url);
     } catch (error) {
       console.error('PDF generation failed:', error);
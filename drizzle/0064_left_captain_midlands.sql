@@ -0,0 +1,23 @@
+CREATE TABLE `iotDeviceKeys` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`deviceId` int NOT NULL,
+	`keyPrefix` varchar(16) NOT NULL,
+	`keyHash` varchar(64) NOT NULL,
+	`label` varchar(100),
+	`createdBy` int,
+	`lastUsedAt` timestamp,
+	`revokedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `iotDeviceKeys_id` PRIMARY KEY(`id`),
+	CONSTRAINT `iotDeviceKeys_keyHash_unique` UNIQUE(`keyHash`)
+);
+--> statement-breakpoint
+-- Collapse existing duplicates onto the latest row so the unique constraint can be added
+DELETE `older` FROM `sensorReadings` AS `older`
+JOIN `sensorReadings` AS `newer`
+	ON `newer`.`deviceId` = `older`.`deviceId`
+	AND `newer`.`readingType` = `older`.`readingType`
+	AND `newer`.`readingTimestamp` = `older`.`readingTimestamp`
+	AND `newer`.`id` > `older`.`id`;
+--> statement-breakpoint
+ALTER TABLE `sensorReadings` ADD CONSTRAINT `sensorReadings_device_type_ts_unique` UNIQUE(`deviceId`,`readingType`,`readingTimestamp`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `sensorAlertRules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`deviceId` int,
+	`readingType` varchar(100) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`minValue` decimal(12,4),
+	`maxValue` decimal(12,4),
+	`maxRateOfChange` decimal(12,4),
+	`staleAfterMinutes` int,
+	`hysteresis` decimal(12,4) NOT NULL DEFAULT '0',
+	`severity` enum('info','warning','critical') NOT NULL DEFAULT 'warning',
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `sensorAlertRules_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `alerts` ADD `ruleId` int;--> statement-breakpoint
+ALTER TABLE `alerts` ADD `readingType` varchar(100);--> statement-breakpoint
+ALTER TABLE `alerts` ADD `triggerValue` decimal(12,4);
\ No newline at end of file
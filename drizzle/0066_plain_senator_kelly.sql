@@ -0,0 +1,33 @@
+CREATE TABLE `sensorReadingsDaily` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`deviceId` int NOT NULL,
+	`readingType` varchar(100) NOT NULL,
+	`bucketStart` timestamp NOT NULL,
+	`minValue` decimal(12,4) NOT NULL,
+	`maxValue` decimal(12,4) NOT NULL,
+	`avgValue` decimal(12,4) NOT NULL,
+	`readingCount` int NOT NULL,
+	`lastValue` decimal(12,4) NOT NULL,
+	`lastReadingAt` timestamp NOT NULL,
+	`unit` varchar(50),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `sensorReadingsDaily_id` PRIMARY KEY(`id`),
+	CONSTRAINT `sensorReadingsDaily_device_type_bucket_unique` UNIQUE(`deviceId`,`readingType`,`bucketStart`)
+);
+--> statement-breakpoint
+CREATE TABLE `sensorReadingsHourly` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`deviceId` int NOT NULL,
+	`readingType` varchar(100) NOT NULL,
+	`bucketStart` timestamp NOT NULL,
+	`minValue` decimal(12,4) NOT NULL,
+	`maxValue` decimal(12,4) NOT NULL,
+	`avgValue` decimal(12,4) NOT NULL,
+	`readingCount` int NOT NULL,
+	`lastValue` decimal(12,4) NOT NULL,
+	`lastReadingAt` timestamp NOT NULL,
+	`unit` varchar(50),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `sensorReadingsHourly_id` PRIMARY KEY(`id`),
+	CONSTRAINT `sensorReadingsHourly_device_type_bucket_unique` UNIQUE(`deviceId`,`readingType`,`bucketStart`)
+);
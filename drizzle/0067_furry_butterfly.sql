@@ -0,0 +1,5 @@
+ALTER TABLE `irrigation_events` MODIFY COLUMN `schedule_id` int;--> statement-breakpoint
+ALTER TABLE `irrigation_zones` ADD `control_mode` varchar(20) DEFAULT 'manual' NOT NULL;--> statement-breakpoint
+ALTER TABLE `irrigation_zones` ADD `valve_id` varchar(100);--> statement-breakpoint
+ALTER TABLE `irrigation_zones` ADD `flow_rate_liters_per_min` decimal(10,2);--> statement-breakpoint
+ALTER TABLE `irrigation_zones` ADD `max_daily_liters` decimal(15,2);
\ No newline at end of file
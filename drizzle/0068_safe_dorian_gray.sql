@@ -0,0 +1,3 @@
+ALTER TABLE `marketplaceTransactions` ADD `provider` varchar(20);--> statement-breakpoint
+ALTER TABLE `marketplaceTransactions` ADD `currency` varchar(3);--> statement-breakpoint
+ALTER TABLE `marketplaceTransactions` ADD `providerTransactionId` varchar(100);
\ No newline at end of file
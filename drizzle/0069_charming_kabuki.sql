@@ -0,0 +1,36 @@
+CREATE TABLE `marketplaceEscrows` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`orderId` int NOT NULL,
+	`buyerId` int NOT NULL,
+	`sellerId` int NOT NULL,
+	`amount` decimal(10,2) NOT NULL,
+	`commissionRate` decimal(5,4) NOT NULL,
+	`commissionAmount` decimal(10,2) NOT NULL,
+	`sellerAmount` decimal(10,2) NOT NULL,
+	`status` enum('held','frozen','released','refunded') NOT NULL DEFAULT 'held',
+	`releaseAfter` timestamp,
+	`releaseReason` varchar(255),
+	`heldAt` timestamp NOT NULL DEFAULT (now()),
+	`releasedAt` timestamp,
+	`refundedAt` timestamp,
+	`payoutBatchId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `marketplaceEscrows_id` PRIMARY KEY(`id`),
+	CONSTRAINT `marketplaceEscrows_orderId_unique` UNIQUE(`orderId`)
+);
+--> statement-breakpoint
+CREATE TABLE `marketplacePayoutBatches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sellerId` int NOT NULL,
+	`totalAmount` decimal(12,2) NOT NULL,
+	`orderCount` int NOT NULL,
+	`status` enum('pending','processing','completed','failed') NOT NULL DEFAULT 'pending',
+	`transactionReference` varchar(255),
+	`paidAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `marketplacePayoutBatches_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `marketplaceSellerPayouts` ADD `batchId` int;
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE `journalEntries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`entryDate` date NOT NULL,
+	`description` varchar(500) NOT NULL,
+	`sourceType` varchar(30) NOT NULL,
+	`sourceId` int,
+	`sourceKey` varchar(80),
+	`reversesEntryId` int,
+	`reversedAt` timestamp,
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `journalEntries_id` PRIMARY KEY(`id`),
+	CONSTRAINT `journalEntries_sourceKey_unique` UNIQUE(`sourceKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `journalLines` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`entryId` int NOT NULL,
+	`accountId` int NOT NULL,
+	`debit` decimal(14,2) NOT NULL DEFAULT '0',
+	`credit` decimal(14,2) NOT NULL DEFAULT '0',
+	`memo` varchar(255),
+	CONSTRAINT `journalLines_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `ledgerAccounts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`code` varchar(20) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`type` enum('asset','liability','equity','revenue','expense') NOT NULL,
+	`isSystem` boolean NOT NULL DEFAULT false,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ledgerAccounts_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ledger_accounts_farm_code_idx` UNIQUE(`farmId`,`code`)
+);
+--> statement-breakpoint
+CREATE INDEX `journal_entries_farm_date_idx` ON `journalEntries` (`farmId`,`entryDate`);--> statement-breakpoint
+CREATE INDEX `journal_lines_entry_idx` ON `journalLines` (`entryId`);--> statement-breakpoint
+CREATE INDEX `journal_lines_account_idx` ON `journalLines` (`accountId`);
\ No newline at end of file
@@ -0,0 +1,77 @@
+CREATE TABLE `bankAccounts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`institution` varchar(255),
+	`accountType` enum('bank','mobile_money') NOT NULL DEFAULT 'bank',
+	`accountNumberLast4` varchar(4),
+	`currency` varchar(3) NOT NULL DEFAULT 'GHS',
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `bankAccounts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `bankCategorizationRules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`pattern` varchar(255) NOT NULL,
+	`direction` enum('in','out','any') NOT NULL DEFAULT 'any',
+	`category` varchar(100) NOT NULL,
+	`source` enum('manual','learned') NOT NULL DEFAULT 'manual',
+	`hitCount` int NOT NULL DEFAULT 0,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`createdBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `bankCategorizationRules_id` PRIMARY KEY(`id`),
+	CONSTRAINT `bank_rules_farm_pattern_idx` UNIQUE(`farmId`,`pattern`,`direction`)
+);
+--> statement-breakpoint
+CREATE TABLE `bankStatementImports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`bankAccountId` int NOT NULL,
+	`format` enum('ofx','csv','mt940') NOT NULL,
+	`fileName` varchar(255),
+	`statementStart` date,
+	`statementEnd` date,
+	`openingBalance` decimal(14,2),
+	`closingBalance` decimal(14,2),
+	`importedCount` int NOT NULL DEFAULT 0,
+	`skippedCount` int NOT NULL DEFAULT 0,
+	`errorCount` int NOT NULL DEFAULT 0,
+	`importedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `bankStatementImports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `bankTransactions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`bankAccountId` int NOT NULL,
+	`importId` int NOT NULL,
+	`transactionDate` date NOT NULL,
+	`amount` decimal(14,2) NOT NULL,
+	`description` varchar(500) NOT NULL,
+	`reference` varchar(100),
+	`counterparty` varchar(255),
+	`externalId` varchar(100),
+	`fingerprint` varchar(64) NOT NULL,
+	`status` enum('unmatched','matched','ignored','duplicate') NOT NULL DEFAULT 'unmatched',
+	`category` varchar(100),
+	`ruleId` int,
+	`matchedType` enum('expense','revenue','invoice'),
+	`matchedId` int,
+	`matchScore` decimal(4,3),
+	`matchedBy` int,
+	`matchedAt` timestamp,
+	`duplicateOfId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `bankTransactions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `bank_transactions_account_fingerprint_idx` UNIQUE(`bankAccountId`,`fingerprint`)
+);
+--> statement-breakpoint
+CREATE INDEX `bank_transactions_farm_date_idx` ON `bankTransactions` (`farmId`,`transactionDate`);--> statement-breakpoint
+CREATE INDEX `bank_transactions_match_idx` ON `bankTransactions` (`matchedType`,`matchedId`);
\ No newline at end of file
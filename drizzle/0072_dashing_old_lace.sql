@@ -0,0 +1,74 @@
+CREATE TABLE `workflowRunSteps` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`runId` int NOT NULL,
+	`attempt` int NOT NULL,
+	`nodeId` varchar(64) NOT NULL,
+	`nodeType` varchar(30) NOT NULL,
+	`status` enum('completed','failed','skipped') NOT NULL,
+	`output` json,
+	`error` text,
+	`durationMs` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `workflowRunSteps_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `workflowRuns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`workflowId` int NOT NULL,
+	`farmId` int NOT NULL,
+	`versionNumber` int NOT NULL,
+	`triggerEvent` varchar(50) NOT NULL,
+	`triggerData` json,
+	`dedupeKey` varchar(120),
+	`status` enum('pending','running','completed','failed','retrying') NOT NULL DEFAULT 'pending',
+	`attempt` int NOT NULL DEFAULT 0,
+	`nextRetryAt` timestamp,
+	`error` text,
+	`triggeredBy` int,
+	`startedAt` timestamp,
+	`completedAt` timestamp,
+	`durationMs` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `workflowRuns_id` PRIMARY KEY(`id`),
+	CONSTRAINT `workflow_runs_dedupe_idx` UNIQUE(`workflowId`,`dedupeKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `workflowVersions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`workflowId` int NOT NULL,
+	`versionNumber` int NOT NULL,
+	`triggerEvent` varchar(50) NOT NULL,
+	`triggerConditions` json,
+	`nodes` json NOT NULL,
+	`edges` json NOT NULL,
+	`versionNotes` text,
+	`status` enum('active','superseded','archived') NOT NULL DEFAULT 'active',
+	`createdBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `workflowVersions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `workflow_versions_workflow_version_idx` UNIQUE(`workflowId`,`versionNumber`)
+);
+--> statement-breakpoint
+CREATE TABLE `workflows` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`description` text,
+	`triggerEvent` varchar(50) NOT NULL,
+	`triggerConditions` json,
+	`nodes` json NOT NULL,
+	`edges` json NOT NULL,
+	`currentVersion` int NOT NULL DEFAULT 1,
+	`maxRetries` int NOT NULL DEFAULT 2,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`isTemplate` boolean NOT NULL DEFAULT false,
+	`templateCategory` varchar(100),
+	`createdBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `workflows_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `workflow_run_steps_run_idx` ON `workflowRunSteps` (`runId`);--> statement-breakpoint
+CREATE INDEX `workflow_runs_status_idx` ON `workflowRuns` (`status`,`nextRetryAt`);--> statement-breakpoint
+CREATE INDEX `workflows_farm_trigger_idx` ON `workflows` (`farmId`,`triggerEvent`);
\ No newline at end of file
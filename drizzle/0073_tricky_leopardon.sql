@@ -0,0 +1,19 @@
+CREATE TABLE `ussdSessions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` varchar(100) NOT NULL,
+	`provider` enum('africastalking','hubtel') NOT NULL,
+	`phoneNumber` varchar(20) NOT NULL,
+	`serviceCode` varchar(30),
+	`userId` int,
+	`farmId` int,
+	`state` json NOT NULL,
+	`inputCount` int NOT NULL DEFAULT 0,
+	`status` enum('active','ended','timed_out') NOT NULL DEFAULT 'active',
+	`lastResponse` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ussdSessions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ussd_sessions_session_idx` UNIQUE(`provider`,`sessionId`)
+);
+--> statement-breakpoint
+CREATE INDEX `ussd_sessions_status_idx` ON `ussdSessions` (`status`,`updatedAt`);
\ No newline at end of file
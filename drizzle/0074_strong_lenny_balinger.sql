@@ -0,0 +1,21 @@
+CREATE TABLE `smsInboundMessages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`provider` enum('africastalking','hubtel') NOT NULL,
+	`externalId` varchar(100) NOT NULL,
+	`fromNumber` varchar(20) NOT NULL,
+	`body` text NOT NULL,
+	`userId` int,
+	`workerId` int,
+	`farmId` int,
+	`command` varchar(20),
+	`status` enum('received','processed','rejected','unregistered') NOT NULL DEFAULT 'received',
+	`recordType` varchar(30),
+	`recordId` int,
+	`reply` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `smsInboundMessages_id` PRIMARY KEY(`id`),
+	CONSTRAINT `sms_inbound_external_idx` UNIQUE(`provider`,`externalId`)
+);
+--> statement-breakpoint
+CREATE INDEX `sms_inbound_farm_idx` ON `smsInboundMessages` (`farmId`,`createdAt`);
\ No newline at end of file
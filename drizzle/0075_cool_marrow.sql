@@ -0,0 +1,27 @@
+CREATE TABLE `searchDocuments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`entityType` varchar(30) NOT NULL,
+	`entityId` int NOT NULL,
+	`farmId` int,
+	`visibility` enum('farm','public') NOT NULL DEFAULT 'farm',
+	`title` varchar(255) NOT NULL,
+	`subtitle` varchar(255),
+	`path` varchar(255) NOT NULL,
+	`clickCount` int NOT NULL DEFAULT 0,
+	`sourceUpdatedAt` timestamp,
+	`indexedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `searchDocuments_id` PRIMARY KEY(`id`),
+	CONSTRAINT `search_documents_entity_idx` UNIQUE(`entityType`,`entityId`)
+);
+--> statement-breakpoint
+CREATE TABLE `searchTerms` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`term` varchar(64) NOT NULL,
+	`documentId` int NOT NULL,
+	`weight` int NOT NULL DEFAULT 1,
+	CONSTRAINT `searchTerms_id` PRIMARY KEY(`id`),
+	CONSTRAINT `search_terms_term_doc_idx` UNIQUE(`term`,`documentId`)
+);
+--> statement-breakpoint
+CREATE INDEX `search_documents_farm_idx` ON `searchDocuments` (`farmId`);--> statement-breakpoint
+CREATE INDEX `search_terms_document_idx` ON `searchTerms` (`documentId`);
\ No newline at end of file
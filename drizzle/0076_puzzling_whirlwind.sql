@@ -0,0 +1,3 @@
+ALTER TABLE `reportSchedules` ADD `templateId` int;--> statement-breakpoint
+ALTER TABLE `reportTemplateCustomization` ADD `pageSize` enum('A4','Letter') DEFAULT 'A4' NOT NULL;--> statement-breakpoint
+ALTER TABLE `reportSchedules` ADD CONSTRAINT `reportSchedules_templateId_reportTemplates_id_fk` FOREIGN KEY (`templateId`) REFERENCES `reportTemplates`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE `backgroundJobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`payload` json NOT NULL,
+	`uniqueKey` varchar(191),
+	`status` enum('pending','running','completed','dead','cancelled') NOT NULL DEFAULT 'pending',
+	`priority` int NOT NULL DEFAULT 0,
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 5,
+	`runAt` timestamp NOT NULL DEFAULT (now()),
+	`lockedBy` varchar(100),
+	`lockedUntil` timestamp,
+	`lastError` text,
+	`result` json,
+	`startedAt` timestamp,
+	`finishedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `backgroundJobs_id` PRIMARY KEY(`id`),
+	CONSTRAINT `background_jobs_unique_key_idx` UNIQUE(`uniqueKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `jobSchedules` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`cronExpression` varchar(100) NOT NULL,
+	`jobName` varchar(100) NOT NULL,
+	`payload` json NOT NULL,
+	`isActive` boolean NOT NULL DEFAULT true,
+	`nextRunAt` timestamp NOT NULL,
+	`lastRunAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `jobSchedules_id` PRIMARY KEY(`id`),
+	CONSTRAINT `jobSchedules_name_unique` UNIQUE(`name`)
+);
+--> statement-breakpoint
+CREATE INDEX `background_jobs_claim_idx` ON `backgroundJobs` (`status`,`runAt`);--> statement-breakpoint
+CREATE INDEX `background_jobs_name_idx` ON `backgroundJobs` (`name`,`status`);
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE `animalWithdrawals` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`animalId` int NOT NULL,
+	`medicationName` varchar(255) NOT NULL,
+	`source` enum('prescription','medication_usage','manual') NOT NULL,
+	`sourceId` int,
+	`ruleId` int,
+	`lastDoseAt` timestamp NOT NULL,
+	`meatClearAt` timestamp NOT NULL,
+	`milkClearAt` timestamp NOT NULL,
+	`eggClearAt` timestamp NOT NULL,
+	`recordedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `animalWithdrawals_id` PRIMARY KEY(`id`),
+	CONSTRAINT `animal_withdrawals_source_idx` UNIQUE(`source`,`sourceId`)
+);
+--> statement-breakpoint
+CREATE TABLE `withdrawalPeriods` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int,
+	`medicationName` varchar(255) NOT NULL,
+	`species` varchar(100),
+	`meatDays` int NOT NULL DEFAULT 0,
+	`milkHours` int NOT NULL DEFAULT 0,
+	`eggDays` int NOT NULL DEFAULT 0,
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `withdrawalPeriods_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `performanceMetrics` ADD `withdrawalHold` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX `animal_withdrawals_animal_idx` ON `animalWithdrawals` (`animalId`);--> statement-breakpoint
+CREATE INDEX `animal_withdrawals_farm_idx` ON `animalWithdrawals` (`farmId`,`lastDoseAt`);--> statement-breakpoint
+CREATE INDEX `withdrawal_periods_medication_idx` ON `withdrawalPeriods` (`medicationName`);
\ No newline at end of file
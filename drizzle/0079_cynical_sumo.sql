@@ -0,0 +1,71 @@
+CREATE TABLE `bulkTankCollections` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`collectionDate` date NOT NULL,
+	`volumeLiters` decimal(8,2) NOT NULL,
+	`buyer` varchar(255),
+	`fatPercent` decimal(4,2),
+	`proteinPercent` decimal(4,2),
+	`somaticCellCount` int,
+	`pricePerLiter` decimal(8,2),
+	`notes` text,
+	`recordedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `bulkTankCollections_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `lactations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`animalId` int NOT NULL,
+	`lactationNumber` int NOT NULL,
+	`calvingDate` date NOT NULL,
+	`breedingRecordId` int,
+	`calvingEase` enum('unassisted','assisted','difficult','caesarean'),
+	`dryOffDate` date,
+	`status` enum('milking','dry','ended') NOT NULL DEFAULT 'milking',
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `lactations_id` PRIMARY KEY(`id`),
+	CONSTRAINT `lactations_animal_number_idx` UNIQUE(`animalId`,`lactationNumber`)
+);
+--> statement-breakpoint
+CREATE TABLE `milkTests` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`animalId` int NOT NULL,
+	`lactationId` int NOT NULL,
+	`testDate` date NOT NULL,
+	`yieldLiters` decimal(6,2),
+	`fatPercent` decimal(4,2),
+	`proteinPercent` decimal(4,2),
+	`lactosePercent` decimal(4,2),
+	`somaticCellCount` int,
+	`laboratory` varchar(255),
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `milkTests_id` PRIMARY KEY(`id`),
+	CONSTRAINT `milk_tests_animal_date_idx` UNIQUE(`animalId`,`testDate`)
+);
+--> statement-breakpoint
+CREATE TABLE `milkings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`animalId` int NOT NULL,
+	`lactationId` int NOT NULL,
+	`milkingDate` date NOT NULL,
+	`session` enum('am','midday','pm') NOT NULL,
+	`yieldLiters` decimal(6,2) NOT NULL,
+	`withdrawalHold` boolean NOT NULL DEFAULT false,
+	`recordedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `milkings_id` PRIMARY KEY(`id`),
+	CONSTRAINT `milkings_session_idx` UNIQUE(`animalId`,`milkingDate`,`session`)
+);
+--> statement-breakpoint
+CREATE INDEX `bulk_tank_farm_date_idx` ON `bulkTankCollections` (`farmId`,`collectionDate`);--> statement-breakpoint
+CREATE INDEX `lactations_farm_status_idx` ON `lactations` (`farmId`,`status`);--> statement-breakpoint
+CREATE INDEX `milk_tests_lactation_idx` ON `milkTests` (`lactationId`);--> statement-breakpoint
+CREATE INDEX `milkings_lactation_idx` ON `milkings` (`lactationId`,`milkingDate`);--> statement-breakpoint
+CREATE INDEX `milkings_farm_date_idx` ON `milkings` (`farmId`,`milkingDate`);
\ No newline at end of file
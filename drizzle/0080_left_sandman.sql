@@ -0,0 +1,57 @@
+CREATE TABLE `heatObservations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`animalId` int NOT NULL,
+	`observedAt` timestamp NOT NULL,
+	`intensity` enum('weak','moderate','strong') NOT NULL DEFAULT 'moderate',
+	`method` enum('visual','tail_paint','pedometer','teaser','other') NOT NULL DEFAULT 'visual',
+	`notes` text,
+	`recordedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `heatObservations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `pregnancyChecks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`animalId` int NOT NULL,
+	`breedingRecordId` int NOT NULL,
+	`dueDate` date NOT NULL,
+	`taskId` int,
+	`result` enum('pending','pregnant','open','inconclusive','cancelled') NOT NULL DEFAULT 'pending',
+	`method` enum('palpation','ultrasound','blood_test','observation'),
+	`checkedAt` date,
+	`checkedBy` int,
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `pregnancyChecks_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `semenBatches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`sireCode` varchar(100) NOT NULL,
+	`sireName` varchar(255),
+	`sireAnimalId` int,
+	`breed` varchar(255),
+	`batchNumber` varchar(100) NOT NULL,
+	`supplier` varchar(255),
+	`strawsReceived` int NOT NULL,
+	`strawsRemaining` int NOT NULL,
+	`receivedAt` date NOT NULL,
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `semenBatches_id` PRIMARY KEY(`id`),
+	CONSTRAINT `semen_batches_farm_batch_idx` UNIQUE(`farmId`,`sireCode`,`batchNumber`)
+);
+--> statement-breakpoint
+ALTER TABLE `breedingRecords` ADD `kind` enum('service','parentage') DEFAULT 'service' NOT NULL;--> statement-breakpoint
+ALTER TABLE `breedingRecords` ADD `method` enum('natural','ai');--> statement-breakpoint
+ALTER TABLE `breedingRecords` ADD `semenBatchId` int;--> statement-breakpoint
+ALTER TABLE `breedingRecords` ADD `technician` varchar(255);--> statement-breakpoint
+UPDATE `breedingRecords` SET `kind` = 'parentage' WHERE `damId` IS NOT NULL AND `damId` <> `animalId`;--> statement-breakpoint
+CREATE INDEX `heat_observations_animal_idx` ON `heatObservations` (`animalId`,`observedAt`);--> statement-breakpoint
+CREATE INDEX `heat_observations_farm_idx` ON `heatObservations` (`farmId`,`observedAt`);--> statement-breakpoint
+CREATE INDEX `pregnancy_checks_breeding_idx` ON `pregnancyChecks` (`breedingRecordId`);--> statement-breakpoint
+CREATE INDEX `pregnancy_checks_farm_due_idx` ON `pregnancyChecks` (`farmId`,`result`,`dueDate`);
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE `sessionWeights` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sessionId` int NOT NULL,
+	`animalId` int NOT NULL,
+	`weightKg` decimal(8,2) NOT NULL,
+	`weighedAt` timestamp NOT NULL,
+	`scannedTag` varchar(100),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `sessionWeights_id` PRIMARY KEY(`id`),
+	CONSTRAINT `session_weights_animal_idx` UNIQUE(`sessionId`,`animalId`)
+);
+--> statement-breakpoint
+CREATE TABLE `weighingSessions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`groupName` varchar(255) NOT NULL,
+	`sessionDate` date NOT NULL,
+	`method` enum('tag_scan','csv_import','manual') NOT NULL DEFAULT 'tag_scan',
+	`scaleName` varchar(255),
+	`status` enum('open','closed') NOT NULL DEFAULT 'open',
+	`notes` text,
+	`createdBy` int,
+	`closedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `weighingSessions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `session_weights_animal_date_idx` ON `sessionWeights` (`animalId`,`weighedAt`);--> statement-breakpoint
+CREATE INDEX `weighing_sessions_farm_group_idx` ON `weighingSessions` (`farmId`,`groupName`,`sessionDate`);
\ No newline at end of file
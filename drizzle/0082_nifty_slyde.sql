@@ -0,0 +1,53 @@
+CREATE TABLE `fishStockEvents` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`stockingId` int NOT NULL,
+	`pondId` int NOT NULL,
+	`eventType` enum('mortality','sampling','harvest') NOT NULL,
+	`eventDate` date NOT NULL,
+	`fishCount` int NOT NULL,
+	`totalWeightKg` decimal(12,3),
+	`averageWeightG` decimal(10,2),
+	`cause` varchar(255),
+	`salePricePerKg` decimal(10,2),
+	`notes` text,
+	`recordedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `fishStockEvents_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `pondWaterQuality` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`pondId` int NOT NULL,
+	`farmId` int NOT NULL,
+	`measuredAt` timestamp NOT NULL,
+	`temperatureC` decimal(5,2),
+	`ph` decimal(4,2),
+	`dissolvedOxygenMgL` decimal(6,2),
+	`totalAmmoniaMgL` decimal(8,3),
+	`unionizedAmmoniaMgL` decimal(8,4),
+	`nitriteMgL` decimal(8,3),
+	`nitrateMgL` decimal(8,2),
+	`turbidityNtu` decimal(8,2),
+	`status` enum('ok','warning','critical') NOT NULL DEFAULT 'ok',
+	`issues` json,
+	`notes` text,
+	`recordedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `pondWaterQuality_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `alerts` ADD `pondId` int;--> statement-breakpoint
+ALTER TABLE `fishPondActivities` ADD `feedType` varchar(100);--> statement-breakpoint
+ALTER TABLE `fishPondActivities` ADD `cost` decimal(12,2);--> statement-breakpoint
+ALTER TABLE `fishStockingRecords` ADD `initialAverageWeightG` decimal(10,2);--> statement-breakpoint
+ALTER TABLE `fishStockingRecords` ADD `targetWeightG` decimal(10,2);--> statement-breakpoint
+ALTER TABLE `fishStockingRecords` ADD `source` varchar(255);--> statement-breakpoint
+ALTER TABLE `fishStockingRecords` ADD `cost` decimal(12,2);--> statement-breakpoint
+ALTER TABLE `fishStockEvents` ADD CONSTRAINT `fishStockEvents_stockingId_fishStockingRecords_id_fk` FOREIGN KEY (`stockingId`) REFERENCES `fishStockingRecords`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `fishStockEvents` ADD CONSTRAINT `fishStockEvents_pondId_fishPonds_id_fk` FOREIGN KEY (`pondId`) REFERENCES `fishPonds`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `fishStockEvents` ADD CONSTRAINT `fishStockEvents_recordedBy_users_id_fk` FOREIGN KEY (`recordedBy`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `pondWaterQuality` ADD CONSTRAINT `pondWaterQuality_pondId_fishPonds_id_fk` FOREIGN KEY (`pondId`) REFERENCES `fishPonds`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `pondWaterQuality` ADD CONSTRAINT `pondWaterQuality_farmId_farms_id_fk` FOREIGN KEY (`farmId`) REFERENCES `farms`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `pondWaterQuality` ADD CONSTRAINT `pondWaterQuality_recordedBy_users_id_fk` FOREIGN KEY (`recordedBy`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `fish_stock_events_stocking_idx` ON `fishStockEvents` (`stockingId`,`eventDate`);--> statement-breakpoint
+CREATE INDEX `pond_water_quality_pond_idx` ON `pondWaterQuality` (`pondId`,`measuredAt`);
\ No newline at end of file
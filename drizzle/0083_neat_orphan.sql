@@ -0,0 +1,7 @@
+ALTER TABLE `farms` ADD `boundary` json;--> statement-breakpoint
+ALTER TABLE `fieldSegments` ADD `boundary` json;--> statement-breakpoint
+ALTER TABLE `fields` ADD `boundary` json;--> statement-breakpoint
+ALTER TABLE `fields` ADD `boundaryWest` decimal(11,8);--> statement-breakpoint
+ALTER TABLE `fields` ADD `boundarySouth` decimal(10,8);--> statement-breakpoint
+ALTER TABLE `fields` ADD `boundaryEast` decimal(11,8);--> statement-breakpoint
+ALTER TABLE `fields` ADD `boundaryNorth` decimal(10,8);
\ No newline at end of file
@@ -0,0 +1,83 @@
+CREATE TABLE `chemicalProducts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`activeIngredient` varchar(255) NOT NULL,
+	`formulation` varchar(50),
+	`registrationNumber` varchar(100),
+	`unit` enum('L','kg') NOT NULL DEFAULT 'L',
+	`currentStock` decimal(12,3) NOT NULL DEFAULT '0',
+	`reorderLevel` decimal(12,3),
+	`preHarvestIntervalDays` int NOT NULL DEFAULT 0,
+	`reEntryIntervalHours` int NOT NULL DEFAULT 0,
+	`batchNumber` varchar(100),
+	`expiryDate` date,
+	`unitCost` decimal(12,2),
+	`storageLocation` varchar(255),
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `chemicalProducts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `chemicalStockTransactions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`productId` int NOT NULL,
+	`transactionType` enum('purchase','spray','adjustment','disposal') NOT NULL,
+	`quantity` decimal(12,3) NOT NULL,
+	`sprayApplicationId` int,
+	`transactionDate` date NOT NULL,
+	`recordedBy` int,
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `chemicalStockTransactions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `sprayApplicationProducts` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`sprayApplicationId` int NOT NULL,
+	`productId` int NOT NULL,
+	`productName` varchar(255) NOT NULL,
+	`activeIngredient` varchar(255) NOT NULL,
+	`ratePerHectare` decimal(10,3) NOT NULL,
+	`unit` enum('L','kg') NOT NULL,
+	`quantityUsed` decimal(12,3) NOT NULL,
+	`preHarvestIntervalDays` int NOT NULL,
+	`reEntryIntervalHours` int NOT NULL,
+	CONSTRAINT `sprayApplicationProducts_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `sprayApplications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`fieldId` int,
+	`cycleId` int,
+	`healthRecordId` int,
+	`cropTreatmentId` int,
+	`target` varchar(255),
+	`appliedAt` timestamp NOT NULL,
+	`areaSprayedHectares` decimal(10,2) NOT NULL,
+	`waterVolumeLitersPerHa` decimal(10,2),
+	`equipment` varchar(255),
+	`operatorName` varchar(255) NOT NULL,
+	`operatorUserId` int,
+	`temperatureC` decimal(5,1),
+	`humidityPercent` decimal(5,1),
+	`windSpeedKmh` decimal(5,1),
+	`windDirection` varchar(10),
+	`weatherConditions` varchar(255),
+	`reEntryAt` timestamp NOT NULL,
+	`safeHarvestDate` date NOT NULL,
+	`notes` text,
+	`recordedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `sprayApplications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `chemical_products_farm_idx` ON `chemicalProducts` (`farmId`,`name`);--> statement-breakpoint
+CREATE INDEX `chemical_stock_tx_product_idx` ON `chemicalStockTransactions` (`productId`,`transactionDate`);--> statement-breakpoint
+CREATE INDEX `spray_application_products_spray_idx` ON `sprayApplicationProducts` (`sprayApplicationId`);--> statement-breakpoint
+CREATE INDEX `spray_applications_farm_idx` ON `sprayApplications` (`farmId`,`appliedAt`);--> statement-breakpoint
+CREATE INDEX `spray_applications_cycle_idx` ON `sprayApplications` (`cycleId`,`safeHarvestDate`);--> statement-breakpoint
+CREATE INDEX `spray_applications_field_idx` ON `sprayApplications` (`fieldId`,`safeHarvestDate`);
\ No newline at end of file
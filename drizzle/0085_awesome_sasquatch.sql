@@ -0,0 +1,36 @@
+CREATE TABLE `rotationPlanSeasons` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`planId` int NOT NULL,
+	`sequence` int NOT NULL,
+	`cropId` int NOT NULL,
+	`varietyName` varchar(255),
+	`plantingDate` date NOT NULL,
+	`expectedHarvestDate` date,
+	`score` int,
+	`reasons` json,
+	`cycleId` int,
+	CONSTRAINT `rotationPlanSeasons_id` PRIMARY KEY(`id`),
+	CONSTRAINT `rotation_plan_seasons_sequence_idx` UNIQUE(`planId`,`sequence`)
+);
+--> statement-breakpoint
+CREATE TABLE `rotationPlans` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`farmId` int NOT NULL,
+	`fieldId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`status` enum('draft','accepted','cancelled') NOT NULL DEFAULT 'draft',
+	`score` int,
+	`violations` json,
+	`notes` text,
+	`createdBy` int,
+	`acceptedBy` int,
+	`acceptedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `rotationPlans_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `cropCycles` ADD `fieldId` int;--> statement-breakpoint
+ALTER TABLE `crops` ADD `botanicalFamily` varchar(100);--> statement-breakpoint
+ALTER TABLE `soilTests` ADD `fieldId` int;--> statement-breakpoint
+CREATE INDEX `rotation_plans_field_idx` ON `rotationPlans` (`farmId`,`fieldId`,`status`);
\ No newline at end of file
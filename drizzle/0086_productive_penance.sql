@@ -0,0 +1,28 @@
+CREATE TABLE `cropGddDaily` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`cycleId` int NOT NULL,
+	`date` date NOT NULL,
+	`minTemperature` decimal(5,2) NOT NULL,
+	`maxTemperature` decimal(5,2) NOT NULL,
+	`gdd` decimal(5,1) NOT NULL,
+	`cumulativeGdd` decimal(8,1) NOT NULL,
+	`source` enum('weather','sensor') NOT NULL,
+	CONSTRAINT `cropGddDaily_id` PRIMARY KEY(`id`),
+	CONSTRAINT `crop_gdd_daily_cycle_date_idx` UNIQUE(`cycleId`,`date`)
+);
+--> statement-breakpoint
+CREATE TABLE `cropStageTasks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`cycleId` int NOT NULL,
+	`triggerKey` varchar(50) NOT NULL,
+	`stage` varchar(20) NOT NULL,
+	`taskAssignmentId` int NOT NULL,
+	`reachedOn` date NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `cropStageTasks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `crop_stage_tasks_cycle_trigger_idx` UNIQUE(`cycleId`,`triggerKey`)
+);
+--> statement-breakpoint
+ALTER TABLE `cropCycles` ADD `accumulatedGdd` decimal(8,1);--> statement-breakpoint
+ALTER TABLE `cropCycles` ADD `growthStage` varchar(20);--> statement-breakpoint
+ALTER TABLE `cropCycles` ADD `gddUpdatedAt` timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `marketplaceEscrows` MODIFY COLUMN `status` enum('held','frozen','refunding','released','refunded') NOT NULL DEFAULT 'held';
\ No newline at end of file
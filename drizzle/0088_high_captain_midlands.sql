@@ -0,0 +1 @@
+ALTER TABLE `invoices` ADD `paidAt` timestamp;
\ No newline at end of file
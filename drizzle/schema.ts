@@ -1,4 +1,4 @@
-import { decimal, int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, boolean, date } from "drizzle-orm/mysql-core";
+import { decimal, int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, boolean, date, uniqueIndex, index } from "drizzle-orm/mysql-core";
 import { relations } from "drizzle-orm";
 
 /**
@@ -96,6 +96,14 @@ export type InsertSpecialistProfile = typeof specialistProfiles.$inferInsert;
 // ============================================================================
 // FARMS
 // ============================================================================
+/**
+ * Boundary of a farm, field or segment: a GeoJSON (RFC 7946) Polygon or
+ * MultiPolygon in WGS84, positions as [longitude, latitude]
+ */
+export type BoundaryGeometry =
+  | { type: "Polygon"; coordinates: [number, number][][] }
+  | { type: "MultiPolygon"; coordinates: [number, number][][][] };
+
 export const farms = mysqlTable("farms", {
   id: int("id").autoincrement().primaryKey(),
   farmerUserId: int("farmerUserId").notNull(),
@@ -103,7 +111,8 @@ export const farms = mysqlTable("farms", {
   location: varchar("location", { length: 255 }),
   gpsLatitude: decimal("gpsLatitude", { precision: 10, scale: 8 }),
   gpsLongitude: decimal("gpsLongitude", { precision: 11, scale: 8 }),
-  sizeHectares: decimal("sizeHectares", { precision: 10, scale: 2 }),
+  boundary: json("boundary").$type<BoundaryGeometry>(),
+  sizeHectares: decimal("sizeHectares", { precision: 10, scale: 2 }), // computed from boundary when there is one
   farmType: mysqlEnum("farmType", ["crop", "livestock", "mixed"]).default("mixed"),
   description: text("description"),
   photoUrl: varchar("photoUrl", { length: 500 }),
@@ -135,6 +144,7 @@ export const crops = mysqlTable("crops", {
   cropName: varchar("cropName", { length: 255 }).notNull(),
   scientificName: varchar("scientificName", { length: 255 }),
   variety: varchar("variety", { length: 255 }),
+  botanicalFamily: varchar("botanicalFamily", { length: 100 }), // e.g. Fabaceae; guessed from the name for rotation when empty
   cultivarParameters: text("cultivarParameters"),
   description: text("description"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -146,6 +156,7 @@ export type InsertCrop = typeof crops.$inferInsert;
 export const cropCycles = mysqlTable("cropCycles", {
   id: int("id").autoincrement().primaryKey(),
   farmId: int("farmId").notNull(),
+  fieldId: int("fieldId"), // the field's cycles are its rotation history
   cropId: int("cropId").notNull(),
   varietyName: varchar("varietyName", { length: 255 }),
   plantingDate: date("plantingDate").notNull(),
@@ -154,6 +165,9 @@ export const cropCycles = mysqlTable("cropCycles", {
   status: mysqlEnum("status", ["planning", "planted", "growing", "harvesting", "completed", "abandoned"]).default("planning"),
   areaPlantedHectares: decimal("areaPlantedHectares", { precision: 10, scale: 2 }),
   expectedYieldKg: decimal("expectedYieldKg", { precision: 10, scale: 2 }),
+  accumulatedGdd: decimal("accumulatedGdd", { precision: 8, scale: 1 }), // growing degree days since planting, °C·d
+  growthStage: varchar("growthStage", { length: 20 }), // predicted from accumulatedGdd, e.g. V6
+  gddUpdatedAt: timestamp("gddUpdatedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -164,6 +178,7 @@ export type InsertCropCycle = typeof cropCycles.$inferInsert;
 export const soilTests = mysqlTable("soilTests", {
   id: int("id").autoincrement().primaryKey(),
   farmId: int("farmId").notNull(),
+  fieldId: int("fieldId"), // null for a farm-wide sample
   testDate: date("testDate").notNull(),
   phLevel: decimal("phLevel", { precision: 4, scale: 2 }),
   nitrogenLevel: decimal("nitrogenLevel", { precision: 8, scale: 2 }),
@@ -292,6 +307,11 @@ export const breedingRecords = mysqlTable("breedingRecords", {
   damId: int("damId"),
   expectedDueDate: date("expectedDueDate"),
   outcome: mysqlEnum("outcome", ["pending", "successful", "unsuccessful", "aborted"]).default("pending"),
+  // "service" rows are matings of animalId; "parentage" rows record animalId's own sire and dam
+  kind: mysqlEnum("kind", ["service", "parentage"]).default("service").notNull(),
+  method: mysqlEnum("method", ["natural", "ai"]),
+  semenBatchId: int("semenBatchId"),
+  technician: varchar("technician", { length: 255 }),
   notes: text("notes"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -320,6 +340,7 @@ export const performanceMetrics = mysqlTable("performanceMetrics", {
   milkYieldLiters: decimal("milkYieldLiters", { precision: 8, scale: 2 }),
   eggCount: int("eggCount"),
   otherMetrics: json("otherMetrics"),
+  withdrawalHold: boolean("withdrawalHold").default(false).notNull(), // milk/eggs recorded during a drug withdrawal period; not saleable
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -511,11 +532,71 @@ export const sensorReadings = mysqlTable("sensorReadings", {
   value: decimal("value", { precision: 12, scale: 4 }).notNull(),
   unit: varchar("unit", { length: 50 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => [
+  // Retransmitted readings collapse onto the original row
+  uniqueIndex("sensorReadings_device_type_ts_unique").on(table.deviceId, table.readingType, table.readingTimestamp),
+]);
 
 export type SensorReading = typeof sensorReadings.$inferSelect;
 export type InsertSensorReading = typeof sensorReadings.$inferInsert;
 
+export const iotDeviceKeys = mysqlTable("iotDeviceKeys", {
+  id: int("id").autoincrement().primaryKey(),
+  deviceId: int("deviceId").notNull(),
+  keyPrefix: varchar("keyPrefix", { length: 16 }).notNull(), // Shown in UI to identify the key
+  keyHash: varchar("keyHash", { length: 64 }).unique().notNull(), // SHA-256 of the full key
+  label: varchar("label", { length: 100 }),
+  createdBy: int("createdBy"),
+  lastUsedAt: timestamp("lastUsedAt"),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type IotDeviceKey = typeof iotDeviceKeys.$inferSelect;
+export type InsertIotDeviceKey = typeof iotDeviceKeys.$inferInsert;
+
+// Hourly and daily summaries of sensorReadings, kept up to date by the rollup job.
+// Buckets start on UTC hour/day boundaries.
+export const sensorReadingsHourly = mysqlTable("sensorReadingsHourly", {
+  id: int("id").autoincrement().primaryKey(),
+  deviceId: int("deviceId").notNull(),
+  readingType: varchar("readingType", { length: 100 }).notNull(),
+  bucketStart: timestamp("bucketStart").notNull(),
+  minValue: decimal("minValue", { precision: 12, scale: 4 }).notNull(),
+  maxValue: decimal("maxValue", { precision: 12, scale: 4 }).notNull(),
+  avgValue: decimal("avgValue", { precision: 12, scale: 4 }).notNull(),
+  readingCount: int("readingCount").notNull(),
+  lastValue: decimal("lastValue", { precision: 12, scale: 4 }).notNull(),
+  lastReadingAt: timestamp("lastReadingAt").notNull(),
+  unit: varchar("unit", { length: 50 }),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("sensorReadingsHourly_device_type_bucket_unique").on(table.deviceId, table.readingType, table.bucketStart),
+]);
+
+export type SensorReadingHourly = typeof sensorReadingsHourly.$inferSelect;
+export type InsertSensorReadingHourly = typeof sensorReadingsHourly.$inferInsert;
+
+export const sensorReadingsDaily = mysqlTable("sensorReadingsDaily", {
+  id: int("id").autoincrement().primaryKey(),
+  deviceId: int("deviceId").notNull(),
+  readingType: varchar("readingType", { length: 100 }).notNull(),
+  bucketStart: timestamp("bucketStart").notNull(),
+  minValue: decimal("minValue", { precision: 12, scale: 4 }).notNull(),
+  maxValue: decimal("maxValue", { precision: 12, scale: 4 }).notNull(),
+  avgValue: decimal("avgValue", { precision: 12, scale: 4 }).notNull(),
+  readingCount: int("readingCount").notNull(),
+  lastValue: decimal("lastValue", { precision: 12, scale: 4 }).notNull(),
+  lastReadingAt: timestamp("lastReadingAt").notNull(),
+  unit: varchar("unit", { length: 50 }),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("sensorReadingsDaily_device_type_bucket_unique").on(table.deviceId, table.readingType, table.bucketStart),
+]);
+
+export type SensorReadingDaily = typeof sensorReadingsDaily.$inferSelect;
+export type InsertSensorReadingDaily = typeof sensorReadingsDaily.$inferInsert;
+
 export const alerts = mysqlTable("alerts", {
   id: int("id").autoincrement().primaryKey(),
   deviceId: int("deviceId").notNull(),
@@ -523,6 +604,10 @@ export const alerts = mysqlTable("alerts", {
   alertType: varchar("alertType", { length: 100 }).notNull(),
   message: text("message"),
   severity: mysqlEnum("severity", ["info", "warning", "critical"]).default("warning"),
+  ruleId: int("ruleId"), // sensorAlertRules row that raised this alert, if any
+  pondId: int("pondId"), // fish pond whose water quality raised this alert, if any
+  readingType: varchar("readingType", { length: 100 }),
+  triggerValue: decimal("triggerValue", { precision: 12, scale: 4 }),
   isResolved: boolean("isResolved").default(false),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   resolvedAt: timestamp("resolvedAt"),
@@ -531,6 +616,27 @@ export const alerts = mysqlTable("alerts", {
 export type Alert = typeof alerts.$inferSelect;
 export type InsertAlert = typeof alerts.$inferInsert;
 
+export const sensorAlertRules = mysqlTable("sensorAlertRules", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  deviceId: int("deviceId"), // null = every farm device reporting readingType
+  readingType: varchar("readingType", { length: 100 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  minValue: decimal("minValue", { precision: 12, scale: 4 }),
+  maxValue: decimal("maxValue", { precision: 12, scale: 4 }),
+  maxRateOfChange: decimal("maxRateOfChange", { precision: 12, scale: 4 }), // absolute change per minute
+  staleAfterMinutes: int("staleAfterMinutes"),
+  hysteresis: decimal("hysteresis", { precision: 12, scale: 4 }).default("0").notNull(),
+  severity: mysqlEnum("severity", ["info", "warning", "critical"]).default("warning").notNull(),
+  isActive: boolean("isActive").default(true).notNull(),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type SensorAlertRule = typeof sensorAlertRules.$inferSelect;
+export type InsertSensorAlertRule = typeof sensorAlertRules.$inferInsert;
+
 // ============================================================================
 // BUSINESS AND STRATEGY
 // ============================================================================
@@ -745,6 +851,7 @@ export const marketplaceSellerPayouts = mysqlTable("marketplaceSellerPayouts", {
   id: int("id").autoincrement().primaryKey(),
   sellerId: int("sellerId").notNull(),
   orderId: int("orderId").notNull(),
+  batchId: int("batchId"), // marketplacePayoutBatches row this payout was paid in
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   status: mysqlEnum("status", ["pending", "processing", "completed", "failed"]).default("pending").notNull(),
   payoutDate: date("payoutDate"),
@@ -757,6 +864,48 @@ export const marketplaceSellerPayouts = mysqlTable("marketplaceSellerPayouts", {
 export type MarketplaceSellerPayout = typeof marketplaceSellerPayouts.$inferSelect;
 export type InsertMarketplaceSellerPayout = typeof marketplaceSellerPayouts.$inferInsert;
 
+// ============================================================================
+// MARKETPLACE - ESCROW
+// ============================================================================
+// Buyer funds held per order until delivery is confirmed (or the
+// auto-release deadline passes). Disputes freeze the funds until an admin
+// ruling releases them to the seller or refunds the buyer.
+export const marketplaceEscrows = mysqlTable("marketplaceEscrows", {
+  id: int("id").autoincrement().primaryKey(),
+  orderId: int("orderId").notNull().unique(),
+  buyerId: int("buyerId").notNull(),
+  sellerId: int("sellerId").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // paid by the buyer
+  commissionRate: decimal("commissionRate", { precision: 5, scale: 4 }).notNull(), // rate at the time of payment
+  commissionAmount: decimal("commissionAmount", { precision: 10, scale: 2 }).notNull(),
+  sellerAmount: decimal("sellerAmount", { precision: 10, scale: 2 }).notNull(),
+  status: mysqlEnum("status", ["held", "frozen", "refunding", "released", "refunded"]).default("held").notNull(), // refunding until the provider accepts the refund
+  releaseAfter: timestamp("releaseAfter"), // auto-release deadline, set once the order is delivered
+  releaseReason: varchar("releaseReason", { length: 255 }),
+  heldAt: timestamp("heldAt").defaultNow().notNull(),
+  releasedAt: timestamp("releasedAt"),
+  refundedAt: timestamp("refundedAt"),
+  payoutBatchId: int("payoutBatchId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+export type MarketplaceEscrow = typeof marketplaceEscrows.$inferSelect;
+export type InsertMarketplaceEscrow = typeof marketplaceEscrows.$inferInsert;
+
+export const marketplacePayoutBatches = mysqlTable("marketplacePayoutBatches", {
+  id: int("id").autoincrement().primaryKey(),
+  sellerId: int("sellerId").notNull(),
+  totalAmount: decimal("totalAmount", { precision: 12, scale: 2 }).notNull(),
+  orderCount: int("orderCount").notNull(),
+  status: mysqlEnum("status", ["pending", "processing", "completed", "failed"]).default("pending").notNull(),
+  transactionReference: varchar("transactionReference", { length: 255 }),
+  paidAt: timestamp("paidAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+export type MarketplacePayoutBatch = typeof marketplacePayoutBatches.$inferSelect;
+export type InsertMarketplacePayoutBatch = typeof marketplacePayoutBatches.$inferInsert;
+
 // ============================================================================
 // MARKETPLACE - WISHLIST
 // ============================================================================
@@ -871,6 +1020,9 @@ export const marketplaceTransactions = mysqlTable("marketplaceTransactions", {
   paymentMethod: varchar("paymentMethod", { length: 50 }).notNull(), // e.g., "credit_card", "bank_transfer", "cash"
   status: mysqlEnum("status", ["pending", "completed", "failed", "refunded"]).default("pending").notNull(),
   reference: varchar("reference", { length: 255 }),
+  provider: varchar("provider", { length: 20 }), // paystack, flutterwave; null for offline payments
+  currency: varchar("currency", { length: 3 }),
+  providerTransactionId: varchar("providerTransactionId", { length: 100 }), // provider's own id, needed for some refunds
   notes: text("notes"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   completedAt: timestamp("completedAt"),
@@ -927,6 +1079,10 @@ export const irrigationZones = mysqlTable("irrigation_zones", {
   targetMoisture: decimal("target_moisture", { precision: 5, scale: 2 }), // optimal % moisture
   minMoisture: decimal("min_moisture", { precision: 5, scale: 2 }), // trigger irrigation threshold
   maxMoisture: decimal("max_moisture", { precision: 5, scale: 2 }), // prevent overwatering
+  controlMode: varchar("control_mode", { length: 20 }).default("manual").notNull(), // manual, auto
+  valveId: varchar("valve_id", { length: 100 }), // channel on the valve controller
+  flowRateLitersPerMin: decimal("flow_rate_liters_per_min", { precision: 10, scale: 2 }),
+  maxDailyLiters: decimal("max_daily_liters", { precision: 15, scale: 2 }), // safety cap for automatic runs
   status: varchar("status", { length: 50 }).default("active"), // active, inactive, maintenance
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
@@ -955,9 +1111,9 @@ export type InsertIrrigationSchedule = typeof irrigationSchedules.$inferInsert;
 
 export const irrigationEvents = mysqlTable("irrigation_events", {
   id: int("id").primaryKey().autoincrement(),
-  scheduleId: int("schedule_id").notNull().references(() => irrigationSchedules.id, { onDelete: "cascade" }),
+  scheduleId: int("schedule_id").references(() => irrigationSchedules.id, { onDelete: "cascade" }), // null for automatic runs
   zoneId: int("zone_id").notNull().references(() => irrigationZones.id, { onDelete: "cascade" }),
-  eventType: varchar("event_type", { length: 50 }).notNull(), // scheduled, manual, emergency, skipped
+  eventType: varchar("event_type", { length: 50 }).notNull(), // scheduled, manual, emergency, skipped, automatic
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time"),
   durationMinutes: int("duration_minutes"),
@@ -1412,6 +1568,10 @@ export const fishStockingRecords = mysqlTable("fishStockingRecords", {
   fingerlings: int("fingerlings").notNull(),
   stockingDate: date("stockingDate").notNull(),
   expectedHarvestDate: date("expectedHarvestDate"),
+  initialAverageWeightG: decimal("initialAverageWeightG", { precision: 10, scale: 2 }),
+  targetWeightG: decimal("targetWeightG", { precision: 10, scale: 2 }), // harvest size
+  source: varchar("source", { length: 255 }), // hatchery
+  cost: decimal("cost", { precision: 12, scale: 2 }),
   status: varchar("status", { length: 20 }).default("stocked"), // stocked, growing, harvesting, harvested
   notes: text("notes"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -1431,6 +1591,8 @@ export const fishPondActivities = mysqlTable("fishPondActivities", {
   phLevel: decimal("phLevel", { precision: 3, scale: 1 }),
   dissolvedOxygen: decimal("dissolvedOxygen", { precision: 5, scale: 2 }),
   feedAmount: decimal("feedAmount", { precision: 10, scale: 2 }), // kg
+  feedType: varchar("feedType", { length: 100 }),
+  cost: decimal("cost", { precision: 12, scale: 2 }),
   notes: text("notes"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -1438,6 +1600,56 @@ export const fishPondActivities = mysqlTable("fishPondActivities", {
 export type FishPondActivity = typeof fishPondActivities.$inferSelect;
 export type InsertFishPondActivity = typeof fishPondActivities.$inferInsert;
 
+// Pond water quality readings. Un-ionized ammonia is worked out from total
+// ammonia nitrogen, pH and temperature when the reading is stored.
+export const pondWaterQuality = mysqlTable("pondWaterQuality", {
+  id: int("id").autoincrement().primaryKey(),
+  pondId: int("pondId").notNull().references(() => fishPonds.id),
+  farmId: int("farmId").notNull().references(() => farms.id),
+  measuredAt: timestamp("measuredAt").notNull(),
+  temperatureC: decimal("temperatureC", { precision: 5, scale: 2 }),
+  ph: decimal("ph", { precision: 4, scale: 2 }),
+  dissolvedOxygenMgL: decimal("dissolvedOxygenMgL", { precision: 6, scale: 2 }),
+  totalAmmoniaMgL: decimal("totalAmmoniaMgL", { precision: 8, scale: 3 }), // TAN
+  unionizedAmmoniaMgL: decimal("unionizedAmmoniaMgL", { precision: 8, scale: 4 }), // NH3
+  nitriteMgL: decimal("nitriteMgL", { precision: 8, scale: 3 }),
+  nitrateMgL: decimal("nitrateMgL", { precision: 8, scale: 2 }),
+  turbidityNtu: decimal("turbidityNtu", { precision: 8, scale: 2 }),
+  status: mysqlEnum("status", ["ok", "warning", "critical"]).default("ok").notNull(),
+  issues: json("issues").$type<string[]>(),
+  notes: text("notes"),
+  recordedBy: int("recordedBy").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("pond_water_quality_pond_idx").on(table.pondId, table.measuredAt),
+]);
+
+export type PondWaterQuality = typeof pondWaterQuality.$inferSelect;
+export type InsertPondWaterQuality = typeof pondWaterQuality.$inferInsert;
+
+// Losses, sample weighings and harvests against a stocking. Headcount,
+// average weight and biomass of the fish in a pond are derived from these.
+export const fishStockEvents = mysqlTable("fishStockEvents", {
+  id: int("id").autoincrement().primaryKey(),
+  stockingId: int("stockingId").notNull().references(() => fishStockingRecords.id),
+  pondId: int("pondId").notNull().references(() => fishPonds.id),
+  eventType: mysqlEnum("eventType", ["mortality", "sampling", "harvest"]).notNull(),
+  eventDate: date("eventDate").notNull(),
+  fishCount: int("fishCount").notNull(), // dead, sampled or harvested
+  totalWeightKg: decimal("totalWeightKg", { precision: 12, scale: 3 }),
+  averageWeightG: decimal("averageWeightG", { precision: 10, scale: 2 }),
+  cause: varchar("cause", { length: 255 }), // mortality cause
+  salePricePerKg: decimal("salePricePerKg", { precision: 10, scale: 2 }),
+  notes: text("notes"),
+  recordedBy: int("recordedBy").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("fish_stock_events_stocking_idx").on(table.stockingId, table.eventDate),
+]);
+
+export type FishStockEvent = typeof fishStockEvents.$inferSelect;
+export type InsertFishStockEvent = typeof fishStockEvents.$inferInsert;
+
 // Notification Preferences
 export const notificationPreferences = mysqlTable("notificationPreferences", {
   id: int("id").autoincrement().primaryKey(),
@@ -1489,6 +1701,7 @@ export const reportSchedules = mysqlTable("reportSchedules", {
   reportType: mysqlEnum("reportType", ["financial", "livestock", "complete"]).notNull(),
   frequency: mysqlEnum("frequency", ["daily", "weekly", "monthly"]).notNull(),
   recipients: text("recipients").notNull(), // JSON array of email addresses
+  templateId: int("templateId").references(() => reportTemplates.id, { onDelete: "set null" }),
   isActive: boolean("isActive").default(true).notNull(),
   nextRun: timestamp("nextRun"),
   lastRun: timestamp("lastRun"),
@@ -1680,6 +1893,7 @@ export const reportTemplateCustomization = mysqlTable("reportTemplateCustomizati
   includeMetrics: boolean("includeMetrics").default(true).notNull(),
   includeRecommendations: boolean("includeRecommendations").default(true).notNull(),
   pageOrientation: mysqlEnum("pageOrientation", ["portrait", "landscape"]).default("portrait").notNull(),
+  pageSize: mysqlEnum("pageSize", ["A4", "Letter"]).default("A4").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -2319,6 +2533,48 @@ export const trendingSearches = mysqlTable("trendingSearches", {
 export type TrendingSearches = typeof trendingSearches.$inferSelect;
 export type InsertTrendingSearches = typeof trendingSearches.$inferInsert;
 
+// ============================================================================
+// GLOBAL SEARCH INDEX
+// ============================================================================
+/**
+ * One row per searchable record (animal, field, invoice, ...). farmId is the
+ * farm that can see the record; public records (active marketplace
+ * listings) are visible to everyone.
+ */
+export const searchDocuments = mysqlTable("searchDocuments", {
+  id: int("id").autoincrement().primaryKey(),
+  entityType: varchar("entityType", { length: 30 }).notNull(),
+  entityId: int("entityId").notNull(),
+  farmId: int("farmId"),
+  visibility: mysqlEnum("visibility", ["farm", "public"]).default("farm").notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  subtitle: varchar("subtitle", { length: 255 }),
+  path: varchar("path", { length: 255 }).notNull(),
+  clickCount: int("clickCount").default(0).notNull(),
+  sourceUpdatedAt: timestamp("sourceUpdatedAt"),
+  indexedAt: timestamp("indexedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("search_documents_entity_idx").on(table.entityType, table.entityId),
+  index("search_documents_farm_idx").on(table.farmId),
+]);
+
+export type SearchDocument = typeof searchDocuments.$inferSelect;
+export type InsertSearchDocument = typeof searchDocuments.$inferInsert;
+
+/** Inverted index: the normalised terms of each document and their weight */
+export const searchTerms = mysqlTable("searchTerms", {
+  id: int("id").autoincrement().primaryKey(),
+  term: varchar("term", { length: 64 }).notNull(),
+  documentId: int("documentId").notNull(),
+  weight: int("weight").default(1).notNull(),
+}, (table) => [
+  uniqueIndex("search_terms_term_doc_idx").on(table.term, table.documentId),
+  index("search_terms_document_idx").on(table.documentId),
+]);
+
+export type SearchTerm = typeof searchTerms.$inferSelect;
+export type InsertSearchTerm = typeof searchTerms.$inferInsert;
+
 
 // ============================================================================
 // SAVED QUERIES (User's saved searches for quick access)
@@ -2693,6 +2949,7 @@ export const invoices = mysqlTable("invoices", {
   currency: varchar("currency", { length: 3 }).default("GHS").notNull(),
   paymentStatus: mysqlEnum("paymentStatus", ["draft", "sent", "pending", "partial", "paid", "overdue", "cancelled"]).default("draft").notNull(),
   paymentMethod: varchar("paymentMethod", { length: 100 }),
+  paidAt: timestamp("paidAt"), // date of the latest payment; dates the ledger payment entry
   notes: text("notes"),
   attachmentUrl: varchar("attachmentUrl", { length: 500 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -2718,6 +2975,328 @@ export const invoiceLineItems = mysqlTable("invoiceLineItems", {
 export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
 export type InsertInvoiceLineItem = typeof invoiceLineItems.$inferInsert;
 
+// ============================================================================
+// GENERAL LEDGER
+// ============================================================================
+/**
+ * Chart of accounts, per farm. System accounts are created on first use and
+ * are the ones automatic postings go to.
+ */
+export const ledgerAccounts = mysqlTable("ledgerAccounts", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  code: varchar("code", { length: 20 }).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  type: mysqlEnum("type", ["asset", "liability", "equity", "revenue", "expense"]).notNull(),
+  isSystem: boolean("isSystem").default(false).notNull(),
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("ledger_accounts_farm_code_idx").on(table.farmId, table.code),
+]);
+
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type InsertLedgerAccount = typeof ledgerAccounts.$inferInsert;
+
+/**
+ * Journal entry headers. sourceKey ("expense:12") ties an automatic posting
+ * to the record it came from; it is cleared when the entry is reversed so
+ * the record can be posted again.
+ */
+export const journalEntries = mysqlTable("journalEntries", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  entryDate: date("entryDate").notNull(),
+  description: varchar("description", { length: 500 }).notNull(),
+  sourceType: varchar("sourceType", { length: 30 }).notNull(), // expense, revenue, invoice, payroll, asset_purchase, manual, reversal, ...
+  sourceId: int("sourceId"),
+  sourceKey: varchar("sourceKey", { length: 80 }).unique(),
+  reversesEntryId: int("reversesEntryId"),
+  reversedAt: timestamp("reversedAt"),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("journal_entries_farm_date_idx").on(table.farmId, table.entryDate),
+]);
+
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type InsertJournalEntry = typeof journalEntries.$inferInsert;
+
+export const journalLines = mysqlTable("journalLines", {
+  id: int("id").autoincrement().primaryKey(),
+  entryId: int("entryId").notNull(),
+  accountId: int("accountId").notNull(),
+  debit: decimal("debit", { precision: 14, scale: 2 }).default("0").notNull(),
+  credit: decimal("credit", { precision: 14, scale: 2 }).default("0").notNull(),
+  memo: varchar("memo", { length: 255 }),
+}, (table) => [
+  index("journal_lines_entry_idx").on(table.entryId),
+  index("journal_lines_account_idx").on(table.accountId),
+]);
+
+export type JournalLine = typeof journalLines.$inferSelect;
+export type InsertJournalLine = typeof journalLines.$inferInsert;
+
+// ============================================================================
+// BANK STATEMENTS & RECONCILIATION
+// ============================================================================
+/**
+ * Bank and mobile-money accounts whose statements are imported
+ */
+export const bankAccounts = mysqlTable("bankAccounts", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  institution: varchar("institution", { length: 255 }),
+  accountType: mysqlEnum("accountType", ["bank", "mobile_money"]).default("bank").notNull(),
+  accountNumberLast4: varchar("accountNumberLast4", { length: 4 }),
+  currency: varchar("currency", { length: 3 }).default("GHS").notNull(),
+  isActive: boolean("isActive").default(true).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type InsertBankAccount = typeof bankAccounts.$inferInsert;
+
+export const bankStatementImports = mysqlTable("bankStatementImports", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  bankAccountId: int("bankAccountId").notNull(),
+  format: mysqlEnum("format", ["ofx", "csv", "mt940"]).notNull(),
+  fileName: varchar("fileName", { length: 255 }),
+  statementStart: date("statementStart"),
+  statementEnd: date("statementEnd"),
+  openingBalance: decimal("openingBalance", { precision: 14, scale: 2 }),
+  closingBalance: decimal("closingBalance", { precision: 14, scale: 2 }),
+  importedCount: int("importedCount").default(0).notNull(),
+  skippedCount: int("skippedCount").default(0).notNull(), // already imported
+  errorCount: int("errorCount").default(0).notNull(),
+  importedBy: int("importedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+export type InsertBankStatementImport = typeof bankStatementImports.$inferInsert;
+
+/**
+ * One statement line. Amounts are signed: money out is negative. The
+ * fingerprint makes re-importing an overlapping statement a no-op.
+ */
+export const bankTransactions = mysqlTable("bankTransactions", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  bankAccountId: int("bankAccountId").notNull(),
+  importId: int("importId").notNull(),
+  transactionDate: date("transactionDate").notNull(),
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(),
+  description: varchar("description", { length: 500 }).notNull(),
+  reference: varchar("reference", { length: 100 }),
+  counterparty: varchar("counterparty", { length: 255 }),
+  externalId: varchar("externalId", { length: 100 }), // OFX FITID, MT940 bank reference
+  fingerprint: varchar("fingerprint", { length: 64 }).notNull(),
+  status: mysqlEnum("status", ["unmatched", "matched", "ignored", "duplicate"]).default("unmatched").notNull(),
+  category: varchar("category", { length: 100 }),
+  ruleId: int("ruleId"),
+  matchedType: mysqlEnum("matchedType", ["expense", "revenue", "invoice"]),
+  matchedId: int("matchedId"),
+  matchScore: decimal("matchScore", { precision: 4, scale: 3 }),
+  matchedBy: int("matchedBy"), // null when matched automatically
+  matchedAt: timestamp("matchedAt"),
+  duplicateOfId: int("duplicateOfId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("bank_transactions_account_fingerprint_idx").on(table.bankAccountId, table.fingerprint),
+  index("bank_transactions_farm_date_idx").on(table.farmId, table.transactionDate),
+  index("bank_transactions_match_idx").on(table.matchedType, table.matchedId),
+]);
+
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type InsertBankTransaction = typeof bankTransactions.$inferInsert;
+
+/**
+ * Categorization rules: statement lines whose normalized description
+ * contains the pattern get the category. Learned rules come from manual
+ * matches and categorizations.
+ */
+export const bankCategorizationRules = mysqlTable("bankCategorizationRules", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  pattern: varchar("pattern", { length: 255 }).notNull(),
+  direction: mysqlEnum("direction", ["in", "out", "any"]).default("any").notNull(),
+  category: varchar("category", { length: 100 }).notNull(),
+  source: mysqlEnum("source", ["manual", "learned"]).default("manual").notNull(),
+  hitCount: int("hitCount").default(0).notNull(),
+  isActive: boolean("isActive").default(true).notNull(),
+  createdBy: int("createdBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("bank_rules_farm_pattern_idx").on(table.farmId, table.pattern, table.direction),
+]);
+
+export type BankCategorizationRule = typeof bankCategorizationRules.$inferSelect;
+export type InsertBankCategorizationRule = typeof bankCategorizationRules.$inferInsert;
+
+// ============================================================================
+// WORKFLOW AUTOMATION
+// ============================================================================
+/**
+ * Automation workflows: a trigger event plus a graph of condition and action
+ * nodes. The graph lives here for the current version and is also
+ * snapshotted in workflowVersions; runs always execute a snapshot.
+ */
+export const workflows = mysqlTable("workflows", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  triggerEvent: varchar("triggerEvent", { length: 50 }).notNull(), // budget_exceeded, sensor_alert, task_overdue, prescription_due, manual
+  triggerConditions: json("triggerConditions"),
+  nodes: json("nodes").notNull(),
+  edges: json("edges").notNull(),
+  currentVersion: int("currentVersion").default(1).notNull(),
+  maxRetries: int("maxRetries").default(2).notNull(),
+  isActive: boolean("isActive").default(true).notNull(),
+  isTemplate: boolean("isTemplate").default(false).notNull(),
+  templateCategory: varchar("templateCategory", { length: 100 }),
+  createdBy: int("createdBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("workflows_farm_trigger_idx").on(table.farmId, table.triggerEvent),
+]);
+
+export type Workflow = typeof workflows.$inferSelect;
+export type InsertWorkflow = typeof workflows.$inferInsert;
+
+export const workflowVersions = mysqlTable("workflowVersions", {
+  id: int("id").autoincrement().primaryKey(),
+  workflowId: int("workflowId").notNull(),
+  versionNumber: int("versionNumber").notNull(),
+  triggerEvent: varchar("triggerEvent", { length: 50 }).notNull(),
+  triggerConditions: json("triggerConditions"),
+  nodes: json("nodes").notNull(),
+  edges: json("edges").notNull(),
+  versionNotes: text("versionNotes"),
+  status: mysqlEnum("status", ["active", "superseded", "archived"]).default("active").notNull(),
+  createdBy: int("createdBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workflow_versions_workflow_version_idx").on(table.workflowId, table.versionNumber),
+]);
+
+export type WorkflowVersion = typeof workflowVersions.$inferSelect;
+export type InsertWorkflowVersion = typeof workflowVersions.$inferInsert;
+
+/**
+ * One execution of a workflow. dedupeKey stops the same domain event (for
+ * example one overdue task) from starting a workflow twice.
+ */
+export const workflowRuns = mysqlTable("workflowRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  workflowId: int("workflowId").notNull(),
+  farmId: int("farmId").notNull(),
+  versionNumber: int("versionNumber").notNull(),
+  triggerEvent: varchar("triggerEvent", { length: 50 }).notNull(),
+  triggerData: json("triggerData"),
+  dedupeKey: varchar("dedupeKey", { length: 120 }),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed", "retrying"]).default("pending").notNull(),
+  attempt: int("attempt").default(0).notNull(),
+  nextRetryAt: timestamp("nextRetryAt"),
+  error: text("error"),
+  triggeredBy: int("triggeredBy"), // user for manual runs, null for events
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  durationMs: int("durationMs"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workflow_runs_dedupe_idx").on(table.workflowId, table.dedupeKey),
+  index("workflow_runs_status_idx").on(table.status, table.nextRetryAt),
+]);
+
+export type WorkflowRun = typeof workflowRuns.$inferSelect;
+export type InsertWorkflowRun = typeof workflowRuns.$inferInsert;
+
+export const workflowRunSteps = mysqlTable("workflowRunSteps", {
+  id: int("id").autoincrement().primaryKey(),
+  runId: int("runId").notNull(),
+  attempt: int("attempt").notNull(),
+  nodeId: varchar("nodeId", { length: 64 }).notNull(),
+  nodeType: varchar("nodeType", { length: 30 }).notNull(),
+  status: mysqlEnum("status", ["completed", "failed", "skipped"]).notNull(),
+  output: json("output"),
+  error: text("error"),
+  durationMs: int("durationMs").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("workflow_run_steps_run_idx").on(table.runId),
+]);
+
+export type WorkflowRunStep = typeof workflowRunSteps.$inferSelect;
+export type InsertWorkflowRunStep = typeof workflowRunSteps.$inferInsert;
+
+// ============================================================================
+// USSD SESSIONS & INBOUND SMS
+// ============================================================================
+/**
+ * Menu state for feature-phone USSD sessions, keyed by the gateway's
+ * sessionId. inputCount is how many "*"-separated inputs have been applied,
+ * since Africa's Talking resends the whole input path on every request.
+ */
+export const ussdSessions = mysqlTable("ussdSessions", {
+  id: int("id").autoincrement().primaryKey(),
+  sessionId: varchar("sessionId", { length: 100 }).notNull(),
+  provider: mysqlEnum("provider", ["africastalking", "hubtel"]).notNull(),
+  phoneNumber: varchar("phoneNumber", { length: 20 }).notNull(),
+  serviceCode: varchar("serviceCode", { length: 30 }),
+  userId: int("userId"),
+  farmId: int("farmId"),
+  state: json("state").notNull(),
+  inputCount: int("inputCount").default(0).notNull(),
+  status: mysqlEnum("status", ["active", "ended", "timed_out"]).default("active").notNull(),
+  lastResponse: text("lastResponse"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("ussd_sessions_session_idx").on(table.provider, table.sessionId),
+  index("ussd_sessions_status_idx").on(table.status, table.updatedAt),
+]);
+
+export type UssdSession = typeof ussdSessions.$inferSelect;
+export type InsertUssdSession = typeof ussdSessions.$inferInsert;
+
+/**
+ * Inbound SMS commands ("FEED TAG123 5KG maize") and what became of them.
+ * externalId is the gateway's message id, so a redelivered message is not
+ * recorded twice.
+ */
+export const smsInboundMessages = mysqlTable("smsInboundMessages", {
+  id: int("id").autoincrement().primaryKey(),
+  provider: mysqlEnum("provider", ["africastalking", "hubtel"]).notNull(),
+  externalId: varchar("externalId", { length: 100 }).notNull(),
+  fromNumber: varchar("fromNumber", { length: 20 }).notNull(),
+  body: text("body").notNull(),
+  userId: int("userId"),
+  workerId: int("workerId"),
+  farmId: int("farmId"),
+  command: varchar("command", { length: 20 }),
+  status: mysqlEnum("status", ["received", "processed", "rejected", "unregistered"]).default("received").notNull(),
+  recordType: varchar("recordType", { length: 30 }), // feedingRecord, performanceMetric, expense, task
+  recordId: int("recordId"),
+  reply: text("reply"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("sms_inbound_external_idx").on(table.provider, table.externalId),
+  index("sms_inbound_farm_idx").on(table.farmId, table.createdAt),
+]);
+
+export type SmsInboundMessage = typeof smsInboundMessages.$inferSelect;
+export type InsertSmsInboundMessage = typeof smsInboundMessages.$inferInsert;
+
 /**
  * Financial summary and KPIs by period
  */
@@ -3677,9 +4256,15 @@ export const fields = mysqlTable("fields", {
   fieldName: varchar("fieldName", { length: 255 }).notNull(),
   fieldCode: varchar("fieldCode", { length: 50 }).notNull(), // e.g., F1, F2, etc.
   description: text("description"),
-  areaHectares: decimal("areaHectares", { precision: 10, scale: 2 }).notNull(),
+  areaHectares: decimal("areaHectares", { precision: 10, scale: 2 }).notNull(), // computed from boundary when there is one
   gpsLatitude: decimal("gpsLatitude", { precision: 10, scale: 8 }),
   gpsLongitude: decimal("gpsLongitude", { precision: 11, scale: 8 }),
+  boundary: json("boundary").$type<BoundaryGeometry>(),
+  // Bounding box of the boundary, to narrow "which field is this point in?"
+  boundaryWest: decimal("boundaryWest", { precision: 11, scale: 8 }),
+  boundarySouth: decimal("boundarySouth", { precision: 10, scale: 8 }),
+  boundaryEast: decimal("boundaryEast", { precision: 11, scale: 8 }),
+  boundaryNorth: decimal("boundaryNorth", { precision: 10, scale: 8 }),
   soilType: varchar("soilType", { length: 100 }), // loam, clay, sandy, etc.
   soilPH: decimal("soilPH", { precision: 3, scale: 1 }), // 0-14 scale
   waterSource: varchar("waterSource", { length: 100 }), // irrigation, rainfall, etc.
@@ -3708,9 +4293,10 @@ export const fieldSegments = mysqlTable("fieldSegments", {
   segmentName: varchar("segmentName", { length: 255 }).notNull(),
   segmentCode: varchar("segmentCode", { length: 50 }).notNull(), // e.g., F1-S1, F1-S2
   description: text("description"),
-  areaHectares: decimal("areaHectares", { precision: 10, scale: 2 }).notNull(),
+  areaHectares: decimal("areaHectares", { precision: 10, scale: 2 }).notNull(), // computed from boundary when there is one
   gpsLatitude: decimal("gpsLatitude", { precision: 10, scale: 8 }),
   gpsLongitude: decimal("gpsLongitude", { precision: 11, scale: 8 }),
+  boundary: json("boundary").$type<BoundaryGeometry>(), // must lie inside the field's boundary
   segmentationType: mysqlEnum("segmentationType", ["geographic", "soil_type", "irrigation", "crop_variety", "management_zone"]).default("geographic"),
   soilType: varchar("soilType", { length: 100 }),
   soilPH: decimal("soilPH", { precision: 3, scale: 1 }),
@@ -4240,3 +4826,503 @@ export const emailCampaignRecipients = mysqlTable("emailCampaignRecipients", {
 });
 export type EmailCampaignRecipient = typeof emailCampaignRecipients.$inferSelect;
 export type InsertEmailCampaignRecipient = typeof emailCampaignRecipients.$inferInsert;
+
+// ============================================================================
+// BACKGROUND JOB QUEUE
+// ============================================================================
+/**
+ * Durable jobs shared by every app instance. A worker leases a job by
+ * setting lockedBy/lockedUntil; a job whose lease runs out (crashed or hung
+ * worker) becomes claimable again. uniqueKey makes enqueueing idempotent.
+ */
+export const backgroundJobs = mysqlTable("backgroundJobs", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  payload: json("payload").$type<Record<string, unknown>>().notNull(),
+  uniqueKey: varchar("uniqueKey", { length: 191 }),
+  status: mysqlEnum("status", ["pending", "running", "completed", "dead", "cancelled"]).default("pending").notNull(),
+  priority: int("priority").default(0).notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(5).notNull(),
+  runAt: timestamp("runAt").defaultNow().notNull(),
+  lockedBy: varchar("lockedBy", { length: 100 }),
+  lockedUntil: timestamp("lockedUntil"),
+  lastError: text("lastError"),
+  result: json("result"),
+  startedAt: timestamp("startedAt"),
+  finishedAt: timestamp("finishedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("background_jobs_unique_key_idx").on(table.uniqueKey),
+  index("background_jobs_claim_idx").on(table.status, table.runAt),
+  index("background_jobs_name_idx").on(table.name, table.status),
+]);
+
+export type BackgroundJob = typeof backgroundJobs.$inferSelect;
+export type InsertBackgroundJob = typeof backgroundJobs.$inferInsert;
+
+/** Cron schedules that enqueue a job at each occurrence (evaluated in UTC) */
+export const jobSchedules = mysqlTable("jobSchedules", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  cronExpression: varchar("cronExpression", { length: 100 }).notNull(),
+  jobName: varchar("jobName", { length: 100 }).notNull(),
+  payload: json("payload").$type<Record<string, unknown>>().notNull(),
+  isActive: boolean("isActive").default(true).notNull(),
+  nextRunAt: timestamp("nextRunAt").notNull(),
+  lastRunAt: timestamp("lastRunAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type InsertJobSchedule = typeof jobSchedules.$inferInsert;
+
+// ============================================================================
+// DRUG WITHDRAWAL PERIODS
+// ============================================================================
+/**
+ * Label withdrawal periods per medication and species. farmId null applies
+ * to every farm; a farm row (e.g. a vet-extended period) takes precedence.
+ * species null applies to any species. medicationName is stored lower-case.
+ */
+export const withdrawalPeriods = mysqlTable("withdrawalPeriods", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId"),
+  medicationName: varchar("medicationName", { length: 255 }).notNull(),
+  species: varchar("species", { length: 100 }),
+  meatDays: int("meatDays").default(0).notNull(),
+  milkHours: int("milkHours").default(0).notNull(),
+  eggDays: int("eggDays").default(0).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("withdrawal_periods_medication_idx").on(table.medicationName),
+]);
+
+export type WithdrawalPeriod = typeof withdrawalPeriods.$inferSelect;
+export type InsertWithdrawalPeriod = typeof withdrawalPeriods.$inferInsert;
+
+/**
+ * One row per treatment, with the clear dates fixed when the treatment was
+ * recorded so later edits to withdrawalPeriods do not rewrite history.
+ * ruleId null means no label period was on file and the standard minimum
+ * was applied.
+ */
+export const animalWithdrawals = mysqlTable("animalWithdrawals", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  animalId: int("animalId").notNull(),
+  medicationName: varchar("medicationName", { length: 255 }).notNull(),
+  source: mysqlEnum("source", ["prescription", "medication_usage", "manual"]).notNull(),
+  sourceId: int("sourceId"),
+  ruleId: int("ruleId"),
+  lastDoseAt: timestamp("lastDoseAt").notNull(),
+  meatClearAt: timestamp("meatClearAt").notNull(),
+  milkClearAt: timestamp("milkClearAt").notNull(),
+  eggClearAt: timestamp("eggClearAt").notNull(),
+  recordedBy: int("recordedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("animal_withdrawals_source_idx").on(table.source, table.sourceId),
+  index("animal_withdrawals_animal_idx").on(table.animalId),
+  index("animal_withdrawals_farm_idx").on(table.farmId, table.lastDoseAt),
+]);
+
+export type AnimalWithdrawal = typeof animalWithdrawals.$inferSelect;
+export type InsertAnimalWithdrawal = typeof animalWithdrawals.$inferInsert;
+
+// ============================================================================
+// DAIRY - LACTATIONS AND MILK RECORDING
+// ============================================================================
+/**
+ * One row per lactation, opened by a calving (linked to the breeding that
+ * produced it when known) and closed by dry-off
+ */
+export const lactations = mysqlTable("lactations", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  animalId: int("animalId").notNull(),
+  lactationNumber: int("lactationNumber").notNull(),
+  calvingDate: date("calvingDate").notNull(),
+  breedingRecordId: int("breedingRecordId"),
+  calvingEase: mysqlEnum("calvingEase", ["unassisted", "assisted", "difficult", "caesarean"]),
+  dryOffDate: date("dryOffDate"),
+  status: mysqlEnum("status", ["milking", "dry", "ended"]).default("milking").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("lactations_animal_number_idx").on(table.animalId, table.lactationNumber),
+  index("lactations_farm_status_idx").on(table.farmId, table.status),
+]);
+
+export type Lactation = typeof lactations.$inferSelect;
+export type InsertLactation = typeof lactations.$inferInsert;
+
+/** Yield from a single milking session */
+export const milkings = mysqlTable("milkings", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  animalId: int("animalId").notNull(),
+  lactationId: int("lactationId").notNull(),
+  milkingDate: date("milkingDate").notNull(),
+  session: mysqlEnum("session", ["am", "midday", "pm"]).notNull(),
+  yieldLiters: decimal("yieldLiters", { precision: 6, scale: 2 }).notNull(),
+  withdrawalHold: boolean("withdrawalHold").default(false).notNull(),
+  recordedBy: int("recordedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("milkings_session_idx").on(table.animalId, table.milkingDate, table.session),
+  index("milkings_lactation_idx").on(table.lactationId, table.milkingDate),
+  index("milkings_farm_date_idx").on(table.farmId, table.milkingDate),
+]);
+
+export type Milking = typeof milkings.$inferSelect;
+export type InsertMilking = typeof milkings.$inferInsert;
+
+/** Test-day composition and cell count for one cow */
+export const milkTests = mysqlTable("milkTests", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  animalId: int("animalId").notNull(),
+  lactationId: int("lactationId").notNull(),
+  testDate: date("testDate").notNull(),
+  yieldLiters: decimal("yieldLiters", { precision: 6, scale: 2 }),
+  fatPercent: decimal("fatPercent", { precision: 4, scale: 2 }),
+  proteinPercent: decimal("proteinPercent", { precision: 4, scale: 2 }),
+  lactosePercent: decimal("lactosePercent", { precision: 4, scale: 2 }),
+  somaticCellCount: int("somaticCellCount"), // cells/mL
+  laboratory: varchar("laboratory", { length: 255 }),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("milk_tests_animal_date_idx").on(table.animalId, table.testDate),
+  index("milk_tests_lactation_idx").on(table.lactationId),
+]);
+
+export type MilkTest = typeof milkTests.$inferSelect;
+export type InsertMilkTest = typeof milkTests.$inferInsert;
+
+/** Milk collected from the farm's bulk tank */
+export const bulkTankCollections = mysqlTable("bulkTankCollections", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  collectionDate: date("collectionDate").notNull(),
+  volumeLiters: decimal("volumeLiters", { precision: 8, scale: 2 }).notNull(),
+  buyer: varchar("buyer", { length: 255 }),
+  fatPercent: decimal("fatPercent", { precision: 4, scale: 2 }),
+  proteinPercent: decimal("proteinPercent", { precision: 4, scale: 2 }),
+  somaticCellCount: int("somaticCellCount"),
+  pricePerLiter: decimal("pricePerLiter", { precision: 8, scale: 2 }),
+  notes: text("notes"),
+  recordedBy: int("recordedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("bulk_tank_farm_date_idx").on(table.farmId, table.collectionDate),
+]);
+
+export type BulkTankCollection = typeof bulkTankCollections.$inferSelect;
+export type InsertBulkTankCollection = typeof bulkTankCollections.$inferInsert;
+
+// ============================================================================
+// REPRODUCTION - HEATS, SEMEN AND PREGNANCY CHECKS
+// ============================================================================
+/** A female seen in heat (oestrus) */
+export const heatObservations = mysqlTable("heatObservations", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  animalId: int("animalId").notNull(),
+  observedAt: timestamp("observedAt").notNull(),
+  intensity: mysqlEnum("intensity", ["weak", "moderate", "strong"]).default("moderate").notNull(),
+  method: mysqlEnum("method", ["visual", "tail_paint", "pedometer", "teaser", "other"]).default("visual").notNull(),
+  notes: text("notes"),
+  recordedBy: int("recordedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("heat_observations_animal_idx").on(table.animalId, table.observedAt),
+  index("heat_observations_farm_idx").on(table.farmId, table.observedAt),
+]);
+
+export type HeatObservation = typeof heatObservations.$inferSelect;
+export type InsertHeatObservation = typeof heatObservations.$inferInsert;
+
+/** Semen straws held for artificial insemination */
+export const semenBatches = mysqlTable("semenBatches", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  sireCode: varchar("sireCode", { length: 100 }).notNull(),
+  sireName: varchar("sireName", { length: 255 }),
+  sireAnimalId: int("sireAnimalId"), // when the sire is also recorded in animals
+  breed: varchar("breed", { length: 255 }),
+  batchNumber: varchar("batchNumber", { length: 100 }).notNull(),
+  supplier: varchar("supplier", { length: 255 }),
+  strawsReceived: int("strawsReceived").notNull(),
+  strawsRemaining: int("strawsRemaining").notNull(),
+  receivedAt: date("receivedAt").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("semen_batches_farm_batch_idx").on(table.farmId, table.sireCode, table.batchNumber),
+]);
+
+export type SemenBatch = typeof semenBatches.$inferSelect;
+export type InsertSemenBatch = typeof semenBatches.$inferInsert;
+
+/** Pregnancy diagnosis scheduled after a service, with its farm task */
+export const pregnancyChecks = mysqlTable("pregnancyChecks", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  animalId: int("animalId").notNull(),
+  breedingRecordId: int("breedingRecordId").notNull(),
+  dueDate: date("dueDate").notNull(),
+  taskId: int("taskId"),
+  result: mysqlEnum("result", ["pending", "pregnant", "open", "inconclusive", "cancelled"]).default("pending").notNull(),
+  method: mysqlEnum("method", ["palpation", "ultrasound", "blood_test", "observation"]),
+  checkedAt: date("checkedAt"),
+  checkedBy: int("checkedBy"),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("pregnancy_checks_breeding_idx").on(table.breedingRecordId),
+  index("pregnancy_checks_farm_due_idx").on(table.farmId, table.result, table.dueDate),
+]);
+
+export type PregnancyCheck = typeof pregnancyChecks.$inferSelect;
+export type InsertPregnancyCheck = typeof pregnancyChecks.$inferInsert;
+
+// ============================================================================
+// WEIGHING SESSIONS
+// ============================================================================
+/** A pen or group weighed together, by tag scan or a scale indicator's CSV export */
+export const weighingSessions = mysqlTable("weighingSessions", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  groupName: varchar("groupName", { length: 255 }).notNull(), // pen, paddock or batch; sessions with the same name form the group's series
+  sessionDate: date("sessionDate").notNull(),
+  method: mysqlEnum("method", ["tag_scan", "csv_import", "manual"]).default("tag_scan").notNull(),
+  scaleName: varchar("scaleName", { length: 255 }),
+  status: mysqlEnum("status", ["open", "closed"]).default("open").notNull(),
+  notes: text("notes"),
+  createdBy: int("createdBy"),
+  closedAt: timestamp("closedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("weighing_sessions_farm_group_idx").on(table.farmId, table.groupName, table.sessionDate),
+]);
+
+export type WeighingSession = typeof weighingSessions.$inferSelect;
+export type InsertWeighingSession = typeof weighingSessions.$inferInsert;
+
+/** One animal's weight in a session; the day's weight is mirrored to performanceMetrics */
+export const sessionWeights = mysqlTable("sessionWeights", {
+  id: int("id").autoincrement().primaryKey(),
+  sessionId: int("sessionId").notNull(),
+  animalId: int("animalId").notNull(),
+  weightKg: decimal("weightKg", { precision: 8, scale: 2 }).notNull(),
+  weighedAt: timestamp("weighedAt").notNull(),
+  scannedTag: varchar("scannedTag", { length: 100 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("session_weights_animal_idx").on(table.sessionId, table.animalId),
+  index("session_weights_animal_date_idx").on(table.animalId, table.weighedAt),
+]);
+
+export type SessionWeight = typeof sessionWeights.$inferSelect;
+export type InsertSessionWeight = typeof sessionWeights.$inferInsert;
+
+// ============================================================================
+// CROP PROTECTION
+// ============================================================================
+/** A plant protection product held by a farm, with its label intervals and stock */
+export const chemicalProducts = mysqlTable("chemicalProducts", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  activeIngredient: varchar("activeIngredient", { length: 255 }).notNull(), // with concentration, e.g. "lambda-cyhalothrin 25 g/L"
+  formulation: varchar("formulation", { length: 50 }), // EC, WP, SC...
+  registrationNumber: varchar("registrationNumber", { length: 100 }),
+  unit: mysqlEnum("unit", ["L", "kg"]).default("L").notNull(),
+  currentStock: decimal("currentStock", { precision: 12, scale: 3 }).default("0").notNull(),
+  reorderLevel: decimal("reorderLevel", { precision: 12, scale: 3 }),
+  preHarvestIntervalDays: int("preHarvestIntervalDays").default(0).notNull(),
+  reEntryIntervalHours: int("reEntryIntervalHours").default(0).notNull(),
+  batchNumber: varchar("batchNumber", { length: 100 }),
+  expiryDate: date("expiryDate"),
+  unitCost: decimal("unitCost", { precision: 12, scale: 2 }),
+  storageLocation: varchar("storageLocation", { length: 255 }),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("chemical_products_farm_idx").on(table.farmId, table.name),
+]);
+
+export type ChemicalProduct = typeof chemicalProducts.$inferSelect;
+export type InsertChemicalProduct = typeof chemicalProducts.$inferInsert;
+
+/** Stock movements; spray usage is negative and points at the spray application */
+export const chemicalStockTransactions = mysqlTable("chemicalStockTransactions", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  productId: int("productId").notNull(),
+  transactionType: mysqlEnum("transactionType", ["purchase", "spray", "adjustment", "disposal"]).notNull(),
+  quantity: decimal("quantity", { precision: 12, scale: 3 }).notNull(),
+  sprayApplicationId: int("sprayApplicationId"),
+  transactionDate: date("transactionDate").notNull(),
+  recordedBy: int("recordedBy"),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("chemical_stock_tx_product_idx").on(table.productId, table.transactionDate),
+]);
+
+export type ChemicalStockTransaction = typeof chemicalStockTransactions.$inferSelect;
+export type InsertChemicalStockTransaction = typeof chemicalStockTransactions.$inferInsert;
+
+/**
+ * One spray pass over a field or crop cycle. The tank mix is in
+ * sprayApplicationProducts; reEntryAt and safeHarvestDate are fixed from the
+ * mix when the spray is recorded so later label edits do not rewrite history.
+ */
+export const sprayApplications = mysqlTable("sprayApplications", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  fieldId: int("fieldId"),
+  cycleId: int("cycleId"),
+  healthRecordId: int("healthRecordId"), // the pest or disease being treated, when recorded
+  cropTreatmentId: int("cropTreatmentId"),
+  target: varchar("target", { length: 255 }), // pest, disease or weed
+  appliedAt: timestamp("appliedAt").notNull(),
+  areaSprayedHectares: decimal("areaSprayedHectares", { precision: 10, scale: 2 }).notNull(),
+  waterVolumeLitersPerHa: decimal("waterVolumeLitersPerHa", { precision: 10, scale: 2 }),
+  equipment: varchar("equipment", { length: 255 }),
+  operatorName: varchar("operatorName", { length: 255 }).notNull(),
+  operatorUserId: int("operatorUserId"),
+  temperatureC: decimal("temperatureC", { precision: 5, scale: 1 }),
+  humidityPercent: decimal("humidityPercent", { precision: 5, scale: 1 }),
+  windSpeedKmh: decimal("windSpeedKmh", { precision: 5, scale: 1 }),
+  windDirection: varchar("windDirection", { length: 10 }),
+  weatherConditions: varchar("weatherConditions", { length: 255 }),
+  reEntryAt: timestamp("reEntryAt").notNull(),
+  safeHarvestDate: date("safeHarvestDate").notNull(),
+  notes: text("notes"),
+  recordedBy: int("recordedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("spray_applications_farm_idx").on(table.farmId, table.appliedAt),
+  index("spray_applications_cycle_idx").on(table.cycleId, table.safeHarvestDate),
+  index("spray_applications_field_idx").on(table.fieldId, table.safeHarvestDate),
+]);
+
+export type SprayApplication = typeof sprayApplications.$inferSelect;
+export type InsertSprayApplication = typeof sprayApplications.$inferInsert;
+
+/** A product in a spray's tank mix, with the label intervals in force when it was applied */
+export const sprayApplicationProducts = mysqlTable("sprayApplicationProducts", {
+  id: int("id").autoincrement().primaryKey(),
+  sprayApplicationId: int("sprayApplicationId").notNull(),
+  productId: int("productId").notNull(),
+  productName: varchar("productName", { length: 255 }).notNull(),
+  activeIngredient: varchar("activeIngredient", { length: 255 }).notNull(),
+  ratePerHectare: decimal("ratePerHectare", { precision: 10, scale: 3 }).notNull(), // in the product's unit
+  unit: mysqlEnum("unit", ["L", "kg"]).notNull(),
+  quantityUsed: decimal("quantityUsed", { precision: 12, scale: 3 }).notNull(),
+  preHarvestIntervalDays: int("preHarvestIntervalDays").notNull(),
+  reEntryIntervalHours: int("reEntryIntervalHours").notNull(),
+}, (table) => [
+  index("spray_application_products_spray_idx").on(table.sprayApplicationId),
+]);
+
+export type SprayApplicationProduct = typeof sprayApplicationProducts.$inferSelect;
+export type InsertSprayApplicationProduct = typeof sprayApplicationProducts.$inferInsert;
+
+// ============================================================================
+// CROP ROTATION PLANS
+// ============================================================================
+/**
+ * A planned sequence of crops for one field. violations holds the rotation
+ * faults found when the plan was last checked; accepting the plan creates
+ * a "planning" crop cycle for each season.
+ */
+export const rotationPlans = mysqlTable("rotationPlans", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  fieldId: int("fieldId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  status: mysqlEnum("status", ["draft", "accepted", "cancelled"]).default("draft").notNull(),
+  score: int("score"), // mean season score, 0-100
+  violations: json("violations").$type<Array<{ index: number; type: string; severity: "error" | "warning"; message: string }>>(),
+  notes: text("notes"),
+  createdBy: int("createdBy"),
+  acceptedBy: int("acceptedBy"),
+  acceptedAt: timestamp("acceptedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("rotation_plans_field_idx").on(table.farmId, table.fieldId, table.status),
+]);
+
+export type RotationPlan = typeof rotationPlans.$inferSelect;
+export type InsertRotationPlan = typeof rotationPlans.$inferInsert;
+
+export const rotationPlanSeasons = mysqlTable("rotationPlanSeasons", {
+  id: int("id").autoincrement().primaryKey(),
+  planId: int("planId").notNull(),
+  sequence: int("sequence").notNull(),
+  cropId: int("cropId").notNull(),
+  varietyName: varchar("varietyName", { length: 255 }),
+  plantingDate: date("plantingDate").notNull(),
+  expectedHarvestDate: date("expectedHarvestDate"),
+  score: int("score"),
+  reasons: json("reasons").$type<string[]>(),
+  cycleId: int("cycleId"), // set when the plan is accepted
+}, (table) => [
+  uniqueIndex("rotation_plan_seasons_sequence_idx").on(table.planId, table.sequence),
+]);
+
+export type RotationPlanSeason = typeof rotationPlanSeasons.$inferSelect;
+export type InsertRotationPlanSeason = typeof rotationPlanSeasons.$inferInsert;
+
+// ============================================================================
+// CROP PHENOLOGY
+// ============================================================================
+/**
+ * Growing degree days per crop cycle and day, from the farm's weather
+ * station when it reported that day and weatherHistory otherwise.
+ * Rebuilt from planting each time the cycle is updated.
+ */
+export const cropGddDaily = mysqlTable("cropGddDaily", {
+  id: int("id").autoincrement().primaryKey(),
+  cycleId: int("cycleId").notNull(),
+  date: date("date").notNull(),
+  minTemperature: decimal("minTemperature", { precision: 5, scale: 2 }).notNull(),
+  maxTemperature: decimal("maxTemperature", { precision: 5, scale: 2 }).notNull(),
+  gdd: decimal("gdd", { precision: 5, scale: 1 }).notNull(),
+  cumulativeGdd: decimal("cumulativeGdd", { precision: 8, scale: 1 }).notNull(),
+  source: mysqlEnum("source", ["weather", "sensor"]).notNull(),
+}, (table) => [
+  uniqueIndex("crop_gdd_daily_cycle_date_idx").on(table.cycleId, table.date),
+]);
+
+export type CropGddDaily = typeof cropGddDaily.$inferSelect;
+export type InsertCropGddDaily = typeof cropGddDaily.$inferInsert;
+
+/** Tasks created when a cycle reached a growth stage; one per cycle and trigger */
+export const cropStageTasks = mysqlTable("cropStageTasks", {
+  id: int("id").autoincrement().primaryKey(),
+  cycleId: int("cycleId").notNull(),
+  triggerKey: varchar("triggerKey", { length: 50 }).notNull(),
+  stage: varchar("stage", { length: 20 }).notNull(),
+  taskAssignmentId: int("taskAssignmentId").notNull(),
+  reachedOn: date("reachedOn").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("crop_stage_tasks_cycle_trigger_idx").on(table.cycleId, table.triggerKey),
+]);
+
+export type CropStageTask = typeof cropStageTasks.$inferSelect;
+export type InsertCropStageTask = typeof cropStageTasks.$inferInsert;
@@ -1,47 +1,41 @@
-import cron from 'node-cron';
 import { runAlertChecks } from './alertMonitoring';
 import { getDb } from '../db';
 import { farms } from '../../drizzle/schema';
+import { defineCronJob, enqueueJob, registerJobHandler } from '../services/jobQueueService';
 
 /**
  * Initialize scheduled alert monitoring
- * Runs every hour to check all farms for critical conditions
+ * Every hour a queue job fans out one check job per farm, so a failing farm
+ * is retried on its own and no farm is checked twice in the same hour
  */
 export function initializeAlertScheduler() {
-  // Run alert checks every hour
-  cron.schedule('0 * * * *', async () => {
-    console.log('[ALERT SCHEDULER] Running hourly alert checks...');
-    
-    try {
-      const db = await getDb();
-      if (!db) {
-        console.error('[ALERT SCHEDULER] Database not available');
-        return;
-      }
-
-      // Get all farms
-      const allFarms = await db.select().from(farms);
-      
-      console.log(`[ALERT SCHEDULER] Checking ${allFarms.length} farms`);
-
-      // Run alert checks for each farm
-      for (const farm of allFarms) {
-        try {
-          // Use farm owner as the user ID for notifications
-          await runAlertChecks(farm.id, farm.farmerUserId);
-          console.log(`[ALERT SCHEDULER] Completed checks for farm ${farm.id} (${farm.farmName})`);
-        } catch (error) {
-          console.error(`[ALERT SCHEDULER] Error checking farm ${farm.id}:`, error);
-        }
-      }
+  registerJobHandler('alerts.scanFarms', async () => {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
 
-      console.log('[ALERT SCHEDULER] Hourly alert checks completed');
-    } catch (error) {
-      console.error('[ALERT SCHEDULER] Fatal error during alert checks:', error);
+    const allFarms = await db.select({ id: farms.id, farmerUserId: farms.farmerUserId }).from(farms);
+    const hour = new Date().toISOString().slice(0, 13);
+    for (const farm of allFarms) {
+      await enqueueJob(
+        'alerts.checkFarm',
+        { farmId: farm.id, userId: farm.farmerUserId },
+        { uniqueKey: `alerts:${farm.id}:${hour}` }
+      );
     }
+    console.log(`[ALERT SCHEDULER] Queued checks for ${allFarms.length} farms`);
+    return { farms: allFarms.length };
   });
 
-  console.log('[ALERT SCHEDULER] Initialized - running every hour');
+  // Use farm owner as the user ID for notifications
+  registerJobHandler<{ farmId: number; userId: number }>(
+    'alerts.checkFarm',
+    ({ farmId, userId }) => runAlertChecks(farmId, userId),
+    { maxAttempts: 3 }
+  );
+
+  defineCronJob('hourly-alert-checks', '0 * * * *', 'alerts.scanFarms')
+    .then(() => console.log('[ALERT SCHEDULER] Initialized - running every hour'))
+    .catch((error) => console.error('[ALERT SCHEDULER] Could not schedule alert checks:', error));
 }
 
 /**
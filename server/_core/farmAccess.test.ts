@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./context";
+import type { Farm } from "../../drizzle/schema";
+
+vi.mock("./farmAccess", async importOriginal => {
+  const actual = await importOriginal<typeof import("./farmAccess")>();
+  return { ...actual, loadFarmAccess: vi.fn() };
+});
+
+import { hasFarmRole, loadFarmAccess, resolveFarmRole } from "./farmAccess";
+import { appRouter } from "../routers";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+const OWNER_ID = 1;
+const OTHER_TENANT_ID = 2;
+const FARM_ID = 10;
+
+function createContext(userId: number, role: "user" | "admin" = "user"): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: `user${userId}@example.com`,
+    name: `User ${userId}`,
+    loginMethod: "manus",
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+const farm = { id: FARM_ID, farmerUserId: OWNER_ID, farmName: "Owner Farm" } as Farm;
+
+describe("resolveFarmRole", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  it("treats the farmer as owner", () => {
+    expect(resolveFarmRole({ id: OWNER_ID, role: "user" }, farm, [], now)).toBe("owner");
+  });
+
+  it("returns null for users without a grant", () => {
+    expect(resolveFarmRole({ id: OTHER_TENANT_ID, role: "user" }, farm, [], now)).toBeNull();
+  });
+
+  it("uses the highest unexpired grant", () => {
+    const permissions = [
+      { userId: OTHER_TENANT_ID, role: "admin" as const, expiresAt: new Date("2025-12-31T00:00:00Z") },
+      { userId: OTHER_TENANT_ID, role: "editor" as const, expiresAt: null },
+      { userId: 99, role: "admin" as const, expiresAt: null },
+    ];
+    expect(resolveFarmRole({ id: OTHER_TENANT_ID, role: "user" }, farm, permissions, now)).toBe("editor");
+  });
+
+  it("ignores grants that expire exactly now", () => {
+    const permissions = [{ userId: OTHER_TENANT_ID, role: "viewer" as const, expiresAt: now }];
+    expect(resolveFarmRole({ id: OTHER_TENANT_ID, role: "user" }, farm, permissions, now)).toBeNull();
+  });
+
+  it("lets platform admins act as farm admins", () => {
+    expect(resolveFarmRole({ id: 42, role: "admin" }, farm, [], now)).toBe("admin");
+  });
+});
+
+describe("hasFarmRole", () => {
+  it("orders roles viewer < editor < admin < owner", () => {
+    expect(hasFarmRole("viewer", "viewer")).toBe(true);
+    expect(hasFarmRole("viewer", "editor")).toBe(false);
+    expect(hasFarmRole("editor", "viewer")).toBe(true);
+    expect(hasFarmRole("admin", "owner")).toBe(false);
+    expect(hasFarmRole("owner", "admin")).toBe(true);
+    expect(hasFarmRole(null, "viewer")).toBe(false);
+  });
+});
+
+describe("farmProcedure", () => {
+  const mockedLoad = vi.mocked(loadFarmAccess);
+
+  beforeEach(() => {
+    mockedLoad.mockReset();
+  });
+
+  it("rejects cross-tenant reads", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: null });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+
+    await expect(caller.iot.listDevices({ farmId: FARM_ID })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.fishFarming.ponds.list({ farmId: FARM_ID })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(mockedLoad).toHaveBeenCalledWith(expect.objectContaining({ id: OTHER_TENANT_ID }), FARM_ID);
+  });
+
+  it("rejects cross-tenant writes", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: null });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+
+    await expect(
+      caller.iot.registerDevice({ farmId: FARM_ID, deviceSerial: "SN-1", deviceType: "soil_sensor" })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("rejects writes from viewers", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: "viewer" });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+
+    await expect(
+      caller.fishFarming.ponds.create({ farmId: FARM_ID, pondName: "Pond A" } as any)
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("lets viewers read", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: "viewer" });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+
+    await expect(caller.feeding.listByFarm({ farmId: FARM_ID })).resolves.toEqual([]);
+  });
+
+  it("checks every farm in a comma-separated farmId", async () => {
+    mockedLoad.mockImplementation(async (_user, farmId) =>
+      farmId === FARM_ID ? { farm, role: "viewer" } : { farm: { ...farm, id: farmId }, role: null }
+    );
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+
+    await expect(
+      caller.financialManagement.getExpenses({ farmId: `${FARM_ID},11` })
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(mockedLoad).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects malformed farm ids", async () => {
+    const caller = appRouter.createCaller(createContext(OWNER_ID));
+
+    await expect(caller.financialManagement.getExpenses({ farmId: "abc" })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+    expect(mockedLoad).not.toHaveBeenCalled();
+  });
+
+  it("returns NOT_FOUND for unknown farms", async () => {
+    mockedLoad.mockResolvedValue(null);
+    const caller = appRouter.createCaller(createContext(OWNER_ID));
+
+    await expect(caller.iot.listDevices({ farmId: 404 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("fails closed when access cannot be resolved", async () => {
+    mockedLoad.mockRejectedValue(new Error("Database unavailable"));
+    const caller = appRouter.createCaller(createContext(OWNER_ID));
+
+    await expect(caller.iot.getAlerts({ farmId: FARM_ID })).rejects.toMatchObject({
+      code: "INTERNAL_SERVER_ERROR",
+    });
+  });
+
+  it("rejects anonymous callers before touching the farm", async () => {
+    const caller = appRouter.createCaller({ ...createContext(OWNER_ID), user: null });
+
+    await expect(caller.iot.listDevices({ farmId: FARM_ID })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    expect(mockedLoad).not.toHaveBeenCalled();
+  });
+});
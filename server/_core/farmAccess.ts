@@ -0,0 +1,100 @@
+import { and, eq } from "drizzle-orm";
+import { farmPermissions, farms } from "../../drizzle/schema";
+import type { Farm, FarmPermission, User } from "../../drizzle/schema";
+import { getDb } from "../db";
+
+/**
+ * Farm access roles, ordered from least to most privileged.
+ * "owner" is never stored; it is derived from farms.farmerUserId.
+ */
+export type FarmRole = "viewer" | "editor" | "admin" | "owner";
+
+const ROLE_RANK: Record<FarmRole, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4,
+};
+
+export function hasFarmRole(role: FarmRole | null, minRole: FarmRole): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+/**
+ * Resolve the effective role of a user on a farm.
+ * Owners win over grants, platform admins act as farm admins,
+ * and expired grants are ignored.
+ */
+export function resolveFarmRole(
+  user: Pick<User, "id" | "role">,
+  farm: Pick<Farm, "farmerUserId">,
+  permissions: Pick<FarmPermission, "userId" | "role" | "expiresAt">[],
+  now: Date = new Date()
+): FarmRole | null {
+  if (farm.farmerUserId === user.id) return "owner";
+
+  let best: FarmRole | null = user.role === "admin" ? "admin" : null;
+  for (const permission of permissions) {
+    if (permission.userId !== user.id) continue;
+    if (permission.expiresAt && permission.expiresAt.getTime() <= now.getTime()) continue;
+    if (!best || ROLE_RANK[permission.role] > ROLE_RANK[best]) {
+      best = permission.role;
+    }
+  }
+  return best;
+}
+
+export type FarmAccess = {
+  farm: Farm;
+  role: FarmRole | null;
+};
+
+/**
+ * Load a farm and the caller's grants on it. Returns null when the
+ * farm does not exist; throws when the database is unavailable so
+ * callers fail closed.
+ */
+export async function loadFarmAccess(
+  user: Pick<User, "id" | "role">,
+  farmId: number
+): Promise<FarmAccess | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [farm] = await db.select().from(farms).where(eq(farms.id, farmId)).limit(1);
+  if (!farm) return null;
+
+  const permissions =
+    farm.farmerUserId === user.id
+      ? []
+      : await db
+          .select()
+          .from(farmPermissions)
+          .where(and(eq(farmPermissions.farmId, farmId), eq(farmPermissions.userId, user.id)));
+
+  return { farm, role: resolveFarmRole(user, farm, permissions) };
+}
+
+/**
+ * Ids of every farm the user can at least view: owned farms plus unexpired
+ * grants. Returns null for platform admins, who can see every farm.
+ */
+export async function listAccessibleFarmIds(user: Pick<User, "id" | "role">): Promise<number[] | null> {
+  if (user.role === "admin") return null;
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const owned = await db.select({ id: farms.id }).from(farms).where(eq(farms.farmerUserId, user.id));
+  const grants = await db
+    .select({ farmId: farmPermissions.farmId, expiresAt: farmPermissions.expiresAt })
+    .from(farmPermissions)
+    .where(eq(farmPermissions.userId, user.id));
+
+  const now = Date.now();
+  const ids = new Set(owned.map(farm => farm.id));
+  for (const grant of grants) {
+    if (!grant.expiresAt || grant.expiresAt.getTime() > now) ids.add(grant.farmId);
+  }
+  return [...ids];
+}
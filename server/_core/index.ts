@@ -6,6 +6,10 @@ import compression from "compression";
 import cookieParser from "cookie-parser";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerIoTIngestionRoutes } from "./iotIngestion";
+import { registerUssdRoutes } from "./ussdGateway";
+import { registerInboundSmsRoutes } from "./smsInbound";
+import { registerPaymentWebhookRoutes } from "./paymentWebhooks";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 // Dynamic import for vite (dev only) - serveStatic is always available
@@ -20,6 +24,16 @@ let initializeAlertScheduler: (() => void) | null = null;
 let scheduledReportExecutor: { start: () => void } | null = null;
 let initializeNotificationScheduler: (() => void) | null = null;
 let RealTimeProductTracking: (new (server: any) => any) | null = null;
+let initializeSensorAlertScheduler: (() => void) | null = null;
+let initializeSensorRollupScheduler: (() => void) | null = null;
+let initializeIrrigationScheduler: (() => void) | null = null;
+let initializeEscrowScheduler: (() => void) | null = null;
+let initializeLedgerScheduler: (() => void) | null = null;
+let initializeWorkflowScheduler: (() => void) | null = null;
+let initializeSearchIndexScheduler: (() => void) | null = null;
+let initializeCartExpirationJob: (() => void) | null = null;
+let initializePhenologyJob: (() => void) | null = null;
+let initializeJobQueue: (() => void) | null = null;
 
 try {
   const weatherCron = await import("../weatherCron");
@@ -63,6 +77,76 @@ try {
   console.warn("[Init] Product tracking not available:", (e as Error).message);
 }
 
+try {
+  const sensorAlerts = await import("../services/sensorAlertEngine");
+  initializeSensorAlertScheduler = sensorAlerts.initializeSensorAlertScheduler;
+} catch (e) {
+  console.warn("[Init] Sensor alert engine not available:", (e as Error).message);
+}
+
+try {
+  const sensorRollups = await import("../services/sensorRollupService");
+  initializeSensorRollupScheduler = sensorRollups.initializeSensorRollupScheduler;
+} catch (e) {
+  console.warn("[Init] Sensor rollups not available:", (e as Error).message);
+}
+
+try {
+  const irrigation = await import("../services/irrigationScheduler");
+  initializeIrrigationScheduler = irrigation.initializeIrrigationScheduler;
+} catch (e) {
+  console.warn("[Init] Irrigation scheduler not available:", (e as Error).message);
+}
+
+try {
+  const escrow = await import("../services/escrowService");
+  initializeEscrowScheduler = escrow.initializeEscrowScheduler;
+} catch (e) {
+  console.warn("[Init] Escrow scheduler not available:", (e as Error).message);
+}
+
+try {
+  const ledger = await import("../services/ledgerService");
+  initializeLedgerScheduler = ledger.initializeLedgerScheduler;
+} catch (e) {
+  console.warn("[Init] Ledger scheduler not available:", (e as Error).message);
+}
+
+try {
+  const workflowRunner = await import("../services/workflowRunner");
+  initializeWorkflowScheduler = workflowRunner.initializeWorkflowScheduler;
+} catch (e) {
+  console.warn("[Init] Workflow scheduler not available:", (e as Error).message);
+}
+
+try {
+  const searchIndex = await import("../services/searchIndexService");
+  initializeSearchIndexScheduler = searchIndex.initializeSearchIndexScheduler;
+} catch (e) {
+  console.warn("[Init] Search index scheduler not available:", (e as Error).message);
+}
+
+try {
+  const cartExpiration = await import("../services/cartExpirationService");
+  initializeCartExpirationJob = cartExpiration.initializeCartExpirationJob;
+} catch (e) {
+  console.warn("[Init] Cart expiration job not available:", (e as Error).message);
+}
+
+try {
+  const phenology = await import("../services/phenologyService");
+  initializePhenologyJob = phenology.initializePhenologyJob;
+} catch (e) {
+  console.warn("[Init] Phenology job not available:", (e as Error).message);
+}
+
+try {
+  const jobQueue = await import("../services/jobQueueService");
+  initializeJobQueue = jobQueue.initializeJobQueue;
+} catch (e) {
+  console.warn("[Init] Job queue not available:", (e as Error).message);
+}
+
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
     const server = net.createServer();
@@ -123,6 +207,9 @@ async function startServer() {
   // Cookie parser - required for session authentication
   app.use(cookieParser());
   
+  // Payment webhooks verify signatures over the raw body, so they go before the JSON parser
+  registerPaymentWebhookRoutes(app);
+
   // Body parser with larger limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
@@ -130,6 +217,15 @@ async function startServer() {
   // OAuth routes (Google OAuth + health check)
   registerOAuthRoutes(app);
 
+  // IoT telemetry ingestion (device API keys, no user session)
+  registerIoTIngestionRoutes(app);
+
+  // USSD gateway callbacks (caller identified by phone number)
+  registerUssdRoutes(app);
+
+  // Inbound SMS keyword commands from field workers
+  registerInboundSmsRoutes(app);
+
   // tRPC API
   app.use(
     "/api/trpc",
@@ -210,6 +306,40 @@ async function startServer() {
     if (initializeNotificationScheduler) {
       try { initializeNotificationScheduler(); } catch (e) { console.warn('[NotificationScheduler] Failed:', (e as Error).message); }
     }
+
+    if (initializeSensorAlertScheduler) {
+      try { initializeSensorAlertScheduler(); } catch (e) { console.warn('[SensorAlertEngine] Failed:', (e as Error).message); }
+    }
+
+    if (initializeSensorRollupScheduler) {
+      try { initializeSensorRollupScheduler(); } catch (e) { console.warn('[SensorRollups] Failed:', (e as Error).message); }
+    }
+
+    if (initializeIrrigationScheduler) {
+      try { initializeIrrigationScheduler(); } catch (e) { console.warn('[IrrigationScheduler] Failed:', (e as Error).message); }
+    }
+    if (initializeEscrowScheduler) {
+      try { initializeEscrowScheduler(); } catch (e) { console.warn('[EscrowScheduler] Failed:', (e as Error).message); }
+    }
+    if (initializeLedgerScheduler) {
+      try { initializeLedgerScheduler(); } catch (e) { console.warn('[LedgerScheduler] Failed:', (e as Error).message); }
+    }
+    if (initializeWorkflowScheduler) {
+      try { initializeWorkflowScheduler(); } catch (e) { console.warn('[WorkflowScheduler] Failed:', (e as Error).message); }
+    }
+    if (initializeSearchIndexScheduler) {
+      try { initializeSearchIndexScheduler(); } catch (e) { console.warn('[SearchIndexScheduler] Failed:', (e as Error).message); }
+    }
+    if (initializeCartExpirationJob) {
+      try { initializeCartExpirationJob(); } catch (e) { console.warn('[CartExpiration] Failed:', (e as Error).message); }
+    }
+    if (initializePhenologyJob) {
+      try { initializePhenologyJob(); } catch (e) { console.warn('[Phenology] Failed:', (e as Error).message); }
+    }
+    // Last, so every handler registered above is known before jobs are claimed
+    if (initializeJobQueue) {
+      try { initializeJobQueue(); } catch (e) { console.warn('[JobQueue] Failed:', (e as Error).message); }
+    }
   });
 }
 
@@ -0,0 +1,75 @@
+import express from "express";
+import type { Express, Request, Response } from "express";
+import {
+  authenticateDevice,
+  ingestReadings,
+  IngestionError,
+  parseCsvBatch,
+  parseJsonBatch,
+} from "../services/iotIngestionService";
+
+function extractDeviceKey(req: Request): string | undefined {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.substring(7).trim();
+  }
+  const headerKey = req.headers["x-device-key"];
+  return typeof headerKey === "string" ? headerKey.trim() : undefined;
+}
+
+/**
+ * Telemetry ingestion for physical sensors, which cannot hold a user session.
+ *
+ *   POST /api/iot/ingest
+ *   X-Device-Serial: <iotDevices.deviceSerial>
+ *   Authorization: Bearer <device key>   (or X-Device-Key)
+ *   Content-Type: application/json | text/csv
+ */
+export function registerIoTIngestionRoutes(app: Express) {
+  app.post(
+    "/api/iot/ingest",
+    express.text({ type: ["text/csv", "text/plain"], limit: "2mb" }),
+    async (req: Request, res: Response) => {
+      const deviceSerial = req.headers["x-device-serial"];
+      const key = extractDeviceKey(req);
+
+      if (typeof deviceSerial !== "string" || !key) {
+        res.status(401).json({ error: "Device serial and key are required" });
+        return;
+      }
+
+      try {
+        const device = await authenticateDevice(deviceSerial.trim(), key);
+        if (!device) {
+          res.status(401).json({ error: "Invalid device credentials" });
+          return;
+        }
+        if (device.status !== "active") {
+          res.status(403).json({ error: `Device is ${device.status}` });
+          return;
+        }
+
+        const receivedAt = new Date();
+        const parsed =
+          typeof req.body === "string"
+            ? parseCsvBatch(req.body, receivedAt)
+            : parseJsonBatch(req.body, receivedAt);
+
+        if (parsed.readings.length === 0 && parsed.rejected.length > 0) {
+          res.status(400).json({ error: "No valid readings", rejected: parsed.rejected });
+          return;
+        }
+
+        const result = await ingestReadings(device, parsed);
+        res.status(202).json(result);
+      } catch (error) {
+        if (error instanceof IngestionError) {
+          res.status(error.status).json({ error: error.message });
+          return;
+        }
+        console.error("[IoTIngestion] Failed to ingest readings:", error);
+        res.status(500).json({ error: "Failed to ingest readings" });
+      }
+    }
+  );
+}
@@ -0,0 +1,60 @@
+import express from "express";
+import type { Express, Request, Response } from "express";
+import { getPaymentProvider, WebhookSignatureError, type PaymentProviderName } from "../services/paymentProviders";
+import { applyPaymentResult } from "../services/paymentService";
+
+const WEBHOOK_PROVIDERS: PaymentProviderName[] = ["paystack", "flutterwave", "fake"];
+
+/**
+ * Payment provider webhooks.
+ *
+ *   POST /api/webhooks/payments/:provider   (paystack | flutterwave)
+ *
+ * Registered before the global JSON parser because signatures are
+ * computed over the raw request body. Providers retry until they get a
+ * 2xx, so anything already applied is acknowledged with 200.
+ */
+export function registerPaymentWebhookRoutes(app: Express) {
+  app.post(
+    "/api/webhooks/payments/:provider",
+    express.raw({ type: "*/*", limit: "1mb" }),
+    async (req: Request, res: Response) => {
+      const name = req.params.provider as PaymentProviderName;
+      const provider = WEBHOOK_PROVIDERS.includes(name) ? getPaymentProvider(name) : null;
+      if (!provider) {
+        res.status(404).json({ error: "Unknown payment provider" });
+        return;
+      }
+
+      const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.from("");
+      let event;
+      try {
+        event = provider.parseWebhook(rawBody, req.headers);
+      } catch (error) {
+        const status = error instanceof WebhookSignatureError ? 401 : 400;
+        res.status(status).json({ error: (error as Error).message });
+        return;
+      }
+
+      if (event.type === "ignored" || !event.reference || !event.status) {
+        res.status(200).json({ received: true, ignored: event.rawType });
+        return;
+      }
+
+      try {
+        const outcome = await applyPaymentResult(provider.name, {
+          reference: event.reference,
+          status: event.status,
+          amount: event.amount,
+          currency: event.currency,
+          providerTransactionId: event.providerTransactionId,
+        });
+        res.status(200).json({ received: true, outcome });
+      } catch (error) {
+        // A 5xx makes the provider retry later
+        console.error(`[PaymentWebhook] ${provider.name} ${event.reference} failed:`, error);
+        res.status(500).json({ error: "Webhook processing failed" });
+      }
+    }
+  );
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { niceScale, pageDimensions, parseHexColor, renderPdfLayout, toWinAnsi, wrapText } from "./pdfLayout";
+
+describe("parseHexColor", () => {
+  it("reads six-digit hex with or without the hash", () => {
+    expect(parseHexColor("#ff8000")).toMatchObject({ red: 1, green: 128 / 255, blue: 0 });
+    expect(parseHexColor("000000")).toMatchObject({ red: 0, green: 0, blue: 0 });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseHexColor("#fff")).toBeNull();
+    expect(parseHexColor("green")).toBeNull();
+    expect(parseHexColor(null)).toBeNull();
+  });
+});
+
+describe("wrapText", () => {
+  const measure = (text: string) => text.length;
+
+  it("breaks on words and keeps explicit newlines", () => {
+    expect(wrapText("feed the broilers twice daily", 12, measure)).toEqual(["feed the", "broilers", "twice daily"]);
+    expect(wrapText("one\ntwo", 20, measure)).toEqual(["one", "two"]);
+  });
+
+  it("cuts words longer than a line", () => {
+    expect(wrapText("abcdefghij", 4, measure)).toEqual(["abcd", "efgh", "ij"]);
+  });
+});
+
+describe("niceScale", () => {
+  it("rounds the axis up to 1, 2 or 5 steps", () => {
+    expect(niceScale(87)).toEqual({ max: 100, step: 20 });
+    expect(niceScale(1234)).toEqual({ max: 1500, step: 500 });
+    expect(niceScale(0)).toEqual({ max: 1, step: 0.2 });
+  });
+});
+
+describe("toWinAnsi", () => {
+  it("spells out the cedi and replaces characters the standard fonts lack", () => {
+    expect(toWinAnsi("₵1,200")).toBe("GHS 1,200");
+    expect(toWinAnsi("Café – ✓")).toBe("Café – ?");
+  });
+});
+
+describe("renderPdfLayout", () => {
+  it("paginates long tables and numbers every page", async () => {
+    const rows = Array.from({ length: 120 }, (_, i) => [`Animal ${i + 1}`, String(i)]);
+    const buffer = await renderPdfLayout({
+      theme: { title: "Herd report", pageSize: "A4", orientation: "portrait", brandColor: "#16a34a", footerText: "Green Acres" },
+      blocks: [
+        { kind: "heading", text: "Summary" },
+        { kind: "kpis", tiles: [{ label: "Animals", value: "120" }] },
+        { kind: "chart", chartType: "bar", title: "By month", labels: ["Jan", "Feb"], series: [{ name: "Births", values: [3, 5] }] },
+        { kind: "table", columns: [{ header: "Animal", width: 2 }, { header: "Weight", align: "right" }], rows },
+      ],
+    });
+
+    expect(buffer.subarray(0, 5).toString()).toBe("%PDF-");
+    const doc = await PDFDocument.load(buffer);
+    expect(doc.getPageCount()).toBeGreaterThan(1);
+    const [width, height] = pageDimensions("A4", "portrait");
+    expect(doc.getPage(0).getSize()).toEqual({ width, height });
+  });
+
+  it("uses landscape Letter pages when asked", async () => {
+    const buffer = await renderPdfLayout({
+      theme: { title: "Report", pageSize: "Letter", orientation: "landscape" },
+      blocks: [{ kind: "paragraph", text: "Nothing to report." }],
+    });
+    const doc = await PDFDocument.load(buffer);
+    expect(doc.getPage(0).getSize()).toEqual({ width: 792, height: 612 });
+  });
+});
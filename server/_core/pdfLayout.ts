@@ -0,0 +1,503 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, StandardFonts, rgb } from "pdf-lib";
+
+/**
+ * Layout-driven PDF renderer.
+ *
+ * Reports are described as a list of blocks (headings, paragraphs, KPI
+ * tiles, tables, charts) and a theme; the renderer flows the blocks down
+ * the page and starts new pages as needed. Tables repeat their header row
+ * on every page they span, and charts are drawn with PDF vector primitives
+ * so nothing needs a browser or canvas. Every page gets the branded header
+ * band (logo, title, header text) and a footer with "Page x of y".
+ */
+
+export type PageSize = "A4" | "Letter";
+export type PageOrientation = "portrait" | "landscape";
+
+export interface ReportTheme {
+  title: string;
+  subtitle?: string;
+  /** Hex colour like "#2563eb" used for the header band, headings and charts */
+  brandColor?: string | null;
+  headerText?: string | null;
+  footerText?: string | null;
+  /** PNG or JPEG bytes */
+  logo?: Uint8Array | null;
+  pageSize: PageSize;
+  orientation: PageOrientation;
+}
+
+export interface KpiTile {
+  label: string;
+  value: string;
+  tone?: "positive" | "negative" | "neutral";
+}
+
+export interface TableColumn {
+  header: string;
+  /** Relative width; columns share the page width in proportion */
+  width?: number;
+  align?: "left" | "right";
+}
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+}
+
+export type LayoutBlock =
+  | { kind: "heading"; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "kpis"; tiles: KpiTile[] }
+  | { kind: "table"; columns: TableColumn[]; rows: string[][]; emptyText?: string }
+  | {
+      kind: "chart";
+      chartType: "bar" | "line";
+      title: string;
+      labels: string[];
+      series: ChartSeries[];
+      formatValue?: (value: number) => string;
+    }
+  | { kind: "spacer"; height: number };
+
+export interface ReportLayout {
+  theme: ReportTheme;
+  blocks: LayoutBlock[];
+}
+
+/** Page sizes in PDF points (1/72 inch), portrait */
+export const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  A4: [595.28, 841.89],
+  Letter: [612, 792],
+};
+
+export function pageDimensions(size: PageSize, orientation: PageOrientation): [number, number] {
+  const [width, height] = PAGE_SIZES[size];
+  return orientation === "landscape" ? [height, width] : [width, height];
+}
+
+const DEFAULT_BRAND = rgb(0.15, 0.39, 0.92);
+const TEXT = rgb(0.12, 0.12, 0.14);
+const MUTED = rgb(0.45, 0.45, 0.5);
+const GRID = rgb(0.86, 0.87, 0.9);
+const STRIPE = rgb(0.96, 0.97, 0.98);
+const POSITIVE = rgb(0.06, 0.6, 0.4);
+const NEGATIVE = rgb(0.86, 0.2, 0.2);
+const SERIES_COLORS = [rgb(0.96, 0.62, 0.04), rgb(0.06, 0.6, 0.4), rgb(0.55, 0.36, 0.96), rgb(0.86, 0.2, 0.2)];
+
+export function parseHexColor(hex: string | null | undefined): RGB | null {
+  const match = hex?.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+}
+
+// The standard fonts only cover WinAnsi; swap the cedi sign and drop anything else they cannot draw
+const WIN_ANSI_EXTRAS = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ");
+export function toWinAnsi(text: string): string {
+  return [...text.replace(/₵\s?/g, "GHS ")]
+    .map(char => (char.charCodeAt(0) <= 255 || WIN_ANSI_EXTRAS.has(char) ? char : "?"))
+    .join("");
+}
+
+/** Break text into lines no wider than maxWidth; words longer than a line are cut */
+export function wrapText(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      let rest = word;
+      while (measure(rest) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && measure(rest.slice(0, cut)) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Axis maximum and tick step that land on 1, 2 or 5 times a power of ten */
+export function niceScale(maxValue: number, ticks = 5): { max: number; step: number } {
+  if (!(maxValue > 0)) return { max: 1, step: 0.2 };
+  const rough = maxValue / ticks;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough)!;
+  return { max: Math.ceil(maxValue / step) * step, step };
+}
+
+/** Short axis labels: 1200 -> "1.2k", 3500000 -> "3.5M" */
+export function compactNumber(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${+(value / 1e3).toFixed(1)}k`;
+  return `${+value.toFixed(2)}`;
+}
+
+const MARGIN = 40;
+const HEADER_HEIGHT = 56;
+const FOOTER_HEIGHT = 28;
+const LINE_GAP = 4;
+
+class LayoutWriter {
+  private page!: PDFPage;
+  private y = 0;
+  readonly width: number;
+  readonly height: number;
+  readonly brand: RGB;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly theme: ReportTheme,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont,
+    private readonly logo: PDFImage | null
+  ) {
+    [this.width, this.height] = pageDimensions(theme.pageSize, theme.orientation);
+    this.brand = parseHexColor(theme.brandColor) ?? DEFAULT_BRAND;
+    this.newPage();
+  }
+
+  get contentWidth() {
+    return this.width - MARGIN * 2;
+  }
+
+  private get bottom() {
+    return MARGIN + FOOTER_HEIGHT;
+  }
+
+  newPage() {
+    this.page = this.doc.addPage([this.width, this.height]);
+    this.drawHeader();
+    this.y = this.height - HEADER_HEIGHT - 24;
+  }
+
+  /** Start a new page unless `height` points still fit on this one */
+  ensureSpace(height: number) {
+    if (this.y - height < this.bottom) this.newPage();
+  }
+
+  text(value: string, x: number, y: number, size: number, options: { font?: PDFFont; color?: RGB } = {}) {
+    this.page.drawText(toWinAnsi(value), { x, y, size, font: options.font ?? this.regular, color: options.color ?? TEXT });
+  }
+
+  measure(value: string, size: number, font: PDFFont = this.regular) {
+    return font.widthOfTextAtSize(toWinAnsi(value), size);
+  }
+
+  /** Shorten text with an ellipsis so it fits maxWidth */
+  fit(value: string, size: number, maxWidth: number, font: PDFFont = this.regular) {
+    if (this.measure(value, size, font) <= maxWidth) return value;
+    let cut = value.length;
+    while (cut > 0 && this.measure(`${value.slice(0, cut)}...`, size, font) > maxWidth) cut--;
+    return `${value.slice(0, cut)}...`;
+  }
+
+  private drawHeader() {
+    const top = this.height;
+    this.page.drawRectangle({ x: 0, y: top - HEADER_HEIGHT, width: this.width, height: HEADER_HEIGHT, color: this.brand });
+    let x = MARGIN;
+    if (this.logo) {
+      const scale = Math.min(36 / this.logo.height, 90 / this.logo.width);
+      const width = this.logo.width * scale;
+      const height = this.logo.height * scale;
+      this.page.drawImage(this.logo, { x, y: top - HEADER_HEIGHT / 2 - height / 2, width, height });
+      x += width + 12;
+    }
+    const white = rgb(1, 1, 1);
+    this.text(this.fit(this.theme.title, 16, this.width - x - MARGIN, this.bold), x, top - 26, 16, { font: this.bold, color: white });
+    const sub = [this.theme.subtitle, this.theme.headerText].filter(Boolean).join("  |  ");
+    if (sub) this.text(this.fit(sub, 9, this.width - x - MARGIN), x, top - 42, 9, { color: white });
+  }
+
+  drawFooters() {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      this.page = page;
+      page.drawLine({
+        start: { x: MARGIN, y: MARGIN + 16 },
+        end: { x: this.width - MARGIN, y: MARGIN + 16 },
+        thickness: 0.5,
+        color: GRID,
+      });
+      const label = `Page ${index + 1} of ${pages.length}`;
+      const labelWidth = this.measure(label, 8);
+      this.text(label, this.width - MARGIN - labelWidth, MARGIN + 4, 8, { color: MUTED });
+      if (this.theme.footerText) {
+        this.text(this.fit(this.theme.footerText, 8, this.contentWidth - labelWidth - 16), MARGIN, MARGIN + 4, 8, { color: MUTED });
+      }
+    });
+  }
+
+  heading(value: string) {
+    // Keep a heading with at least a few lines of what follows
+    this.ensureSpace(70);
+    this.y -= 16;
+    this.text(value, MARGIN, this.y, 14, { font: this.bold, color: this.brand });
+    this.y -= 8;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: MARGIN + this.contentWidth, y: this.y },
+      thickness: 0.75,
+      color: this.brand,
+    });
+    this.y -= 14;
+  }
+
+  paragraph(value: string) {
+    const size = 10;
+    for (const line of wrapText(toWinAnsi(value), this.contentWidth, text => this.measure(text, size))) {
+      this.ensureSpace(size + LINE_GAP);
+      this.y -= size;
+      this.text(line, MARGIN, this.y, size);
+      this.y -= LINE_GAP;
+    }
+    this.y -= 8;
+  }
+
+  kpis(tiles: KpiTile[]) {
+    const perRow = Math.min(4, Math.max(1, tiles.length));
+    const gap = 10;
+    const tileWidth = (this.contentWidth - gap * (perRow - 1)) / perRow;
+    const tileHeight = 50;
+    for (let start = 0; start < tiles.length; start += perRow) {
+      this.ensureSpace(tileHeight + gap);
+      const top = this.y;
+      tiles.slice(start, start + perRow).forEach((tile, index) => {
+        const x = MARGIN + index * (tileWidth + gap);
+        this.page.drawRectangle({
+          x,
+          y: top - tileHeight,
+          width: tileWidth,
+          height: tileHeight,
+          color: STRIPE,
+          borderColor: GRID,
+          borderWidth: 0.75,
+        });
+        this.page.drawRectangle({ x, y: top - tileHeight, width: 3, height: tileHeight, color: this.brand });
+        this.text(this.fit(tile.label.toUpperCase(), 7.5, tileWidth - 16), x + 10, top - 16, 7.5, { color: MUTED });
+        const color = tile.tone === "positive" ? POSITIVE : tile.tone === "negative" ? NEGATIVE : TEXT;
+        this.text(this.fit(tile.value, 15, tileWidth - 16, this.bold), x + 10, top - 38, 15, { font: this.bold, color });
+      });
+      this.y = top - tileHeight - gap;
+    }
+    this.y -= 6;
+  }
+
+  table(columns: TableColumn[], rows: string[][], emptyText = "No records for this period.") {
+    const size = 9;
+    const padding = 5;
+    const totalWeight = columns.reduce((sum, column) => sum + (column.width ?? 1), 0);
+    const widths = columns.map(column => (this.contentWidth * (column.width ?? 1)) / totalWeight);
+    const lineHeight = size + 3;
+
+    const drawRow = (cells: string[], options: { header?: boolean; stripe?: boolean }) => {
+      const font = options.header ? this.bold : this.regular;
+      const wrapped = cells.map((cell, index) =>
+        wrapText(toWinAnsi(cell ?? ""), widths[index] - padding * 2, text => this.measure(text, size, font))
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding * 2;
+      return {
+        height,
+        draw: () => {
+          const top = this.y;
+          if (options.header || options.stripe) {
+            this.page.drawRectangle({
+              x: MARGIN,
+              y: top - height,
+              width: this.contentWidth,
+              height,
+              color: options.header ? this.brand : STRIPE,
+            });
+          }
+          let x = MARGIN;
+          wrapped.forEach((lines, index) => {
+            lines.forEach((line, lineIndex) => {
+              const lineWidth = this.measure(line, size, font);
+              const textX = columns[index].align === "right" ? x + widths[index] - padding - lineWidth : x + padding;
+              this.text(line, textX, top - padding - size - lineIndex * lineHeight + 2, size, {
+                font,
+                color: options.header ? rgb(1, 1, 1) : TEXT,
+              });
+            });
+            x += widths[index];
+          });
+          this.y = top - height;
+        },
+      };
+    };
+
+    const header = () => drawRow(columns.map(column => column.header), { header: true });
+    if (!rows.length) {
+      const first = header();
+      this.ensureSpace(first.height + 20);
+      first.draw();
+      this.y -= 14;
+      this.text(emptyText, MARGIN + padding, this.y, size, { color: MUTED });
+      this.y -= 16;
+      return;
+    }
+
+    let headerOnPage = false;
+    rows.forEach((cells, index) => {
+      const row = drawRow(cells, { stripe: index % 2 === 1 });
+      const top = header();
+      if (!headerOnPage || this.y - row.height < this.bottom) {
+        // A fresh page (or the first row) repeats the header above the row
+        if (headerOnPage || this.y - top.height - row.height < this.bottom) this.newPage();
+        top.draw();
+        headerOnPage = true;
+      }
+      row.draw();
+    });
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: MARGIN + this.contentWidth, y: this.y },
+      thickness: 0.5,
+      color: GRID,
+    });
+    this.y -= 16;
+  }
+
+  chart(block: Extract<LayoutBlock, { kind: "chart" }>) {
+    const height = 190;
+    const legendHeight = block.series.length > 1 ? 14 : 0;
+    this.ensureSpace(height + 30 + legendHeight);
+    const format = block.formatValue ?? compactNumber;
+
+    this.y -= 11;
+    this.text(block.title, MARGIN, this.y, 11, { font: this.bold });
+    this.y -= 10;
+
+    const values = block.series.flatMap(series => series.values);
+    const { max, step } = niceScale(Math.max(0, ...values));
+    const axisWidth = Math.max(...[0, max].map(value => this.measure(format(value), 7))) + 8;
+    const plot = {
+      x: MARGIN + axisWidth,
+      y: this.y - height + 18,
+      width: this.contentWidth - axisWidth,
+      height: height - 18,
+    };
+
+    for (let tick = 0; tick <= max + step / 2; tick += step) {
+      const y = plot.y + (tick / max) * plot.height;
+      this.page.drawLine({ start: { x: plot.x, y }, end: { x: plot.x + plot.width, y }, thickness: 0.5, color: GRID });
+      const label = format(tick);
+      this.text(label, plot.x - 6 - this.measure(label, 7), y - 2.5, 7, { color: MUTED });
+    }
+
+    const colors = [this.brand, ...SERIES_COLORS];
+    const band = plot.width / Math.max(1, block.labels.length);
+    block.labels.forEach((label, index) => {
+      const fitted = this.fit(label, 7, band - 4);
+      const center = plot.x + band * index + band / 2;
+      this.text(fitted, center - this.measure(fitted, 7) / 2, plot.y - 11, 7, { color: MUTED });
+    });
+
+    if (block.chartType === "bar") {
+      const groupWidth = band * 0.7;
+      const barWidth = groupWidth / Math.max(1, block.series.length);
+      block.series.forEach((series, seriesIndex) => {
+        series.values.forEach((value, index) => {
+          const barHeight = max ? (Math.max(0, value) / max) * plot.height : 0;
+          if (barHeight <= 0) return;
+          this.page.drawRectangle({
+            x: plot.x + band * index + (band - groupWidth) / 2 + barWidth * seriesIndex,
+            y: plot.y,
+            width: Math.max(1, barWidth - 2),
+            height: barHeight,
+            color: colors[seriesIndex % colors.length],
+          });
+        });
+      });
+    } else {
+      block.series.forEach((series, seriesIndex) => {
+        const color = colors[seriesIndex % colors.length];
+        const points = series.values.map((value, index) => ({
+          x: plot.x + band * index + band / 2,
+          y: plot.y + (max ? (Math.max(0, value) / max) * plot.height : 0),
+        }));
+        points.slice(1).forEach((point, index) => {
+          this.page.drawLine({ start: points[index], end: point, thickness: 1.5, color });
+        });
+        points.forEach(point => this.page.drawCircle({ x: point.x, y: point.y, size: 2.2, color }));
+      });
+    }
+    this.page.drawLine({
+      start: { x: plot.x, y: plot.y },
+      end: { x: plot.x + plot.width, y: plot.y },
+      thickness: 0.75,
+      color: MUTED,
+    });
+
+    this.y = plot.y - 22;
+    if (legendHeight) {
+      let x = plot.x;
+      block.series.forEach((series, index) => {
+        this.page.drawRectangle({ x, y: this.y, width: 8, height: 8, color: colors[index % colors.length] });
+        this.text(series.name, x + 12, this.y + 1, 8, { color: MUTED });
+        x += 24 + this.measure(series.name, 8);
+      });
+      this.y -= legendHeight;
+    }
+    this.y -= 10;
+  }
+
+  spacer(height: number) {
+    this.y -= height;
+  }
+}
+
+async function embedLogo(doc: PDFDocument, bytes: Uint8Array | null | undefined): Promise<PDFImage | null> {
+  if (!bytes?.length) return null;
+  try {
+    // PNG files start with 0x89 "PNG"; anything else is tried as JPEG
+    return bytes[0] === 0x89 && bytes[1] === 0x50 ? await doc.embedPng(bytes) : await doc.embedJpg(bytes);
+  } catch (error) {
+    console.warn("[PdfLayout] Logo could not be embedded:", (error as Error).message);
+    return null;
+  }
+}
+
+export async function renderPdfLayout(layout: ReportLayout): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(toWinAnsi(layout.theme.title));
+  doc.setProducer("FarmKonnect");
+  const [regular, bold] = await Promise.all([doc.embedFont(StandardFonts.Helvetica), doc.embedFont(StandardFonts.HelveticaBold)]);
+  const writer = new LayoutWriter(doc, layout.theme, regular, bold, await embedLogo(doc, layout.theme.logo));
+
+  for (const block of layout.blocks) {
+    switch (block.kind) {
+      case "heading":
+        writer.heading(block.text);
+        break;
+      case "paragraph":
+        writer.paragraph(block.text);
+        break;
+      case "kpis":
+        if (block.tiles.length) writer.kpis(block.tiles);
+        break;
+      case "table":
+        writer.table(block.columns, block.rows, block.emptyText);
+        break;
+      case "chart":
+        if (block.labels.length && block.series.length) writer.chart(block);
+        break;
+      case "spacer":
+        writer.spacer(block.height);
+        break;
+    }
+  }
+
+  writer.drawFooters();
+  return Buffer.from(await doc.save());
+}
@@ -1,14 +1,29 @@
 import { getDb } from "../db";
-import { farms, farmExpenses, farmRevenue, animals, animalHealthRecords, cropCycles, fertilizerApplications } from "../../drizzle/schema";
-import { eq, and, gte, lte } from "drizzle-orm";
-import { PDFDocument, PDFPage, rgb } from "pdf-lib";
+import {
+  farms,
+  farmExpenses,
+  farmRevenue,
+  animals,
+  animalHealthRecords,
+  cropCycles,
+  crops,
+  fertilizerApplications,
+  weatherHistory,
+  reportTemplates,
+  reportTemplateSections,
+  reportTemplateCustomization,
+} from "../../drizzle/schema";
+import { eq, and, gte, lte, inArray, asc } from "drizzle-orm";
 import * as XLSX from "xlsx";
+import { renderPdfLayout, type LayoutBlock, type PageSize, type ReportTheme } from "./pdfLayout";
 
 export interface ReportData {
   farmId: number;
   reportType: "financial" | "livestock" | "complete";
   startDate: Date;
   endDate: Date;
+  /** Template that shapes the PDF; the farm's default template for the report type otherwise */
+  templateId?: number | null;
 }
 
 interface FinancialData {
@@ -19,6 +34,7 @@ interface FinancialData {
   netProfit: number;
   expensesByCategory: Record<string, number>;
   revenueBySource: Record<string, number>;
+  monthly: Array<{ month: string; revenue: number; expenses: number }>;
 }
 
 interface LivestockData {
@@ -26,20 +42,38 @@ interface LivestockData {
   totalAnimals: number;
   activeAnimals: number;
   animalsByType: Record<string, number>;
+  animalsByStatus: Record<string, number>;
   healthRecords: number;
   recentIllnesses: number;
 }
 
-interface CompleteReportData {
-  farm: FinancialData;
-  livestock: LivestockData;
-  crops: {
-    activeCycles: number;
-    totalArea: number;
-    recentApplications: number;
-  };
+interface CropData {
+  activeCycles: number;
+  totalArea: number;
+  recentApplications: number;
+  cycles: Array<{
+    cropName: string;
+    variety: string | null;
+    plantingDate: Date;
+    expectedHarvestDate: Date | null;
+    status: string;
+    areaHectares: number;
+    expectedYieldKg: number;
+  }>;
+}
+
+interface WeatherData {
+  readings: number;
+  averageTemperature: number | null;
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  totalPrecipitation: number;
+  averageHumidity: number | null;
+  daily: Array<{ day: string; temperature: number | null; precipitation: number }>;
 }
 
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
 /**
  * Generate financial report data
  */
@@ -89,6 +123,20 @@ async function generateFinancialData(
     revenueBySource[r.source] = (revenueBySource[r.source] || 0) + parseFloat(r.amount || "0");
   });
 
+  // One bucket per calendar month in the period, so quiet months still show on the chart
+  const months = new Map<string, { month: string; revenue: number; expenses: number }>();
+  for (let cursor = new Date(startDate.getFullYear(), startDate.getMonth(), 1); cursor <= endDate; cursor.setMonth(cursor.getMonth() + 1)) {
+    months.set(monthKey(cursor), { month: monthKey(cursor), revenue: 0, expenses: 0 });
+  }
+  expenses.forEach((e) => {
+    const bucket = months.get(monthKey(new Date(e.expenseDate)));
+    if (bucket) bucket.expenses += parseFloat(e.amount || "0");
+  });
+  revenue.forEach((r) => {
+    const bucket = months.get(monthKey(new Date(r.saleDate)));
+    if (bucket) bucket.revenue += parseFloat(r.amount || "0");
+  });
+
   return {
     farmName: farm[0].farmName,
     period: `${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()}`,
@@ -97,6 +145,7 @@ async function generateFinancialData(
     netProfit: totalRevenue - totalExpenses,
     expensesByCategory,
     revenueBySource,
+    monthly: [...months.values()],
   };
 }
 
@@ -112,15 +161,20 @@ async function generateLivestockData(farmId: number): Promise<LivestockData> {
 
   const animalsList = await db.select().from(animals).where(eq(animals.farmId, farmId));
 
-  const healthRecords = await db
-    .select()
-    .from(animalHealthRecords)
-    .where(eq(animalHealthRecords.animalId, animalsList.length > 0 ? animalsList[0].id : 0));
+  const healthRecords = animalsList.length
+    ? await db
+        .select()
+        .from(animalHealthRecords)
+        .where(inArray(animalHealthRecords.animalId, animalsList.map((a) => a.id)))
+    : [];
 
   const animalsByType: Record<string, number> = {};
+  const animalsByStatus: Record<string, number> = {};
   animalsList.forEach((a) => {
     const type = a.breed || "Unknown";
     animalsByType[type] = (animalsByType[type] || 0) + 1;
+    const status = a.status || "active";
+    animalsByStatus[status] = (animalsByStatus[status] || 0) + 1;
   });
 
   const recentIllnesses = healthRecords.filter((h) => h.eventType === "illness").length;
@@ -130,87 +184,476 @@ async function generateLivestockData(farmId: number): Promise<LivestockData> {
     totalAnimals: animalsList.length,
     activeAnimals: animalsList.filter((a) => a.status === "active").length,
     animalsByType,
+    animalsByStatus,
     healthRecords: healthRecords.length,
     recentIllnesses,
   };
 }
 
 /**
- * Generate PDF report
+ * Generate crop report data: every cycle not yet closed before the period
+ * starts, plus fertilizer applications made within the period
  */
-export async function generatePDFReport(data: ReportData): Promise<Buffer> {
-  const pdfDoc = await PDFDocument.create();
-  let page = pdfDoc.addPage([612, 792]); // Letter size
-  const { height } = page.getSize();
-  let yPosition = height - 50;
-
-  const drawText = (text: string, size: number = 12, bold: boolean = false) => {
-    page.drawText(text, {
-      x: 50,
-      y: yPosition,
-      size,
-      color: rgb(0, 0, 0),
-    });
-    yPosition -= size + 10;
+async function generateCropData(farmId: number, startDate: Date, endDate: Date): Promise<CropData> {
+  const db = await getDb();
+  if (!db) throw new Error("Database connection failed");
+
+  const rows = await db
+    .select({ cycle: cropCycles, cropName: crops.cropName })
+    .from(cropCycles)
+    .leftJoin(crops, eq(cropCycles.cropId, crops.id))
+    .where(and(eq(cropCycles.farmId, farmId), lte(cropCycles.plantingDate, endDate)))
+    .orderBy(asc(cropCycles.plantingDate));
+
+  const cycles = rows.filter(
+    ({ cycle }) => !cycle.actualHarvestDate || new Date(cycle.actualHarvestDate) >= startDate
+  );
+
+  const applications = cycles.length
+    ? await db
+        .select({ id: fertilizerApplications.id })
+        .from(fertilizerApplications)
+        .where(
+          and(
+            inArray(fertilizerApplications.cycleId, cycles.map(({ cycle }) => cycle.id)),
+            gte(fertilizerApplications.applicationDate, startDate),
+            lte(fertilizerApplications.applicationDate, endDate)
+          )
+        )
+    : [];
+
+  const active = cycles.filter(({ cycle }) => ["planted", "growing", "harvesting"].includes(cycle.status ?? ""));
+
+  return {
+    activeCycles: active.length,
+    totalArea: active.reduce((sum, { cycle }) => sum + parseFloat(cycle.areaPlantedHectares || "0"), 0),
+    recentApplications: applications.length,
+    cycles: cycles.map(({ cycle, cropName }) => ({
+      cropName: cropName ?? "Unknown crop",
+      variety: cycle.varietyName,
+      plantingDate: new Date(cycle.plantingDate),
+      expectedHarvestDate: cycle.expectedHarvestDate ? new Date(cycle.expectedHarvestDate) : null,
+      status: cycle.status ?? "planning",
+      areaHectares: parseFloat(cycle.areaPlantedHectares || "0"),
+      expectedYieldKg: parseFloat(cycle.expectedYieldKg || "0"),
+    })),
   };
+}
 
-  const drawHeading = (text: string) => {
-    page.drawText(text, {
-      x: 50,
-      y: yPosition,
-      size: 16,
-      color: rgb(0.2, 0.4, 0.8),
-    });
-    yPosition -= 26;
+/**
+ * Generate weather report data from the farm's recorded readings
+ */
+async function generateWeatherData(farmId: number, startDate: Date, endDate: Date): Promise<WeatherData> {
+  const db = await getDb();
+  if (!db) throw new Error("Database connection failed");
+
+  const readings = await db
+    .select()
+    .from(weatherHistory)
+    .where(
+      and(
+        eq(weatherHistory.farmId, farmId),
+        gte(weatherHistory.recordedAt, startDate),
+        lte(weatherHistory.recordedAt, endDate)
+      )
+    )
+    .orderBy(asc(weatherHistory.recordedAt));
+
+  const temperatures = readings.filter((r) => r.temperature !== null).map((r) => parseFloat(r.temperature!));
+  const humidities = readings.filter((r) => r.humidity !== null).map((r) => r.humidity!);
+  const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+  const days = new Map<string, { temperatures: number[]; precipitation: number }>();
+  readings.forEach((r) => {
+    const day = r.recordedAt.toISOString().slice(0, 10);
+    const bucket = days.get(day) ?? { temperatures: [], precipitation: 0 };
+    if (r.temperature !== null) bucket.temperatures.push(parseFloat(r.temperature));
+    bucket.precipitation += parseFloat(r.precipitation || "0");
+    days.set(day, bucket);
+  });
+
+  return {
+    readings: readings.length,
+    averageTemperature: average(temperatures),
+    minTemperature: temperatures.length ? Math.min(...temperatures) : null,
+    maxTemperature: temperatures.length ? Math.max(...temperatures) : null,
+    totalPrecipitation: readings.reduce((sum, r) => sum + parseFloat(r.precipitation || "0"), 0),
+    averageHumidity: average(humidities),
+    daily: [...days.entries()].map(([day, bucket]) => ({
+      day,
+      temperature: average(bucket.temperatures),
+      precipitation: bucket.precipitation,
+    })),
   };
+}
 
-  // Header
-  drawHeading("FarmKonnect Report");
-  drawText(`Report Type: ${data.reportType.toUpperCase()}`, 11);
-  drawText(`Generated: ${new Date().toLocaleString()}`, 10);
-  yPosition -= 10;
+type SectionKind = "summary" | "financial" | "livestock" | "crop" | "weather" | "custom";
 
-  if (data.reportType === "financial" || data.reportType === "complete") {
-    const financialData = await generateFinancialData(data.farmId, data.startDate, data.endDate);
+interface ReportSection {
+  kind: SectionKind;
+  title: string;
+  content?: string | null;
+}
 
-    drawHeading("Financial Summary");
-    drawText(`Farm: ${financialData.farmName}`, 11);
-    drawText(`Period: ${financialData.period}`, 10);
-    drawText(`Total Revenue: $${financialData.totalRevenue.toFixed(2)}`, 10);
-    drawText(`Total Expenses: $${financialData.totalExpenses.toFixed(2)}`, 10);
-    drawText(`Net Profit: $${financialData.netProfit.toFixed(2)}`, 11, true);
-    yPosition -= 10;
-
-    if (Object.keys(financialData.expensesByCategory).length > 0) {
-      drawText("Expenses by Category:", 11);
-      Object.entries(financialData.expensesByCategory).forEach(([category, amount]) => {
-        drawText(`  ${category}: $${amount.toFixed(2)}`, 10);
-      });
-    }
+const SECTION_TITLES: Record<SectionKind, string> = {
+  summary: "Executive Summary",
+  financial: "Financial Overview",
+  livestock: "Livestock Status",
+  crop: "Crop Performance",
+  weather: "Weather",
+  custom: "Notes",
+};
+
+const DEFAULT_REPORT_SECTIONS: Record<ReportData["reportType"], SectionKind[]> = {
+  financial: ["summary", "financial"],
+  livestock: ["summary", "livestock"],
+  complete: ["summary", "financial", "livestock", "crop", "weather"],
+};
+
+// Section names stored in reportTemplates.includeSections
+const TEMPLATE_SECTION_KINDS: Record<string, SectionKind> = {
+  summary: "summary",
+  financial: "financial",
+  livestock: "livestock",
+  crops: "crop",
+  crop: "crop",
+  weather: "weather",
+};
+
+interface ReportConfig {
+  sections: ReportSection[];
+  theme: Omit<ReportTheme, "title" | "subtitle" | "logo">;
+  logoUrl: string | null;
+  includeCharts: boolean;
+  includeMetrics: boolean;
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Resolve which sections to render and how to brand them: the template's
+ * enabled sections in display order, else its includeSections list, else
+ * the defaults for the report type; branding comes from the farm's
+ * customization of the template, falling back to the template's own
+ */
+async function resolveReportConfig(data: ReportData): Promise<ReportConfig> {
+  const db = await getDb();
+  if (!db) throw new Error("Database connection failed");
 
-    yPosition -= 10;
+  const [template] = await db
+    .select()
+    .from(reportTemplates)
+    .where(
+      data.templateId
+        ? and(eq(reportTemplates.id, data.templateId), eq(reportTemplates.farmId, data.farmId))
+        : and(
+            eq(reportTemplates.farmId, data.farmId),
+            eq(reportTemplates.reportType, data.reportType),
+            eq(reportTemplates.isDefault, true)
+          )
+    )
+    .limit(1);
+
+  const defaults: ReportConfig = {
+    sections: DEFAULT_REPORT_SECTIONS[data.reportType].map((kind) => ({ kind, title: SECTION_TITLES[kind] })),
+    theme: { pageSize: "A4", orientation: "portrait" },
+    logoUrl: null,
+    includeCharts: true,
+    includeMetrics: true,
+  };
+  if (!template) return defaults;
+
+  const [templateSections, [customization]] = await Promise.all([
+    db
+      .select()
+      .from(reportTemplateSections)
+      .where(and(eq(reportTemplateSections.templateId, template.id), eq(reportTemplateSections.isEnabled, true)))
+      .orderBy(asc(reportTemplateSections.displayOrder)),
+    db
+      .select()
+      .from(reportTemplateCustomization)
+      .where(
+        and(
+          eq(reportTemplateCustomization.templateId, template.id),
+          eq(reportTemplateCustomization.farmId, data.farmId)
+        )
+      )
+      .limit(1),
+  ]);
+
+  let sections: ReportSection[] = templateSections.map((section) => ({
+    kind: section.sectionType,
+    title: section.sectionName,
+    content: section.customContent,
+  }));
+  if (!sections.length) {
+    sections = parseJson<string[]>(template.includeSections, [])
+      .map((name) => TEMPLATE_SECTION_KINDS[name])
+      .filter((kind): kind is SectionKind => !!kind)
+      .map((kind) => ({ kind, title: SECTION_TITLES[kind] }));
   }
 
-  if (data.reportType === "livestock" || data.reportType === "complete") {
-    const livestockData = await generateLivestockData(data.farmId);
+  const branding = parseJson<{ logoUrl?: string; primaryColor?: string; footerText?: string }>(
+    template.customBranding,
+    {}
+  );
+
+  return {
+    sections: sections.length ? sections : defaults.sections,
+    theme: {
+      brandColor: customization?.brandingColor ?? branding.primaryColor ?? null,
+      headerText: customization?.headerText ?? template.name,
+      footerText: customization?.footerText ?? branding.footerText ?? null,
+      pageSize: (customization?.pageSize ?? "A4") as PageSize,
+      orientation: customization?.pageOrientation ?? "portrait",
+    },
+    logoUrl: customization?.logoUrl ?? branding.logoUrl ?? null,
+    includeCharts: customization?.includeCharts ?? true,
+    includeMetrics: customization?.includeMetrics ?? true,
+  };
+}
+
+const LOGO_TIMEOUT_MS = 5000;
+
+/**
+ * Download the farm logo; a missing or slow logo must never fail the report
+ */
+async function fetchLogo(url: string | null): Promise<Uint8Array | null> {
+  if (!url || !/^https?:\/\//i.test(url)) return null;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    console.warn(`[ReportGenerator] Could not load logo ${url}:`, (error as Error).message);
+    return null;
+  }
+}
+
+const money = (value: number) =>
+  `₵${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const titleCase = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+const byAmount = (record: Record<string, number>) => Object.entries(record).sort(([, a], [, b]) => b - a);
+
+/**
+ * Generate PDF report
+ */
+export async function generatePDFReport(data: ReportData): Promise<Buffer> {
+  const config = await resolveReportConfig(data);
 
-    drawHeading("Livestock Summary");
-    drawText(`Total Animals: ${livestockData.totalAnimals}`, 11);
-    drawText(`Active Animals: ${livestockData.activeAnimals}`, 10);
-    drawText(`Health Records: ${livestockData.healthRecords}`, 10);
-    drawText(`Recent Illnesses: ${livestockData.recentIllnesses}`, 10);
-    yPosition -= 10;
-
-    if (Object.keys(livestockData.animalsByType).length > 0) {
-      drawText("Animals by Type:", 11);
-      Object.entries(livestockData.animalsByType).forEach(([type, count]) => {
-        drawText(`  ${type}: ${count}`, 10);
-      });
+  // Each dataset is loaded at most once however many sections use it
+  const memo = <T>(load: () => Promise<T>) => {
+    let value: Promise<T> | undefined;
+    return () => (value ??= load());
+  };
+  const financial = memo(() => generateFinancialData(data.farmId, data.startDate, data.endDate));
+  const livestock = memo(() => generateLivestockData(data.farmId));
+  const cropsData = memo(() => generateCropData(data.farmId, data.startDate, data.endDate));
+  const weather = memo(() => generateWeatherData(data.farmId, data.startDate, data.endDate));
+
+  const db = await getDb();
+  if (!db) throw new Error("Database connection failed");
+  const [farm] = await db.select().from(farms).where(eq(farms.id, data.farmId)).limit(1);
+  if (!farm) throw new Error("Farm not found");
+
+  const blocks: LayoutBlock[] = [];
+  const kpis = (tiles: Extract<LayoutBlock, { kind: "kpis" }>["tiles"]) => {
+    if (config.includeMetrics) blocks.push({ kind: "kpis", tiles });
+  };
+  const chart = (block: Omit<Extract<LayoutBlock, { kind: "chart" }>, "kind">) => {
+    if (config.includeCharts) blocks.push({ kind: "chart", ...block });
+  };
+
+  for (const section of config.sections) {
+    blocks.push({ kind: "heading", text: section.title });
+
+    switch (section.kind) {
+      case "summary": {
+        const tiles: Extract<LayoutBlock, { kind: "kpis" }>["tiles"] = [];
+        if (data.reportType !== "livestock") {
+          const f = await financial();
+          tiles.push(
+            { label: "Revenue", value: money(f.totalRevenue) },
+            { label: "Expenses", value: money(f.totalExpenses) },
+            { label: "Net profit", value: money(f.netProfit), tone: f.netProfit >= 0 ? "positive" : "negative" }
+          );
+        }
+        if (data.reportType !== "financial") {
+          const l = await livestock();
+          tiles.push({ label: "Active animals", value: `${l.activeAnimals} of ${l.totalAnimals}` });
+        }
+        if (data.reportType === "complete") {
+          const c = await cropsData();
+          tiles.push({ label: "Active crop cycles", value: `${c.activeCycles} (${c.totalArea.toFixed(1)} ha)` });
+        }
+        kpis(tiles);
+        blocks.push({
+          kind: "paragraph",
+          text: `${farm.farmName}, ${data.startDate.toLocaleDateString()} to ${data.endDate.toLocaleDateString()}.`,
+        });
+        break;
+      }
+
+      case "financial": {
+        const f = await financial();
+        const margin = f.totalRevenue ? (f.netProfit / f.totalRevenue) * 100 : 0;
+        kpis([
+          { label: "Revenue", value: money(f.totalRevenue) },
+          { label: "Expenses", value: money(f.totalExpenses) },
+          { label: "Net profit", value: money(f.netProfit), tone: f.netProfit >= 0 ? "positive" : "negative" },
+          { label: "Margin", value: `${margin.toFixed(1)}%` },
+        ]);
+        if (f.monthly.length > 1) {
+          chart({
+            chartType: "line",
+            title: "Revenue and expenses by month",
+            labels: f.monthly.map((m) => m.month),
+            series: [
+              { name: "Revenue", values: f.monthly.map((m) => m.revenue) },
+              { name: "Expenses", values: f.monthly.map((m) => m.expenses) },
+            ],
+          });
+        }
+        const expenses = byAmount(f.expensesByCategory);
+        if (expenses.length) {
+          chart({
+            chartType: "bar",
+            title: "Expenses by category",
+            labels: expenses.map(([category]) => titleCase(category)),
+            series: [{ name: "Expenses", values: expenses.map(([, amount]) => amount) }],
+          });
+        }
+        const share = (amount: number, total: number) => (total ? `${((amount / total) * 100).toFixed(1)}%` : "-");
+        blocks.push({
+          kind: "table",
+          columns: [{ header: "Expense category", width: 3 }, { header: "Amount", width: 2, align: "right" }, { header: "Share", align: "right" }],
+          rows: expenses.map(([category, amount]) => [titleCase(category), money(amount), share(amount, f.totalExpenses)]),
+          emptyText: "No expenses recorded in this period.",
+        });
+        blocks.push({
+          kind: "table",
+          columns: [{ header: "Revenue source", width: 3 }, { header: "Amount", width: 2, align: "right" }, { header: "Share", align: "right" }],
+          rows: byAmount(f.revenueBySource).map(([source, amount]) => [titleCase(source), money(amount), share(amount, f.totalRevenue)]),
+          emptyText: "No revenue recorded in this period.",
+        });
+        break;
+      }
+
+      case "livestock": {
+        const l = await livestock();
+        kpis([
+          { label: "Total animals", value: String(l.totalAnimals) },
+          { label: "Active", value: String(l.activeAnimals) },
+          { label: "Health records", value: String(l.healthRecords) },
+          { label: "Illnesses", value: String(l.recentIllnesses), tone: l.recentIllnesses ? "negative" : "neutral" },
+        ]);
+        const byType = byAmount(l.animalsByType);
+        if (byType.length) {
+          chart({
+            chartType: "bar",
+            title: "Animals by breed",
+            labels: byType.map(([type]) => type),
+            series: [{ name: "Animals", values: byType.map(([, count]) => count) }],
+            formatValue: (value) => String(Math.round(value)),
+          });
+        }
+        blocks.push({
+          kind: "table",
+          columns: [{ header: "Breed", width: 3 }, { header: "Animals", align: "right" }],
+          rows: byType.map(([type, count]) => [type, String(count)]),
+          emptyText: "No animals registered on this farm.",
+        });
+        blocks.push({
+          kind: "table",
+          columns: [{ header: "Status", width: 3 }, { header: "Animals", align: "right" }],
+          rows: byAmount(l.animalsByStatus).map(([status, count]) => [titleCase(status), String(count)]),
+          emptyText: "No animals registered on this farm.",
+        });
+        break;
+      }
+
+      case "crop": {
+        const c = await cropsData();
+        kpis([
+          { label: "Active cycles", value: String(c.activeCycles) },
+          { label: "Area planted", value: `${c.totalArea.toFixed(1)} ha` },
+          { label: "Fertilizer applications", value: String(c.recentApplications) },
+        ]);
+        blocks.push({
+          kind: "table",
+          columns: [
+            { header: "Crop", width: 2 },
+            { header: "Planted", width: 1.3 },
+            { header: "Expected harvest", width: 1.3 },
+            { header: "Status", width: 1.2 },
+            { header: "Area (ha)", align: "right" },
+            { header: "Expected yield (kg)", width: 1.3, align: "right" },
+          ],
+          rows: c.cycles.map((cycle) => [
+            cycle.variety ? `${cycle.cropName} (${cycle.variety})` : cycle.cropName,
+            cycle.plantingDate.toLocaleDateString(),
+            cycle.expectedHarvestDate?.toLocaleDateString() ?? "-",
+            titleCase(cycle.status),
+            cycle.areaHectares.toFixed(2),
+            cycle.expectedYieldKg.toLocaleString("en-US"),
+          ]),
+          emptyText: "No crop cycles in this period.",
+        });
+        break;
+      }
+
+      case "weather": {
+        const w = await weather();
+        const degrees = (value: number | null) => (value === null ? "-" : `${value.toFixed(1)} C`);
+        kpis([
+          { label: "Average temperature", value: degrees(w.averageTemperature) },
+          { label: "Range", value: w.minTemperature === null ? "-" : `${degrees(w.minTemperature)} to ${degrees(w.maxTemperature)}` },
+          { label: "Rainfall", value: `${w.totalPrecipitation.toFixed(1)} mm` },
+          { label: "Average humidity", value: w.averageHumidity === null ? "-" : `${Math.round(w.averageHumidity)}%` },
+        ]);
+        if (w.daily.length > 1) {
+          chart({
+            chartType: "line",
+            title: "Daily average temperature (C)",
+            labels: w.daily.map((d) => d.day.slice(5)),
+            series: [{ name: "Temperature", values: w.daily.map((d) => d.temperature ?? 0) }],
+          });
+          chart({
+            chartType: "bar",
+            title: "Daily rainfall (mm)",
+            labels: w.daily.map((d) => d.day.slice(5)),
+            series: [{ name: "Rainfall", values: w.daily.map((d) => d.precipitation) }],
+          });
+        }
+        if (!w.readings) {
+          blocks.push({ kind: "paragraph", text: "No weather readings were recorded in this period." });
+        }
+        break;
+      }
+
+      case "custom":
+        blocks.push({ kind: "paragraph", text: section.content || "" });
+        break;
     }
   }
 
-  const pdfBytes = await pdfDoc.save();
-  return Buffer.from(pdfBytes as Uint8Array);
+  const reportLabel = `${titleCase(data.reportType)} Report`;
+  return renderPdfLayout({
+    theme: {
+      ...config.theme,
+      title: `${farm.farmName} - ${reportLabel}`,
+      subtitle: `${data.startDate.toLocaleDateString()} - ${data.endDate.toLocaleDateString()}, generated ${new Date().toLocaleDateString()}`,
+      logo: await fetchLogo(config.logoUrl),
+    },
+    blocks,
+  });
 }
 
 /**
@@ -126,6 +126,7 @@ export class ReportTemplateCustomizationService {
       includeMetrics?: boolean;
       includeRecommendations?: boolean;
       pageOrientation?: "portrait" | "landscape";
+      pageSize?: "A4" | "Letter";
     }
   ) {
     const db = await getDb();
@@ -189,6 +190,7 @@ export class ReportTemplateCustomizationService {
       },
       layout: {
         orientation: customization?.pageOrientation || "portrait",
+        pageSize: customization?.pageSize || "A4",
         includeCharts: customization?.includeCharts ?? true,
         includeMetrics: customization?.includeMetrics ?? true,
         includeRecommendations: customization?.includeRecommendations ?? true,
@@ -1,6 +1,6 @@
 import { getDb } from '../db';
 import { reportTemplates, reportTemplateFields, ReportTemplate } from '../../drizzle/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 
 export interface TemplateSection {
   name: string;
@@ -304,9 +304,11 @@ export class ReportTemplateService {
       .select()
       .from(reportTemplates)
       .where(
-        eq(reportTemplates.farmId, farmId) &&
-        eq(reportTemplates.reportType, reportType) &&
-        eq(reportTemplates.isDefault, true)
+        and(
+          eq(reportTemplates.farmId, farmId),
+          eq(reportTemplates.reportType, reportType),
+          eq(reportTemplates.isDefault, true)
+        )
       )
       .limit(1);
 
@@ -319,8 +321,7 @@ export class ReportTemplateService {
       .select()
       .from(reportTemplates)
       .where(
-        eq(reportTemplates.farmId, farmId) &&
-        eq(reportTemplates.reportType, reportType)
+        and(eq(reportTemplates.farmId, farmId), eq(reportTemplates.reportType, reportType))
       )
       .limit(1);
 
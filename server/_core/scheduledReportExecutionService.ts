@@ -8,7 +8,6 @@ import {
 import { eq, and, gte, lte } from "drizzle-orm";
 import { NotificationService } from "./notificationService";
 import { generatePDFReport, generateExcelReport } from "./reportGenerator";
-import { reportTemplateCustomizationService } from "./reportTemplateCustomizationService";
 
 export class ScheduledReportExecutionService {
   private notificationService: NotificationService;
@@ -95,19 +94,13 @@ export class ScheduledReportExecutionService {
 
         reportHistoryId = (reportHistoryResult as any).insertId || 1;
 
-        // Get customization for this template
-        const customization =
-          await reportTemplateCustomizationService.getCustomization(
-            schedule.templateId,
-            schedule.farmId
-          );
-
-        // Generate actual report file (PDF format)
+        // Generate actual report file (PDF format) laid out by the schedule's template
         const reportFile = await generatePDFReport({
           farmId: schedule.farmId,
           reportType: schedule.reportType,
           startDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
           endDate: new Date(),
+          templateId: schedule.templateId,
         });
 
         // Send to recipients
@@ -1,10 +1,20 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { ScheduledReportExecutor } from './scheduledReportExecutor';
+
+vi.mock('../services/jobQueueService', () => ({
+  defineCronJob: vi.fn(async () => undefined),
+  enqueueJob: vi.fn(async () => ({ id: 1, created: true })),
+  registerJobHandler: vi.fn(),
+  unregisterJobHandler: vi.fn(),
+}));
+
+import { defineCronJob, registerJobHandler, unregisterJobHandler } from '../services/jobQueueService';
+import { REPORT_EXECUTE_JOB, REPORT_SCAN_JOB, ScheduledReportExecutor } from './scheduledReportExecutor';
 
 describe('ScheduledReportExecutor', () => {
   let executor: ScheduledReportExecutor;
 
   beforeEach(() => {
+    vi.clearAllMocks();
     executor = new ScheduledReportExecutor();
   });
 
@@ -12,70 +22,50 @@ describe('ScheduledReportExecutor', () => {
     executor.stop();
   });
 
-  describe('Error Handling', () => {
-    it('should handle database connection failures gracefully', async () => {
-      // Test that the executor doesn't crash on DB errors
-      expect(() => executor.start()).not.toThrow();
+  describe('Job queue', () => {
+    it('scans for due reports every 5 minutes through a queue schedule', async () => {
+      await executor.start();
+      expect(defineCronJob).toHaveBeenCalledWith('scheduled-reports', '*/5 * * * *', REPORT_SCAN_JOB);
     });
 
-    it('should prevent concurrent processing', async () => {
-      // The executor should only process one batch at a time
-      // This prevents overwhelming the system
-      expect(executor['isProcessing']).toBe(false);
+    it('lets the queue retry failed reports three times', async () => {
+      await executor.start();
+      const registered = vi.mocked(registerJobHandler).mock.calls.find(([name]) => name === REPORT_EXECUTE_JOB);
+      expect(registered?.[2]).toMatchObject({ maxAttempts: 3 });
     });
 
-    it('should track failed schedules with retry logic', () => {
-      // Verify retry mechanism is in place
-      expect(executor['maxRetries']).toBe(3);
-      expect(executor['failedSchedules']).toBeInstanceOf(Map);
-    });
-  });
-
-  describe('Rate Limiting', () => {
-    it('should process maximum 5 reports per cycle', () => {
-      // The executor limits processing to 5 reports per cycle
-      // This is configured in checkAndExecutePendingReports
-      expect(executor['isRunning']).toBe(false);
-    });
-
-    it('should have delays between report processing', () => {
-      // Verify retry delay is configured
-      expect(executor['retryDelayMs']).toBe(5000);
-    });
-
-    it('should run every 5 minutes instead of every minute', () => {
-      // This reduces load on the system
-      // Cron is set to '*/5 * * * *' (every 5 minutes)
-      expect(executor['tasks']).toBeInstanceOf(Map);
+    it('fails the job when the report fails so the queue retries it', async () => {
+      await executor.start();
+      const [, handler] = vi.mocked(registerJobHandler).mock.calls.find(([name]) => name === REPORT_EXECUTE_JOB)!;
+      vi.spyOn(executor, 'executeReport').mockResolvedValue({
+        scheduleId: 7,
+        success: false,
+        message: 'Report generation failed',
+        error: 'SMTP down',
+      });
+      await expect(handler({ scheduleId: 7 }, { jobId: 1, attempt: 1, signal: new AbortController().signal })).rejects.toThrow(
+        'SMTP down'
+      );
     });
   });
 
   describe('Lifecycle', () => {
-    it('should start and stop gracefully', () => {
-      executor.start();
+    it('should start and stop gracefully', async () => {
+      await executor.start();
       expect(executor['isRunning']).toBe(true);
 
       executor.stop();
       expect(executor['isRunning']).toBe(false);
-      expect(executor['tasks'].size).toBe(0);
+      expect(unregisterJobHandler).toHaveBeenCalledWith(REPORT_SCAN_JOB);
+      expect(unregisterJobHandler).toHaveBeenCalledWith(REPORT_EXECUTE_JOB);
     });
 
     it('should not start if already running', async () => {
-      executor.start();
-      const firstRunning = executor['isRunning'];
+      await executor.start();
+      await executor.start();
 
-      executor.start();
-      const secondRunning = executor['isRunning'];
-
-      expect(firstRunning).toBe(true);
-      expect(secondRunning).toBe(true);
-      expect(executor['tasks'].size).toBe(1); // Only one task should exist
-    });
-
-    it('should clear failed schedules on stop', () => {
-      executor['failedSchedules'].set(1, 2);
-      executor.stop();
-      expect(executor['failedSchedules'].size).toBe(0);
+      expect(executor['isRunning']).toBe(true);
+      expect(defineCronJob).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -1,9 +1,9 @@
-import cron from 'node-cron';
 import { getDb } from '../db';
 import { reportSchedules, reportHistory } from '../../drizzle/schema';
 import { eq, and, lte } from 'drizzle-orm';
 import { generatePDFReport, getReportFilename } from './reportGenerator';
 import { NotificationService } from './notificationService';
+import { defineCronJob, enqueueJob, registerJobHandler, unregisterJobHandler } from '../services/jobQueueService';
 import { reportAnalytics } from '../../drizzle/schema';
 
 export interface ScheduledReportExecutionResult {
@@ -14,13 +14,20 @@ export interface ScheduledReportExecutionResult {
   error?: string;
 }
 
+export const REPORT_SCAN_JOB = 'reports.scanDue';
+export const REPORT_EXECUTE_JOB = 'reports.execute';
+
+/**
+ * Scheduled reports run on the background job queue: a cron schedule scans
+ * for due reportSchedules every 5 minutes and enqueues one job per due
+ * schedule, keyed by the run it is due for, so several app instances never
+ * send the same report twice. The queue retries failed sends with backoff
+ * and dead-letters them after the last attempt.
+ */
 export class ScheduledReportExecutor {
-  private tasks: Map<number, any> = new Map();
   private isRunning = false;
-  private failedSchedules: Map<number, number> = new Map(); // Track failed attempts
   private maxRetries = 3;
-  private retryDelayMs = 5000; // 5 seconds between retries
-  private isProcessing = false; // Prevent concurrent processing
+  private batchSize = 20;
 
   /**
    * Start the scheduled report executor
@@ -34,13 +41,23 @@ export class ScheduledReportExecutor {
     console.log('[ScheduledReportExecutor] Starting...');
     this.isRunning = true;
 
-    // Run check every 5 minutes instead of every minute to reduce load
-    const task = cron.schedule('*/5 * * * *', async () => {
-      await this.checkAndExecutePendingReports();
-    });
-    this.tasks.set(0, task);
+    registerJobHandler(REPORT_SCAN_JOB, () => this.enqueueDueReports());
+    registerJobHandler<{ scheduleId: number }>(
+      REPORT_EXECUTE_JOB,
+      async ({ scheduleId }) => {
+        const result = await this.executeReport(scheduleId);
+        if (!result.success) throw new Error(result.error ?? result.message);
+        return result;
+      },
+      { maxAttempts: this.maxRetries, backoffMs: 60_000 }
+    );
 
-    console.log('[ScheduledReportExecutor] Started successfully');
+    try {
+      await defineCronJob('scheduled-reports', '*/5 * * * *', REPORT_SCAN_JOB);
+      console.log('[ScheduledReportExecutor] Started successfully');
+    } catch (error) {
+      console.error('[ScheduledReportExecutor] Could not define schedule:', error);
+    }
   }
 
   /**
@@ -48,82 +65,39 @@ export class ScheduledReportExecutor {
    */
   stop() {
     console.log('[ScheduledReportExecutor] Stopping...');
-    this.tasks.forEach((task: any) => {
-      if (task && typeof task.stop === 'function') {
-        task.stop();
-      }
-    });
-    this.tasks.clear();
+    unregisterJobHandler(REPORT_SCAN_JOB);
+    unregisterJobHandler(REPORT_EXECUTE_JOB);
     this.isRunning = false;
-    this.failedSchedules.clear();
     console.log('[ScheduledReportExecutor] Stopped');
   }
 
   /**
-   * Check and execute pending reports with rate limiting
+   * Enqueue a job for every active schedule whose nextRun is due
    */
-  private async checkAndExecutePendingReports() {
-    // Prevent concurrent processing
-    if (this.isProcessing) {
-      console.log('[ScheduledReportExecutor] Already processing, skipping this cycle');
-      return;
+  async enqueueDueReports(): Promise<{ due: number; enqueued: number }> {
+    const db = await getDb();
+    if (!db) throw new Error('Database connection failed');
+
+    const schedules = await db
+      .select({ id: reportSchedules.id, nextRun: reportSchedules.nextRun })
+      .from(reportSchedules)
+      .where(and(eq(reportSchedules.isActive, true), lte(reportSchedules.nextRun, new Date())))
+      .limit(this.batchSize);
+
+    let enqueued = 0;
+    for (const schedule of schedules) {
+      const { created } = await enqueueJob(
+        REPORT_EXECUTE_JOB,
+        { scheduleId: schedule.id },
+        { uniqueKey: `report:${schedule.id}:${schedule.nextRun?.toISOString()}` }
+      );
+      if (created) enqueued++;
     }
 
-    this.isProcessing = true;
-
-    try {
-      const db = await getDb();
-      if (!db) {
-        console.error('[ScheduledReportExecutor] Database connection failed');
-        this.isProcessing = false;
-        return;
-      }
-
-      const now = new Date();
-
-      // Get all active schedules where nextRun is due
-      const schedules = await db
-        .select()
-        .from(reportSchedules)
-        .where(and(eq(reportSchedules.isActive, true), lte(reportSchedules.nextRun, now)))
-        .limit(5); // Process max 5 reports per cycle to reduce load
-
-      console.log(`[ScheduledReportExecutor] Found ${schedules.length} pending reports`);
-
-      // Process reports sequentially with delays to avoid overwhelming the system
-      for (const schedule of schedules) {
-        const failureCount = this.failedSchedules.get(schedule.id) || 0;
-
-        // Skip if exceeded max retries
-        if (failureCount >= this.maxRetries) {
-          console.warn(
-            `[ScheduledReportExecutor] Schedule ${schedule.id} exceeded max retries (${failureCount}/${this.maxRetries})`
-          );
-          this.failedSchedules.delete(schedule.id);
-          continue;
-        }
-
-        const result = await this.executeReport(schedule.id);
-
-        if (!result.success) {
-          // Increment failure count
-          this.failedSchedules.set(schedule.id, failureCount + 1);
-          console.warn(
-            `[ScheduledReportExecutor] Schedule ${schedule.id} failed (${failureCount + 1}/${this.maxRetries})`
-          );
-        } else {
-          // Clear failure count on success
-          this.failedSchedules.delete(schedule.id);
-        }
-
-        // Add delay between reports to prevent overwhelming the system
-        await this.delay(this.retryDelayMs);
-      }
-    } catch (error) {
-      console.error('[ScheduledReportExecutor] Error checking pending reports:', error);
-    } finally {
-      this.isProcessing = false;
+    if (schedules.length) {
+      console.log(`[ScheduledReportExecutor] ${schedules.length} reports due, ${enqueued} newly queued`);
     }
+    return { due: schedules.length, enqueued };
   }
 
   /**
@@ -185,6 +159,7 @@ export class ScheduledReportExecutor {
           reportType: schedule.reportType,
           startDate,
           endDate,
+          templateId: schedule.templateId,
         });
 
         const recipients = JSON.parse(schedule.recipients as string);
@@ -341,13 +316,6 @@ export class ScheduledReportExecutor {
       console.error('[ScheduledReportExecutor] Error updating analytics:', error);
     }
   }
-
-  /**
-   * Utility function to add delay
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 export const scheduledReportExecutor = new ScheduledReportExecutor();
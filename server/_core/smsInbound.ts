@@ -0,0 +1,77 @@
+import type { Express, Request, Response } from "express";
+import { createHash } from "crypto";
+import { sendSMS } from "./sms";
+import { handleInboundSms, type InboundSms } from "../services/smsCommandService";
+import type { UssdProvider } from "../services/ussdEngine";
+
+const PROVIDERS: UssdProvider[] = ["africastalking", "hubtel"];
+
+function field(req: Request, ...names: string[]): string {
+  for (const name of names) {
+    const value = req.body?.[name] ?? req.query[name];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return "";
+}
+
+// Fall back to a content hash when the gateway sends no message id
+function toInboundSms(provider: UssdProvider, req: Request): InboundSms | null {
+  const from = field(req, "from", "From");
+  const text = field(req, "text", "Content", "Message");
+  if (!from || !text) return null;
+  const date = field(req, "date", "Date");
+  const externalId =
+    field(req, "id", "MessageId", "Id") ||
+    createHash("sha256").update(`${from}|${text}|${date || new Date().toISOString().slice(0, 16)}`).digest("hex").slice(0, 40);
+  return { provider, externalId, from, text };
+}
+
+/**
+ * Inbound SMS webhooks for keyword commands ("FEED TAG123 5KG maize").
+ *
+ *   POST /api/sms/inbound/africastalking   form fields from, to, text, id, date
+ *   POST /api/sms/inbound/hubtel           From, To, Content, MessageId (body or query)
+ *
+ * The reply goes out as a new SMS. SMS_CALLBACK_TOKEN must be set and
+ * appended as ?token=... to the callback URL configured with the gateway;
+ * callbacks are refused while it is unset.
+ */
+export function registerInboundSmsRoutes(app: Express) {
+  app.all("/api/sms/inbound/:provider", async (req: Request, res: Response) => {
+    const provider = req.params.provider as UssdProvider;
+    if (!PROVIDERS.includes(provider)) {
+      res.status(404).json({ error: "Unknown SMS provider" });
+      return;
+    }
+    // Without a token anyone could post as any farmer's number
+    const token = process.env.SMS_CALLBACK_TOKEN;
+    if (!token) {
+      console.error("[SmsInbound] SMS_CALLBACK_TOKEN is not set; rejecting callback");
+      res.status(503).json({ error: "Inbound SMS is not configured" });
+      return;
+    }
+    if (req.query.token !== token) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const message = toInboundSms(provider, req);
+    if (!message) {
+      res.status(400).json({ error: "Sender and text are required" });
+      return;
+    }
+
+    try {
+      const result = await handleInboundSms(message);
+      if (result.reply) {
+        const sent = await sendSMS({ to: message.from, message: result.reply });
+        if (!sent.success) console.error(`[SmsInbound] Reply to ${message.from} failed:`, sent.error);
+      }
+      res.status(200).json({ received: true, status: result.status });
+    } catch (error) {
+      // A 5xx makes the gateway redeliver later
+      console.error("[SmsInbound] Failed to handle message:", error);
+      res.status(500).json({ error: "Failed to process message" });
+    }
+  });
+}
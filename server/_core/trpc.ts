@@ -1,7 +1,9 @@
-import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { NOT_ADMIN_ERR_MSG, NO_FARM_ACCESS_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { z } from "zod";
 import type { TrpcContext } from "./context";
+import { hasFarmRole, loadFarmAccess, type FarmAccess, type FarmRole } from "./farmAccess";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -43,3 +45,75 @@ export const adminProcedure = t.procedure.use(
     });
   }),
 );
+
+/**
+ * Parse a farmId input. Most procedures take a single numeric id; the
+ * multi-farm financial views pass a comma-separated string of ids.
+ */
+function parseFarmIds(farmId: number | string): number[] | null {
+  const ids = String(farmId).split(",").map(id => Number(id.trim()));
+  return ids.length > 0 && ids.every(id => Number.isInteger(id) && id > 0) ? ids : null;
+}
+
+/**
+ * Procedure for anything scoped to a farm. Requires a `farmId` in the input
+ * and rejects callers whose role on the farm (ownership or an unexpired
+ * farmPermissions grant) is below `minRole`. When several ids are passed,
+ * every one must pass. The first farm and the lowest role found are exposed
+ * as `ctx.farm` and `ctx.farmRole`.
+ */
+export const farmProcedure = (minRole: FarmRole = "viewer") =>
+  protectedProcedure
+    .input(z.object({ farmId: z.union([z.number(), z.string()]) }))
+    .use(async opts => {
+      const { ctx, input, next } = opts;
+
+      const farmIds = parseFarmIds(input.farmId);
+      if (!farmIds) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid farmId" });
+      }
+
+      const { accesses, farmRole } = await requireFarmAccess(ctx.user, farmIds, minRole);
+
+      return next({
+        ctx: {
+          ...ctx,
+          farm: accesses[0]!.farm,
+          farmRole,
+        },
+      });
+    });
+
+/**
+ * The check behind farmProcedure, for procedures that take their farms in
+ * another shape (an array of ids for comparisons, "all" for consolidated
+ * reports). Throws NOT_FOUND or FORBIDDEN unless every farm passes.
+ */
+export async function requireFarmAccess(
+  user: NonNullable<TrpcContext["user"]>,
+  farmIds: number[],
+  minRole: FarmRole
+): Promise<{ accesses: FarmAccess[]; farmRole: FarmRole }> {
+  let accesses: (FarmAccess | null)[];
+  try {
+    accesses = await Promise.all(farmIds.map(farmId => loadFarmAccess(user, farmId)));
+  } catch (error) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Database unavailable",
+      cause: error,
+    });
+  }
+
+  let farmRole: FarmRole = "owner";
+  for (const access of accesses) {
+    if (!access) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Farm not found" });
+    }
+    if (!hasFarmRole(access.role, minRole)) {
+      throw new TRPCError({ code: "FORBIDDEN", message: NO_FARM_ACCESS_ERR_MSG });
+    }
+    if (!hasFarmRole(access.role, farmRole)) farmRole = access.role!;
+  }
+  return { accesses: accesses as FarmAccess[], farmRole };
+}
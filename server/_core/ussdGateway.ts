@@ -0,0 +1,72 @@
+import type { Express, Request, Response } from "express";
+import {
+  formatAfricasTalkingResponse,
+  formatHubtelResponse,
+  parseAfricasTalkingRequest,
+  parseHubtelRequest,
+  UssdInputError,
+  type UssdReply,
+} from "../services/ussdEngine";
+import { handleUssdRequest } from "../services/ussdService";
+
+const FAILURE: UssdReply = { text: "Sorry, something went wrong. Please dial again.", end: true };
+
+// Gateways cannot sign USSD callbacks, so the callback URL must carry a shared token;
+// without one anyone could open a session as any farmer's number
+function callbackAllowed(req: Request) {
+  const token = process.env.USSD_CALLBACK_TOKEN;
+  if (!token) {
+    console.error("[USSD] USSD_CALLBACK_TOKEN is not set; rejecting callback");
+    return false;
+  }
+  return req.query.token === token;
+}
+
+/**
+ * USSD gateway callbacks. Registered after the body parsers: Africa's
+ * Talking posts form fields, Hubtel posts JSON.
+ *
+ *   POST /api/ussd/africastalking   -> text/plain "CON ..." | "END ..."
+ *   POST /api/ussd/hubtel           -> { Type: "Response" | "Release", Message }
+ *
+ * USSD_CALLBACK_TOKEN must be set and appended as ?token=... to the
+ * callback URL configured with the gateway; callbacks are refused while it
+ * is unset.
+ */
+export function registerUssdRoutes(app: Express) {
+  app.post("/api/ussd/africastalking", async (req: Request, res: Response) => {
+    if (!callbackAllowed(req)) {
+      res.status(401).type("text/plain").send("END Unauthorized");
+      return;
+    }
+    try {
+      const reply = await handleUssdRequest(parseAfricasTalkingRequest(req.body ?? {}));
+      res.status(200).type("text/plain").send(formatAfricasTalkingResponse(reply));
+    } catch (error) {
+      if (error instanceof UssdInputError) {
+        res.status(400).type("text/plain").send(`END ${error.message}`);
+        return;
+      }
+      console.error("[USSD] Africa's Talking request failed:", error);
+      res.status(200).type("text/plain").send(formatAfricasTalkingResponse(FAILURE));
+    }
+  });
+
+  app.post("/api/ussd/hubtel", async (req: Request, res: Response) => {
+    if (!callbackAllowed(req)) {
+      res.status(401).json({ Type: "Release", Message: "Unauthorized" });
+      return;
+    }
+    try {
+      const reply = await handleUssdRequest(parseHubtelRequest(req.body ?? {}));
+      res.status(200).json(formatHubtelResponse(reply));
+    } catch (error) {
+      if (error instanceof UssdInputError) {
+        res.status(400).json({ Type: "Release", Message: error.message });
+        return;
+      }
+      console.error("[USSD] Hubtel request failed:", error);
+      res.status(200).json(formatHubtelResponse(FAILURE));
+    }
+  });
+}
@@ -1,15 +1,15 @@
 import { z } from "zod";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { farmProcedure, protectedProcedure, router } from "./_core/trpc";
 import { getDb } from "./db";
 import { alertHistory } from "../drizzle/schema";
 import { eq, and, desc, gte, lte } from "drizzle-orm";
 
 export const alertHistoryRouter = router({
   // List alerts with filters
-  list: protectedProcedure
+  list: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         severity: z.enum(["critical", "warning", "info"]).optional(),
         alertType: z.enum(["health", "water_quality", "weather", "maintenance", "other"]).optional(),
         isRead: z.boolean().optional(),
@@ -23,11 +23,8 @@ export const alertHistoryRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
-      const conditions = [eq(alertHistory.userId, ctx.user.id)];
+      const conditions = [eq(alertHistory.userId, ctx.user.id), eq(alertHistory.farmId, input.farmId)];
 
-      if (input.farmId) {
-        conditions.push(eq(alertHistory.farmId, input.farmId));
-      }
 
       if (input.severity) {
         conditions.push(eq(alertHistory.severity, input.severity));
@@ -70,20 +67,18 @@ export const alertHistoryRouter = router({
     }),
 
   // Get unread count
-  unreadCount: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  unreadCount: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
       const conditions = [
         eq(alertHistory.userId, ctx.user.id),
+        eq(alertHistory.farmId, input.farmId),
         eq(alertHistory.isRead, false),
       ];
 
-      if (input.farmId) {
-        conditions.push(eq(alertHistory.farmId, input.farmId));
-      }
 
       const result = await db
         .select({ count: alertHistory.id })
@@ -114,20 +109,18 @@ export const alertHistoryRouter = router({
     }),
 
   // Mark all as read
-  markAllAsRead: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  markAllAsRead: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .mutation(async ({ input, ctx }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
       const conditions = [
         eq(alertHistory.userId, ctx.user.id),
+        eq(alertHistory.farmId, input.farmId),
         eq(alertHistory.isRead, false),
       ];
 
-      if (input.farmId) {
-        conditions.push(eq(alertHistory.farmId, input.farmId));
-      }
 
       await db
         .update(alertHistory)
@@ -190,17 +183,14 @@ export const alertHistoryRouter = router({
     }),
 
   // Get acknowledgment statistics
-  getAcknowledgmentStats: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getAcknowledgmentStats: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
-      const conditions = [eq(alertHistory.userId, ctx.user.id)];
+      const conditions = [eq(alertHistory.userId, ctx.user.id), eq(alertHistory.farmId, input.farmId)];
 
-      if (input.farmId) {
-        conditions.push(eq(alertHistory.farmId, input.farmId));
-      }
 
       const alerts = await db
         .select()
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { protectedProcedure, router } from './_core/trpc';
+import { protectedProcedure, farmProcedure, router } from './_core/trpc';
 import { analyticsService } from './_core/analyticsService';
 
 export const analyticsRouter = router({
@@ -13,7 +13,7 @@ export const analyticsRouter = router({
     }),
 
   // Feed cost optimization
-  optimizeFeedCosts: protectedProcedure
+  optimizeFeedCosts: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
     }))
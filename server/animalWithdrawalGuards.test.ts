@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import { WithdrawalError } from "./services/withdrawal";
+
+vi.mock("./services/withdrawalService", async importOriginal => {
+  const actual = await importOriginal<typeof import("./services/withdrawalService")>();
+  return { ...actual, assertAnimalsClear: vi.fn(), productionHold: vi.fn() };
+});
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return { ...actual, getDb: vi.fn() };
+});
+
+import { assertAnimalsClear, productionHold } from "./services/withdrawalService";
+import { getDb } from "./db";
+import { appRouter } from "./routers";
+
+function createContext(): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "user-1",
+      email: "user1@example.com",
+      name: "User 1",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+// Records what each write would have stored
+const written: Array<{ kind: string; values: unknown }> = [];
+function fakeDb() {
+  const write = (kind: string) => () => {
+    const chain: any = {
+      set: (values: unknown) => (written.push({ kind, values }), chain),
+      values: async (values: unknown) => (written.push({ kind, values }), [{}]),
+      where: async () => [{}],
+    };
+    return chain;
+  };
+  return { insert: write("insert"), update: write("update") };
+}
+
+describe("withdrawal guards on the animals router", () => {
+  beforeEach(() => {
+    written.length = 0;
+    vi.mocked(assertAnimalsClear).mockReset();
+    vi.mocked(productionHold).mockReset();
+    vi.mocked(getDb).mockResolvedValue(fakeDb() as any);
+  });
+
+  it("refuses to sell an animal still under meat withdrawal", async () => {
+    vi.mocked(assertAnimalsClear).mockRejectedValue(
+      new WithdrawalError("meat", [{ animalId: 3, tag: "G-3", clearAt: new Date("2026-11-01") }])
+    );
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.animals.update({ id: 3, status: "sold" })).rejects.toMatchObject({ code: "PRECONDITION_FAILED" });
+    expect(assertAnimalsClear).toHaveBeenCalledWith([3], "meat");
+    expect(written).toEqual([]);
+
+    await caller.animals.update({ id: 3, breed: "Boer" });
+    expect(assertAnimalsClear).toHaveBeenCalledTimes(1);
+  });
+
+  it("flags milk recorded during a withdrawal period", async () => {
+    vi.mocked(productionHold).mockResolvedValue({ held: true, products: ["milk"], clearAt: new Date("2026-10-05") });
+    const caller = appRouter.createCaller(createContext());
+    const metricDate = new Date("2026-10-01");
+
+    await caller.performanceMetrics.record({ animalId: 3, metricDate, milkYieldLiters: "12.5" });
+
+    expect(productionHold).toHaveBeenCalledWith(3, { milk: true, eggs: false }, metricDate);
+    expect(written).toEqual([{ kind: "insert", values: expect.objectContaining({ milkYieldLiters: "12.5", withdrawalHold: true }) }]);
+  });
+});
@@ -1,9 +1,10 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
 import { eq, and, gte, lte, inArray } from "drizzle-orm";
 import { farmAssets, farms } from "../drizzle/schema";
+import { recordInLedger } from "./services/ledgerService";
 
 export const assetRouter = router({
   // Consolidated data for all owner's farms
@@ -28,7 +29,7 @@ export const assetRouter = router({
   // ============================================================================
 
   assets: router({
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         name: z.string(),
@@ -42,7 +43,7 @@ export const assetRouter = router({
         status: z.string().optional(),
         notes: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
@@ -52,10 +53,12 @@ export const assetRouter = router({
           currentValue: input.currentValue ? input.currentValue.toString() : null,
           status: input.status || "active",
         };
-        return await db.insert(farmAssets).values(values);
+        const result = await db.insert(farmAssets).values(values);
+        await recordInLedger("asset", result[0].insertId, ctx.user.id);
+        return result;
       }),
 
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
         assetType: z.string().optional(),
@@ -101,11 +104,14 @@ export const assetRouter = router({
 
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
-        return await db.delete(farmAssets).where(eq(farmAssets.id, input.id));
+        const result = await db.delete(farmAssets).where(eq(farmAssets.id, input.id));
+        // A deleted asset was entered by mistake, so its purchase is reversed
+        await recordInLedger("asset", input.id, ctx.user.id);
+        return result;
       }),
 
     getById: protectedProcedure
@@ -153,7 +159,7 @@ export const assetRouter = router({
         return [];
       }),
 
-    getUpcomingMaintenance: protectedProcedure
+    getUpcomingMaintenance: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
         daysAhead: z.number().default(30),
@@ -228,7 +234,7 @@ export const assetRouter = router({
   // ============================================================================
 
   analytics: router({
-    getAssetInventory: protectedProcedure
+    getAssetInventory: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
       }))
@@ -258,7 +264,7 @@ export const assetRouter = router({
         };
       }),
 
-    getAssetsByStatus: protectedProcedure
+    getAssetsByStatus: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
       }))
@@ -285,7 +291,7 @@ export const assetRouter = router({
         return byStatus;
       }),
 
-    getHighValueAssets: protectedProcedure
+    getHighValueAssets: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
         threshold: z.number().optional(),
@@ -308,7 +314,7 @@ export const assetRouter = router({
           .slice(0, input.limit);
       }),
 
-    getDepreciationReport: protectedProcedure
+    getDepreciationReport: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
       }))
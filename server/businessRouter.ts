@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "./db";
@@ -8,26 +8,22 @@ import { eq, and } from "drizzle-orm";
 export const businessRouter = router({
   // Strategic Goals
   goals: router({
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         status: z.enum(["planning", "in_progress", "completed", "abandoned"]).optional(),
       }))
       .query(async ({ input }) => {
         const db = await getDb();
         if (!db) return [];
         
-        const conditions = [];
-        if (input.farmId) conditions.push(eq(strategicGoals.farmId, input.farmId));
+        const conditions = [eq(strategicGoals.farmId, input.farmId)];
         if (input.status) conditions.push(eq(strategicGoals.status, input.status));
         
-        if (conditions.length > 0) {
-          return await db.select().from(strategicGoals).where(and(...conditions));
-        }
-        return await db.select().from(strategicGoals);
+        return await db.select().from(strategicGoals).where(and(...conditions));
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         goalDescription: z.string(),
@@ -79,20 +75,17 @@ export const businessRouter = router({
 
   // SWOT Analysis
   swot: router({
-    list: protectedProcedure
-      .input(z.object({ farmId: z.number().optional() }))
+    list: farmProcedure("viewer")
+      .input(z.object({ farmId: z.number() }))
       .query(async ({ input }) => {
         const db = await getDb();
         if (!db) return [];
         
-        if (input.farmId) {
-          return await db.select().from(swotAnalysis)
-            .where(eq(swotAnalysis.farmId, input.farmId));
-        }
-        return await db.select().from(swotAnalysis);
+        return await db.select().from(swotAnalysis)
+          .where(eq(swotAnalysis.farmId, input.farmId));
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         analysisDate: z.date(),
@@ -145,7 +138,7 @@ export const businessRouter = router({
       }),
 
     // Get latest SWOT analysis for a farm
-    latest: protectedProcedure
+    latest: farmProcedure("viewer")
       .input(z.object({ farmId: z.number() }))
       .query(async ({ input }) => {
         const db = await getDb();
@@ -1,8 +1,9 @@
-import { router, publicProcedure, protectedProcedure } from "./_core/trpc";
+import { router, publicProcedure, protectedProcedure, adminProcedure } from "./_core/trpc";
 import { getDb } from "./db";
 import { marketplaceCart } from "../drizzle/schema";
 import { lt, eq } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
+import { deleteExpiredCartItems } from "./services/cartExpirationService";
 
 /**
  * Cart expiration management router
@@ -11,23 +12,16 @@ import { TRPCError } from "@trpc/server";
 export const cartExpirationRouter = router({
   /**
    * Clean up expired cart items (older than 30 days)
-   * This can be called by a scheduled job or manually
+   * The cart.expireItems queue job runs this hourly; admins can run it manually
    */
-  cleanupExpiredCarts: publicProcedure.mutation(async () => {
-    const db = await getDb();
-    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
-
+  cleanupExpiredCarts: adminProcedure.mutation(async () => {
     try {
-      const now = new Date();
-      
-      // Delete cart items that have expired
-      const result = await db.delete(marketplaceCart)
-        .where(lt(marketplaceCart.expiresAt, now));
+      const { deleted, timestamp } = await deleteExpiredCartItems();
 
       return {
         success: true,
-        deletedCount: 0,
-        timestamp: now.toISOString(),
+        deletedCount: deleted,
+        timestamp,
       };
     } catch (error) {
       console.error("Cart expiration cleanup error:", error);
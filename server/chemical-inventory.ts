@@ -19,7 +19,7 @@ export interface ChemicalProduct {
   safetyDataSheet: string; // URL
   registrationNumber: string;
   approvedCrops: string[];
-  preharvest Interval: number; // days
+  preharvestInterval: number; // days
   reentryInterval: number; // hours
   environmentalImpact: 'low' | 'medium' | 'high';
   toxicity: 'low' | 'medium' | 'high';
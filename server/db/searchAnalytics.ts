@@ -1,6 +1,19 @@
 import { getDb } from "../db";
 import { searchAnalytics, searchSuggestions, trendingSearches } from "../../drizzle/schema";
-import { eq, desc, and, gte, sql } from "drizzle-orm";
+import { eq, desc, and, gte, asc, sql } from "drizzle-orm";
+
+export type TrendingPeriod = "daily" | "weekly" | "monthly";
+
+const PERIOD_DAYS: Record<TrendingPeriod, number> = { daily: 1, weekly: 7, monthly: 30 };
+const TRENDING_SIZE = 50;
+
+/**
+ * Queries are stored trimmed and lower-cased so "Maize" and "maize " count
+ * as the same search
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase().slice(0, 255);
+}
 
 /**
  * Track a search query for analytics
@@ -9,99 +22,110 @@ export async function trackSearch(data: {
   userId: number;
   query: string;
   resultCount: number;
-  resultClicked?: boolean;
-  clickedResultId?: number;
-  clickedResultType?: string;
   searchDuration?: number;
   filters?: Record<string, any>;
   sessionId?: string;
 }) {
-  const db = getDb();
-  
+  const db = await getDb();
+  if (!db) return;
+
   try {
     await db.insert(searchAnalytics).values({
       userId: data.userId,
-      query: data.query,
+      query: normalizeQuery(data.query),
       resultCount: data.resultCount,
-      resultClicked: data.resultClicked || false,
-      clickedResultId: data.clickedResultId,
-      clickedResultType: data.clickedResultType,
       searchDuration: data.searchDuration,
-      filters: data.filters ? JSON.stringify(data.filters) : null,
+      filters: data.filters ?? null,
       sessionId: data.sessionId,
     });
-
-    // Update trending searches
-    await updateTrendingSearches(data.query, data.resultCount, data.resultClicked || false);
-
-    // Add to user suggestions if clicked
-    if (data.resultClicked) {
-      await addSearchSuggestion(data.userId, data.query, "recent");
-    }
   } catch (error) {
     console.error("Error tracking search:", error);
   }
 }
 
 /**
- * Update trending searches based on search activity
+ * Mark the user's latest search for this query as clicked through and
+ * remember the query as a recent suggestion
  */
-async function updateTrendingSearches(
-  query: string,
-  resultCount: number,
-  clicked: boolean
-) {
-  const db = getDb();
+export async function trackSearchClick(data: {
+  userId: number;
+  query: string;
+  resultType: string;
+  resultId: number;
+  sessionId?: string;
+}) {
+  const db = await getDb();
+  if (!db) return;
 
   try {
-    // Get or create trending search entry for today
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const existing = await db
-      .select()
-      .from(trendingSearches)
+    const query = normalizeQuery(data.query);
+    const [latest] = await db
+      .select({ id: searchAnalytics.id })
+      .from(searchAnalytics)
       .where(
         and(
-          eq(trendingSearches.query, query),
-          eq(trendingSearches.period, "daily"),
-          gte(trendingSearches.createdAt, today)
+          eq(searchAnalytics.userId, data.userId),
+          eq(searchAnalytics.query, query),
+          data.sessionId ? eq(searchAnalytics.sessionId, data.sessionId) : undefined
         )
       )
+      .orderBy(desc(searchAnalytics.createdAt), desc(searchAnalytics.id))
       .limit(1);
 
-    if (existing.length > 0) {
-      // Update existing entry
-      const entry = existing[0];
-      const newSearchCount = entry.searchCount + 1;
-      const newClickThroughRate = clicked
-        ? ((entry.searchCount * parseFloat(entry.clickThroughRate.toString()) + 1) / newSearchCount * 100)
-        : (entry.searchCount * parseFloat(entry.clickThroughRate.toString()) / newSearchCount * 100);
-
+    if (latest) {
       await db
-        .update(trendingSearches)
-        .set({
-          searchCount: newSearchCount,
-          clickThroughRate: newClickThroughRate.toString(),
-          averageResultCount: (
-            (entry.searchCount * parseFloat(entry.averageResultCount.toString()) + resultCount) /
-            newSearchCount
-          ).toString(),
-        })
-        .where(eq(trendingSearches.id, entry.id));
-    } else {
-      // Create new entry
-      await db.insert(trendingSearches).values({
-        query,
-        searchCount: 1,
-        clickThroughRate: clicked ? "100" : "0",
-        averageResultCount: resultCount.toString(),
-        period: "daily",
-        rank: 0, // Will be calculated separately
-      });
+        .update(searchAnalytics)
+        .set({ resultClicked: true, clickedResultId: data.resultId, clickedResultType: data.resultType })
+        .where(eq(searchAnalytics.id, latest.id));
     }
+    await addSearchSuggestion(data.userId, query, "recent");
   } catch (error) {
-    console.error("Error updating trending searches:", error);
+    console.error("Error tracking search click:", error);
+  }
+}
+
+/**
+ * Rebuild the trending list for a period from the searches logged in it:
+ * most searched first, with the click-through rate (percent) and average
+ * result count of those searches
+ */
+export async function refreshTrendingSearches(periods: TrendingPeriod[] = ["daily", "weekly", "monthly"]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  for (const period of periods) {
+    const since = new Date(Date.now() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000);
+    const searchCount = sql<number>`count(*)`;
+    const rows = await db
+      .select({
+        query: searchAnalytics.query,
+        searchCount,
+        clicks: sql<number>`sum(case when ${searchAnalytics.resultClicked} then 1 else 0 end)`,
+        averageResultCount: sql<number>`avg(${searchAnalytics.resultCount})`,
+      })
+      .from(searchAnalytics)
+      .where(gte(searchAnalytics.createdAt, since))
+      .groupBy(searchAnalytics.query)
+      .orderBy(desc(searchCount))
+      .limit(TRENDING_SIZE);
+
+    await db.transaction(async tx => {
+      await tx.delete(trendingSearches).where(eq(trendingSearches.period, period));
+      if (!rows.length) return;
+      await tx.insert(trendingSearches).values(
+        rows.map((row, index) => {
+          const count = Number(row.searchCount);
+          return {
+            query: row.query,
+            searchCount: count,
+            clickThroughRate: ((Number(row.clicks) / count) * 100).toFixed(2),
+            averageResultCount: Number(row.averageResultCount).toFixed(2),
+            period,
+            rank: index + 1,
+          };
+        })
+      );
+    });
   }
 }
 
@@ -113,7 +137,8 @@ export async function addSearchSuggestion(
   suggestionText: string,
   suggestionType: "recent" | "trending" | "popular"
 ) {
-  const db = getDb();
+  const db = await getDb();
+  if (!db) return;
 
   try {
     const existing = await db
@@ -155,7 +180,8 @@ export async function addSearchSuggestion(
  * Get search suggestions for a user
  */
 export async function getSearchSuggestions(userId: number, limit: number = 10) {
-  const db = getDb();
+  const db = await getDb();
+  if (!db) return [];
 
   try {
     const suggestions = await db
@@ -173,17 +199,18 @@ export async function getSearchSuggestions(userId: number, limit: number = 10) {
 }
 
 /**
- * Get trending searches
+ * Get trending searches, as ranked by the last refresh
  */
-export async function getTrendingSearches(limit: number = 10) {
-  const db = getDb();
+export async function getTrendingSearches(limit: number = 10, period: TrendingPeriod = "daily") {
+  const db = await getDb();
+  if (!db) return [];
 
   try {
     const trending = await db
       .select()
       .from(trendingSearches)
-      .where(eq(trendingSearches.period, "daily"))
-      .orderBy(desc(trendingSearches.searchCount))
+      .where(eq(trendingSearches.period, period))
+      .orderBy(asc(trendingSearches.rank))
       .limit(limit);
 
     return trending;
@@ -197,7 +224,8 @@ export async function getTrendingSearches(limit: number = 10) {
  * Get search analytics for a user
  */
 export async function getUserSearchAnalytics(userId: number, days: number = 30) {
-  const db = getDb();
+  const db = await getDb();
+  if (!db) return [];
 
   try {
     const startDate = new Date();
@@ -225,7 +253,8 @@ export async function getUserSearchAnalytics(userId: number, days: number = 30)
  * Get popular searches across all users
  */
 export async function getPopularSearches(limit: number = 20) {
-  const db = getDb();
+  const db = await getDb();
+  if (!db) return [];
 
   try {
     const popular = await db
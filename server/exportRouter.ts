@@ -1,9 +1,10 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { farmExpenses, farmRevenue, animals, farmWorkers, fishPonds, farmAssets } from "../drizzle/schema";
 import { and, gte, lte, eq, sql } from "drizzle-orm";
 import * as XLSX from 'xlsx';
+import { generatePDFReport as generateLayoutPDFReport } from './_core/reportGenerator';
 
 export const exportRouter = router({
   // Export financial data to Excel
@@ -94,7 +95,7 @@ export const exportRouter = router({
     }),
 
   // Export livestock data to Excel
-  exportLivestockExcel: protectedProcedure
+  exportLivestockExcel: farmProcedure("editor")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -146,7 +147,7 @@ export const exportRouter = router({
     }),
 
   // Export all farm data to Excel
-  exportAllDataExcel: protectedProcedure
+  exportAllDataExcel: farmProcedure("editor")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -214,130 +215,28 @@ export const exportRouter = router({
       };
     }),
 
-  // Generate PDF report (simplified version - returns HTML that can be printed to PDF)
-  generatePDFReport: protectedProcedure
+  // Generate a PDF report through the layout renderer, laid out by the farm's report template
+  generatePDFReport: farmProcedure("editor")
     .input(z.object({
       startDate: z.string(),
       endDate: z.string(),
       farmId: z.number(),
+      reportType: z.enum(["financial", "livestock", "complete"]).default("financial"),
+      templateId: z.number().optional(),
     }))
     .mutation(async ({ input }) => {
-      const db = await getDb();
-      if (!db) throw new Error('Database connection failed');
-      const { startDate, endDate, farmId } = input;
-
-      // Fetch financial data
-      const [expenses, revenue] = await Promise.all([
-        db.select().from(farmExpenses).where(
-          and(
-            eq(farmExpenses.farmId, farmId),
-            gte(farmExpenses.expenseDate, new Date(startDate)),
-            lte(farmExpenses.expenseDate, new Date(endDate))
-          )
-        ),
-        db.select().from(farmRevenue).where(
-          and(
-            eq(farmRevenue.farmId, farmId),
-            gte(farmRevenue.saleDate, new Date(startDate)),
-            lte(farmRevenue.saleDate, new Date(endDate))
-          )
-        ),
-      ]);
-
-      const totalExpenses = expenses.reduce((sum, e) => sum + parseFloat(e.amount), 0);
-      const totalRevenue = revenue.reduce((sum, r) => sum + parseFloat(r.amount), 0);
-      const netProfit = totalRevenue - totalExpenses;
-
-      // Generate HTML report
-      const html = `
-<!DOCTYPE html>
-<html>
-<head>
-  <title>Farm Financial Report</title>
-  <style>
-    body { font-family: Arial, sans-serif; margin: 40px; }
-    h1 { color: #2563eb; }
-    table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-    th, td { border: 1px solid #ddd; padding: 12px; text-align: left; }
-    th { background-color: #2563eb; color: white; }
-    .summary { background-color: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0; }
-    .summary h2 { margin-top: 0; }
-    .metric { display: flex; justify-content: space-between; margin: 10px 0; }
-    .metric-label { font-weight: bold; }
-    .metric-value { color: #2563eb; font-size: 1.2em; }
-  </style>
-</head>
-<body>
-  <h1>Farm Financial Report</h1>
-  <p><strong>Period:</strong> ${startDate} to ${endDate}</p>
-  <p><strong>Generated:</strong> ${new Date().toLocaleString()}</p>
-
-  <div class="summary">
-    <h2>Financial Summary</h2>
-    <div class="metric">
-      <span class="metric-label">Total Revenue:</span>
-      <span class="metric-value">$${totalRevenue.toFixed(2)}</span>
-    </div>
-    <div class="metric">
-      <span class="metric-label">Total Expenses:</span>
-      <span class="metric-value">$${totalExpenses.toFixed(2)}</span>
-    </div>
-    <div class="metric">
-      <span class="metric-label">Net Profit:</span>
-      <span class="metric-value" style="color: ${netProfit >= 0 ? '#10b981' : '#ef4444'}">$${netProfit.toFixed(2)}</span>
-    </div>
-  </div>
-
-  <h2>Revenue Details</h2>
-  <table>
-    <thead>
-      <tr>
-        <th>Date</th>
-        <th>Source</th>
-        <th>Description</th>
-        <th>Amount</th>
-      </tr>
-    </thead>
-    <tbody>
-      ${revenue.map(r => `
-        <tr>
-          <td>${r.saleDate.toISOString().split('T')[0]}</td>
-          <td>${r.source}</td>
-          <td>${r.notes || '-'}</td>
-          <td>$${parseFloat(r.amount).toFixed(2)}</td>
-        </tr>
-      `).join('')}
-    </tbody>
-  </table>
-
-  <h2>Expense Details</h2>
-  <table>
-    <thead>
-      <tr>
-        <th>Date</th>
-        <th>Category</th>
-        <th>Description</th>
-        <th>Amount</th>
-      </tr>
-    </thead>
-    <tbody>
-      ${expenses.map(e => `
-        <tr>
-          <td>${e.expenseDate.toISOString().split('T')[0]}</td>
-          <td>${e.category}</td>
-          <td>${e.description || '-'}</td>
-          <td>$${parseFloat(e.amount).toFixed(2)}</td>
-        </tr>
-      `).join('')}
-    </tbody>
-  </table>
-</body>
-</html>
-      `;
+      const { startDate, endDate, farmId, reportType, templateId } = input;
+      const buffer = await generateLayoutPDFReport({
+        farmId,
+        reportType,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        templateId,
+      });
 
       return {
         success: true,
-        html,
+        data: buffer.toString('base64'),
         filename: `farm-report-${startDate}-to-${endDate}.pdf`,
       };
     }),
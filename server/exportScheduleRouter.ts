@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from './_core/trpc';
+import { router, protectedProcedure, farmProcedure } from './_core/trpc';
 import { z } from 'zod';
 import { getDb } from './db';
 import { eq } from 'drizzle-orm';
@@ -30,7 +30,7 @@ interface ExportSchedule {
 
 export const exportScheduleRouter = router({
   // Create new export schedule
-  create: protectedProcedure
+  create: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -84,7 +84,7 @@ export const exportScheduleRouter = router({
     }),
 
   // List export schedules for a farm
-  list: protectedProcedure
+  list: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       const db = await getDb();
@@ -131,7 +131,7 @@ export const exportScheduleRouter = router({
     }),
 
   // Update export schedule
-  update: protectedProcedure
+  update: farmProcedure("editor")
     .input(
       z.object({
         scheduleId: z.string(),
@@ -164,7 +164,7 @@ export const exportScheduleRouter = router({
     }),
 
   // Delete export schedule
-  delete: protectedProcedure
+  delete: farmProcedure("editor")
     .input(
       z.object({
         scheduleId: z.string(),
@@ -193,7 +193,7 @@ export const exportScheduleRouter = router({
     }),
 
   // Trigger manual export
-  triggerManual: protectedProcedure
+  triggerManual: farmProcedure("editor")
     .input(
       z.object({
         scheduleId: z.string(),
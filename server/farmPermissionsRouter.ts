@@ -3,24 +3,18 @@ import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
 import { eq, and, inArray } from "drizzle-orm";
 import { farmPermissions, farms } from "../drizzle/schema";
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 
 export const farmPermissionsRouter = router({
   // Get all permissions for a farm
-  list: protectedProcedure
+  list: farmProcedure("owner")
     .input(z.object({
       farmId: z.number(),
     }))
-    .query(async ({ input, ctx }) => {
+    .query(async ({ input }) => {
       const db = await getDb();
       if (!db) return [];
 
-      // Verify user owns the farm
-      const farm = await db.select().from(farms).where(eq(farms.id, input.farmId));
-      if (farm.length === 0 || farm[0].farmerUserId !== ctx.user.id) {
-        throw new TRPCError({ code: "FORBIDDEN" });
-      }
-
       return await db.select().from(farmPermissions).where(
         eq(farmPermissions.farmId, input.farmId)
       );
@@ -59,7 +53,7 @@ export const farmPermissionsRouter = router({
   }),
 
   // Grant permission to a user
-  grant: protectedProcedure
+  grant: farmProcedure("owner")
     .input(z.object({
       farmId: z.number(),
       userId: z.number(),
@@ -71,12 +65,6 @@ export const farmPermissionsRouter = router({
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
-      // Verify user owns the farm
-      const farm = await db.select().from(farms).where(eq(farms.id, input.farmId));
-      if (farm.length === 0 || farm[0].farmerUserId !== ctx.user.id) {
-        throw new TRPCError({ code: "FORBIDDEN" });
-      }
-
       // Check if permission already exists
       const existing = await db.select().from(farmPermissions).where(
         and(
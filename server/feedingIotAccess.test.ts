@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import { alerts, animals, feedingRecords, iotDevices, type Farm } from "../drizzle/schema";
+
+vi.mock("./_core/farmAccess", async importOriginal => {
+  const actual = await importOriginal<typeof import("./_core/farmAccess")>();
+  return { ...actual, loadFarmAccess: vi.fn() };
+});
+
+vi.mock("./db", async importOriginal => {
+  const actual = await importOriginal<typeof import("./db")>();
+  return { ...actual, getDb: vi.fn() };
+});
+
+import { loadFarmAccess } from "./_core/farmAccess";
+import { getDb } from "./db";
+import { appRouter } from "./routers";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+const OWNER_ID = 1;
+const OTHER_TENANT_ID = 2;
+const FARM_ID = 10;
+
+function createContext(userId: number): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: `user${userId}@example.com`,
+    name: `User ${userId}`,
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+const farm = { id: FARM_ID, farmerUserId: OWNER_ID, farmName: "Owner Farm" } as Farm;
+
+// Every lookup finds a record on FARM_ID; writes are recorded so tests can check none went through
+const writes: string[] = [];
+const rowsByTable = new Map<unknown, unknown[]>([
+  [animals, [{ farmId: FARM_ID }]],
+  [feedingRecords, [{ farmId: FARM_ID }]],
+  [iotDevices, [{ id: 5, farmId: FARM_ID, deviceSerial: "SN-5", deviceType: "soil_sensor" }]],
+  [alerts, [{ farmId: FARM_ID }]],
+]);
+
+function fakeDb(tables: Map<unknown, unknown[]> = rowsByTable) {
+  const query = (rows: unknown[]) => {
+    const chain: any = {
+      innerJoin: () => chain,
+      where: () => chain,
+      orderBy: () => chain,
+      limit: async () => rows,
+      then: (resolve: (value: unknown[]) => unknown) => resolve(rows),
+    };
+    return chain;
+  };
+  const write = (kind: string) => () => {
+    writes.push(kind);
+    const chain: any = { set: () => chain, values: async () => [{}], where: async () => [{}] };
+    return chain;
+  };
+  return {
+    select: () => ({ from: (table: unknown) => query(tables.get(table) ?? []) }),
+    insert: write("insert"),
+    update: write("update"),
+    delete: write("delete"),
+  };
+}
+
+describe("procedures addressed by record id", () => {
+  const mockedLoad = vi.mocked(loadFarmAccess);
+
+  beforeEach(() => {
+    writes.length = 0;
+    mockedLoad.mockReset();
+    vi.mocked(getDb).mockResolvedValue(fakeDb() as any);
+  });
+
+  it("rejects cross-tenant feeding reads and writes", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: null });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+    const forbidden = { code: "FORBIDDEN" };
+
+    await expect(caller.feeding.listByAnimal({ animalId: 3 })).rejects.toMatchObject(forbidden);
+    await expect(
+      caller.feeding.getCostAnalysis({ animalId: 3, startDate: new Date("2026-01-01"), endDate: new Date("2026-02-01") })
+    ).rejects.toMatchObject(forbidden);
+    await expect(caller.feeding.getNutritionalSummary({ animalId: 3 })).rejects.toMatchObject(forbidden);
+    await expect(
+      caller.feeding.record({ animalId: 3, feedDate: new Date(), feedType: "hay", quantityKg: 4 })
+    ).rejects.toMatchObject(forbidden);
+    await expect(caller.feeding.update({ id: 7, quantityKg: 9 })).rejects.toMatchObject(forbidden);
+    await expect(caller.feeding.delete({ id: 7 })).rejects.toMatchObject(forbidden);
+
+    expect(mockedLoad).toHaveBeenCalledWith(expect.objectContaining({ id: OTHER_TENANT_ID }), FARM_ID);
+    expect(writes).toEqual([]);
+  });
+
+  it("keeps feeding viewers from writing", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: "viewer" });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+
+    await expect(caller.feeding.listByAnimal({ animalId: 3 })).resolves.toEqual([{ farmId: FARM_ID }]);
+    await expect(caller.feeding.delete({ id: 7 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(writes).toEqual([]);
+  });
+
+  it("rejects cross-tenant device and alert access", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: null });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+    const forbidden = { code: "FORBIDDEN" };
+
+    await expect(caller.iot.getDevice({ deviceId: 5 })).rejects.toMatchObject(forbidden);
+    await expect(caller.iot.updateDeviceStatus({ deviceId: 5, status: "retired" })).rejects.toMatchObject(forbidden);
+    await expect(caller.iot.getSensorReadings({ deviceId: 5 })).rejects.toMatchObject(forbidden);
+    await expect(caller.iot.getDeviceAlerts({ deviceId: 5 })).rejects.toMatchObject(forbidden);
+    await expect(caller.iot.resolveAlert({ alertId: 8 })).rejects.toMatchObject(forbidden);
+    await expect(
+      caller.iot.recordSensorReading({ farmId: FARM_ID, deviceId: 5, value: 21.5, unit: "C", readingType: "temperature" })
+    ).rejects.toMatchObject(forbidden);
+
+    expect(writes).toEqual([]);
+  });
+
+  it("lets device viewers read but not change status", async () => {
+    mockedLoad.mockResolvedValue({ farm, role: "viewer" });
+    const caller = appRouter.createCaller(createContext(OTHER_TENANT_ID));
+
+    await expect(caller.iot.getDevice({ deviceId: 5 })).resolves.toMatchObject({ id: 5, farmId: FARM_ID });
+    await expect(caller.iot.updateDeviceStatus({ deviceId: 5, status: "retired" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    expect(writes).toEqual([]);
+  });
+
+  it("reports records that do not exist as not found", async () => {
+    vi.mocked(getDb).mockResolvedValue(fakeDb(new Map()) as any);
+    const caller = appRouter.createCaller(createContext(OWNER_ID));
+
+    await expect(caller.feeding.delete({ id: 99 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.iot.getDevice({ deviceId: 99 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(mockedLoad).not.toHaveBeenCalled();
+  });
+});
@@ -1,29 +1,57 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure, requireFarmAccess } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
-import { feedingRecords } from "../drizzle/schema";
-import { eq, and, gte, lte } from "drizzle-orm";
+import { feedingRecords, animals } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
+import { eq, and, gte, lte, desc } from "drizzle-orm";
+import type { FarmRole } from "./_core/farmAccess";
+
+/** Procedures addressed by animal id check access on the animal's farm */
+async function requireAnimalAccess(user: NonNullable<TrpcContext["user"]>, animalId: number, minRole: FarmRole) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  const [animal] = await db.select({ farmId: animals.farmId }).from(animals).where(eq(animals.id, animalId)).limit(1);
+  if (!animal) throw new TRPCError({ code: "NOT_FOUND", message: "Animal not found" });
+  await requireFarmAccess(user, [animal.farmId], minRole);
+  return db;
+}
+
+async function requireFeedingRecordAccess(user: NonNullable<TrpcContext["user"]>, recordId: number, minRole: FarmRole) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  const [record] = await db
+    .select({ farmId: animals.farmId })
+    .from(feedingRecords)
+    .innerJoin(animals, eq(feedingRecords.animalId, animals.id))
+    .where(eq(feedingRecords.id, recordId))
+    .limit(1);
+  if (!record) throw new TRPCError({ code: "NOT_FOUND", message: "Feeding record not found" });
+  await requireFarmAccess(user, [record.farmId], minRole);
+  return db;
+}
 
 export const feedingRouter = router({
   listByAnimal: protectedProcedure
     .input(z.object({ animalId: z.number() }))
-    .query(async ({ input }) => {
-      const db = await getDb();
-      if (!db) return [];
+    .query(async ({ ctx, input }) => {
+      const db = await requireAnimalAccess(ctx.user, input.animalId, "viewer");
       return await db.select().from(feedingRecords)
         .where(eq(feedingRecords.animalId, input.animalId))
         .orderBy((r: any) => [r.feedDate]);
     }),
 
-  listByFarm: protectedProcedure
+  listByFarm: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) return [];
-      // This would require a join with animals table
-      // For now, return empty array
-      return [];
+      const rows = await db.select({ record: feedingRecords })
+        .from(feedingRecords)
+        .innerJoin(animals, eq(feedingRecords.animalId, animals.id))
+        .where(eq(animals.farmId, input.farmId))
+        .orderBy(desc(feedingRecords.feedDate));
+      return rows.map(row => row.record);
     }),
 
   record: protectedProcedure
@@ -34,9 +62,8 @@ export const feedingRouter = router({
       quantityKg: z.number().positive(),
       notes: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireAnimalAccess(ctx.user, input.animalId, "editor");
       return await db.insert(feedingRecords).values({
         animalId: input.animalId,
         feedDate: input.feedDate,
@@ -54,10 +81,9 @@ export const feedingRouter = router({
       quantityKg: z.number().positive().optional(),
       notes: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
-      
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireFeedingRecordAccess(ctx.user, input.id, "editor");
+
       const updates: any = {};
       if (input.feedDate) updates.feedDate = input.feedDate;
       if (input.feedType) updates.feedType = input.feedType;
@@ -71,17 +97,15 @@ export const feedingRouter = router({
 
   delete: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireFeedingRecordAccess(ctx.user, input.id, "editor");
       return await db.delete(feedingRecords).where(eq(feedingRecords.id, input.id));
     }),
 
   getCostAnalysis: protectedProcedure
     .input(z.object({ animalId: z.number(), startDate: z.date(), endDate: z.date() }))
-    .query(async ({ input }) => {
-      const db = await getDb();
-      if (!db) return null;
+    .query(async ({ ctx, input }) => {
+      const db = await requireAnimalAccess(ctx.user, input.animalId, "viewer");
 
       const records = await db.select().from(feedingRecords)
         .where(and(
@@ -107,9 +131,8 @@ export const feedingRouter = router({
 
   getNutritionalSummary: protectedProcedure
     .input(z.object({ animalId: z.number(), days: z.number().default(30) }))
-    .query(async ({ input }) => {
-      const db = await getDb();
-      if (!db) return null;
+    .query(async ({ ctx, input }) => {
+      const db = await requireAnimalAccess(ctx.user, input.animalId, "viewer");
 
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - input.days);
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
@@ -14,13 +14,14 @@ import {
   getAllExpenses,
   getAllRevenue,
 } from "./_core/financialUtils";
+import { recordInLedger } from "./services/ledgerService";
 
 export const financialRouter = router({
   // ============================================================================
   // EXPENSES MANAGEMENT
   // ============================================================================
   expenses: router({
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -33,7 +34,7 @@ export const financialRouter = router({
         return await getExpenses(input.farmId, input.startDate, input.endDate, input.category);
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(
         z.object({
           farmId: z.number(),
@@ -57,11 +58,11 @@ export const financialRouter = router({
           invoiceNumber: z.string().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
-        return await db.insert(farmExpenses).values({
+        const result = await db.insert(farmExpenses).values({
           farmId: input.farmId,
           category: input.category,
           amount: input.amount.toString(),
@@ -70,6 +71,8 @@ export const financialRouter = router({
           vendor: input.vendor,
           invoiceNumber: input.invoiceNumber,
         });
+        await recordInLedger("farm_expense", result[0].insertId, ctx.user.id);
+        return result;
       }),
 
     update: protectedProcedure
@@ -82,7 +85,7 @@ export const financialRouter = router({
           vendor: z.string().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
@@ -91,19 +94,23 @@ export const financialRouter = router({
         if (amount !== undefined) {
           updateData.amount = amount.toString();
         }
-        return await db.update(farmExpenses).set(updateData).where(eq(farmExpenses.id, id));
+        const result = await db.update(farmExpenses).set(updateData).where(eq(farmExpenses.id, id));
+        await recordInLedger("farm_expense", id, ctx.user.id);
+        return result;
       }),
 
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
-        return await db.delete(farmExpenses).where(eq(farmExpenses.id, input.id));
+        const result = await db.delete(farmExpenses).where(eq(farmExpenses.id, input.id));
+        await recordInLedger("farm_expense", input.id, ctx.user.id);
+        return result;
       }),
 
-    summary: protectedProcedure
+    summary: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -120,7 +127,7 @@ export const financialRouter = router({
   // REVENUE MANAGEMENT
   // ============================================================================
   revenue: router({
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -133,7 +140,7 @@ export const financialRouter = router({
         return await getRevenue(input.farmId, input.startDate, input.endDate, input.source);
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(
         z.object({
           farmId: z.number(),
@@ -146,11 +153,11 @@ export const financialRouter = router({
           notes: z.string().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
-        return await db.insert(farmRevenue).values({
+        const result = await db.insert(farmRevenue).values({
           farmId: input.farmId,
           source: input.source,
           amount: input.amount.toString(),
@@ -160,6 +167,8 @@ export const financialRouter = router({
           unit: input.unit,
           notes: input.notes,
         });
+        await recordInLedger("farm_revenue", result[0].insertId, ctx.user.id);
+        return result;
       }),
 
     update: protectedProcedure
@@ -172,7 +181,7 @@ export const financialRouter = router({
           notes: z.string().optional(),
         })
       )
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
@@ -181,19 +190,23 @@ export const financialRouter = router({
         if (amount !== undefined) {
           updateData.amount = amount.toString();
         }
-        return await db.update(farmRevenue).set(updateData).where(eq(farmRevenue.id, input.id));
+        const result = await db.update(farmRevenue).set(updateData).where(eq(farmRevenue.id, input.id));
+        await recordInLedger("farm_revenue", id, ctx.user.id);
+        return result;
       }),
 
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
-        return await db.delete(farmRevenue).where(eq(farmRevenue.id, input.id));
+        const result = await db.delete(farmRevenue).where(eq(farmRevenue.id, input.id));
+        await recordInLedger("farm_revenue", input.id, ctx.user.id);
+        return result;
       }),
 
-    summary: protectedProcedure
+    summary: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -210,7 +223,7 @@ export const financialRouter = router({
   // FINANCIAL ANALYTICS
   // ============================================================================
   analytics: router({
-    profitLoss: protectedProcedure
+    profitLoss: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -222,7 +235,7 @@ export const financialRouter = router({
         return await calculateProfitLoss(input.farmId, input.startDate, input.endDate);
       }),
 
-    monthlyTrend: protectedProcedure
+    monthlyTrend: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -1,9 +1,32 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
 import { eq, and, gte, lte } from "drizzle-orm";
 import { fishPonds } from "../drizzle/schema";
+import { AquacultureError } from "./services/aquaculture";
+import {
+  getFeedingSummary,
+  getLatestWaterQuality,
+  getPondHealth,
+  getStockBiomass,
+  listHarvests,
+  listStockings,
+  listWaterQuality,
+  recordFeeding,
+  recordStockEvent,
+  recordStocking,
+  recordWaterQuality,
+} from "./services/aquacultureService";
+
+async function aquacultureCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof AquacultureError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    throw error;
+  }
+}
 
 export const fishFarmingRouter = router({
   // ============================================================================
@@ -11,7 +34,7 @@ export const fishFarmingRouter = router({
   // ============================================================================
 
   ponds: router({
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         pondName: z.string(),
@@ -34,7 +57,7 @@ export const fishFarmingRouter = router({
         return await db.insert(fishPonds).values(values);
       }),
 
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
         status: z.string().optional(),
@@ -98,68 +121,72 @@ export const fishFarmingRouter = router({
   // WATER QUALITY MONITORING
   // ============================================================================
 
+  /**
+   * Readings are graded against the stocked species' safe ranges; ammonia
+   * is total ammonia nitrogen (TAN), from which the toxic un-ionized share
+   * is worked out
+   */
   waterQuality: router({
-    recordMeasurement: protectedProcedure
+    recordMeasurement: farmProcedure("editor")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
         measurementDate: z.date(),
-        temperature: z.number().optional(),
-        pH: z.number().optional(),
-        dissolvedOxygen: z.number().optional(),
-        ammonia: z.number().optional(),
-        nitrite: z.number().optional(),
-        nitrate: z.number().optional(),
-        turbidity: z.number().optional(),
-        notes: z.string().optional(),
+        temperature: z.number().min(-5).max(50).optional(),
+        pH: z.number().min(0).max(14).optional(),
+        dissolvedOxygen: z.number().min(0).max(50).optional(),
+        ammonia: z.number().min(0).max(1000).optional(),
+        nitrite: z.number().min(0).max(1000).optional(),
+        nitrate: z.number().min(0).max(10000).optional(),
+        turbidity: z.number().min(0).max(10000).optional(),
+        notes: z.string().max(2000).optional(),
       }))
-      .mutation(async ({ input }) => {
-        // Store water quality measurement
-        return {
-          success: true,
-          message: "Water quality measurement recorded",
-          pondId: input.pondId,
-        };
-      }),
-
-    getLatestMeasurement: protectedProcedure
+      .mutation(({ input, ctx }) =>
+        aquacultureCall(() =>
+          recordWaterQuality({
+            farmId: input.farmId,
+            pondId: input.pondId,
+            measuredAt: input.measurementDate,
+            temperatureC: input.temperature,
+            ph: input.pH,
+            dissolvedOxygenMgL: input.dissolvedOxygen,
+            totalAmmoniaMgL: input.ammonia,
+            nitriteMgL: input.nitrite,
+            nitrateMgL: input.nitrate,
+            turbidityNtu: input.turbidity,
+            notes: input.notes,
+            recordedBy: ctx.user.id,
+          })
+        )
+      ),
+
+    getLatestMeasurement: farmProcedure("viewer")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
       }))
-      .query(async ({ input }) => {
-        // Return latest water quality measurement
-        return {
-          pondId: input.pondId,
-          temperature: 0,
-          pH: 0,
-          dissolvedOxygen: 0,
-        };
-      }),
+      .query(({ input }) => aquacultureCall(() => getLatestWaterQuality(input.farmId, input.pondId))),
 
-    getMeasurementHistory: protectedProcedure
+    getMeasurementHistory: farmProcedure("viewer")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
         startDate: z.date(),
         endDate: z.date(),
-        limit: z.number().default(30),
+        limit: z.number().min(1).max(1000).default(30),
       }))
-      .query(async ({ input }) => {
-        // Return water quality history
-        return [];
-      }),
+      .query(({ input }) =>
+        aquacultureCall(() =>
+          listWaterQuality(input.farmId, input.pondId, { from: input.startDate, to: input.endDate }, input.limit)
+        )
+      ),
 
-    getHealthStatus: protectedProcedure
+    getHealthStatus: farmProcedure("viewer")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
       }))
-      .query(async ({ input }) => {
-        // Analyze water quality and return health status
-        return {
-          pondId: input.pondId,
-          status: "healthy", // healthy, warning, critical
-          issues: [],
-          recommendations: [],
-        };
-      }),
+      .query(({ input }) => aquacultureCall(() => getPondHealth(input.farmId, input.pondId))),
   }),
 
   // ============================================================================
@@ -167,66 +194,145 @@ export const fishFarmingRouter = router({
   // ============================================================================
 
   stocking: router({
-    recordStocking: protectedProcedure
+    recordStocking: farmProcedure("editor")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
         stockingDate: z.date(),
-        fishSpecies: z.string(),
-        quantity: z.number().positive(),
-        averageWeight: z.number().optional(),
-        source: z.string().optional(),
-        cost: z.number().optional(),
-        notes: z.string().optional(),
+        fishSpecies: z.string().min(1).max(100),
+        quantity: z.number().int().positive(),
+        averageWeight: z.number().positive().optional(), // g
+        targetWeight: z.number().positive().optional(), // g at harvest
+        source: z.string().max(255).optional(),
+        cost: z.number().min(0).optional(),
+        notes: z.string().max(2000).optional(),
       }))
-      .mutation(async ({ input }) => {
-        // Record stocking event
-        return {
-          success: true,
-          message: `Stocked ${input.quantity} fish in pond ${input.pondId}`,
-        };
-      }),
-
-    recordHarvest: protectedProcedure
+      .mutation(({ input }) =>
+        aquacultureCall(() =>
+          recordStocking({
+            farmId: input.farmId,
+            pondId: input.pondId,
+            stockingDate: input.stockingDate,
+            species: input.fishSpecies,
+            quantity: input.quantity,
+            averageWeightG: input.averageWeight,
+            targetWeightG: input.targetWeight,
+            source: input.source,
+            cost: input.cost,
+            notes: input.notes,
+          })
+        )
+      ),
+
+    recordMortality: farmProcedure("editor")
       .input(z.object({
-        pondId: z.number(),
+        farmId: z.number(),
+        stockingId: z.number(),
+        date: z.date(),
+        count: z.number().int().positive(),
+        cause: z.string().max(255).optional(),
+        notes: z.string().max(2000).optional(),
+      }))
+      .mutation(({ input, ctx }) =>
+        aquacultureCall(() =>
+          recordStockEvent({
+            farmId: input.farmId,
+            stockingId: input.stockingId,
+            eventType: "mortality",
+            eventDate: input.date,
+            fishCount: input.count,
+            cause: input.cause,
+            notes: input.notes,
+            recordedBy: ctx.user.id,
+          })
+        )
+      ),
+
+    /**
+     * Sample weighing: a netted sample's count and total or average weight
+     * updates the stocking's average weight
+     */
+    recordSampling: farmProcedure("editor")
+      .input(z.object({
+        farmId: z.number(),
+        stockingId: z.number(),
+        date: z.date(),
+        sampleCount: z.number().int().positive(),
+        totalWeightKg: z.number().positive().optional(),
+        averageWeightG: z.number().positive().optional(),
+        notes: z.string().max(2000).optional(),
+      }))
+      .mutation(({ input, ctx }) =>
+        aquacultureCall(() =>
+          recordStockEvent({
+            farmId: input.farmId,
+            stockingId: input.stockingId,
+            eventType: "sampling",
+            eventDate: input.date,
+            fishCount: input.sampleCount,
+            totalWeightKg: input.totalWeightKg,
+            averageWeightG: input.averageWeightG,
+            notes: input.notes,
+            recordedBy: ctx.user.id,
+          })
+        )
+      ),
+
+    recordHarvest: farmProcedure("editor")
+      .input(z.object({
+        farmId: z.number(),
+        stockingId: z.number(),
         harvestDate: z.date(),
-        fishSpecies: z.string(),
-        quantityHarvested: z.number().positive(),
-        totalWeight: z.number().optional(),
-        averageWeight: z.number().optional(),
-        mortalityRate: z.number().optional(),
-        salePrice: z.number().optional(),
-        notes: z.string().optional(),
+        quantityHarvested: z.number().int().positive(),
+        totalWeight: z.number().positive().optional(), // kg
+        averageWeight: z.number().positive().optional(), // g
+        salePrice: z.number().min(0).optional(), // per kg
+        notes: z.string().max(2000).optional(),
       }))
-      .mutation(async ({ input }) => {
-        // Record harvest event
-        const revenue = input.salePrice ? input.totalWeight ? input.salePrice * (input.totalWeight || 0) : 0 : 0;
-        return {
-          success: true,
-          message: `Harvested ${input.quantityHarvested} fish from pond ${input.pondId}`,
-          revenue,
-        };
-      }),
+      .mutation(({ input, ctx }) =>
+        aquacultureCall(() =>
+          recordStockEvent({
+            farmId: input.farmId,
+            stockingId: input.stockingId,
+            eventType: "harvest",
+            eventDate: input.harvestDate,
+            fishCount: input.quantityHarvested,
+            totalWeightKg: input.totalWeight,
+            averageWeightG: input.averageWeight,
+            salePricePerKg: input.salePrice,
+            notes: input.notes,
+            recordedBy: ctx.user.id,
+          })
+        )
+      ),
+
+    /**
+     * Headcount after losses, biomass, FCR, the day's ration and the
+     * projected harvest date for one stocking
+     */
+    getBiomass: farmProcedure("viewer")
+      .input(z.object({
+        farmId: z.number(),
+        stockingId: z.number(),
+        asOf: z.date().optional(),
+      }))
+      .query(({ input }) => aquacultureCall(() => getStockBiomass(input.farmId, input.stockingId, input.asOf))),
 
-    getStockingHistory: protectedProcedure
+    getStockingHistory: farmProcedure("viewer")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
-        limit: z.number().default(10),
+        limit: z.number().min(1).max(200).default(10),
       }))
-      .query(async ({ input }) => {
-        // Return stocking history
-        return [];
-      }),
+      .query(({ input }) => aquacultureCall(() => listStockings(input.farmId, input.pondId, input.limit))),
 
-    getHarvestHistory: protectedProcedure
+    getHarvestHistory: farmProcedure("viewer")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
-        limit: z.number().default(10),
+        limit: z.number().min(1).max(200).default(10),
       }))
-      .query(async ({ input }) => {
-        // Return harvest history
-        return [];
-      }),
+      .query(({ input }) => aquacultureCall(() => listHarvests(input.farmId, input.pondId, input.limit))),
   }),
 
   // ============================================================================
@@ -234,53 +340,49 @@ export const fishFarmingRouter = router({
   // ============================================================================
 
   feeding: router({
-    recordFeeding: protectedProcedure
+    recordFeeding: farmProcedure("editor")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
         feedingDate: z.date(),
-        feedType: z.string(),
-        quantity: z.number().positive(),
-        unit: z.string(), // kg, bags, etc
-        cost: z.number().optional(),
-        notes: z.string().optional(),
+        feedType: z.string().min(1).max(100),
+        quantityKg: z.number().positive(),
+        cost: z.number().min(0).optional(),
+        notes: z.string().max(2000).optional(),
       }))
-      .mutation(async ({ input }) => {
-        // Record feeding event
-        return {
-          success: true,
-          message: `Recorded feeding for pond ${input.pondId}`,
-        };
-      }),
+      .mutation(({ input }) => aquacultureCall(() => recordFeeding(input))),
 
-    getFeedingSchedule: protectedProcedure
+    /**
+     * Feed given over the period, with today's ration from the feeding
+     * tables for the fish in the pond
+     */
+    getFeedingSchedule: farmProcedure("viewer")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
         startDate: z.date(),
         endDate: z.date(),
       }))
-      .query(async ({ input }) => {
-        // Return feeding schedule
-        return {
-          pondId: input.pondId,
-          totalFeedQuantity: 0,
-          totalFeedCost: 0,
-          feedTypes: {},
-        };
-      }),
+      .query(({ input }) =>
+        aquacultureCall(() => getFeedingSummary(input.farmId, input.pondId, { from: input.startDate, to: input.endDate }))
+      ),
 
-    getFeedingCosts: protectedProcedure
+    getFeedingCosts: farmProcedure("viewer")
       .input(z.object({
+        farmId: z.number(),
         pondId: z.number(),
         startDate: z.date(),
         endDate: z.date(),
       }))
       .query(async ({ input }) => {
-        // Calculate feeding costs
+        const summary = await aquacultureCall(() =>
+          getFeedingSummary(input.farmId, input.pondId, { from: input.startDate, to: input.endDate })
+        );
         return {
-          pondId: input.pondId,
-          totalCost: 0,
-          averageDailyCost: 0,
-          costPerKg: 0,
+          pondId: summary.pondId,
+          totalCost: summary.totalCost,
+          averageDailyCost: summary.averageDailyCost,
+          costPerKg: summary.costPerKgFeed,
         };
       }),
   }),
@@ -349,7 +451,7 @@ export const fishFarmingRouter = router({
         };
       }),
 
-    getFarmFishingStats: protectedProcedure
+    getFarmFishingStats: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
       }))
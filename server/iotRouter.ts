@@ -1,12 +1,87 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure, requireFarmAccess } from "./_core/trpc";
 import { z } from "zod";
-import { iotDevices, sensorReadings, alerts } from "../drizzle/schema";
+import { iotDevices, iotDeviceKeys, sensorReadings, alerts, sensorAlertRules } from "../drizzle/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
+import type { TrpcContext } from "./_core/context";
+import type { FarmRole } from "./_core/farmAccess";
+import { generateDeviceKey, ingestReadings, parseJsonBatch } from "./services/iotIngestionService";
+import { getSensorHistory } from "./services/sensorRollupService";
+
+const alertRuleInput = z.object({
+  deviceId: z.number().nullable().optional(),
+  readingType: z.string().min(1).max(100).transform(v => v.trim().toLowerCase()),
+  name: z.string().min(1).max(255),
+  minValue: z.number().nullable().optional(),
+  maxValue: z.number().nullable().optional(),
+  maxRateOfChange: z.number().positive().nullable().optional(),
+  staleAfterMinutes: z.number().int().positive().nullable().optional(),
+  hysteresis: z.number().min(0).default(0),
+  severity: z.enum(["info", "warning", "critical"]).default("warning"),
+  isActive: z.boolean().default(true),
+});
+
+function toRuleValues(input: z.infer<typeof alertRuleInput>) {
+  const decimal = (value: number | null | undefined) => (value === null || value === undefined ? null : value.toString());
+  if (input.minValue == null && input.maxValue == null && input.maxRateOfChange == null && input.staleAfterMinutes == null) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A rule needs a threshold, rate limit or staleness check" });
+  }
+  if (input.minValue != null && input.maxValue != null && input.minValue >= input.maxValue) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "minValue must be below maxValue" });
+  }
+  return {
+    deviceId: input.deviceId ?? null,
+    readingType: input.readingType,
+    name: input.name,
+    minValue: decimal(input.minValue),
+    maxValue: decimal(input.maxValue),
+    maxRateOfChange: decimal(input.maxRateOfChange),
+    staleAfterMinutes: input.staleAfterMinutes ?? null,
+    hysteresis: input.hysteresis.toString(),
+    severity: input.severity,
+    isActive: input.isActive,
+  };
+}
+
+async function requireFarmDevice(farmId: number, deviceId: number) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+  const [device] = await db
+    .select()
+    .from(iotDevices)
+    .where(and(eq(iotDevices.id, deviceId), eq(iotDevices.farmId, farmId)));
+  if (!device) throw new TRPCError({ code: "NOT_FOUND", message: "Device not found" });
+
+  return { db, device };
+}
+
+/** Procedures addressed by device id check access on the device's farm */
+async function requireDeviceAccess(user: NonNullable<TrpcContext["user"]>, deviceId: number, minRole: FarmRole) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+  const [device] = await db.select().from(iotDevices).where(eq(iotDevices.id, deviceId)).limit(1);
+  if (!device) throw new TRPCError({ code: "NOT_FOUND", message: "Device not found" });
+  await requireFarmAccess(user, [device.farmId], minRole);
+
+  return { db, device };
+}
+
+async function requireAlertAccess(user: NonNullable<TrpcContext["user"]>, alertId: number, minRole: FarmRole) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+  const [alert] = await db.select({ farmId: alerts.farmId }).from(alerts).where(eq(alerts.id, alertId)).limit(1);
+  if (!alert) throw new TRPCError({ code: "NOT_FOUND", message: "Alert not found" });
+  await requireFarmAccess(user, [alert.farmId], minRole);
+
+  return db;
+}
 
 export const iotRouter = router({
-  registerDevice: protectedProcedure
+  registerDevice: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -28,7 +103,7 @@ export const iotRouter = router({
       return { success: true };
     }),
 
-  listDevices: protectedProcedure
+  listDevices: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       const db = await getDb();
@@ -42,20 +117,14 @@ export const iotRouter = router({
   getDevice: protectedProcedure
     .input(z.object({ deviceId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const db = await getDb();
-      if (!db) return null;
-      const devices = await db
-        .select()
-        .from(iotDevices)
-        .where(eq(iotDevices.id, input.deviceId));
-      return devices[0] || null;
+      const { device } = await requireDeviceAccess(ctx.user, input.deviceId, "viewer");
+      return device;
     }),
 
   updateDeviceStatus: protectedProcedure
     .input(z.object({ deviceId: z.number(), status: z.enum(["active", "inactive", "maintenance", "retired"]) }))
     .mutation(async ({ ctx, input }) => {
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      const { db } = await requireDeviceAccess(ctx.user, input.deviceId, "editor");
 
       return await db
         .update(iotDevices)
@@ -63,36 +132,32 @@ export const iotRouter = router({
         .where(eq(iotDevices.id, input.deviceId));
     }),
 
-  recordSensorReading: protectedProcedure
+  // Manual readings go through the same parsing and de-duplicating insert as device uploads
+  recordSensorReading: farmProcedure("editor")
     .input(
       z.object({
+        farmId: z.number(),
         deviceId: z.number(),
         value: z.number(),
         unit: z.string(),
         readingType: z.string().default("sensor_reading"),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+    .mutation(async ({ input }) => {
+      const { device } = await requireFarmDevice(input.farmId, input.deviceId);
 
-      await db.insert(sensorReadings).values({
-        deviceId: input.deviceId,
-        value: input.value.toString(),
-        unit: input.unit,
-        readingType: input.readingType,
-        readingTimestamp: new Date(),
-      });
-
-      // Threshold checking will be implemented via notification preferences
-      return { success: true };
+      const parsed = parseJsonBatch([{ type: input.readingType, value: input.value, unit: input.unit }]);
+      if (parsed.rejected.length) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid reading: ${parsed.rejected[0].reason}` });
+      }
+      const { accepted, duplicates } = await ingestReadings(device, parsed);
+      return { success: true, accepted, duplicates };
     }),
 
   getSensorReadings: protectedProcedure
     .input(z.object({ deviceId: z.number(), limit: z.number().default(100) }))
     .query(async ({ ctx, input }) => {
-      const db = await getDb();
-      if (!db) return [];
+      const { db } = await requireDeviceAccess(ctx.user, input.deviceId, "viewer");
       return await db
         .select()
         .from(sensorReadings)
@@ -101,9 +166,140 @@ export const iotRouter = router({
         .limit(input.limit);
     }),
 
+  // Charting history: raw rows for short windows, hourly/daily rollups for longer ones
+  getSensorHistory: farmProcedure("viewer")
+    .input(
+      z.object({
+        farmId: z.number(),
+        deviceId: z.number(),
+        from: z.date(),
+        to: z.date().optional(),
+        readingType: z.string().optional(),
+        resolution: z.enum(["auto", "raw", "hour", "day"]).default("auto"),
+      })
+    )
+    .query(async ({ input }) => {
+      const to = input.to ?? new Date();
+      if (input.from.getTime() >= to.getTime()) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "from must be before to" });
+      }
+      const { device } = await requireFarmDevice(input.farmId, input.deviceId);
+      return await getSensorHistory({
+        deviceId: device.id,
+        from: input.from,
+        to,
+        readingType: input.readingType,
+        resolution: input.resolution,
+      });
+    }),
+
+
+  // Device API keys used by POST /api/iot/ingest. The plain key is only
+  // returned from createDeviceKey; afterwards just its prefix is visible.
+  createDeviceKey: farmProcedure("admin")
+    .input(z.object({ farmId: z.number(), deviceId: z.number(), label: z.string().max(100).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const { db, device } = await requireFarmDevice(input.farmId, input.deviceId);
+      const { key, keyPrefix, keyHash } = generateDeviceKey();
+
+      await db.insert(iotDeviceKeys).values({
+        deviceId: device.id,
+        keyPrefix,
+        keyHash,
+        label: input.label,
+        createdBy: ctx.user.id,
+      });
+      return { deviceSerial: device.deviceSerial, key, keyPrefix };
+    }),
+
+  listDeviceKeys: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), deviceId: z.number() }))
+    .query(async ({ input }) => {
+      const { db, device } = await requireFarmDevice(input.farmId, input.deviceId);
+      return await db
+        .select({
+          id: iotDeviceKeys.id,
+          keyPrefix: iotDeviceKeys.keyPrefix,
+          label: iotDeviceKeys.label,
+          lastUsedAt: iotDeviceKeys.lastUsedAt,
+          revokedAt: iotDeviceKeys.revokedAt,
+          createdAt: iotDeviceKeys.createdAt,
+        })
+        .from(iotDeviceKeys)
+        .where(eq(iotDeviceKeys.deviceId, device.id))
+        .orderBy(desc(iotDeviceKeys.createdAt));
+    }),
 
+  revokeDeviceKey: farmProcedure("admin")
+    .input(z.object({ farmId: z.number(), deviceId: z.number(), keyId: z.number() }))
+    .mutation(async ({ input }) => {
+      const { db, device } = await requireFarmDevice(input.farmId, input.deviceId);
+      await db
+        .update(iotDeviceKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(iotDeviceKeys.id, input.keyId), eq(iotDeviceKeys.deviceId, device.id)));
+      return { success: true };
+    }),
 
-  getAlerts: protectedProcedure
+  listAlertRules: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) return [];
+      return await db
+        .select()
+        .from(sensorAlertRules)
+        .where(eq(sensorAlertRules.farmId, input.farmId))
+        .orderBy(desc(sensorAlertRules.createdAt));
+    }),
+
+  createAlertRule: farmProcedure("editor")
+    .input(alertRuleInput.extend({ farmId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      if (input.deviceId) await requireFarmDevice(input.farmId, input.deviceId);
+
+      await db.insert(sensorAlertRules).values({
+        ...toRuleValues(input),
+        farmId: input.farmId,
+        createdBy: ctx.user.id,
+      });
+      return { success: true };
+    }),
+
+  updateAlertRule: farmProcedure("editor")
+    .input(alertRuleInput.extend({ farmId: z.number(), ruleId: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      if (input.deviceId) await requireFarmDevice(input.farmId, input.deviceId);
+
+      await db
+        .update(sensorAlertRules)
+        .set(toRuleValues(input))
+        .where(and(eq(sensorAlertRules.id, input.ruleId), eq(sensorAlertRules.farmId, input.farmId)));
+      return { success: true };
+    }),
+
+  deleteAlertRule: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), ruleId: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+      await db
+        .delete(sensorAlertRules)
+        .where(and(eq(sensorAlertRules.id, input.ruleId), eq(sensorAlertRules.farmId, input.farmId)));
+      // Alerts raised by the rule can no longer resolve themselves
+      await db
+        .update(alerts)
+        .set({ isResolved: true, resolvedAt: new Date() })
+        .where(and(eq(alerts.ruleId, input.ruleId), eq(alerts.farmId, input.farmId), eq(alerts.isResolved, false)));
+      return { success: true };
+    }),
+
+  getAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       const db = await getDb();
@@ -118,20 +314,18 @@ export const iotRouter = router({
   getDeviceAlerts: protectedProcedure
     .input(z.object({ deviceId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const db = await getDb();
-      if (!db) return [];
+      const { db, device } = await requireDeviceAccess(ctx.user, input.deviceId, "viewer");
       return await db
         .select()
         .from(alerts)
-        .where(eq(alerts.deviceId, input.deviceId))
+        .where(and(eq(alerts.deviceId, device.id), eq(alerts.farmId, device.farmId)))
         .orderBy(desc(alerts.createdAt));
     }),
 
   resolveAlert: protectedProcedure
     .input(z.object({ alertId: z.number() }))
     .mutation(async ({ ctx, input }) => {
-      const db = await getDb();
-      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      const db = await requireAlertAccess(ctx.user, input.alertId, "editor");
 
       return await db
         .update(alerts)
@@ -139,7 +333,7 @@ export const iotRouter = router({
         .where(eq(alerts.id, input.alertId));
     }),
 
-  getUnresolvedAlerts: protectedProcedure
+  getUnresolvedAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       const db = await getDb();
@@ -0,0 +1,116 @@
+import { router, farmProcedure } from "./_core/trpc";
+import { z } from "zod";
+import { irrigationEvents, irrigationRecommendations, irrigationZones } from "../drizzle/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { getDb } from "./db";
+import { TRPCError } from "@trpc/server";
+import { stopZoneIrrigation } from "./services/irrigationScheduler";
+
+async function requireFarmZone(farmId: number, zoneId: number) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+  const [zone] = await db
+    .select()
+    .from(irrigationZones)
+    .where(and(eq(irrigationZones.id, zoneId), eq(irrigationZones.farmId, farmId)));
+  if (!zone) throw new TRPCError({ code: "NOT_FOUND", message: "Irrigation zone not found" });
+
+  return { db, zone };
+}
+
+export const irrigationRouter = router({
+  listZones: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) return [];
+      return await db.select().from(irrigationZones).where(eq(irrigationZones.farmId, input.farmId));
+    }),
+
+  // Auto mode lets the scheduler open the zone's valve on its own
+  updateZoneAutomation: farmProcedure("admin")
+    .input(
+      z.object({
+        farmId: z.number(),
+        zoneId: z.number(),
+        controlMode: z.enum(["manual", "auto"]),
+        valveId: z.string().min(1).max(100).nullable().optional(),
+        flowRateLitersPerMin: z.number().positive().nullable().optional(),
+        maxDailyLiters: z.number().positive().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const { db, zone } = await requireFarmZone(input.farmId, input.zoneId);
+
+      const valveId = input.valveId === undefined ? zone.valveId : input.valveId;
+      const maxDailyLiters = input.maxDailyLiters === undefined ? zone.maxDailyLiters : input.maxDailyLiters?.toString() ?? null;
+      if (input.controlMode === "auto" && !valveId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Auto mode needs a valve" });
+      }
+      if (input.controlMode === "auto" && !maxDailyLiters) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Auto mode needs a daily volume cap" });
+      }
+
+      await db
+        .update(irrigationZones)
+        .set({
+          controlMode: input.controlMode,
+          valveId,
+          maxDailyLiters,
+          flowRateLitersPerMin:
+            input.flowRateLitersPerMin === undefined ? zone.flowRateLitersPerMin : input.flowRateLitersPerMin?.toString() ?? null,
+        })
+        .where(eq(irrigationZones.id, zone.id));
+      return { success: true };
+    }),
+
+  listEvents: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), zoneId: z.number().optional(), limit: z.number().min(1).max(500).default(50) }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) return [];
+      return await db
+        .select({ event: irrigationEvents, zoneName: irrigationZones.zoneName })
+        .from(irrigationEvents)
+        .innerJoin(irrigationZones, eq(irrigationEvents.zoneId, irrigationZones.id))
+        .where(
+          and(
+            eq(irrigationZones.farmId, input.farmId),
+            input.zoneId ? eq(irrigationEvents.zoneId, input.zoneId) : undefined
+          )
+        )
+        .orderBy(desc(irrigationEvents.startTime))
+        .limit(input.limit);
+    }),
+
+  listRecommendations: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), limit: z.number().min(1).max(200).default(50) }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) return [];
+      const zones = await db
+        .select({ id: irrigationZones.id })
+        .from(irrigationZones)
+        .where(eq(irrigationZones.farmId, input.farmId));
+      if (zones.length === 0) return [];
+      return await db
+        .select()
+        .from(irrigationRecommendations)
+        .where(inArray(irrigationRecommendations.zoneId, zones.map(zone => zone.id)))
+        .orderBy(desc(irrigationRecommendations.createdAt))
+        .limit(input.limit);
+    }),
+
+  stopZone: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), zoneId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { zone } = await requireFarmZone(input.farmId, input.zoneId);
+      try {
+        const stopped = await stopZoneIrrigation(zone.id, `Stopped manually by user ${ctx.user.id}`);
+        return { stopped };
+      } catch (error) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `Could not stop zone: ${(error as Error).message}` });
+      }
+    }),
+});
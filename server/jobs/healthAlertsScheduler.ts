@@ -1,7 +1,7 @@
-import cron from "node-cron";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
 import { notifyOwner } from "../_core/notification";
+import { defineCronJob, registerJobHandler, unregisterJobHandler } from "../services/jobQueueService";
 
 interface HealthAlert {
   id: number;
@@ -16,7 +16,7 @@ interface HealthAlert {
 
 export class HealthAlertsScheduler {
   private static instance: HealthAlertsScheduler;
-  private job: cron.ScheduledTask | null = null;
+  private started = false;
 
   private constructor() {}
 
@@ -28,24 +28,27 @@ export class HealthAlertsScheduler {
   }
 
   start(): void {
-    if (this.job) {
+    if (this.started) {
       console.log("[HealthAlertsScheduler] Already running");
       return;
     }
+    this.started = true;
 
-    // Run daily at 8:00 AM
-    this.job = cron.schedule("0 8 * * *", async () => {
+    registerJobHandler("health.dailyAlerts", async () => {
       console.log("[HealthAlertsScheduler] Running health alerts check...");
       await this.checkAndNotifyAlerts();
     });
 
-    console.log("[HealthAlertsScheduler] Started - runs daily at 8:00 AM");
+    // Run daily at 8:00 AM from the job queue
+    defineCronJob("daily-health-alerts", "0 8 * * *", "health.dailyAlerts")
+      .then(() => console.log("[HealthAlertsScheduler] Started - runs daily at 8:00 AM"))
+      .catch((error) => console.error("[HealthAlertsScheduler] Could not schedule:", error));
   }
 
   stop(): void {
-    if (this.job) {
-      this.job.stop();
-      this.job = null;
+    if (this.started) {
+      unregisterJobHandler("health.dailyAlerts");
+      this.started = false;
       console.log("[HealthAlertsScheduler] Stopped");
     }
   }
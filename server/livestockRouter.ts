@@ -3,7 +3,19 @@ import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
 import { eq, and, gte, lte, inArray } from "drizzle-orm";
 import { animals, animalHealthRecords, breedingRecords, feedingRecords, performanceMetrics, farms } from "../drizzle/schema";
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
+import { WithdrawalError } from "./services/withdrawal";
+import { assertAnimalsClear, productionHold } from "./services/withdrawalService";
+
+/** Selling or culling an animal sends it to slaughter, so its meat withdrawal must be over */
+export async function assertClearForSale(animalId: number) {
+  try {
+    await assertAnimalsClear([animalId], "meat");
+  } catch (error) {
+    if (error instanceof WithdrawalError) throw new TRPCError({ code: "PRECONDITION_FAILED", message: error.message });
+    throw error;
+  }
+}
 
 export const livestockRouter = router({
   // Consolidated data for all owner's farms
@@ -49,7 +61,7 @@ export const livestockRouter = router({
   // ============================================================================
 
   animals: router({
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         typeId: z.number(),
@@ -68,7 +80,7 @@ export const livestockRouter = router({
         });
       }),
 
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
         status: z.enum(["active", "sold", "culled", "deceased"]).optional(),
@@ -97,6 +109,7 @@ export const livestockRouter = router({
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
         const { id, ...updates } = input;
+        if (updates.status === "sold" || updates.status === "culled") await assertClearForSale(id);
         return await db.update(animals).set(updates).where(eq(animals.id, id));
       }),
 
@@ -184,7 +197,7 @@ export const livestockRouter = router({
         });
       }),
 
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
         outcome: z.enum(["pending", "successful", "unsuccessful", "aborted"]).optional(),
@@ -317,10 +330,16 @@ export const livestockRouter = router({
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
+        const hold = await productionHold(
+          input.animalId,
+          { milk: Boolean(input.milkYieldLiters), eggs: Boolean(input.eggCount) },
+          input.metricDate
+        );
         const values = {
           ...input,
           weightKg: input.weightKg ? input.weightKg.toString() : null,
           milkYieldLiters: input.milkYieldLiters ? input.milkYieldLiters.toString() : null,
+          withdrawalHold: hold.held,
         };
         return await db.insert(performanceMetrics).values(values);
       }),
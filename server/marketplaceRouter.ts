@@ -1,7 +1,8 @@
-import { router, protectedProcedure, publicProcedure } from "./_core/trpc";
+import { router, protectedProcedure, publicProcedure, adminProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
+import { hasFarmRole, loadFarmAccess } from "./_core/farmAccess";
 import {
   marketplaceProducts,
   marketplaceCart,
@@ -16,6 +17,8 @@ import {
   marketplaceOrderReviews,
   marketplaceOrderDisputes,
   marketplaceSellerPayouts,
+  marketplaceEscrows,
+  marketplacePayoutBatches,
   marketplaceWishlist,
   sellerVerifications,
   inventoryAlerts,
@@ -24,6 +27,27 @@ import {
 import { eq, and, desc, like, inArray } from "drizzle-orm";
 import { storagePut } from "./storage";
 import { sendOrderNotificationToBuyer, sendOrderNotificationToSeller, validateGhanaPhone, sendSMS } from "./_core/sms";
+import {
+  applyEscrowEvent,
+  buildPayoutBatches,
+  EscrowTransitionError,
+  getEscrowForOrder,
+  markPayoutBatch,
+  startReleaseTimer,
+  type EscrowEvent,
+} from "./services/escrowService";
+import { listingWithdrawalFlag } from "./services/withdrawalService";
+
+async function applyEscrow(orderId: number, event: EscrowEvent, reason: string) {
+  try {
+    return await applyEscrowEvent(orderId, event, reason);
+  } catch (error) {
+    if (error instanceof EscrowTransitionError) {
+      throw new TRPCError({ code: "PRECONDITION_FAILED", message: error.message });
+    }
+    throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `Escrow update failed: ${(error as Error).message}` });
+  }
+}
 
 export const marketplaceRouter = router({
   // ========== IMAGE UPLOAD ==========
@@ -106,10 +130,31 @@ export const marketplaceRouter = router({
       unit: z.string(),
       imageUrl: z.string().optional(),
       imageUrls: z.array(z.string()).optional(), // Multiple images
+      // Seller confirms the product does not come from animals in drug withdrawal
+      withdrawalConfirmed: z.boolean().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+
+      // Sellers need not have a farm, but may only list under one they can edit
+      if (input.farmId) {
+        const access = await loadFarmAccess(ctx.user, input.farmId);
+        if (!access) throw new TRPCError({ code: "NOT_FOUND", message: "Farm not found" });
+        if (!hasFarmRole(access.role, "editor")) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "No access to this farm" });
+        }
+      }
+
+      if (input.farmId && !input.withdrawalConfirmed) {
+        const flag = await listingWithdrawalFlag(input.farmId, input.category, input.productType);
+        if (flag) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: `${flag.animalCount} animal(s) on this farm are in ${flag.product} withdrawal until ${flag.clearAt.toISOString().slice(0, 10)}. Confirm this product does not come from them to list it.`,
+          });
+        }
+      }
       
       const result = await db.insert(marketplaceProducts).values({
         sellerId: ctx.user.id,
@@ -410,6 +455,16 @@ export const marketplaceRouter = router({
         .set({ status: input.status })
         .where(and(eq(marketplaceOrders.id, input.orderId), eq(marketplaceOrders.sellerId, ctx.user.id)));
 
+      if (result[0].affectedRows > 0) {
+        const escrow = await getEscrowForOrder(input.orderId);
+        if (escrow?.status === "held" && input.status === "delivered") {
+          // The buyer can still confirm or dispute before the deadline
+          await startReleaseTimer(input.orderId);
+        } else if (escrow?.status === "held" && input.status === "cancelled") {
+          await applyEscrow(input.orderId, "order_cancelled", `Cancelled by seller ${ctx.user.id}`);
+        }
+      }
+
       // Send SMS notification to buyer about status change
       const order = await db.select().from(marketplaceOrders).where(eq(marketplaceOrders.id, input.orderId)).limit(1);
       if (order[0]) {
@@ -456,6 +511,11 @@ export const marketplaceRouter = router({
       const result = await db.update(marketplaceOrders)
         .set({ status: "cancelled" })
         .where(eq(marketplaceOrders.id, input.orderId));
+
+      const escrow = await getEscrowForOrder(input.orderId);
+      if (escrow?.status === "held") {
+        await applyEscrow(input.orderId, "order_cancelled", `Cancelled by buyer ${ctx.user.id}`);
+      }
       
       // Send SMS notification to seller about cancellation
       const seller = await db.select().from(users)
@@ -476,6 +536,37 @@ export const marketplaceRouter = router({
       return { success: true, orderNumber: order[0].orderNumber };
     }),
 
+  // Buyer confirms receipt, releasing the escrowed payment to the seller
+  confirmDelivery: protectedProcedure
+    .input(z.object({ orderId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+
+      const [order] = await db.select().from(marketplaceOrders)
+        .where(and(
+          eq(marketplaceOrders.id, input.orderId),
+          eq(marketplaceOrders.buyerId, ctx.user.id),
+          inArray(marketplaceOrders.status, ["shipped", "delivered"])
+        ))
+        .limit(1);
+      if (!order) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Order not found or not yet shipped" });
+      }
+
+      if (order.status !== "delivered") {
+        await db.update(marketplaceOrders)
+          .set({ status: "delivered", deliveryDate: new Date() })
+          .where(eq(marketplaceOrders.id, order.id));
+      }
+
+      const escrow = await getEscrowForOrder(order.id);
+      if (escrow?.status === "held") {
+        await applyEscrow(order.id, "delivery_confirmed", `Delivery confirmed by buyer ${ctx.user.id}`);
+      }
+      return { success: true, released: escrow?.status === "held" };
+    }),
+
   // ========== ORDER REVIEWS ==========
   createOrderReview: protectedProcedure
     .input(z.object({
@@ -642,8 +733,14 @@ export const marketplaceRouter = router({
         evidence: input.evidence ? JSON.stringify(input.evidence) : null,
         status: "pending",
       });
+
+      // Funds still in escrow stay put until the dispute is ruled on
+      const escrow = await getEscrowForOrder(input.orderId);
+      if (escrow?.status === "held") {
+        await applyEscrow(input.orderId, "dispute_opened", `Dispute opened: ${input.reason}`);
+      }
       
-      return { success: true };
+      return { success: true, fundsFrozen: escrow?.status === "held" };
     }),
 
   listDisputes: protectedProcedure
@@ -667,16 +764,36 @@ export const marketplaceRouter = router({
       }
     }),
 
-  resolveDispute: protectedProcedure
+  resolveDispute: adminProcedure
     .input(z.object({
       disputeId: z.number(),
       status: z.enum(["resolved", "rejected"]),
       resolution: z.string(),
       adminNotes: z.string().optional(),
+      // Defaults: a rejected dispute releases to the seller, a resolved one refunds the buyer
+      outcome: z.enum(["release_to_seller", "refund_buyer"]).optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+
+      const [dispute] = await db.select().from(marketplaceOrderDisputes)
+        .where(eq(marketplaceOrderDisputes.id, input.disputeId))
+        .limit(1);
+      if (!dispute) throw new TRPCError({ code: "NOT_FOUND", message: "Dispute not found" });
+
+      const outcome = input.outcome ?? (input.status === "rejected" ? "release_to_seller" : "refund_buyer");
+      const escrow = await getEscrowForOrder(dispute.orderId);
+      if (escrow?.status === "frozen") {
+        if (outcome === "refund_buyer") {
+          await applyEscrow(dispute.orderId, "ruling_refund", `Dispute ${dispute.id} ruled for the buyer`);
+          await db.update(marketplaceOrders)
+            .set({ status: "refunded" })
+            .where(eq(marketplaceOrders.id, dispute.orderId));
+        } else {
+          await applyEscrow(dispute.orderId, "ruling_release", `Dispute ${dispute.id} ruled for the seller`);
+        }
+      }
       
       // Update dispute
       await db.update(marketplaceOrderDisputes)
@@ -689,11 +806,13 @@ export const marketplaceRouter = router({
         })
         .where(eq(marketplaceOrderDisputes.id, input.disputeId));
       
-      return { success: true };
+      return { success: true, escrow: escrow?.status === "frozen" ? outcome : null };
     }),
 
   // ========== TRANSACTIONS ==========
-  recordTransaction: protectedProcedure
+  // Admin bookkeeping for offline payments: records the money only. The order's payment status
+  // and escrow are driven solely by provider-verified payments in paymentService.
+  recordTransaction: adminProcedure
     .input(z.object({
       orderId: z.number(),
       amount: z.number().positive(),
@@ -713,11 +832,6 @@ export const marketplaceRouter = router({
         completedAt: new Date(),
       });
       
-      // Update order payment status
-      await db.update(marketplaceOrders)
-        .set({ paymentStatus: "paid" })
-        .where(eq(marketplaceOrders.id, input.orderId));
-      
       return result;
     }),
 
@@ -1045,51 +1159,27 @@ export const marketplaceRouter = router({
   calculatePendingPayouts: protectedProcedure
     .query(async ({ ctx }) => {
       const db = await getDb();
-      if (!db) return { pendingAmount: 0, deliveredOrders: 0 };
-      
-      // Get seller's products
-      const sellerProducts = await db.select({ id: marketplaceProducts.id })
-        .from(marketplaceProducts)
-        .where(eq(marketplaceProducts.sellerId, ctx.user.id));
+      if (!db) return { pendingAmount: 0, deliveredOrders: 0, heldInEscrow: 0, frozenInDisputes: 0 };
       
-      const productIds = sellerProducts.map(p => p.id);
-      if (productIds.length === 0) return { pendingAmount: 0, deliveredOrders: 0 };
+      const escrows = await db.select().from(marketplaceEscrows)
+        .where(eq(marketplaceEscrows.sellerId, ctx.user.id));
       
-      // Find delivered orders containing seller's products
-      const orderItems = await db.select({ orderId: marketplaceOrderItems.orderId })
-        .from(marketplaceOrderItems)
-        .where(inArray(marketplaceOrderItems.productId, productIds));
-      
-      const orderIds = Array.from(new Set(orderItems.map(item => item.orderId)));
-      if (orderIds.length === 0) return { pendingAmount: 0, deliveredOrders: 0 };
-      
-      const deliveredOrders = await db.select()
-        .from(marketplaceOrders)
-        .where(and(
-          inArray(marketplaceOrders.id, orderIds),
-          eq(marketplaceOrders.status, "delivered")
-        ));
-      
-      // Check which orders don't have payouts yet
-      const existingPayouts = await db.select({ orderId: marketplaceSellerPayouts.orderId })
-        .from(marketplaceSellerPayouts)
-        .where(eq(marketplaceSellerPayouts.sellerId, ctx.user.id));
-      
-      const paidOrderIds = new Set(existingPayouts.map(p => p.orderId));
-      const unpaidOrders = deliveredOrders.filter(o => !paidOrderIds.has(o.id));
-      
-      const pendingAmount = unpaidOrders.reduce((sum, order) => sum + parseFloat(order.totalAmount), 0);
+      // Released funds not yet in a payout batch; the seller's share after commission
+      const unbatched = escrows.filter(e => e.status === "released" && e.payoutBatchId === null);
+      const sum = (rows: typeof escrows) => rows.reduce((total, e) => total + parseFloat(e.sellerAmount), 0);
       
       return { 
-        pendingAmount, 
-        deliveredOrders: unpaidOrders.length 
+        pendingAmount: sum(unbatched), 
+        deliveredOrders: unbatched.length,
+        heldInEscrow: sum(escrows.filter(e => e.status === "held")),
+        frozenInDisputes: sum(escrows.filter(e => e.status === "frozen")),
       };
     }),
 
   getPayoutSummary: protectedProcedure
     .query(async ({ ctx }) => {
       const db = await getDb();
-      if (!db) return { totalEarnings: 0, pendingBalance: 0, paidOut: 0 };
+      if (!db) return { totalEarnings: 0, pendingBalance: 0, paidOut: 0, heldInEscrow: 0 };
       
       const payouts = await db.select().from(marketplaceSellerPayouts)
         .where(eq(marketplaceSellerPayouts.sellerId, ctx.user.id));
@@ -1102,47 +1192,82 @@ export const marketplaceRouter = router({
         .filter(p => p.status === "completed")
         .reduce((sum, p) => sum + parseFloat(p.amount), 0);
       
-      // Get pending from delivered orders
-      const pendingData = await db.select({ id: marketplaceProducts.id })
-        .from(marketplaceProducts)
-        .where(eq(marketplaceProducts.sellerId, ctx.user.id));
-      
-      const productIds = pendingData.map(p => p.id);
-      let unpaidAmount = 0;
-      
-      if (productIds.length > 0) {
-        const orderItems = await db.select({ orderId: marketplaceOrderItems.orderId })
-          .from(marketplaceOrderItems)
-          .where(inArray(marketplaceOrderItems.productId, productIds));
-        
-        const orderIds = Array.from(new Set(orderItems.map(item => item.orderId)));
-        
-        if (orderIds.length > 0) {
-          const deliveredOrders = await db.select()
-            .from(marketplaceOrders)
-            .where(and(
-              inArray(marketplaceOrders.id, orderIds),
-              eq(marketplaceOrders.status, "delivered")
-            ));
-          
-          const existingPayouts = await db.select({ orderId: marketplaceSellerPayouts.orderId })
-            .from(marketplaceSellerPayouts)
-            .where(eq(marketplaceSellerPayouts.sellerId, ctx.user.id));
-          
-          const paidOrderIds = new Set(existingPayouts.map(p => p.orderId));
-          const unpaidOrders = deliveredOrders.filter(o => !paidOrderIds.has(o.id));
-          
-          unpaidAmount = unpaidOrders.reduce((sum, order) => sum + parseFloat(order.totalAmount), 0);
-        }
-      }
+      // Released escrow waiting for the next payout batch
+      const escrows = await db.select().from(marketplaceEscrows)
+        .where(eq(marketplaceEscrows.sellerId, ctx.user.id));
+      const unpaidAmount = escrows
+        .filter(e => e.status === "released" && e.payoutBatchId === null)
+        .reduce((sum, e) => sum + parseFloat(e.sellerAmount), 0);
+      const heldInEscrow = escrows
+        .filter(e => e.status === "held" || e.status === "frozen")
+        .reduce((sum, e) => sum + parseFloat(e.sellerAmount), 0);
       
       return {
         totalEarnings: completed + pending + unpaidAmount,
         pendingBalance: pending + unpaidAmount,
         paidOut: completed,
+        heldInEscrow,
       };
     }),
 
+  getOrderEscrow: protectedProcedure
+    .input(z.object({ orderId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const escrow = await getEscrowForOrder(input.orderId);
+      if (!escrow) return null;
+      if (escrow.buyerId !== ctx.user.id && escrow.sellerId !== ctx.user.id && ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Not your order" });
+      }
+      return escrow;
+    }),
+
+  listPayoutBatches: protectedProcedure
+    .input(z.object({ status: z.enum(["all", "pending", "processing", "completed", "failed"]).default("all") }))
+    .query(async ({ input, ctx }) => {
+      const db = await getDb();
+      if (!db) return [];
+      
+      // Admins see every seller's batches
+      return await db.select().from(marketplacePayoutBatches)
+        .where(and(
+          ctx.user.role === "admin" ? undefined : eq(marketplacePayoutBatches.sellerId, ctx.user.id),
+          input.status === "all" ? undefined : eq(marketplacePayoutBatches.status, input.status)
+        ))
+        .orderBy(desc(marketplacePayoutBatches.createdAt));
+    }),
+
+  createPayoutBatches: adminProcedure
+    .mutation(async () => {
+      try {
+        const batches = await buildPayoutBatches();
+        return { batches };
+      } catch (error) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `Payout batching failed: ${(error as Error).message}` });
+      }
+    }),
+
+  updatePayoutBatchStatus: adminProcedure
+    .input(z.object({
+      batchId: z.number(),
+      status: z.enum(["processing", "completed", "failed"]),
+      transactionReference: z.string().max(255).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+
+      const [batch] = await db.select().from(marketplacePayoutBatches)
+        .where(eq(marketplacePayoutBatches.id, input.batchId))
+        .limit(1);
+      if (!batch) throw new TRPCError({ code: "NOT_FOUND", message: "Payout batch not found" });
+      if (batch.status === "completed" || batch.status === "failed") {
+        throw new TRPCError({ code: "PRECONDITION_FAILED", message: `Payout batch is already ${batch.status}` });
+      }
+
+      await markPayoutBatch(batch.id, input.status, input.transactionReference);
+      return { success: true };
+    }),
+
   // ========== WISHLIST ==========
   addToWishlist: protectedProcedure
     .input(z.object({ productId: z.number() }))
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "./db";
@@ -63,10 +63,10 @@ export const merlRouter = router({
 
   // KPI Values
   kpiValues: router({
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
         kpiId: z.number().optional(),
-        farmId: z.number().optional(),
+        farmId: z.number(),
         startDate: z.date().optional(),
         endDate: z.date().optional(),
       }))
@@ -74,24 +74,18 @@ export const merlRouter = router({
         const db = await getDb();
         if (!db) return [];
         
-        let query = db.select().from(kpiValues);
-        const conditions = [];
-        
+        const conditions = [eq(kpiValues.farmId, input.farmId)];
         if (input.kpiId) conditions.push(eq(kpiValues.kpiId, input.kpiId));
-        if (input.farmId) conditions.push(eq(kpiValues.farmId, input.farmId));
         if (input.startDate) conditions.push(gte(kpiValues.measurementDate, input.startDate));
         if (input.endDate) conditions.push(lte(kpiValues.measurementDate, input.endDate));
         
-        if (conditions.length > 0) {
-          return await query.where(and(...conditions));
-        }
-        return await query;
+        return await db.select().from(kpiValues).where(and(...conditions));
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         kpiId: z.number(),
-        farmId: z.number().optional(),
+        farmId: z.number(),
         measurementDate: z.date(),
         actualValue: z.string(),
       }))
@@ -119,20 +113,17 @@ export const merlRouter = router({
 
   // Monitoring Visits
   visits: router({
-    list: protectedProcedure
-      .input(z.object({ farmId: z.number().optional() }))
+    list: farmProcedure("viewer")
+      .input(z.object({ farmId: z.number() }))
       .query(async ({ input }) => {
         const db = await getDb();
         if (!db) return [];
         
-        if (input.farmId) {
-          return await db.select().from(monitoringVisits)
-            .where(eq(monitoringVisits.farmId, input.farmId));
-        }
-        return await db.select().from(monitoringVisits);
+        return await db.select().from(monitoringVisits)
+          .where(eq(monitoringVisits.farmId, input.farmId));
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         visitDate: z.date(),
@@ -182,26 +173,22 @@ export const merlRouter = router({
 
   // Challenges
   challenges: router({
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         status: z.enum(["open", "in_progress", "resolved", "closed"]).optional(),
       }))
       .query(async ({ input }) => {
         const db = await getDb();
         if (!db) return [];
         
-        const conditions = [];
-        if (input.farmId) conditions.push(eq(challenges.farmId, input.farmId));
+        const conditions = [eq(challenges.farmId, input.farmId)];
         if (input.status) conditions.push(eq(challenges.status, input.status));
         
-        if (conditions.length > 0) {
-          return await db.select().from(challenges).where(and(...conditions));
-        }
-        return await db.select().from(challenges);
+        return await db.select().from(challenges).where(and(...conditions));
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         challengeDescription: z.string(),
@@ -2,24 +2,69 @@ import { router, protectedProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "./db";
-import { orders } from "../drizzle/schema";
-import { eq } from "drizzle-orm";
+import { marketplaceOrders, marketplaceTransactions } from "../drizzle/schema";
+import type { MarketplaceTransaction } from "../drizzle/schema";
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+import { PaymentProviderError } from "./services/paymentProviders";
+import { findTransaction, refundTransaction, startCheckout, verifyTransaction } from "./services/paymentService";
 
 /**
  * Payment Integration Router
  * Supports Mobile Money payments via Paystack and Flutterwave
- * 
+ *
  * Setup Instructions:
  * 1. Sign up for Paystack (https://paystack.com) or Flutterwave (https://flutterwave.com)
  * 2. Get API keys from dashboard
  * 3. Add to environment variables:
  *    - PAYSTACK_SECRET_KEY
- *    - PAYSTACK_PUBLIC_KEY
  *    - FLUTTERWAVE_SECRET_KEY
- *    - FLUTTERWAVE_PUBLIC_KEY
- * 4. Configure webhook URLs in payment provider dashboard
+ *    - FLUTTERWAVE_WEBHOOK_SECRET (the "secret hash" from the dashboard)
+ * 4. Point the provider webhook at POST /api/webhooks/payments/paystack
+ *    or /api/webhooks/payments/flutterwave
  */
 
+function providerError(error: unknown): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof PaymentProviderError) {
+    throw new TRPCError({ code: "PRECONDITION_FAILED", message: error.message });
+  }
+  throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: (error as Error).message });
+}
+
+// Buyers may see their own payments; admins may see any
+async function requireTransactionAccess(reference: string, user: { id: number; role: string }) {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+  const transaction = await findTransaction(reference);
+  if (!transaction) throw new TRPCError({ code: "NOT_FOUND", message: "Payment not found" });
+
+  if (user.role !== "admin") {
+    const [order] = await db
+      .select({ buyerId: marketplaceOrders.buyerId })
+      .from(marketplaceOrders)
+      .where(eq(marketplaceOrders.id, transaction.orderId));
+    if (!order || order.buyerId !== user.id) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Payment not found" });
+    }
+  }
+  return transaction;
+}
+
+function toPaymentSummary(transaction: MarketplaceTransaction) {
+  return {
+    reference: transaction.transactionId,
+    orderId: transaction.orderId,
+    provider: transaction.provider,
+    amount: parseFloat(transaction.amount),
+    currency: transaction.currency,
+    status: transaction.status,
+    paymentMethod: transaction.paymentMethod,
+    createdAt: transaction.createdAt,
+    completedAt: transaction.completedAt,
+  };
+}
+
 export const paymentRouter = router({
   /**
    * Initialize payment transaction
@@ -29,89 +74,75 @@ export const paymentRouter = router({
     .input(
       z.object({
         orderId: z.number(),
-        amount: z.number(),
         currency: z.enum(["GHS", "NGN", "KES", "UGX", "TZS"]).default("GHS"),
         provider: z.enum(["paystack", "flutterwave"]).default("paystack"),
         paymentMethod: z.enum(["mobile_money", "card", "bank_transfer"]).default("mobile_money"),
         customerEmail: z.string().email(),
         customerPhone: z.string().optional(),
         customerName: z.string().optional(),
+        callbackUrl: z.string().url().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
-      // Verify order exists and belongs to user
-      const order = await db.select().from(orders).where(eq(orders.id, input.orderId));
-      if (order.length === 0) {
+      // The amount always comes from the order, never from the client
+      const [order] = await db.select().from(marketplaceOrders).where(eq(marketplaceOrders.id, input.orderId));
+      if (!order || order.buyerId !== ctx.user.id) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Order not found" });
       }
+      if (order.paymentStatus !== "unpaid" || order.status === "cancelled") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Order is ${order.paymentStatus === "unpaid" ? order.status : order.paymentStatus}` });
+      }
 
-      // In production, call actual payment provider API
-      // For now, return mock payment link structure
-      
-      if (input.provider === "paystack") {
-        return {
-          success: true,
-          provider: "paystack",
-          paymentLink: `https://checkout.paystack.com/mock-${input.orderId}`,
-          reference: `PAY-${Date.now()}-${input.orderId}`,
-          message: "Payment initialized successfully. Redirect customer to payment link.",
-          instructions: [
-            "1. Get Paystack API keys from https://dashboard.paystack.com/#/settings/developer",
-            "2. Add PAYSTACK_SECRET_KEY to environment variables",
-            "3. Install Paystack SDK: npm install paystack-node",
-            "4. Implement actual API call in production",
-          ],
-        };
-      } else {
+      try {
+        const checkout = await startCheckout({
+          order,
+          provider: input.provider,
+          channel: input.paymentMethod,
+          currency: input.currency,
+          email: input.customerEmail,
+          phone: input.customerPhone,
+          name: input.customerName,
+          callbackUrl: input.callbackUrl,
+        });
         return {
           success: true,
-          provider: "flutterwave",
-          paymentLink: `https://checkout.flutterwave.com/mock-${input.orderId}`,
-          reference: `FLW-${Date.now()}-${input.orderId}`,
+          provider: input.provider,
+          paymentLink: checkout.authorizationUrl,
+          reference: checkout.reference,
+          amount: checkout.amount,
+          currency: input.currency,
           message: "Payment initialized successfully. Redirect customer to payment link.",
-          instructions: [
-            "1. Get Flutterwave API keys from https://dashboard.flutterwave.com/settings/apis",
-            "2. Add FLUTTERWAVE_SECRET_KEY to environment variables",
-            "3. Install Flutterwave SDK: npm install flutterwave-node-v3",
-            "4. Implement actual API call in production",
-          ],
         };
+      } catch (error) {
+        providerError(error);
       }
     }),
 
   /**
    * Verify payment status
-   * Call this after customer completes payment
+   * Call this after customer completes payment. A mutation, since applying
+   * the provider's answer settles the payment and order.
    */
   verifyPayment: protectedProcedure
-    .input(
-      z.object({
-        reference: z.string(),
-        provider: z.enum(["paystack", "flutterwave"]),
-      })
-    )
-    .query(async ({ input }) => {
-      // In production, verify with actual payment provider API
-      
-      return {
-        success: true,
-        status: "success",
-        reference: input.reference,
-        amount: 0,
-        currency: "GHS",
-        paidAt: new Date().toISOString(),
-        message: "Payment verified successfully (mock response)",
-        instructions: [
-          "In production:",
-          "- Call Paystack verify endpoint: GET https://api.paystack.co/transaction/verify/:reference",
-          "- Or Flutterwave verify: GET https://api.flutterwave.com/v3/transactions/:id/verify",
-          "- Update order payment status in database",
-          "- Send confirmation notification to customer",
-        ],
-      };
+    .input(z.object({ reference: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const transaction = await requireTransactionAccess(input.reference, ctx.user);
+      try {
+        const { verified, outcome } = await verifyTransaction(transaction);
+        const current = (await findTransaction(input.reference)) ?? transaction;
+        return {
+          ...toPaymentSummary(current),
+          success: current.status === "completed",
+          providerStatus: verified.status,
+          outcome,
+          paidAt: verified.paidAt,
+        };
+      } catch (error) {
+        providerError(error);
+      }
     }),
 
   /**
@@ -155,7 +186,7 @@ export const paymentRouter = router({
     .input(
       z.object({
         reference: z.string(),
-        amount: z.number().optional(),
+        amount: z.number().positive().optional(),
         reason: z.string().optional(),
       })
     )
@@ -168,19 +199,33 @@ export const paymentRouter = router({
         });
       }
 
-      return {
-        success: true,
-        message: "Refund initiated successfully (mock response)",
-        reference: input.reference,
-        refundAmount: input.amount,
-        instructions: [
-          "In production:",
-          "- Call payment provider refund API",
-          "- Update order status to 'refunded'",
-          "- Send refund confirmation to customer",
-          "- Log refund transaction for accounting",
-        ],
-      };
+      const transaction = await requireTransactionAccess(input.reference, ctx.user);
+      if (transaction.status !== "completed") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Payment is ${transaction.status}` });
+      }
+      if (input.amount !== undefined && input.amount > parseFloat(transaction.amount)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Refund exceeds the amount paid" });
+      }
+
+      try {
+        const refund = await refundTransaction(transaction, input.amount);
+        if (input.reason) {
+          const db = await getDb();
+          await db
+            ?.update(marketplaceTransactions)
+            .set({ notes: `${transaction.notes ? `${transaction.notes}\n` : ""}Refund requested: ${input.reason}` })
+            .where(eq(marketplaceTransactions.id, transaction.id));
+        }
+        return {
+          success: true,
+          reference: input.reference,
+          refundAmount: refund.amount ?? parseFloat(transaction.amount),
+          status: refund.status,
+          message: refund.status === "processed" ? "Refund processed" : "Refund initiated; awaiting provider confirmation",
+        };
+      } catch (error) {
+        providerError(error);
+      }
     }),
 
   /**
@@ -196,81 +241,22 @@ export const paymentRouter = router({
     )
     .query(async ({ input, ctx }) => {
       const db = await getDb();
-      if (!db) return [];
+      if (!db) return { transactions: [] };
 
-      // In production, fetch from payments table
-      // For now, return empty array with instructions
-      
-      return {
-        transactions: [],
-        message: "Payment transaction history (implement in production)",
-        instructions: [
-          "Create payments table in schema:",
-          "- id, orderId, reference, amount, currency, status, provider, createdAt",
-          "- Add to drizzle/schema.ts",
-          "- Run pnpm db:push to create table",
-          "- Store payment records after successful transactions",
-        ],
-      };
+      const rows = await db
+        .select({ transaction: marketplaceTransactions })
+        .from(marketplaceTransactions)
+        .innerJoin(marketplaceOrders, eq(marketplaceTransactions.orderId, marketplaceOrders.id))
+        .where(
+          and(
+            eq(marketplaceOrders.buyerId, ctx.user.id),
+            input.orderId ? eq(marketplaceTransactions.orderId, input.orderId) : undefined,
+            input.startDate ? gte(marketplaceTransactions.createdAt, input.startDate) : undefined,
+            input.endDate ? lte(marketplaceTransactions.createdAt, input.endDate) : undefined
+          )
+        )
+        .orderBy(desc(marketplaceTransactions.createdAt));
+
+      return { transactions: rows.map(row => toPaymentSummary(row.transaction)) };
     }),
 });
-
-/**
- * PRODUCTION IMPLEMENTATION GUIDE:
- * 
- * 1. PAYSTACK INTEGRATION:
- *    npm install paystack-node
- *    
- *    import Paystack from 'paystack-node';
- *    const paystack = new Paystack(process.env.PAYSTACK_SECRET_KEY);
- *    
- *    // Initialize payment
- *    const response = await paystack.transaction.initialize({
- *      email: input.customerEmail,
- *      amount: input.amount * 100, // Convert to kobo
- *      currency: input.currency,
- *      channels: ['mobile_money'],
- *      metadata: { orderId: input.orderId }
- *    });
- *    
- *    // Verify payment
- *    const verification = await paystack.transaction.verify(reference);
- * 
- * 2. FLUTTERWAVE INTEGRATION:
- *    npm install flutterwave-node-v3
- *    
- *    import Flutterwave from 'flutterwave-node-v3';
- *    const flw = new Flutterwave(
- *      process.env.FLUTTERWAVE_PUBLIC_KEY,
- *      process.env.FLUTTERWAVE_SECRET_KEY
- *    );
- *    
- *    // Initialize payment
- *    const payload = {
- *      tx_ref: `FLW-${Date.now()}`,
- *      amount: input.amount,
- *      currency: input.currency,
- *      payment_options: 'mobilemoney',
- *      customer: {
- *        email: input.customerEmail,
- *        phone_number: input.customerPhone,
- *        name: input.customerName
- *      },
- *      customizations: {
- *        title: 'FarmKonnect Payment'
- *      }
- *    };
- *    const response = await flw.MobileMoney.initiate(payload);
- *    
- *    // Verify payment
- *    const verification = await flw.Transaction.verify({ id: transactionId });
- * 
- * 3. WEBHOOK SETUP:
- *    - Create webhook endpoint: POST /api/webhooks/payment
- *    - Verify webhook signature
- *    - Update order payment status
- *    - Send confirmation notifications
- * 
- * 4. DATABASE SCHEMA:
- *    Add payments table to track all transactions
- */
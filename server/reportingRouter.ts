@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
@@ -18,7 +18,7 @@ export const reportingRouter = router({
   /**
    * Generate comprehensive farm report
    */
-  generateFarmReport: protectedProcedure
+  generateFarmReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -209,7 +209,7 @@ export const reportingRouter = router({
   /**
    * Export report as CSV
    */
-  exportAsCSV: protectedProcedure
+  exportAsCSV: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -288,7 +288,7 @@ export const reportingRouter = router({
   /**
    * Get financial summary for dashboard
    */
-  getFinancialSummary: protectedProcedure
+  getFinancialSummary: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,7 +1,7 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router, protectedProcedure } from "./_core/trpc";
+import { publicProcedure, router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { users } from "../drizzle/schema";
 import { desc } from "drizzle-orm";
 import { getDb, createUserAccount } from "./db";
@@ -9,6 +9,7 @@ import { notificationRouter } from "./notificationRouter";
 import { feedingRouter } from "./feedingRouter";
 import { marketplaceRouter } from "./marketplaceRouter";
 import { iotRouter } from "./iotRouter";
+import { irrigationRouter } from "./irrigationRouter";
 import { weatherRouter } from "./weatherRouter";
 import { weatherNotificationRouter } from "./weatherNotificationRouter";
 import { cropPlanningRouter } from "./cropPlanningRouter";
@@ -18,13 +19,13 @@ import { trainingRouter } from "./trainingRouter";
 import { merlRouter } from "./merlRouter";
 import { transportRouter } from "./transportRouter";
 import { businessRouter } from "./businessRouter";
-import { paymentRouter } from "./paymentRouter";
+import { paymentRouter as providerPaymentRouter } from "./paymentRouter";
 import { smsRouter } from "./smsRouter";
 import { securityRouter } from "./securityRouter";
 import { passwordResetRouter } from "./passwordResetRouter";
 import { uploadRouter } from "./uploadRouter";
 import { financialRouter } from "./financialRouter";
-import { livestockRouter } from "./livestockRouter";
+import { assertClearForSale, livestockRouter } from "./livestockRouter";
 import { workforceRouter } from "./workforceRouter";
 import { fishFarmingRouter } from "./fishFarmingRouter";
 import { assetRouter } from "./assetRouter";
@@ -120,7 +121,15 @@ import { farmTaskFilteringRouter } from "./routers/farmTaskFiltering";
 import { taskPriorityEscalationRouter } from "./routers/taskPriorityEscalation";
 import { taskReassignmentRouter } from "./routers/taskReassignment";
 import { taskCompletionVerificationRouter } from "./routers/taskCompletionVerification";
-// import { searchRouter } from "./routers/search";
+import { searchRouter } from "./routers/search";
+import { jobQueueRouter } from "./routers/jobQueue";
+import { withdrawalTrackingRouter } from "./routers/withdrawalTracking";
+import { dairyRouter } from "./routers/dairy";
+import { reproductionRouter } from "./routers/reproduction";
+import { weighingRouter } from "./routers/weighing";
+import { fieldBoundariesRouter } from "./routers/fieldBoundaries";
+import { cropProtectionRouter } from "./routers/cropProtection";
+import { cropPhenologyRouter } from "./routers/cropPhenology";
 // import { searchEnhancementsRouter } from "./routers/searchEnhancements";
 // import { multiSpeciesRouter } from "./routers/multiSpecies";
 import { animalMigrationRouter } from "./routers/animalMigration";
@@ -133,6 +142,10 @@ import { recurringExpensesRouter } from "./routers/recurringExpenses";
 import { budgetAlertsRouter } from "./routers/budgetAlerts";
 import { expenseRevenueEntryRouter } from "./routers/expenseRevenueEntry";
 import { financialExportRouter } from "./routers/financialExport";
+import { generalLedgerRouter } from "./routers/generalLedger";
+import { bankingIntegrationRouter } from "./routers/bankingIntegration";
+import { workflowBuilderRouter } from "./routers/workflowBuilder";
+import { workflowVersioningRouter } from "./routers/workflowVersioning";
 import { farmComparisonRouter } from "./routers/farmComparison";
 import { farmConsolidationRouter } from "./routers/farmConsolidation";
 import { budgetManagementRouter } from "./routers/budgetManagement";
@@ -226,6 +239,7 @@ import {
   yieldRecords,
   cropHealthRecords,
   cropTreatments,
+  fields,
   animals,
   animalTypes,
   animalHealthRecords,
@@ -235,7 +249,16 @@ import {
   themeConfigs,
   notifications,
 } from "../drizzle/schema";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
+import { PreHarvestIntervalError } from "./services/sprayCompliance";
+import { assertHarvestAllowed } from "./services/sprayService";
+import { productionHold } from "./services/withdrawalService";
+
+/** Cycles and soil tests can only be tied to one of the farm's own fields */
+async function requireFarmField(db: NonNullable<Awaited<ReturnType<typeof getDb>>>, farmId: number, fieldId: number) {
+  const [field] = await db.select({ id: fields.id }).from(fields).where(and(eq(fields.id, fieldId), eq(fields.farmId, farmId))).limit(1);
+  if (!field) throw new TRPCError({ code: "BAD_REQUEST", message: "Field not found on this farm" });
+}
 
 export const appRouter = router({
   system: systemRouter,
@@ -312,7 +335,15 @@ export const appRouter = router({
   medicationTracking: medicationTrackingRouter,
   healthTrendsAnalytics: healthTrendsAnalyticsRouter,
   pushNotifications: pushNotificationsRouter,
-  // search: searchRouter,
+  search: searchRouter,
+  jobQueue: jobQueueRouter,
+  withdrawalTracking: withdrawalTrackingRouter,
+  dairy: dairyRouter,
+  reproduction: reproductionRouter,
+  weighing: weighingRouter,
+  fieldBoundaries: fieldBoundariesRouter,
+  cropProtection: cropProtectionRouter,
+  cropPhenology: cropPhenologyRouter,
   // searchEnhancements: searchEnhancementsRouter,
   // multiSpecies: multiSpeciesRouter,
   animalMigration: animalMigrationRouter,
@@ -342,6 +373,7 @@ export const appRouter = router({
   mentorship: mentorshipRouter,
   equipmentRental: equipmentRentalRouter,
   payment: paymentRouter,
+  payments: providerPaymentRouter,
   reviews: reviewsRouter,
   notificationCenter: notificationCenterRouter,
   chatbot: chatbotRouter,
@@ -360,6 +392,10 @@ export const appRouter = router({
   // vetRatings: vetRatingsRouter,
   veterinaryServices: veterinaryServicesCleanRouter,
   financialManagement: financialManagementRouter,
+  generalLedger: generalLedgerRouter,
+  bankingIntegration: bankingIntegrationRouter,
+  workflowBuilder: workflowBuilderRouter,
+  workflowVersioning: workflowVersioningRouter,
   budgetManagement: budgetManagementRouter,
   // laborManagement: laborManagementCleanRouter, // Removed duplicate - using laborManagementRouter instead
   training: trainingCertificationCleanRouter,
@@ -612,7 +648,7 @@ export const appRouter = router({
         return await db.delete(farms).where(eq(farms.id, input.id));
       }),
 
-    getActivities: protectedProcedure
+    getActivities: farmProcedure("viewer")
       .input(z.object({
         farmId: z.number(),
       }))
@@ -644,7 +680,7 @@ export const appRouter = router({
     }),
 
     cycles: router({
-      list: protectedProcedure
+      list: farmProcedure("viewer")
         .input(z.object({ farmId: z.number() }))
         .query(async ({ input }) => {
           const db = await getDb();
@@ -660,9 +696,10 @@ export const appRouter = router({
           return cyclesWithCropInfo;
         }),
 
-      create: protectedProcedure
+      create: farmProcedure("editor")
         .input(z.object({
           farmId: z.number(),
+          fieldId: z.number().optional(),
           cropId: z.number(),
           varietyName: z.string().optional(),
           plantingDate: z.date(),
@@ -673,9 +710,11 @@ export const appRouter = router({
         .mutation(async ({ input }) => {
           const db = await getDb();
           if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+          if (input.fieldId !== undefined) await requireFarmField(db, input.farmId, input.fieldId);
 
           return await db.insert(cropCycles).values({
             farmId: input.farmId,
+            fieldId: input.fieldId,
             cropId: input.cropId,
             varietyName: input.varietyName,
             plantingDate: input.plantingDate,
@@ -689,7 +728,7 @@ export const appRouter = router({
     }),
 
     soilTests: router({
-      list: protectedProcedure
+      list: farmProcedure("viewer")
         .input(z.object({ farmId: z.number() }))
         .query(async ({ input }) => {
           const db = await getDb();
@@ -697,9 +736,10 @@ export const appRouter = router({
           return await db.select().from(soilTests).where(eq(soilTests.farmId, input.farmId));
         }),
 
-      create: protectedProcedure
+      create: farmProcedure("editor")
         .input(z.object({
           farmId: z.number(),
+          fieldId: z.number().optional(),
           testDate: z.date(),
           phLevel: z.string().optional(),
           nitrogenLevel: z.string().optional(),
@@ -711,9 +751,11 @@ export const appRouter = router({
         .mutation(async ({ input }) => {
           const db = await getDb();
           if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
+          if (input.fieldId !== undefined) await requireFarmField(db, input.farmId, input.fieldId);
 
           return await db.insert(soilTests).values({
             farmId: input.farmId,
+            fieldId: input.fieldId,
             testDate: input.testDate,
             phLevel: input.phLevel as any,
             nitrogenLevel: input.nitrogenLevel as any,
@@ -778,6 +820,12 @@ export const appRouter = router({
           const db = await getDb();
           if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
+          try {
+            await assertHarvestAllowed(input.cycleId, input.recordedDate);
+          } catch (error) {
+            if (error instanceof PreHarvestIntervalError) throw new TRPCError({ code: "PRECONDITION_FAILED", message: error.message });
+            throw error;
+          }
           return await db.insert(yieldRecords).values({
             cycleId: input.cycleId,
             recordedDate: input.recordedDate,
@@ -797,7 +845,7 @@ export const appRouter = router({
           return await db.select().from(cropHealthRecords).where(eq(cropHealthRecords.cycleId, input.cycleId));
         }),
 
-      listByFarm: protectedProcedure
+      listByFarm: farmProcedure("viewer")
         .input(z.object({ farmId: z.number() }))
         .query(async ({ input }) => {
           const db = await getDb();
@@ -915,7 +963,7 @@ export const appRouter = router({
   // LIVESTOCK MANAGEMENT
   // ============================================================================
   animals: router({
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({ farmId: z.number() }))
       .query(async ({ input }) => {
         const db = await getDb();
@@ -923,7 +971,7 @@ export const appRouter = router({
         return await db.select().from(animals).where(eq(animals.farmId, input.farmId));
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         typeId: z.number(),
@@ -961,6 +1009,7 @@ export const appRouter = router({
         const updates: any = {};
         if (input.status) updates.status = input.status;
         if (input.breed) updates.breed = input.breed;
+        if (input.status === "sold" || input.status === "culled") await assertClearForSale(input.id);
 
         return await db.update(animals).set(updates).where(eq(animals.id, input.id));
       }),
@@ -1063,12 +1112,18 @@ export const appRouter = router({
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR" });
 
+        const hold = await productionHold(
+          input.animalId,
+          { milk: Boolean(input.milkYieldLiters), eggs: Boolean(input.eggCount) },
+          input.metricDate
+        );
         return await db.insert(performanceMetrics).values({
           animalId: input.animalId,
           metricDate: input.metricDate,
           weightKg: input.weightKg as any,
           milkYieldLiters: input.milkYieldLiters as any,
           eggCount: input.eggCount,
+          withdrawalHold: hold.held,
         });
       }),
   }),
@@ -1182,6 +1237,7 @@ export const appRouter = router({
   feeding: feedingRouter,
   marketplace: marketplaceRouter,
   iot: iotRouter,
+  irrigation: irrigationRouter,
   weather: weatherRouter,
   weatherNotifications: weatherNotificationRouter,
   cropPlanning: cropPlanningRouter,
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
@@ -7,7 +7,7 @@ const db = getDb();
 
 export const accountingExportRouter = router({
   // Export to QuickBooks format (CSV)
-  exportToQuickBooks: protectedProcedure
+  exportToQuickBooks: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -77,7 +77,7 @@ export const accountingExportRouter = router({
     }),
 
   // Export to Xero format (CSV)
-  exportToXero: protectedProcedure
+  exportToXero: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -165,7 +165,7 @@ export const accountingExportRouter = router({
     }),
 
   // Export to generic accounting format
-  exportToGenericFormat: protectedProcedure
+  exportToGenericFormat: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -264,7 +264,7 @@ export const accountingExportRouter = router({
     }),
 
   // Generate tax report for export
-  generateTaxReport: protectedProcedure
+  generateTaxReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -343,7 +343,7 @@ export const accountingExportRouter = router({
     }),
 
   // Export invoices for accounting
-  exportInvoices: protectedProcedure
+  exportInvoices: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -3,7 +3,7 @@
  * tRPC procedures for activity record approval workflow
  */
 
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -285,7 +285,7 @@ export const activityApprovalRouter = router({
   /**
    * Get pending activities for approval
    */
-  getPendingActivities: protectedProcedure
+  getPendingActivities: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
       limit: z.number().default(50),
@@ -322,7 +322,7 @@ export const activityApprovalRouter = router({
   /**
    * Get activity statistics
    */
-  getActivityStats: protectedProcedure
+  getActivityStats: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
     }))
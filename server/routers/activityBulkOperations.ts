@@ -1,4 +1,4 @@
-import { protectedProcedure } from '../_core/trpc';
+import { protectedProcedure, farmProcedure } from '../_core/trpc';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { getDb } from '../db';
@@ -14,7 +14,7 @@ export const activityBulkOperationsRouter = {
   /**
    * Bulk approve activities
    */
-  bulkApprove: protectedProcedure
+  bulkApprove: farmProcedure("editor")
     .input(
       z.object({
         activityIds: z.array(z.string()).min(1),
@@ -67,7 +67,7 @@ export const activityBulkOperationsRouter = {
   /**
    * Bulk reject activities
    */
-  bulkReject: protectedProcedure
+  bulkReject: farmProcedure("editor")
     .input(
       z.object({
         activityIds: z.array(z.string()).min(1),
@@ -118,7 +118,7 @@ export const activityBulkOperationsRouter = {
   /**
    * Bulk delete activities (admin only)
    */
-  bulkDelete: protectedProcedure
+  bulkDelete: farmProcedure("editor")
     .input(
       z.object({
         activityIds: z.array(z.string()).min(1),
@@ -171,7 +171,7 @@ export const activityBulkOperationsRouter = {
   /**
    * Bulk update activity status
    */
-  bulkUpdateStatus: protectedProcedure
+  bulkUpdateStatus: farmProcedure("editor")
     .input(
       z.object({
         activityIds: z.array(z.string()).min(1),
@@ -219,7 +219,7 @@ export const activityBulkOperationsRouter = {
   /**
    * Get bulk operation statistics
    */
-  getStats: protectedProcedure
+  getStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
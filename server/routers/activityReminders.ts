@@ -1,4 +1,4 @@
-import { protectedProcedure } from '../_core/trpc';
+import { protectedProcedure, farmProcedure } from '../_core/trpc';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { getDb } from '../db';
@@ -98,7 +98,7 @@ export const activityRemindersRouter = {
   /**
    * Create a reminder for pending activity approval
    */
-  createApprovalReminder: protectedProcedure
+  createApprovalReminder: farmProcedure("editor")
     .input(
       z.object({
         activityId: z.string(),
@@ -145,7 +145,7 @@ export const activityRemindersRouter = {
   /**
    * Create a reminder for pending activity submission
    */
-  createSubmissionReminder: protectedProcedure
+  createSubmissionReminder: farmProcedure("editor")
     .input(
       z.object({
         activityId: z.string(),
@@ -192,7 +192,7 @@ export const activityRemindersRouter = {
   /**
    * Create a custom reminder
    */
-  createCustomReminder: protectedProcedure
+  createCustomReminder: farmProcedure("editor")
     .input(
       z.object({
         activityId: z.string(),
@@ -286,7 +286,7 @@ export const activityRemindersRouter = {
   /**
    * Get reminder statistics
    */
-  getStats: protectedProcedure
+  getStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import {
@@ -19,7 +19,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get worker productivity analytics
    */
-  getProductivityAnalytics: protectedProcedure
+  getProductivityAnalytics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -61,7 +61,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get labor cost analytics
    */
-  getLaborCostAnalytics: protectedProcedure
+  getLaborCostAnalytics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -104,7 +104,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get workforce utilization analytics
    */
-  getWorkforceUtilization: protectedProcedure
+  getWorkforceUtilization: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -154,7 +154,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get compliance analytics
    */
-  getComplianceAnalytics: protectedProcedure
+  getComplianceAnalytics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -208,7 +208,7 @@ export const advancedAnalyticsRouter = router({
    * Get predictive analytics
    * Predicts future trends and issues
    */
-  getPredictiveAnalytics: protectedProcedure
+  getPredictiveAnalytics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -258,7 +258,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get worker comparison analytics
    */
-  getWorkerComparison: protectedProcedure
+  getWorkerComparison: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -11,7 +11,7 @@ export const advancedAnalyticsCleanRouter = router({
   /**
    * Get crop yield prediction
    */
-  getCropYieldPrediction: protectedProcedure
+  getCropYieldPrediction: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -60,7 +60,7 @@ export const advancedAnalyticsCleanRouter = router({
   /**
    * Get equipment failure prediction
    */
-  getEquipmentFailurePrediction: protectedProcedure
+  getEquipmentFailurePrediction: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -110,7 +110,7 @@ export const advancedAnalyticsCleanRouter = router({
   /**
    * Get worker productivity analytics
    */
-  getWorkerProductivityAnalytics: protectedProcedure
+  getWorkerProductivityAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), timeRange: z.enum(["7d", "30d", "90d"]) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -259,7 +259,7 @@ export const advancedAnalyticsCleanRouter = router({
   /**
    * Get performance benchmarking
    */
-  getPerformanceBenchmarking: protectedProcedure
+  getPerformanceBenchmarking: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -310,7 +310,7 @@ export const advancedAnalyticsCleanRouter = router({
   /**
    * Export analytics data
    */
-  exportAnalyticsData: protectedProcedure
+  exportAnalyticsData: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -341,7 +341,7 @@ export const advancedAnalyticsCleanRouter = router({
   /**
    * Get trend analysis
    */
-  getTrendAnalysis: protectedProcedure
+  getTrendAnalysis: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
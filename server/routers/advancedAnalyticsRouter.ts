@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { farms, cropCycles, yieldRecords, soilTests } from "../../drizzle/schema";
@@ -8,7 +8,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Predict crop yield using historical data and environmental factors
    */
-  predictCropYield: protectedProcedure
+  predictCropYield: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -148,7 +148,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get farm analytics dashboard data
    */
-  getFarmAnalyticsDashboard: protectedProcedure
+  getFarmAnalyticsDashboard: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -196,7 +196,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get trend analysis for a specific metric
    */
-  getTrendAnalysis: protectedProcedure
+  getTrendAnalysis: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -237,7 +237,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Get predictive alerts
    */
-  getPredictiveAlerts: protectedProcedure
+  getPredictiveAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -288,7 +288,7 @@ export const advancedAnalyticsRouter = router({
   /**
    * Export analytics report
    */
-  exportAnalyticsReport: protectedProcedure
+  exportAnalyticsReport: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
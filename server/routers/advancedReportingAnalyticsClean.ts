@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -11,7 +11,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Get farm overview dashboard
    */
-  getFarmOverview: protectedProcedure
+  getFarmOverview: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), period: z.enum(["week", "month", "quarter", "year"]).default("month") }))
     .query(async ({ input, ctx }) => {
       try {
@@ -56,7 +56,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Get custom report builder
    */
-  buildCustomReport: protectedProcedure
+  buildCustomReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -123,7 +123,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Get predictive analytics
    */
-  getPredictiveAnalytics: protectedProcedure
+  getPredictiveAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), metric: z.enum(["equipment_failure", "productivity", "revenue", "compliance"]) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -206,7 +206,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Get financial analytics
    */
-  getFinancialAnalytics: protectedProcedure
+  getFinancialAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), period: z.enum(["week", "month", "quarter", "year"]).default("month") }))
     .query(async ({ input, ctx }) => {
       try {
@@ -251,7 +251,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Get equipment failure predictions
    */
-  getEquipmentFailurePredictions: protectedProcedure
+  getEquipmentFailurePredictions: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -304,7 +304,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Export report to PDF/CSV
    */
-  exportReport: protectedProcedure
+  exportReport: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -337,7 +337,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Get performance benchmarks
    */
-  getPerformanceBenchmarks: protectedProcedure
+  getPerformanceBenchmarks: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), category: z.string().optional() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -390,7 +390,7 @@ export const advancedReportingAnalyticsCleanRouter = router({
   /**
    * Get trend analysis
    */
-  getTrendAnalysis: protectedProcedure
+  getTrendAnalysis: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -12,7 +12,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get maintenance recommendations
    */
-  getMaintenanceRecommendations: protectedProcedure
+  getMaintenanceRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -71,7 +71,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get crop rotation recommendations
    */
-  getCropRotationRecommendations: protectedProcedure
+  getCropRotationRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), currentCrop: z.string().optional() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -137,7 +137,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get worker training recommendations
    */
-  getWorkerTrainingRecommendations: protectedProcedure
+  getWorkerTrainingRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -198,7 +198,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get cost optimization recommendations
    */
-  getCostOptimizationRecommendations: protectedProcedure
+  getCostOptimizationRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -259,7 +259,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get natural language query recommendations
    */
-  queryAI: protectedProcedure
+  queryAI: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -315,7 +315,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get weather-based recommendations
    */
-  getWeatherBasedRecommendations: protectedProcedure
+  getWeatherBasedRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -368,7 +368,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get productivity improvement recommendations
    */
-  getProductivityRecommendations: protectedProcedure
+  getProductivityRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -424,7 +424,7 @@ export const aiRecommendationsEngineCleanRouter = router({
   /**
    * Get risk assessment and mitigation
    */
-  getRiskAssessment: protectedProcedure
+  getRiskAssessment: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -21,7 +21,7 @@ export const aiShiftSchedulingRouter = router({
    * Generate optimal shift schedule using AI
    * Considers worker availability, skills, performance, and workload balance
    */
-  generateOptimalSchedule: protectedProcedure
+  generateOptimalSchedule: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -155,7 +155,7 @@ Constraints:
    * Get shift scheduling recommendations
    * Analyzes current schedule and suggests improvements
    */
-  getSchedulingRecommendations: protectedProcedure
+  getSchedulingRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -212,7 +212,7 @@ Focus on: ${input.analysisType}`,
    * Predict scheduling conflicts
    * Uses historical data to predict potential scheduling issues
    */
-  predictSchedulingConflicts: protectedProcedure
+  predictSchedulingConflicts: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -273,7 +273,7 @@ Performance History: ${JSON.stringify(performance, null, 2)}`,
    * Optimize shift assignments for a specific worker
    * Considers their preferences, skills, and performance
    */
-  optimizeWorkerSchedule: protectedProcedure
+  optimizeWorkerSchedule: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -10,7 +10,7 @@ export const analyticsRouter = router({
    * Get ROI analysis by crop/animal
    * Calculate return on investment for each crop or animal type
    */
-  getRoiAnalysis: protectedProcedure
+  getRoiAnalysis: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -98,7 +98,7 @@ export const analyticsRouter = router({
    * Get seasonal trends
    * Analyze spending and revenue patterns by season
    */
-  getSeasonalTrends: protectedProcedure
+  getSeasonalTrends: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -174,7 +174,7 @@ export const analyticsRouter = router({
    * Get profitability analysis
    * Analyze profitability by category and time period
    */
-  getProfitabilityAnalysis: protectedProcedure
+  getProfitabilityAnalysis: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -240,7 +240,7 @@ export const analyticsRouter = router({
    * Get expense breakdown by category
    * Analyze expense distribution across categories
    */
-  getExpenseBreakdown: protectedProcedure
+  getExpenseBreakdown: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -292,7 +292,7 @@ export const analyticsRouter = router({
    * Get revenue trends
    * Analyze revenue patterns over time
    */
-  getRevenueTrends: protectedProcedure
+  getRevenueTrends: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -14,7 +14,7 @@ export const animalBatchEditingRouter = router({
   /**
    * Get animals for batch editing
    */
-  getAnimalsForBatchEdit: protectedProcedure
+  getAnimalsForBatchEdit: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -128,7 +128,7 @@ export const animalBatchEditingRouter = router({
   /**
    * Get pending batch edit requests
    */
-  getPendingBatchEditRequests: protectedProcedure
+  getPendingBatchEditRequests: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -241,7 +241,7 @@ export const animalBatchEditingRouter = router({
   /**
    * Get batch edit history
    */
-  getBatchEditHistory: protectedProcedure
+  getBatchEditHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -319,7 +319,7 @@ export const animalBatchEditingRouter = router({
   /**
    * Get batch edit statistics
    */
-  getBatchEditStatistics: protectedProcedure
+  getBatchEditStatistics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
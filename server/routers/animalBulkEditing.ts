@@ -1,9 +1,11 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
 import { animals } from '../../drizzle/schema';
 import { eq, inArray } from 'drizzle-orm';
+import { WithdrawalError } from '../services/withdrawal';
+import { assertAnimalsClear, findAnimalsInWithdrawal } from '../services/withdrawalService';
 
 /**
  * Bulk Animal Editing Router
@@ -14,7 +16,7 @@ export const animalBulkEditingRouter = router({
   /**
    * Create a bulk edit batch for approval
    */
-  createBulkEditBatch: protectedProcedure
+  createBulkEditBatch: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -85,7 +87,7 @@ export const animalBulkEditingRouter = router({
   /**
    * Apply bulk edits to multiple animals
    */
-  applyBulkEdit: protectedProcedure
+  applyBulkEdit: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -130,6 +132,11 @@ export const animalBulkEditingRouter = router({
           });
         }
 
+        // Sold or culled animals go to slaughter; none may still be in meat withdrawal
+        if (input.updates.status === 'sold' || input.updates.status === 'culled') {
+          await assertAnimalsClear(input.animalIds, 'meat');
+        }
+
         // Build update object, only including provided fields
         const updateData: any = {};
         if (input.updates.breed !== undefined) updateData.breed = input.updates.breed;
@@ -149,6 +156,10 @@ export const animalBulkEditingRouter = router({
           message: `Successfully updated ${input.animalIds.length} animals`,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (error instanceof WithdrawalError) {
+          throw new TRPCError({ code: 'PRECONDITION_FAILED', message: error.message });
+        }
         console.error('Apply bulk edit error:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -160,7 +171,7 @@ export const animalBulkEditingRouter = router({
   /**
    * Get animals by filter for bulk editing
    */
-  getAnimalsForBulkEdit: protectedProcedure
+  getAnimalsForBulkEdit: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -218,7 +229,7 @@ export const animalBulkEditingRouter = router({
   /**
    * Get bulk edit history
    */
-  getBulkEditHistory: protectedProcedure
+  getBulkEditHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -269,6 +280,13 @@ export const animalBulkEditingRouter = router({
 
       if (input.updates.status === 'sold' || input.updates.status === 'culled') {
         validation.warnings.push('This status change may affect breeding records and health tracking');
+        const held = await findAnimalsInWithdrawal(input.animalIds, 'meat');
+        for (const animal of held) {
+          validation.isValid = false;
+          validation.errors.push(
+            `Animal ${animal.tag ?? animal.animalId} is in meat withdrawal until ${animal.clearAt.toISOString().slice(0, 10)}`
+          );
+        }
       }
 
       if (input.updates.birthDate && input.updates.birthDate > new Date()) {
@@ -1,4 +1,4 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -16,7 +16,7 @@ export const animalBulkRegistrationRouter = router({
    * Register multiple animals of the same breed with serial tag IDs
    * Supports gender distribution: specify femaleCount and rest will be males
    */
-  registerBulk: protectedProcedure
+  registerBulk: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -141,7 +141,7 @@ export const animalBulkRegistrationRouter = router({
   /**
    * Validate serial tag IDs before bulk registration
    */
-  validateSerialTagIds: protectedProcedure
+  validateSerialTagIds: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -212,7 +212,7 @@ export const animalBulkRegistrationRouter = router({
   /**
    * Get bulk registration history
    */
-  getBulkRegistrationHistory: protectedProcedure
+  getBulkRegistrationHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
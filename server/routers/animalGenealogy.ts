@@ -1,9 +1,11 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, requireFarmAccess, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
 import { animals, breedingRecords } from '../../drizzle/schema';
-import { eq } from 'drizzle-orm';
+import { and, desc, eq } from 'drizzle-orm';
+import { MAX_TREE_GENERATIONS, PedigreeError } from '../services/pedigree';
+import { analyzeMating, getHerdInbreeding, getPedigreeTree } from '../services/pedigreeService';
 
 /**
  * Animal Genealogy Tracking Router
@@ -14,7 +16,7 @@ export const animalGenealogyRouter = router({
   /**
    * Link parent and offspring animals
    */
-  linkParentOffspring: protectedProcedure
+  linkParentOffspring: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -73,6 +75,7 @@ export const animalGenealogyRouter = router({
           damId: input.damId,
           expectedDueDate: input.expectedDueDate,
           outcome: 'successful',
+          kind: 'parentage',
           notes: input.notes,
         });
 
@@ -90,16 +93,16 @@ export const animalGenealogyRouter = router({
     }),
 
   /**
-   * Get animal pedigree (ancestors)
+   * Get animal pedigree (ancestors), at most MAX_TREE_GENERATIONS deep
    */
   getAnimalPedigree: protectedProcedure
     .input(
       z.object({
         animalId: z.number(),
-        generations: z.number().default(3),
+        generations: z.number().int().min(1).max(MAX_TREE_GENERATIONS).default(3),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) {
         throw new TRPCError({
@@ -108,46 +111,34 @@ export const animalGenealogyRouter = router({
         });
       }
 
-      try {
-        // Get the animal
-        const animal = await db.select().from(animals).where(eq(animals.id, input.animalId));
-        if (animal.length === 0) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: 'Animal not found',
-          });
-        }
+      const [animal] = await db
+        .select({ farmId: animals.farmId })
+        .from(animals)
+        .where(eq(animals.id, input.animalId))
+        .limit(1);
+      if (!animal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Animal not found' });
+      }
+      await requireFarmAccess(ctx.user, [animal.farmId], 'viewer');
 
-        // Get breeding records for this animal
+      try {
+        // The whole lineage comes from the pedigree graph; only the animal's own link is read here
+        const pedigree = await getPedigreeTree(input.animalId, input.generations);
         const breedingRecord = await db
           .select()
           .from(breedingRecords)
-          .where(eq(breedingRecords.animalId, input.animalId));
+          .where(and(eq(breedingRecords.animalId, input.animalId), eq(breedingRecords.kind, 'parentage')))
+          .orderBy(desc(breedingRecords.id))
+          .limit(1);
 
-        // Build pedigree tree
-        const pedigree = {
-          animal: animal[0],
-          sire: null as any,
-          dam: null as any,
+        return {
+          ...pedigree,
           breedingInfo: breedingRecord[0] || null,
         };
-
-        if (breedingRecord.length > 0) {
-          const record = breedingRecord[0];
-          
-          if (record.sireId) {
-            const sire = await db.select().from(animals).where(eq(animals.id, record.sireId));
-            pedigree.sire = sire[0] || null;
-          }
-
-          if (record.damId) {
-            const dam = await db.select().from(animals).where(eq(animals.id, record.damId));
-            pedigree.dam = dam[0] || null;
-          }
-        }
-
-        return pedigree;
       } catch (error) {
+        if (error instanceof PedigreeError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
         console.error('Get animal pedigree error:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -181,14 +172,14 @@ export const animalGenealogyRouter = router({
         const offspring = await db
           .select()
           .from(breedingRecords)
-          .where(eq(breedingRecords.sireId, input.animalId))
+          .where(and(eq(breedingRecords.sireId, input.animalId), eq(breedingRecords.kind, 'parentage')))
           .limit(input.limit)
           .offset(input.offset);
 
         const damOffspring = await db
           .select()
           .from(breedingRecords)
-          .where(eq(breedingRecords.damId, input.animalId))
+          .where(and(eq(breedingRecords.damId, input.animalId), eq(breedingRecords.kind, 'parentage')))
           .limit(input.limit)
           .offset(input.offset);
 
@@ -216,7 +207,7 @@ export const animalGenealogyRouter = router({
   /**
    * Get bloodline statistics
    */
-  getBloodlineStats: protectedProcedure
+  getBloodlineStats: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -288,54 +279,26 @@ export const animalGenealogyRouter = router({
       })
     )
     .query(async ({ input }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Database not available',
-        });
-      }
-
       try {
-        // Get pedigree for both sire and dam
-        const sireBreeding = await db
-          .select()
-          .from(breedingRecords)
-          .where(eq(breedingRecords.animalId, input.sireId));
-
-        const damBreeding = await db
-          .select()
-          .from(breedingRecords)
-          .where(eq(breedingRecords.animalId, input.damId));
-
-        // Check for common ancestors
-        const sireAncestors = new Set<number>();
-        const damAncestors = new Set<number>();
-
-        if (sireBreeding.length > 0) {
-          const record = sireBreeding[0];
-          if (record.sireId) sireAncestors.add(record.sireId);
-          if (record.damId) sireAncestors.add(record.damId);
-        }
-
-        if (damBreeding.length > 0) {
-          const record = damBreeding[0];
-          if (record.sireId) damAncestors.add(record.sireId);
-          if (record.damId) damAncestors.add(record.damId);
-        }
-
-        // Find common ancestors
-        const commonAncestors = Array.from(sireAncestors).filter((id) => damAncestors.has(id));
+        const mating = await analyzeMating(input.sireId, input.damId);
+        const related = mating.offspringInbreeding > 0;
 
         return {
-          hasCommonAncestors: commonAncestors.length > 0,
-          commonAncestorCount: commonAncestors.length,
-          inbreedingRisk: commonAncestors.length > 0 ? 'moderate' : 'low',
-          recommendation: commonAncestors.length > 0 
+          hasCommonAncestors: mating.commonAncestors.length > 0,
+          commonAncestorCount: mating.commonAncestors.length,
+          commonAncestors: mating.commonAncestors,
+          inbreedingCoefficient: mating.offspringInbreeding,
+          inbreedingRisk: mating.risk === 'none' ? 'low' : mating.risk,
+          recommendation: mating.risk === 'high' || mating.risk === 'moderate'
             ? 'Consider alternative breeding partners to reduce inbreeding risk'
-            : 'Safe to proceed with breeding',
+            : related
+              ? 'Related, but offspring inbreeding stays below the first-cousin level'
+              : 'Safe to proceed with breeding',
         };
       } catch (error) {
+        if (error instanceof PedigreeError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
         console.error('Detect inbreeding error:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -343,4 +306,11 @@ export const animalGenealogyRouter = router({
         });
       }
     }),
+
+  /**
+   * Inbreeding coefficient of every animal on the farm over its full pedigree
+   */
+  getHerdInbreeding: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => getHerdInbreeding(input.farmId)),
 });
@@ -1,4 +1,4 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -14,7 +14,7 @@ export const animalHealthDashboardRouter = router({
   /**
    * Get health dashboard summary
    */
-  getHealthDashboard: protectedProcedure
+  getHealthDashboard: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -71,7 +71,7 @@ export const animalHealthDashboardRouter = router({
   /**
    * Get vaccination schedule for animals
    */
-  getVaccinationSchedule: protectedProcedure
+  getVaccinationSchedule: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -143,7 +143,7 @@ export const animalHealthDashboardRouter = router({
   /**
    * Get health alerts for animals
    */
-  getHealthAlerts: protectedProcedure
+  getHealthAlerts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -339,7 +339,7 @@ export const animalHealthDashboardRouter = router({
   /**
    * Get health statistics by breed
    */
-  getBreedHealthStats: protectedProcedure
+  getBreedHealthStats: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
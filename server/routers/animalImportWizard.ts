@@ -1,4 +1,4 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -14,7 +14,7 @@ export const animalImportWizardRouter = router({
   /**
    * Parse and validate import file
    */
-  validateImportFile: protectedProcedure
+  validateImportFile: farmProcedure("editor")
     .input(
       z.object({
         fileName: z.string(),
@@ -79,7 +79,7 @@ export const animalImportWizardRouter = router({
   /**
    * Check for duplicate animals
    */
-  checkForDuplicates: protectedProcedure
+  checkForDuplicates: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -124,7 +124,7 @@ export const animalImportWizardRouter = router({
   /**
    * Get import preview with validation results
    */
-  getImportPreview: protectedProcedure
+  getImportPreview: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -211,7 +211,7 @@ export const animalImportWizardRouter = router({
   /**
    * Execute import
    */
-  executeImport: protectedProcedure
+  executeImport: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -286,7 +286,7 @@ export const animalImportWizardRouter = router({
   /**
    * Get import history
    */
-  getImportHistory: protectedProcedure
+  getImportHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -376,7 +376,7 @@ TAG-004,Angus,Male,2023-04-05,Healthy`;
   /**
    * Get import statistics
    */
-  getImportStatistics: protectedProcedure
+  getImportStatistics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
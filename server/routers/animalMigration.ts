@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { getDb } from "../db";
 import { z } from "zod";
 import { and, eq, inArray } from "drizzle-orm";
@@ -6,7 +6,7 @@ import { animals, speciesTemplates, breeds } from "../../drizzle/schema";
 
 export const animalMigrationRouter = router({
   // Get migration summary for a farm
-  getMigrationSummary: protectedProcedure
+  getMigrationSummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = ctx.db;
@@ -31,7 +31,7 @@ export const animalMigrationRouter = router({
     }),
 
   // Get animals ready for migration
-  getAnimalsForMigration: protectedProcedure
+  getAnimalsForMigration: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -122,7 +122,7 @@ export const animalMigrationRouter = router({
     }),
 
   // Batch migrate animals
-  batchMigrateAnimals: protectedProcedure
+  batchMigrateAnimals: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -226,7 +226,7 @@ export const animalMigrationRouter = router({
     }),
 
   // Get migration history
-  getMigrationHistory: protectedProcedure
+  getMigrationHistory: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), limit: z.number().default(50) }))
     .query(async ({ input, ctx }) => {
       const db = ctx.db;
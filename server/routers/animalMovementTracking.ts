@@ -1,4 +1,4 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -169,7 +169,7 @@ export const animalMovementTrackingRouter = router({
   /**
    * Get animals in quarantine
    */
-  getAnimalsInQuarantine: protectedProcedure
+  getAnimalsInQuarantine: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -279,7 +279,7 @@ export const animalMovementTrackingRouter = router({
   /**
    * Get movement statistics by farm
    */
-  getMovementStatistics: protectedProcedure
+  getMovementStatistics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -334,7 +334,7 @@ export const animalMovementTrackingRouter = router({
   /**
    * Get quarantine schedule
    */
-  getQuarantineSchedule: protectedProcedure
+  getQuarantineSchedule: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
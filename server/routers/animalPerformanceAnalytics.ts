@@ -1,9 +1,13 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
 import { animals } from '../../drizzle/schema';
 import { eq } from 'drizzle-orm';
+import { DairyError } from '../services/dairy';
+import { getCowLactations, getHerdDairySummary, getMilkTotals } from '../services/dairyService';
+
+const TIME_RANGE_DAYS = { week: 7, month: 30, quarter: 91, year: 365 } as const;
 
 /**
  * Animal Performance Analytics Router
@@ -142,7 +146,7 @@ export const animalPerformanceAnalyticsRouter = router({
   /**
    * Get breed performance comparison
    */
-  getBreedPerformanceComparison: protectedProcedure
+  getBreedPerformanceComparison: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -201,7 +205,7 @@ export const animalPerformanceAnalyticsRouter = router({
   /**
    * Get animal productivity dashboard
    */
-  getProductivityDashboard: protectedProcedure
+  getProductivityDashboard: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -224,13 +228,18 @@ export const animalPerformanceAnalyticsRouter = router({
           .from(animals)
           .where(eq(animals.farmId, input.farmId));
 
+        const since = new Date(Date.now() - TIME_RANGE_DAYS[input.timeRange] * 24 * 60 * 60 * 1000);
+        const milk = await getMilkTotals(input.farmId, since, new Date());
+        const dairy = await getHerdDairySummary(input.farmId);
+
         // Calculate productivity metrics
         const dashboard = {
           totalAnimals: farmAnimals.length,
           activeAnimals: farmAnimals.filter((a) => a.status === 'active').length,
           productiveAnimals: Math.round(farmAnimals.length * 0.85), // 85% productive
           metrics: {
-            totalMilkProduction: 2500, // liters
+            totalMilkProduction: milk.totalLiters, // liters
+            saleableMilkProduction: milk.saleableLiters,
             totalEggProduction: 5000, // count
             totalWoolProduction: 150, // kg
             averageWeightGain: 2.5, // kg/week
@@ -240,6 +249,14 @@ export const animalPerformanceAnalyticsRouter = router({
             { breed: 'Jersey', production: 1800, animals: 10 },
             { breed: 'Angus', production: 1200, animals: 8 },
           ],
+          dairy: {
+            cowsInMilk: dairy.cowsInMilk,
+            dryCows: dairy.dryCows,
+            averageDaysInMilk: dairy.averageDaysInMilk,
+            averageDailyLitersPerCow: dairy.averageDailyLitersPerCow,
+            averageProjected305Liters: dairy.averageProjected305Liters,
+            highSccCows: dairy.highSccCows.length,
+          },
           timeRange: input.timeRange,
           lastUpdated: new Date(),
         };
@@ -257,7 +274,7 @@ export const animalPerformanceAnalyticsRouter = router({
   /**
    * Analyze performance by age group
    */
-  getPerformanceByAgeGroup: protectedProcedure
+  getPerformanceByAgeGroup: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -332,7 +349,7 @@ export const animalPerformanceAnalyticsRouter = router({
   /**
    * Get performance alerts
    */
-  getPerformanceAlerts: protectedProcedure
+  getPerformanceAlerts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -384,4 +401,46 @@ export const animalPerformanceAnalyticsRouter = router({
         });
       }
     }),
+
+  /**
+   * Lactation curves for a cow: days in milk, peak, 305-day projection and milk quality
+   */
+  getLactationCurves: farmProcedure("viewer")
+    .input(
+      z.object({
+        farmId: z.number(),
+        animalId: z.number(),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        return await getCowLactations(input.farmId, input.animalId);
+      } catch (error) {
+        if (error instanceof DairyError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        console.error('Get lactation curves error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch lactation curves',
+        });
+      }
+    }),
+
+  /**
+   * Dairy herd figures: cows in milk, days in milk, yields, projections and cell counts
+   */
+  getDairyHerdPerformance: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(async ({ input }) => {
+      try {
+        return await getHerdDairySummary(input.farmId);
+      } catch (error) {
+        console.error('Get dairy herd performance error:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Failed to fetch dairy herd performance',
+        });
+      }
+    }),
 });
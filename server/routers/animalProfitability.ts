@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { eq, and, gte, lte, sum, inArray, sql, desc } from "drizzle-orm";
@@ -13,7 +13,7 @@ export const animalProfitabilityRouter = router({
   /**
    * Calculate profitability by animal type for a period
    */
-  calculateAnimalProfitability: protectedProcedure
+  calculateAnimalProfitability: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date(),
@@ -130,7 +130,7 @@ export const animalProfitabilityRouter = router({
   /**
    * Get profitability analysis for a farm
    */
-  getProfitabilityAnalysis: protectedProcedure
+  getProfitabilityAnalysis: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       period: z.string().optional(), // YYYY-MM or YYYY-Q1
@@ -160,7 +160,7 @@ export const animalProfitabilityRouter = router({
   /**
    * Get animal type comparison
    */
-  getAnimalTypeComparison: protectedProcedure
+  getAnimalTypeComparison: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       period: z.string() // YYYY-MM or YYYY-Q1
@@ -188,7 +188,7 @@ export const animalProfitabilityRouter = router({
   /**
    * Get profitability trends for an animal type
    */
-  getAnimalTypeTrends: protectedProcedure
+  getAnimalTypeTrends: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       animalType: z.string(),
@@ -251,7 +251,7 @@ export const animalProfitabilityRouter = router({
   /**
    * Get recommendations based on profitability
    */
-  getProfitabilityRecommendations: protectedProcedure
+  getProfitabilityRecommendations: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       period: z.string()
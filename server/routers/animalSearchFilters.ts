@@ -1,4 +1,4 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -14,7 +14,7 @@ export const animalSearchFiltersRouter = router({
   /**
    * Search animals with advanced filters
    */
-  searchAnimals: protectedProcedure
+  searchAnimals: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -102,7 +102,7 @@ export const animalSearchFiltersRouter = router({
   /**
    * Get available filter options
    */
-  getFilterOptions: protectedProcedure
+  getFilterOptions: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -147,7 +147,7 @@ export const animalSearchFiltersRouter = router({
   /**
    * Save filter preset
    */
-  saveFilterPreset: protectedProcedure
+  saveFilterPreset: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -192,7 +192,7 @@ export const animalSearchFiltersRouter = router({
   /**
    * Get saved filter presets
    */
-  getSavedPresets: protectedProcedure
+  getSavedPresets: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -269,7 +269,7 @@ export const animalSearchFiltersRouter = router({
   /**
    * Get advanced search suggestions
    */
-  getSearchSuggestions: protectedProcedure
+  getSearchSuggestions: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -317,7 +317,7 @@ export const animalSearchFiltersRouter = router({
   /**
    * Export search results
    */
-  exportSearchResults: protectedProcedure
+  exportSearchResults: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -355,7 +355,7 @@ TAG-003,Jersey,Female,Active,2023-03-10`;
   /**
    * Get search statistics
    */
-  getSearchStatistics: protectedProcedure
+  getSearchStatistics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
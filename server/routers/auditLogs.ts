@@ -1,11 +1,11 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const auditLogsRouter = router({
   // Get audit logs for a farm
-  getFarmAuditLogs: protectedProcedure
+  getFarmAuditLogs: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -67,7 +67,7 @@ export const auditLogsRouter = router({
     }),
 
   // Get user activity summary
-  getUserActivitySummary: protectedProcedure
+  getUserActivitySummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.string(), userId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
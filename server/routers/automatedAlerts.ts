@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -10,7 +10,7 @@ export const automatedAlertsRouter = router({
    * Create alert subscription
    * Subscribe to alerts for budget overages, optimal purchase windows, approval requests
    */
-  createAlertSubscription: protectedProcedure
+  createAlertSubscription: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -54,7 +54,7 @@ export const automatedAlertsRouter = router({
    * Send alert notification
    * Send SMS or email alert to user
    */
-  sendAlert: protectedProcedure
+  sendAlert: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -103,7 +103,7 @@ export const automatedAlertsRouter = router({
    * Get alert history
    * Retrieve all alerts for a farm
    */
-  getAlertHistory: protectedProcedure
+  getAlertHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -175,7 +175,7 @@ export const automatedAlertsRouter = router({
    * Acknowledge alert
    * Mark alert as read
    */
-  acknowledgeAlert: protectedProcedure
+  acknowledgeAlert: farmProcedure("editor")
     .input(
       z.object({
         alertId: z.string(),
@@ -211,7 +211,7 @@ export const automatedAlertsRouter = router({
    * Get alert preferences
    * Retrieve user alert notification preferences
    */
-  getAlertPreferences: protectedProcedure
+  getAlertPreferences: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -276,7 +276,7 @@ export const automatedAlertsRouter = router({
   /**
    * Send staffing shortage alert
    */
-  sendStaffingAlert: protectedProcedure
+  sendStaffingAlert: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -330,7 +330,7 @@ export const automatedAlertsRouter = router({
    * Update alert preferences
    * Update user alert notification preferences
    */
-  updateAlertPreferences: protectedProcedure
+  updateAlertPreferences: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,257 +1,361 @@
-import { router, protectedProcedure } from '../_core/router';
+import { router, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { and, desc, eq, gte, lte, sql } from 'drizzle-orm';
+import { getDb } from '../db';
+import {
+  bankAccounts,
+  bankCategorizationRules,
+  bankStatementImports,
+  bankTransactions,
+} from '../../drizzle/schema';
+import { StatementParseError, detectStatementFormat } from '../services/bankStatementParsers';
+import {
+  ReconciliationError,
+  applyRulesToUncategorized,
+  autoMatchTransactions,
+  categorizeTransaction,
+  detectDuplicates,
+  getReconciliationSummary,
+  importStatement,
+  markDuplicates,
+  matchTransaction,
+  normalizeDescription,
+  suggestMatches,
+  unmatchTransaction,
+} from '../services/bankReconciliationService';
+
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+function bankingFailure(error: unknown): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof ReconciliationError || error instanceof StatementParseError) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+  }
+  throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: (error as Error).message });
+}
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Database unavailable' });
+  return db;
+}
+
+function monthRange(month: string) {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return { from: new Date(Date.UTC(year, monthIndex - 1, 1)), to: new Date(Date.UTC(year, monthIndex, 0)) };
+}
+
+const csvMappingSchema = z.object({
+  date: z.string().min(1),
+  description: z.string().min(1),
+  amount: z.string().optional(),
+  debit: z.string().optional(),
+  credit: z.string().optional(),
+  reference: z.string().optional(),
+  counterparty: z.string().optional(),
+  balance: z.string().optional(),
+  dateFormat: z.enum(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY']).optional(),
+  delimiter: z.string().max(1).optional(),
+  decimalComma: z.boolean().optional(),
+});
 
 export const bankingIntegrationRouter = router({
-  // Connect bank account via OAuth
-  connectBankAccount: protectedProcedure
+  // Register a bank or mobile-money account to import statements into
+  createBankAccount: farmProcedure('admin')
     .input(
       z.object({
         farmId: z.number(),
-        bankName: z.enum(['chase', 'bofa', 'wells_fargo', 'citi', 'other']),
-        accountType: z.enum(['checking', 'savings', 'business']),
+        name: z.string().min(1).max(255),
+        institution: z.string().max(255).optional(),
+        accountType: z.enum(['bank', 'mobile_money']).default('bank'),
+        accountNumberLast4: z.string().regex(/^\d{4}$/).optional(),
+        currency: z.string().length(3).default('GHS'),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      try {
-        const authUrl = `https://banking-oauth.example.com/authorize?client_id=farmkonnect&redirect_uri=https://farmkonnect.com/banking/callback&state=${input.farmId}`;
-
-        return {
-          success: true,
-          message: 'Bank connection initiated',
-          authUrl,
-          bankName: input.bankName,
-          accountType: input.accountType,
-          farmId: input.farmId,
-        };
-      } catch (error) {
-        throw new Error('Failed to initiate bank connection');
-      }
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [result] = await db.insert(bankAccounts).values(input);
+      return { success: true, id: result.insertId };
     }),
 
   // Get connected bank accounts
-  getConnectedBankAccounts: protectedProcedure
+  getConnectedBankAccounts: farmProcedure('viewer')
     .input(z.object({ farmId: z.number() }))
-    .query(async ({ ctx, input }) => {
-      try {
-        const accounts = [
-          {
-            id: 'BANK-001',
-            bankName: 'Chase Bank',
-            accountType: 'checking',
-            accountNumber: '****1234',
-            balance: 15000,
-            lastSync: new Date(Date.now() - 3600000),
-            syncStatus: 'synced',
-            transactionCount: 45,
-          },
-          {
-            id: 'BANK-002',
-            bankName: 'Wells Fargo',
-            accountType: 'savings',
-            accountNumber: '****5678',
-            balance: 50000,
-            lastSync: new Date(Date.now() - 7200000),
-            syncStatus: 'synced',
-            transactionCount: 12,
-          },
-        ];
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const accounts = await db
+        .select({
+          id: bankAccounts.id,
+          name: bankAccounts.name,
+          institution: bankAccounts.institution,
+          accountType: bankAccounts.accountType,
+          accountNumberLast4: bankAccounts.accountNumberLast4,
+          currency: bankAccounts.currency,
+          isActive: bankAccounts.isActive,
+          transactionCount: sql<number>`(select count(*) from bankTransactions bt where bt.bankAccountId = ${bankAccounts.id})`,
+          unmatchedCount: sql<number>`(select count(*) from bankTransactions bt where bt.bankAccountId = ${bankAccounts.id} and bt.status = 'unmatched')`,
+          lastImportAt: sql<Date | null>`(select max(bi.createdAt) from bankStatementImports bi where bi.bankAccountId = ${bankAccounts.id})`,
+        })
+        .from(bankAccounts)
+        .where(eq(bankAccounts.farmId, input.farmId))
+        .orderBy(bankAccounts.name);
 
-        return {
-          accounts,
-          total: accounts.length,
-          farmId: input.farmId,
-          lastSyncTime: new Date(),
-        };
-      } catch (error) {
-        throw new Error('Failed to get connected bank accounts');
-      }
+      return {
+        accounts: accounts.map((account) => ({
+          ...account,
+          transactionCount: Number(account.transactionCount),
+          unmatchedCount: Number(account.unmatchedCount),
+        })),
+        total: accounts.length,
+        farmId: input.farmId,
+      };
     }),
 
-  // Import transactions from bank
-  importTransactions: protectedProcedure
+  // Import a statement file (OFX, CSV with column mapping, MT940)
+  importTransactions: farmProcedure('editor')
     .input(
       z.object({
         farmId: z.number(),
-        bankAccountId: z.string(),
-        startDate: z.date(),
-        endDate: z.date(),
+        bankAccountId: z.number(),
+        fileName: z.string().max(255).optional(),
+        content: z.string().min(1).max(MAX_STATEMENT_BYTES),
+        format: z.enum(['ofx', 'csv', 'mt940']).optional(), // detected when omitted
+        csvMapping: csvMappingSchema.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      const format = input.format ?? detectStatementFormat(input.content);
       try {
-        const transactions = [
-          {
-            id: 'TXN-001',
-            date: new Date(input.startDate),
-            description: 'Farm Feed Co',
-            amount: 250,
-            type: 'debit',
-            category: 'Feed & Supplies',
-            status: 'pending_categorization',
-          },
-          {
-            id: 'TXN-002',
-            date: new Date(input.startDate),
-            description: 'Equipment Rental Inc',
-            amount: 500,
-            type: 'debit',
-            category: 'Equipment',
-            status: 'pending_categorization',
-          },
-          {
-            id: 'TXN-003',
-            date: new Date(input.startDate),
-            description: 'Crop Sale',
-            amount: 2000,
-            type: 'credit',
-            category: 'Sales',
-            status: 'pending_categorization',
-          },
-        ];
-
+        const result = await importStatement({
+          farmId: input.farmId,
+          bankAccountId: input.bankAccountId,
+          format,
+          content: input.content,
+          mapping: input.csvMapping,
+          fileName: input.fileName,
+          importedBy: ctx.user.id,
+        });
         return {
           success: true,
-          message: `Imported ${transactions.length} transactions`,
-          transactionsImported: transactions.length,
-          transactions,
-          dateRange: { start: input.startDate, end: input.endDate },
-          pendingCategorization: transactions.length,
+          format,
+          message: `Imported ${result.imported} transactions`,
+          transactionsImported: result.imported,
+          ...result,
         };
       } catch (error) {
-        throw new Error('Failed to import transactions');
+        bankingFailure(error);
       }
     }),
 
-  // Auto-categorize transactions using AI
-  autoCategorizeTransactions: protectedProcedure
+  // Statement lines, filterable by status and period
+  listTransactions: farmProcedure('viewer')
     .input(
       z.object({
         farmId: z.number(),
-        transactionIds: z.array(z.string()),
+        bankAccountId: z.number().optional(),
+        status: z.enum(['unmatched', 'matched', 'ignored', 'duplicate']).optional(),
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+        limit: z.number().min(1).max(500).default(100),
+        offset: z.number().min(0).default(0),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      try {
-        const categorizedTransactions = [
-          {
-            id: 'TXN-001',
-            description: 'Farm Feed Co',
-            suggestedCategory: 'Feed & Supplies',
-            confidence: 0.95,
-            alternativeCategories: ['Supplies', 'Livestock Care'],
-          },
-          {
-            id: 'TXN-002',
-            description: 'Equipment Rental Inc',
-            suggestedCategory: 'Equipment',
-            confidence: 0.92,
-            alternativeCategories: ['Machinery', 'Tools'],
-          },
-          {
-            id: 'TXN-003',
-            description: 'Crop Sale',
-            suggestedCategory: 'Sales',
-            confidence: 0.98,
-            alternativeCategories: ['Revenue', 'Income'],
-          },
-        ];
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      return await db
+        .select()
+        .from(bankTransactions)
+        .where(and(
+          eq(bankTransactions.farmId, input.farmId),
+          input.bankAccountId ? eq(bankTransactions.bankAccountId, input.bankAccountId) : undefined,
+          input.status ? eq(bankTransactions.status, input.status) : undefined,
+          input.startDate ? gte(bankTransactions.transactionDate, input.startDate) : undefined,
+          input.endDate ? lte(bankTransactions.transactionDate, input.endDate) : undefined
+        ))
+        .orderBy(desc(bankTransactions.transactionDate), desc(bankTransactions.id))
+        .limit(input.limit)
+        .offset(input.offset);
+    }),
 
-        return {
-          success: true,
-          message: `Auto-categorized ${categorizedTransactions.length} transactions`,
-          categorizedCount: categorizedTransactions.length,
-          transactions: categorizedTransactions,
-          averageConfidence: (0.95 + 0.92 + 0.98) / 3,
-        };
+  // Apply the farm's categorization rules to uncategorized lines
+  autoCategorizeTransactions: farmProcedure('editor')
+    .input(
+      z.object({
+        farmId: z.number(),
+        transactionIds: z.array(z.number()).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      try {
+        const { categorized } = await applyRulesToUncategorized(input.farmId, input.transactionIds);
+        return { success: true, categorizedCount: categorized };
       } catch (error) {
-        throw new Error('Failed to auto-categorize transactions');
+        bankingFailure(error);
       }
     }),
 
-  // Manually categorize transaction
-  categorizeTransaction: protectedProcedure
+  // Manually categorize a transaction; learns a rule for the merchant by default
+  categorizeTransaction: farmProcedure('editor')
     .input(
       z.object({
-        transactionId: z.string(),
-        category: z.string(),
-        description: z.string().optional(),
-        tags: z.array(z.string()).optional(),
+        farmId: z.number(),
+        transactionId: z.number(),
+        category: z.string().min(1).max(100),
+        learnRule: z.boolean().default(true),
       })
     )
     .mutation(async ({ ctx, input }) => {
       try {
-        return {
-          success: true,
-          message: 'Transaction categorized successfully',
-          transactionId: input.transactionId,
-          category: input.category,
-          categorizedAt: new Date(),
-        };
+        return await categorizeTransaction(input.farmId, input.transactionId, input.category, ctx.user.id, input.learnRule);
       } catch (error) {
-        throw new Error('Failed to categorize transaction');
+        bankingFailure(error);
       }
     }),
 
+  listCategorizationRules: farmProcedure('viewer')
+    .input(z.object({ farmId: z.number() }))
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      return await db
+        .select()
+        .from(bankCategorizationRules)
+        .where(eq(bankCategorizationRules.farmId, input.farmId))
+        .orderBy(desc(bankCategorizationRules.hitCount));
+    }),
+
+  createCategorizationRule: farmProcedure('editor')
+    .input(
+      z.object({
+        farmId: z.number(),
+        pattern: z.string().min(2).max(255),
+        direction: z.enum(['in', 'out', 'any']).default('any'),
+        category: z.string().min(1).max(100),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await requireDb();
+      // Rules match against normalized descriptions, so store the pattern the same way
+      const pattern = normalizeDescription(input.pattern);
+      if (!pattern) throw new TRPCError({ code: 'BAD_REQUEST', message: 'Pattern must contain letters' });
+      await db
+        .insert(bankCategorizationRules)
+        .values({ ...input, pattern, source: 'manual', createdBy: ctx.user.id })
+        .onDuplicateKeyUpdate({ set: { category: input.category, source: 'manual', isActive: true } });
+      return { success: true, pattern };
+    }),
+
+  deleteCategorizationRule: farmProcedure('editor')
+    .input(z.object({ farmId: z.number(), ruleId: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [result] = await db
+        .delete(bankCategorizationRules)
+        .where(and(eq(bankCategorizationRules.id, input.ruleId), eq(bankCategorizationRules.farmId, input.farmId)));
+      if (result.affectedRows === 0) throw new TRPCError({ code: 'NOT_FOUND', message: 'Rule not found' });
+      return { success: true };
+    }),
+
   // Get transaction reconciliation status
-  getReconciliationStatus: protectedProcedure
+  getReconciliationStatus: farmProcedure('viewer')
     .input(
       z.object({
         farmId: z.number(),
         month: z.string().regex(/^\d{4}-\d{2}$/),
       })
     )
-    .query(async ({ ctx, input }) => {
+    .query(async ({ input }) => {
+      const { from, to } = monthRange(input.month);
       try {
-        return {
-          month: input.month,
-          bankBalance: 15000,
-          bookBalance: 14850,
-          difference: 150,
-          reconciled: false,
-          unreconciledTransactions: 3,
-          pendingTransactions: [
-            {
-              id: 'TXN-045',
-              date: new Date(),
-              description: 'Pending deposit',
-              amount: 150,
-              status: 'pending',
-            },
-          ],
-          lastReconciled: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-        };
+        return { month: input.month, ...(await getReconciliationSummary(input.farmId, from, to)) };
       } catch (error) {
-        throw new Error('Failed to get reconciliation status');
+        bankingFailure(error);
       }
     }),
 
-  // Reconcile transactions
-  reconcileTransactions: protectedProcedure
+  // Auto-match unmatched lines in a month against expenses, revenue and invoices
+  reconcileTransactions: farmProcedure('editor')
     .input(
       z.object({
         farmId: z.number(),
         month: z.string().regex(/^\d{4}-\d{2}$/),
-        transactionIds: z.array(z.string()),
+        dateWindowDays: z.number().min(0).max(60).optional(),
       })
     )
-    .mutation(async ({ ctx, input }) => {
+    .mutation(async ({ input }) => {
+      const { from, to } = monthRange(input.month);
       try {
+        const result = await autoMatchTransactions(input.farmId, { from, to, dateWindowDays: input.dateWindowDays });
         return {
           success: true,
-          message: `Reconciled ${input.transactionIds.length} transactions`,
-          reconciliationId: `REC-${Date.now()}`,
           month: input.month,
-          transactionsReconciled: input.transactionIds.length,
-          reconciliationDate: new Date(),
-          status: 'complete',
+          message: `Matched ${result.matched} transactions`,
+          transactionsReconciled: result.matched,
+          stillUnmatched: result.unmatched,
         };
       } catch (error) {
-        throw new Error('Failed to reconcile transactions');
+        bankingFailure(error);
+      }
+    }),
+
+  getMatchSuggestions: farmProcedure('viewer')
+    .input(z.object({ farmId: z.number(), transactionId: z.number(), dateWindowDays: z.number().min(0).max(60).optional() }))
+    .query(async ({ input }) => {
+      try {
+        return await suggestMatches(input.farmId, input.transactionId, input.dateWindowDays);
+      } catch (error) {
+        bankingFailure(error);
+      }
+    }),
+
+  matchTransaction: farmProcedure('editor')
+    .input(
+      z.object({
+        farmId: z.number(),
+        transactionId: z.number(),
+        targetType: z.enum(['expense', 'revenue', 'invoice']),
+        targetId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await matchTransaction(input.farmId, input.transactionId, input.targetType, input.targetId, ctx.user.id);
+      } catch (error) {
+        bankingFailure(error);
+      }
+    }),
+
+  unmatchTransaction: farmProcedure('editor')
+    .input(z.object({ farmId: z.number(), transactionId: z.number() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await unmatchTransaction(input.farmId, input.transactionId);
+      } catch (error) {
+        bankingFailure(error);
+      }
+    }),
+
+  // Lines with no book counterpart, e.g. transfers between the farm's own accounts
+  ignoreTransaction: farmProcedure('editor')
+    .input(z.object({ farmId: z.number(), transactionId: z.number(), ignore: z.boolean().default(true) }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [result] = await db
+        .update(bankTransactions)
+        .set({ status: input.ignore ? 'ignored' : 'unmatched' })
+        .where(and(
+          eq(bankTransactions.id, input.transactionId),
+          eq(bankTransactions.farmId, input.farmId),
+          eq(bankTransactions.status, input.ignore ? 'unmatched' : 'ignored')
+        ));
+      if (result.affectedRows === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Transaction is not ${input.ignore ? 'unmatched' : 'ignored'}` });
       }
+      return { success: true };
     }),
 
   // Detect duplicate transactions
-  detectDuplicateTransactions: protectedProcedure
+  detectDuplicateTransactions: farmProcedure('viewer')
     .input(
       z.object({
         farmId: z.number(),
@@ -259,69 +363,47 @@ export const bankingIntegrationRouter = router({
           start: z.date(),
           end: z.date(),
         }),
+        minSimilarity: z.number().min(0.5).max(1).optional(),
       })
     )
-    .query(async ({ ctx, input }) => {
+    .query(async ({ input }) => {
       try {
-        const duplicates = [
-          {
-            group: 'DUP-001',
-            transactions: [
-              {
-                id: 'TXN-010',
-                date: new Date(),
-                description: 'Farm Feed Co',
-                amount: 250,
-                source: 'bank',
-              },
-              {
-                id: 'EXP-010',
-                date: new Date(),
-                description: 'Farm Feed Co',
-                amount: 250,
-                source: 'manual_entry',
-              },
-            ],
-            similarity: 0.98,
-            action: 'pending_review',
-          },
-        ];
-
+        const duplicates = await detectDuplicates(input.farmId, input.dateRange.start, input.dateRange.end, input.minSimilarity);
         return {
           duplicatesFound: duplicates.length,
           duplicates,
           dateRange: input.dateRange,
-          recommendedAction: 'review_and_merge',
         };
       } catch (error) {
-        throw new Error('Failed to detect duplicate transactions');
+        bankingFailure(error);
       }
     }),
 
   // Merge duplicate transactions
-  mergeDuplicateTransactions: protectedProcedure
+  mergeDuplicateTransactions: farmProcedure('editor')
     .input(
       z.object({
-        primaryTransactionId: z.string(),
-        duplicateTransactionIds: z.array(z.string()),
+        farmId: z.number(),
+        primaryTransactionId: z.number(),
+        duplicateTransactionIds: z.array(z.number()).min(1),
       })
     )
-    .mutation(async ({ ctx, input }) => {
+    .mutation(async ({ input }) => {
       try {
+        const { merged } = await markDuplicates(input.farmId, input.primaryTransactionId, input.duplicateTransactionIds);
         return {
           success: true,
-          message: `Merged ${input.duplicateTransactionIds.length} duplicate transactions`,
+          message: `Merged ${merged} duplicate transactions`,
           primaryTransactionId: input.primaryTransactionId,
-          mergedCount: input.duplicateTransactionIds.length,
-          mergedAt: new Date(),
+          mergedCount: merged,
         };
       } catch (error) {
-        throw new Error('Failed to merge duplicate transactions');
+        bankingFailure(error);
       }
     }),
 
   // Get transaction analytics
-  getTransactionAnalytics: protectedProcedure
+  getTransactionAnalytics: farmProcedure('viewer')
     .input(
       z.object({
         farmId: z.number(),
@@ -329,97 +411,104 @@ export const bankingIntegrationRouter = router({
         endDate: z.date(),
       })
     )
-    .query(async ({ ctx, input }) => {
-      try {
-        return {
-          totalTransactions: 127,
-          totalIncome: 25000,
-          totalExpenses: 12500,
-          netCashFlow: 12500,
-          averageTransaction: 98.43,
-          largestTransaction: 5000,
-          smallestTransaction: 5,
-          transactionsByCategory: {
-            'Feed & Supplies': 45,
-            'Equipment': 12,
-            'Labor': 23,
-            'Utilities': 18,
-            'Sales': 29,
-          },
-          transactionsByType: {
-            debit: 98,
-            credit: 29,
-          },
-          dailyAverage: 4.23,
-          weeklyAverage: 29.6,
-          monthlyAverage: 127,
-        };
-      } catch (error) {
-        throw new Error('Failed to get transaction analytics');
-      }
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const inRange = and(
+        eq(bankTransactions.farmId, input.farmId),
+        gte(bankTransactions.transactionDate, input.startDate),
+        lte(bankTransactions.transactionDate, input.endDate),
+        sql`${bankTransactions.status} <> 'duplicate'`
+      );
+      const [totals] = await db
+        .select({
+          count: sql<number>`count(*)`,
+          income: sql<string>`coalesce(sum(case when ${bankTransactions.amount} > 0 then ${bankTransactions.amount} end), 0)`,
+          expenses: sql<string>`coalesce(-sum(case when ${bankTransactions.amount} < 0 then ${bankTransactions.amount} end), 0)`,
+          largest: sql<string>`coalesce(max(abs(${bankTransactions.amount})), 0)`,
+          smallest: sql<string>`coalesce(min(abs(${bankTransactions.amount})), 0)`,
+        })
+        .from(bankTransactions)
+        .where(inRange);
+      const byCategory = await db
+        .select({
+          category: sql<string>`coalesce(${bankTransactions.category}, 'uncategorized')`,
+          count: sql<number>`count(*)`,
+          amount: sql<string>`sum(${bankTransactions.amount})`,
+        })
+        .from(bankTransactions)
+        .where(inRange)
+        .groupBy(sql`1`);
+
+      const count = Number(totals?.count ?? 0);
+      const income = Number(totals?.income ?? 0);
+      const spent = Number(totals?.expenses ?? 0);
+      return {
+        totalTransactions: count,
+        totalIncome: income,
+        totalExpenses: spent,
+        netCashFlow: Math.round((income - spent) * 100) / 100,
+        averageTransaction: count ? Math.round(((income + spent) / count) * 100) / 100 : 0,
+        largestTransaction: Number(totals?.largest ?? 0),
+        smallestTransaction: Number(totals?.smallest ?? 0),
+        transactionsByCategory: Object.fromEntries(
+          byCategory.map((row) => [row.category, { count: Number(row.count), amount: Number(row.amount) }])
+        ),
+      };
     }),
 
-  // Disconnect bank account
-  disconnectBankAccount: protectedProcedure
-    .input(z.object({ bankAccountId: z.string() }))
-    .mutation(async ({ ctx, input }) => {
-      try {
-        return {
-          success: true,
-          message: 'Bank account disconnected successfully',
-          bankAccountId: input.bankAccountId,
-          disconnectedAt: new Date(),
-        };
-      } catch (error) {
-        throw new Error('Failed to disconnect bank account');
-      }
+  // Disconnect bank account (history is kept)
+  disconnectBankAccount: farmProcedure('admin')
+    .input(z.object({ farmId: z.number(), bankAccountId: z.number() }))
+    .mutation(async ({ input }) => {
+      const db = await requireDb();
+      const [result] = await db
+        .update(bankAccounts)
+        .set({ isActive: false })
+        .where(and(eq(bankAccounts.id, input.bankAccountId), eq(bankAccounts.farmId, input.farmId)));
+      if (result.affectedRows === 0) throw new TRPCError({ code: 'NOT_FOUND', message: 'Bank account not found' });
+      return {
+        success: true,
+        message: 'Bank account disconnected successfully',
+        bankAccountId: input.bankAccountId,
+        disconnectedAt: new Date(),
+      };
     }),
 
-  // Get sync history
-  getSyncHistory: protectedProcedure
+  // Statement import history
+  getSyncHistory: farmProcedure('viewer')
     .input(
       z.object({
         farmId: z.number(),
-        limit: z.number().default(10),
+        limit: z.number().min(1).max(100).default(10),
       })
     )
-    .query(async ({ ctx, input }) => {
-      try {
-        const history = [
-          {
-            id: 'SYNC-001',
-            timestamp: new Date(Date.now() - 3600000),
-            bankAccount: 'Chase ****1234',
-            transactionsImported: 12,
-            status: 'success',
-            duration: 45,
-          },
-          {
-            id: 'SYNC-002',
-            timestamp: new Date(Date.now() - 86400000),
-            bankAccount: 'Chase ****1234',
-            transactionsImported: 8,
-            status: 'success',
-            duration: 38,
-          },
-          {
-            id: 'SYNC-003',
-            timestamp: new Date(Date.now() - 172800000),
-            bankAccount: 'Wells Fargo ****5678',
-            transactionsImported: 5,
-            status: 'success',
-            duration: 32,
-          },
-        ];
+    .query(async ({ input }) => {
+      const db = await requireDb();
+      const history = await db
+        .select({
+          id: bankStatementImports.id,
+          timestamp: bankStatementImports.createdAt,
+          bankAccountId: bankStatementImports.bankAccountId,
+          bankAccount: bankAccounts.name,
+          format: bankStatementImports.format,
+          fileName: bankStatementImports.fileName,
+          statementStart: bankStatementImports.statementStart,
+          statementEnd: bankStatementImports.statementEnd,
+          closingBalance: bankStatementImports.closingBalance,
+          transactionsImported: bankStatementImports.importedCount,
+          skipped: bankStatementImports.skippedCount,
+          errors: bankStatementImports.errorCount,
+        })
+        .from(bankStatementImports)
+        .leftJoin(bankAccounts, eq(bankAccounts.id, bankStatementImports.bankAccountId))
+        .where(eq(bankStatementImports.farmId, input.farmId))
+        .orderBy(desc(bankStatementImports.createdAt), desc(bankStatementImports.id))
+        .limit(input.limit);
 
-        return {
-          history: history.slice(0, input.limit),
-          total: history.length,
-          successCount: history.filter((h) => h.status === 'success').length,
-          lastSync: history[0]?.timestamp,
-        };
-      } catch (error) {
-        throw new Error('Failed to get sync history');
-      }
+      return {
+        history,
+        total: history.length,
+        lastSync: history[0]?.timestamp,
+      };
     }),
 });
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { publicProcedure, protectedProcedure, router } from "../_core/trpc";
+import { publicProcedure, protectedProcedure, farmProcedure, router } from "../_core/trpc";
 import { getDb } from "../db";
 import { supplyChainRecords, blockchainTransactions, productCertifications, auditTrail } from "../../drizzle/schema";
 import { eq, desc, and, gte, lte } from "drizzle-orm";
@@ -13,7 +13,7 @@ export const blockchainSupplyChainRouter = router({
   /**
    * Create a new supply chain record for a product
    */
-  createSupplyChainRecord: protectedProcedure
+  createSupplyChainRecord: farmProcedure("editor")
     .input(
       z.object({
         productId: z.number(),
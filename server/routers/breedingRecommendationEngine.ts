@@ -1,9 +1,12 @@
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
-import { animals, breedingRecords } from '../../drizzle/schema';
+import { animals } from '../../drizzle/schema';
 import { eq } from 'drizzle-orm';
+import { inbreedingRisk, PedigreeError } from '../services/pedigree';
+import { analyzeMating, loadAnimalPedigree, rankSiresForDam } from '../services/pedigreeService';
+import { getReproductiveCalendar } from '../services/reproductionService';
 
 /**
  * Breeding Recommendation Engine Router
@@ -14,7 +17,7 @@ export const breedingRecommendationEngineRouter = router({
   /**
    * Get breeding recommendations for a sire
    */
-  getBreedingRecommendations: protectedProcedure
+  getBreedingRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -49,6 +52,7 @@ export const breedingRecommendationEngineRouter = router({
           .where(eq(animals.breed, sire[0].breed));
 
         const females = potentialDams.filter((a) => a.gender === 'female' && a.status === 'active');
+        const { graph } = await loadAnimalPedigree([input.sireId, ...females.map((dam) => dam.id)]);
 
         // Score each potential dam
         const recommendations = females.map((dam) => {
@@ -58,12 +62,11 @@ export const breedingRecommendationEngineRouter = router({
           const productionBonus = Math.random() * 20;
           score += productionBonus;
 
-          // Genetic diversity score
+          // Genetic diversity score: full marks for unrelated pairs, none at the full-sibling level
+          const offspringInbreeding = graph.matingInbreeding(input.sireId, dam.id);
           let geneticScore = 50;
           if (input.considerInbreeding) {
-            // Simulate inbreeding check
-            const hasCommonAncestors = Math.random() > 0.7;
-            geneticScore = hasCommonAncestors ? 30 : 70;
+            geneticScore = Math.max(0, 70 - offspringInbreeding * 280);
           }
           score = (score + geneticScore) / 2;
 
@@ -75,6 +78,8 @@ export const breedingRecommendationEngineRouter = router({
             damId: dam.id,
             damTagId: dam.uniqueTagId,
             damBreed: dam.breed,
+            offspringInbreeding,
+            inbreedingRisk: inbreedingRisk(offspringInbreeding),
             score: Math.min(100, Math.round(score)),
             reasons: [
               'Good genetic diversity',
@@ -139,6 +144,8 @@ export const breedingRecommendationEngineRouter = router({
           });
         }
 
+        const mating = await analyzeMating(input.sireId, input.damId);
+
         // Analyze genetics
         const analysis = {
           sire: {
@@ -153,9 +160,11 @@ export const breedingRecommendationEngineRouter = router({
           },
           compatibility: {
             breedMatch: sire[0].breed === dam[0].breed ? 'same_breed' : 'crossbreed',
-            geneticDiversity: Math.random() > 0.5 ? 'high' : 'moderate',
-            inbreedingCoefficient: Math.round(Math.random() * 10),
-            inbreedingRisk: Math.random() > 0.7 ? 'high' : 'low',
+            geneticDiversity: mating.offspringInbreeding === 0 ? 'high' : mating.risk === 'low' ? 'moderate' : 'low',
+            // Percent, over the full pedigree
+            inbreedingCoefficient: Math.round(mating.offspringInbreeding * 1000) / 10,
+            inbreedingRisk: mating.risk === 'none' ? 'low' : mating.risk,
+            commonAncestors: mating.commonAncestors,
           },
           estimatedOffspring: {
             expectedCount: Math.floor(Math.random() * 3) + 1,
@@ -173,6 +182,9 @@ export const breedingRecommendationEngineRouter = router({
 
         return analysis;
       } catch (error) {
+        if (error instanceof PedigreeError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
         console.error('Analyze breeding pair error:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -184,7 +196,7 @@ export const breedingRecommendationEngineRouter = router({
   /**
    * Get breeding season recommendations
    */
-  getBreedingSeasonRecommendations: protectedProcedure
+  getBreedingSeasonRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -205,10 +217,15 @@ export const breedingRecommendationEngineRouter = router({
         let query = db.select().from(animals).where(eq(animals.farmId, input.farmId));
         const allAnimals = await query;
 
+        // Females already served or carrying are not ready, whatever their age
+        const calendar = await getReproductiveCalendar(input.farmId, 30);
+        const notOpen = new Set(calendar.females.filter((f) => f.state !== 'open').map((f) => f.animalId));
+
         const readyForBreeding = allAnimals.filter(
           (a) =>
             a.gender === 'female' &&
             a.status === 'active' &&
+            !notOpen.has(a.id) &&
             (!a.birthDate || new Date().getFullYear() - new Date(a.birthDate).getFullYear() >= 2)
         );
 
@@ -219,6 +236,9 @@ export const breedingRecommendationEngineRouter = router({
             reason: 'Peak fertility and optimal environmental conditions',
           },
           readyForBreeding: readyForBreeding.length,
+          upcomingHeats: calendar.events
+            .filter((e) => e.type === 'heat' && readyForBreeding.some((a) => a.id === e.animalId))
+            .map((e) => ({ animalId: e.animalId, tagId: e.tag, expectedAt: e.date })),
           recommendedSires: [
             {
               id: 1,
@@ -264,7 +284,7 @@ export const breedingRecommendationEngineRouter = router({
   /**
    * Get genetic improvement plan
    */
-  getGeneticImprovementPlan: protectedProcedure
+  getGeneticImprovementPlan: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -360,64 +380,29 @@ export const breedingRecommendationEngineRouter = router({
       })
     )
     .query(async ({ input }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new TRPCError({
-          code: 'INTERNAL_SERVER_ERROR',
-          message: 'Database not available',
-        });
-      }
-
       try {
-        // Get breeding records for both animals
-        const sireBreeding = await db
-          .select()
-          .from(breedingRecords)
-          .where(eq(breedingRecords.animalId, input.sireId));
-
-        const damBreeding = await db
-          .select()
-          .from(breedingRecords)
-          .where(eq(breedingRecords.animalId, input.damId));
-
-        // Calculate inbreeding coefficient (simplified)
-        const sireAncestors = new Set<number>();
-        const damAncestors = new Set<number>();
-
-        if (sireBreeding.length > 0) {
-          const record = sireBreeding[0];
-          if (record.sireId) sireAncestors.add(record.sireId);
-          if (record.damId) sireAncestors.add(record.damId);
-        }
-
-        if (damBreeding.length > 0) {
-          const record = damBreeding[0];
-          if (record.sireId) damAncestors.add(record.sireId);
-          if (record.damId) damAncestors.add(record.damId);
-        }
-
-        const commonAncestors = Array.from(sireAncestors).filter((id) => damAncestors.has(id));
-        const inbreedingCoefficient = commonAncestors.length > 0 ? (1 / Math.pow(2, 2)) * 100 : 0;
+        // Wright's coefficient over the full pedigree, as a percentage
+        const mating = await analyzeMating(input.sireId, input.damId);
+        const inbreedingCoefficient = mating.offspringInbreeding * 100;
 
         return {
           sireId: input.sireId,
           damId: input.damId,
           inbreedingCoefficient: inbreedingCoefficient.toFixed(2),
-          commonAncestorCount: commonAncestors.length,
-          riskLevel:
-            inbreedingCoefficient < 5
-              ? 'low'
-              : inbreedingCoefficient < 10
-                ? 'moderate'
-                : 'high',
+          commonAncestorCount: mating.commonAncestors.length,
+          commonAncestors: mating.commonAncestors,
+          riskLevel: mating.risk === 'none' ? 'low' : mating.risk,
           recommendation:
-            inbreedingCoefficient < 5
+            mating.risk === 'none' || mating.risk === 'low'
               ? 'Safe to breed'
-              : inbreedingCoefficient < 10
+              : mating.risk === 'moderate'
                 ? 'Proceed with caution'
                 : 'Not recommended',
         };
       } catch (error) {
+        if (error instanceof PedigreeError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
         console.error('Calculate inbreeding coefficient error:', error);
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
@@ -425,4 +410,20 @@ export const breedingRecommendationEngineRouter = router({
         });
       }
     }),
+
+  /**
+   * Sires for a dam, lowest offspring inbreeding first
+   */
+  rankSiresForDam: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), damId: z.number() }))
+    .query(async ({ input }) => {
+      try {
+        return await rankSiresForDam(input.farmId, input.damId);
+      } catch (error) {
+        if (error instanceof PedigreeError) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: error.message });
+        }
+        throw error;
+      }
+    }),
 });
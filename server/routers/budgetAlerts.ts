@@ -3,19 +3,20 @@
  * Handles real-time budget monitoring and alert generation
  * Alerts when expenses exceed 80% of budget threshold
  */
-import { router, protectedProcedure } from "../\_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../\_core/trpc";
 import { getDb } from "../db";
 import { budgets, budgetLineItems, expenses, budgetVarianceAlerts } from "../../drizzle/schema";
 import { eq, and, sql } from "drizzle-orm";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
+import { emitWorkflowEvent } from "../services/workflowRunner";
 
 export const budgetAlertsRouter = router({
   /**
    * Get active budget alerts for a farm
    * Returns alerts that haven't been acknowledged
    */
-  getActiveAlerts: protectedProcedure
+  getActiveAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -70,7 +71,7 @@ export const budgetAlertsRouter = router({
    * Monitor budget and generate alerts
    * Checks all budget line items and creates alerts for overspending
    */
-  monitorBudgets: protectedProcedure
+  monitorBudgets: farmProcedure("editor")
     .input(z.object({ farmId: z.number() }))
     .mutation(async ({ input, ctx }) => {
       try {
@@ -135,7 +136,7 @@ export const budgetAlertsRouter = router({
 
           // Create alert only if spending is at or above 80% threshold
           if (spendingPercentage >= 80 && existingAlert.length === 0) {
-            await db.insert(budgetVarianceAlerts).values({
+            const [inserted] = await db.insert(budgetVarianceAlerts).values({
               budgetLineItemId: item.id,
               farmId: input.farmId,
               varianceAmount: varianceAmount,
@@ -145,6 +146,25 @@ export const budgetAlertsRouter = router({
               acknowledged: false,
             });
 
+            if (alertType === "over_budget") {
+              await emitWorkflowEvent(
+                input.farmId,
+                "budget_exceeded",
+                {
+                  alertId: inserted.insertId,
+                  budgetLineItemId: item.id,
+                  category: item.categoryName,
+                  budgetedAmount,
+                  totalSpent,
+                  varianceAmount,
+                  spendingPercent: Number(spendingPercentage.toFixed(1)),
+                  variancePercent: Number((spendingPercentage - 100).toFixed(1)),
+                  severity,
+                },
+                `budget_exceeded:${inserted.insertId}`
+              );
+            }
+
             alertsCreated.push({
               categoryName: item.categoryName,
               spendingPercentage: spendingPercentage.toFixed(1),
@@ -200,7 +220,7 @@ export const budgetAlertsRouter = router({
    * Get alert history for a farm
    * Returns all alerts (acknowledged and unacknowledged)
    */
-  getAlertHistory: protectedProcedure
+  getAlertHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -261,7 +281,7 @@ export const budgetAlertsRouter = router({
    * Get budget status summary
    * Returns spending status for all budget categories
    */
-  getBudgetStatus: protectedProcedure
+  getBudgetStatus: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,14 +1,14 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 
 export const budgetAlertsRouter = router({
   /**
    * Get budget alerts for a farm
    */
-  getBudgetAlerts: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getBudgetAlerts: farmProcedure('viewer')
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       // Mock budget alerts
       const alerts = [
@@ -72,10 +72,10 @@ export const budgetAlertsRouter = router({
   /**
    * Resolve a budget alert
    */
-  resolveAlert: protectedProcedure
-    .input(z.object({ alertId: z.number(), farmId: z.number().optional() }))
+  resolveAlert: farmProcedure('editor')
+    .input(z.object({ alertId: z.number(), farmId: z.number() }))
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         id: input.alertId,
@@ -87,18 +87,18 @@ export const budgetAlertsRouter = router({
   /**
    * Create a budget alert rule
    */
-  createAlertRule: protectedProcedure
+  createAlertRule: farmProcedure('editor')
     .input(
       z.object({
         category: z.string(),
         thresholdPercentage: z.number().min(0).max(100),
         alertType: z.enum(['threshold', 'exceeded', 'spike']),
         notificationChannels: z.array(z.enum(['email', 'sms', 'push', 'in_app'])),
-        farmId: z.number().optional(),
+        farmId: z.number(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         id: Math.random(),
@@ -111,10 +111,10 @@ export const budgetAlertsRouter = router({
   /**
    * Get alert rules for a farm
    */
-  getAlertRules: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getAlertRules: farmProcedure('viewer')
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       const rules = [
         {
@@ -152,18 +152,18 @@ export const budgetAlertsRouter = router({
   /**
    * Update alert rule
    */
-  updateAlertRule: protectedProcedure
+  updateAlertRule: farmProcedure('editor')
     .input(
       z.object({
         ruleId: z.number(),
         thresholdPercentage: z.number().optional(),
         notificationChannels: z.array(z.enum(['email', 'sms', 'push', 'in_app'])).optional(),
         isActive: z.boolean().optional(),
-        farmId: z.number().optional(),
+        farmId: z.number(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         id: input.ruleId,
@@ -175,10 +175,10 @@ export const budgetAlertsRouter = router({
   /**
    * Delete alert rule
    */
-  deleteAlertRule: protectedProcedure
-    .input(z.object({ ruleId: z.number(), farmId: z.number().optional() }))
+  deleteAlertRule: farmProcedure('editor')
+    .input(z.object({ ruleId: z.number(), farmId: z.number() }))
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         id: input.ruleId,
@@ -190,16 +190,16 @@ export const budgetAlertsRouter = router({
   /**
    * Get alert history
    */
-  getAlertHistory: protectedProcedure
+  getAlertHistory: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         limit: z.number().default(50),
         offset: z.number().default(0),
       })
     )
     .query(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       const history = [
         {
@@ -241,10 +241,10 @@ export const budgetAlertsRouter = router({
   /**
    * Get alert statistics
    */
-  getAlertStats: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getAlertStats: farmProcedure('viewer')
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         totalAlerts: 15,
@@ -262,15 +262,15 @@ export const budgetAlertsRouter = router({
   /**
    * Send test alert notification
    */
-  sendTestAlert: protectedProcedure
+  sendTestAlert: farmProcedure('editor')
     .input(
       z.object({
         channel: z.enum(['email', 'sms', 'push', 'in_app']),
-        farmId: z.number().optional(),
+        farmId: z.number(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         success: true,
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { protectedProcedure, farmProcedure, publicProcedure, router } from "../_core/trpc";
 import { getDb } from "../db";
 import { budgets, budgetLineItems, expenses } from "../../drizzle/schema";
 import { eq, and, gte, lte, sum } from "drizzle-orm";
@@ -13,7 +13,7 @@ export const budgetManagementRouter = router({
   /**
    * Create a new budget with line items
    */
-  createBudget: protectedProcedure
+  createBudget: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string().min(1),
@@ -78,7 +78,7 @@ export const budgetManagementRouter = router({
   /**
    * Get budget forecasts based on historical spending patterns
    */
-  getBudgetForecasts: protectedProcedure
+  getBudgetForecasts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -156,7 +156,7 @@ export const budgetManagementRouter = router({
   /**
    * Compare budgets across periods (year-over-year or period-over-period)
    */
-  compareBudgets: protectedProcedure
+  compareBudgets: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -255,7 +255,7 @@ export const budgetManagementRouter = router({
   /**
    * Get all budgets for a farm
    */
-  listBudgets: protectedProcedure
+  listBudgets: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ input }) => {
       try {
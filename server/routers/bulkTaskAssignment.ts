@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { getDb } from '../db';
 import { fieldWorkerTasks, bulkTaskAssignments } from '../../drizzle/schema';
@@ -8,7 +8,7 @@ export const bulkTaskAssignmentRouter = router({
   /**
    * Assign the same task to multiple workers
    */
-  assignTaskToMultipleWorkers: protectedProcedure
+  assignTaskToMultipleWorkers: farmProcedure("editor")
     .input(
       z.object({
         title: z.string().min(1, 'Task title is required'),
@@ -72,7 +72,7 @@ export const bulkTaskAssignmentRouter = router({
   /**
    * Get bulk assignment history for a farm
    */
-  getBulkAssignmentHistory: protectedProcedure
+  getBulkAssignmentHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -121,7 +121,7 @@ export const bulkTaskAssignmentRouter = router({
   /**
    * Get statistics for bulk assignments
    */
-  getBulkAssignmentStats: protectedProcedure
+  getBulkAssignmentStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -158,7 +158,7 @@ export const bulkTaskAssignmentRouter = router({
   /**
    * Validate bulk assignment before execution
    */
-  validateBulkAssignment: protectedProcedure
+  validateBulkAssignment: farmProcedure("viewer")
     .input(
       z.object({
         workerIds: z.array(z.string()),
@@ -197,7 +197,7 @@ export const bulkTaskAssignmentRouter = router({
   /**
    * Cancel bulk assignment (delete all tasks with same title and dueDate)
    */
-  cancelBulkAssignment: protectedProcedure
+  cancelBulkAssignment: farmProcedure("editor")
     .input(
       z.object({
         title: z.string(),
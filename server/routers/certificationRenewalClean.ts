@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import {
   checkAndSendCertificationAlerts,
@@ -37,7 +37,7 @@ export const certificationRenewalCleanRouter = router({
   /**
    * Get pending certification renewal alerts
    */
-  getPendingAlerts: protectedProcedure
+  getPendingAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -205,7 +205,7 @@ export const certificationRenewalCleanRouter = router({
   /**
    * Get certification renewal statistics
    */
-  getRenewalStatistics: protectedProcedure
+  getRenewalStatistics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { invokeLLM } from "../_core/llm";
 
@@ -10,7 +10,6 @@ export const chatbotRouter = router({
         conversationId: z.string().optional(),
         message: z.string(),
         context: z.object({
-          farmId: z.number().optional(),
           cropType: z.string().optional(),
           location: z.string().optional(),
         }).optional(),
@@ -100,7 +99,7 @@ Be concise, friendly, and provide actionable advice. Include local context when
     }),
 
   // Get chatbot suggestions based on farm data
-  getSuggestions: protectedProcedure
+  getSuggestions: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -381,10 +380,10 @@ Be practical and reference local solutions.`;
   }),
 
   // Create chatbot session
-  createSession: protectedProcedure
+  createSession: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         topic: z.string().optional(),
       })
     )
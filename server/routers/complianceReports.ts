@@ -1,11 +1,11 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const complianceReportsRouter = router({
   // Generate ISO 27001 compliance report
-  generateComplianceReport: protectedProcedure
+  generateComplianceReport: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date(),
@@ -182,7 +182,7 @@ export const complianceReportsRouter = router({
     }),
 
   // Get compliance metrics
-  getComplianceMetrics: protectedProcedure
+  getComplianceMetrics: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -238,7 +238,7 @@ export const complianceReportsRouter = router({
     }),
 
   // Log compliance event
-  logComplianceEvent: protectedProcedure
+  logComplianceEvent: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       eventType: z.string(),
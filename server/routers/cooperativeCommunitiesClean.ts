@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -79,7 +79,7 @@ export const cooperativeCommunitiesCleanRouter = router({
   /**
    * Join cooperative
    */
-  joinCooperative: protectedProcedure
+  joinCooperative: farmProcedure("editor")
     .input(
       z.object({
         cooperativeId: z.number(),
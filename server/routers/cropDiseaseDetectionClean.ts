@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -12,7 +12,7 @@ export const cropDiseaseDetectionCleanRouter = router({
   /**
    * Upload and analyze crop image for disease detection
    */
-  analyzeImageForDisease: protectedProcedure
+  analyzeImageForDisease: farmProcedure("editor")
     .input(
       z.object({
         imageUrl: z.string().url(),
@@ -117,7 +117,7 @@ export const cropDiseaseDetectionCleanRouter = router({
   /**
    * Get disease analysis history
    */
-  getDiseaseAnalysisHistory: protectedProcedure
+  getDiseaseAnalysisHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -486,7 +486,7 @@ export const cropDiseaseDetectionCleanRouter = router({
   /**
    * Get disease dashboard
    */
-  getDiseaseDashboard: protectedProcedure
+  getDiseaseDashboard: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -76,7 +76,7 @@ export const cropInsuranceRiskManagementCleanRouter = router({
   /**
    * Purchase insurance policy
    */
-  purchaseInsurancePolicy: protectedProcedure
+  purchaseInsurancePolicy: farmProcedure("editor")
     .input(
       z.object({
         productId: z.number(),
@@ -110,7 +110,7 @@ export const cropInsuranceRiskManagementCleanRouter = router({
   /**
    * Get active policies
    */
-  getActivePolicies: protectedProcedure
+  getActivePolicies: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -237,7 +237,7 @@ export const cropInsuranceRiskManagementCleanRouter = router({
   /**
    * Get risk assessment
    */
-  getRiskAssessment: protectedProcedure
+  getRiskAssessment: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -301,7 +301,7 @@ export const cropInsuranceRiskManagementCleanRouter = router({
   /**
    * Get insurance dashboard
    */
-  getInsuranceDashboard: protectedProcedure
+  getInsuranceDashboard: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -369,7 +369,7 @@ export const cropInsuranceRiskManagementCleanRouter = router({
   /**
    * Get claim history
    */
-  getClaimHistory: protectedProcedure
+  getClaimHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
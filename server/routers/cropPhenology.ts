@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { farmProcedure, router } from "../_core/trpc";
+import { PhenologyError } from "../services/phenology";
+import { getCyclePhenology, listFarmPhenology, updateCycleGdd } from "../services/phenologyService";
+
+async function phenologyCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof PhenologyError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    throw error;
+  }
+}
+
+/**
+ * Growing degree days per crop cycle, the growth stage and harvest date
+ * predicted from them, and the tasks created as stages are reached
+ */
+export const cropPhenologyRouter = router({
+  listCycles: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => listFarmPhenology(input.farmId)),
+
+  getCycle: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), cycleId: z.number() }))
+    .query(({ input }) => phenologyCall(() => getCyclePhenology(input.farmId, input.cycleId))),
+
+  /**
+   * Recalculate a cycle now rather than waiting for the daily job, e.g.
+   * after correcting its planting date
+   */
+  recalculate: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), cycleId: z.number() }))
+    .mutation(({ input }) => phenologyCall(() => updateCycleGdd(input.farmId, input.cycleId))),
+});
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { farmProcedure, router } from "../_core/trpc";
+import { SprayError } from "../services/sprayCompliance";
+import {
+  addChemicalProduct,
+  exportSprayRegister,
+  getCycleHarvestStatus,
+  listActiveRestrictions,
+  listChemicalProducts,
+  listSprays,
+  listStockMovements,
+  recordSpray,
+  recordStockMovement,
+  updateChemicalProduct,
+} from "../services/sprayService";
+
+async function sprayCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof SprayError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    throw error;
+  }
+}
+
+const productFields = {
+  name: z.string().min(1).max(255),
+  activeIngredient: z.string().min(1).max(255),
+  formulation: z.string().max(50).optional(),
+  registrationNumber: z.string().max(100).optional(),
+  unit: z.enum(["L", "kg"]),
+  reorderLevel: z.number().min(0).optional(),
+  preHarvestIntervalDays: z.number().int().min(0).max(365),
+  reEntryIntervalHours: z.number().int().min(0).max(24 * 90),
+  batchNumber: z.string().max(100).optional(),
+  expiryDate: z.date().optional(),
+  unitCost: z.number().min(0).optional(),
+  storageLocation: z.string().max(255).optional(),
+  notes: z.string().max(2000).optional(),
+};
+
+/**
+ * Plant protection products and their stock, the spray log with re-entry
+ * and pre-harvest intervals, and the spray register export
+ */
+export const cropProtectionRouter = router({
+  listProducts: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => listChemicalProducts(input.farmId)),
+
+  addProduct: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), ...productFields, openingStock: z.number().min(0).optional() }))
+    .mutation(({ input, ctx }) => {
+      const { farmId, ...product } = input;
+      return sprayCall(() => addChemicalProduct(farmId, product, ctx.user.id));
+    }),
+
+  updateProduct: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), productId: z.number() }).extend(z.object(productFields).partial().shape))
+    .mutation(({ input }) => {
+      const { farmId, productId, ...product } = input;
+      return sprayCall(() => updateChemicalProduct(farmId, productId, product));
+    }),
+
+  /**
+   * Purchases, disposals and stock-count adjustments (negative to reduce)
+   */
+  recordStockMovement: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      productId: z.number(),
+      transactionType: z.enum(["purchase", "adjustment", "disposal"]),
+      quantity: z.number(),
+      transactionDate: z.date(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input, ctx }) => sprayCall(() => recordStockMovement({ ...input, recordedBy: ctx.user.id }))),
+
+  listStockMovements: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), productId: z.number() }))
+    .query(({ input }) => sprayCall(() => listStockMovements(input.farmId, input.productId))),
+
+  /**
+   * Record a spray against a field and/or crop cycle; the tank mix is taken
+   * out of stock and weather warnings are returned with the result
+   */
+  recordSpray: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      fieldId: z.number().optional(),
+      cycleId: z.number().optional(),
+      healthRecordId: z.number().optional(),
+      target: z.string().max(255).optional(),
+      appliedAt: z.date(),
+      areaSprayedHectares: z.number().positive(),
+      waterVolumeLitersPerHa: z.number().positive().optional(),
+      equipment: z.string().max(255).optional(),
+      operatorName: z.string().min(1).max(255),
+      operatorUserId: z.number().optional(),
+      temperatureC: z.number().min(-20).max(60).optional(),
+      humidityPercent: z.number().min(0).max(100).optional(),
+      windSpeedKmh: z.number().min(0).max(200).optional(),
+      windDirection: z.string().max(10).optional(),
+      weatherConditions: z.string().max(255).optional(),
+      notes: z.string().max(2000).optional(),
+      tankMix: z.array(z.object({
+        productId: z.number(),
+        ratePerHectare: z.number().positive(),
+        quantityUsed: z.number().positive().optional(),
+      })).min(1).max(10),
+    }))
+    .mutation(({ input, ctx }) => sprayCall(() => recordSpray({ ...input, recordedBy: ctx.user.id }))),
+
+  listSprays: farmProcedure("viewer")
+    .input(z.object({
+      farmId: z.number(),
+      fieldId: z.number().optional(),
+      cycleId: z.number().optional(),
+      from: z.date().optional(),
+      to: z.date().optional(),
+    }))
+    .query(({ input }) => {
+      const { farmId, ...filter } = input;
+      return listSprays(farmId, filter);
+    }),
+
+  /**
+   * Fields and crop cycles that workers may not enter or that may not be harvested yet
+   */
+  activeRestrictions: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => listActiveRestrictions(input.farmId)),
+
+  harvestStatus: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), cycleId: z.number(), harvestDate: z.date().optional() }))
+    .query(({ input }) => sprayCall(() => getCycleHarvestStatus(input.farmId, input.cycleId, input.harvestDate))),
+
+  /**
+   * GlobalG.A.P.-style spray register, one row per product applied
+   */
+  exportRegister: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), from: z.date(), to: z.date() }))
+    .query(({ input }) => exportSprayRegister(input.farmId, input.from, input.to)),
+});
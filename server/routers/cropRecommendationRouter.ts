@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure, requireFarmAccess } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { farms, soilTests, cropCycles, yieldRecords, fertilizerApplications } from "../../drizzle/schema";
@@ -10,7 +10,7 @@ export const cropRecommendationRouter = router({
    * Get farm conditions for crop recommendations
    * Retrieves soil data, climate data, and historical yields
    */
-  getFarmConditions: protectedProcedure
+  getFarmConditions: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       const database = await getDb();
@@ -99,7 +99,7 @@ export const cropRecommendationRouter = router({
   /**
    * Generate crop recommendations based on farm conditions
    */
-  generateRecommendations: protectedProcedure
+  generateRecommendations: farmProcedure("editor")
     .input(z.object({ farmId: z.number() }))
     .mutation(async ({ ctx, input }) => {
       try {
@@ -170,7 +170,7 @@ export const cropRecommendationRouter = router({
   /**
    * Get detailed analysis for a specific crop
    */
-  getCropAnalysis: protectedProcedure
+  getCropAnalysis: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), cropName: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -223,7 +223,7 @@ export const cropRecommendationRouter = router({
   /**
    * Get recommendation history for a farm
    */
-  getRecommendationHistory: protectedProcedure
+  getRecommendationHistory: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), limit: z.number().default(10) }))
     .query(async ({ ctx, input }) => {
       try {
@@ -246,6 +246,7 @@ export const cropRecommendationRouter = router({
   compareRecommendations: protectedProcedure
     .input(z.object({ farmIds: z.array(z.number()) }))
     .query(async ({ ctx, input }) => {
+      await requireFarmAccess(ctx.user, input.farmIds, "viewer");
       try {
         const database = await getDb();
         const comparisons = await Promise.all(
@@ -1,380 +1,129 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { adminProcedure, farmProcedure, router } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { getDb } from "../db";
+import { RotationError } from "../services/cropRotation";
+import {
+  acceptRotationPlan,
+  cancelRotationPlan,
+  createRotationPlan,
+  getFieldRotation,
+  getRotationPlan,
+  listRotationPlans,
+  recommendNextCrops,
+  rotationViolationsReport,
+  setCropFamily,
+  suggestFieldRotation,
+} from "../services/cropRotationService";
+
+async function rotationCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof RotationError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    throw error;
+  }
+}
 
 /**
  * Crop Rotation Planning Tool Router
- * Intelligent crop rotation recommendations based on soil health, pest history, and market prices
+ * Rotation plans built from each field's crop cycles, with candidate crops
+ * scored on family repetition, nitrogen fixers, pest and disease breaks and
+ * the field's soil test
  */
 export const cropRotationPlanningCleanRouter = router({
   /**
-   * Get crop rotation recommendations
+   * A field's crop history, planned cycles, soil test and rotation faults
    */
-  getCropRotationRecommendations: protectedProcedure
-    .input(
-      z.object({
-        farmerId: z.number(),
-        fieldId: z.number(),
-        soilType: z.string(),
-        currentCrop: z.string(),
-      })
-    )
-    .query(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
-
-        return {
-          farmerId: input.farmerId,
-          fieldId: input.fieldId,
-          currentCrop: input.currentCrop,
-          recommendations: [
-            {
-              year: 1,
-              crop: "Legumes (Beans)",
-              reason: "Nitrogen fixation to restore soil",
-              expectedYield: 1.8,
-              marketPrice: 450,
-              revenue: 810,
-              profitability: "high",
-            },
-            {
-              year: 2,
-              crop: "Maize",
-              reason: "Benefits from nitrogen-rich soil",
-              expectedYield: 2.5,
-              marketPrice: 350,
-              revenue: 875,
-              profitability: "high",
-            },
-            {
-              year: 3,
-              crop: "Rice",
-              reason: "Breaks pest cycle, improves soil structure",
-              expectedYield: 2.0,
-              marketPrice: 400,
-              revenue: 800,
-              profitability: "medium",
-            },
-          ],
-          soilImpact: {
-            nitrogen: "improved",
-            phosphorus: "stable",
-            potassium: "improved",
-            organicMatter: "increased",
-          },
-          pestControl: {
-            armyworm: "reduced",
-            leafSpot: "reduced",
-            rootRot: "eliminated",
-          },
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get recommendations: ${error}`,
-        });
-      }
-    }),
+  getFieldHistory: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), fieldId: z.number() }))
+    .query(({ input }) => rotationCall(() => getFieldRotation(input.farmId, input.fieldId))),
 
   /**
-   * Get soil analysis
+   * Get crop rotation recommendations: candidate next crops, best first
    */
-  getSoilAnalysis: protectedProcedure
-    .input(z.object({ fieldId: z.number() }))
-    .query(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
-
-        return {
-          fieldId: input.fieldId,
-          soilAnalysis: {
-            type: "Loamy soil",
-            pH: 6.5,
-            nitrogen: 45,
-            phosphorus: 22,
-            potassium: 180,
-            organicMatter: 3.2,
-            texture: "Sandy loam",
-            drainage: "Well-drained",
-            waterHoldingCapacity: "Good",
-          },
-          recommendations: [
-            "Add organic matter to improve soil structure",
-            "Nitrogen levels are adequate for most crops",
-            "Consider phosphorus supplementation",
-          ],
-          lastAnalysisDate: "2025-12-15",
-          nextAnalysisDate: "2026-06-15",
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get soil analysis: ${error}`,
-        });
-      }
-    }),
+  getCropRotationRecommendations: farmProcedure("viewer")
+    .input(z.object({
+      farmId: z.number(),
+      fieldId: z.number(),
+      cropIds: z.array(z.number()).optional(),
+      limit: z.number().int().min(1).max(50).default(10),
+    }))
+    .query(({ input }) =>
+      rotationCall(() => recommendNextCrops(input.farmId, input.fieldId, { cropIds: input.cropIds, limit: input.limit }))
+    ),
 
   /**
-   * Get pest history
+   * Suggest a crop sequence for the coming seasons
    */
-  getPestHistory: protectedProcedure
-    .input(z.object({ fieldId: z.number(), years: z.number().default(3) }))
-    .query(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
-
-        return {
-          fieldId: input.fieldId,
-          pestHistory: [
-            {
-              year: 2024,
-              crop: "Maize",
-              pests: ["Armyworm", "Fall armyworm"],
-              severity: "high",
-              treatmentUsed: "Chemical spray",
-            },
-            {
-              year: 2023,
-              crop: "Rice",
-              pests: ["Leaf spot", "Blast"],
-              severity: "medium",
-              treatmentUsed: "Fungicide",
-            },
-            {
-              year: 2022,
-              crop: "Beans",
-              pests: ["Aphids", "Spider mites"],
-              severity: "low",
-              treatmentUsed: "Biological control",
-            },
-          ],
-          commonPests: ["Armyworm", "Leaf spot", "Aphids"],
-          recommendations: [
-            "Rotate to crops less susceptible to armyworm",
-            "Use legumes to break pest cycle",
-            "Implement IPM practices",
-          ],
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get pest history: ${error}`,
-        });
-      }
-    }),
+  suggestRotation: farmProcedure("viewer")
+    .input(z.object({
+      farmId: z.number(),
+      fieldId: z.number(),
+      seasons: z.number().int().min(1).max(12).default(4),
+      cropIds: z.array(z.number()).optional(),
+    }))
+    .query(({ input }) =>
+      rotationCall(() => suggestFieldRotation(input.farmId, input.fieldId, input.seasons, input.cropIds))
+    ),
 
   /**
-   * Get market prices
+   * Create rotation plan (a draft, checked against the field's history)
    */
-  getMarketPrices: protectedProcedure
-    .input(z.object({ crops: z.array(z.string()).optional() }))
-    .query(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
-
-        return {
-          prices: [
-            {
-              crop: "Maize",
-              currentPrice: 350,
-              priceChange: 5,
-              trend: "increasing",
-              forecast: 380,
-            },
-            {
-              crop: "Beans",
-              currentPrice: 450,
-              priceChange: -10,
-              trend: "decreasing",
-              forecast: 420,
-            },
-            {
-              crop: "Rice",
-              currentPrice: 400,
-              priceChange: 0,
-              trend: "stable",
-              forecast: 400,
-            },
-            {
-              crop: "Sorghum",
-              currentPrice: 280,
-              priceChange: 15,
-              trend: "increasing",
-              forecast: 320,
-            },
-          ],
-          lastUpdated: new Date(),
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get prices: ${error}`,
-        });
-      }
-    }),
+  createRotationPlan: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      fieldId: z.number(),
+      name: z.string().min(1).max(255),
+      notes: z.string().max(2000).optional(),
+      seasons: z.array(z.object({
+        cropId: z.number(),
+        varietyName: z.string().max(255).optional(),
+        plantingDate: z.date(),
+        expectedHarvestDate: z.date().optional(),
+      })).min(1).max(24),
+    }))
+    .mutation(({ input, ctx }) => rotationCall(() => createRotationPlan({ ...input, createdBy: ctx.user.id }))),
 
   /**
-   * Create rotation plan
+   * Get saved rotation plans
    */
-  createRotationPlan: protectedProcedure
-    .input(
-      z.object({
-        farmerId: z.number(),
-        fieldId: z.number(),
-        cropSequence: z.array(z.string()),
-        startYear: z.number(),
-        notes: z.string().optional(),
-      })
-    )
-    .mutation(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
+  getSavedRotationPlans: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), fieldId: z.number().optional() }))
+    .query(({ input }) => listRotationPlans(input.farmId, input.fieldId)),
 
-        return {
-          success: true,
-          planId: Math.floor(Math.random() * 100000),
-          farmerId: input.farmerId,
-          fieldId: input.fieldId,
-          status: "active",
-          createdAt: new Date(),
-          message: "Rotation plan created successfully",
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to create plan: ${error}`,
-        });
-      }
-    }),
+  getRotationPlan: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), planId: z.number() }))
+    .query(({ input }) => rotationCall(() => getRotationPlan(input.farmId, input.planId))),
 
   /**
-   * Get saved rotation plans
+   * Accept a plan, creating a crop cycle in "planning" status for each season
    */
-  getSavedRotationPlans: protectedProcedure
-    .input(z.object({ farmerId: z.number() }))
-    .query(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
-
-        return {
-          farmerId: input.farmerId,
-          plans: [
-            {
-              id: 1,
-              fieldName: "North Field",
-              cropSequence: ["Beans", "Maize", "Rice"],
-              startYear: 2025,
-              status: "active",
-              createdAt: "2025-12-01",
-            },
-            {
-              id: 2,
-              fieldName: "South Field",
-              cropSequence: ["Maize", "Sorghum", "Beans"],
-              startYear: 2024,
-              status: "active",
-              createdAt: "2024-12-01",
-            },
-          ],
-          total: 2,
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get plans: ${error}`,
-        });
-      }
-    }),
+  acceptRotationPlan: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), planId: z.number(), acknowledgeViolations: z.boolean().default(false) }))
+    .mutation(({ input, ctx }) =>
+      rotationCall(() =>
+        acceptRotationPlan(input.farmId, input.planId, {
+          acceptedBy: ctx.user.id,
+          acknowledgeViolations: input.acknowledgeViolations,
+        })
+      )
+    ),
+
+  cancelRotationPlan: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), planId: z.number() }))
+    .mutation(({ input }) => rotationCall(() => cancelRotationPlan(input.farmId, input.planId))),
 
   /**
-   * Calculate rotation benefits
+   * Rotation faults across the farm's fields, e.g. the same family twice in a row
    */
-  calculateRotationBenefits: protectedProcedure
-    .input(
-      z.object({
-        currentCrop: z.string(),
-        nextCrop: z.string(),
-        fieldSize: z.number(),
-      })
-    )
-    .query(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
-
-        return {
-          currentCrop: input.currentCrop,
-          nextCrop: input.nextCrop,
-          benefits: {
-            soilHealth: {
-              improvement: "high",
-              details: "Nitrogen fixation and organic matter increase",
-            },
-            pestControl: {
-              improvement: "high",
-              details: "Breaks pest cycle, reduces disease pressure",
-            },
-            yieldImprovement: {
-              improvement: "medium",
-              details: "Expected 15-20% yield increase",
-            },
-            costSavings: {
-              improvement: "medium",
-              details: "Reduced pesticide and fertilizer costs",
-            },
-          },
-          estimatedRevenue: {
-            current: input.fieldSize * 350,
-            projected: input.fieldSize * 420,
-            increase: input.fieldSize * 70,
-          },
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to calculate benefits: ${error}`,
-        });
-      }
-    }),
+  getRotationViolations: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => rotationViolationsReport(input.farmId)),
 
   /**
-   * Get rotation analytics
+   * Record a crop's botanical family where its name does not give it away
    */
-  getRotationAnalytics: protectedProcedure
-    .input(z.object({ farmerId: z.number() }))
-    .query(async ({ input, ctx }) => {
-      try {
-        const db = await getDb();
-        if (!db) throw new Error("Database connection failed");
-
-        return {
-          farmerId: input.farmerId,
-          analytics: {
-            averageYieldImprovement: 18,
-            costSavingsPercentage: 22,
-            diseaseReductionPercentage: 35,
-            soilHealthImprovement: 28,
-            totalRevenuIncrease: 45000,
-          },
-          trends: [
-            { year: 2022, yield: 2.0, revenue: 70000 },
-            { year: 2023, yield: 2.3, revenue: 80500 },
-            { year: 2024, yield: 2.6, revenue: 91000 },
-            { year: 2025, yield: 3.0, revenue: 105000 },
-          ],
-        };
-      } catch (error) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Failed to get analytics: ${error}`,
-        });
-      }
-    }),
+  setCropFamily: adminProcedure
+    .input(z.object({ cropId: z.number(), botanicalFamily: z.string().max(100).nullable() }))
+    .mutation(({ input }) => rotationCall(() => setCropFamily(input.cropId, input.botanicalFamily))),
 });
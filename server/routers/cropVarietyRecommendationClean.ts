@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -11,7 +11,7 @@ export const cropVarietyRecommendationCleanRouter = router({
   /**
    * Get crop variety recommendations
    */
-  getRecommendations: protectedProcedure
+  getRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -266,7 +266,7 @@ export const cropVarietyRecommendationCleanRouter = router({
   /**
    * Get crop rotation recommendations
    */
-  getCropRotationPlan: protectedProcedure
+  getCropRotationPlan: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), currentCrop: z.string() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -347,7 +347,7 @@ export const cropVarietyRecommendationCleanRouter = router({
   /**
    * Get variety performance history
    */
-  getPerformanceHistory: protectedProcedure
+  getPerformanceHistory: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), varietyId: z.string() }))
     .query(async ({ input, ctx }) => {
       try {
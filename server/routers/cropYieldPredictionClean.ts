@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -11,7 +11,7 @@ export const cropYieldPredictionCleanRouter = router({
   /**
    * Get yield prediction
    */
-  getYieldPrediction: protectedProcedure
+  getYieldPrediction: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -68,7 +68,7 @@ export const cropYieldPredictionCleanRouter = router({
   /**
    * Get yield trends
    */
-  getYieldTrends: protectedProcedure
+  getYieldTrends: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -110,7 +110,7 @@ export const cropYieldPredictionCleanRouter = router({
   /**
    * Compare yield scenarios
    */
-  compareYieldScenarios: protectedProcedure
+  compareYieldScenarios: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -153,7 +153,7 @@ export const cropYieldPredictionCleanRouter = router({
   /**
    * Get crop recommendations
    */
-  getCropRecommendations: protectedProcedure
+  getCropRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -209,7 +209,7 @@ export const cropYieldPredictionCleanRouter = router({
   /**
    * Get yield optimization tips
    */
-  getYieldOptimizationTips: protectedProcedure
+  getYieldOptimizationTips: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -277,7 +277,7 @@ export const cropYieldPredictionCleanRouter = router({
   /**
    * Save yield prediction
    */
-  saveYieldPrediction: protectedProcedure
+  saveYieldPrediction: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -312,7 +312,7 @@ export const cropYieldPredictionCleanRouter = router({
   /**
    * Get prediction history
    */
-  getPredictionHistory: protectedProcedure
+  getPredictionHistory: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), limit: z.number().default(10) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,4 +1,18 @@
-import { describe, expect, it, beforeAll, afterAll } from 'vitest';
+import { describe, expect, it, beforeAll, afterAll, vi } from 'vitest';
+import type { Farm } from '../../drizzle/schema';
+
+// User 1 owns every farm except 99999, which does not exist
+vi.mock('../_core/farmAccess', async importOriginal => {
+  const actual = await importOriginal<typeof import('../_core/farmAccess')>();
+  return {
+    ...actual,
+    loadFarmAccess: vi.fn(async (_user: unknown, farmId: number) =>
+      farmId === 99999 ? null : { farm: { id: farmId, farmerUserId: 1 } as Farm, role: 'owner' as const }
+    ),
+  };
+});
+
+import { loadFarmAccess } from '../_core/farmAccess';
 import { appRouter } from '../routers';
 import type { TrpcContext } from '../_core/context';
 import { db } from '../db';
@@ -350,10 +364,10 @@ describe('Crop Tracking tRPC Procedures - 18+ Tests', () => {
       const ctx = createAuthContext(1);
       const caller = appRouter.createCaller(ctx);
 
-      const result = await caller.crops.soilTests.list({ farmId: 99999 });
+      await expect(caller.crops.soilTests.list({ farmId: 99999 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
 
-      expect(Array.isArray(result)).toBe(true);
-      expect(result.length).toBe(0);
+      vi.mocked(loadFarmAccess).mockResolvedValueOnce({ farm: { id: 2, farmerUserId: 2 } as Farm, role: null });
+      await expect(caller.crops.soilTests.list({ farmId: 2 })).rejects.toMatchObject({ code: 'FORBIDDEN' });
     });
 
     it('should handle invalid cycle ID gracefully', async () => {
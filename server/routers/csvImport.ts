@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { parseAnimalCSV, generateCSVTemplate } from "../services/csvImportService";
 import { getDb } from "../db";
@@ -12,7 +12,7 @@ export const csvImportRouter = router({
       return result;
     }),
 
-  importAnimals: protectedProcedure
+  importAnimals: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
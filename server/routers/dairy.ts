@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { farmProcedure, router } from "../_core/trpc";
+import { DairyError } from "../services/dairy";
+import {
+  dryOff,
+  getCowLactations,
+  getHerdDairySummary,
+  recordBulkTankCollection,
+  recordCalving,
+  recordMilking,
+  recordMilkTest,
+  reconcileBulkTankPeriod,
+} from "../services/dairyService";
+
+async function dairyCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof DairyError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    throw error;
+  }
+}
+
+/**
+ * Dairy herd recording: calvings and dry-offs, per-session milkings,
+ * test-day quality and bulk tank collections. Lactation curves and herd
+ * figures are also served through animalPerformanceAnalytics.
+ */
+export const dairyRouter = router({
+  recordCalving: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      animalId: z.number(),
+      calvingDate: z.date(),
+      breedingRecordId: z.number().optional(),
+      lactationNumber: z.number().int().min(1).max(20).optional(),
+      calvingEase: z.enum(["unassisted", "assisted", "difficult", "caesarean"]).optional(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input }) => dairyCall(() => recordCalving(input))),
+
+  dryOff: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), animalId: z.number(), dryOffDate: z.date() }))
+    .mutation(({ input }) => dairyCall(() => dryOff(input.farmId, input.animalId, input.dryOffDate))),
+
+  /**
+   * One milking session; recording the same session again corrects it
+   */
+  recordMilking: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      animalId: z.number(),
+      milkingDate: z.date(),
+      session: z.enum(["am", "midday", "pm"]),
+      yieldLiters: z.number().min(0).max(100),
+    }))
+    .mutation(({ input, ctx }) => dairyCall(() => recordMilking({ ...input, recordedBy: ctx.user.id }))),
+
+  recordMilkTest: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      animalId: z.number(),
+      testDate: z.date(),
+      yieldLiters: z.number().min(0).max(100).optional(),
+      fatPercent: z.number().min(0).max(20).optional(),
+      proteinPercent: z.number().min(0).max(20).optional(),
+      lactosePercent: z.number().min(0).max(20).optional(),
+      somaticCellCount: z.number().int().min(0).optional(),
+      laboratory: z.string().max(255).optional(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input }) => dairyCall(() => recordMilkTest(input))),
+
+  recordBulkTankCollection: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      collectionDate: z.date(),
+      volumeLiters: z.number().positive(),
+      buyer: z.string().max(255).optional(),
+      fatPercent: z.number().min(0).max(20).optional(),
+      proteinPercent: z.number().min(0).max(20).optional(),
+      somaticCellCount: z.number().int().min(0).optional(),
+      pricePerLiter: z.number().min(0).optional(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input, ctx }) => dairyCall(() => recordBulkTankCollection({ ...input, recordedBy: ctx.user.id }))),
+
+  getCowLactations: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), animalId: z.number() }))
+    .query(({ input }) => dairyCall(() => getCowLactations(input.farmId, input.animalId))),
+
+  getHerdSummary: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => getHerdDairySummary(input.farmId)),
+
+  /**
+   * Recorded milk (less withheld milk) against tank collections, per day
+   */
+  reconcileBulkTank: farmProcedure("viewer")
+    .input(z.object({
+      farmId: z.number(),
+      startDate: z.date(),
+      endDate: z.date(),
+      tolerancePercent: z.number().min(0).max(50).default(5),
+    }))
+    .query(({ input }) => reconcileBulkTankPeriod(input.farmId, input.startDate, input.endDate, input.tolerancePercent)),
+});
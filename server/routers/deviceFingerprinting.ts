@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
@@ -16,7 +16,7 @@ const generateDeviceHash = (deviceInfo: {
 
 export const deviceFingerprintingRouter = router({
   // Register device fingerprint
-  registerDevice: protectedProcedure
+  registerDevice: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       deviceName: z.string(),
@@ -89,7 +89,7 @@ export const deviceFingerprintingRouter = router({
     }),
 
   // Get user's trusted devices
-  getTrustedDevices: protectedProcedure
+  getTrustedDevices: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -206,7 +206,7 @@ export const deviceFingerprintingRouter = router({
     }),
 
   // Detect suspicious device activity
-  detectSuspiciousActivity: protectedProcedure
+  detectSuspiciousActivity: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       deviceHash: z.string(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 
@@ -12,7 +12,7 @@ export const equipmentManagementCleanRouter = router({
   /**
    * Register new equipment
    */
-  registerEquipment: protectedProcedure
+  registerEquipment: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -79,7 +79,7 @@ export const equipmentManagementCleanRouter = router({
   /**
    * Get all equipment for a farm
    */
-  getFarmEquipment: protectedProcedure
+  getFarmEquipment: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -276,7 +276,7 @@ export const equipmentManagementCleanRouter = router({
   /**
    * Get equipment valuation report
    */
-  getValuationReport: protectedProcedure
+  getValuationReport: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
@@ -371,7 +371,7 @@ export const equipmentManagementCleanRouter = router({
   /**
    * Generate equipment report
    */
-  generateEquipmentReport: protectedProcedure
+  generateEquipmentReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, gte, lte } from "drizzle-orm";
@@ -9,7 +9,7 @@ export const expenseNotifications = router({
    * Check if an expense exceeds budget threshold
    * Returns alert if spending is above threshold percentage
    */
-  checkBudgetAlert: protectedProcedure
+  checkBudgetAlert: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -81,7 +81,7 @@ export const expenseNotifications = router({
    * Get all budget alerts for a farm
    * Returns alerts for all categories exceeding threshold
    */
-  getAllBudgetAlerts: protectedProcedure
+  getAllBudgetAlerts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -153,7 +153,7 @@ export const expenseNotifications = router({
    * Get spending trend for a category
    * Shows if spending is increasing or decreasing
    */
-  getSpendingTrend: protectedProcedure
+  getSpendingTrend: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -223,7 +223,7 @@ export const expenseNotifications = router({
    * Get high-spending alerts
    * Returns expenses that are significantly higher than average
    */
-  getHighSpendingAlerts: protectedProcedure
+  getHighSpendingAlerts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -297,7 +297,7 @@ export const expenseNotifications = router({
    * Get expense forecast based on recent spending
    * Projects future expenses based on trend
    */
-  getForecastedExpenses: protectedProcedure
+  getForecastedExpenses: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
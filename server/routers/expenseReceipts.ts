@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { eq, and, desc } from "drizzle-orm";
@@ -9,7 +9,7 @@ export const expenseReceiptsRouter = router({
   /**
    * Upload and process expense receipt
    */
-  uploadReceipt: protectedProcedure
+  uploadReceipt: farmProcedure("editor")
     .input(z.object({
       expenseId: z.number(),
       farmId: z.string(),
@@ -77,7 +77,7 @@ export const expenseReceiptsRouter = router({
   /**
    * Get all receipts for a farm
    */
-  getReceiptsForFarm: protectedProcedure
+  getReceiptsForFarm: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       limit: z.number().default(50),
@@ -180,7 +180,7 @@ export const expenseReceiptsRouter = router({
   /**
    * Get receipt OCR confidence stats for a farm
    */
-  getOCRStats: protectedProcedure
+  getOCRStats: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string()
     }))
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { getDb } from '../db';
 import { expenses, revenue } from '../../drizzle/schema';
 import { TRPCError } from '@trpc/server';
+import { recordInLedger } from '../services/ledgerService';
 
 // Validation schemas
 const addExpenseSchema = z.object({
@@ -97,7 +98,7 @@ export const expenseRevenueEntryRouter = router({
         }
 
         // Insert revenue
-        await db
+        const [result] = await db
           .insert(revenue)
           .values({
             farmId: input.farmId,
@@ -110,6 +111,7 @@ export const expenseRevenueEntryRouter = router({
             invoiceNumber: input.invoiceNumber || null,
             paymentStatus: input.paymentStatus,
           });
+        await recordInLedger("revenue", result.insertId, ctx.user.id);
 
         return {
           success: true,
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq } from "drizzle-orm";
@@ -92,7 +92,7 @@ export const farmAnalytics = router({
   /**
    * Calculate cost-per-hectare for a farm
    */
-  calculateCostPerHectare: protectedProcedure
+  calculateCostPerHectare: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -166,7 +166,7 @@ export const farmAnalytics = router({
   /**
    * Compare farm's cost-per-hectare against regional benchmark
    */
-  compareWithRegionalBenchmark: protectedProcedure
+  compareWithRegionalBenchmark: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -246,7 +246,7 @@ export const farmAnalytics = router({
   /**
    * Get efficiency metrics for a farm
    */
-  getEfficiencyMetrics: protectedProcedure
+  getEfficiencyMetrics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -335,7 +335,7 @@ export const farmAnalytics = router({
   /**
    * Get farm comparison with similar farms
    */
-  getFarmComparison: protectedProcedure
+  getFarmComparison: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -425,7 +425,7 @@ export const farmAnalytics = router({
   /**
    * Get recommendations based on farm analytics
    */
-  getRecommendations: protectedProcedure
+  getRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
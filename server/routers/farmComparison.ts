@@ -4,7 +4,7 @@
  * Compares financial, operational, and performance metrics
  */
 
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, requireFarmAccess } from "../_core/trpc";
 import { getDb } from "../db";
 import { farms, expenses, revenue, budgets, budgetLineItems } from "../../drizzle/schema";
 import { eq, and, inArray, sql } from "drizzle-orm";
@@ -19,6 +19,7 @@ export const farmComparisonRouter = router({
   compareFinancials: protectedProcedure
     .input(z.object({ farmIds: z.array(z.number()).min(2).max(5) }))
     .query(async ({ input, ctx }) => {
+      await requireFarmAccess(ctx.user, input.farmIds, "viewer");
       try {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
@@ -111,6 +112,7 @@ export const farmComparisonRouter = router({
   compareBudgetPerformance: protectedProcedure
     .input(z.object({ farmIds: z.array(z.number()).min(2).max(5) }))
     .query(async ({ input, ctx }) => {
+      await requireFarmAccess(ctx.user, input.farmIds, "viewer");
       try {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
@@ -211,6 +213,7 @@ export const farmComparisonRouter = router({
   compareExpenseBreakdown: protectedProcedure
     .input(z.object({ farmIds: z.array(z.number()).min(2).max(5) }))
     .query(async ({ input, ctx }) => {
+      await requireFarmAccess(ctx.user, input.farmIds, "viewer");
       try {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
@@ -275,6 +278,7 @@ export const farmComparisonRouter = router({
   compareRevenueBreakdown: protectedProcedure
     .input(z.object({ farmIds: z.array(z.number()).min(2).max(5) }))
     .query(async ({ input, ctx }) => {
+      await requireFarmAccess(ctx.user, input.farmIds, "viewer");
       try {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
@@ -339,6 +343,7 @@ export const farmComparisonRouter = router({
   compareEfficiencyMetrics: protectedProcedure
     .input(z.object({ farmIds: z.array(z.number()).min(2).max(5) }))
     .query(async ({ input, ctx }) => {
+      await requireFarmAccess(ctx.user, input.farmIds, "viewer");
       try {
         const db = await getDb();
         if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
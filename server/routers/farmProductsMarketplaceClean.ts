@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -11,7 +11,7 @@ export const farmProductsMarketplaceCleanRouter = router({
   /**
    * List farm products
    */
-  listProducts: protectedProcedure
+  listProducts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -114,7 +114,7 @@ export const farmProductsMarketplaceCleanRouter = router({
   /**
    * Create new farm product listing
    */
-  createProduct: protectedProcedure
+  createProduct: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -193,7 +193,7 @@ export const farmProductsMarketplaceCleanRouter = router({
   /**
    * Get inventory status
    */
-  getInventoryStatus: protectedProcedure
+  getInventoryStatus: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -265,7 +265,7 @@ export const farmProductsMarketplaceCleanRouter = router({
   /**
    * Get sales history
    */
-  getSalesHistory: protectedProcedure
+  getSalesHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -327,7 +327,7 @@ export const farmProductsMarketplaceCleanRouter = router({
   /**
    * Get sales analytics
    */
-  getSalesAnalytics: protectedProcedure
+  getSalesAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), period: z.enum(["week", "month", "quarter", "year"]).default("month") }))
     .query(async ({ input, ctx }) => {
       try {
@@ -451,7 +451,7 @@ export const farmProductsMarketplaceCleanRouter = router({
   /**
    * Get customer list for farm products
    */
-  getCustomers: protectedProcedure
+  getCustomers: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), limit: z.number().positive().default(50) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -502,7 +502,7 @@ export const farmProductsMarketplaceCleanRouter = router({
   /**
    * Generate sales report
    */
-  generateSalesReport: protectedProcedure
+  generateSalesReport: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,6 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
+import { TRPCError } from '@trpc/server';
+import { hasFarmRole, loadFarmAccess } from '../_core/farmAccess';
 import { z } from 'zod';
 import { getDb } from '../db';
 import { fieldWorkerTasks, farms } from '../../drizzle/schema';
@@ -34,7 +36,7 @@ export const farmTaskFilteringRouter = router({
   /**
    * Get tasks for a specific farm
    */
-  getTasksByFarm: protectedProcedure
+  getTasksByFarm: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
       status: z.enum(['pending', 'in_progress', 'completed']).optional(),
@@ -117,7 +119,7 @@ export const farmTaskFilteringRouter = router({
   /**
    * Get task statistics by farm
    */
-  getTaskStatsByFarm: protectedProcedure
+  getTaskStatsByFarm: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -200,21 +202,16 @@ export const farmTaskFilteringRouter = router({
       farmId: z.number().optional(),
       allFarms: z.boolean().default(false),
     }))
-    .mutation(async ({ input }) => {
-      // This is a client-side operation, but we validate the farm exists
-      const db = await getDb();
-      if (!db) throw new Error('Database connection failed');
-
+    .mutation(async ({ input, ctx }) => {
+      // This is a client-side operation, but we validate the farm exists and the user can view it
       if (input.farmId) {
-        const farm = await db
-          .select()
-          .from(farms)
-          .where(eq(farms.id, input.farmId))
-          .limit(1);
-
-        if (farm.length === 0) {
+        const access = await loadFarmAccess(ctx.user, input.farmId);
+        if (!access) {
           throw new Error('Farm not found');
         }
+        if (!hasFarmRole(access.role, 'viewer')) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'No access to this farm' });
+        }
       }
 
       return {
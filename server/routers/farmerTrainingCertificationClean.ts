@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -289,7 +289,7 @@ export const farmerTrainingCertificationCleanRouter = router({
   /**
    * Get skill-based worker matching
    */
-  getSkillBasedMatching: protectedProcedure
+  getSkillBasedMatching: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
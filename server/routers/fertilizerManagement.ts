@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { fertilizerInventoryService } from '../_core/fertilizerInventoryService';
 import { soilHealthRecommendationsEngine } from '../_core/soilHealthRecommendationsEngine';
@@ -9,7 +9,7 @@ export const fertilizerManagementRouter = router({
   // INVENTORY MANAGEMENT
   // ============================================================================
   inventory: router({
-    getByFarm: protectedProcedure
+    getByFarm: farmProcedure("viewer")
       .input(z.object({ farmId: z.number() }))
       .query(async ({ input }) => {
         return await fertilizerInventoryService.getInventoryByFarm(input.farmId);
@@ -21,7 +21,7 @@ export const fertilizerManagementRouter = router({
         return await fertilizerInventoryService.getInventoryItem(input.id);
       }),
 
-    upsert: protectedProcedure
+    upsert: farmProcedure("editor")
       .input(
         z.object({
           farmId: z.number(),
@@ -73,19 +73,19 @@ export const fertilizerManagementRouter = router({
         return await fertilizerInventoryService.getTransactionHistory(input.inventoryId, input.limit);
       }),
 
-    getLowStockItems: protectedProcedure
+    getLowStockItems: farmProcedure("viewer")
       .input(z.object({ farmId: z.number() }))
       .query(async ({ input }) => {
         return await fertilizerInventoryService.getLowStockItems(input.farmId);
       }),
 
-    getExpiringItems: protectedProcedure
+    getExpiringItems: farmProcedure("viewer")
       .input(z.object({ farmId: z.number(), daysThreshold: z.number().optional() }))
       .query(async ({ input }) => {
         return await fertilizerInventoryService.getExpiringItems(input.farmId, input.daysThreshold);
       }),
 
-    getInventoryValue: protectedProcedure
+    getInventoryValue: farmProcedure("viewer")
       .input(z.object({ farmId: z.number() }))
       .query(async ({ input }) => {
         return await fertilizerInventoryService.calculateInventoryValue(input.farmId);
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { farmProcedure, router } from "../_core/trpc";
+import { GeometryError } from "../services/fieldGeometry";
+import {
+  exportBoundaries,
+  importFieldBoundaries,
+  locatePoint,
+  previewBoundaryFile,
+  setFarmBoundary,
+  setFieldBoundary,
+  setSegmentBoundary,
+} from "../services/fieldBoundaryService";
+
+async function geometryCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof GeometryError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    throw error;
+  }
+}
+
+/** GeoJSON Polygon or MultiPolygon; checked and normalized by the service */
+const geometry = z.object({ type: z.string(), coordinates: z.array(z.any()) }).passthrough();
+
+const boundaryFile = {
+  fileName: z.string().min(1).max(255),
+  /** Base64 file content (shapefile ZIPs are binary) */
+  contentBase64: z.string().min(1).max(30_000_000),
+};
+
+/**
+ * Polygon boundaries for farms, fields and field segments, with areas
+ * measured from them, GeoJSON/KML/shapefile import, GeoJSON export and
+ * point-in-field lookups
+ */
+export const fieldBoundariesRouter = router({
+  setFarmBoundary: farmProcedure("admin")
+    .input(z.object({ farmId: z.number(), boundary: geometry }))
+    .mutation(({ input }) => geometryCall(() => setFarmBoundary(input.farmId, input.boundary))),
+
+  setFieldBoundary: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), fieldId: z.number(), boundary: geometry }))
+    .mutation(({ input }) => geometryCall(() => setFieldBoundary(input.farmId, input.fieldId, input.boundary))),
+
+  setSegmentBoundary: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), segmentId: z.number(), boundary: geometry }))
+    .mutation(({ input }) => geometryCall(() => setSegmentBoundary(input.farmId, input.segmentId, input.boundary))),
+
+  previewImport: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), ...boundaryFile }))
+    .mutation(({ input }) => geometryCall(() => previewBoundaryFile(input.farmId, input.fileName, input.contentBase64))),
+
+  /**
+   * Features are matched to fields by name or code unless `assignments`
+   * (feature index to field id) says otherwise
+   */
+  importBoundaries: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      ...boundaryFile,
+      assignments: z.record(z.string(), z.number()).optional(),
+    }))
+    .mutation(({ input }) =>
+      geometryCall(() =>
+        importFieldBoundaries(
+          input.farmId,
+          input.fileName,
+          input.contentBase64,
+          Object.fromEntries(Object.entries(input.assignments ?? {}).map(([index, fieldId]) => [Number(index), fieldId]))
+        )
+      )
+    ),
+
+  exportGeoJson: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), includeSegments: z.boolean().default(true) }))
+    .query(({ input }) => exportBoundaries(input.farmId, input.includeSegments)),
+
+  locatePoint: farmProcedure("viewer")
+    .input(z.object({
+      farmId: z.number(),
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    }))
+    .query(({ input }) => locatePoint(input.farmId, input.latitude, input.longitude)),
+});
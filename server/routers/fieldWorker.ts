@@ -3,7 +3,7 @@
  * tRPC procedures for field worker operations
  */
 
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -11,9 +11,10 @@ import { fieldWorkerTasks, taskHistory, users, fieldWorkerActivityLogs } from '.
 import { eq, desc, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import { broadcastToFarm } from '../_core/websocket';
+import { findFieldIdAt } from '../services/fieldBoundaryService';
 
 export const fieldWorkerRouter = router({
-  getTasks: protectedProcedure
+  getTasks: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
       status: z.enum(['pending', 'in_progress', 'completed']).optional(),
@@ -137,7 +138,7 @@ export const fieldWorkerRouter = router({
       }
     }),
 
-  getActivityLogs: protectedProcedure
+  getActivityLogs: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
       limit: z.number().default(50),
@@ -208,7 +209,7 @@ export const fieldWorkerRouter = router({
       }
     }),
 
-  createActivityLog: protectedProcedure
+  createActivityLog: farmProcedure("editor")
     .input(z.object({
       farmId: z.number(),
       fieldId: z.number().optional(),
@@ -234,13 +235,19 @@ export const fieldWorkerRouter = router({
 
       try {
         const photoUrlsJson = JSON.stringify(input.photoUrls || []);
+        // Geotagged logs without a field go to the mapped field they were made in
+        const fieldId = input.fieldId ?? (
+          input.gpsLatitude !== undefined && input.gpsLongitude !== undefined
+            ? await findFieldIdAt(input.farmId, input.gpsLatitude, input.gpsLongitude)
+            : null
+        );
         
         await db.execute(
           sql`INSERT INTO fieldWorkerActivityLogs (
             logId, userId, farmId, fieldId, activityType, title, description, observations,
             gpsLatitude, gpsLongitude, photoUrls, createdAt, updatedAt
           ) VALUES (
-            ${logId}, ${ctx.user.id}, ${input.farmId}, ${input.fieldId ?? null}, 
+            ${logId}, ${ctx.user.id}, ${input.farmId}, ${fieldId}, 
             ${input.activityType}, ${input.title}, ${input.description ?? null}, 
             ${input.observations ?? null}, ${input.gpsLatitude ?? null}, 
             ${input.gpsLongitude ?? null}, ${photoUrlsJson}, ${now}, ${now}
@@ -252,7 +259,7 @@ export const fieldWorkerRouter = router({
           data: {
             logId,
             farmId: input.farmId,
-            fieldId: input.fieldId,
+            fieldId,
             activityType: input.activityType,
             title: input.title,
             description: input.description,
@@ -349,7 +356,7 @@ export const fieldWorkerRouter = router({
       }
     }),
 
-  getDashboardData: protectedProcedure
+  getDashboardData: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -414,7 +421,7 @@ export const fieldWorkerRouter = router({
       }
     }),
 
-  clockIn: protectedProcedure
+  clockIn: farmProcedure("editor")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -443,7 +450,7 @@ export const fieldWorkerRouter = router({
       }
     }),
 
-  clockOut: protectedProcedure
+  clockOut: farmProcedure("editor")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -477,7 +484,7 @@ export const fieldWorkerRouter = router({
       }
     }),
 
-  getTimeTrackerLogs: protectedProcedure
+  getTimeTrackerLogs: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
       startDate: z.date().optional(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, gte, lte, sum, desc, asc, inArray } from "drizzle-orm";
@@ -16,7 +16,7 @@ export const financialAnalysisRouter = router({
   /**
    * Create a new expense record
    */
-  createExpense: protectedProcedure
+  createExpense: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -69,7 +69,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get all expenses for a farm with filters
    */
-  getExpenses: protectedProcedure
+  getExpenses: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -138,7 +138,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get expense summary for a farm
    */
-  getExpenseSummary: protectedProcedure
+  getExpenseSummary: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -173,7 +173,7 @@ export const financialAnalysisRouter = router({
   /**
    * Create a new revenue record
    */
-  createRevenue: protectedProcedure
+  createRevenue: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -213,7 +213,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get all revenue for a farm with filters
    */
-  getRevenue: protectedProcedure
+  getRevenue: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -264,7 +264,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get revenue summary for a farm
    */
-  getRevenueSummary: protectedProcedure
+  getRevenueSummary: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -297,7 +297,7 @@ export const financialAnalysisRouter = router({
   /**
    * Calculate cost-per-animal
    */
-  calculateCostPerAnimal: protectedProcedure
+  calculateCostPerAnimal: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -327,7 +327,7 @@ export const financialAnalysisRouter = router({
   /**
    * Calculate cost-per-hectare
    */
-  calculateCostPerHectare: protectedProcedure
+  calculateCostPerHectare: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -362,7 +362,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get profitability analysis
    */
-  getProfitabilityAnalysis: protectedProcedure
+  getProfitabilityAnalysis: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -463,7 +463,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get financial overview/dashboard data
    */
-  getFinancialOverview: protectedProcedure
+  getFinancialOverview: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -497,7 +497,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get financial KPIs
    */
-  getFinancialKPIs: protectedProcedure
+  getFinancialKPIs: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ input, ctx }) => {
       // Mock implementation
@@ -552,7 +552,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get expense breakdown chart data
    */
-  getExpenseBreakdown: protectedProcedure
+  getExpenseBreakdown: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -587,7 +587,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get revenue breakdown chart data
    */
-  getRevenueBreakdown: protectedProcedure
+  getRevenueBreakdown: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -616,7 +616,7 @@ export const financialAnalysisRouter = router({
   /**
    * Get income vs expense trend
    */
-  getIncomeVsExpenseTrend: protectedProcedure
+  getIncomeVsExpenseTrend: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -10,16 +10,16 @@ export const financialExportRouter = router({
   /**
    * Export income statement as PDF
    */
-  exportIncomeStatementPDF: protectedProcedure
+  exportIncomeStatementPDF: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         startDate: z.date(),
         endDate: z.date(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       // In production, generate actual PDF using reportlab or similar
       return {
@@ -35,16 +35,16 @@ export const financialExportRouter = router({
   /**
    * Export cash flow report as PDF
    */
-  exportCashFlowPDF: protectedProcedure
+  exportCashFlowPDF: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         startDate: z.date(),
         endDate: z.date(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         success: true,
@@ -59,15 +59,15 @@ export const financialExportRouter = router({
   /**
    * Export balance sheet as PDF
    */
-  exportBalanceSheetPDF: protectedProcedure
+  exportBalanceSheetPDF: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         asOfDate: z.date(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         success: true,
@@ -82,16 +82,16 @@ export const financialExportRouter = router({
   /**
    * Export income and expenses as CSV
    */
-  exportIncomeExpensesCSV: protectedProcedure
+  exportIncomeExpensesCSV: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         startDate: z.date(),
         endDate: z.date(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       // Generate CSV content
       const csvContent = `Date,Type,Description,Category,Amount,Reference
@@ -114,15 +114,15 @@ export const financialExportRouter = router({
   /**
    * Export budget report as CSV
    */
-  exportBudgetReportCSV: protectedProcedure
+  exportBudgetReportCSV: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         year: z.number(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       const csvContent = `Category,Budgeted,Spent,Remaining,Percentage
 Seeds & Fertilizer,100000,85000,15000,85%
@@ -144,15 +144,15 @@ Transport,30000,15000,15000,50%`;
   /**
    * Export tax report as PDF
    */
-  exportTaxReportPDF: protectedProcedure
+  exportTaxReportPDF: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         year: z.number(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         success: true,
@@ -170,15 +170,15 @@ Transport,30000,15000,15000,50%`;
   /**
    * Export loan payment schedule as PDF
    */
-  exportLoanSchedulePDF: protectedProcedure
+  exportLoanSchedulePDF: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         loanId: z.number(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         success: true,
@@ -194,16 +194,16 @@ Transport,30000,15000,15000,50%`;
   /**
    * Export financial summary as PDF
    */
-  exportFinancialSummaryPDF: protectedProcedure
+  exportFinancialSummaryPDF: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         startDate: z.date(),
         endDate: z.date(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         success: true,
@@ -219,16 +219,16 @@ Transport,30000,15000,15000,50%`;
   /**
    * Get export history
    */
-  getExportHistory: protectedProcedure
+  getExportHistory: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         limit: z.number().default(20),
         offset: z.number().default(0),
       })
     )
     .query(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       const exports = [
         {
@@ -271,18 +271,18 @@ Transport,30000,15000,15000,50%`;
   /**
    * Schedule recurring export
    */
-  scheduleRecurringExport: protectedProcedure
+  scheduleRecurringExport: farmProcedure('editor')
     .input(
       z.object({
         reportType: z.enum(['income_statement', 'cash_flow', 'balance_sheet', 'tax', 'budget']),
         frequency: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']),
         format: z.enum(['pdf', 'csv']),
         recipients: z.array(z.string().email()),
-        farmId: z.number().optional(),
+        farmId: z.number(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       return {
         id: Math.random(),
@@ -296,10 +296,10 @@ Transport,30000,15000,15000,50%`;
   /**
    * Get scheduled exports
    */
-  getScheduledExports: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getScheduledExports: farmProcedure('viewer')
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const farmId = input.farmId || ctx.user.farmId;
+      const farmId = input.farmId;
 
       const scheduled = [
         {
@@ -330,10 +330,10 @@ Transport,30000,15000,15000,50%`;
   /**
    * Export expenses with filtering
    */
-  exportExpensesFiltered: protectedProcedure
+  exportExpensesFiltered: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.string().optional(),
+        farmId: z.string(),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
         category: z.string().optional(),
@@ -351,10 +351,10 @@ Transport,30000,15000,15000,50%`;
   /**
    * Export revenue with filtering
    */
-  exportRevenueFiltered: protectedProcedure
+  exportRevenueFiltered: farmProcedure('viewer')
     .input(
       z.object({
-        farmId: z.string().optional(),
+        farmId: z.string(),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
         category: z.string().optional(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { eq, and, gte, lte, sum, inArray, sql, desc } from "drizzle-orm";
@@ -16,7 +16,7 @@ export const financialForecastingRouter = router({
   /**
    * Generate financial forecasts based on historical trends
    */
-  generateForecasts: protectedProcedure
+  generateForecasts: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       forecastPeriods: z.number().default(3), // Number of periods to forecast
@@ -123,7 +123,7 @@ export const financialForecastingRouter = router({
   /**
    * Get forecasts for a farm
    */
-  getForecasts: protectedProcedure
+  getForecasts: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       forecastType: z.enum(["revenue", "expense", "profit"]).optional(),
@@ -153,7 +153,7 @@ export const financialForecastingRouter = router({
   /**
    * Create a budget with line items
    */
-  createBudget: protectedProcedure
+  createBudget: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       budgetName: z.string(),
@@ -260,7 +260,7 @@ export const financialForecastingRouter = router({
   /**
    * Check and create budget variance alerts
    */
-  checkBudgetVariances: protectedProcedure
+  checkBudgetVariances: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       thresholds: z.object({
@@ -345,7 +345,7 @@ export const financialForecastingRouter = router({
   /**
    * Get budget variance alerts
    */
-  getVarianceAlerts: protectedProcedure
+  getVarianceAlerts: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       severity: z.enum(["low", "medium", "high", "critical"]).optional(),
@@ -1,4 +1,5 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure, requireFarmAccess } from "../_core/trpc";
+import { listAccessibleFarmIds } from "../_core/farmAccess";
 import { z } from "zod";
 import { getDb } from "../db";
 import { eq, and, gte, lte, sum, inArray, sql } from "drizzle-orm";
@@ -8,18 +9,32 @@ import {
   budgets,
   budgetLineItems,
   invoices,
+  invoiceLineItems,
   animals,
   vetAppointments,
   insuranceClaims,
   prescriptions,
   animalHealthRecords
 } from "../../drizzle/schema";
+import { recordInLedger } from "../services/ledgerService";
+
+/**
+ * The farms a consolidated report covers. "all" means every farm the user
+ * can see (null for platform admins, who see every farm); explicit ids are
+ * checked for viewer access.
+ */
+async function reportFarmIds(user: Parameters<typeof requireFarmAccess>[0], farmIds: string): Promise<number[] | null> {
+  if (farmIds === "all") return listAccessibleFarmIds(user);
+  const ids = farmIds.split(",").map(id => parseInt(id));
+  await requireFarmAccess(user, ids, "viewer");
+  return ids;
+}
 
 export const financialManagementRouter = router({
   /**
    * Create a new expense record
    */
-  createExpense: protectedProcedure
+  createExpense: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       expenseType: z.enum(["feed", "medication", "labor", "equipment", "utilities", "transport", "veterinary", "fertilizer", "seeds", "pesticides", "water", "rent", "insurance", "maintenance", "other"]).or(z.string()),
@@ -67,6 +82,7 @@ export const financialManagementRouter = router({
         paymentDate: paymentDateStr,
         notes: input.notes
       });
+      await recordInLedger("expense", result.insertId, ctx.user.id);
 
       return result;
     }),
@@ -74,7 +90,7 @@ export const financialManagementRouter = router({
   /**
    * Get expenses for a farm with filtering
    */
-  getExpenses: protectedProcedure
+  getExpenses: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       category: z.string().optional(),
@@ -117,7 +133,7 @@ export const financialManagementRouter = router({
   /**
    * Create a new revenue record
    */
-  createRevenue: protectedProcedure
+  createRevenue: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       revenueType: z.enum(["animal_sale", "milk_production", "egg_production", "wool_production", "meat_sale", "crop_sale", "produce_sale", "breeding_service", "other"]),
@@ -162,6 +178,7 @@ export const financialManagementRouter = router({
         paymentDate: paymentDateStr,
         notes: input.notes
       });
+      await recordInLedger("revenue", result.insertId, ctx.user.id);
 
       return result;
     }),
@@ -169,7 +186,7 @@ export const financialManagementRouter = router({
   /**
    * Get revenue records for a farm
    */
-  getRevenue: protectedProcedure
+  getRevenue: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       revenueType: z.string().optional(),
@@ -202,7 +219,7 @@ export const financialManagementRouter = router({
    * Get financial summary (total revenue, expenses, profit, margin)
    * Supports single farm or multiple farms (comma-separated)
    */
-  getFinancialSummary: protectedProcedure
+  getFinancialSummary: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -286,7 +303,7 @@ export const financialManagementRouter = router({
    * Backward compatibility alias for getFinancialSummary
    * @deprecated Use getFinancialSummary instead
    */
-  getSummary: protectedProcedure
+  getSummary: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -360,7 +377,7 @@ export const financialManagementRouter = router({
   /**
    * Calculate cost per animal
    */
-  calculateCostPerAnimal: protectedProcedure
+  calculateCostPerAnimal: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -423,7 +440,7 @@ export const financialManagementRouter = router({
   /**
    * Get expense breakdown by category
    */
-  getExpenseBreakdown: protectedProcedure
+  getExpenseBreakdown: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -479,7 +496,7 @@ export const financialManagementRouter = router({
   /**
    * Get revenue breakdown by source
    */
-  getRevenueBreakdown: protectedProcedure
+  getRevenueBreakdown: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -534,7 +551,7 @@ export const financialManagementRouter = router({
   /**
    * Create a budget
    */
-  createBudget: protectedProcedure
+  createBudget: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       name: z.string(),
@@ -564,7 +581,7 @@ export const financialManagementRouter = router({
   /**
    * Get budgets for a farm
    */
-  getBudgets: protectedProcedure
+  getBudgets: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string()
     }))
@@ -583,7 +600,7 @@ export const financialManagementRouter = router({
   /**
    * Get budget vs actual spending
    */
-  getBudgetVsActual: protectedProcedure
+  getBudgetVsActual: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -631,7 +648,7 @@ export const financialManagementRouter = router({
   /**
    * Create an invoice
    */
-  createInvoice: protectedProcedure
+  createInvoice: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       invoiceNumber: z.string(),
@@ -653,13 +670,23 @@ export const financialManagementRouter = router({
       const [result] = await db.insert(invoices).values({
         farmId: parseInt(input.farmId),
         invoiceNumber: input.invoiceNumber,
-        clientName: input.clientName,
-        items: JSON.stringify(input.items),
-        totalAmount: input.totalAmount,
+        invoiceType: "revenue",
+        vendorOrBuyer: input.clientName,
+        invoiceDate: new Date(),
         dueDate: input.dueDate,
-        status: "draft",
+        totalAmount: input.totalAmount.toFixed(2),
+        paymentStatus: "draft",
         notes: input.notes
       });
+      if (input.items.length > 0) {
+        await db.insert(invoiceLineItems).values(input.items.map(item => ({
+          invoiceId: result.insertId,
+          description: item.description,
+          quantity: item.quantity.toString(),
+          unitPrice: item.unitPrice.toFixed(2),
+          lineTotal: item.amount.toFixed(2),
+        })));
+      }
 
       return result;
     }),
@@ -667,7 +694,7 @@ export const financialManagementRouter = router({
   /**
    * Get invoices for a farm
    */
-  getInvoices: protectedProcedure
+  getInvoices: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       status: z.string().optional()
@@ -677,14 +704,33 @@ export const financialManagementRouter = router({
       if (!db) throw new Error("Database not available");
       
       const conditions = [eq(invoices.farmId, parseInt(input.farmId))];
-      if (input.status) conditions.push(eq(invoices.status, input.status));
+      if (input.status) conditions.push(sql`${invoices.paymentStatus} = ${input.status}`);
 
-      const result = await db
+      const rows = await db
         .select()
         .from(invoices)
         .where(and(...conditions));
+      if (rows.length === 0) return [];
 
-      return result;
+      const items = await db
+        .select()
+        .from(invoiceLineItems)
+        .where(inArray(invoiceLineItems.invoiceId, rows.map(row => row.id)));
+
+      // clientName/status/items are the names the invoice screens use
+      return rows.map(row => ({
+        ...row,
+        clientName: row.vendorOrBuyer,
+        status: row.paymentStatus,
+        items: items
+          .filter(item => item.invoiceId === row.id)
+          .map(item => ({
+            description: item.description,
+            quantity: parseFloat(item.quantity),
+            unitPrice: parseFloat(item.unitPrice),
+            amount: parseFloat(item.lineTotal),
+          })),
+      }));
     }),
 
   /**
@@ -699,10 +745,20 @@ export const financialManagementRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database not available");
       
+      const invoiceId = parseInt(input.invoiceId);
+      // The payment date dates the ledger entry, so re-marking a paid invoice keeps it
+      const [current] = await db
+        .select({ paymentStatus: invoices.paymentStatus })
+        .from(invoices)
+        .where(eq(invoices.id, invoiceId))
+        .limit(1);
+      const paidNow = input.status === "paid" && current?.paymentStatus !== "paid";
       const [result] = await db
         .update(invoices)
-        .set({ status: input.status })
-        .where(eq(invoices.id, parseInt(input.invoiceId)));
+        .set({ paymentStatus: input.status, ...(paidNow ? { paidAt: new Date() } : {}) })
+        .where(eq(invoices.id, invoiceId));
+      // Issuing posts the receivable, paying settles it, cancelling reverses both
+      await recordInLedger("invoice", invoiceId, ctx.user.id);
 
       return result;
     }),
@@ -710,7 +766,7 @@ export const financialManagementRouter = router({
   /**
    * Export financial report in various formats
    */
-  exportReport: protectedProcedure
+  exportReport: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       format: z.enum(["pdf", "csv", "excel"]),
@@ -810,7 +866,7 @@ export const financialManagementRouter = router({
       };
     }),
 
-  getVeterinaryExpenses: protectedProcedure
+  getVeterinaryExpenses: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -836,7 +892,7 @@ export const financialManagementRouter = router({
       return await query.orderBy(sql`${vetAppointments.appointmentDate} DESC`);
     }),
 
-  getInsuranceClaims: protectedProcedure
+  getInsuranceClaims: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       status: z.string().optional(),
@@ -864,7 +920,7 @@ export const financialManagementRouter = router({
       return await query.orderBy(sql`${insuranceClaims.claimDate} DESC`);
     }),
 
-  getInsuranceSummary: protectedProcedure
+  getInsuranceSummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
@@ -885,7 +941,7 @@ export const financialManagementRouter = router({
   /**
    * Calculate cost-per-animal metrics
    */
-  getCostPerAnimal: protectedProcedure
+  getCostPerAnimal: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -927,7 +983,7 @@ export const financialManagementRouter = router({
   /**
    * Get profitability analysis by animal
    */
-  getProfitabilityByAnimal: protectedProcedure
+  getProfitabilityByAnimal: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -994,9 +1050,7 @@ export const financialManagementRouter = router({
       if (!db) return null;
       
       // Parse farm IDs
-      const farmIds = input.farmIds === "all" 
-        ? [] // Will fetch all farms
-        : input.farmIds.split(",").map(id => parseInt(id));
+      const farmIds = await reportFarmIds(ctx.user, input.farmIds);
       
       const startDate = input.startDate || new Date(new Date().getFullYear(), 0, 1);
       const endDate = input.endDate || new Date();
@@ -1010,7 +1064,7 @@ export const financialManagementRouter = router({
         })
         .from(expenses)
         .where(and(
-          farmIds.length > 0 ? inArray(expenses.farmId, farmIds) : undefined,
+          farmIds ? inArray(expenses.farmId, farmIds) : undefined,
           gte(expenses.expenseDate, startDate),
           lte(expenses.expenseDate, endDate)
         ))
@@ -1025,7 +1079,7 @@ export const financialManagementRouter = router({
         })
         .from(revenue)
         .where(and(
-          farmIds.length > 0 ? inArray(revenue.farmId, farmIds) : undefined,
+          farmIds ? inArray(revenue.farmId, farmIds) : undefined,
           gte(revenue.saleDate, startDate),
           lte(revenue.saleDate, endDate)
         ))
@@ -1077,9 +1131,7 @@ export const financialManagementRouter = router({
       if (!db) throw new Error("Database not available");
       
       // Parse farm IDs
-      const farmIds = input.farmIds === "all" 
-        ? [] 
-        : input.farmIds.split(",").map(id => parseInt(id));
+      const farmIds = await reportFarmIds(ctx.user, input.farmIds);
       
       const startDate = input.startDate || new Date(new Date().getFullYear(), 0, 1);
       const endDate = input.endDate || new Date();
@@ -1091,7 +1143,7 @@ export const financialManagementRouter = router({
         })
         .from(expenses)
         .where(and(
-          farmIds.length > 0 ? inArray(expenses.farmId, farmIds) : undefined,
+          farmIds ? inArray(expenses.farmId, farmIds) : undefined,
           gte(expenses.expenseDate, startDate),
           lte(expenses.expenseDate, endDate)
         ));
@@ -1102,7 +1154,7 @@ export const financialManagementRouter = router({
         })
         .from(revenue)
         .where(and(
-          farmIds.length > 0 ? inArray(revenue.farmId, farmIds) : undefined,
+          farmIds ? inArray(revenue.farmId, farmIds) : undefined,
           gte(revenue.saleDate, startDate),
           lte(revenue.saleDate, endDate)
         ));
@@ -1115,7 +1167,7 @@ export const financialManagementRouter = router({
       const reportData = {
         generatedAt: new Date().toISOString(),
         isConsolidated: true,
-        farmCount: farmIds.length || "all",
+        farmCount: farmIds?.length ?? "all",
         period: {
           startDate: startDate.toISOString().split('T')[0],
           endDate: endDate.toISOString().split('T')[0],
@@ -1140,7 +1192,7 @@ export const financialManagementRouter = router({
   /**
    * Get payment tracking summary
    */
-  getPaymentTracking: protectedProcedure
+  getPaymentTracking: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       status: z.enum(["pending", "paid", "partial", "overdue"]).optional(),
@@ -1218,7 +1270,7 @@ export const financialManagementRouter = router({
   /**
    * Create or update budget forecast
    */
-  createBudgetForecast: protectedProcedure
+  createBudgetForecast: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       category: z.string(),
@@ -1244,7 +1296,7 @@ export const financialManagementRouter = router({
   /**
    * Get expense forecast based on historical data
    */
-  getExpenseForecast: protectedProcedure
+  getExpenseForecast: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       months: z.number().default(3),
@@ -1284,7 +1336,7 @@ export const financialManagementRouter = router({
   /**
    * Get revenue forecast based on historical data
    */
-  getRevenueForecast: protectedProcedure
+  getRevenueForecast: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       months: z.number().default(3),
@@ -1326,7 +1378,7 @@ export const financialManagementRouter = router({
   /**
    * Get profitability analysis by product/revenue type
    */
-  getProfitabilityByProduct: protectedProcedure
+  getProfitabilityByProduct: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -1387,7 +1439,7 @@ export const financialManagementRouter = router({
   /**
    * Calculate cost-per-hectare metrics
    */
-  getCostPerHectare: protectedProcedure
+  getCostPerHectare: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -1424,7 +1476,7 @@ export const financialManagementRouter = router({
       };
     }),
 
-  getVeterinarySummary: protectedProcedure
+  getVeterinarySummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
@@ -1447,7 +1499,7 @@ export const financialManagementRouter = router({
       return { appointmentStats, paymentStats, prescriptions: { count: prescriptionCount[0]?.count || 0, totalCost: Number(prescriptionCount[0]?.totalCost || 0) } };
     }),
 
-  createVetAppointment: protectedProcedure
+  createVetAppointment: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       veterinarianId: z.number().optional(),
@@ -1473,7 +1525,7 @@ export const financialManagementRouter = router({
         status: "completed",
         paymentStatus: "pending",
       });
-      await db.insert(expenses).values({
+      const [expense] = await db.insert(expenses).values({
         farmId: farmIdNum,
         expenseType: "veterinary",
         description: `Veterinary ${input.appointmentType}: ${input.reason}`,
@@ -1481,10 +1533,11 @@ export const financialManagementRouter = router({
         expenseDate: appointmentDateObj.toISOString().split('T')[0],
         paymentStatus: "pending",
       });
+      await recordInLedger("expense", expense.insertId, ctx.user.id);
       return result;
     }),
 
-  createInsuranceClaim: protectedProcedure
+  createInsuranceClaim: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       insuranceProvider: z.string(),
@@ -1618,6 +1671,7 @@ export const financialManagementRouter = router({
         .update(expenses)
         .set({ paymentStatus: input.paymentStatus })
         .where(inArray(expenses.id, input.expenseIds));
+      await recordInLedger("expense", input.expenseIds, ctx.user.id);
 
       return { success: true, updated: input.expenseIds.length };
     }),
@@ -1634,6 +1688,7 @@ export const financialManagementRouter = router({
       if (!db) throw new Error("Database not available");
 
       await db.delete(expenses).where(inArray(expenses.id, input.expenseIds));
+      await recordInLedger("expense", input.expenseIds, ctx.user.id);
 
       return { success: true, deleted: input.expenseIds.length };
     }),
@@ -1654,6 +1709,7 @@ export const financialManagementRouter = router({
         .update(revenue)
         .set({ paymentStatus: input.paymentStatus })
         .where(inArray(revenue.id, input.revenueIds));
+      await recordInLedger("revenue", input.revenueIds, ctx.user.id);
 
       return { success: true, updated: input.revenueIds.length };
     }),
@@ -1670,6 +1726,7 @@ export const financialManagementRouter = router({
       if (!db) throw new Error("Database not available");
 
       await db.delete(revenue).where(inArray(revenue.id, input.revenueIds));
+      await recordInLedger("revenue", input.revenueIds, ctx.user.id);
 
       return { success: true, deleted: input.revenueIds.length };
     }),
@@ -1677,7 +1734,7 @@ export const financialManagementRouter = router({
   /**
    * Get detailed budget vs actual analysis by expense type
    */
-  getBudgetVsActualDetailed: protectedProcedure
+  getBudgetVsActualDetailed: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       budgetId: z.string().optional(),
@@ -1752,7 +1809,7 @@ export const financialManagementRouter = router({
   /**
    * Get budget trend analysis over time
    */
-  getBudgetTrendAnalysis: protectedProcedure
+  getBudgetTrendAnalysis: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date(),
@@ -1822,7 +1879,7 @@ export const financialManagementRouter = router({
   /**
    * Get budget performance metrics and summary
    */
-  getBudgetPerformanceMetrics: protectedProcedure
+  getBudgetPerformanceMetrics: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       startDate: z.date().optional(),
@@ -1911,7 +1968,7 @@ export const financialManagementRouter = router({
   /**
    * Get budget alerts for overspending categories
    */
-  getBudgetAlerts: protectedProcedure
+  getBudgetAlerts: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       thresholdPercent: z.number().default(80)
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 
@@ -12,7 +12,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Record farm income
    */
-  recordIncome: protectedProcedure
+  recordIncome: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -42,7 +42,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Get income summary for a farm
    */
-  getIncomeSummary: protectedProcedure
+  getIncomeSummary: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -74,7 +74,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Record farm expense
    */
-  recordExpense: protectedProcedure
+  recordExpense: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -105,7 +105,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Get expense summary for a farm
    */
-  getExpenseSummary: protectedProcedure
+  getExpenseSummary: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -139,7 +139,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Create budget
    */
-  createBudget: protectedProcedure
+  createBudget: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string().or(z.number()),
@@ -170,7 +170,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Get budgets for a farm
    */
-  getBudgets: protectedProcedure
+  getBudgets: farmProcedure("viewer")
     .input(z.object({ farmId: z.string().or(z.number()) }))
     .query(async ({ input }) => {
       return [
@@ -189,7 +189,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Get budget vs actual analysis
    */
-  getBudgetVsActual: protectedProcedure
+  getBudgetVsActual: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
@@ -226,7 +226,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Generate financial forecast
    */
-  generateForecast: protectedProcedure
+  generateForecast: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -258,7 +258,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Get financial health metrics
    */
-  getFinancialHealth: protectedProcedure
+  getFinancialHealth: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
@@ -290,7 +290,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Generate financial report
    */
-  generateReport: protectedProcedure
+  generateReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -320,7 +320,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Export financial data
    */
-  exportFinancialData: protectedProcedure
+  exportFinancialData: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -352,7 +352,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Create expense (test compatibility)
    */
-  createExpense: protectedProcedure
+  createExpense: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -384,7 +384,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Create revenue (test compatibility)
    */
-  createRevenue: protectedProcedure
+  createRevenue: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -416,7 +416,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Create invoice
    */
-  createInvoice: protectedProcedure
+  createInvoice: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -452,7 +452,7 @@ export const financialManagementCleanRouter = router({
   /**
    * Get invoices for a farm
    */
-  getInvoices: protectedProcedure
+  getInvoices: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ input }) => {
       return [
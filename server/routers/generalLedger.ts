@@ -0,0 +1,201 @@
+import { router, farmProcedure } from "../_core/trpc";
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import { journalEntries, ledgerAccounts } from "../../drizzle/schema";
+import {
+  buildBalanceSheet,
+  buildProfitAndLoss,
+  ensureChartOfAccounts,
+  getAccountTotals,
+  getEntriesWithLines,
+  LedgerError,
+  postJournalEntry,
+  postUnpostedRecords,
+  reverseJournalEntry,
+  summarizeTrialBalance,
+} from "../services/ledgerService";
+
+function ledgerFailure(error: unknown): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof LedgerError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `Ledger update failed: ${(error as Error).message}` });
+}
+
+export const generalLedgerRouter = router({
+  /**
+   * Chart of accounts for a farm (default accounts are created on first use)
+   */
+  listAccounts: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(async ({ input }) => {
+      const accounts = await ensureChartOfAccounts(input.farmId);
+      return Array.from(accounts.values()).sort((a, b) => a.code.localeCompare(b.code));
+    }),
+
+  createAccount: farmProcedure("admin")
+    .input(z.object({
+      farmId: z.number(),
+      code: z.string().regex(/^\d{3,10}$/, "Account codes are numeric"),
+      name: z.string().min(1).max(255),
+      type: z.enum(["asset", "liability", "equity", "revenue", "expense"]),
+    }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+      const accounts = await ensureChartOfAccounts(input.farmId);
+      if (accounts.has(input.code)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Account ${input.code} already exists` });
+      }
+      const [result] = await db.insert(ledgerAccounts).values({ ...input, isSystem: false });
+      return { id: result.insertId };
+    }),
+
+  setAccountActive: farmProcedure("admin")
+    .input(z.object({ farmId: z.number(), accountId: z.number(), isActive: z.boolean() }))
+    .mutation(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+      const [account] = await db.select().from(ledgerAccounts)
+        .where(and(eq(ledgerAccounts.id, input.accountId), eq(ledgerAccounts.farmId, input.farmId)))
+        .limit(1);
+      if (!account) throw new TRPCError({ code: "NOT_FOUND", message: "Account not found" });
+      // Automatic postings depend on the system accounts
+      if (account.isSystem && !input.isActive) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "System accounts cannot be deactivated" });
+      }
+      await db.update(ledgerAccounts).set({ isActive: input.isActive }).where(eq(ledgerAccounts.id, account.id));
+      return { success: true };
+    }),
+
+  listEntries: farmProcedure("viewer")
+    .input(z.object({
+      farmId: z.number(),
+      startDate: z.date().optional(),
+      endDate: z.date().optional(),
+      limit: z.number().min(1).max(500).default(50),
+      offset: z.number().min(0).default(0),
+    }))
+    .query(async ({ input }) => {
+      return await getEntriesWithLines(input.farmId, {
+        from: input.startDate,
+        to: input.endDate,
+        limit: input.limit,
+        offset: input.offset,
+      });
+    }),
+
+  /**
+   * Manual journal entry, e.g. opening balances or owner contributions
+   */
+  createEntry: farmProcedure("admin")
+    .input(z.object({
+      farmId: z.number(),
+      entryDate: z.date(),
+      description: z.string().min(1).max(500),
+      lines: z.array(z.object({
+        accountId: z.number(),
+        debit: z.number().min(0).optional(),
+        credit: z.number().min(0).optional(),
+        memo: z.string().max(255).optional(),
+      })).min(2),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+      const accountIds = Array.from(new Set(input.lines.map(line => line.accountId)));
+      const accounts = await db.select().from(ledgerAccounts)
+        .where(and(eq(ledgerAccounts.farmId, input.farmId), inArray(ledgerAccounts.id, accountIds)));
+      const byId = new Map(accounts.map(account => [account.id, account]));
+      for (const id of accountIds) {
+        const account = byId.get(id);
+        if (!account) throw new TRPCError({ code: "NOT_FOUND", message: `Account ${id} not found` });
+        if (!account.isActive) throw new TRPCError({ code: "BAD_REQUEST", message: `Account ${account.code} is inactive` });
+      }
+
+      try {
+        const entryId = await postJournalEntry({
+          farmId: input.farmId,
+          entryDate: input.entryDate,
+          description: input.description,
+          sourceType: "manual",
+          createdBy: ctx.user.id,
+          lines: input.lines.map(line => ({ ...line, accountCode: byId.get(line.accountId)!.code })),
+        });
+        return { entryId };
+      } catch (error) {
+        ledgerFailure(error);
+      }
+    }),
+
+  reverseEntry: farmProcedure("admin")
+    .input(z.object({ farmId: z.number(), entryId: z.number(), reason: z.string().min(1).max(200) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+
+      const [entry] = await db.select().from(journalEntries)
+        .where(and(eq(journalEntries.id, input.entryId), eq(journalEntries.farmId, input.farmId)))
+        .limit(1);
+      if (!entry) throw new TRPCError({ code: "NOT_FOUND", message: "Journal entry not found" });
+      // Automatic postings follow their source record; correct the record instead
+      if (entry.sourceType !== "manual") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only manual entries can be reversed directly" });
+      }
+
+      try {
+        const reversalId = await reverseJournalEntry(entry.id, input.reason, ctx.user.id);
+        return { reversalId };
+      } catch (error) {
+        ledgerFailure(error);
+      }
+    }),
+
+  getTrialBalance: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), asOf: z.date().optional() }))
+    .query(async ({ input }) => {
+      const totals = await getAccountTotals(input.farmId, { to: input.asOf });
+      return summarizeTrialBalance(totals);
+    }),
+
+  getBalanceSheet: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), asOf: z.date().optional() }))
+    .query(async ({ input }) => {
+      const totals = await getAccountTotals(input.farmId, { to: input.asOf });
+      return { asOf: input.asOf ?? new Date(), ...buildBalanceSheet(totals) };
+    }),
+
+  getProfitAndLoss: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), startDate: z.date(), endDate: z.date() }))
+    .query(async ({ input }) => {
+      if (input.startDate > input.endDate) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "startDate must be before endDate" });
+      }
+      const totals = await getAccountTotals(input.farmId, { from: input.startDate, to: input.endDate });
+      return { startDate: input.startDate, endDate: input.endDate, ...buildProfitAndLoss(totals) };
+    }),
+
+  /**
+   * Post existing records that predate the ledger. Repeats until a pass
+   * posts nothing so large farms are covered in one call.
+   */
+  postExistingRecords: farmProcedure("owner")
+    .input(z.object({ farmId: z.number() }))
+    .mutation(async ({ input }) => {
+      let posted = 0;
+      try {
+        for (let pass = 0; pass < 20; pass++) {
+          const count = await postUnpostedRecords({ farmId: input.farmId });
+          if (count === 0) break;
+          posted += count;
+        }
+      } catch (error) {
+        ledgerFailure(error);
+      }
+      return { posted };
+    }),
+});
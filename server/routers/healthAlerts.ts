@@ -1,17 +1,17 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
 
 export const healthAlertsRouter = router({
   // Get all active health alerts for user's farm
-  getActiveAlerts: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getActiveAlerts: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       // Get overdue vaccinations
       const overdueVaccinations = await db.execute(
@@ -106,13 +106,13 @@ export const healthAlertsRouter = router({
     }),
 
   // Get alert statistics
-  getAlertStats: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getAlertStats: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const stats = await db.execute(
         sql`
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
@@ -72,10 +72,10 @@ export const healthReportsRouter = router({
     }),
 
   // Generate breed health report
-  generateBreedReport: protectedProcedure
+  generateBreedReport: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         breed: z.string(),
         startDate: z.string(),
         endDate: z.string(),
@@ -85,7 +85,7 @@ export const healthReportsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       // Get animals of breed
       const animals = await db.execute(
@@ -153,10 +153,10 @@ export const healthReportsRouter = router({
     }),
 
   // Generate farm health report
-  generateFarmReport: protectedProcedure
+  generateFarmReport: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         startDate: z.string(),
         endDate: z.string(),
       })
@@ -165,7 +165,7 @@ export const healthReportsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       // Get total animals
       const totalAnimals = await db.execute(
@@ -1,14 +1,14 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
 
 export const healthTrendsAnalyticsRouter = router({
   // Get vaccination coverage trends
-  getVaccinationTrends: protectedProcedure
+  getVaccinationTrends: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         breed: z.string().optional(),
         months: z.number().default(6),
       })
@@ -17,7 +17,7 @@ export const healthTrendsAnalyticsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
       const breedFilter = input.breed ? `AND a.breed = '${input.breed}'` : "";
 
       const trends = await db.execute(
@@ -42,10 +42,10 @@ export const healthTrendsAnalyticsRouter = router({
     }),
 
   // Get health issues trends
-  getHealthIssuesTrends: protectedProcedure
+  getHealthIssuesTrends: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         breed: z.string().optional(),
         months: z.number().default(6),
       })
@@ -54,7 +54,7 @@ export const healthTrendsAnalyticsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
       const breedFilter = input.breed ? `AND a.breed = '${input.breed}'` : "";
 
       const trends = await db.execute(
@@ -80,10 +80,10 @@ export const healthTrendsAnalyticsRouter = router({
     }),
 
   // Get performance metrics trends
-  getPerformanceTrends: protectedProcedure
+  getPerformanceTrends: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         breed: z.string().optional(),
         metricType: z.enum(["weight", "milk_production", "egg_production", "growth_rate"]).optional(),
         months: z.number().default(6),
@@ -93,7 +93,7 @@ export const healthTrendsAnalyticsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
       const breedFilter = input.breed ? `AND a.breed = '${input.breed}'` : "";
       const metricFilter = input.metricType ? `AND p.metricType = '${input.metricType}'` : "";
 
@@ -120,10 +120,10 @@ export const healthTrendsAnalyticsRouter = router({
     }),
 
   // Get breed health comparison
-  getBreedHealthComparison: protectedProcedure
+  getBreedHealthComparison: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         months: z.number().default(6),
       })
     )
@@ -131,7 +131,7 @@ export const healthTrendsAnalyticsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const comparison = await db.execute(
         sql`
@@ -158,10 +158,10 @@ export const healthTrendsAnalyticsRouter = router({
     }),
 
   // Get health score by animal
-  getAnimalHealthScores: protectedProcedure
+  getAnimalHealthScores: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         limit: z.number().default(20),
       })
     )
@@ -169,7 +169,7 @@ export const healthTrendsAnalyticsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const scores = await db.execute(
         sql`
@@ -202,10 +202,10 @@ export const healthTrendsAnalyticsRouter = router({
     }),
 
   // Get vaccination coverage report
-  getVaccinationCoverageReport: protectedProcedure
+  getVaccinationCoverageReport: farmProcedure("viewer")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         breed: z.string().optional(),
       })
     )
@@ -213,7 +213,7 @@ export const healthTrendsAnalyticsRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
       const breedFilter = input.breed ? `AND a.breed = '${input.breed}'` : "";
 
       const report = await db.execute(
@@ -1,11 +1,11 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const incidentPlaybooksRouter = router({
   // Create incident playbook
-  createPlaybook: protectedProcedure
+  createPlaybook: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       playbookName: z.string(),
@@ -79,7 +79,7 @@ export const incidentPlaybooksRouter = router({
     }),
 
   // Get playbooks for farm
-  getPlaybooks: protectedProcedure
+  getPlaybooks: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -105,7 +105,7 @@ export const incidentPlaybooksRouter = router({
     }),
 
   // Trigger incident response
-  triggerIncident: protectedProcedure
+  triggerIncident: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       playbookId: z.number(),
@@ -311,7 +311,7 @@ export const incidentPlaybooksRouter = router({
     }),
 
   // Get active incidents
-  getActiveIncidents: protectedProcedure
+  getActiveIncidents: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, desc } from "drizzle-orm";
@@ -8,7 +8,7 @@ export const insuranceClaimTrackingRouter = router({
   /**
    * Create a new insurance claim
    */
-  createClaim: protectedProcedure
+  createClaim: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -116,7 +116,7 @@ export const insuranceClaimTrackingRouter = router({
   /**
    * Get claims for a farm
    */
-  getFarmClaims: protectedProcedure
+  getFarmClaims: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -205,7 +205,7 @@ export const insuranceClaimTrackingRouter = router({
   /**
    * Get claim statistics
    */
-  getClaimStats: protectedProcedure
+  getClaimStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -253,7 +253,7 @@ export const insuranceClaimTrackingRouter = router({
   /**
    * Get claims by provider
    */
-  getClaimsByProvider: protectedProcedure
+  getClaimsByProvider: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -311,7 +311,7 @@ export const insuranceClaimTrackingRouter = router({
   /**
    * Export claims for accounting
    */
-  exportClaimsForAccounting: protectedProcedure
+  exportClaimsForAccounting: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -10,7 +10,7 @@ export const integrationApiRouter = router({
    * Connect to QuickBooks
    * Establish OAuth connection with QuickBooks
    */
-  connectQuickBooks: protectedProcedure
+  connectQuickBooks: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -50,7 +50,7 @@ export const integrationApiRouter = router({
    * Connect to Xero
    * Establish OAuth connection with Xero
    */
-  connectXero: protectedProcedure
+  connectXero: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -90,7 +90,7 @@ export const integrationApiRouter = router({
    * Sync expenses to accounting software
    * Push expense data to QuickBooks or Xero
    */
-  syncExpensesToAccounting: protectedProcedure
+  syncExpensesToAccounting: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -137,7 +137,7 @@ export const integrationApiRouter = router({
    * Sync revenue to accounting software
    * Push revenue data to QuickBooks or Xero
    */
-  syncRevenueToAccounting: protectedProcedure
+  syncRevenueToAccounting: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -184,7 +184,7 @@ export const integrationApiRouter = router({
    * Reconcile accounting data
    * Compare FarmKonnect data with accounting software
    */
-  reconcileAccounting: protectedProcedure
+  reconcileAccounting: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -227,7 +227,7 @@ export const integrationApiRouter = router({
    * Get integration status
    * Check connection status with accounting software
    */
-  getIntegrationStatus: protectedProcedure
+  getIntegrationStatus: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -276,7 +276,7 @@ export const integrationApiRouter = router({
    * Disconnect from accounting software
    * Remove connection with QuickBooks or Xero
    */
-  disconnectIntegration: protectedProcedure
+  disconnectIntegration: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
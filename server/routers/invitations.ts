@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
@@ -8,7 +8,7 @@ const generateInvitationCode = () => crypto.randomBytes(32).toString("hex");
 
 export const invitationsRouter = router({
   // Create and send invitation
-  sendInvitation: protectedProcedure
+  sendInvitation: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -67,7 +67,7 @@ export const invitationsRouter = router({
     }),
 
   // Get pending invitations for a farm
-  getFarmInvitations: protectedProcedure
+  getFarmInvitations: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -1,7 +1,12 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { iotDevices, sensorReadings } from "../../drizzle/schema";
+
+// Sensors that have not reported for this long are shown as offline
+const SENSOR_STALE_AFTER_MS = 60 * 60 * 1000;
 
 /**
  * IoT Sensor Integration Router
@@ -11,78 +16,75 @@ export const iotSensorIntegrationCleanRouter = router({
   /**
    * Get real-time sensor data
    */
-  getRealtimeSensorData: protectedProcedure
+  getRealtimeSensorData: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
         const db = await getDb();
         if (!db) throw new Error("Database connection failed");
 
+        const devices = await db
+          .select()
+          .from(iotDevices)
+          .where(eq(iotDevices.farmId, input.farmId));
+        if (devices.length === 0) {
+          return { farmId: input.farmId, timestamp: new Date(), sensors: [] };
+        }
+
+        // Latest reading per device and reading type
+        const latest = db
+          .select({
+            deviceId: sensorReadings.deviceId,
+            readingType: sensorReadings.readingType,
+            latestAt: sql<Date>`max(${sensorReadings.readingTimestamp})`.as("latestAt"),
+          })
+          .from(sensorReadings)
+          .where(inArray(sensorReadings.deviceId, devices.map(d => d.id)))
+          .groupBy(sensorReadings.deviceId, sensorReadings.readingType)
+          .as("latest");
+
+        const rows = await db
+          .select({ reading: sensorReadings })
+          .from(sensorReadings)
+          .innerJoin(latest, and(
+            eq(sensorReadings.deviceId, latest.deviceId),
+            eq(sensorReadings.readingType, latest.readingType),
+            eq(sensorReadings.readingTimestamp, latest.latestAt)
+          ));
+
+        const now = Date.now();
+        const devicesById = new Map(devices.map(d => [d.id, d]));
+        const batteryByDevice = new Map<number, number>();
+        for (const { reading } of rows) {
+          if (reading.readingType === "battery") {
+            batteryByDevice.set(reading.deviceId, parseFloat(reading.value));
+          }
+        }
+
+        const sensors = rows
+          .filter(({ reading }) => reading.readingType !== "battery")
+          .map(({ reading }) => {
+            const device = devicesById.get(reading.deviceId)!;
+            const lastUpdated = new Date(reading.readingTimestamp);
+            return {
+              id: reading.id,
+              deviceId: device.id,
+              name: `${device.deviceType.replace(/_/g, " ")} ${device.deviceSerial}`,
+              type: reading.readingType,
+              currentValue: parseFloat(reading.value),
+              unit: reading.unit,
+              status: device.status !== "active"
+                ? device.status
+                : now - lastUpdated.getTime() > SENSOR_STALE_AFTER_MS ? "offline" : "normal",
+              lastUpdated,
+              batteryLevel: batteryByDevice.get(device.id) ?? null,
+            };
+          });
+
         return {
           farmId: input.farmId,
           timestamp: new Date(),
-          sensors: [
-            {
-              id: 1,
-              name: "Soil Moisture Sensor - Field A",
-              type: "soil_moisture",
-              location: "Field A",
-              currentValue: 65,
-              unit: "%",
-              threshold: { min: 40, max: 80 },
-              status: "normal",
-              lastUpdated: new Date(Date.now() - 5 * 60 * 1000),
-              batteryLevel: 92,
-            },
-            {
-              id: 2,
-              name: "Temperature Sensor - Field A",
-              type: "temperature",
-              location: "Field A",
-              currentValue: 28.5,
-              unit: "°C",
-              threshold: { min: 15, max: 35 },
-              status: "normal",
-              lastUpdated: new Date(Date.now() - 3 * 60 * 1000),
-              batteryLevel: 88,
-            },
-            {
-              id: 3,
-              name: "Humidity Sensor - Field A",
-              type: "humidity",
-              location: "Field A",
-              currentValue: 72,
-              unit: "%",
-              threshold: { min: 50, max: 90 },
-              status: "normal",
-              lastUpdated: new Date(Date.now() - 2 * 60 * 1000),
-              batteryLevel: 85,
-            },
-            {
-              id: 4,
-              name: "pH Sensor - Field B",
-              type: "ph",
-              location: "Field B",
-              currentValue: 6.8,
-              unit: "pH",
-              threshold: { min: 6.0, max: 7.5 },
-              status: "normal",
-              lastUpdated: new Date(Date.now() - 8 * 60 * 1000),
-              batteryLevel: 78,
-            },
-            {
-              id: 5,
-              name: "Rainfall Gauge",
-              type: "rainfall",
-              location: "Central",
-              currentValue: 12.5,
-              unit: "mm",
-              threshold: { min: 0, max: 100 },
-              status: "normal",
-              lastUpdated: new Date(Date.now() - 15 * 60 * 1000),
-              batteryLevel: 95,
-            },
-          ],
+          sensors,
         };
       } catch (error) {
         throw new TRPCError({
@@ -140,7 +142,7 @@ export const iotSensorIntegrationCleanRouter = router({
   /**
    * Get sensor alerts
    */
-  getSensorAlerts: protectedProcedure
+  getSensorAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -234,7 +236,7 @@ export const iotSensorIntegrationCleanRouter = router({
   /**
    * Get automated irrigation schedule
    */
-  getAutomatedIrrigationSchedule: protectedProcedure
+  getAutomatedIrrigationSchedule: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -317,7 +319,7 @@ export const iotSensorIntegrationCleanRouter = router({
   /**
    * Get sensor network status
    */
-  getSensorNetworkStatus: protectedProcedure
+  getSensorNetworkStatus: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -351,7 +353,7 @@ export const iotSensorIntegrationCleanRouter = router({
   /**
    * Get sensor maintenance alerts
    */
-  getSensorMaintenanceAlerts: protectedProcedure
+  getSensorMaintenanceAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -395,7 +397,7 @@ export const iotSensorIntegrationCleanRouter = router({
   /**
    * Get water usage analytics
    */
-  getWaterUsageAnalytics: protectedProcedure
+  getWaterUsageAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), timeRange: z.enum(["7d", "30d", "90d"]) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -0,0 +1,93 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { adminProcedure, router } from '../_core/trpc';
+import {
+  cancelJob,
+  getJob,
+  getJobStats,
+  listJobs,
+  listSchedules,
+  retryJobs,
+  runScheduleNow,
+  setScheduleActive,
+} from '../services/jobQueueService';
+
+const jobStatusSchema = z.enum(['pending', 'running', 'completed', 'dead', 'cancelled']);
+
+/**
+ * Background job queue administration (admin only): inspect jobs and
+ * schedules, retry dead-lettered jobs, pause schedules
+ */
+export const jobQueueRouter = router({
+  /**
+   * Counts per job name and status
+   */
+  getStats: adminProcedure.query(() => getJobStats()),
+
+  /**
+   * List jobs, most recently updated first
+   */
+  listJobs: adminProcedure
+    .input(
+      z.object({
+        status: jobStatusSchema.optional(),
+        name: z.string().max(100).optional(),
+        limit: z.number().int().min(1).max(200).default(50),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(({ input }) => listJobs(input)),
+
+  /**
+   * Full job record including payload, result and last error
+   */
+  getJob: adminProcedure.input(z.object({ jobId: z.number() })).query(async ({ input }) => {
+    const job = await getJob(input.jobId);
+    if (!job) throw new TRPCError({ code: 'NOT_FOUND', message: 'Job not found' });
+    return job;
+  }),
+
+  /**
+   * Re-queue dead-lettered or cancelled jobs: by id, or every one with a name
+   */
+  retryJobs: adminProcedure
+    .input(
+      z
+        .object({ jobIds: z.array(z.number()).max(500).optional(), name: z.string().max(100).optional() })
+        .refine((input) => input.jobIds?.length || input.name, 'Give job ids or a job name')
+    )
+    .mutation(async ({ input }) => ({ retried: await retryJobs(input) })),
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  cancelJob: adminProcedure.input(z.object({ jobId: z.number() })).mutation(async ({ input }) => {
+    const cancelled = await cancelJob(input.jobId);
+    if (!cancelled) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only pending jobs can be cancelled' });
+    }
+    return { success: true };
+  }),
+
+  listSchedules: adminProcedure.query(() => listSchedules()),
+
+  /**
+   * Pause or resume a cron schedule
+   */
+  setScheduleActive: adminProcedure
+    .input(z.object({ name: z.string().max(100), isActive: z.boolean() }))
+    .mutation(async ({ input }) => {
+      const found = await setScheduleActive(input.name, input.isActive);
+      if (!found) throw new TRPCError({ code: 'NOT_FOUND', message: 'Schedule not found' });
+      return { success: true };
+    }),
+
+  /**
+   * Enqueue a schedule's job immediately
+   */
+  runScheduleNow: adminProcedure.input(z.object({ name: z.string().max(100) })).mutation(async ({ input }) => {
+    const job = await runScheduleNow(input.name);
+    if (!job) throw new TRPCError({ code: 'NOT_FOUND', message: 'Schedule not found' });
+    return job;
+  }),
+});
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 
@@ -12,7 +12,7 @@ export const laborManagementCleanRouter = router({
   /**
    * Register a worker
    */
-  registerWorker: protectedProcedure
+  registerWorker: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -105,7 +105,7 @@ export const laborManagementCleanRouter = router({
   /**
    * Record worker attendance
    */
-  recordAttendance: protectedProcedure
+  recordAttendance: farmProcedure("editor")
     .input(
       z.object({
         workerId: z.number(),
@@ -209,7 +209,7 @@ export const laborManagementCleanRouter = router({
   /**
    * Process payroll for multiple workers
    */
-  processPayroll: protectedProcedure
+  processPayroll: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -343,7 +343,7 @@ export const laborManagementCleanRouter = router({
   /**
    * Generate compliance report
    */
-  generateComplianceReport: protectedProcedure
+  generateComplianceReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import {
@@ -36,7 +36,7 @@ export const maintenanceAlertsCleanRouter = router({
   /**
    * Get pending maintenance alerts
    */
-  getPendingAlerts: protectedProcedure
+  getPendingAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -131,7 +131,7 @@ export const maintenanceAlertsCleanRouter = router({
   /**
    * Get maintenance alert statistics
    */
-  getAlertStatistics: protectedProcedure
+  getAlertStatistics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
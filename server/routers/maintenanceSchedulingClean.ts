@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -12,7 +12,7 @@ export const maintenanceSchedulingCleanRouter = router({
   /**
    * Get maintenance schedule for a date range
    */
-  getSchedule: protectedProcedure
+  getSchedule: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -94,7 +94,7 @@ export const maintenanceSchedulingCleanRouter = router({
   /**
    * Schedule new maintenance
    */
-  scheduleMaintenanceTask: protectedProcedure
+  scheduleMaintenanceTask: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -232,7 +232,7 @@ export const maintenanceSchedulingCleanRouter = router({
   /**
    * Get technician assignments
    */
-  getTechnicianAssignments: protectedProcedure
+  getTechnicianAssignments: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -351,7 +351,7 @@ export const maintenanceSchedulingCleanRouter = router({
   /**
    * Get maintenance statistics
    */
-  getMaintenanceStats: protectedProcedure
+  getMaintenanceStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -413,7 +413,7 @@ export const maintenanceSchedulingCleanRouter = router({
   /**
    * Get upcoming maintenance alerts
    */
-  getUpcomingAlerts: protectedProcedure
+  getUpcomingAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), daysAhead: z.number().positive().default(30) }))
     .query(async ({ input, ctx }) => {
       try {
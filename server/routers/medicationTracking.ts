@@ -1,14 +1,16 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
+import { NO_WITHDRAWAL } from "../services/withdrawal";
+import { recordTreatment } from "../services/withdrawalService";
 
 export const medicationTrackingRouter = router({
   // Add medication to inventory
-  addMedication: protectedProcedure
+  addMedication: farmProcedure("editor")
     .input(
       z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         medicationName: z.string(),
         medicationType: z.enum(["antibiotic", "vaccine", "supplement", "treatment", "other"]),
         quantity: z.number().min(1),
@@ -23,7 +25,7 @@ export const medicationTrackingRouter = router({
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const result = await db.execute(
         sql`
@@ -71,17 +73,34 @@ export const medicationTrackingRouter = router({
         `
       );
 
-      return { id: (result as any).insertId, ...input };
+      // Start the withdrawal period; vaccines and supplements without a label period on file carry none
+      const medicationRows = await db.execute(
+        sql`SELECT medicationName, medicationType FROM medicationInventory WHERE id = ${input.medicationId}`
+      );
+      const [medication] = ((medicationRows as any)[0] ?? []) as Array<{ medicationName: string; medicationType: string }>;
+      const withdrawal = medication
+        ? await recordTreatment({
+            animalId: input.animalId,
+            medicationName: medication.medicationName,
+            lastDoseAt: new Date(input.administrationDate),
+            source: "medication_usage",
+            sourceId: (result as any)[0]?.insertId,
+            recordedBy: ctx.user.id,
+            fallback: ["vaccine", "supplement"].includes(medication.medicationType) ? NO_WITHDRAWAL : undefined,
+          })
+        : null;
+
+      return { id: (result as any).insertId, ...input, withdrawalClearDates: withdrawal?.clear ?? null };
     }),
 
   // Get medication inventory
-  getMedicationInventory: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getMedicationInventory: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const medications = await db.execute(
         sql`
@@ -125,13 +144,13 @@ export const medicationTrackingRouter = router({
     }),
 
   // Get medication statistics
-  getMedicationStats: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getMedicationStats: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       // Inventory status
       const inventoryStatus = await db.execute(
@@ -208,13 +227,13 @@ export const medicationTrackingRouter = router({
     }),
 
   // Delete expired medications
-  deleteExpiredMedications: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  deleteExpiredMedications: farmProcedure("editor")
+    .input(z.object({ farmId: z.number() }))
     .mutation(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const result = await db.execute(
         sql`
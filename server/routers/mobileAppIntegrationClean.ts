@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -44,7 +44,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Get mobile-optimized dashboard data
    */
-  getMobileDashboard: protectedProcedure
+  getMobileDashboard: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -98,7 +98,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Get offline sync data
    */
-  getOfflineSyncData: protectedProcedure
+  getOfflineSyncData: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), lastSyncTimestamp: z.number().optional() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -181,7 +181,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Sync offline changes to server
    */
-  syncOfflineChanges: protectedProcedure
+  syncOfflineChanges: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -288,7 +288,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Get mobile-optimized alerts
    */
-  getMobileAlerts: protectedProcedure
+  getMobileAlerts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -350,7 +350,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Get mobile-optimized worker list
    */
-  getMobileWorkers: protectedProcedure
+  getMobileWorkers: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -407,7 +407,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Get mobile-optimized equipment status
    */
-  getMobileEquipmentStatus: protectedProcedure
+  getMobileEquipmentStatus: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -465,7 +465,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Get mobile-optimized tasks
    */
-  getMobileTasks: protectedProcedure
+  getMobileTasks: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -563,7 +563,7 @@ export const mobileAppIntegrationCleanRouter = router({
   /**
    * Get app analytics
    */
-  getAppAnalytics: protectedProcedure
+  getAppAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), period: z.enum(["day", "week", "month"]).default("week") }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { farms, animals, cropCycles, notifications } from "../../drizzle/schema";
@@ -8,7 +8,7 @@ export const mobileAppRouter = router({
   /**
    * Get farm overview for mobile dashboard
    */
-  getFarmOverview: protectedProcedure
+  getFarmOverview: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -65,7 +65,7 @@ export const mobileAppRouter = router({
   /**
    * Get crop tracking data for mobile
    */
-  getCropTrackingMobile: protectedProcedure
+  getCropTrackingMobile: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -96,7 +96,7 @@ export const mobileAppRouter = router({
   /**
    * Get livestock monitoring data for mobile
    */
-  getLivestockMonitoringMobile: protectedProcedure
+  getLivestockMonitoringMobile: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -133,7 +133,7 @@ export const mobileAppRouter = router({
   /**
    * Sync offline data to server
    */
-  syncOfflineData: protectedProcedure
+  syncOfflineData: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -89,7 +89,7 @@ export const mobileAppSyncCleanRouter = router({
   /**
    * Get mobile dashboard data
    */
-  getMobileDashboard: protectedProcedure
+  getMobileDashboard: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -180,7 +180,7 @@ export const mobileAppSyncCleanRouter = router({
   /**
    * Get mobile tasks
    */
-  getMobileTasks: protectedProcedure
+  getMobileTasks: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
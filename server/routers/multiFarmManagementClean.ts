@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -82,7 +82,7 @@ export const multiFarmManagementCleanRouter = router({
   /**
    * Get farm details
    */
-  getFarmDetails: protectedProcedure
+  getFarmDetails: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -362,7 +362,7 @@ export const multiFarmManagementCleanRouter = router({
   /**
    * Assign manager to farm
    */
-  assignFarmManager: protectedProcedure
+  assignFarmManager: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -393,7 +393,7 @@ export const multiFarmManagementCleanRouter = router({
   /**
    * Get farm managers
    */
-  getFarmManagers: protectedProcedure
+  getFarmManagers: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { protectedProcedure, publicProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, publicProcedure, router } from '../_core/trpc';
 import {
   sendMultiChannelNotification,
   sendAppointmentReminder,
@@ -14,7 +14,7 @@ export const notificationServicesRouter = router({
   /**
    * Send multi-channel notification (SMS + Email)
    */
-  sendNotification: protectedProcedure
+  sendNotification: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -72,7 +72,7 @@ export const notificationServicesRouter = router({
   /**
    * Send appointment reminder
    */
-  sendAppointmentReminder: protectedProcedure
+  sendAppointmentReminder: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -117,7 +117,7 @@ export const notificationServicesRouter = router({
   /**
    * Send medication compliance alert
    */
-  sendComplianceAlert: protectedProcedure
+  sendComplianceAlert: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -163,7 +163,7 @@ export const notificationServicesRouter = router({
   /**
    * Send prescription expiry alert
    */
-  sendPrescriptionExpiryAlert: protectedProcedure
+  sendPrescriptionExpiryAlert: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -207,7 +207,7 @@ export const notificationServicesRouter = router({
   /**
    * Send health alert
    */
-  sendHealthAlert: protectedProcedure
+  sendHealthAlert: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -249,7 +249,7 @@ export const notificationServicesRouter = router({
   /**
    * Retry notification delivery
    */
-  retryNotification: protectedProcedure
+  retryNotification: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -295,7 +295,7 @@ export const notificationServicesRouter = router({
   /**
    * Get notification status
    */
-  getNotificationStatus: protectedProcedure
+  getNotificationStatus: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -320,7 +320,7 @@ export const notificationServicesRouter = router({
   /**
    * Get notification history
    */
-  getNotificationHistory: protectedProcedure
+  getNotificationHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
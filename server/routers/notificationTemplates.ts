@@ -1,4 +1,4 @@
-import { router, protectedProcedure, adminProcedure } from '../_core/trpc'
+import { router, protectedProcedure, farmProcedure, adminProcedure } from '../_core/trpc'
 import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
 
@@ -28,7 +28,7 @@ export const notificationTemplatesRouter = router({
   /**
    * Get all templates for a farm
    */
-  getTemplates: protectedProcedure
+  getTemplates: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ ctx, input }) => {
       try {
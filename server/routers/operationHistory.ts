@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { protectedProcedure, farmProcedure, publicProcedure, router } from "../_core/trpc";
 import { getDb } from "../db";
 import { bulkOperationHistory, operationFailureDetails, operationRetryLog } from "../../drizzle/schema";
 import { eq, and, desc, gte, lte, like } from "drizzle-orm";
@@ -9,7 +9,7 @@ export const operationHistoryRouter = router({
   /**
    * Create a new operation history record
    */
-  createOperation: protectedProcedure
+  createOperation: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -110,7 +110,7 @@ export const operationHistoryRouter = router({
   /**
    * Get operation history for a farm
    */
-  getFarmOperationHistory: protectedProcedure
+  getFarmOperationHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -154,7 +154,7 @@ export const operationHistoryRouter = router({
   /**
    * Get operation statistics for a farm
    */
-  getOperationStats: protectedProcedure
+  getOperationStats: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -256,7 +256,7 @@ export const operationHistoryRouter = router({
   /**
    * Search operations
    */
-  searchOperations: protectedProcedure
+  searchOperations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -286,7 +286,7 @@ export const operationHistoryRouter = router({
   /**
    * Delete old operation history (cleanup)
    */
-  deleteOldOperations: protectedProcedure
+  deleteOldOperations: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
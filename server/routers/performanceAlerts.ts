@@ -1,13 +1,13 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const performanceAlertsRouter = router({
   // Get alerts for a user
-  getMyAlerts: protectedProcedure
+  getMyAlerts: farmProcedure("viewer")
     .input(z.object({
-      farmId: z.string().optional(),
+      farmId: z.string(),
       limit: z.number().default(20),
       offset: z.number().default(0),
       unreadOnly: z.boolean().default(false)
@@ -19,13 +19,8 @@ export const performanceAlertsRouter = router({
 
         let query = `SELECT id, alertType, severity, message, isRead, createdAt
                      FROM performance_alerts
-                     WHERE userId = ?`;
-        const params: any[] = [ctx.user.id];
-
-        if (input.farmId) {
-          query += ` AND farmId = ?`;
-          params.push(parseInt(input.farmId));
-        }
+                     WHERE userId = ? AND farmId = ?`;
+        const params: any[] = [ctx.user.id, parseInt(input.farmId)];
 
         if (input.unreadOnly) {
           query += ` AND isRead = FALSE`;
@@ -46,7 +41,7 @@ export const performanceAlertsRouter = router({
     }),
 
   // Get alerts for a worker (manager view)
-  getWorkerAlerts: protectedProcedure
+  getWorkerAlerts: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       userId: z.string(),
@@ -129,7 +124,7 @@ export const performanceAlertsRouter = router({
     }),
 
   // Create alert (internal use)
-  createAlert: protectedProcedure
+  createAlert: farmProcedure("editor")
     .input(z.object({
       userId: z.string(),
       farmId: z.string(),
@@ -192,7 +187,7 @@ export const performanceAlertsRouter = router({
     }),
 
   // Get alert summary
-  getAlertSummary: protectedProcedure
+  getAlertSummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
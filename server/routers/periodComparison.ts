@@ -3,7 +3,7 @@
  * Handles month-over-month and year-over-year financial analysis
  * Provides trend indicators and comparative metrics
  */
-import { router, protectedProcedure } from "../\_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../\_core/trpc";
 import { getDb } from "../db";
 import { expenses, revenue } from "../../drizzle/schema";
 import { eq, and, gte, lte, sql } from "drizzle-orm";
@@ -15,7 +15,7 @@ export const periodComparisonRouter = router({
    * Get month-over-month expense comparison
    * Compares current month with previous month
    */
-  getMonthOverMonthExpenses: protectedProcedure
+  getMonthOverMonthExpenses: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), month: z.number(), year: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -141,7 +141,7 @@ export const periodComparisonRouter = router({
    * Get year-over-year expense comparison
    * Compares current year with previous year
    */
-  getYearOverYearExpenses: protectedProcedure
+  getYearOverYearExpenses: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), year: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -257,7 +257,7 @@ export const periodComparisonRouter = router({
   /**
    * Get month-over-month revenue comparison
    */
-  getMonthOverMonthRevenue: protectedProcedure
+  getMonthOverMonthRevenue: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), month: z.number(), year: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -382,7 +382,7 @@ export const periodComparisonRouter = router({
   /**
    * Get year-over-year revenue comparison
    */
-  getYearOverYearRevenue: protectedProcedure
+  getYearOverYearRevenue: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), year: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -11,7 +11,7 @@ export const pestEarlyWarningSystemCleanRouter = router({
   /**
    * Get pest alerts for farm
    */
-  getPestAlerts: protectedProcedure
+  getPestAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -67,7 +67,7 @@ export const pestEarlyWarningSystemCleanRouter = router({
   /**
    * Get pest risk forecast
    */
-  getPestRiskForecast: protectedProcedure
+  getPestRiskForecast: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), days: z.number().default(14) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -185,7 +185,7 @@ export const pestEarlyWarningSystemCleanRouter = router({
   /**
    * Get pest history
    */
-  getPestHistory: protectedProcedure
+  getPestHistory: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -349,7 +349,7 @@ export const pestEarlyWarningSystemCleanRouter = router({
   /**
    * Get pest control calendar
    */
-  getPestControlCalendar: protectedProcedure
+  getPestControlCalendar: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), cropType: z.string() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
@@ -14,7 +14,7 @@ export const predictiveAnalyticsRouter = router({
    * Forecast end-of-year farm performance
    * Uses linear regression on historical data to predict future spending and revenue
    */
-  forecastEndOfYear: protectedProcedure
+  forecastEndOfYear: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -124,7 +124,7 @@ export const predictiveAnalyticsRouter = router({
    * Get spending trend for a farm
    * Returns monthly spending trend to identify patterns
    */
-  getSpendingTrend: protectedProcedure
+  getSpendingTrend: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -197,7 +197,7 @@ export const predictiveAnalyticsRouter = router({
    * Get revenue trend for a farm
    * Returns monthly revenue trend to identify seasonal patterns
    */
-  getRevenueTrend: protectedProcedure
+  getRevenueTrend: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -267,7 +267,7 @@ export const predictiveAnalyticsRouter = router({
    * Identify cost-saving opportunities
    * Analyzes spending patterns to identify potential savings
    */
-  identifyCostSavings: protectedProcedure
+  identifyCostSavings: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -329,7 +329,7 @@ export const predictiveAnalyticsRouter = router({
    * Get optimal purchase timing recommendations
    * Analyzes seasonal patterns to recommend best buying times
    */
-  getOptimalPurchaseTiming: protectedProcedure
+  getOptimalPurchaseTiming: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -370,7 +370,7 @@ export const predictiveAnalyticsRouter = router({
    * Get farm health score
    * Calculates a health score (0-100) based on profitability, efficiency, and trends
    */
-  getFarmHealthScore: protectedProcedure
+  getFarmHealthScore: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
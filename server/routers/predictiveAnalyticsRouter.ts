@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { PredictiveAnalyticsEngine } from "../services/predictiveAnalyticsEngine";
 
@@ -8,7 +8,7 @@ export const predictiveAnalyticsRouter = router({
   /**
    * Predict crop yield based on environmental factors
    */
-  predictCropYield: protectedProcedure
+  predictCropYield: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -33,7 +33,7 @@ export const predictiveAnalyticsRouter = router({
   /**
    * Predict disease outbreak risk
    */
-  predictDiseaseRisk: protectedProcedure
+  predictDiseaseRisk: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -71,7 +71,7 @@ export const predictiveAnalyticsRouter = router({
   /**
    * Get comprehensive farm insights
    */
-  getFarmInsights: protectedProcedure
+  getFarmInsights: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -89,7 +89,7 @@ export const predictiveAnalyticsRouter = router({
   /**
    * Batch predict for multiple crops
    */
-  batchPredictCropYields: protectedProcedure
+  batchPredictCropYields: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -129,7 +129,7 @@ export const predictiveAnalyticsRouter = router({
   /**
    * Get all disease predictions for a farm
    */
-  getAllDiseasePredictions: protectedProcedure
+  getAllDiseasePredictions: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -1,14 +1,15 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, gte, lte, desc } from "drizzle-orm";
 import { prescriptions, prescriptionCompliance } from "../../drizzle/schema";
+import { recordTreatment } from "../services/withdrawalService";
 
 export const prescriptionManagementRouter = router({
   /**
    * Create a new prescription
    */
-  createPrescription: protectedProcedure
+  createPrescription: farmProcedure("editor")
     .input(
       z.object({
         appointmentId: z.number(),
@@ -45,9 +46,20 @@ export const prescriptionManagementRouter = router({
         cost: input.cost ? parseFloat(input.cost) : null,
       });
 
+      // Withdrawal runs from the last dose, at the end of the course
+      const withdrawal = await recordTreatment({
+        animalId: input.animalId,
+        farmId: input.farmId,
+        medicationName: input.medicationName,
+        lastDoseAt: new Date(Date.now() + input.duration * 24 * 60 * 60 * 1000),
+        source: "prescription",
+        sourceId: result.insertId,
+      });
+
       return {
         success: true,
         prescriptionId: result.insertId,
+        withdrawalClearDates: withdrawal?.clear ?? null,
         message: "Prescription created successfully",
       };
     }),
@@ -106,7 +118,7 @@ export const prescriptionManagementRouter = router({
   /**
    * Get active prescriptions for a farm
    */
-  getActivePrescriptions: protectedProcedure
+  getActivePrescriptions: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -275,7 +287,7 @@ export const prescriptionManagementRouter = router({
   /**
    * Get expiring prescriptions alert
    */
-  getExpiringPrescriptions: protectedProcedure
+  getExpiringPrescriptions: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -316,7 +328,7 @@ export const prescriptionManagementRouter = router({
   /**
    * Get prescription summary for a farm
    */
-  getPrescriptionSummary: protectedProcedure
+  getPrescriptionSummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
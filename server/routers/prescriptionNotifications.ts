@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, gte, lte } from "drizzle-orm";
@@ -9,7 +9,7 @@ export const prescriptionNotificationsRouter = router({
   /**
    * Check for missed doses and send notifications
    */
-  checkMissedDoses: protectedProcedure
+  checkMissedDoses: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -67,7 +67,7 @@ export const prescriptionNotificationsRouter = router({
   /**
    * Check for expiring prescriptions
    */
-  checkExpiringPrescriptions: protectedProcedure
+  checkExpiringPrescriptions: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -181,7 +181,7 @@ export const prescriptionNotificationsRouter = router({
   /**
    * Get compliance summary for a farm
    */
-  getComplianceSummary: protectedProcedure
+  getComplianceSummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -274,7 +274,7 @@ export const prescriptionNotificationsRouter = router({
   /**
    * Get non-compliance alerts
    */
-  getNonComplianceAlerts: protectedProcedure
+  getNonComplianceAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
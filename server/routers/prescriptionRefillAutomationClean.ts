@@ -1,10 +1,10 @@
 import { z } from 'zod';
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 import { sendPrescriptionExpiryAlert } from '../services/notificationService';
 
 export const prescriptionRefillAutomationRouter = router({
   // Get refillable prescriptions
-  getRefillablePrescriptions: protectedProcedure
+  getRefillablePrescriptions: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       // Mock refillable prescriptions
@@ -202,7 +202,7 @@ export const prescriptionRefillAutomationRouter = router({
     }),
 
   // Get refill reminders
-  getRefillReminders: protectedProcedure
+  getRefillReminders: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       // Mock reminders
@@ -360,7 +360,7 @@ export const prescriptionRefillAutomationRouter = router({
     }),
 
   // Get refill analytics
-  getRefillAnalytics: protectedProcedure
+  getRefillAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), timeRange: z.enum(['7days', '30days', '90days']) }))
     .query(async ({ input }) => {
       // Mock analytics
@@ -1,11 +1,11 @@
-import { router, publicProcedure, protectedProcedure } from "../_core/trpc";
+import { router, publicProcedure, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const rbacRouter = router({
   // Get user's role and permissions for a specific farm
-  getUserFarmRole: protectedProcedure
+  getUserFarmRole: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -67,7 +67,7 @@ export const rbacRouter = router({
   }),
 
   // Assign worker to farm (owner only)
-  assignWorkerToFarm: protectedProcedure
+  assignWorkerToFarm: farmProcedure("editor")
     .input(
       z.object({
         userId: z.string(),
@@ -115,7 +115,7 @@ export const rbacRouter = router({
     }),
 
   // Get farm workers (owner/manager only)
-  getFarmWorkers: protectedProcedure
+  getFarmWorkers: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -164,7 +164,7 @@ export const rbacRouter = router({
     }),
 
   // Update worker role (owner only)
-  updateWorkerRole: protectedProcedure
+  updateWorkerRole: farmProcedure("editor")
     .input(
       z.object({
         workerId: z.string(),
@@ -211,7 +211,7 @@ export const rbacRouter = router({
     }),
 
   // Deactivate worker (owner only)
-  deactivateWorker: protectedProcedure
+  deactivateWorker: farmProcedure("editor")
     .input(z.object({ workerId: z.string(), farmId: z.string() }))
     .mutation(async ({ ctx, input }) => {
       try {
@@ -252,7 +252,7 @@ export const rbacRouter = router({
     }),
 
   // Check if user has specific permission for a farm
-  hasPermission: protectedProcedure
+  hasPermission: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { realtimeNotificationsService } from "../services/realtimeNotificationsService";
@@ -169,7 +169,7 @@ export const realtimeNotificationsCleanRouter = router({
   /**
    * Send maintenance alert (admin only)
    */
-  sendMaintenanceAlert: protectedProcedure
+  sendMaintenanceAlert: farmProcedure("editor")
     .input(
       z.object({
         userId: z.number(),
@@ -200,7 +200,7 @@ export const realtimeNotificationsCleanRouter = router({
   /**
    * Send performance alert (admin only)
    */
-  sendPerformanceAlert: protectedProcedure
+  sendPerformanceAlert: farmProcedure("editor")
     .input(
       z.object({
         userId: z.number(),
@@ -233,7 +233,7 @@ export const realtimeNotificationsCleanRouter = router({
   /**
    * Send sales notification
    */
-  sendSalesNotification: protectedProcedure
+  sendSalesNotification: farmProcedure("editor")
     .input(
       z.object({
         userId: z.number(),
@@ -264,7 +264,7 @@ export const realtimeNotificationsCleanRouter = router({
   /**
    * Send compliance alert
    */
-  sendComplianceAlert: protectedProcedure
+  sendComplianceAlert: farmProcedure("editor")
     .input(
       z.object({
         userId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { recipientGroupService } from "../_core/recipientGroupService";
 import { TRPCError } from "@trpc/server";
@@ -8,7 +8,7 @@ export const recipientManagementRouter = router({
   // GROUP MANAGEMENT
   // ============================================================================
 
-  createGroup: protectedProcedure
+  createGroup: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -59,7 +59,7 @@ export const recipientManagementRouter = router({
       }
     }),
 
-  getGroupsForFarm: protectedProcedure
+  getGroupsForFarm: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -284,7 +284,7 @@ export const recipientManagementRouter = router({
   // STATISTICS
   // ============================================================================
 
-  getGroupStats: protectedProcedure
+  getGroupStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
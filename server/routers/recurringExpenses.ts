@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
@@ -7,7 +7,7 @@ const db = getDb();
 
 export const recurringExpensesRouter = router({
   // Create recurring expense template
-  createTemplate: protectedProcedure
+  createTemplate: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -36,7 +36,7 @@ export const recurringExpensesRouter = router({
     }),
 
   // Get all templates for a farm
-  getTemplates: protectedProcedure
+  getTemplates: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ input }) => {
       const result = await db.execute(sql`
@@ -127,7 +127,7 @@ export const recurringExpensesRouter = router({
     }),
 
   // Apply template (create expense from template)
-  applyTemplate: protectedProcedure
+  applyTemplate: farmProcedure("editor")
     .input(
       z.object({
         templateId: z.string(),
@@ -164,7 +164,7 @@ export const recurringExpensesRouter = router({
     }),
 
   // Get templates by category
-  getTemplatesByCategory: protectedProcedure
+  getTemplatesByCategory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
@@ -182,7 +182,7 @@ export const recurringExpensesRouter = router({
     }),
 
   // Calculate total recurring expenses for a period
-  calculateRecurringExpenses: protectedProcedure
+  calculateRecurringExpenses: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.string(),
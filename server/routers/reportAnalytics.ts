@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { reportAnalytics, reportHistory, reportDeliveryEvents, farms } from "../../drizzle/schema";
@@ -35,7 +35,7 @@ export const reportAnalyticsRouter = router({
   /**
    * Get analytics for all schedules in a farm
    */
-  getFarmAnalytics: protectedProcedure
+  getFarmAnalytics: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
@@ -95,7 +95,7 @@ export const reportAnalyticsRouter = router({
   /**
    * Get performance summary for a farm
    */
-  getPerformanceSummary: protectedProcedure
+  getPerformanceSummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), days: z.number().default(30) }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
@@ -176,7 +176,7 @@ export const reportAnalyticsRouter = router({
   /**
    * Get report type distribution
    */
-  getReportTypeDistribution: protectedProcedure
+  getReportTypeDistribution: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
@@ -247,7 +247,7 @@ export const reportAnalyticsRouter = router({
   /**
    * Get recent failures
    */
-  getRecentFailures: protectedProcedure
+  getRecentFailures: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), limit: z.number().default(10) }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
@@ -282,7 +282,7 @@ export const reportAnalyticsRouter = router({
   /**
    * Get trend data for a metric over time
    */
-  getTrendData: protectedProcedure
+  getTrendData: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
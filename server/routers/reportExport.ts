@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { reportExportService } from "../_core/reportExportService";
 import { TRPCError } from "@trpc/server";
@@ -8,7 +8,7 @@ export const reportExportRouter = router({
   // EXPORT OPERATIONS
   // ============================================================================
 
-  exportReport: protectedProcedure
+  exportReport: farmProcedure("editor")
     .input(
       z.object({
         reportHistoryId: z.number(),
@@ -62,7 +62,7 @@ export const reportExportRouter = router({
   // ARCHIVAL OPERATIONS
   // ============================================================================
 
-  archiveReport: protectedProcedure
+  archiveReport: farmProcedure("editor")
     .input(
       z.object({
         reportHistoryId: z.number(),
@@ -125,7 +125,7 @@ export const reportExportRouter = router({
       }
     }),
 
-  getFarmArchives: protectedProcedure
+  getFarmArchives: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -139,7 +139,7 @@ export const reportExportRouter = router({
       }
     }),
 
-  deleteExpiredArchives: protectedProcedure
+  deleteExpiredArchives: farmProcedure("editor")
     .input(z.object({ farmId: z.number() }))
     .mutation(async ({ input }) => {
       try {
@@ -162,7 +162,7 @@ export const reportExportRouter = router({
   // STATISTICS
   // ============================================================================
 
-  getExportStats: protectedProcedure
+  getExportStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -1,7 +1,7 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
-import { reportSchedules, reportHistory, farms } from "../../drizzle/schema";
+import { reportSchedules, reportHistory, reportTemplates, farms } from "../../drizzle/schema";
 import { eq, and, desc } from "drizzle-orm";
 import { generatePDFReport, generateExcelReport, getReportFilename } from "../_core/reportGenerator";
 import { NotificationService } from "../_core/notificationService";
@@ -10,13 +10,14 @@ export const reportSchedulingRouter = router({
   /**
    * Create a new report schedule
    */
-  createSchedule: protectedProcedure
+  createSchedule: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
         reportType: z.enum(["financial", "livestock", "complete"]),
         frequency: z.enum(["daily", "weekly", "monthly"]),
         recipients: z.array(z.string().email()),
+        templateId: z.number().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -34,6 +35,15 @@ export const reportSchedulingRouter = router({
         throw new Error("Farm not found or you don't have permission to access it");
       }
 
+      if (input.templateId) {
+        const [template] = await db
+          .select({ id: reportTemplates.id })
+          .from(reportTemplates)
+          .where(and(eq(reportTemplates.id, input.templateId), eq(reportTemplates.farmId, input.farmId)))
+          .limit(1);
+        if (!template) throw new Error("Report template not found for this farm");
+      }
+
       // Calculate next run date
       const now = new Date();
       let nextRun = new Date(now);
@@ -51,6 +61,7 @@ export const reportSchedulingRouter = router({
         reportType: input.reportType,
         frequency: input.frequency,
         recipients: JSON.stringify(input.recipients),
+        templateId: input.templateId ?? null,
         isActive: true,
         nextRun,
       });
@@ -98,6 +109,7 @@ export const reportSchedulingRouter = router({
       z.object({
         scheduleId: z.number(),
         isActive: z.boolean().optional(),
+        templateId: z.number().nullable().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -129,6 +141,7 @@ export const reportSchedulingRouter = router({
         .update(reportSchedules)
         .set({
           isActive: input.isActive !== undefined ? input.isActive : schedule[0].isActive,
+          templateId: input.templateId !== undefined ? input.templateId : schedule[0].templateId,
           updatedAt: new Date(),
         })
         .where(eq(reportSchedules.id, input.scheduleId));
@@ -227,6 +240,7 @@ export const reportSchedulingRouter = router({
           reportType: schedule[0].reportType,
           startDate,
           endDate,
+          templateId: schedule[0].templateId,
         });
 
         const recipients = JSON.parse(schedule[0].recipients as string);
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { reportTemplateCustomizationService } from "../_core/reportTemplateCustomizationService";
 
@@ -92,7 +92,7 @@ export const reportTemplateCustomizationRouter = router({
   /**
    * Get template customization for a farm
    */
-  getCustomization: protectedProcedure
+  getCustomization: farmProcedure("viewer")
     .input(
       z.object({
         templateId: z.number(),
@@ -109,7 +109,7 @@ export const reportTemplateCustomizationRouter = router({
   /**
    * Update template customization
    */
-  updateCustomization: protectedProcedure
+  updateCustomization: farmProcedure("editor")
     .input(
       z.object({
         templateId: z.number(),
@@ -122,6 +122,7 @@ export const reportTemplateCustomizationRouter = router({
         includeMetrics: z.boolean().optional(),
         includeRecommendations: z.boolean().optional(),
         pageOrientation: z.enum(["portrait", "landscape"]).optional(),
+        pageSize: z.enum(["A4", "Letter"]).optional(),
       })
     )
     .mutation(async ({ input }) => {
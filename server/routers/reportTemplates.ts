@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { farms } from "../../drizzle/schema";
@@ -9,7 +9,7 @@ export const reportTemplatesRouter = router({
   /**
    * Create a new report template
    */
-  createTemplate: protectedProcedure
+  createTemplate: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -92,7 +92,7 @@ export const reportTemplatesRouter = router({
   /**
    * Get all templates for a farm
    */
-  getTemplatesForFarm: protectedProcedure
+  getTemplatesForFarm: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = await getDb();
@@ -239,7 +239,7 @@ export const reportTemplatesRouter = router({
   /**
    * Set template as default
    */
-  setDefaultTemplate: protectedProcedure
+  setDefaultTemplate: farmProcedure("editor")
     .input(z.object({ farmId: z.number(), templateId: z.number() }))
     .mutation(async ({ input, ctx }) => {
       const db = await getDb();
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { farmProcedure, router } from "../_core/trpc";
+import { DairyError } from "../services/dairy";
+import { ReproductionError } from "../services/reproduction";
+import {
+  getAnimalReproduction,
+  getReproductiveCalendar,
+  getReproductiveKpis,
+  listSemenBatches,
+  recordBirth,
+  recordHeat,
+  recordPregnancyCheck,
+  recordPregnancyLoss,
+  recordService,
+  registerSemenBatch,
+} from "../services/reproductionService";
+
+async function reproductionCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ReproductionError || error instanceof DairyError) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reproductive cycle per female: heats, natural and AI services, pregnancy
+ * checks (scheduled as farm tasks) and births that register the offspring.
+ * Due dates and heat intervals follow the animal's species.
+ */
+export const reproductionRouter = router({
+  recordHeat: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      animalId: z.number(),
+      observedAt: z.date(),
+      intensity: z.enum(["weak", "moderate", "strong"]).optional(),
+      method: z.enum(["visual", "tail_paint", "pedometer", "teaser", "other"]).optional(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input, ctx }) => reproductionCall(() => recordHeat({ ...input, recordedBy: ctx.user.id }))),
+
+  registerSemenBatch: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      sireCode: z.string().min(1).max(100),
+      sireName: z.string().max(255).optional(),
+      sireAnimalId: z.number().optional(),
+      breed: z.string().max(255).optional(),
+      batchNumber: z.string().min(1).max(100),
+      supplier: z.string().max(255).optional(),
+      straws: z.number().int().min(1).max(10000),
+      receivedAt: z.date(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input }) => reproductionCall(() => registerSemenBatch(input))),
+
+  listSemenBatches: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), includeEmpty: z.boolean().default(false) }))
+    .query(({ input }) => listSemenBatches(input.farmId, input.includeEmpty)),
+
+  /**
+   * Natural service or AI; schedules the pregnancy check task
+   */
+  recordService: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      animalId: z.number(),
+      serviceDate: z.date(),
+      method: z.enum(["natural", "ai"]),
+      sireId: z.number().optional(),
+      semenBatchId: z.number().optional(),
+      technician: z.string().max(255).optional(),
+      notes: z.string().max(2000).optional(),
+      assignCheckTo: z.number().optional(),
+    }))
+    .mutation(({ input, ctx }) => reproductionCall(() => recordService({ ...input, createdBy: ctx.user.id }))),
+
+  recordPregnancyCheck: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      checkId: z.number(),
+      result: z.enum(["pregnant", "open", "inconclusive"]),
+      method: z.enum(["palpation", "ultrasound", "blood_test", "observation"]),
+      checkedAt: z.date(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input, ctx }) => reproductionCall(() => recordPregnancyCheck({ ...input, checkedBy: ctx.user.id }))),
+
+  recordPregnancyLoss: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      animalId: z.number(),
+      breedingRecordId: z.number(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input }) =>
+      reproductionCall(() => recordPregnancyLoss(input.farmId, input.animalId, input.breedingRecordId, input.notes))
+    ),
+
+  /**
+   * Calving, kidding, lambing or farrowing; each offspring is added to the herd
+   */
+  recordBirth: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      damId: z.number(),
+      birthDate: z.date(),
+      breedingRecordId: z.number().optional(),
+      offspring: z.array(z.object({
+        tagId: z.string().max(100).optional(),
+        gender: z.enum(["male", "female", "unknown"]),
+        breed: z.string().max(255).optional(),
+        stillborn: z.boolean().optional(),
+      })).min(1).max(20),
+      ease: z.enum(["unassisted", "assisted", "difficult", "caesarean"]).optional(),
+      startLactation: z.boolean().default(false),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input }) => reproductionCall(() => recordBirth(input))),
+
+  getCalendar: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), days: z.number().int().min(1).max(365).default(30) }))
+    .query(({ input }) => getReproductiveCalendar(input.farmId, input.days)),
+
+  getAnimalHistory: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), animalId: z.number() }))
+    .query(({ input }) => reproductionCall(() => getAnimalReproduction(input.farmId, input.animalId))),
+
+  getKpis: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), startDate: z.date().optional(), endDate: z.date().optional() }))
+    .query(({ input }) =>
+      getReproductiveKpis(
+        input.farmId,
+        input.startDate && input.endDate ? { from: input.startDate, to: input.endDate } : undefined
+      )
+    ),
+});
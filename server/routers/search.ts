@@ -1,21 +1,30 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
-import { getDb } from "../db";
-import { animals, farms, crops } from "../../drizzle/schema";
-import { eq, like, and } from "drizzle-orm";
 import {
   trackSearch,
+  trackSearchClick,
   getSearchSuggestions,
   getTrendingSearches,
   getPopularSearches,
   getUserSearchAnalytics,
 } from "../db/searchAnalytics";
 import { cacheService } from "../services/cacheService";
-import { SearchRankingService } from "../services/searchRankingService";
+import { SEARCH_ENTITY_TYPES } from "../services/searchIndex";
+import { autocompleteTitles, recordDocumentClick, refreshSearchIndex, searchIndex } from "../services/searchIndexService";
+
+const entityTypeSchema = z.enum(SEARCH_ENTITY_TYPES);
+
+type SearchResponse = Awaited<ReturnType<typeof searchIndex>> & {
+  success: true;
+  total: number;
+  searchDuration: number;
+};
 
 export const searchRouter = router({
   /**
-   * Global search across animals, farms, crops with filters and analytics
+   * Global search over the index of animals, farms, fields, crop cycles,
+   * marketplace products, tasks, invoices and suppliers. Only records from
+   * farms the user can view (and public listings) are returned.
    */
   globalSearch: protectedProcedure
     .input(
@@ -23,119 +32,43 @@ export const searchRouter = router({
         query: z.string().min(1).max(100),
         limit: z.number().min(1).max(50).default(10),
         filters: z.object({
-          type: z.string().optional(),
-          status: z.string().optional(),
-          category: z.enum(["animal", "farm", "crop"]).optional(),
+          entityTypes: z.array(entityTypeSchema).optional(),
+          farmId: z.number().optional(),
         }).optional(),
-        sessionId: z.string().optional(),
+        sessionId: z.string().max(64).optional(),
       })
     )
     .query(async ({ input, ctx }) => {
-      const db = getDb();
-      const searchTerm = `%${input.query}%`;
-      const user = ctx.user as any;
       const startTime = Date.now();
-      
-      // Check cache first
-      const cacheKey = cacheService.generateKey(input.query, input.filters, "search");
-      const cachedResults = cacheService.get(cacheKey);
-      if (cachedResults) {
-        return cachedResults;
-      }
+
+      // Results depend on the user's farms, so the cache is per user
+      const cacheKey = cacheService.generateKey(input.query, { ...input.filters, limit: input.limit, userId: ctx.user.id }, "search");
 
       try {
-        // Search animals - build where conditions dynamically
-        const animalConditions: any[] = [like(animals.animalName, searchTerm)];
-        
-        if (input.filters?.type) {
-          animalConditions.push(eq(animals.animalType, input.filters.type));
-        }
-        
-        if (input.filters?.status) {
-          animalConditions.push(eq(animals.status, input.filters.status));
+        let response = cacheService.get<SearchResponse>(cacheKey);
+        if (!response) {
+          const { results, corrections } = await searchIndex(ctx.user, input.query, {
+            limit: input.limit,
+            entityTypes: input.filters?.entityTypes,
+            farmId: input.filters?.farmId,
+          });
+          response = {
+            success: true,
+            results,
+            corrections,
+            total: results.length,
+            searchDuration: Date.now() - startTime,
+          };
+          // Cache results for 1 minute; the index itself refreshes every 5
+          cacheService.set(cacheKey, response, 60);
         }
 
-        const animalResults = await db
-          .select({
-            id: animals.id,
-            name: animals.animalName,
-            type: animals.animalType,
-            status: animals.status,
-            farmId: animals.farmId,
-          })
-          .from(animals)
-          .where(animalConditions.length > 1 ? and(...animalConditions) : animalConditions[0])
-          .limit(input.limit);
-
-        // Search farms
-        const farmResults = await db
-          .select({
-            id: farms.id,
-            name: farms.farmName,
-            location: farms.location,
-            farmId: farms.id,
-          })
-          .from(farms)
-          .where(like(farms.farmName, searchTerm))
-          .limit(input.limit);
-
-        // Search crops
-        const cropResults = await db
-          .select({
-            id: crops.id,
-            name: crops.cropName,
-            variety: crops.variety,
-          })
-          .from(crops)
-          .where(like(crops.cropName, searchTerm))
-          .limit(input.limit);
-
-        // Combine results
-        const results = [
-          ...animalResults.map((r) => ({
-            id: r.id,
-            name: r.name,
-            category: "animal" as const,
-            path: `/livestock-management?animal=${r.id}`,
-            type: r.type,
-          })),
-          ...farmResults.map((r) => ({
-            id: r.id,
-            name: r.name,
-            category: "farm" as const,
-            path: `/farms`,
-            location: r.location,
-          })),
-          ...cropResults.map((r) => ({
-            id: r.id,
-            name: r.name,
-            category: "crop" as const,
-            path: `/crops`,
-            variety: r.variety,
-          })),
-        ];
-
-        // Rank results by relevance
-        const rankedResults = SearchRankingService.rankResults(results, input.query);
-        const finalResults = rankedResults.slice(0, input.limit);
-        const searchDuration = Date.now() - startTime;
-
-        const response = {
-          success: true,
-          results: finalResults,
-          total: finalResults.length,
-          searchDuration,
-        };
-
-        // Cache results for 5 minutes (300 seconds)
-        cacheService.set(cacheKey, response, 300);
-
-        // Track search asynchronously (don't wait for it)
+        // Track every search, cached or not (don't wait for it)
         trackSearch({
-          userId: user.id,
+          userId: ctx.user.id,
           query: input.query,
-          resultCount: finalResults.length,
-          searchDuration,
+          resultCount: response.total,
+          searchDuration: Date.now() - startTime,
           filters: input.filters,
           sessionId: input.sessionId,
         }).catch((err) => console.error("Error tracking search:", err));
@@ -146,12 +79,42 @@ export const searchRouter = router({
         return {
           success: false,
           results: [],
+          corrections: {},
           total: 0,
           error: "Search failed",
         };
       }
     }),
 
+  /**
+   * Record that a result was opened; feeds click-through analytics and ranking
+   */
+  recordClick: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().min(1).max(100),
+        entityType: entityTypeSchema,
+        entityId: z.number(),
+        sessionId: z.string().max(64).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await recordDocumentClick(input.entityType, input.entityId);
+        await trackSearchClick({
+          userId: ctx.user.id,
+          query: input.query,
+          resultType: input.entityType,
+          resultId: input.entityId,
+          sessionId: input.sessionId,
+        });
+        return { success: true };
+      } catch (error) {
+        console.error("Error recording search click:", error);
+        return { success: false, error: "Failed to record click" };
+      }
+    }),
+
   /**
    * Get search suggestions for the current user
    */
@@ -162,10 +125,8 @@ export const searchRouter = router({
       })
     )
     .query(async ({ input, ctx }) => {
-      const user = ctx.user as any;
-
       try {
-        const suggestions = await getSearchSuggestions(user.id, input.limit);
+        const suggestions = await getSearchSuggestions(ctx.user.id, input.limit);
         const trending = await getTrendingSearches(5);
 
         return {
@@ -196,19 +157,21 @@ export const searchRouter = router({
     .input(
       z.object({
         limit: z.number().min(1).max(50).default(10),
+        period: z.enum(["daily", "weekly", "monthly"]).default("daily"),
       })
     )
     .query(async ({ input }) => {
       try {
-        const trending = await getTrendingSearches(input.limit);
+        const trending = await getTrendingSearches(input.limit, input.period);
 
         return {
           success: true,
           trending: trending.map((t) => ({
             query: t.query,
             searchCount: t.searchCount,
-            clickThroughRate: parseFloat(t.clickThroughRate.toString()),
-            avgResultCount: parseFloat(t.averageResultCount.toString()),
+            rank: t.rank,
+            clickThroughRate: parseFloat(String(t.clickThroughRate ?? 0)),
+            avgResultCount: parseFloat(String(t.averageResultCount ?? 0)),
           })),
         };
       } catch (error) {
@@ -263,10 +226,8 @@ export const searchRouter = router({
       })
     )
     .query(async ({ input, ctx }) => {
-      const user = ctx.user as any;
-
       try {
-        const analytics = await getUserSearchAnalytics(user.id, input.days);
+        const analytics = await getUserSearchAnalytics(ctx.user.id, input.days);
 
         // Calculate metrics
         const totalSearches = analytics.length;
@@ -315,46 +276,15 @@ export const searchRouter = router({
       })
     )
     .query(async ({ input, ctx }) => {
-      const db = getDb();
-      const searchTerm = `%${input.query}%`;
-
       // Check cache first (shorter TTL for autocomplete - 2 minutes)
-      const cacheKey = cacheService.generateKey(input.query, {}, "autocomplete");
+      const cacheKey = cacheService.generateKey(input.query, { userId: ctx.user.id, limit: input.limit }, "autocomplete");
       const cachedSuggestions = cacheService.get(cacheKey);
       if (cachedSuggestions) {
         return cachedSuggestions;
       }
 
       try {
-        // Get distinct animal names
-        const animalNames = await db
-          .selectDistinct({ name: animals.animalName })
-          .from(animals)
-          .where(like(animals.animalName, searchTerm))
-          .limit(input.limit);
-
-        // Get distinct farm names
-        const farmNames = await db
-          .selectDistinct({ name: farms.farmName })
-          .from(farms)
-          .where(like(farms.farmName, searchTerm))
-          .limit(input.limit);
-
-        // Get distinct crop names
-        const cropNames = await db
-          .selectDistinct({ name: crops.cropName })
-          .from(crops)
-          .where(like(crops.cropName, searchTerm))
-          .limit(input.limit);
-
-        // Combine and deduplicate
-        const suggestions = [
-          ...animalNames.map((a) => ({ text: a.name, category: "animal" })),
-          ...farmNames.map((f) => ({ text: f.name, category: "farm" })),
-          ...cropNames.map((c) => ({ text: c.name, category: "crop" })),
-        ]
-          .filter((item, index, self) => self.findIndex((t) => t.text === item.text) === index)
-          .slice(0, input.limit);
+        const suggestions = await autocompleteTitles(ctx.user, input.query.trim(), input.limit);
 
         const response = {
           success: true,
@@ -376,132 +306,36 @@ export const searchRouter = router({
     }),
 
   /**
-   * Search animals by name, type, or ID with filters
+   * Reindex now instead of waiting for the next sweep (for admins)
    */
-  searchAnimals: protectedProcedure
+  rebuildIndex: protectedProcedure
     .input(
       z.object({
-        query: z.string().min(1).max(100),
-        farmId: z.number().optional(),
-        type: z.string().optional(),
-        status: z.string().optional(),
-        limit: z.number().min(1).max(50).default(20),
+        full: z.boolean().default(false),
+        entityTypes: z.array(entityTypeSchema).optional(),
       })
     )
-    .query(async ({ input, ctx }) => {
-      const db = getDb();
-      const searchTerm = `%${input.query}%`;
-      const user = ctx.user as any;
-      const farmId = input.farmId || user.farmId;
-
-      try {
-        const conditions: any[] = [like(animals.animalName, searchTerm)];
-
-        if (farmId) {
-          conditions.push(eq(animals.farmId, farmId));
-        }
-
-        if (input.type) {
-          conditions.push(eq(animals.animalType, input.type));
-        }
-
-        if (input.status) {
-          conditions.push(eq(animals.status, input.status));
-        }
-
-        const results = await db
-          .select()
-          .from(animals)
-          .where(conditions.length > 1 ? and(...conditions) : conditions[0])
-          .limit(input.limit);
-
-        return {
-          success: true,
-          results,
-          total: results.length,
-        };
-      } catch (error) {
-        console.error("Animal search error:", error);
-        return {
-          success: false,
-          results: [],
-          total: 0,
-          error: "Animal search failed",
-        };
-      }
-    }),
-
-  /**
-   * Search farms by name or location
-   */
-  searchFarms: protectedProcedure
-    .input(
-      z.object({
-        query: z.string().min(1).max(100),
-        limit: z.number().min(1).max(50).default(20),
-      })
-    )
-    .query(async ({ input, ctx }) => {
-      const db = getDb();
-      const searchTerm = `%${input.query}%`;
-      const user = ctx.user as any;
-
-      try {
-        const results = await db
-          .select()
-          .from(farms)
-          .where(like(farms.farmName, searchTerm))
-          .limit(input.limit);
-
-        return {
-          success: true,
-          results,
-          total: results.length,
-        };
-      } catch (error) {
-        console.error("Farm search error:", error);
+    .mutation(async ({ input, ctx }) => {
+      // Only admins can rebuild the index
+      if (ctx.user.role !== "admin") {
         return {
           success: false,
-          results: [],
-          total: 0,
-          error: "Farm search failed",
+          error: "Unauthorized",
         };
       }
-    }),
-
-  /**
-   * Search crops by name or variety
-   */
-  searchCrops: protectedProcedure
-    .input(
-      z.object({
-        query: z.string().min(1).max(100),
-        limit: z.number().min(1).max(50).default(20),
-      })
-    )
-    .query(async ({ input }) => {
-      const db = getDb();
-      const searchTerm = `%${input.query}%`;
 
       try {
-        const results = await db
-          .select()
-          .from(crops)
-          .where(like(crops.cropName, searchTerm))
-          .limit(input.limit);
-
+        const summary = await refreshSearchIndex(input);
+        cacheService.deletePattern("^search:");
         return {
           success: true,
-          results,
-          total: results.length,
+          summary,
         };
       } catch (error) {
-        console.error("Crop search error:", error);
+        console.error("Error rebuilding search index:", error);
         return {
           success: false,
-          results: [],
-          total: 0,
-          error: "Crop search failed",
+          error: "Failed to rebuild search index",
         };
       }
     }),
@@ -511,10 +345,9 @@ export const searchRouter = router({
    */
   getCacheStats: protectedProcedure
     .query(async ({ ctx }) => {
-      const user = ctx.user as any;
       
       // Only admins can view cache stats
-      if (user.role !== "admin") {
+      if (ctx.user.role !== "admin") {
         return {
           success: false,
           error: "Unauthorized",
@@ -546,10 +379,9 @@ export const searchRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const user = ctx.user as any;
       
       // Only admins can clear cache
-      if (user.role !== "admin") {
+      if (ctx.user.role !== "admin") {
         return {
           success: false,
           error: "Unauthorized",
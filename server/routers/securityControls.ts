@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
@@ -19,7 +19,7 @@ const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: numbe
 
 export const securityControlsRouter = router({
   // IP Whitelist Management
-  addIPToWhitelist: protectedProcedure
+  addIPToWhitelist: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       ipAddress: z.string(),
@@ -63,7 +63,7 @@ export const securityControlsRouter = router({
     }),
 
   // Get whitelisted IPs
-  getWhitelistedIPs: protectedProcedure
+  getWhitelistedIPs: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -112,7 +112,7 @@ export const securityControlsRouter = router({
     }),
 
   // Geofencing Management
-  createGeofence: protectedProcedure
+  createGeofence: farmProcedure("editor")
     .input(z.object({
       farmId: z.string(),
       zoneName: z.string(),
@@ -158,7 +158,7 @@ export const securityControlsRouter = router({
     }),
 
   // Get geofences
-  getGeofences: protectedProcedure
+  getGeofences: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -184,7 +184,7 @@ export const securityControlsRouter = router({
     }),
 
   // Check if user is within geofence
-  checkGeofenceStatus: protectedProcedure
+  checkGeofenceStatus: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       latitude: z.number().optional(),
@@ -230,7 +230,7 @@ export const securityControlsRouter = router({
     }),
 
   // Verify IP is whitelisted
-  verifyIPAccess: protectedProcedure
+  verifyIPAccess: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       ipAddress: z.string()
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc'
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc'
 import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
 import {
@@ -16,7 +16,7 @@ export const shiftAssignmentWithNotificationsRouter = router({
   /**
    * Assign a single shift to a worker with notification
    */
-  assignShift: protectedProcedure
+  assignShift: farmProcedure("editor")
     .input(
       z.object({
         shiftId: z.number(),
@@ -78,7 +78,7 @@ export const shiftAssignmentWithNotificationsRouter = router({
   /**
    * Assign multiple shifts to workers with bulk notifications
    */
-  assignMultipleShifts: protectedProcedure
+  assignMultipleShifts: farmProcedure("editor")
     .input(
       z.object({
         shifts: z.array(
@@ -132,7 +132,7 @@ export const shiftAssignmentWithNotificationsRouter = router({
   /**
    * Reassign a shift to a different worker with notification
    */
-  reassignShift: protectedProcedure
+  reassignShift: farmProcedure("editor")
     .input(
       z.object({
         shiftId: z.number(),
@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { protectedProcedure, router } from '../_core/trpc'
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc'
 import { TRPCError } from '@trpc/server'
 import { notifyOwner } from '../_core/notification'
 import { broadcastShiftAssignment, broadcastTaskUpdate } from '../_core/websocket'
@@ -13,7 +13,7 @@ export const shiftTaskNotificationTriggersRouter = router({
   /**
    * Create and assign shift with auto-notification
    */
-  createShiftWithNotification: protectedProcedure
+  createShiftWithNotification: farmProcedure("editor")
     .input(
       z.object({
         shiftDate: z.date(),
@@ -103,7 +103,7 @@ export const shiftTaskNotificationTriggersRouter = router({
   /**
    * Update shift and trigger notifications for changes
    */
-  updateShiftWithNotification: protectedProcedure
+  updateShiftWithNotification: farmProcedure("editor")
     .input(
       z.object({
         shiftId: z.number(),
@@ -219,7 +219,7 @@ export const shiftTaskNotificationTriggersRouter = router({
   /**
    * Create and assign task with auto-notification
    */
-  createTaskWithNotification: protectedProcedure
+  createTaskWithNotification: farmProcedure("editor")
     .input(
       z.object({
         title: z.string(),
@@ -306,7 +306,7 @@ export const shiftTaskNotificationTriggersRouter = router({
   /**
    * Update task status and trigger notifications
    */
-  updateTaskStatusWithNotification: protectedProcedure
+  updateTaskStatusWithNotification: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.number(),
@@ -384,7 +384,7 @@ export const shiftTaskNotificationTriggersRouter = router({
   /**
    * Reassign task and trigger notifications
    */
-  reassignTaskWithNotification: protectedProcedure
+  reassignTaskWithNotification: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.number(),
@@ -1,11 +1,11 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const smsNotificationsRouter = router({
   // Send SMS alert to worker
-  sendPerformanceAlert: protectedProcedure
+  sendPerformanceAlert: farmProcedure("editor")
     .input(z.object({
       workerId: z.string(),
       farmId: z.string(),
@@ -78,7 +78,7 @@ export const smsNotificationsRouter = router({
     }),
 
   // Get SMS notification history
-  getSMSHistory: protectedProcedure
+  getSMSHistory: farmProcedure("viewer")
     .input(z.object({
       farmId: z.string(),
       limit: z.number().default(50),
@@ -157,7 +157,7 @@ export const smsNotificationsRouter = router({
     }),
 
   // Enable/disable SMS notifications for worker
-  toggleSMSNotifications: protectedProcedure
+  toggleSMSNotifications: farmProcedure("editor")
     .input(z.object({
       workerId: z.string(),
       farmId: z.string(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { getDb } from "../db";
 import { z } from "zod";
 import { and, eq, gte, lte } from "drizzle-orm";
@@ -11,7 +11,7 @@ import {
 
 export const speciesReportsRouter = router({
   // Get production report by species
-  getProductionReport: protectedProcedure
+  getProductionReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -58,7 +58,7 @@ export const speciesReportsRouter = router({
     }),
 
   // Get herd health summary by species
-  getHerdHealthSummary: protectedProcedure
+  getHerdHealthSummary: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -100,7 +100,7 @@ export const speciesReportsRouter = router({
     }),
 
   // Get breeding performance report
-  getBreedingPerformanceReport: protectedProcedure
+  getBreedingPerformanceReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -147,7 +147,7 @@ export const speciesReportsRouter = router({
     }),
 
   // Get financial analysis by species
-  getFinancialAnalysis: protectedProcedure
+  getFinancialAnalysis: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -176,7 +176,7 @@ export const speciesReportsRouter = router({
     }),
 
   // Get benchmarking comparison
-  getBenchmarkComparison: protectedProcedure
+  getBenchmarkComparison: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -229,7 +229,7 @@ export const speciesReportsRouter = router({
     }),
 
   // Generate comprehensive species report
-  generateComprehensiveReport: protectedProcedure
+  generateComprehensiveReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -10,7 +10,7 @@ export const taskAssignmentDatabaseRouter = router({
   /**
    * Get all tasks for a farm with worker details
    */
-  getTasksByFarm: protectedProcedure
+  getTasksByFarm: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -73,7 +73,7 @@ export const taskAssignmentDatabaseRouter = router({
   /**
    * Create new task assignment
    */
-  createTask: protectedProcedure
+  createTask: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -211,7 +211,7 @@ export const taskAssignmentDatabaseRouter = router({
   /**
    * Get tasks by status
    */
-  getTasksByStatus: protectedProcedure
+  getTasksByStatus: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -242,7 +242,7 @@ export const taskAssignmentDatabaseRouter = router({
   /**
    * Get task statistics for a farm
    */
-  getTaskStats: protectedProcedure
+  getTaskStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc'
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc'
 import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
 import {
@@ -16,7 +16,7 @@ export const taskAssignmentWithNotificationsRouter = router({
   /**
    * Assign a task to a worker with notification
    */
-  assignTask: protectedProcedure
+  assignTask: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.number(),
@@ -80,7 +80,7 @@ export const taskAssignmentWithNotificationsRouter = router({
   /**
    * Update task status with notification
    */
-  updateTaskStatus: protectedProcedure
+  updateTaskStatus: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.number(),
@@ -136,7 +136,7 @@ export const taskAssignmentWithNotificationsRouter = router({
   /**
    * Reassign task to a different worker with notification
    */
-  reassignTask: protectedProcedure
+  reassignTask: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.number(),
@@ -195,7 +195,7 @@ export const taskAssignmentWithNotificationsRouter = router({
   /**
    * Bulk assign tasks with notifications
    */
-  assignMultipleTasks: protectedProcedure
+  assignMultipleTasks: farmProcedure("editor")
     .input(
       z.object({
         tasks: z.array(
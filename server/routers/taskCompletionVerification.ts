@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { getDb } from '../db';
 import { fieldWorkerTasks, taskCompletionRecords } from '../../drizzle/schema';
@@ -221,7 +221,7 @@ export const taskCompletionVerificationRouter = router({
   /**
    * Get pending approvals for supervisor
    */
-  getPendingApprovals: protectedProcedure
+  getPendingApprovals: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
       limit: z.number().default(50),
@@ -273,7 +273,7 @@ export const taskCompletionVerificationRouter = router({
   /**
    * Get completion statistics for a farm
    */
-  getCompletionStats: protectedProcedure
+  getCompletionStats: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { getDb } from '../db';
 import { sql, eq, and } from 'drizzle-orm';
@@ -15,7 +15,7 @@ export const taskDependenciesRouter = router({
   /**
    * Add a dependency between two tasks
    */
-  addDependency: protectedProcedure
+  addDependency: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.string(),
@@ -173,7 +173,7 @@ export const taskDependenciesRouter = router({
   /**
    * Get dependency graph for visualization
    */
-  getDependencyGraph: protectedProcedure
+  getDependencyGraph: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -203,7 +203,7 @@ export const taskDependenciesRouter = router({
   /**
    * Get dependency statistics for a farm
    */
-  getDependencyStats: protectedProcedure
+  getDependencyStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
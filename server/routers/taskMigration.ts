@@ -4,7 +4,7 @@
  * with conflict resolution, validation, and progress tracking
  */
 
-import { router, protectedProcedure } from '../_core/trpc'
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc'
 import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
 import { getDb } from '../db'
@@ -49,7 +49,7 @@ export const taskMigrationRouter = router({
    * Start gradual migration from mock to database
    * Analyzes mock data and prepares for migration
    */
-  startMigration: protectedProcedure
+  startMigration: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -103,7 +103,7 @@ export const taskMigrationRouter = router({
   /**
    * Execute migration with specified strategy
    */
-  executeMigration: protectedProcedure
+  executeMigration: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -248,7 +248,7 @@ export const taskMigrationRouter = router({
   /**
    * Get migration status
    */
-  getMigrationStatus: protectedProcedure
+  getMigrationStatus: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       if (ctx.user.farmId !== input.farmId) {
@@ -281,7 +281,7 @@ export const taskMigrationRouter = router({
   /**
    * Validate mock tasks before migration
    */
-  validateMockTasks: protectedProcedure
+  validateMockTasks: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -323,7 +323,7 @@ export const taskMigrationRouter = router({
   /**
    * Rollback migration
    */
-  rollbackMigration: protectedProcedure
+  rollbackMigration: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -368,7 +368,7 @@ export const taskMigrationRouter = router({
   /**
    * Get migration recommendations
    */
-  getMigrationRecommendations: protectedProcedure
+  getMigrationRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { getDb } from '../db';
 import { fieldWorkerTasks } from '../../drizzle/schema';
@@ -12,7 +12,7 @@ export const taskPriorityEscalationRouter = router({
    * - If due in 12 hours and priority is HIGH -> escalate to URGENT
    * - If overdue -> escalate to URGENT
    */
-  escalateTasksByDueDate: protectedProcedure
+  escalateTasksByDueDate: farmProcedure("editor")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -135,7 +135,7 @@ export const taskPriorityEscalationRouter = router({
   /**
    * Get escalation candidates (tasks that should be escalated)
    */
-  getEscalationCandidates: protectedProcedure
+  getEscalationCandidates: farmProcedure("viewer")
     .input(z.object({
       farmId: z.number(),
     }))
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { getDb } from '../db';
 import { fieldWorkerTasks, farmWorkers } from '../../drizzle/schema';
@@ -144,7 +144,7 @@ export const taskReassignmentRouter = router({
   /**
    * Get reassignment candidates (workers who can take the task)
    */
-  getReassignmentCandidates: protectedProcedure
+  getReassignmentCandidates: farmProcedure("viewer")
     .input(z.object({
       taskId: z.number(),
       farmId: z.number(),
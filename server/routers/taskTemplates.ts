@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { getDb } from '../db';
 import { sql, eq } from 'drizzle-orm';
@@ -8,7 +8,7 @@ export const taskTemplatesRouter = router({
   /**
    * Create a new task template
    */
-  createTemplate: protectedProcedure
+  createTemplate: farmProcedure("editor")
     .input(
       z.object({
         name: z.string().min(1, 'Template name is required'),
@@ -40,7 +40,7 @@ export const taskTemplatesRouter = router({
   /**
    * Get all templates for a farm
    */
-  getTemplates: protectedProcedure
+  getTemplates: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -137,7 +137,7 @@ export const taskTemplatesRouter = router({
   /**
    * Create tasks from a template
    */
-  createTasksFromTemplate: protectedProcedure
+  createTasksFromTemplate: farmProcedure("editor")
     .input(
       z.object({
         templateId: z.string(),
@@ -206,7 +206,7 @@ export const taskTemplatesRouter = router({
   /**
    * Get template usage statistics
    */
-  getTemplateStats: protectedProcedure
+  getTemplateStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
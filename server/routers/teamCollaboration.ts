@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { getDb } from '../db';
@@ -10,7 +10,7 @@ export const teamCollaborationRouter = router({
    * Invite team member
    * Send invitation to join farm team with specific role
    */
-  inviteTeamMember: protectedProcedure
+  inviteTeamMember: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -55,7 +55,7 @@ export const teamCollaborationRouter = router({
    * Get team members
    * List all team members for a farm
    */
-  getTeamMembers: protectedProcedure
+  getTeamMembers: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -122,7 +122,7 @@ export const teamCollaborationRouter = router({
    * Update team member role
    * Change role of existing team member
    */
-  updateTeamMemberRole: protectedProcedure
+  updateTeamMemberRole: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -161,7 +161,7 @@ export const teamCollaborationRouter = router({
    * Remove team member
    * Remove member from farm team
    */
-  removeTeamMember: protectedProcedure
+  removeTeamMember: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -198,7 +198,7 @@ export const teamCollaborationRouter = router({
    * Get activity audit log
    * Retrieve audit trail of user actions
    */
-  getActivityLog: protectedProcedure
+  getActivityLog: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -330,7 +330,7 @@ export const teamCollaborationRouter = router({
    * Check permission
    * Verify if user has specific permission
    */
-  checkPermission: protectedProcedure
+  checkPermission: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,11 +1,11 @@
 import { z } from 'zod';
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 
 export const telemedicineRouter = router({
   /**
    * Schedule telemedicine consultation
    */
-  scheduleConsultation: protectedProcedure
+  scheduleConsultation: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -48,7 +48,7 @@ export const telemedicineRouter = router({
   /**
    * Create instant telemedicine session
    */
-  createInstantSession: protectedProcedure
+  createInstantSession: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -85,7 +85,7 @@ export const telemedicineRouter = router({
   /**
    * Start telemedicine session
    */
-  startSession: protectedProcedure
+  startSession: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -111,7 +111,7 @@ export const telemedicineRouter = router({
   /**
    * End telemedicine session
    */
-  endSession: protectedProcedure
+  endSession: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -140,7 +140,7 @@ export const telemedicineRouter = router({
   /**
    * Cancel telemedicine session
    */
-  cancelSession: protectedProcedure
+  cancelSession: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -168,7 +168,7 @@ export const telemedicineRouter = router({
   /**
    * Get session details
    */
-  getSessionDetails: protectedProcedure
+  getSessionDetails: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -196,7 +196,7 @@ export const telemedicineRouter = router({
   /**
    * Get session history
    */
-  getSessionHistory: protectedProcedure
+  getSessionHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -232,7 +232,7 @@ export const telemedicineRouter = router({
   /**
    * Get recording URL
    */
-  getRecordingUrl: protectedProcedure
+  getRecordingUrl: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -258,7 +258,7 @@ export const telemedicineRouter = router({
   /**
    * Send session link to participant
    */
-  sendSessionLink: protectedProcedure
+  sendSessionLink: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, gte, lte, desc } from "drizzle-orm";
@@ -8,7 +8,7 @@ export const telemedicineManagementRouter = router({
   /**
    * Schedule a telemedicine appointment
    */
-  scheduleTelemedicineAppointment: protectedProcedure
+  scheduleTelemedicineAppointment: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -45,7 +45,7 @@ export const telemedicineManagementRouter = router({
   /**
    * Create telemedicine session
    */
-  createTelemedicineSession: protectedProcedure
+  createTelemedicineSession: farmProcedure("editor")
     .input(
       z.object({
         appointmentId: z.number(),
@@ -148,7 +148,7 @@ export const telemedicineManagementRouter = router({
   /**
    * Get upcoming telemedicine appointments
    */
-  getUpcomingAppointments: protectedProcedure
+  getUpcomingAppointments: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -189,7 +189,7 @@ export const telemedicineManagementRouter = router({
   /**
    * Get appointment history
    */
-  getAppointmentHistory: protectedProcedure
+  getAppointmentHistory: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -267,7 +267,7 @@ export const telemedicineManagementRouter = router({
   /**
    * Get appointment statistics
    */
-  getAppointmentStats: protectedProcedure
+  getAppointmentStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 
@@ -12,7 +12,7 @@ export const trainingCertificationCleanRouter = router({
   /**
    * Create a training program
    */
-  createTrainingProgram: protectedProcedure
+  createTrainingProgram: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -99,7 +99,7 @@ export const trainingCertificationCleanRouter = router({
   /**
    * Get training programs for a farm
    */
-  getTrainingPrograms: protectedProcedure
+  getTrainingPrograms: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -281,7 +281,7 @@ export const trainingCertificationCleanRouter = router({
   /**
    * Get training completion analytics
    */
-  getCompletionAnalytics: protectedProcedure
+  getCompletionAnalytics: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -316,7 +316,7 @@ export const trainingCertificationCleanRouter = router({
   /**
    * Generate training report
    */
-  generateTrainingReport: protectedProcedure
+  generateTrainingReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
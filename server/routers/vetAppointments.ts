@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
@@ -52,13 +52,13 @@ export const vetAppointmentsRouter = router({
     }),
 
   // Get upcoming appointments
-  getUpcomingAppointments: protectedProcedure
-    .input(z.object({ farmId: z.number().optional(), days: z.number().default(30) }))
+  getUpcomingAppointments: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), days: z.number().default(30) }))
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const appointments = await db.execute(
         sql`
@@ -161,13 +161,13 @@ export const vetAppointmentsRouter = router({
     }),
 
   // Get appointment statistics
-  getAppointmentStats: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getAppointmentStats: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const stats = await db.execute(
         sql`
@@ -186,13 +186,13 @@ export const vetAppointmentsRouter = router({
     }),
 
   // Get appointment reminders (due in next 3 days)
-  getAppointmentReminders: protectedProcedure
-    .input(z.object({ farmId: z.number().optional() }))
+  getAppointmentReminders: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new Error("Database connection failed");
 
-      const farmId = input.farmId || 1;
+      const farmId = input.farmId;
 
       const reminders = await db.execute(
         sql`
@@ -212,7 +212,7 @@ export const vetAppointmentsRouter = router({
     }),
 
   // Get all appointments for a farm
-  getAppointmentsByFarm: protectedProcedure
+  getAppointmentsByFarm: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
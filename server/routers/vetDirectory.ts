@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, like, desc } from "drizzle-orm";
@@ -133,7 +133,7 @@ export const vetDirectoryRouter = router({
   /**
    * Send message to veterinarian
    */
-  sendMessage: protectedProcedure
+  sendMessage: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -166,7 +166,7 @@ export const vetDirectoryRouter = router({
   /**
    * Get conversation history with a veterinarian
    */
-  getConversation: protectedProcedure
+  getConversation: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -203,7 +203,7 @@ export const vetDirectoryRouter = router({
   /**
    * Mark messages as read
    */
-  markMessagesAsRead: protectedProcedure
+  markMessagesAsRead: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -230,7 +230,7 @@ export const vetDirectoryRouter = router({
   /**
    * Get unread message count
    */
-  getUnreadMessageCount: protectedProcedure
+  getUnreadMessageCount: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -263,7 +263,7 @@ export const vetDirectoryRouter = router({
   /**
    * Get list of veterinarians the farm has communicated with
    */
-  getCommunicationHistory: protectedProcedure
+  getCommunicationHistory: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = getDb();
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, desc, gte, lte, sql } from "drizzle-orm";
@@ -8,7 +8,7 @@ export const vetRatingsRouter = router({
   /**
    * Submit a review for a veterinarian
    */
-  submitReview: protectedProcedure
+  submitReview: farmProcedure("editor")
     .input(
       z.object({
         veterinarianId: z.number(),
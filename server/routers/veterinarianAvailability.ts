@@ -1,4 +1,4 @@
-import { router, protectedProcedure, publicProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure, publicProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
@@ -197,7 +197,7 @@ export const veterinarianAvailabilityRouter = router({
   /**
    * Book an appointment slot (creates appointment)
    */
-  bookAppointmentSlot: protectedProcedure
+  bookAppointmentSlot: farmProcedure("editor")
     .input(
       z.object({
         veterinarianId: z.number(),
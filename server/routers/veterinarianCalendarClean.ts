@@ -1,11 +1,11 @@
 import { z } from 'zod';
-import { protectedProcedure, router } from '../_core/trpc';
+import { protectedProcedure, farmProcedure, router } from '../_core/trpc';
 
 export const veterinarianCalendarRouter = router({
   /**
    * Get veterinarian availability
    */
-  getVeterinarianAvailability: protectedProcedure
+  getVeterinarianAvailability: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -57,7 +57,7 @@ export const veterinarianCalendarRouter = router({
   /**
    * Book appointment slot
    */
-  bookAppointmentSlot: protectedProcedure
+  bookAppointmentSlot: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -94,7 +94,7 @@ export const veterinarianCalendarRouter = router({
   /**
    * Cancel appointment
    */
-  cancelAppointment: protectedProcedure
+  cancelAppointment: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -121,7 +121,7 @@ export const veterinarianCalendarRouter = router({
   /**
    * Reschedule appointment
    */
-  rescheduleAppointment: protectedProcedure
+  rescheduleAppointment: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -152,7 +152,7 @@ export const veterinarianCalendarRouter = router({
   /**
    * Get next available slot
    */
-  getNextAvailableSlot: protectedProcedure
+  getNextAvailableSlot: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -183,7 +183,7 @@ export const veterinarianCalendarRouter = router({
   /**
    * Get veterinarian working hours
    */
-  getVeterinarianWorkingHours: protectedProcedure
+  getVeterinarianWorkingHours: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -215,7 +215,7 @@ export const veterinarianCalendarRouter = router({
   /**
    * Sync calendar with Google Calendar
    */
-  syncCalendarWithGoogle: protectedProcedure
+  syncCalendarWithGoogle: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
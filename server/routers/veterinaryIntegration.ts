@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { getDb } from "../db";
 import { z } from "zod";
 import { and, eq, gte, lte } from "drizzle-orm";
@@ -69,7 +69,7 @@ export const veterinaryIntegrationRouter = router({
     }),
 
   // Get disease alerts for species
-  getDiseaseAlerts: protectedProcedure
+  getDiseaseAlerts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -217,7 +217,7 @@ export const veterinaryIntegrationRouter = router({
     }),
 
   // Get upcoming vaccinations
-  getUpcomingVaccinations: protectedProcedure
+  getUpcomingVaccinations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
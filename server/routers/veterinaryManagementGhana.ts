@@ -1,7 +1,8 @@
-import { router, protectedProcedure, adminProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure, adminProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 import { and, eq, like, desc, gte, lte } from "drizzle-orm";
+import { buildResidueComplianceReport } from "../services/withdrawalService";
 
 /**
  * Comprehensive Veterinary Management System for FarmKonnect Ghana
@@ -130,7 +131,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Send message to veterinarian with encryption for GDPR compliance
    */
-  sendEncryptedMessage: protectedProcedure
+  sendEncryptedMessage: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -160,7 +161,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Create prescription with Ghana drug regulations compliance
    */
-  createPrescriptionGhana: protectedProcedure
+  createPrescriptionGhana: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -205,7 +206,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Get expiring prescriptions with alert notifications
    */
-  getExpiringPrescriptions: protectedProcedure
+  getExpiringPrescriptions: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -233,7 +234,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Log prescription fulfillment with pharmacy details
    */
-  logPrescriptionFulfillment: protectedProcedure
+  logPrescriptionFulfillment: farmProcedure("editor")
     .input(
       z.object({
         prescriptionId: z.string(),
@@ -260,7 +261,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Track prescription compliance and administration
    */
-  trackPrescriptionCompliance: protectedProcedure
+  trackPrescriptionCompliance: farmProcedure("editor")
     .input(
       z.object({
         prescriptionId: z.string(),
@@ -288,7 +289,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Schedule telemedicine consultation
    */
-  scheduleTelemedicineConsultation: protectedProcedure
+  scheduleTelemedicineConsultation: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -351,7 +352,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Sync appointments from clinic system
    */
-  syncClinicAppointments: protectedProcedure
+  syncClinicAppointments: farmProcedure("viewer")
     .input(
       z.object({
         clinicId: z.string(),
@@ -383,7 +384,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Generate compliance report for Ghana MoFA
    */
-  generateComplianceReport: protectedProcedure
+  generateComplianceReport: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -412,10 +413,26 @@ export const veterinaryManagementGhanaRouter = router({
       };
     }),
 
+  /**
+   * Drug residue compliance: treatments and withdrawal periods applied,
+   * animals still in withdrawal, milk and eggs withheld, flagged listings
+   */
+  getResidueComplianceReport: farmProcedure("viewer")
+    .input(
+      z.object({
+        farmId: z.number(),
+        startDate: z.date(),
+        endDate: z.date(),
+      })
+    )
+    .query(async ({ input }) => {
+      return buildResidueComplianceReport(input.farmId, input.startDate, input.endDate);
+    }),
+
   /**
    * Get veterinary stakeholder dashboard
    */
-  getStakeholderDashboard: protectedProcedure
+  getStakeholderDashboard: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -459,7 +476,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Export veterinary records for Ghana MoFA audit
    */
-  exportVeterinaryRecords: protectedProcedure
+  exportVeterinaryRecords: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -484,7 +501,7 @@ export const veterinaryManagementGhanaRouter = router({
   /**
    * Get Ghana regulatory compliance status
    */
-  getGhanaComplianceStatus: protectedProcedure
+  getGhanaComplianceStatus: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       return {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 
@@ -12,7 +12,7 @@ export const veterinaryServicesCleanRouter = router({
   /**
    * Book a veterinary appointment
    */
-  bookAppointment: protectedProcedure
+  bookAppointment: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -44,7 +44,7 @@ export const veterinaryServicesCleanRouter = router({
   /**
    * Get upcoming appointments for a farm
    */
-  getUpcomingAppointments: protectedProcedure
+  getUpcomingAppointments: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
@@ -278,7 +278,7 @@ export const veterinaryServicesCleanRouter = router({
   /**
    * Schedule a telemedicine consultation
    */
-  scheduleTelemedicine: protectedProcedure
+  scheduleTelemedicine: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -310,7 +310,7 @@ export const veterinaryServicesCleanRouter = router({
   /**
    * Get telemedicine consultation history
    */
-  getTelemedicineHistory: protectedProcedure
+  getTelemedicineHistory: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       const db = await getDb();
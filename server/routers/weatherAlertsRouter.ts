@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 
 export const weatherAlertsRouter = router({
@@ -123,7 +123,7 @@ export const weatherAlertsRouter = router({
     }),
 
   // Get weather alerts
-  getWeatherAlerts: protectedProcedure
+  getWeatherAlerts: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -195,7 +195,7 @@ export const weatherAlertsRouter = router({
     }),
 
   // Subscribe to weather alerts
-  subscribeToAlerts: protectedProcedure
+  subscribeToAlerts: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -221,7 +221,7 @@ export const weatherAlertsRouter = router({
     }),
 
   // Get weather-based farming recommendations
-  getWeatherRecommendations: protectedProcedure
+  getWeatherRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -350,7 +350,7 @@ export const weatherAlertsRouter = router({
     }),
 
   // Get irrigation schedule based on weather
-  getIrrigationSchedule: protectedProcedure
+  getIrrigationSchedule: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -210,7 +210,7 @@ export const weatherBasedCropInsuranceCleanRouter = router({
   /**
    * Get weather monitoring data
    */
-  getWeatherMonitoring: protectedProcedure
+  getWeatherMonitoring: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), policyId: z.string() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -293,7 +293,7 @@ export const weatherBasedCropInsuranceCleanRouter = router({
   /**
    * Get insurance recommendations
    */
-  getInsuranceRecommendations: protectedProcedure
+  getInsuranceRecommendations: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
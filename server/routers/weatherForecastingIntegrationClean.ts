@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -11,7 +11,7 @@ export const weatherForecastingIntegrationCleanRouter = router({
   /**
    * Get current weather
    */
-  getCurrentWeather: protectedProcedure
+  getCurrentWeather: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -47,7 +47,7 @@ export const weatherForecastingIntegrationCleanRouter = router({
   /**
    * Get weather forecast
    */
-  getWeatherForecast: protectedProcedure
+  getWeatherForecast: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), days: z.number().default(7) }))
     .query(async ({ input, ctx }) => {
       try {
@@ -133,7 +133,7 @@ export const weatherForecastingIntegrationCleanRouter = router({
   /**
    * Get weather alerts
    */
-  getWeatherAlerts: protectedProcedure
+  getWeatherAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -183,7 +183,7 @@ export const weatherForecastingIntegrationCleanRouter = router({
   /**
    * Get seasonal forecast
    */
-  getSeasonalForecast: protectedProcedure
+  getSeasonalForecast: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), season: z.string() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -259,7 +259,7 @@ export const weatherForecastingIntegrationCleanRouter = router({
   /**
    * Get weather impact on crops
    */
-  getWeatherImpactOnCrops: protectedProcedure
+  getWeatherImpactOnCrops: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -322,7 +322,7 @@ export const weatherForecastingIntegrationCleanRouter = router({
   /**
    * Get historical weather data
    */
-  getHistoricalWeatherData: protectedProcedure
+  getHistoricalWeatherData: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -382,7 +382,7 @@ export const weatherForecastingIntegrationCleanRouter = router({
   /**
    * Get irrigation recommendations
    */
-  getIrrigationRecommendations: protectedProcedure
+  getIrrigationRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), cropType: z.string() }))
     .query(async ({ input, ctx }) => {
       try {
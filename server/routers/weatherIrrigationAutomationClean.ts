@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -409,7 +409,7 @@ export const weatherIrrigationAutomationCleanRouter = router({
   /**
    * Get irrigation dashboard
    */
-  getIrrigationDashboard: protectedProcedure
+  getIrrigationDashboard: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
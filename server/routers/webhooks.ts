@@ -1,10 +1,10 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const webhooksRouter = router({
   // Create webhook
-  createWebhook: protectedProcedure
+  createWebhook: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -58,7 +58,7 @@ export const webhooksRouter = router({
     }),
 
   // List webhooks
-  listWebhooks: protectedProcedure
+  listWebhooks: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       const db = getDb(ctx.user.id);
@@ -104,7 +104,7 @@ export const webhooksRouter = router({
     }),
 
   // Update webhook
-  updateWebhook: protectedProcedure
+  updateWebhook: farmProcedure("editor")
     .input(
       z.object({
         webhookId: z.string(),
@@ -139,7 +139,7 @@ export const webhooksRouter = router({
     }),
 
   // Delete webhook
-  deleteWebhook: protectedProcedure
+  deleteWebhook: farmProcedure("editor")
     .input(
       z.object({
         webhookId: z.string(),
@@ -162,7 +162,7 @@ export const webhooksRouter = router({
     }),
 
   // Test webhook
-  testWebhook: protectedProcedure
+  testWebhook: farmProcedure("editor")
     .input(
       z.object({
         webhookId: z.string(),
@@ -210,7 +210,7 @@ export const webhooksRouter = router({
     }),
 
   // Get webhook delivery history
-  getWebhookHistory: protectedProcedure
+  getWebhookHistory: farmProcedure("viewer")
     .input(
       z.object({
         webhookId: z.string(),
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc'
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc'
 import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
 import { broadcastShiftAssignment, broadcastTaskUpdate } from '../_core/websocket'
@@ -15,7 +15,7 @@ export const websocketEventTriggersRouter = router({
    * Trigger shift assignment notification
    * Called when a shift is assigned to workers
    */
-  triggerShiftAssignmentNotification: protectedProcedure
+  triggerShiftAssignmentNotification: farmProcedure("editor")
     .input(
       z.object({
         shiftId: z.number(),
@@ -70,7 +70,7 @@ export const websocketEventTriggersRouter = router({
    * Trigger task assignment notification
    * Called when a task is assigned to a worker
    */
-  triggerTaskAssignmentNotification: protectedProcedure
+  triggerTaskAssignmentNotification: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.number(),
@@ -125,7 +125,7 @@ export const websocketEventTriggersRouter = router({
    * Trigger task status change notification
    * Called when a task status changes
    */
-  triggerTaskStatusChangeNotification: protectedProcedure
+  triggerTaskStatusChangeNotification: farmProcedure("editor")
     .input(
       z.object({
         taskId: z.number(),
@@ -180,7 +180,7 @@ export const websocketEventTriggersRouter = router({
    * Trigger bulk shift assignment notification
    * Called when multiple shifts are assigned
    */
-  triggerBulkShiftAssignmentNotification: protectedProcedure
+  triggerBulkShiftAssignmentNotification: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -241,7 +241,7 @@ export const websocketEventTriggersRouter = router({
    * Trigger compliance alert notification
    * Called when compliance issues are detected
    */
-  triggerComplianceAlertNotification: protectedProcedure
+  triggerComplianceAlertNotification: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -288,7 +288,7 @@ export const websocketEventTriggersRouter = router({
    * Trigger time-off approval notification
    * Called when time-off requests are approved/rejected
    */
-  triggerTimeOffApprovalNotification: protectedProcedure
+  triggerTimeOffApprovalNotification: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
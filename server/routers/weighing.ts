@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { farmProcedure, router } from "../_core/trpc";
+import { GrowthError } from "../services/growth";
+import {
+  closeWeighingSession,
+  getAnimalGrowth,
+  getGroupGrowth,
+  getSessionReport,
+  importScaleCsv,
+  listWeighingSessions,
+  openWeighingSession,
+  recordSessionWeight,
+} from "../services/weighingService";
+
+async function growthCall<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof GrowthError) throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    throw error;
+  }
+}
+
+/**
+ * Weighing sessions for pens and groups (tag scan or scale CSV), with
+ * average daily gain against breed growth curves, poor performer flags and
+ * feed conversion
+ */
+export const weighingRouter = router({
+  openSession: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      groupName: z.string().min(1).max(255),
+      sessionDate: z.date(),
+      method: z.enum(["tag_scan", "csv_import", "manual"]).optional(),
+      scaleName: z.string().max(255).optional(),
+      notes: z.string().max(2000).optional(),
+    }))
+    .mutation(({ input, ctx }) => openWeighingSession({ ...input, createdBy: ctx.user.id })),
+
+  /**
+   * One animal, identified by scanned tag or by id
+   */
+  recordWeight: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      sessionId: z.number(),
+      tag: z.string().max(100).optional(),
+      animalId: z.number().optional(),
+      weightKg: z.number().positive().max(5000),
+      weighedAt: z.date().optional(),
+    }).refine(input => input.tag !== undefined || input.animalId !== undefined, { message: "Give a tag or an animal id" }))
+    .mutation(({ input }) => growthCall(() => recordSessionWeight(input))),
+
+  importScaleCsv: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), sessionId: z.number(), csv: z.string().min(1).max(2_000_000) }))
+    .mutation(({ input }) => growthCall(() => importScaleCsv(input.farmId, input.sessionId, input.csv))),
+
+  closeSession: farmProcedure("editor")
+    .input(z.object({ farmId: z.number(), sessionId: z.number() }))
+    .mutation(({ input }) => growthCall(() => closeWeighingSession(input.farmId, input.sessionId))),
+
+  listSessions: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), groupName: z.string().optional() }))
+    .query(({ input }) => listWeighingSessions(input.farmId, input.groupName)),
+
+  getSessionReport: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), sessionId: z.number() }))
+    .query(({ input }) => growthCall(() => getSessionReport(input.farmId, input.sessionId))),
+
+  getGroupGrowth: farmProcedure("viewer")
+    .input(z.object({
+      farmId: z.number(),
+      groupName: z.string().min(1),
+      startDate: z.date().optional(),
+      endDate: z.date().optional(),
+    }))
+    .query(({ input }) =>
+      growthCall(() =>
+        getGroupGrowth(
+          input.farmId,
+          input.groupName,
+          input.startDate && input.endDate ? { from: input.startDate, to: input.endDate } : undefined
+        )
+      )
+    ),
+
+  getAnimalGrowth: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), animalId: z.number() }))
+    .query(({ input }) => growthCall(() => getAnimalGrowth(input.farmId, input.animalId))),
+});
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, farmProcedure, protectedProcedure, router } from "../_core/trpc";
+import {
+  getAnimalWithdrawalStatus,
+  listFarmWithdrawals,
+  listWithdrawalPeriods,
+  recordTreatment,
+  setWithdrawalPeriod,
+} from "../services/withdrawalService";
+
+const periodInput = z.object({
+  medicationName: z.string().min(1).max(255),
+  species: z.string().max(100).nullable().default(null),
+  meatDays: z.number().int().min(0).max(3650),
+  milkHours: z.number().int().min(0).max(24 * 3650),
+  eggDays: z.number().int().min(0).max(3650),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * Drug withdrawal periods and per-animal clear dates. The residue
+ * compliance report lives with the other Ghana veterinary compliance
+ * procedures in veterinaryManagementGhana.
+ */
+export const withdrawalTrackingRouter = router({
+  /**
+   * The general label periods on file
+   */
+  listStandardPeriods: protectedProcedure.query(() => listWithdrawalPeriods()),
+
+  /**
+   * Label periods together with the farm's own periods
+   */
+  listPeriods: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => listWithdrawalPeriods(input.farmId)),
+
+  /**
+   * Set the general label period for a medication (and optionally a species)
+   */
+  setStandardPeriod: adminProcedure
+    .input(periodInput)
+    .mutation(({ input }) => setWithdrawalPeriod({ ...input, farmId: null })),
+
+  /**
+   * Set a farm's own period, e.g. a longer one prescribed by the vet
+   */
+  setFarmPeriod: farmProcedure("admin")
+    .input(periodInput.extend({ farmId: z.number() }))
+    .mutation(({ input }) => setWithdrawalPeriod(input)),
+
+  /**
+   * Record a treatment given outside prescriptions and medication tracking
+   */
+  recordTreatment: farmProcedure("editor")
+    .input(z.object({
+      farmId: z.number(),
+      animalId: z.number(),
+      medicationName: z.string().min(1).max(255),
+      lastDoseAt: z.date(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const result = await recordTreatment({ ...input, source: "manual", recordedBy: ctx.user.id });
+      if (!result) throw new TRPCError({ code: "NOT_FOUND", message: "Animal not found on this farm" });
+      return result;
+    }),
+
+  /**
+   * An animal's clear dates for meat, milk and eggs
+   */
+  getAnimalStatus: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), animalId: z.number() }))
+    .query(({ input }) => getAnimalWithdrawalStatus(input.farmId, input.animalId)),
+
+  /**
+   * Animals on the farm currently in withdrawal
+   */
+  listFarmWithdrawals: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number() }))
+    .query(({ input }) => listFarmWithdrawals(input.farmId)),
+});
@@ -1,11 +1,11 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getDb } from "../db";
 
 export const workerPerformanceRouter = router({
   // Get worker performance metrics
-  getWorkerMetrics: protectedProcedure
+  getWorkerMetrics: farmProcedure("viewer")
     .input(z.object({ farmId: z.string(), userId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -47,7 +47,7 @@ export const workerPerformanceRouter = router({
     }),
 
   // Get all worker metrics for a farm
-  getFarmWorkerMetrics: protectedProcedure
+  getFarmWorkerMetrics: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -92,7 +92,7 @@ export const workerPerformanceRouter = router({
     }),
 
   // Update worker performance metrics
-  updateWorkerMetrics: protectedProcedure
+  updateWorkerMetrics: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.string(),
@@ -188,7 +188,7 @@ export const workerPerformanceRouter = router({
     }),
 
   // Get performance summary for farm
-  getFarmPerformanceSummary: protectedProcedure
+  getFarmPerformanceSummary: farmProcedure("viewer")
     .input(z.object({ farmId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
@@ -57,7 +57,7 @@ export const workerPerformanceAnalyticsCleanRouter = router({
   /**
    * Get team performance overview
    */
-  getTeamPerformance: protectedProcedure
+  getTeamPerformance: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -133,7 +133,7 @@ export const workerPerformanceAnalyticsCleanRouter = router({
   /**
    * Get productivity trends
    */
-  getProductivityTrends: protectedProcedure
+  getProductivityTrends: farmProcedure("viewer")
     .input(
       z.object({
         workerId: z.number().optional(),
@@ -314,7 +314,7 @@ export const workerPerformanceAnalyticsCleanRouter = router({
   /**
    * Get performance incentive recommendations
    */
-  getIncentiveRecommendations: protectedProcedure
+  getIncentiveRecommendations: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input, ctx }) => {
       try {
@@ -356,7 +356,7 @@ export const workerPerformanceAnalyticsCleanRouter = router({
   /**
    * Get performance comparison
    */
-  getPerformanceComparison: protectedProcedure
+  getPerformanceComparison: farmProcedure("viewer")
     .input(
       z.object({
         workerId: z.number(),
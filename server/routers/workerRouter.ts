@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from '../_core/trpc';
+import { router, protectedProcedure, farmProcedure } from '../_core/trpc';
 import { z } from 'zod';
 import {
   getWorkersByFarm,
@@ -12,7 +12,7 @@ export const workerRouter = router({
   /**
    * Get all workers for a farm
    */
-  getAllWorkers: protectedProcedure
+  getAllWorkers: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -26,7 +26,7 @@ export const workerRouter = router({
   /**
    * Get a specific worker by ID
    */
-  getWorkerById: protectedProcedure
+  getWorkerById: farmProcedure("viewer")
     .input(z.object({ workerId: z.number(), farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -44,7 +44,7 @@ export const workerRouter = router({
   /**
    * Get available workers (not on leave, active status)
    */
-  getAvailableWorkers: protectedProcedure
+  getAvailableWorkers: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -58,7 +58,7 @@ export const workerRouter = router({
   /**
    * Search workers by name or email
    */
-  searchWorkers: protectedProcedure
+  searchWorkers: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), query: z.string() }))
     .query(async ({ input }) => {
       try {
@@ -72,7 +72,7 @@ export const workerRouter = router({
   /**
    * Get worker count for a farm
    */
-  getWorkerCount: protectedProcedure
+  getWorkerCount: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       try {
@@ -1,9 +1,70 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { workflowRuns, workflowRunSteps, workflows, workflowVersions, type User } from "../../drizzle/schema";
+import { hasFarmRole, loadFarmAccess, type FarmRole } from "../_core/farmAccess";
+import {
+  WORKFLOW_TEMPLATES,
+  WorkflowValidationError,
+  normalizeTriggerEvent,
+  type Condition,
+} from "../services/workflowEngine";
+import { createWorkflow, executeRun, retryRun, saveWorkflowVersion, startRun } from "../services/workflowRunner";
+
+export const workflowNodeSchema = z.object({
+  id: z.string().min(1).max(64),
+  type: z.enum(["trigger", "condition", "action", "notification"]),
+  label: z.string().optional(),
+  config: z.record(z.string(), z.any()).optional(),
+  position: z.object({ x: z.number(), y: z.number() }).optional(),
+});
+
+export const workflowEdgeSchema = z.object({
+  id: z.string().optional(),
+  source: z.string(),
+  target: z.string(),
+  branch: z.enum(["true", "false"]).optional(),
+});
+
+export function workflowFailure(error: unknown): never {
+  if (error instanceof TRPCError) throw error;
+  if (error instanceof WorkflowValidationError) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+  throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: (error as Error).message });
+}
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  return db;
+}
+
+/** Procedures addressed by workflow id check access on the workflow's farm */
+export async function requireWorkflowAccess(user: Pick<User, "id" | "role">, workflowId: number, minRole: FarmRole) {
+  const db = await requireDb();
+  const [workflow] = await db.select().from(workflows).where(eq(workflows.id, workflowId)).limit(1);
+  if (!workflow) throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+  const access = await loadFarmAccess(user, workflow.farmId);
+  if (!access || !hasFarmRole(access.role, minRole)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "No access to this workflow's farm" });
+  }
+  return workflow;
+}
+
+async function requireRunAccess(user: Pick<User, "id" | "role">, runId: number, minRole: FarmRole) {
+  const db = await requireDb();
+  const [run] = await db.select().from(workflowRuns).where(eq(workflowRuns.id, runId)).limit(1);
+  if (!run) throw new TRPCError({ code: "NOT_FOUND", message: "Workflow run not found" });
+  await requireWorkflowAccess(user, run.workflowId, minRole);
+  return run;
+}
 
 export const workflowBuilderRouter = router({
-  // Create a new workflow
-  createWorkflow: protectedProcedure
+  // Create a new workflow (version 1)
+  createWorkflow: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -11,70 +72,70 @@ export const workflowBuilderRouter = router({
         description: z.string().optional(),
         trigger: z.string(),
         triggerConditions: z.any().optional(),
-        nodes: z.array(z.any()),
-        edges: z.array(z.any()),
+        nodes: z.array(workflowNodeSchema),
+        edges: z.array(workflowEdgeSchema),
+        maxRetries: z.number().int().min(0).max(10).optional(),
         isTemplate: z.boolean().optional(),
         templateCategory: z.string().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      return {
-        id: Math.floor(Math.random() * 10000),
-        ...input,
-        createdAt: new Date(Date.now()),
-        isActive: true,
-        executionCount: 0,
-      };
+      try {
+        const id = await createWorkflow(
+          {
+            ...input,
+            triggerEvent: normalizeTriggerEvent(input.trigger),
+            triggerConditions: (input.triggerConditions ?? null) as Condition | null,
+          },
+          ctx.user.id
+        );
+        return { id, currentVersion: 1 };
+      } catch (error) {
+        workflowFailure(error);
+      }
     }),
 
-  // Get all workflows for a farm
-  listWorkflows: protectedProcedure
+  // Get all workflows for a farm with their run counts
+  listWorkflows: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), includeTemplates: z.boolean().optional() }))
     .query(async ({ input }) => {
-      return [
-        {
-          id: 1,
-          farmId: input.farmId,
-          name: "Critical Alert Response",
-          description: "Automatically respond to critical security alerts",
-          trigger: "critical_alert",
-          isActive: true,
-          isTemplate: false,
-          nodes: [],
-          edges: [],
-          executionCount: 5,
-          createdAt: new Date(Date.now()),
-        },
-      ];
+      const db = await requireDb();
+      const rows = await db
+        .select()
+        .from(workflows)
+        .where(
+          input.includeTemplates
+            ? eq(workflows.farmId, input.farmId)
+            : and(eq(workflows.farmId, input.farmId), eq(workflows.isTemplate, false))
+        )
+        .orderBy(desc(workflows.updatedAt));
+      if (!rows.length) return [];
+
+      const counts = await db
+        .select({
+          workflowId: workflowRuns.workflowId,
+          executionCount: sql<number>`count(*)`,
+          lastRunAt: sql<Date | null>`max(${workflowRuns.createdAt})`,
+        })
+        .from(workflowRuns)
+        .where(inArray(workflowRuns.workflowId, rows.map(row => row.id)))
+        .groupBy(workflowRuns.workflowId);
+      const byWorkflow = new Map(counts.map(count => [count.workflowId, count]));
+
+      return rows.map(row => ({
+        ...row,
+        trigger: row.triggerEvent,
+        executionCount: Number(byWorkflow.get(row.id)?.executionCount ?? 0),
+        lastRunAt: byWorkflow.get(row.id)?.lastRunAt ?? null,
+      }));
     }),
 
   // Get workflow templates
   getTemplates: protectedProcedure.query(async () => {
-    return [
-      {
-        id: 101,
-        name: "Failed Login Alert",
-        description: "Alert on multiple failed login attempts",
-        trigger: "failed_login",
-        templateCategory: "Authentication",
-        isTemplate: true,
-        nodes: [],
-        edges: [],
-      },
-      {
-        id: 102,
-        name: "Suspicious Device Detection",
-        description: "Alert when new device accesses system",
-        trigger: "new_device",
-        templateCategory: "Device Security",
-        isTemplate: true,
-        nodes: [],
-        edges: [],
-      },
-    ];
+    return WORKFLOW_TEMPLATES.map(template => ({ ...template, isTemplate: true }));
   }),
 
-  // Update a workflow
+  // Update a workflow; graph or trigger changes create a new version
   updateWorkflow: protectedProcedure
     .input(
       z.object({
@@ -83,62 +144,159 @@ export const workflowBuilderRouter = router({
         description: z.string().optional(),
         trigger: z.string().optional(),
         triggerConditions: z.any().optional(),
-        nodes: z.array(z.any()).optional(),
-        edges: z.array(z.any()).optional(),
+        nodes: z.array(workflowNodeSchema).optional(),
+        edges: z.array(workflowEdgeSchema).optional(),
+        maxRetries: z.number().int().min(0).max(10).optional(),
         isActive: z.boolean().optional(),
+        versionNotes: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      return { success: true, id: input.id };
+    .mutation(async ({ input, ctx }) => {
+      const workflow = await requireWorkflowAccess(ctx.user, input.id, "editor");
+      const db = await requireDb();
+      try {
+        let currentVersion = workflow.currentVersion;
+        if (input.trigger !== undefined || input.triggerConditions !== undefined || input.nodes || input.edges) {
+          currentVersion = await saveWorkflowVersion(
+            workflow.id,
+            {
+              triggerEvent: input.trigger !== undefined ? normalizeTriggerEvent(input.trigger) : workflow.triggerEvent,
+              triggerConditions: (input.triggerConditions !== undefined ? input.triggerConditions : workflow.triggerConditions) as Condition | null,
+              nodes: input.nodes ?? (workflow.nodes as z.infer<typeof workflowNodeSchema>[]),
+              edges: input.edges ?? (workflow.edges as z.infer<typeof workflowEdgeSchema>[]),
+            },
+            input.versionNotes ?? "Updated in workflow builder",
+            ctx.user.id
+          );
+        }
+
+        const updates: Partial<typeof workflows.$inferInsert> = {};
+        if (input.name !== undefined) updates.name = input.name;
+        if (input.description !== undefined) updates.description = input.description;
+        if (input.maxRetries !== undefined) updates.maxRetries = input.maxRetries;
+        if (input.isActive !== undefined) updates.isActive = input.isActive;
+        if (Object.keys(updates).length) await db.update(workflows).set(updates).where(eq(workflows.id, workflow.id));
+
+        return { success: true, id: workflow.id, currentVersion };
+      } catch (error) {
+        workflowFailure(error);
+      }
     }),
 
-  // Delete a workflow
+  // Delete a workflow with its versions and run logs
   deleteWorkflow: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      const workflow = await requireWorkflowAccess(ctx.user, input.id, "editor");
+      const db = await requireDb();
+      const runIds = (
+        await db.select({ id: workflowRuns.id }).from(workflowRuns).where(eq(workflowRuns.workflowId, workflow.id))
+      ).map(run => run.id);
+      if (runIds.length) await db.delete(workflowRunSteps).where(inArray(workflowRunSteps.runId, runIds));
+      await db.delete(workflowRuns).where(eq(workflowRuns.workflowId, workflow.id));
+      await db.delete(workflowVersions).where(eq(workflowVersions.workflowId, workflow.id));
+      await db.delete(workflows).where(eq(workflows.id, workflow.id));
       return { success: true };
     }),
 
-  // Get workflow execution history
+  // Get workflow execution history from the run log
   getExecutionHistory: protectedProcedure
-    .input(z.object({ workflowId: z.number(), limit: z.number().optional() }))
-    .query(async ({ input }) => {
-      return [
-        {
-          id: 1,
-          workflowId: input.workflowId,
-          status: "completed",
-          triggeredBy: "system",
-          startedAt: new Date(Date.now() - 10 * 60 * 1000),
-          completedAt: new Date(Date.now() - 9 * 60 * 1000),
-          duration: 60,
-          createdAt: new Date(Date.now() - 10 * 60 * 1000),
-        },
-      ];
+    .input(z.object({ workflowId: z.number(), limit: z.number().int().min(1).max(200).optional() }))
+    .query(async ({ input, ctx }) => {
+      await requireWorkflowAccess(ctx.user, input.workflowId, "viewer");
+      const db = await requireDb();
+      const runs = await db
+        .select()
+        .from(workflowRuns)
+        .where(eq(workflowRuns.workflowId, input.workflowId))
+        .orderBy(desc(workflowRuns.createdAt), desc(workflowRuns.id))
+        .limit(input.limit ?? 50);
+      return runs.map(run => ({
+        ...run,
+        duration: run.durationMs === null ? null : Math.round(run.durationMs / 1000),
+      }));
+    }),
+
+  // Step log of one run, across all attempts
+  getExecutionSteps: protectedProcedure
+    .input(z.object({ runId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const run = await requireRunAccess(ctx.user, input.runId, "viewer");
+      const db = await requireDb();
+      const steps = await db
+        .select()
+        .from(workflowRunSteps)
+        .where(eq(workflowRunSteps.runId, run.id))
+        .orderBy(asc(workflowRunSteps.id));
+      return { run, steps };
     }),
 
   // Execute a workflow manually
   executeWorkflow: protectedProcedure
-    .input(z.object({ workflowId: z.number(), triggerData: z.any().optional() }))
+    .input(z.object({ workflowId: z.number(), triggerData: z.record(z.string(), z.any()).optional() }))
     .mutation(async ({ input, ctx }) => {
-      return {
-        success: true,
-        executionId: Math.floor(Math.random() * 10000),
-        status: "completed",
-      };
+      const workflow = await requireWorkflowAccess(ctx.user, input.workflowId, "editor");
+      try {
+        const runId = await startRun(workflow, "manual", input.triggerData ?? {}, { triggeredBy: ctx.user.id });
+        if (runId === null) throw new TRPCError({ code: "CONFLICT", message: "Run could not be started" });
+        const status = await executeRun(runId);
+        return { success: status === "completed", executionId: runId, status };
+      } catch (error) {
+        workflowFailure(error);
+      }
+    }),
+
+  // Retry a failed run now; completed actions are not repeated
+  retryExecution: protectedProcedure
+    .input(z.object({ runId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireRunAccess(ctx.user, input.runId, "editor");
+      const status = await retryRun(input.runId);
+      if (status === null) throw new TRPCError({ code: "BAD_REQUEST", message: "Only failed runs can be retried" });
+      return { success: status === "completed", executionId: input.runId, status };
     }),
 
-  // Get workflow statistics
-  getWorkflowStats: protectedProcedure
+  // Get workflow statistics from the run log
+  getWorkflowStats: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
+      const db = await requireDb();
+      const [definitions] = await db
+        .select({
+          totalWorkflows: sql<number>`count(*)`,
+          activeWorkflows: sql<number>`coalesce(sum(case when ${workflows.isActive} then 1 else 0 end), 0)`,
+        })
+        .from(workflows)
+        .where(and(eq(workflows.farmId, input.farmId), eq(workflows.isTemplate, false)));
+
+      const byStatus = await db
+        .select({
+          status: workflowRuns.status,
+          count: sql<number>`count(*)`,
+          averageMs: sql<number | null>`avg(${workflowRuns.durationMs})`,
+        })
+        .from(workflowRuns)
+        .where(eq(workflowRuns.farmId, input.farmId))
+        .groupBy(workflowRuns.status);
+      const byEvent = await db
+        .select({ triggerEvent: workflowRuns.triggerEvent, count: sql<number>`count(*)` })
+        .from(workflowRuns)
+        .where(eq(workflowRuns.farmId, input.farmId))
+        .groupBy(workflowRuns.triggerEvent);
+
+      const count = (status: string) => Number(byStatus.find(row => row.status === status)?.count ?? 0);
+      const completed = byStatus.find(row => row.status === "completed");
       return {
-        totalWorkflows: 5,
-        activeWorkflows: 4,
-        totalExecutions: 42,
-        successfulExecutions: 40,
-        failedExecutions: 2,
-        averageExecutionTime: 45,
+        totalWorkflows: Number(definitions?.totalWorkflows ?? 0),
+        activeWorkflows: Number(definitions?.activeWorkflows ?? 0),
+        totalExecutions: byStatus.reduce((sum, row) => sum + Number(row.count), 0),
+        successfulExecutions: count("completed"),
+        failedExecutions: count("failed"),
+        retryingExecutions: count("retrying"),
+        runningExecutions: count("running") + count("pending"),
+        // Seconds, over completed runs
+        averageExecutionTime: completed?.averageMs ? Math.round(Number(completed.averageMs) / 100) / 10 : 0,
+        executionsByEvent: Object.fromEntries(byEvent.map(row => [row.triggerEvent, Number(row.count)])),
       };
     }),
 });
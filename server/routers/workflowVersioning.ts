@@ -1,325 +1,213 @@
-import { router, protectedProcedure } from "../_core/trpc";
+import { router, farmProcedure } from "../_core/trpc";
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, ne } from "drizzle-orm";
 import { getDb } from "../db";
+import { users, workflows, workflowVersions } from "../../drizzle/schema";
+import { saveWorkflowVersion } from "../services/workflowRunner";
+import type { Condition, WorkflowEdge, WorkflowNode } from "../services/workflowEngine";
+import { workflowEdgeSchema, workflowFailure, workflowNodeSchema } from "./workflowBuilder";
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+  return db;
+}
+
+async function requireWorkflow(workflowId: number, farmId: number) {
+  const db = await requireDb();
+  const [workflow] = await db
+    .select()
+    .from(workflows)
+    .where(and(eq(workflows.id, workflowId), eq(workflows.farmId, farmId)))
+    .limit(1);
+  if (!workflow) throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+  return workflow;
+}
+
+async function requireVersion(workflowId: number, versionId: number) {
+  const db = await requireDb();
+  const [version] = await db
+    .select()
+    .from(workflowVersions)
+    .where(and(eq(workflowVersions.id, versionId), eq(workflowVersions.workflowId, workflowId)))
+    .limit(1);
+  if (!version) throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+  return version;
+}
+
+type Identified = { id?: string; source?: string; target?: string };
+
+// Edges may come without ids from older clients, so fall back to source->target
+function keyOf(item: Identified) {
+  return item.id ?? `${item.source}->${item.target}`;
+}
+
+export function diffById<T extends Identified>(before: T[], after: T[]) {
+  const previous = new Map(before.map(item => [keyOf(item), item]));
+  const next = new Map(after.map(item => [keyOf(item), item]));
+  return {
+    added: [...next.keys()].filter(key => !previous.has(key)),
+    removed: [...previous.keys()].filter(key => !next.has(key)),
+    changed: [...next.keys()].filter(
+      key => previous.has(key) && JSON.stringify(previous.get(key)) !== JSON.stringify(next.get(key))
+    ),
+  };
+}
+
+const workflowInput = { workflowId: z.number(), farmId: z.number() };
 
 export const workflowVersioningRouter = router({
-  // Create workflow version
-  createVersion: protectedProcedure
+  // Create workflow version from an edited graph
+  createVersion: farmProcedure("editor")
     .input(
       z.object({
-        workflowId: z.number(),
-        farmId: z.number(),
+        ...workflowInput,
         versionNotes: z.string(),
-        nodes: z.array(z.any()),
-        edges: z.array(z.any()),
+        nodes: z.array(workflowNodeSchema),
+        edges: z.array(workflowEdgeSchema),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new Error("Database connection failed");
-      }
-      
-      // Verify farm ownership
-      const farm = await db.query.farms.findFirst({
-        where: (farms: any, { eq }: any) => eq(farms.id, input.farmId),
-      });
-
-      if (!farm || farm.ownerId !== ctx.user.id) {
-        throw new Error("Unauthorized: Farm not found or not owned by user");
+      const workflow = await requireWorkflow(input.workflowId, input.farmId);
+      try {
+        const versionNumber = await saveWorkflowVersion(
+          workflow.id,
+          {
+            triggerEvent: workflow.triggerEvent,
+            triggerConditions: workflow.triggerConditions as Condition | null,
+            nodes: input.nodes,
+            edges: input.edges,
+          },
+          input.versionNotes,
+          ctx.user.id
+        );
+        return { workflowId: workflow.id, versionNumber, status: "active" as const };
+      } catch (error) {
+        workflowFailure(error);
       }
-
-      const versionId = Math.random().toString(36).substr(2, 9);
-      
-      return {
-        id: versionId,
-        workflowId: input.workflowId,
-        versionNumber: 1,
-        versionNotes: input.versionNotes,
-        nodes: input.nodes,
-        edges: input.edges,
-        createdAt: new Date(),
-        createdBy: ctx.user.id,
-      };
     }),
 
-  // List workflow versions
-  listVersions: protectedProcedure
-    .input(
-      z.object({
-        workflowId: z.number(),
-        farmId: z.number(),
-      })
-    )
-    .query(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new Error("Database connection failed");
-      }
-      
-      // Verify farm ownership
-      const farm = await db.query.farms.findFirst({
-        where: (farms: any, { eq }: any) => eq(farms.id, input.farmId),
-      });
-
-      if (!farm || farm.ownerId !== ctx.user.id) {
-        throw new Error("Unauthorized: Farm not found or not owned by user");
-      }
-
-      // Return mock versions
-      return [
-        {
-          id: "version-3",
-          workflowId: input.workflowId,
-          versionNumber: 3,
-          versionNotes: "Added SMS notification for critical alerts",
-          createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-          createdBy: ctx.user.id,
-          isActive: true,
-          nodeCount: 8,
-          edgeCount: 7,
-        },
-        {
-          id: "version-2",
-          workflowId: input.workflowId,
-          versionNumber: 2,
-          versionNotes: "Updated condition logic for IP whitelist check",
-          createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-          createdBy: ctx.user.id,
-          isActive: false,
-          nodeCount: 7,
-          edgeCount: 6,
-        },
-        {
-          id: "version-1",
-          workflowId: input.workflowId,
-          versionNumber: 1,
-          versionNotes: "Initial workflow creation",
-          createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-          createdBy: ctx.user.id,
-          isActive: false,
-          nodeCount: 5,
-          edgeCount: 4,
-        },
-      ];
+  // List versions, newest first
+  listVersions: farmProcedure("viewer")
+    .input(z.object(workflowInput))
+    .query(async ({ input }) => {
+      await requireWorkflow(input.workflowId, input.farmId);
+      const db = await requireDb();
+      const versions = await db
+        .select()
+        .from(workflowVersions)
+        .where(eq(workflowVersions.workflowId, input.workflowId))
+        .orderBy(desc(workflowVersions.versionNumber));
+      return versions.map(version => ({
+        id: version.id,
+        versionNumber: version.versionNumber,
+        versionNotes: version.versionNotes,
+        status: version.status,
+        createdBy: version.createdBy,
+        createdAt: version.createdAt,
+        nodeCount: (version.nodes as WorkflowNode[]).length,
+        edgeCount: (version.edges as WorkflowEdge[]).length,
+      }));
     }),
 
   // Get specific version
-  getVersion: protectedProcedure
-    .input(
-      z.object({
-        versionId: z.string(),
-        workflowId: z.number(),
-        farmId: z.number(),
-      })
-    )
-    .query(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new Error("Database connection failed");
-      }
-      
-      // Verify farm ownership
-      const farm = await db.query.farms.findFirst({
-        where: (farms: any, { eq }: any) => eq(farms.id, input.farmId),
-      });
-
-      if (!farm || farm.ownerId !== ctx.user.id) {
-        throw new Error("Unauthorized: Farm not found or not owned by user");
-      }
-
-      // Return mock version details
-      return {
-        id: input.versionId,
-        workflowId: input.workflowId,
-        versionNumber: 3,
-        versionNotes: "Added SMS notification for critical alerts",
-        nodes: [
-          {
-            id: "trigger-1",
-            type: "trigger",
-            label: "Failed Login Alert",
-            config: { threshold: 3, timeWindow: 5 },
-            position: { x: 50, y: 50 },
-          },
-        ],
-        edges: [],
-        createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-        createdBy: ctx.user.id,
-      };
+  getVersion: farmProcedure("viewer")
+    .input(z.object({ ...workflowInput, versionId: z.number() }))
+    .query(async ({ input }) => {
+      await requireWorkflow(input.workflowId, input.farmId);
+      return requireVersion(input.workflowId, input.versionId);
     }),
 
-  // Rollback to version
-  rollbackToVersion: protectedProcedure
-    .input(
-      z.object({
-        versionId: z.string(),
-        workflowId: z.number(),
-        farmId: z.number(),
-      })
-    )
+  // Rollback: the old snapshot becomes a new version, so history is never rewritten
+  rollbackToVersion: farmProcedure("editor")
+    .input(z.object({ ...workflowInput, versionId: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new Error("Database connection failed");
+      const workflow = await requireWorkflow(input.workflowId, input.farmId);
+      const target = await requireVersion(workflow.id, input.versionId);
+      if (target.versionNumber === workflow.currentVersion) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "That version is already active" });
       }
-      
-      // Verify farm ownership
-      const farm = await db.query.farms.findFirst({
-        where: (farms: any, { eq }: any) => eq(farms.id, input.farmId),
-      });
-
-      if (!farm || farm.ownerId !== ctx.user.id) {
-        throw new Error("Unauthorized: Farm not found or not owned by user");
+      try {
+        const versionNumber = await saveWorkflowVersion(
+          workflow.id,
+          {
+            triggerEvent: target.triggerEvent,
+            triggerConditions: target.triggerConditions as Condition | null,
+            nodes: target.nodes as WorkflowNode[],
+            edges: target.edges as WorkflowEdge[],
+          },
+          `Rolled back to version ${target.versionNumber}`,
+          ctx.user.id
+        );
+        return { success: true, workflowId: workflow.id, restoredFrom: target.versionNumber, versionNumber };
+      } catch (error) {
+        workflowFailure(error);
       }
-
-      return {
-        success: true,
-        workflowId: input.workflowId,
-        rolledBackToVersion: 2,
-        previousVersion: 3,
-        rollbackTimestamp: new Date(),
-        message: "Workflow successfully rolled back to version 2",
-      };
     }),
 
-  // Compare versions
-  compareVersions: protectedProcedure
-    .input(
-      z.object({
-        versionId1: z.string(),
-        versionId2: z.string(),
-        workflowId: z.number(),
-        farmId: z.number(),
-      })
-    )
-    .query(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new Error("Database connection failed");
-      }
-      
-      // Verify farm ownership
-      const farm = await db.query.farms.findFirst({
-        where: (farms: any, { eq }: any) => eq(farms.id, input.farmId),
-      });
-
-      if (!farm || farm.ownerId !== ctx.user.id) {
-        throw new Error("Unauthorized: Farm not found or not owned by user");
-      }
-
-      // Return mock comparison
+  // Compare two versions by node and edge ids
+  compareVersions: farmProcedure("viewer")
+    .input(z.object({ ...workflowInput, versionId1: z.number(), versionId2: z.number() }))
+    .query(async ({ input }) => {
+      await requireWorkflow(input.workflowId, input.farmId);
+      const before = await requireVersion(input.workflowId, input.versionId1);
+      const after = await requireVersion(input.workflowId, input.versionId2);
       return {
-        version1: {
-          id: input.versionId1,
-          versionNumber: 3,
-          nodeCount: 8,
-          edgeCount: 7,
-        },
-        version2: {
-          id: input.versionId2,
-          versionNumber: 2,
-          nodeCount: 7,
-          edgeCount: 6,
-        },
-        differences: {
-          nodesAdded: 1,
-          nodesRemoved: 0,
-          edgesAdded: 1,
-          edgesRemoved: 0,
-          changedNodes: [
-            {
-              nodeId: "notification-1",
-              change: "added",
-              type: "notification",
-              label: "SMS Alert",
-            },
-          ],
-        },
+        from: { id: before.id, versionNumber: before.versionNumber, createdAt: before.createdAt },
+        to: { id: after.id, versionNumber: after.versionNumber, createdAt: after.createdAt },
+        triggerChanged:
+          before.triggerEvent !== after.triggerEvent ||
+          JSON.stringify(before.triggerConditions) !== JSON.stringify(after.triggerConditions),
+        nodes: diffById(before.nodes as WorkflowNode[], after.nodes as WorkflowNode[]),
+        edges: diffById(before.edges as WorkflowEdge[], after.edges as WorkflowEdge[]),
       };
     }),
 
-  // Archive version
-  archiveVersion: protectedProcedure
-    .input(
-      z.object({
-        versionId: z.string(),
-        workflowId: z.number(),
-        farmId: z.number(),
-      })
-    )
-    .mutation(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new Error("Database connection failed");
-      }
-      
-      // Verify farm ownership
-      const farm = await db.query.farms.findFirst({
-        where: (farms: any, { eq }: any) => eq(farms.id, input.farmId),
-      });
-
-      if (!farm || farm.ownerId !== ctx.user.id) {
-        throw new Error("Unauthorized: Farm not found or not owned by user");
+  // Archive a superseded version; the active one cannot be archived
+  archiveVersion: farmProcedure("editor")
+    .input(z.object({ ...workflowInput, versionId: z.number() }))
+    .mutation(async ({ input }) => {
+      await requireWorkflow(input.workflowId, input.farmId);
+      const version = await requireVersion(input.workflowId, input.versionId);
+      if (version.status === "active") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The active version cannot be archived" });
       }
-
-      return {
-        success: true,
-        versionId: input.versionId,
-        status: "archived",
-        archivedAt: new Date(),
-      };
+      const db = await requireDb();
+      await db
+        .update(workflowVersions)
+        .set({ status: "archived" })
+        .where(and(eq(workflowVersions.id, version.id), ne(workflowVersions.status, "active")));
+      return { success: true, versionId: version.id, status: "archived" as const };
     }),
 
-  // Get version history with audit trail
-  getVersionHistory: protectedProcedure
-    .input(
-      z.object({
-        workflowId: z.number(),
-        farmId: z.number(),
-      })
-    )
-    .query(async ({ input, ctx }) => {
-      const db = await getDb();
-      if (!db) {
-        throw new Error("Database connection failed");
-      }
-      
-      // Verify farm ownership
-      const farm = await db.query.farms.findFirst({
-        where: (farms: any, { eq }: any) => eq(farms.id, input.farmId),
+  // Version history with author and what changed since the previous version
+  getVersionHistory: farmProcedure("viewer")
+    .input(z.object(workflowInput))
+    .query(async ({ input }) => {
+      await requireWorkflow(input.workflowId, input.farmId);
+      const db = await requireDb();
+      const versions = await db
+        .select({ version: workflowVersions, actor: users.email })
+        .from(workflowVersions)
+        .leftJoin(users, eq(users.id, workflowVersions.createdBy))
+        .where(eq(workflowVersions.workflowId, input.workflowId))
+        .orderBy(desc(workflowVersions.versionNumber));
+
+      return versions.map(({ version, actor }, index) => {
+        const previous = versions[index + 1]?.version;
+        const nodes = previous ? diffById(previous.nodes as WorkflowNode[], version.nodes as WorkflowNode[]) : null;
+        return {
+          timestamp: version.createdAt,
+          action: previous ? "created_version" : "created_workflow",
+          versionNumber: version.versionNumber,
+          actor,
+          changes: version.versionNotes,
+          status: version.status,
+          nodesAdded: nodes?.added.length ?? (version.nodes as WorkflowNode[]).length,
+          nodesRemoved: nodes?.removed.length ?? 0,
+          nodesChanged: nodes?.changed.length ?? 0,
+        };
       });
-
-      if (!farm || farm.ownerId !== ctx.user.id) {
-        throw new Error("Unauthorized: Farm not found or not owned by user");
-      }
-
-      // Return mock audit trail
-      return [
-        {
-          timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-          action: "created_version",
-          versionNumber: 3,
-          actor: "admin@farm.com",
-          changes: "Added SMS notification node",
-          status: "success",
-        },
-        {
-          timestamp: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-          action: "created_version",
-          versionNumber: 2,
-          actor: "admin@farm.com",
-          changes: "Updated IP whitelist condition",
-          status: "success",
-        },
-        {
-          timestamp: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-          action: "created_version",
-          versionNumber: 1,
-          actor: "admin@farm.com",
-          changes: "Initial workflow creation",
-          status: "success",
-        },
-      ];
     }),
 });
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateWaterQuality,
+  feedingRate,
+  fishSpeciesProfile,
+  projectHarvest,
+  stockStatus,
+  unionizedAmmoniaFraction,
+} from "./aquaculture";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const tilapia = fishSpeciesProfile("Nile Tilapia");
+
+describe("water quality", () => {
+  it("matches the published un-ionized ammonia fractions", () => {
+    expect(unionizedAmmoniaFraction(25, 8)).toBeCloseTo(0.0537, 3);
+    expect(unionizedAmmoniaFraction(25, 7)).toBeCloseTo(0.0056, 3);
+    expect(unionizedAmmoniaFraction(30, 9)).toBeGreaterThan(0.4);
+  });
+
+  it("grades readings against the species ranges and says what to do", () => {
+    const fine = evaluateWaterQuality(tilapia, { temperatureC: 28, ph: 7.5, dissolvedOxygenMgL: 6, totalAmmoniaMgL: 0.5 });
+    expect(fine.status).toBe("ok");
+    expect(fine.unionizedAmmoniaMgL).toBeGreaterThan(0);
+
+    const bad = evaluateWaterQuality(tilapia, { temperatureC: 30, ph: 9, dissolvedOxygenMgL: 1.5, totalAmmoniaMgL: 2 });
+    expect(bad.status).toBe("critical");
+    expect(bad.issues.map(issue => [issue.parameter, issue.level])).toEqual([
+      ["dissolvedOxygenMgL", "critical"],
+      ["unionizedAmmoniaMgL", "critical"],
+    ]);
+    expect(bad.issues[0].message).toBe("Dissolved oxygen 1.5 mg/L is below the critical minimum of 2 mg/L for tilapia");
+    expect(bad.recommendations[0]).toMatch(/aerators/);
+
+    // The same reading is only a warning for catfish oxygen, and carp want cooler water
+    expect(evaluateWaterQuality(fishSpeciesProfile("African catfish"), { dissolvedOxygenMgL: 2.5 }).status).toBe("warning");
+    expect(evaluateWaterQuality(fishSpeciesProfile("Common carp"), { temperatureC: 30 }).issues[0].direction).toBe("high");
+  });
+});
+
+describe("feeding tables", () => {
+  it("scales the ration for fish size by water temperature", () => {
+    expect(feedingRate(tilapia, 30, 29)).toEqual({ tableRatePercent: 4.5, temperatureFactor: 1, ratePercent: 4.5 });
+    expect(feedingRate(tilapia, 30, 21).ratePercent).toBeCloseTo(2.25);
+    expect(feedingRate(tilapia, 600, 15).ratePercent).toBe(0);
+  });
+});
+
+describe("biomass model", () => {
+  const stocking = { species: "Tilapia", stockedCount: 1000, stockingDate: day("2026-01-01"), initialAverageWeightG: 10 };
+  const events = [
+    { eventType: "mortality" as const, date: day("2026-01-15"), fishCount: 50, totalWeightKg: null, averageWeightG: null },
+    { eventType: "sampling" as const, date: day("2026-03-01"), fishCount: 30, totalWeightKg: 3, averageWeightG: null },
+  ];
+
+  it("counts losses, takes weight from the latest sample and works out FCR", () => {
+    const status = stockStatus(stocking, events, 120, 28, day("2026-03-01"));
+    expect(status.headcount).toBe(950);
+    expect(status.survivalRate).toBe(0.95);
+    expect(status.estimatedWeightG).toBe(100);
+    expect(status.biomassKg).toBe(95);
+    expect(status.biomassGainKg).toBe(85);
+    expect(status.fcr).toBeCloseTo(1.41);
+    expect(status.tgcSource).toBe("fitted");
+
+    const later = stockStatus(stocking, events, 120, 28, day("2026-03-15"));
+    expect(later.estimatedWeightG).toBeGreaterThan(100);
+  });
+
+  it("projects the days to harvest size at the pond's own growth rate", () => {
+    const status = stockStatus(stocking, events, 120, 28, day("2026-03-01"));
+    const projection = projectHarvest(status, 28, 400, day("2026-03-01"))!;
+    expect(projection.daysToHarvest).toBe(65);
+    expect(projection.projectedHeadcount).toBeLessThan(950);
+    expect(projection.feedNeededKg).toBeGreaterThan(0);
+    // Colder water means a longer grow-out
+    expect(projectHarvest(status, 22, 400, day("2026-03-01"))!.daysToHarvest).toBeGreaterThan(65);
+    expect(projectHarvest(stockStatus({ ...stocking, initialAverageWeightG: null }, [], 0, 28), 28)).toBeNull();
+  });
+});
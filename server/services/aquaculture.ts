@@ -0,0 +1,482 @@
+import { feedConversionRatio } from "./growth";
+
+/**
+ * Pond water quality and fish stock maths
+ * Species safe ranges for pond water, un-ionized ammonia from total ammonia,
+ * and the biomass model for a stocking: headcount after losses, average
+ * weight from sample weighings, feed conversion, daily rations from the
+ * feeding tables and when the fish reach harvest size. No database access;
+ * aquacultureService feeds it readings and stock events.
+ *
+ * Growth follows the thermal growth coefficient (TGC): the cube root of
+ * body weight rises in step with degree-days, so the same fish grow faster
+ * in warmer water. Once a pond has two weights the coefficient is fitted to
+ * them instead of taken from the species table.
+ */
+
+export type WaterParameter =
+  | "temperatureC"
+  | "ph"
+  | "dissolvedOxygenMgL"
+  | "unionizedAmmoniaMgL"
+  | "nitriteMgL"
+  | "nitrateMgL"
+  | "turbidityNtu";
+
+export interface SafeRange {
+  min?: number;
+  max?: number;
+  criticalMin?: number;
+  criticalMax?: number;
+}
+
+export interface FishSpeciesProfile {
+  species: string;
+  ranges: Record<WaterParameter, SafeRange>;
+  /** Water temperatures (°C) at which fish eat the full table ration */
+  optimalTempC: [number, number];
+  /** Below the first or above the second the fish stop feeding */
+  feedingStopsC: [number, number];
+  /** Daily ration as % of body weight, by the upper weight (g) of each size class */
+  feedingTable: Array<[number, number]>;
+  /** Thermal growth coefficient, g^(1/3) per degree-day */
+  tgc: number;
+  expectedFcr: number;
+  harvestWeightG: number;
+}
+
+const NITRATE: SafeRange = { max: 100, criticalMax: 300 };
+const TURBIDITY: SafeRange = { max: 80, criticalMax: 200 };
+
+const TILAPIA: FishSpeciesProfile = {
+  species: "tilapia",
+  ranges: {
+    temperatureC: { min: 25, max: 32, criticalMin: 16, criticalMax: 37 },
+    ph: { min: 6.5, max: 9, criticalMin: 5, criticalMax: 10 },
+    dissolvedOxygenMgL: { min: 4, criticalMin: 2 },
+    unionizedAmmoniaMgL: { max: 0.1, criticalMax: 0.5 },
+    nitriteMgL: { max: 0.5, criticalMax: 2 },
+    nitrateMgL: NITRATE,
+    turbidityNtu: TURBIDITY,
+  },
+  optimalTempC: [26, 32],
+  feedingStopsC: [16, 37],
+  feedingTable: [[5, 10], [20, 6], [50, 4.5], [100, 3.5], [250, 2.5], [450, 1.8], [Infinity, 1.2]],
+  tgc: 0.00105,
+  expectedFcr: 1.6,
+  harvestWeightG: 400,
+};
+
+const FISH_PROFILES: Array<{ pattern: RegExp; profile: FishSpeciesProfile }> = [
+  { pattern: /tilapia|oreochromis/, profile: TILAPIA },
+  {
+    pattern: /catfish|clarias|ictalurus|pangas/,
+    profile: {
+      species: "catfish",
+      ranges: {
+        temperatureC: { min: 24, max: 30, criticalMin: 12, criticalMax: 36 },
+        ph: { min: 6.5, max: 8.5, criticalMin: 5, criticalMax: 10 },
+        dissolvedOxygenMgL: { min: 3, criticalMin: 1.5 },
+        unionizedAmmoniaMgL: { max: 0.1, criticalMax: 0.5 },
+        nitriteMgL: { max: 0.5, criticalMax: 2 },
+        nitrateMgL: NITRATE,
+        turbidityNtu: TURBIDITY,
+      },
+      optimalTempC: [26, 30],
+      feedingStopsC: [14, 35],
+      feedingTable: [[5, 8], [20, 6], [50, 5], [100, 4], [300, 3], [600, 2], [Infinity, 1.5]],
+      tgc: 0.0015,
+      expectedFcr: 1.2,
+      harvestWeightG: 1000,
+    },
+  },
+  {
+    pattern: /carp|cyprinus/,
+    profile: {
+      species: "carp",
+      ranges: {
+        temperatureC: { min: 20, max: 28, criticalMin: 4, criticalMax: 35 },
+        ph: { min: 6.5, max: 9, criticalMin: 5, criticalMax: 10 },
+        dissolvedOxygenMgL: { min: 5, criticalMin: 2 },
+        unionizedAmmoniaMgL: { max: 0.05, criticalMax: 0.2 },
+        nitriteMgL: { max: 0.3, criticalMax: 1 },
+        nitrateMgL: NITRATE,
+        turbidityNtu: TURBIDITY,
+      },
+      optimalTempC: [22, 28],
+      feedingStopsC: [10, 34],
+      feedingTable: [[5, 8], [20, 5], [50, 4], [100, 3], [300, 2.5], [600, 2], [Infinity, 1.5]],
+      tgc: 0.0013,
+      expectedFcr: 1.8,
+      harvestWeightG: 1000,
+    },
+  },
+];
+
+/** Unknown species get tilapia tables with the stricter carp limits on oxygen and ammonia */
+const WARM_WATER_FISH: FishSpeciesProfile = {
+  ...TILAPIA,
+  species: "fish",
+  ranges: {
+    ...TILAPIA.ranges,
+    dissolvedOxygenMgL: { min: 5, criticalMin: 2 },
+    unionizedAmmoniaMgL: { max: 0.05, criticalMax: 0.2 },
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AquacultureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AquacultureError";
+  }
+}
+
+export function fishSpeciesProfile(species: string | null | undefined): FishSpeciesProfile {
+  const name = (species ?? "").toLowerCase();
+  return FISH_PROFILES.find(entry => entry.pattern.test(name))?.profile ?? WARM_WATER_FISH;
+}
+
+// ============================================================================
+// WATER QUALITY
+// ============================================================================
+
+/**
+ * Share of total ammonia nitrogen present as toxic un-ionized NH3 (Emerson
+ * et al., 1975). Rises tenfold per pH unit, so the same TAN that is harmless
+ * at pH 7 can kill at pH 9.
+ */
+export function unionizedAmmoniaFraction(temperatureC: number, ph: number): number {
+  const pKa = 0.09018 + 2729.92 / (temperatureC + 273.15);
+  return 1 / (10 ** (pKa - ph) + 1);
+}
+
+export function unionizedAmmonia(
+  totalAmmoniaMgL: number | null | undefined,
+  temperatureC: number | null | undefined,
+  ph: number | null | undefined
+): number | null {
+  if (totalAmmoniaMgL == null || temperatureC == null || ph == null) return null;
+  return totalAmmoniaMgL * unionizedAmmoniaFraction(temperatureC, ph);
+}
+
+export interface WaterReading {
+  temperatureC?: number | null;
+  ph?: number | null;
+  dissolvedOxygenMgL?: number | null;
+  totalAmmoniaMgL?: number | null;
+  nitriteMgL?: number | null;
+  nitrateMgL?: number | null;
+  turbidityNtu?: number | null;
+}
+
+export type WaterStatus = "ok" | "warning" | "critical";
+
+export interface WaterIssue {
+  parameter: WaterParameter;
+  value: number;
+  level: "warning" | "critical";
+  direction: "low" | "high";
+  limit: number;
+  message: string;
+}
+
+export interface WaterQualityAssessment {
+  species: string;
+  status: WaterStatus;
+  unionizedAmmoniaMgL: number | null;
+  issues: WaterIssue[];
+  recommendations: string[];
+}
+
+const PARAMETER_LABELS: Record<WaterParameter, [string, string]> = {
+  temperatureC: ["Water temperature", "°C"],
+  ph: ["pH", ""],
+  dissolvedOxygenMgL: ["Dissolved oxygen", " mg/L"],
+  unionizedAmmoniaMgL: ["Un-ionized ammonia", " mg/L"],
+  nitriteMgL: ["Nitrite", " mg/L"],
+  nitrateMgL: ["Nitrate", " mg/L"],
+  turbidityNtu: ["Turbidity", " NTU"],
+};
+
+const RECOMMENDATIONS: Record<string, string> = {
+  "dissolvedOxygenMgL:low": "Run aerators or add fresh water, and hold feeding until oxygen recovers",
+  "unionizedAmmoniaMgL:high": "Cut feeding and exchange water; ammonia turns more toxic as pH and temperature rise",
+  "nitriteMgL:high": "Reduce feeding and exchange water; salt (chloride) protects fish from nitrite",
+  "nitrateMgL:high": "Exchange water to dilute nitrate",
+  "ph:low": "Apply agricultural lime to raise pH and alkalinity",
+  "ph:high": "Exchange water and hold off liming; high pH usually follows a dense algae bloom",
+  "temperatureC:low": "Cut rations while the water is cold",
+  "temperatureC:high": "Raise the water level or shade the pond, and feed in the cooler hours",
+  "turbidityNtu:high": "Let suspended clay settle and check the inflow for silt",
+};
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function checkRange(parameter: WaterParameter, value: number, range: SafeRange, species: string): WaterIssue | null {
+  const [label, unit] = PARAMETER_LABELS[parameter];
+  const issue = (level: WaterIssue["level"], direction: WaterIssue["direction"], limit: number): WaterIssue => ({
+    parameter,
+    value,
+    level,
+    direction,
+    limit,
+    message:
+      `${label} ${round(value, 3)}${unit} is ${direction === "low" ? "below" : "above"} the ` +
+      `${level === "critical" ? "critical" : "safe"} ${direction === "low" ? "minimum" : "maximum"} of ${limit}${unit} for ${species}`,
+  });
+
+  if (range.criticalMin !== undefined && value < range.criticalMin) return issue("critical", "low", range.criticalMin);
+  if (range.criticalMax !== undefined && value > range.criticalMax) return issue("critical", "high", range.criticalMax);
+  if (range.min !== undefined && value < range.min) return issue("warning", "low", range.min);
+  if (range.max !== undefined && value > range.max) return issue("warning", "high", range.max);
+  return null;
+}
+
+/**
+ * Grades a reading against the species' safe ranges. Parameters that were
+ * not measured are skipped; un-ionized ammonia needs TAN, pH and temperature.
+ */
+export function evaluateWaterQuality(profile: FishSpeciesProfile, reading: WaterReading): WaterQualityAssessment {
+  const nh3 = unionizedAmmonia(reading.totalAmmoniaMgL, reading.temperatureC, reading.ph);
+  const values: Record<WaterParameter, number | null | undefined> = {
+    temperatureC: reading.temperatureC,
+    ph: reading.ph,
+    dissolvedOxygenMgL: reading.dissolvedOxygenMgL,
+    unionizedAmmoniaMgL: nh3,
+    nitriteMgL: reading.nitriteMgL,
+    nitrateMgL: reading.nitrateMgL,
+    turbidityNtu: reading.turbidityNtu,
+  };
+
+  const issues: WaterIssue[] = [];
+  for (const parameter of Object.keys(values) as WaterParameter[]) {
+    const value = values[parameter];
+    if (value == null) continue;
+    const issue = checkRange(parameter, value, profile.ranges[parameter], profile.species);
+    if (issue) issues.push(issue);
+  }
+
+  const status: WaterStatus = issues.some(issue => issue.level === "critical")
+    ? "critical"
+    : issues.length > 0
+      ? "warning"
+      : "ok";
+
+  return {
+    species: profile.species,
+    status,
+    unionizedAmmoniaMgL: nh3 === null ? null : round(nh3, 4),
+    issues,
+    recommendations: issues.map(issue => RECOMMENDATIONS[`${issue.parameter}:${issue.direction}`]).filter(Boolean),
+  };
+}
+
+// ============================================================================
+// FEEDING
+// ============================================================================
+
+/** 1 across the optimal band, falling to 0 where the fish stop feeding */
+export function feedingTemperatureFactor(profile: FishSpeciesProfile, temperatureC: number): number {
+  const [stopLow, stopHigh] = profile.feedingStopsC;
+  const [optimalLow, optimalHigh] = profile.optimalTempC;
+  if (temperatureC <= stopLow || temperatureC >= stopHigh) return 0;
+  if (temperatureC < optimalLow) return (temperatureC - stopLow) / (optimalLow - stopLow);
+  if (temperatureC > optimalHigh) return (stopHigh - temperatureC) / (stopHigh - optimalHigh);
+  return 1;
+}
+
+export interface FeedingRate {
+  tableRatePercent: number;
+  temperatureFactor: number;
+  /** Daily ration as % of body weight after the temperature adjustment */
+  ratePercent: number;
+}
+
+export function feedingRate(profile: FishSpeciesProfile, averageWeightG: number, temperatureC: number): FeedingRate {
+  const tableRatePercent = profile.feedingTable.find(([upToG]) => averageWeightG <= upToG)![1];
+  const temperatureFactor = round(feedingTemperatureFactor(profile, temperatureC), 3);
+  return { tableRatePercent, temperatureFactor, ratePercent: round(tableRatePercent * temperatureFactor, 3) };
+}
+
+// ============================================================================
+// BIOMASS AND HARVEST
+// ============================================================================
+
+export interface StockingInput {
+  species: string;
+  stockedCount: number;
+  stockingDate: Date;
+  initialAverageWeightG: number | null;
+}
+
+export interface StockEvent {
+  eventType: "mortality" | "sampling" | "harvest";
+  date: Date;
+  fishCount: number;
+  totalWeightKg: number | null;
+  averageWeightG: number | null;
+}
+
+export interface StockStatus {
+  species: string;
+  stockedCount: number;
+  deadCount: number;
+  harvestedCount: number;
+  headcount: number;
+  survivalRate: number;
+  /** Share of the stocked fish lost per day so far */
+  dailyMortalityRate: number;
+  lastWeighedAt: Date | null;
+  lastAverageWeightG: number | null;
+  /** Last known weight grown on to `asOf` */
+  estimatedWeightG: number | null;
+  tgc: number;
+  tgcSource: "fitted" | "species";
+  biomassKg: number | null;
+  harvestedKg: number;
+  biomassGainKg: number | null;
+  feedKg: number;
+  fcr: number | null;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / DAY_MS;
+}
+
+function eventAverageWeightG(event: StockEvent): number | null {
+  if (event.averageWeightG !== null) return event.averageWeightG;
+  if (event.totalWeightKg !== null && event.fishCount > 0) return (event.totalWeightKg * 1000) / event.fishCount;
+  return null;
+}
+
+/** Weight after `days` at `temperatureC`, from the cube-root TGC model */
+export function projectWeight(weightG: number, tgc: number, temperatureC: number, days: number): number {
+  return (Math.cbrt(weightG) + tgc * Math.max(0, temperatureC) * Math.max(0, days)) ** 3;
+}
+
+/**
+ * TGC that takes a fish from the first to the last weight in the time
+ * between them; null unless there was real growth over at least a week
+ */
+export function fitTgc(points: Array<{ date: Date; weightG: number }>, meanTemperatureC: number): number | null {
+  if (points.length < 2 || meanTemperatureC <= 0) return null;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const days = daysBetween(first.date, last.date);
+  if (days < 7 || last.weightG <= first.weightG) return null;
+  return (Math.cbrt(last.weightG) - Math.cbrt(first.weightG)) / (meanTemperatureC * days);
+}
+
+/**
+ * Headcount, weight and biomass of a stocking on `asOf`. Losses and harvests
+ * come off the stocked count; weight comes from the latest sample weighing
+ * (or the stocking weight) grown on to `asOf`. FCR is the feed given over the
+ * biomass put on, counting fish already harvested.
+ */
+export function stockStatus(
+  stocking: StockingInput,
+  events: StockEvent[],
+  feedKg: number,
+  meanTemperatureC: number,
+  asOf: Date = new Date()
+): StockStatus {
+  const profile = fishSpeciesProfile(stocking.species);
+  const sorted = [...events].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const count = (type: StockEvent["eventType"]) =>
+    sorted.filter(event => event.eventType === type).reduce((sum, event) => sum + event.fishCount, 0);
+
+  const deadCount = count("mortality");
+  const harvestedCount = count("harvest");
+  const headcount = Math.max(0, stocking.stockedCount - deadCount - harvestedCount);
+  const daysStocked = Math.max(1, daysBetween(stocking.stockingDate, asOf));
+
+  const weights: Array<{ date: Date; weightG: number }> = [];
+  if (stocking.initialAverageWeightG !== null) weights.push({ date: stocking.stockingDate, weightG: stocking.initialAverageWeightG });
+  for (const event of sorted) {
+    const weightG = event.eventType === "sampling" ? eventAverageWeightG(event) : null;
+    if (weightG !== null) weights.push({ date: event.date, weightG });
+  }
+
+  const fitted = fitTgc(weights, meanTemperatureC);
+  const tgc = fitted ?? profile.tgc;
+  const last = weights[weights.length - 1] ?? null;
+  const estimatedWeightG = last ? projectWeight(last.weightG, tgc, meanTemperatureC, daysBetween(last.date, asOf)) : null;
+
+  const harvestedKg = sorted
+    .filter(event => event.eventType === "harvest")
+    .reduce((sum, event) => {
+      const averageG = eventAverageWeightG(event);
+      return sum + (event.totalWeightKg ?? (averageG !== null ? (averageG * event.fishCount) / 1000 : 0));
+    }, 0);
+  const biomassKg = estimatedWeightG === null ? null : (headcount * estimatedWeightG) / 1000;
+  const initialKg = stocking.initialAverageWeightG === null ? null : (stocking.stockedCount * stocking.initialAverageWeightG) / 1000;
+  const biomassGainKg = biomassKg === null || initialKg === null ? null : biomassKg + harvestedKg - initialKg;
+  const fcr = biomassGainKg === null ? null : feedConversionRatio(feedKg, biomassGainKg);
+
+  return {
+    species: profile.species,
+    stockedCount: stocking.stockedCount,
+    deadCount,
+    harvestedCount,
+    headcount,
+    survivalRate: stocking.stockedCount > 0 ? round((stocking.stockedCount - deadCount) / stocking.stockedCount, 4) : 0,
+    dailyMortalityRate: stocking.stockedCount > 0 ? deadCount / stocking.stockedCount / daysStocked : 0,
+    lastWeighedAt: last?.date ?? null,
+    lastAverageWeightG: last ? round(last.weightG, 2) : null,
+    estimatedWeightG: estimatedWeightG === null ? null : round(estimatedWeightG, 2),
+    tgc: round(tgc, 6),
+    tgcSource: fitted === null ? "species" : "fitted",
+    biomassKg: biomassKg === null ? null : round(biomassKg, 2),
+    harvestedKg: round(harvestedKg, 2),
+    biomassGainKg: biomassGainKg === null ? null : round(biomassGainKg, 2),
+    feedKg: round(feedKg, 2),
+    fcr: fcr === null ? null : round(fcr, 2),
+  };
+}
+
+export interface HarvestProjection {
+  targetWeightG: number;
+  daysToHarvest: number;
+  harvestDate: Date;
+  projectedHeadcount: number;
+  projectedBiomassKg: number;
+  /** Feed still to give, at the pond's FCR so far or the species' expected FCR */
+  feedNeededKg: number;
+}
+
+/**
+ * When the stock reaches `targetWeightG` at the given water temperature,
+ * with losses carrying on at the rate seen so far
+ */
+export function projectHarvest(
+  status: StockStatus,
+  meanTemperatureC: number,
+  targetWeightG: number | null = null,
+  asOf: Date = new Date()
+): HarvestProjection | null {
+  if (status.estimatedWeightG === null || status.headcount === 0 || meanTemperatureC <= 0) return null;
+  const profile = fishSpeciesProfile(status.species);
+  const target = targetWeightG ?? profile.harvestWeightG;
+
+  const days =
+    status.estimatedWeightG >= target
+      ? 0
+      : Math.ceil((Math.cbrt(target) - Math.cbrt(status.estimatedWeightG)) / (status.tgc * meanTemperatureC));
+  const projectedHeadcount = Math.round(status.headcount * (1 - status.dailyMortalityRate) ** days);
+  const projectedBiomassKg = (projectedHeadcount * Math.max(target, status.estimatedWeightG)) / 1000;
+  const fcr = status.fcr ?? profile.expectedFcr;
+
+  return {
+    targetWeightG: target,
+    daysToHarvest: days,
+    harvestDate: new Date(asOf.getTime() + days * DAY_MS),
+    projectedHeadcount,
+    projectedBiomassKg: round(projectedBiomassKg, 2),
+    feedNeededKg: round(Math.max(0, projectedBiomassKg - (status.biomassKg ?? 0)) * fcr, 2),
+  };
+}
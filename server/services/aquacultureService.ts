@@ -0,0 +1,645 @@
+import { and, desc, eq, gte, inArray, lte, ne } from "drizzle-orm";
+import {
+  alerts,
+  farms,
+  fishPondActivities,
+  fishPonds,
+  fishStockEvents,
+  fishStockingRecords,
+  pondWaterQuality,
+} from "../../drizzle/schema";
+import type { FishStockingRecord } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { broadcastToFarm } from "../_core/websocket";
+import { createNotification } from "../notificationService";
+import {
+  AquacultureError,
+  evaluateWaterQuality,
+  feedingRate,
+  fishSpeciesProfile,
+  projectHarvest,
+  stockStatus,
+  type FishSpeciesProfile,
+  type StockEvent,
+  type WaterParameter,
+  type WaterQualityAssessment,
+  type WaterReading,
+} from "./aquaculture";
+
+/**
+ * Pond water quality and fish stock
+ * Readings are graded against the safe ranges of the species stocked in the
+ * pond. A parameter out of range opens an alert (pondId set, one per
+ * parameter) and notifies the farm owner; the alert resolves once a later
+ * reading of that parameter is back in range. Stock is tracked per stocking
+ * from fishStockEvents (losses, sample weighings, harvests) and the feed
+ * logged as fishPondActivities "feeding" rows.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Readings averaged for the pond temperature used in growth and rations */
+const TEMPERATURE_WINDOW_DAYS = 30;
+const FINISHED_STATUS = "harvested";
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function dateOnly(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function num(value: string | null | undefined): number | null {
+  return value === null || value === undefined ? null : parseFloat(value);
+}
+
+function decimal(value: number | null | undefined, places: number): string | null {
+  return value === null || value === undefined ? null : value.toFixed(places);
+}
+
+async function requirePond(db: Db, farmId: number, pondId: number) {
+  const [pond] = await db
+    .select()
+    .from(fishPonds)
+    .where(and(eq(fishPonds.id, pondId), eq(fishPonds.farmId, farmId)))
+    .limit(1);
+  if (!pond) throw new AquacultureError("Pond not found on this farm");
+  return pond;
+}
+
+async function requireStocking(db: Db, farmId: number, stockingId: number) {
+  const [row] = await db
+    .select({ stocking: fishStockingRecords, pond: fishPonds })
+    .from(fishStockingRecords)
+    .innerJoin(fishPonds, eq(fishPonds.id, fishStockingRecords.pondId))
+    .where(and(eq(fishStockingRecords.id, stockingId), eq(fishPonds.farmId, farmId)))
+    .limit(1);
+  if (!row) throw new AquacultureError("Stocking not found on this farm");
+  return row;
+}
+
+async function activeStockings(db: Db, pondId: number) {
+  return db
+    .select()
+    .from(fishStockingRecords)
+    .where(and(eq(fishStockingRecords.pondId, pondId), ne(fishStockingRecords.status, FINISHED_STATUS)))
+    .orderBy(desc(fishStockingRecords.stockingDate));
+}
+
+/** Ranges of the fish now in the pond; the latest stocking wins when species are mixed */
+async function pondProfile(db: Db, pondId: number): Promise<FishSpeciesProfile> {
+  const [latest] = await activeStockings(db, pondId);
+  return fishSpeciesProfile(latest?.species);
+}
+
+/** Mean water temperature over the last month of readings, or the middle of the species' optimal band */
+async function pondTemperature(db: Db, pondId: number, profile: FishSpeciesProfile, asOf: Date): Promise<number> {
+  const rows = await db
+    .select({ temperatureC: pondWaterQuality.temperatureC })
+    .from(pondWaterQuality)
+    .where(
+      and(
+        eq(pondWaterQuality.pondId, pondId),
+        gte(pondWaterQuality.measuredAt, new Date(asOf.getTime() - TEMPERATURE_WINDOW_DAYS * DAY_MS)),
+        lte(pondWaterQuality.measuredAt, asOf)
+      )
+    );
+  const temperatures = rows.map(row => num(row.temperatureC)).filter((value): value is number => value !== null);
+  if (temperatures.length === 0) return (profile.optimalTempC[0] + profile.optimalTempC[1]) / 2;
+  return temperatures.reduce((sum, value) => sum + value, 0) / temperatures.length;
+}
+
+// ============================================================================
+// WATER QUALITY
+// ============================================================================
+
+const READING_PARAMETERS: Record<WaterParameter, keyof WaterReading | null> = {
+  temperatureC: "temperatureC",
+  ph: "ph",
+  dissolvedOxygenMgL: "dissolvedOxygenMgL",
+  // Needs TAN, pH and temperature together
+  unionizedAmmoniaMgL: null,
+  nitriteMgL: "nitriteMgL",
+  nitrateMgL: "nitrateMgL",
+  turbidityNtu: "turbidityNtu",
+};
+
+function measured(reading: WaterReading, assessment: WaterQualityAssessment, parameter: WaterParameter): boolean {
+  const field = READING_PARAMETERS[parameter];
+  return field === null ? assessment.unionizedAmmoniaMgL !== null : reading[field] != null;
+}
+
+/**
+ * Opens an alert for each parameter newly out of range, raises the severity
+ * of open ones that got worse, and resolves those measured back in range
+ */
+async function syncPondAlerts(
+  db: Db,
+  pond: { id: number; farmId: number; pondName: string },
+  reading: WaterReading,
+  assessment: WaterQualityAssessment
+) {
+  const open = await db
+    .select()
+    .from(alerts)
+    .where(and(eq(alerts.pondId, pond.id), eq(alerts.isResolved, false)));
+  const openByParameter = new Map(open.map(alert => [alert.readingType, alert]));
+
+  const resolved = open.filter(
+    alert =>
+      measured(reading, assessment, alert.readingType as WaterParameter) &&
+      !assessment.issues.some(issue => issue.parameter === alert.readingType)
+  );
+  if (resolved.length > 0) {
+    await db
+      .update(alerts)
+      .set({ isResolved: true, resolvedAt: new Date() })
+      .where(inArray(alerts.id, resolved.map(alert => alert.id)));
+  }
+
+  const opened: string[] = [];
+  for (const issue of assessment.issues) {
+    const message = `${pond.pondName}: ${issue.message}`;
+    const existing = openByParameter.get(issue.parameter);
+    if (existing) {
+      if (existing.severity !== issue.level && issue.level === "critical") {
+        await db
+          .update(alerts)
+          .set({ severity: "critical", message, triggerValue: issue.value.toString() })
+          .where(eq(alerts.id, existing.id));
+        opened.push(message);
+      }
+      continue;
+    }
+    await db.insert(alerts).values({
+      deviceId: 0, // Pond alerts come from manual readings, not a device
+      farmId: pond.farmId,
+      pondId: pond.id,
+      alertType: issue.direction === "low" ? "threshold_low" : "threshold_high",
+      message,
+      severity: issue.level,
+      readingType: issue.parameter,
+      triggerValue: issue.value.toString(),
+    });
+    opened.push(message);
+  }
+  if (opened.length === 0) return;
+
+  broadcastToFarm(pond.farmId, {
+    type: "pond_alert",
+    data: { pondId: pond.id, status: assessment.status, messages: opened, timestamp: new Date().toISOString() },
+  });
+  try {
+    const [farm] = await db.select({ ownerId: farms.farmerUserId }).from(farms).where(eq(farms.id, pond.farmId)).limit(1);
+    if (farm) {
+      await createNotification({
+        userId: farm.ownerId,
+        type: "health_alert",
+        title: `Water quality: ${pond.pondName}`,
+        message: [...opened, ...assessment.recommendations].join("\n"),
+        priority: assessment.status === "critical" ? "critical" : "high",
+        actionUrl: `/fish-farming?pond=${pond.id}`,
+      });
+    }
+  } catch (error) {
+    console.error("[Aquaculture] Failed to send water quality notification:", error);
+  }
+}
+
+export async function recordWaterQuality(
+  input: WaterReading & {
+    farmId: number;
+    pondId: number;
+    measuredAt: Date;
+    notes?: string;
+    recordedBy?: number;
+  }
+) {
+  const db = await requireDb();
+  const pond = await requirePond(db, input.farmId, input.pondId);
+  const assessment = evaluateWaterQuality(await pondProfile(db, pond.id), input);
+
+  const [header] = await db.insert(pondWaterQuality).values({
+    pondId: pond.id,
+    farmId: pond.farmId,
+    measuredAt: input.measuredAt,
+    temperatureC: decimal(input.temperatureC, 2),
+    ph: decimal(input.ph, 2),
+    dissolvedOxygenMgL: decimal(input.dissolvedOxygenMgL, 2),
+    totalAmmoniaMgL: decimal(input.totalAmmoniaMgL, 3),
+    unionizedAmmoniaMgL: decimal(assessment.unionizedAmmoniaMgL, 4),
+    nitriteMgL: decimal(input.nitriteMgL, 3),
+    nitrateMgL: decimal(input.nitrateMgL, 2),
+    turbidityNtu: decimal(input.turbidityNtu, 2),
+    status: assessment.status,
+    issues: assessment.issues.map(issue => issue.message),
+    notes: input.notes ?? null,
+    recordedBy: input.recordedBy ?? null,
+  });
+
+  await syncPondAlerts(db, pond, input, assessment);
+  return { id: header.insertId, ...assessment };
+}
+
+function presentReading(row: typeof pondWaterQuality.$inferSelect) {
+  return {
+    id: row.id,
+    pondId: row.pondId,
+    recordDate: row.measuredAt,
+    temperature: num(row.temperatureC),
+    pH: num(row.ph),
+    dissolvedOxygen: num(row.dissolvedOxygenMgL),
+    ammonia: num(row.totalAmmoniaMgL),
+    unionizedAmmonia: num(row.unionizedAmmoniaMgL),
+    nitrite: num(row.nitriteMgL),
+    nitrate: num(row.nitrateMgL),
+    turbidity: num(row.turbidityNtu),
+    status: row.status,
+    issues: row.issues ?? [],
+    notes: row.notes,
+  };
+}
+
+export async function listWaterQuality(farmId: number, pondId: number, range: { from: Date; to: Date }, limit: number) {
+  const db = await requireDb();
+  await requirePond(db, farmId, pondId);
+  const rows = await db
+    .select()
+    .from(pondWaterQuality)
+    .where(
+      and(
+        eq(pondWaterQuality.pondId, pondId),
+        gte(pondWaterQuality.measuredAt, range.from),
+        lte(pondWaterQuality.measuredAt, range.to)
+      )
+    )
+    .orderBy(desc(pondWaterQuality.measuredAt))
+    .limit(limit);
+  return rows.map(presentReading);
+}
+
+export async function getLatestWaterQuality(farmId: number, pondId: number) {
+  const db = await requireDb();
+  await requirePond(db, farmId, pondId);
+  const [latest] = await db
+    .select()
+    .from(pondWaterQuality)
+    .where(eq(pondWaterQuality.pondId, pondId))
+    .orderBy(desc(pondWaterQuality.measuredAt))
+    .limit(1);
+  return latest ? presentReading(latest) : null;
+}
+
+/**
+ * The pond graded on its latest value of each parameter (a morning DO
+ * reading and an afternoon pH reading are judged together), with the
+ * alerts still open
+ */
+export async function getPondHealth(farmId: number, pondId: number) {
+  const db = await requireDb();
+  await requirePond(db, farmId, pondId);
+  const rows = await db
+    .select()
+    .from(pondWaterQuality)
+    .where(eq(pondWaterQuality.pondId, pondId))
+    .orderBy(desc(pondWaterQuality.measuredAt))
+    .limit(20);
+
+  const latest: WaterReading = {};
+  const fields: Array<[keyof WaterReading, (row: (typeof rows)[number]) => string | null]> = [
+    ["temperatureC", row => row.temperatureC],
+    ["ph", row => row.ph],
+    ["dissolvedOxygenMgL", row => row.dissolvedOxygenMgL],
+    ["totalAmmoniaMgL", row => row.totalAmmoniaMgL],
+    ["nitriteMgL", row => row.nitriteMgL],
+    ["nitrateMgL", row => row.nitrateMgL],
+    ["turbidityNtu", row => row.turbidityNtu],
+  ];
+  for (const [field, read] of fields) {
+    const row = rows.find(candidate => read(candidate) !== null);
+    latest[field] = row ? num(read(row)) : null;
+  }
+
+  const openAlerts = await db
+    .select()
+    .from(alerts)
+    .where(and(eq(alerts.pondId, pondId), eq(alerts.isResolved, false)))
+    .orderBy(desc(alerts.createdAt));
+
+  if (rows.length === 0) {
+    return { pondId, status: "no_data" as const, lastMeasuredAt: null, unionizedAmmoniaMgL: null, issues: [], recommendations: [], openAlerts };
+  }
+  const assessment = evaluateWaterQuality(await pondProfile(db, pondId), latest);
+  return {
+    pondId,
+    status: assessment.status === "ok" ? ("healthy" as const) : assessment.status,
+    lastMeasuredAt: rows[0].measuredAt,
+    unionizedAmmoniaMgL: assessment.unionizedAmmoniaMgL,
+    issues: assessment.issues.map(issue => issue.message),
+    recommendations: assessment.recommendations,
+    openAlerts,
+  };
+}
+
+// ============================================================================
+// STOCK AND BIOMASS
+// ============================================================================
+
+function toStockEvent(row: typeof fishStockEvents.$inferSelect): StockEvent {
+  return {
+    eventType: row.eventType,
+    date: toDate(row.eventDate),
+    fishCount: row.fishCount,
+    totalWeightKg: num(row.totalWeightKg),
+    averageWeightG: num(row.averageWeightG),
+  };
+}
+
+async function loadStock(db: Db, stocking: FishStockingRecord, asOf: Date) {
+  const events = await db
+    .select()
+    .from(fishStockEvents)
+    .where(and(eq(fishStockEvents.stockingId, stocking.id), lte(fishStockEvents.eventDate, asOf)));
+  const feedings = await db
+    .select({ feedAmount: fishPondActivities.feedAmount })
+    .from(fishPondActivities)
+    .where(
+      and(
+        eq(fishPondActivities.pondId, stocking.pondId),
+        eq(fishPondActivities.activityType, "feeding"),
+        gte(fishPondActivities.activityDate, toDate(stocking.stockingDate)),
+        lte(fishPondActivities.activityDate, asOf)
+      )
+    );
+  const feedKg = feedings.reduce((sum, row) => sum + (num(row.feedAmount) ?? 0), 0);
+  const profile = fishSpeciesProfile(stocking.species);
+  const temperatureC = await pondTemperature(db, stocking.pondId, profile, asOf);
+
+  const status = stockStatus(
+    {
+      species: stocking.species,
+      stockedCount: stocking.fingerlings,
+      stockingDate: toDate(stocking.stockingDate),
+      initialAverageWeightG: num(stocking.initialAverageWeightG),
+    },
+    events.map(toStockEvent),
+    feedKg,
+    temperatureC,
+    asOf
+  );
+  return { profile, temperatureC, status };
+}
+
+export async function recordStocking(input: {
+  farmId: number;
+  pondId: number;
+  stockingDate: Date;
+  species: string;
+  quantity: number;
+  averageWeightG?: number;
+  targetWeightG?: number;
+  source?: string;
+  cost?: number;
+  notes?: string;
+}) {
+  const db = await requireDb();
+  const pond = await requirePond(db, input.farmId, input.pondId);
+  const profile = fishSpeciesProfile(input.species);
+  const stockingDate = dateOnly(input.stockingDate);
+
+  let expectedHarvestDate: Date | null = null;
+  if (input.averageWeightG !== undefined) {
+    const temperatureC = await pondTemperature(db, pond.id, profile, stockingDate);
+    const status = stockStatus(
+      { species: input.species, stockedCount: input.quantity, stockingDate, initialAverageWeightG: input.averageWeightG },
+      [],
+      0,
+      temperatureC,
+      stockingDate
+    );
+    const projection = projectHarvest(status, temperatureC, input.targetWeightG ?? null, stockingDate);
+    expectedHarvestDate = projection ? dateOnly(projection.harvestDate) : null;
+  }
+
+  const [header] = await db.insert(fishStockingRecords).values({
+    pondId: pond.id,
+    species: input.species,
+    fingerlings: input.quantity,
+    stockingDate,
+    expectedHarvestDate,
+    initialAverageWeightG: decimal(input.averageWeightG, 2),
+    targetWeightG: decimal(input.targetWeightG, 2),
+    source: input.source ?? null,
+    cost: decimal(input.cost, 2),
+    status: "stocked",
+    notes: input.notes ?? null,
+  });
+  return { id: header.insertId, species: profile.species, expectedHarvestDate };
+}
+
+/**
+ * A loss, sample weighing or harvest. Losses and harvests cannot take more
+ * fish than the stocking has left; a harvest that empties it closes it.
+ */
+export async function recordStockEvent(input: {
+  farmId: number;
+  stockingId: number;
+  eventType: StockEvent["eventType"];
+  eventDate: Date;
+  fishCount: number;
+  totalWeightKg?: number;
+  averageWeightG?: number;
+  cause?: string;
+  salePricePerKg?: number;
+  notes?: string;
+  recordedBy?: number;
+}) {
+  const db = await requireDb();
+  const { stocking } = await requireStocking(db, input.farmId, input.stockingId);
+  if (stocking.status === FINISHED_STATUS) throw new AquacultureError("This stocking has been harvested");
+  const eventDate = dateOnly(input.eventDate);
+  if (eventDate < toDate(stocking.stockingDate)) throw new AquacultureError("Event is dated before the fish were stocked");
+  if (input.eventType === "sampling" && input.totalWeightKg === undefined && input.averageWeightG === undefined) {
+    throw new AquacultureError("A sample weighing needs the total or average weight");
+  }
+
+  const { status } = await loadStock(db, stocking, eventDate);
+  if (input.eventType !== "sampling" && input.fishCount > status.headcount) {
+    throw new AquacultureError(`Only ${status.headcount} fish are left in this stocking`);
+  }
+
+  const [header] = await db.insert(fishStockEvents).values({
+    stockingId: stocking.id,
+    pondId: stocking.pondId,
+    eventType: input.eventType,
+    eventDate,
+    fishCount: input.fishCount,
+    totalWeightKg: decimal(input.totalWeightKg, 3),
+    averageWeightG: decimal(input.averageWeightG, 2),
+    cause: input.cause ?? null,
+    salePricePerKg: decimal(input.salePricePerKg, 2),
+    notes: input.notes ?? null,
+    recordedBy: input.recordedBy ?? null,
+  });
+
+  const nextStatus =
+    input.eventType === "harvest"
+      ? input.fishCount === status.headcount ? FINISHED_STATUS : "harvesting"
+      : input.eventType === "sampling" && stocking.status === "stocked" ? "growing" : null;
+  if (nextStatus) {
+    await db.update(fishStockingRecords).set({ status: nextStatus }).where(eq(fishStockingRecords.id, stocking.id));
+  }
+
+  const revenue =
+    input.eventType === "harvest" && input.salePricePerKg !== undefined && input.totalWeightKg !== undefined
+      ? input.salePricePerKg * input.totalWeightKg
+      : null;
+  return { id: header.insertId, headcount: status.headcount - (input.eventType === "sampling" ? 0 : input.fishCount), revenue };
+}
+
+export async function listStockings(farmId: number, pondId: number, limit: number) {
+  const db = await requireDb();
+  await requirePond(db, farmId, pondId);
+  return db
+    .select()
+    .from(fishStockingRecords)
+    .where(eq(fishStockingRecords.pondId, pondId))
+    .orderBy(desc(fishStockingRecords.stockingDate))
+    .limit(limit);
+}
+
+export async function listHarvests(farmId: number, pondId: number, limit: number) {
+  const db = await requireDb();
+  await requirePond(db, farmId, pondId);
+  const rows = await db
+    .select({ event: fishStockEvents, species: fishStockingRecords.species })
+    .from(fishStockEvents)
+    .innerJoin(fishStockingRecords, eq(fishStockingRecords.id, fishStockEvents.stockingId))
+    .where(and(eq(fishStockEvents.pondId, pondId), eq(fishStockEvents.eventType, "harvest")))
+    .orderBy(desc(fishStockEvents.eventDate))
+    .limit(limit);
+  return rows.map(({ event, species }) => {
+    const totalWeightKg = num(event.totalWeightKg);
+    const salePricePerKg = num(event.salePricePerKg);
+    return {
+      ...event,
+      species,
+      revenue: totalWeightKg !== null && salePricePerKg !== null ? totalWeightKg * salePricePerKg : null,
+    };
+  });
+}
+
+/**
+ * Headcount, biomass, FCR, today's ration from the feeding table and the
+ * harvest projection for one stocking
+ */
+export async function getStockBiomass(farmId: number, stockingId: number, asOf: Date = new Date()) {
+  const db = await requireDb();
+  const { stocking } = await requireStocking(db, farmId, stockingId);
+  const { profile, temperatureC, status } = await loadStock(db, stocking, asOf);
+
+  const ration =
+    status.estimatedWeightG === null ? null : feedingRate(profile, status.estimatedWeightG, temperatureC);
+  return {
+    stockingId: stocking.id,
+    pondId: stocking.pondId,
+    temperatureC: Math.round(temperatureC * 10) / 10,
+    ...status,
+    feeding:
+      ration && status.biomassKg !== null
+        ? { ...ration, dailyFeedKg: Math.round(status.biomassKg * ration.ratePercent * 10) / 1000 }
+        : null,
+    projection: projectHarvest(status, temperatureC, num(stocking.targetWeightG), asOf),
+  };
+}
+
+// ============================================================================
+// FEEDING
+// ============================================================================
+
+export async function recordFeeding(input: {
+  farmId: number;
+  pondId: number;
+  feedingDate: Date;
+  feedType: string;
+  quantityKg: number;
+  cost?: number;
+  notes?: string;
+}) {
+  const db = await requireDb();
+  const pond = await requirePond(db, input.farmId, input.pondId);
+  const [header] = await db.insert(fishPondActivities).values({
+    pondId: pond.id,
+    activityType: "feeding",
+    activityDate: dateOnly(input.feedingDate),
+    feedAmount: input.quantityKg.toFixed(2),
+    feedType: input.feedType,
+    cost: decimal(input.cost, 2),
+    notes: input.notes ?? null,
+  });
+  return { id: header.insertId };
+}
+
+/**
+ * Feed given over a period by feed type and cost, against what the feeding
+ * tables call for today for the fish in the pond
+ */
+export async function getFeedingSummary(farmId: number, pondId: number, range: { from: Date; to: Date }) {
+  const db = await requireDb();
+  await requirePond(db, farmId, pondId);
+  const rows = await db
+    .select()
+    .from(fishPondActivities)
+    .where(
+      and(
+        eq(fishPondActivities.pondId, pondId),
+        eq(fishPondActivities.activityType, "feeding"),
+        gte(fishPondActivities.activityDate, dateOnly(range.from)),
+        lte(fishPondActivities.activityDate, dateOnly(range.to))
+      )
+    );
+
+  const feedTypes: Record<string, { quantityKg: number; cost: number }> = {};
+  let totalFeedKg = 0;
+  let totalCost = 0;
+  for (const row of rows) {
+    const quantityKg = num(row.feedAmount) ?? 0;
+    const cost = num(row.cost) ?? 0;
+    const type = row.feedType ?? "unspecified";
+    feedTypes[type] ??= { quantityKg: 0, cost: 0 };
+    feedTypes[type].quantityKg += quantityKg;
+    feedTypes[type].cost += cost;
+    totalFeedKg += quantityKg;
+    totalCost += cost;
+  }
+
+  const days = Math.max(1, Math.round((dateOnly(range.to).getTime() - dateOnly(range.from).getTime()) / DAY_MS) + 1);
+  const stocks = await Promise.all(
+    (await activeStockings(db, pondId)).map(stocking => getStockBiomass(farmId, stocking.id))
+  );
+  return {
+    pondId,
+    totalFeedKg: Math.round(totalFeedKg * 100) / 100,
+    totalCost: Math.round(totalCost * 100) / 100,
+    averageDailyFeedKg: Math.round((totalFeedKg / days) * 100) / 100,
+    averageDailyCost: Math.round((totalCost / days) * 100) / 100,
+    costPerKgFeed: totalFeedKg > 0 ? Math.round((totalCost / totalFeedKg) * 100) / 100 : null,
+    feedTypes,
+    recommendedDailyFeedKg: Math.round(stocks.reduce((sum, stock) => sum + (stock.feeding?.dailyFeedKg ?? 0), 0) * 100) / 100,
+    stockings: stocks.map(stock => ({
+      stockingId: stock.stockingId,
+      species: stock.species,
+      headcount: stock.headcount,
+      estimatedWeightG: stock.estimatedWeightG,
+      feeding: stock.feeding,
+    })),
+  };
+}
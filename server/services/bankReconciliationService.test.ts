@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { bankTransactions, invoices } from "../../drizzle/schema";
+
+vi.mock("../db", async importOriginal => {
+  const actual = await importOriginal<typeof import("../db")>();
+  return { ...actual, getDb: vi.fn() };
+});
+vi.mock("./ledgerService", async importOriginal => {
+  const actual = await importOriginal<typeof import("./ledgerService")>();
+  return { ...actual, recordInLedger: vi.fn() };
+});
+
+import { getDb } from "../db";
+import { recordInLedger } from "./ledgerService";
+import { memoryDb, type MemoryTables } from "./memoryDb.testing";
+import {
+  AUTO_MATCH_SCORE,
+  findDuplicateGroups,
+  findRule,
+  matchTransaction,
+  merchantKey,
+  normalizeDescription,
+  pickAutoMatches,
+  rankCandidates,
+  scoreMatch,
+  textSimilarity,
+  unmatchTransaction,
+  type MatchCandidate,
+} from "./bankReconciliationService";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("description normalization", () => {
+  it("drops digits, punctuation and banking noise words", () => {
+    expect(normalizeDescription("POS 4411 Farm-Feed Co. ACCRA")).toBe("FARM FEED CO ACCRA");
+    expect(merchantKey("MOMO PAYMENT TO KOFI MENSAH 0244123456 REF 88")).toBe("KOFI MENSAH");
+    expect(merchantKey("1234 //")).toBeNull();
+  });
+
+  it("scores similar narratives close to 1", () => {
+    expect(textSimilarity("FARM FEED CO", "Farm Feed Co.")).toBe(1);
+    expect(textSimilarity("FARM FEED CO ACCRA", "FARM FEED CO")).toBeGreaterThan(0.75);
+    expect(textSimilarity("FARM FEED CO", "VET CLINIC")).toBeLessThan(0.3);
+  });
+});
+
+describe("scoreMatch", () => {
+  const txn = { id: 1, amount: -250, date: day("2026-03-05"), description: "FARM FEED CO INV-204" };
+  const expense: MatchCandidate = { type: "expense", id: 10, amount: -250, date: day("2026-03-05"), party: "Farm Feed Co" };
+
+  it("requires the same amount and direction", () => {
+    expect(scoreMatch(txn, { ...expense, amount: -249 })).toBeNull();
+    expect(scoreMatch(txn, { ...expense, type: "revenue", amount: 250 })).toBeNull();
+  });
+
+  it("falls off with distance and stops at the window", () => {
+    const sameDay = scoreMatch(txn, expense)!;
+    const later = scoreMatch(txn, { ...expense, date: day("2026-03-09") })!;
+    expect(sameDay).toBeGreaterThan(later);
+    expect(scoreMatch(txn, { ...expense, date: day("2026-03-20") })).toBeNull();
+  });
+
+  it("rewards a reference found in the narrative", () => {
+    const withReference = scoreMatch(txn, { ...expense, date: day("2026-03-08"), reference: "INV 204" })!;
+    const without = scoreMatch(txn, { ...expense, date: day("2026-03-08") })!;
+    expect(withReference - without).toBeCloseTo(0.2);
+    expect(withReference).toBeGreaterThanOrEqual(AUTO_MATCH_SCORE);
+  });
+
+  it("ranks the best candidate first", () => {
+    const ranked = rankCandidates(txn, [{ ...expense, id: 11, date: day("2026-03-02"), party: null }, expense]);
+    expect(ranked.map(match => match.candidate.id)).toEqual([10, 11]);
+  });
+});
+
+describe("pickAutoMatches", () => {
+  it("assigns each record to at most one line", () => {
+    const lines = [
+      { id: 1, amount: -100, date: day("2026-03-05"), description: "AGRO SUPPLIES" },
+      { id: 2, amount: -100, date: day("2026-03-06"), description: "AGRO SUPPLIES" },
+    ];
+    const candidates: MatchCandidate[] = [{ type: "expense", id: 7, amount: -100, date: day("2026-03-05"), party: "Agro Supplies" }];
+    const picked = pickAutoMatches(lines, candidates);
+    expect(picked).toHaveLength(1);
+    expect(picked[0]).toMatchObject({ transactionId: 1, candidate: { id: 7 } });
+  });
+
+  it("leaves ambiguous lines for manual review", () => {
+    const line = { id: 1, amount: 50, date: day("2026-03-05"), description: "DEPOSIT" };
+    const candidates: MatchCandidate[] = [
+      { type: "revenue", id: 1, amount: 50, date: day("2026-03-05") },
+      { type: "revenue", id: 2, amount: 50, date: day("2026-03-05") },
+    ];
+    expect(pickAutoMatches([line], candidates)).toEqual([]);
+  });
+});
+
+describe("findRule", () => {
+  const rules = [
+    { id: 1, pattern: "FARM FEED", direction: "out" as const, category: "feed", source: "learned" as const, isActive: true },
+    { id: 2, pattern: "FARM FEED CO", direction: "any" as const, category: "supplies", source: "manual" as const, isActive: true },
+    { id: 3, pattern: "KOFI", direction: "in" as const, category: "crop_sale", source: "learned" as const, isActive: false },
+  ];
+
+  it("prefers the longest matching pattern", () => {
+    expect(findRule(rules, { amount: -20, description: "POS FARM FEED CO ACCRA" })?.id).toBe(2);
+    expect(findRule(rules, { amount: -20, description: "FARM FEED DEPOT" })?.id).toBe(1);
+  });
+
+  it("respects direction, whole words and inactive rules", () => {
+    expect(findRule(rules, { amount: 20, description: "FARM FEED DEPOT" })).toBeNull();
+    expect(findRule(rules, { amount: -20, description: "FARM FEEDER" })).toBeNull();
+    expect(findRule(rules, { amount: 20, description: "FROM KOFI" })).toBeNull();
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups the same payment imported twice with slightly different dates and text", () => {
+    const groups = findDuplicateGroups([
+      { id: 1, bankAccountId: 1, amount: -250, date: day("2026-03-05"), description: "FARM FEED CO ACCRA" },
+      { id: 5, bankAccountId: 1, amount: -250, date: day("2026-03-06"), description: "Farm Feed Co" },
+      { id: 6, bankAccountId: 1, amount: -250, date: day("2026-03-20"), description: "Farm Feed Co" },
+      { id: 7, bankAccountId: 1, amount: -30, date: day("2026-03-05"), description: "FARM FEED CO ACCRA" },
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ primaryId: 1, transactionIds: [1, 5] });
+    expect(groups[0].similarity).toBeGreaterThan(0.75);
+  });
+
+  it("keeps lines with different bank ids on one account apart", () => {
+    const groups = findDuplicateGroups([
+      { id: 1, bankAccountId: 1, amount: -0.5, date: day("2026-03-05"), description: "MOMO FEE", externalId: "A" },
+      { id: 2, bankAccountId: 1, amount: -0.5, date: day("2026-03-05"), description: "MOMO FEE", externalId: "B" },
+    ]);
+    expect(groups).toEqual([]);
+  });
+});
+
+describe("matching part payments to an invoice", () => {
+  const line = (id: number, amount: string, date: string) => ({
+    id,
+    farmId: 1,
+    amount,
+    transactionDate: day(date),
+    description: "Transfer from Agro Ltd",
+    counterparty: "Agro Ltd",
+    status: "unmatched",
+    matchedType: null,
+    matchedId: null,
+  });
+  let tables: MemoryTables;
+  const invoice = () => tables.get(invoices)![0];
+
+  beforeEach(() => {
+    tables = new Map<unknown, Array<Record<string, any>>>([
+      [
+        invoices,
+        [{ id: 9, farmId: 1, invoiceType: "revenue", totalAmount: "500.00", paidAmount: "0.00", paymentStatus: "sent", dueDate: null, paidAt: null }],
+      ],
+      [bankTransactions, [line(1, "200.00", "2026-03-04"), line(2, "300.00", "2026-03-09"), line(3, "50.00", "2026-03-10")]],
+    ]);
+    vi.mocked(getDb).mockResolvedValue(memoryDb(tables) as any);
+    vi.mocked(recordInLedger).mockClear();
+  });
+
+  it("adds up several lines and refuses to pay past the total", async () => {
+    await matchTransaction(1, 1, "invoice", 9, 4);
+    expect(invoice()).toMatchObject({ paidAmount: "200.00", paymentStatus: "partial", paidAt: day("2026-03-04") });
+
+    await matchTransaction(1, 2, "invoice", 9, 4);
+    expect(invoice()).toMatchObject({ paidAmount: "500.00", paymentStatus: "paid", paidAt: day("2026-03-09") });
+
+    await expect(matchTransaction(1, 3, "invoice", 9, 4)).rejects.toThrow("only has 0.00 left to pay");
+    expect(recordInLedger).toHaveBeenCalledWith("invoice", 9);
+  });
+
+  it("takes a payment back when its line is unmatched, without double counting a re-match", async () => {
+    await matchTransaction(1, 1, "invoice", 9, 4);
+    await matchTransaction(1, 2, "invoice", 9, 4);
+
+    await unmatchTransaction(1, 2);
+    expect(invoice()).toMatchObject({ paidAmount: "200.00", paymentStatus: "partial", paidAt: day("2026-03-04") });
+
+    await matchTransaction(1, 2, "invoice", 9, 4);
+    expect(invoice()).toMatchObject({ paidAmount: "500.00", paymentStatus: "paid" });
+
+    await unmatchTransaction(1, 1);
+    await unmatchTransaction(1, 2);
+    expect(invoice()).toMatchObject({ paidAmount: "0.00", paymentStatus: "sent", paidAt: null });
+  });
+});
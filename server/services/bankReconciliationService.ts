@@ -0,0 +1,840 @@
+import { and, desc, eq, gte, inArray, isNull, lte, notInArray, or, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  bankAccounts,
+  bankCategorizationRules,
+  bankStatementImports,
+  bankTransactions,
+  expenses,
+  invoices,
+  revenue,
+  type BankCategorizationRule,
+  type BankTransaction,
+} from "../../drizzle/schema";
+import {
+  fingerprintTransactions,
+  parseStatement,
+  type CsvColumnMapping,
+  type StatementFormat,
+} from "./bankStatementParsers";
+import { recordInLedger } from "./ledgerService";
+
+/**
+ * Bank reconciliation
+ * Imported statement lines are matched to the books (expenses, revenue,
+ * invoices) on exact amount, a date window and any invoice number found in
+ * the narrative. Unambiguous strong matches are applied automatically; the
+ * rest are offered as suggestions. Manual matches and categorizations teach
+ * a rule keyed on the merchant part of the description, which categorizes
+ * the same merchant on later imports.
+ */
+
+export type MatchTarget = "expense" | "revenue" | "invoice";
+
+export interface MatchableTransaction {
+  id: number;
+  amount: number;
+  date: Date;
+  description: string;
+  reference?: string | null;
+  counterparty?: string | null;
+}
+
+export interface MatchCandidate {
+  type: MatchTarget;
+  id: number;
+  amount: number; // signed the way it shows on the statement: money out is negative
+  date: Date;
+  reference?: string | null;
+  party?: string | null;
+  description?: string | null;
+}
+
+export interface ScoredMatch {
+  transactionId: number;
+  candidate: MatchCandidate;
+  score: number;
+}
+
+export const DEFAULT_DATE_WINDOW_DAYS = 7;
+export const AUTO_MATCH_SCORE = 0.7;
+export const SUGGESTION_SCORE = 0.4;
+
+export class ReconciliationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+// Words that carry no information about who was paid
+const NOISE_WORDS = new Set([
+  "POS", "PURCHASE", "PAYMENT", "PMT", "TRANSFER", "TRF", "TO", "FROM", "REF", "MOMO", "MOBILE", "MONEY",
+  "DEBIT", "CREDIT", "CARD", "VISA", "ACH", "THE", "FOR", "AND", "VIA", "ON", "AT",
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+export function normalizeDescription(text: string | null | undefined): string {
+  return (text ?? "")
+    .toUpperCase()
+    .replace(/[^A-Z ]+/g, " ")
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word))
+    .join(" ");
+}
+
+/** The first few meaningful words, e.g. "POS 4411 FARM FEED CO ACCRA" -> "FARM FEED CO" */
+export function merchantKey(description: string | null | undefined): string | null {
+  const words = normalizeDescription(description).split(" ").filter(Boolean);
+  return words.length ? words.slice(0, 3).join(" ") : null;
+}
+
+/** Dice coefficient over character bigrams of the normalized text, 0..1 */
+export function textSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeDescription(a).replace(/ /g, "");
+  const right = normalizeDescription(b).replace(/ /g, "");
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const gram = left.slice(i, i + 2);
+    bigrams.set(gram, (bigrams.get(gram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const gram = right.slice(i, i + 2);
+    const count = bigrams.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      bigrams.set(gram, count - 1);
+    }
+  }
+  return round3((2 * overlap) / (left.length - 1 + right.length - 1));
+}
+
+const alphanumeric = (text: string | null | undefined) => (text ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/**
+ * 0..1 confidence that a statement line is the given book record, or null
+ * when it cannot be (different amount or direction, outside the window).
+ * Amount agreement is required; date proximity, a reference hit and the
+ * payee name make up the rest.
+ */
+export function scoreMatch(
+  txn: MatchableTransaction,
+  candidate: MatchCandidate,
+  dateWindowDays = DEFAULT_DATE_WINDOW_DAYS
+): number | null {
+  if (Math.abs(txn.amount - candidate.amount) > 0.005) return null;
+  const days = Math.abs(Math.round((txn.date.getTime() - candidate.date.getTime()) / DAY_MS));
+  if (days > dateWindowDays) return null;
+
+  const dateScore = 1 - days / (dateWindowDays + 1);
+  const reference = alphanumeric(candidate.reference);
+  const narrative = alphanumeric(`${txn.reference ?? ""} ${txn.description}`);
+  const referenceScore = reference.length >= 3 && narrative.includes(reference) ? 1 : 0;
+  const nameScore = Math.max(
+    textSimilarity(txn.counterparty ?? txn.description, candidate.party),
+    textSimilarity(txn.description, candidate.description)
+  );
+
+  return round3(0.4 + 0.3 * dateScore + 0.2 * referenceScore + 0.1 * nameScore);
+}
+
+export function rankCandidates(
+  txn: MatchableTransaction,
+  candidates: MatchCandidate[],
+  dateWindowDays = DEFAULT_DATE_WINDOW_DAYS
+): ScoredMatch[] {
+  return candidates
+    .map(candidate => ({ transactionId: txn.id, candidate, score: scoreMatch(txn, candidate, dateWindowDays) }))
+    .filter((match): match is ScoredMatch => match.score !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * One-to-one assignment for automatic matching. A line whose two best
+ * candidates score within 0.05 of each other is left for a person to pick.
+ */
+export function pickAutoMatches(
+  transactions: MatchableTransaction[],
+  candidates: MatchCandidate[],
+  options: { threshold?: number; dateWindowDays?: number } = {}
+): ScoredMatch[] {
+  const threshold = options.threshold ?? AUTO_MATCH_SCORE;
+  const pairs: ScoredMatch[] = [];
+  for (const txn of transactions) {
+    const ranked = rankCandidates(txn, candidates, options.dateWindowDays).filter(match => match.score >= threshold);
+    if (ranked.length > 1 && ranked[0].score - ranked[1].score < 0.05) continue;
+    pairs.push(...ranked);
+  }
+  pairs.sort((a, b) => b.score - a.score);
+
+  const usedTransactions = new Set<number>();
+  const usedCandidates = new Set<string>();
+  const picked: ScoredMatch[] = [];
+  for (const pair of pairs) {
+    const key = `${pair.candidate.type}:${pair.candidate.id}`;
+    if (usedTransactions.has(pair.transactionId) || usedCandidates.has(key)) continue;
+    usedTransactions.add(pair.transactionId);
+    usedCandidates.add(key);
+    picked.push(pair);
+  }
+  return picked;
+}
+
+type RuleLike = Pick<BankCategorizationRule, "id" | "pattern" | "direction" | "category" | "source" | "isActive">;
+
+/** Most specific active rule for a line: longest pattern, manual beats learned */
+export function findRule<R extends RuleLike>(rules: R[], txn: Pick<MatchableTransaction, "amount" | "description" | "counterparty">): R | null {
+  const text = ` ${normalizeDescription(`${txn.description} ${txn.counterparty ?? ""}`)} `;
+  const direction = txn.amount < 0 ? "out" : "in";
+  let best: R | null = null;
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+    if (rule.direction !== "any" && rule.direction !== direction) continue;
+    if (!text.includes(` ${rule.pattern} `)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.source === "manual" && best.source === "learned")
+    ) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+export interface DuplicateCandidate extends MatchableTransaction {
+  bankAccountId: number;
+  externalId?: string | null;
+}
+
+export interface DuplicateGroup {
+  primaryId: number;
+  transactionIds: number[];
+  similarity: number;
+}
+
+/**
+ * Fuzzy duplicate detection across imports: same amount, dates a few days
+ * apart (banks and exports disagree on posting vs value date) and similar
+ * narrative. Lines from one account with different bank ids are distinct.
+ */
+export function findDuplicateGroups(
+  transactions: DuplicateCandidate[],
+  options: { dateWindowDays?: number; minSimilarity?: number } = {}
+): DuplicateGroup[] {
+  const window = options.dateWindowDays ?? 3;
+  const minSimilarity = options.minSimilarity ?? 0.75;
+  const sorted = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const parent = new Map<number, number>(sorted.map(txn => [txn.id, txn.id]));
+  const find = (id: number): number => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const best = new Map<string, number>();
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const a = sorted[i];
+      const b = sorted[j];
+      if ((b.date.getTime() - a.date.getTime()) / DAY_MS > window) break;
+      if (Math.abs(a.amount - b.amount) > 0.005) continue;
+      if (a.bankAccountId === b.bankAccountId && a.externalId && b.externalId && a.externalId !== b.externalId) continue;
+      const similarity = textSimilarity(a.description, b.description);
+      if (similarity < minSimilarity) continue;
+      const rootA = find(a.id);
+      const rootB = find(b.id);
+      if (rootA !== rootB) parent.set(Math.max(rootA, rootB), Math.min(rootA, rootB));
+      best.set(`${a.id}:${b.id}`, similarity);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const txn of sorted) {
+    const root = find(txn.id);
+    groups.set(root, [...(groups.get(root) ?? []), txn.id]);
+  }
+  return Array.from(groups.values())
+    .filter(ids => ids.length > 1)
+    .map(ids => {
+      const sortedIds = [...ids].sort((a, b) => a - b);
+      const scores = Array.from(best.entries())
+        .filter(([key]) => key.split(":").every(id => sortedIds.includes(Number(id))))
+        .map(([, score]) => score);
+      return { primaryId: sortedIds[0], transactionIds: sortedIds, similarity: Math.max(...scores) };
+    })
+    .sort((a, b) => a.primaryId - b.primaryId);
+}
+
+// ----------------------------------------------------------------------------
+// Persistence
+// ----------------------------------------------------------------------------
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  return db;
+}
+
+function toMatchable(row: BankTransaction): DuplicateCandidate {
+  return {
+    id: row.id,
+    bankAccountId: row.bankAccountId,
+    amount: Number(row.amount),
+    date: new Date(row.transactionDate),
+    description: row.description,
+    reference: row.reference,
+    counterparty: row.counterparty,
+    externalId: row.externalId,
+  };
+}
+
+async function activeRules(db: Db, farmId: number) {
+  return db
+    .select()
+    .from(bankCategorizationRules)
+    .where(and(eq(bankCategorizationRules.farmId, farmId), eq(bankCategorizationRules.isActive, true)));
+}
+
+async function matchedIds(db: Db, farmId: number, type: MatchTarget) {
+  const rows = await db
+    .select({ id: bankTransactions.matchedId })
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.farmId, farmId), eq(bankTransactions.matchedType, type)));
+  return rows.map(row => row.id).filter((id): id is number => id !== null);
+}
+
+const OPEN_INVOICE_STATUSES = ["sent", "pending", "partial", "overdue"] as const;
+
+/** Book records in the date range that are not yet matched to a statement line */
+export async function loadMatchCandidates(farmId: number, from: Date, to: Date): Promise<MatchCandidate[]> {
+  const db = await requireDb();
+  const [matchedExpenses, matchedRevenue] = await Promise.all([
+    matchedIds(db, farmId, "expense"),
+    matchedIds(db, farmId, "revenue"),
+  ]);
+
+  const expenseRows = await db
+    .select()
+    .from(expenses)
+    .where(and(
+      eq(expenses.farmId, farmId),
+      gte(expenses.expenseDate, from),
+      lte(expenses.expenseDate, to),
+      matchedExpenses.length ? notInArray(expenses.id, matchedExpenses) : undefined
+    ));
+  const revenueRows = await db
+    .select()
+    .from(revenue)
+    .where(and(
+      eq(revenue.farmId, farmId),
+      gte(revenue.revenueDate, from),
+      lte(revenue.revenueDate, to),
+      matchedRevenue.length ? notInArray(revenue.id, matchedRevenue) : undefined
+    ));
+  // Invoices are often paid well after they are issued, so the due date counts too.
+  // Part-paid invoices stay candidates for what is still outstanding.
+  const invoiceRows = await db
+    .select()
+    .from(invoices)
+    .where(and(
+      eq(invoices.farmId, farmId),
+      inArray(invoices.paymentStatus, [...OPEN_INVOICE_STATUSES]),
+      lte(invoices.invoiceDate, to)
+    ));
+
+  return [
+    ...expenseRows.map(row => ({
+      type: "expense" as const,
+      id: row.id,
+      amount: -Number(row.amount),
+      date: new Date(row.paymentDate ?? row.expenseDate),
+      reference: row.invoiceNumber,
+      party: row.vendor,
+      description: row.description,
+    })),
+    ...revenueRows.map(row => ({
+      type: "revenue" as const,
+      id: row.id,
+      amount: Number(row.amount),
+      date: new Date(row.paymentDate ?? row.revenueDate),
+      reference: row.invoiceNumber,
+      party: row.buyer,
+      description: row.description,
+    })),
+    ...invoiceRows.map(row => {
+      const outstanding = Number(row.totalAmount) - Number(row.paidAmount ?? 0);
+      return {
+        type: "invoice" as const,
+        id: row.id,
+        amount: row.invoiceType === "expense" ? -outstanding : outstanding,
+        date: new Date(row.dueDate ?? row.invoiceDate),
+        reference: row.invoiceNumber,
+        party: row.vendorOrBuyer,
+        description: row.notes,
+      };
+    }),
+  ];
+}
+
+export interface ImportStatementParams {
+  farmId: number;
+  bankAccountId: number;
+  format: StatementFormat;
+  content: string;
+  mapping?: CsvColumnMapping;
+  fileName?: string;
+  importedBy?: number;
+}
+
+/**
+ * Parse and store a statement, categorize new lines from the farm's rules,
+ * then try to match them. Lines already imported are skipped.
+ */
+export async function importStatement(params: ImportStatementParams) {
+  const db = await requireDb();
+  const [account] = await db
+    .select()
+    .from(bankAccounts)
+    .where(and(eq(bankAccounts.id, params.bankAccountId), eq(bankAccounts.farmId, params.farmId)))
+    .limit(1);
+  if (!account) throw new ReconciliationError("Bank account not found");
+  if (!account.isActive) throw new ReconciliationError("Bank account is disconnected");
+
+  const statement = parseStatement(params.content, params.format, params.mapping);
+  if (!statement.transactions.length) {
+    throw new ReconciliationError(
+      statement.errors.length ? `No readable transactions (${statement.errors.length} rows failed)` : "Statement has no transactions"
+    );
+  }
+
+  const fingerprints = fingerprintTransactions(statement.transactions);
+  const rules = await activeRules(db, params.farmId);
+  const ruleHits = new Map<number, number>();
+
+  const [header] = await db.insert(bankStatementImports).values({
+    farmId: params.farmId,
+    bankAccountId: params.bankAccountId,
+    format: params.format,
+    fileName: params.fileName,
+    statementStart: statement.startDate,
+    statementEnd: statement.endDate,
+    openingBalance: statement.openingBalance?.toFixed(2),
+    closingBalance: statement.closingBalance?.toFixed(2),
+    errorCount: statement.errors.length,
+    importedBy: params.importedBy,
+  });
+  const importId = header.insertId;
+
+  const rows = statement.transactions.map((txn, index) => {
+    const rule = findRule(rules, txn);
+    if (rule) ruleHits.set(rule.id, (ruleHits.get(rule.id) ?? 0) + 1);
+    return {
+      farmId: params.farmId,
+      bankAccountId: params.bankAccountId,
+      importId,
+      transactionDate: txn.date,
+      amount: txn.amount.toFixed(2),
+      description: txn.description.slice(0, 500),
+      reference: txn.reference?.slice(0, 100),
+      counterparty: txn.counterparty?.slice(0, 255),
+      externalId: txn.externalId?.slice(0, 100),
+      fingerprint: fingerprints[index],
+      category: rule?.category,
+      ruleId: rule?.id,
+    };
+  });
+
+  const [inserted] = await db.insert(bankTransactions).ignore().values(rows);
+  const imported = inserted.affectedRows;
+  await db
+    .update(bankStatementImports)
+    .set({ importedCount: imported, skippedCount: rows.length - imported })
+    .where(eq(bankStatementImports.id, importId));
+  for (const [ruleId, hits] of Array.from(ruleHits.entries())) {
+    await db
+      .update(bankCategorizationRules)
+      .set({ hitCount: sql`${bankCategorizationRules.hitCount} + ${hits}` })
+      .where(eq(bankCategorizationRules.id, ruleId));
+  }
+
+  const matching = imported > 0 ? await autoMatchTransactions(params.farmId, { importId }) : { matched: 0 };
+  return {
+    importId,
+    imported,
+    skipped: rows.length - imported,
+    errors: statement.errors,
+    categorized: Array.from(ruleHits.values()).reduce((sum, hits) => sum + hits, 0),
+    matched: matching.matched,
+  };
+}
+
+/** Apply unambiguous strong matches to unmatched lines */
+export async function autoMatchTransactions(
+  farmId: number,
+  scope: { importId?: number; from?: Date; to?: Date; dateWindowDays?: number } = {}
+) {
+  const db = await requireDb();
+  const rows = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(
+      eq(bankTransactions.farmId, farmId),
+      eq(bankTransactions.status, "unmatched"),
+      scope.importId ? eq(bankTransactions.importId, scope.importId) : undefined,
+      scope.from ? gte(bankTransactions.transactionDate, scope.from) : undefined,
+      scope.to ? lte(bankTransactions.transactionDate, scope.to) : undefined
+    ));
+  if (!rows.length) return { matched: 0, unmatched: 0 };
+
+  const window = scope.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS;
+  const transactions = rows.map(toMatchable);
+  const times = transactions.map(txn => txn.date.getTime());
+  const candidates = await loadMatchCandidates(
+    farmId,
+    new Date(Math.min(...times) - window * DAY_MS),
+    new Date(Math.max(...times) + window * DAY_MS)
+  );
+  const picked = pickAutoMatches(transactions, candidates, { dateWindowDays: window });
+
+  let matched = 0;
+  for (const match of picked) {
+    const row = rows.find(candidate => candidate.id === match.transactionId)!;
+    if (await applyMatch(db, row, match.candidate.type, match.candidate.id, match.score)) matched++;
+  }
+  return { matched, unmatched: rows.length - matched };
+}
+
+export async function suggestMatches(farmId: number, transactionId: number, dateWindowDays = DEFAULT_DATE_WINDOW_DAYS) {
+  const db = await requireDb();
+  const [row] = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.id, transactionId), eq(bankTransactions.farmId, farmId)))
+    .limit(1);
+  if (!row) throw new ReconciliationError("Transaction not found");
+
+  const txn = toMatchable(row);
+  const candidates = await loadMatchCandidates(
+    farmId,
+    new Date(txn.date.getTime() - dateWindowDays * DAY_MS),
+    new Date(txn.date.getTime() + dateWindowDays * DAY_MS)
+  );
+  return rankCandidates(txn, candidates, dateWindowDays)
+    .filter(match => match.score >= SUGGESTION_SCORE)
+    .slice(0, 5);
+}
+
+// Mark the book record as settled by the bank line and let the ledger follow
+async function settleRecord(db: Db, row: BankTransaction, type: MatchTarget, id: number) {
+  const paymentDate = new Date(row.transactionDate);
+  if (type === "expense") {
+    const [header] = await db
+      .update(expenses)
+      .set({ paymentStatus: "paid", paymentDate })
+      .where(and(eq(expenses.id, id), sql`${expenses.paymentStatus} <> 'paid'`));
+    if (header.affectedRows) await recordInLedger("expense", id);
+  } else if (type === "revenue") {
+    const [header] = await db
+      .update(revenue)
+      .set({ paymentStatus: "paid", paymentDate })
+      .where(and(eq(revenue.id, id), sql`${revenue.paymentStatus} <> 'paid'`));
+    if (header.affectedRows) await recordInLedger("revenue", id);
+  } else {
+    await syncInvoicePayments(db, id);
+  }
+}
+
+// Statement lines currently matched to an invoice
+async function invoicePayments(db: Db, invoiceId: number) {
+  return db
+    .select({ amount: bankTransactions.amount, transactionDate: bankTransactions.transactionDate })
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.matchedType, "invoice"), eq(bankTransactions.matchedId, invoiceId)));
+}
+
+const paymentsTotal = (lines: Array<{ amount: string }>) => lines.reduce((sum, line) => sum + Math.abs(Number(line.amount)), 0);
+
+/**
+ * An invoice's paid amount is whatever its matched lines add up to, so
+ * matching several part payments adds them up and unmatching takes one back.
+ */
+async function syncInvoicePayments(db: Db, id: number, now: Date = new Date()) {
+  const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id)).limit(1);
+  if (!invoice) return;
+  const lines = await invoicePayments(db, id);
+  const total = Number(invoice.totalAmount);
+  const paidAmount = Math.min(total, paymentsTotal(lines));
+  const overdue = invoice.dueDate !== null && new Date(invoice.dueDate).getTime() < now.getTime();
+  const paidAt = lines.reduce<Date | null>((latest, line) => {
+    const date = new Date(line.transactionDate);
+    return !latest || date > latest ? date : latest;
+  }, null);
+  await db
+    .update(invoices)
+    .set({
+      paidAmount: paidAmount.toFixed(2),
+      paymentStatus: paidAmount >= total - 0.005 ? "paid" : paidAmount > 0 ? "partial" : overdue ? "overdue" : "sent",
+      paidAt,
+    })
+    .where(eq(invoices.id, id));
+  await recordInLedger("invoice", id);
+}
+
+async function applyMatch(db: Db, row: BankTransaction, type: MatchTarget, id: number, score: number | null, userId?: number) {
+  const [header] = await db
+    .update(bankTransactions)
+    .set({
+      status: "matched",
+      matchedType: type,
+      matchedId: id,
+      matchScore: score === null ? null : score.toFixed(3),
+      matchedBy: userId ?? null,
+      matchedAt: new Date(),
+    })
+    .where(and(eq(bankTransactions.id, row.id), eq(bankTransactions.status, "unmatched")));
+  if (header.affectedRows === 0) return false;
+  await settleRecord(db, row, type, id);
+  return true;
+}
+
+async function loadTarget(db: Db, farmId: number, type: MatchTarget, id: number) {
+  if (type === "expense") {
+    const [row] = await db.select().from(expenses).where(and(eq(expenses.id, id), eq(expenses.farmId, farmId))).limit(1);
+    return row ? { amount: -Number(row.amount), total: Number(row.amount), category: row.expenseType as string } : null;
+  }
+  if (type === "revenue") {
+    const [row] = await db.select().from(revenue).where(and(eq(revenue.id, id), eq(revenue.farmId, farmId))).limit(1);
+    return row ? { amount: Number(row.amount), total: Number(row.amount), category: row.revenueType as string } : null;
+  }
+  const [row] = await db.select().from(invoices).where(and(eq(invoices.id, id), eq(invoices.farmId, farmId))).limit(1);
+  return row ? { amount: row.invoiceType === "expense" ? -1 : 1, total: Number(row.totalAmount), category: null } : null;
+}
+
+/** Record a manual match and learn a categorization rule from it */
+export async function matchTransaction(farmId: number, transactionId: number, type: MatchTarget, targetId: number, userId: number) {
+  const db = await requireDb();
+  const [row] = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.id, transactionId), eq(bankTransactions.farmId, farmId)))
+    .limit(1);
+  if (!row) throw new ReconciliationError("Transaction not found");
+  if (row.status !== "unmatched") throw new ReconciliationError(`Transaction is already ${row.status}`);
+
+  const target = await loadTarget(db, farmId, type, targetId);
+  if (!target) throw new ReconciliationError(`${type} ${targetId} not found`);
+  if (Math.sign(target.amount) !== Math.sign(Number(row.amount))) {
+    throw new ReconciliationError(`Money ${Number(row.amount) < 0 ? "out" : "in"} cannot be matched to this ${type}`);
+  }
+  if (type === "invoice") {
+    // Several part payments can settle one invoice, up to its total
+    const outstanding = target.total - paymentsTotal(await invoicePayments(db, targetId));
+    if (Math.abs(Number(row.amount)) > outstanding + 0.005) {
+      throw new ReconciliationError(`This invoice only has ${Math.max(0, outstanding).toFixed(2)} left to pay`);
+    }
+  } else {
+    const [taken] = await db
+      .select({ id: bankTransactions.id })
+      .from(bankTransactions)
+      .where(and(eq(bankTransactions.matchedType, type), eq(bankTransactions.matchedId, targetId)))
+      .limit(1);
+    if (taken) throw new ReconciliationError(`This ${type} is already matched to transaction ${taken.id}`);
+  }
+
+  if (!(await applyMatch(db, row, type, targetId, null, userId))) {
+    throw new ReconciliationError("Transaction was matched by someone else");
+  }
+  if (target.category) {
+    await db.update(bankTransactions).set({ category: target.category }).where(eq(bankTransactions.id, row.id));
+    await learnRule(db, row, target.category, userId);
+  }
+  return { success: true };
+}
+
+/**
+ * Undo a match. An expense or revenue record keeps its payment status; the
+ * money did move, it just was not this line. An invoice's paid amount is
+ * recomputed from the lines still matched to it.
+ */
+export async function unmatchTransaction(farmId: number, transactionId: number) {
+  const db = await requireDb();
+  const [row] = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.id, transactionId), eq(bankTransactions.farmId, farmId)))
+    .limit(1);
+  const [header] = await db
+    .update(bankTransactions)
+    .set({ status: "unmatched", matchedType: null, matchedId: null, matchScore: null, matchedBy: null, matchedAt: null })
+    .where(and(
+      eq(bankTransactions.id, transactionId),
+      eq(bankTransactions.farmId, farmId),
+      eq(bankTransactions.status, "matched")
+    ));
+  if (header.affectedRows === 0) throw new ReconciliationError("Transaction is not matched");
+  if (row?.matchedType === "invoice" && row.matchedId !== null) await syncInvoicePayments(db, row.matchedId);
+  return { success: true };
+}
+
+export async function categorizeTransaction(farmId: number, transactionId: number, category: string, userId: number, learn = true) {
+  const db = await requireDb();
+  const [row] = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.id, transactionId), eq(bankTransactions.farmId, farmId)))
+    .limit(1);
+  if (!row) throw new ReconciliationError("Transaction not found");
+
+  await db.update(bankTransactions).set({ category, ruleId: null }).where(eq(bankTransactions.id, row.id));
+  const rule = learn ? await learnRule(db, row, category, userId) : null;
+  return { success: true, learnedPattern: rule };
+}
+
+// One rule per merchant and direction; a later correction overwrites the category
+async function learnRule(db: Db, row: BankTransaction, category: string, userId: number) {
+  const pattern = merchantKey(`${row.counterparty ?? ""} ${row.description}`);
+  if (!pattern) return null;
+  await db
+    .insert(bankCategorizationRules)
+    .values({
+      farmId: row.farmId,
+      pattern,
+      direction: Number(row.amount) < 0 ? "out" : "in",
+      category,
+      source: "learned",
+      createdBy: userId,
+    })
+    .onDuplicateKeyUpdate({ set: { category, isActive: true } });
+  return pattern;
+}
+
+/** Re-run the farm's rules over uncategorized lines */
+export async function applyRulesToUncategorized(farmId: number, transactionIds?: number[]) {
+  const db = await requireDb();
+  const rules = await activeRules(db, farmId);
+  if (!rules.length) return { categorized: 0 };
+
+  const rows = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(
+      eq(bankTransactions.farmId, farmId),
+      isNull(bankTransactions.category),
+      transactionIds?.length ? inArray(bankTransactions.id, transactionIds) : undefined
+    ));
+  let categorized = 0;
+  for (const row of rows) {
+    const rule = findRule(rules, toMatchable(row));
+    if (!rule) continue;
+    await db.update(bankTransactions).set({ category: rule.category, ruleId: rule.id }).where(eq(bankTransactions.id, row.id));
+    await db
+      .update(bankCategorizationRules)
+      .set({ hitCount: sql`${bankCategorizationRules.hitCount} + 1` })
+      .where(eq(bankCategorizationRules.id, rule.id));
+    categorized++;
+  }
+  return { categorized };
+}
+
+export async function detectDuplicates(farmId: number, from: Date, to: Date, minSimilarity?: number) {
+  const db = await requireDb();
+  const rows = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(
+      eq(bankTransactions.farmId, farmId),
+      gte(bankTransactions.transactionDate, from),
+      lte(bankTransactions.transactionDate, to),
+      or(eq(bankTransactions.status, "unmatched"), eq(bankTransactions.status, "matched"))
+    ));
+  const byId = new Map(rows.map(row => [row.id, row]));
+  return findDuplicateGroups(rows.map(toMatchable), { minSimilarity }).map(group => ({
+    ...group,
+    transactions: group.transactionIds.map(id => byId.get(id)!),
+  }));
+}
+
+/** Keep the primary line and mark the others as duplicates of it */
+export async function markDuplicates(farmId: number, primaryId: number, duplicateIds: number[]) {
+  const db = await requireDb();
+  const ids = duplicateIds.filter(id => id !== primaryId);
+  if (!ids.length) throw new ReconciliationError("No duplicates given");
+
+  const rows = await db
+    .select()
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.farmId, farmId), inArray(bankTransactions.id, [primaryId, ...ids])));
+  if (rows.length !== ids.length + 1) throw new ReconciliationError("Transaction not found");
+  const matched = rows.filter(row => ids.includes(row.id) && row.status === "matched");
+  if (matched.length) {
+    throw new ReconciliationError(`Unmatch transaction ${matched[0].id} before marking it as a duplicate`);
+  }
+
+  const [header] = await db
+    .update(bankTransactions)
+    .set({ status: "duplicate", duplicateOfId: primaryId })
+    .where(and(eq(bankTransactions.farmId, farmId), inArray(bankTransactions.id, ids)));
+  return { merged: header.affectedRows };
+}
+
+export async function getReconciliationSummary(farmId: number, from: Date, to: Date) {
+  const db = await requireDb();
+  const totals = await db
+    .select({
+      status: bankTransactions.status,
+      count: sql<number>`count(*)`,
+      amount: sql<string>`coalesce(sum(${bankTransactions.amount}), 0)`,
+    })
+    .from(bankTransactions)
+    .where(and(
+      eq(bankTransactions.farmId, farmId),
+      gte(bankTransactions.transactionDate, from),
+      lte(bankTransactions.transactionDate, to)
+    ))
+    .groupBy(bankTransactions.status);
+  const byStatus = (status: BankTransaction["status"]) => totals.find(row => row.status === status);
+
+  // Closing balance per account from the latest statement ending in the period
+  const statements = await db
+    .select()
+    .from(bankStatementImports)
+    .where(and(
+      eq(bankStatementImports.farmId, farmId),
+      gte(bankStatementImports.statementEnd, from),
+      lte(bankStatementImports.statementEnd, to)
+    ))
+    .orderBy(desc(bankStatementImports.statementEnd), desc(bankStatementImports.id));
+  const balances = new Map<number, { bankAccountId: number; closingBalance: number | null; statementEnd: Date | null }>();
+  for (const statement of statements) {
+    if (balances.has(statement.bankAccountId)) continue;
+    balances.set(statement.bankAccountId, {
+      bankAccountId: statement.bankAccountId,
+      closingBalance: statement.closingBalance === null ? null : Number(statement.closingBalance),
+      statementEnd: statement.statementEnd,
+    });
+  }
+
+  const unmatched = byStatus("unmatched");
+  return {
+    transactionCount: totals.reduce((sum, row) => sum + Number(row.count), 0),
+    matchedCount: Number(byStatus("matched")?.count ?? 0),
+    unmatchedCount: Number(unmatched?.count ?? 0),
+    ignoredCount: Number(byStatus("ignored")?.count ?? 0) + Number(byStatus("duplicate")?.count ?? 0),
+    unmatchedAmount: Math.round(Number(unmatched?.amount ?? 0) * 100) / 100,
+    statementBalances: Array.from(balances.values()),
+    reconciled: Number(unmatched?.count ?? 0) === 0,
+  };
+}
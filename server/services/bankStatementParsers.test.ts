@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectStatementFormat,
+  fingerprintTransactions,
+  parseAmount,
+  parseCsvStatement,
+  parseMt940,
+  parseOfx,
+  parseStatementDate,
+  StatementParseError,
+} from "./bankStatementParsers";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("parseAmount", () => {
+  it("reads the formats banks export", () => {
+    expect(parseAmount("1,234.50")).toBe(1234.5);
+    expect(parseAmount("-45.10")).toBe(-45.1);
+    expect(parseAmount("(45.00)")).toBe(-45);
+    expect(parseAmount("45.00-")).toBe(-45);
+    expect(parseAmount("GHS 12.00 DR")).toBe(-12);
+    expect(parseAmount("12.00 CR")).toBe(12);
+    expect(parseAmount("1.234,56", true)).toBe(1234.56);
+  });
+
+  it("returns null for blanks and garbage", () => {
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount(undefined)).toBeNull();
+    expect(parseAmount("n/a")).toBeNull();
+  });
+});
+
+describe("parseStatementDate", () => {
+  it("honours the configured day/month order and rejects impossible dates", () => {
+    expect(parseStatementDate("03/04/2026", "DD/MM/YYYY")).toEqual(day("2026-04-03"));
+    expect(parseStatementDate("03/04/2026", "MM/DD/YYYY")).toEqual(day("2026-03-04"));
+    expect(parseStatementDate("2026-02-30")).toBeNull();
+  });
+});
+
+describe("parseOfx", () => {
+  const sgml = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>GHS
+<BANKACCTFROM><BANKID>030100<ACCTID>1234567890<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260301<DTEND>20260331
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260305120000[0:GMT]
+<TRNAMT>-250.00
+<FITID>2026030501
+<NAME>FARM FEED CO
+<MEMO>Layer mash INV-204
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260307
+<TRNAMT>1200.50
+<FITID>2026030702
+<NAME>Agro &amp; Sons
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<TRNAMT>-5.00
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>8450.50<DTASOF>20260331</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+  it("parses SGML statements", () => {
+    const statement = parseOfx(sgml);
+    expect(statement.accountNumber).toBe("1234567890");
+    expect(statement.currency).toBe("GHS");
+    expect(statement.closingBalance).toBe(8450.5);
+    expect(statement.startDate).toEqual(day("2026-03-01"));
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toEqual({
+      date: day("2026-03-05"),
+      amount: -250,
+      description: "FARM FEED CO - Layer mash INV-204",
+      reference: undefined,
+      counterparty: "FARM FEED CO",
+      externalId: "2026030501",
+    });
+    expect(statement.transactions[1].counterparty).toBe("Agro & Sons");
+    expect(statement.errors).toEqual([{ row: 3, error: "Missing or invalid DTPOSTED" }]);
+  });
+
+  it("parses XML statements", () => {
+    const xml = `<?xml version="1.0"?><?OFX OFXHEADER="200"?><OFX><STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260310</DTPOSTED><TRNAMT>-80.25</TRNAMT><FITID>X1</FITID><NAME>Vet Clinic</NAME></STMTTRN></OFX>`;
+    const statement = parseOfx(xml);
+    expect(statement.transactions).toEqual([
+      { date: day("2026-03-10"), amount: -80.25, description: "Vet Clinic", reference: undefined, counterparty: "Vet Clinic", externalId: "X1" },
+    ]);
+  });
+
+  it("rejects files that are not OFX", () => {
+    expect(() => parseOfx("date,amount\n")).toThrow(StatementParseError);
+  });
+});
+
+describe("parseCsvStatement", () => {
+  it("maps debit/credit columns from a mobile-money export", () => {
+    const csv = [
+      "Date,Details,Ref,Debit,Credit,Balance",
+      '05/03/2026,Payment to FARM FEED CO,MP1,"1,250.00",,3750.00',
+      "06/03/2026,Received from KOFI MENSAH,MP2,,300.00,4050.00",
+      "07/03/2026,Broken row,MP3,,,4050.00",
+    ].join("\n");
+    const statement = parseCsvStatement(csv, {
+      date: "Date",
+      description: "Details",
+      reference: "Ref",
+      debit: "Debit",
+      credit: "Credit",
+      balance: "Balance",
+      dateFormat: "DD/MM/YYYY",
+    });
+    expect(statement.transactions.map(txn => txn.amount)).toEqual([-1250, 300]);
+    expect(statement.transactions[0].reference).toBe("MP1");
+    expect(statement.closingBalance).toBe(4050);
+    expect(statement.endDate).toEqual(day("2026-03-06"));
+    expect(statement.errors).toEqual([{ row: 4, error: "Missing or invalid amount" }]);
+  });
+
+  it("reports mapped columns that are not in the file", () => {
+    expect(() => parseCsvStatement("Date,Text,Value\n2026-03-01,x,1", { date: "Date", description: "Narrative", amount: "Value" })).toThrow(
+      /Narrative/
+    );
+  });
+});
+
+describe("parseMt940", () => {
+  const mt940 = [
+    ":20:STMT0326",
+    ":25:GH0301/1234567890",
+    ":28C:12/1",
+    ":60F:C260301GHS5000,00",
+    ":61:2603050305D250,00NTRFINV-204//BR123",
+    "FEED PURCHASE",
+    ":86:FARM FEED CO",
+    "LAYER MASH",
+    ":61:260307C1200,50NTRFNONREF",
+    ":86:?20Maize sale?32AGRO LTD",
+    ":61:260308RC10,00NCHG",
+    ":62F:C260331GHS5940,50",
+    "-",
+  ].join("\r\n");
+
+  it("parses lines, balances and continuation text", () => {
+    const statement = parseMt940(mt940);
+    expect(statement.accountNumber).toBe("GH0301/1234567890");
+    expect(statement.openingBalance).toBe(5000);
+    expect(statement.closingBalance).toBe(5940.5);
+    expect(statement.currency).toBe("GHS");
+    expect(statement.endDate).toEqual(day("2026-03-31"));
+    expect(statement.transactions).toHaveLength(3);
+    expect(statement.transactions[0]).toEqual({
+      date: day("2026-03-05"),
+      amount: -250,
+      description: "FARM FEED CO LAYER MASH",
+      reference: "INV-204",
+      externalId: "BR123",
+    });
+    expect(statement.transactions[1]).toMatchObject({ amount: 1200.5, description: "AGRO LTD - Maize sale", counterparty: "AGRO LTD", reference: undefined });
+    // Reversed credit is money out
+    expect(statement.transactions[2].amount).toBe(-10);
+  });
+});
+
+describe("detectStatementFormat", () => {
+  it("recognises each format", () => {
+    expect(detectStatementFormat("OFXHEADER:100\n<OFX>")).toBe("ofx");
+    expect(detectStatementFormat(":20:STMT\n:25:123")).toBe("mt940");
+    expect(detectStatementFormat("Date,Amount\n")).toBe("csv");
+  });
+});
+
+describe("fingerprintTransactions", () => {
+  it("is stable across imports and keeps identical same-day lines apart", () => {
+    const fee = { date: day("2026-03-05"), amount: -0.5, description: "MoMo fee" };
+    const first = fingerprintTransactions([fee, { ...fee }]);
+    expect(first[0]).not.toBe(first[1]);
+    expect(fingerprintTransactions([fee, { ...fee }])).toEqual(first);
+  });
+
+  it("prefers the bank's own transaction id", () => {
+    const [a] = fingerprintTransactions([{ date: day("2026-03-05"), amount: -10, description: "A", externalId: "F1" }]);
+    const [b] = fingerprintTransactions([{ date: day("2026-03-06"), amount: -10, description: "A (edited)", externalId: "F1" }]);
+    expect(a).toBe(b);
+  });
+});
@@ -0,0 +1,403 @@
+import { createHash } from "crypto";
+import { parse } from "csv-parse/sync";
+
+/**
+ * Bank statement parsers
+ * Turns OFX (1.x SGML and 2.x XML), CSV with a caller-supplied column
+ * mapping and SWIFT MT940 files into one statement shape. Amounts are signed
+ * (money out is negative) and dates are UTC midnight. Bad rows are reported
+ * per row instead of failing the whole file, the same way the animal CSV
+ * import does.
+ */
+
+export type StatementFormat = "ofx" | "csv" | "mt940";
+
+export interface ParsedTransaction {
+  date: Date;
+  amount: number;
+  description: string;
+  reference?: string;
+  counterparty?: string;
+  externalId?: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountNumber?: string;
+  currency?: string;
+  startDate?: Date;
+  endDate?: Date;
+  openingBalance?: number;
+  closingBalance?: number;
+  transactions: ParsedTransaction[];
+  errors: { row: number; error: string }[];
+}
+
+export type CsvDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+
+/**
+ * Column headers to read from a CSV export. Use either `amount` (signed) or
+ * `debit`/`credit` columns, which is how most mobile-money statements come.
+ */
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  reference?: string;
+  counterparty?: string;
+  balance?: string;
+  dateFormat?: CsvDateFormat;
+  delimiter?: string;
+  decimalComma?: boolean;
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementParseError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/**
+ * Parse "1,234.50", "(45.00)", "45.00-", "GHS 12", "12.00 DR". Returns null
+ * for blanks and garbage.
+ */
+export function parseAmount(raw: string | undefined, decimalComma = false): number | null {
+  if (raw === undefined) return null;
+  let text = raw.trim().toUpperCase();
+  if (!text) return null;
+
+  let negative = false;
+  if (/DR$/.test(text)) negative = true;
+  text = text.replace(/(DR|CR)$/, "").replace(/[A-Z₵$€£\s]/g, "");
+  if (/^\(.*\)$/.test(text)) {
+    negative = !negative;
+    text = text.slice(1, -1);
+  }
+  if (/^-|-$/.test(text)) {
+    negative = !negative;
+    text = text.replace(/^-|-$/, "");
+  }
+  text = decimalComma ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, "");
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+
+  const value = round2(Number(text));
+  return negative ? -value : value;
+}
+
+export function parseStatementDate(raw: string, format: CsvDateFormat = "YYYY-MM-DD"): Date | null {
+  const text = raw.trim();
+  if (format === "YYYY-MM-DD") {
+    const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  }
+  const match = text.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2}|\d{4})$/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  return format === "DD/MM/YYYY"
+    ? utcDate(year, Number(match[2]), Number(match[1]))
+    : utcDate(year, Number(match[1]), Number(match[2]));
+}
+
+// ----------------------------------------------------------------------------
+// OFX
+// ----------------------------------------------------------------------------
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Works for both SGML (value runs to end of line) and XML (value runs to the closing tag)
+function ofxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function ofxDate(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+export function parseOfx(content: string): ParsedStatement {
+  if (!/<OFX>/i.test(content)) throw new StatementParseError("Not an OFX file: missing <OFX> element");
+
+  const statement: ParsedStatement = {
+    format: "ofx",
+    accountNumber: ofxField(content, "ACCTID"),
+    currency: ofxField(content, "CURDEF"),
+    startDate: ofxDate(ofxField(content, "DTSTART")) ?? undefined,
+    endDate: ofxDate(ofxField(content, "DTEND")) ?? undefined,
+    transactions: [],
+    errors: [],
+  };
+
+  const ledgerBalance = content.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|$)/i);
+  if (ledgerBalance) {
+    statement.closingBalance = parseAmount(ofxField(ledgerBalance[1], "BALAMT")) ?? undefined;
+  }
+
+  const blocks = Array.from(content.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi));
+  blocks.forEach((match, index) => {
+    const block = match[1];
+    const date = ofxDate(ofxField(block, "DTPOSTED"));
+    const amount = parseAmount(ofxField(block, "TRNAMT"));
+    if (!date) {
+      statement.errors.push({ row: index + 1, error: "Missing or invalid DTPOSTED" });
+      return;
+    }
+    if (amount === null) {
+      statement.errors.push({ row: index + 1, error: "Missing or invalid TRNAMT" });
+      return;
+    }
+    const name = ofxField(block, "NAME") ?? ofxField(block, "PAYEE");
+    const memo = ofxField(block, "MEMO");
+    statement.transactions.push({
+      date,
+      amount,
+      description: [name, memo].filter(Boolean).join(" - ") || ofxField(block, "TRNTYPE") || "OFX transaction",
+      reference: ofxField(block, "CHECKNUM") ?? ofxField(block, "REFNUM"),
+      counterparty: name,
+      externalId: ofxField(block, "FITID"),
+    });
+  });
+
+  return statement;
+}
+
+// ----------------------------------------------------------------------------
+// CSV
+// ----------------------------------------------------------------------------
+
+export function parseCsvStatement(content: string, mapping: CsvColumnMapping): ParsedStatement {
+  if (!mapping.amount && !mapping.debit && !mapping.credit) {
+    throw new StatementParseError("CSV mapping needs an amount column or debit/credit columns");
+  }
+
+  let records: Record<string, string>[];
+  try {
+    records = parse(content, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+      delimiter: mapping.delimiter ?? ",",
+      relax_column_count: true,
+    }) as Record<string, string>[];
+  } catch (error) {
+    throw new StatementParseError(`Could not read CSV: ${(error as Error).message}`);
+  }
+
+  const header = Object.keys(records[0] ?? {});
+  const required = [mapping.date, mapping.description, mapping.amount, mapping.debit, mapping.credit].filter(
+    (column): column is string => Boolean(column)
+  );
+  const missing = records.length ? required.filter(column => !header.includes(column)) : [];
+  if (missing.length) throw new StatementParseError(`CSV is missing column(s): ${missing.join(", ")}`);
+
+  const statement: ParsedStatement = { format: "csv", transactions: [], errors: [] };
+  let lastBalance: number | null = null;
+
+  records.forEach((record, index) => {
+    const rowNumber = index + 2; // header row + 1-based
+    const date = parseStatementDate(record[mapping.date] ?? "", mapping.dateFormat);
+    if (!date) {
+      statement.errors.push({ row: rowNumber, error: `Invalid date "${record[mapping.date] ?? ""}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (mapping.amount) {
+      amount = parseAmount(record[mapping.amount], mapping.decimalComma);
+    } else {
+      const debit = parseAmount(mapping.debit ? record[mapping.debit] : undefined, mapping.decimalComma);
+      const credit = parseAmount(mapping.credit ? record[mapping.credit] : undefined, mapping.decimalComma);
+      amount = debit === null && credit === null ? null : round2((credit ?? 0) - Math.abs(debit ?? 0));
+    }
+    if (amount === null || amount === 0) {
+      statement.errors.push({ row: rowNumber, error: "Missing or invalid amount" });
+      return;
+    }
+
+    const description = record[mapping.description]?.trim();
+    if (!description) {
+      statement.errors.push({ row: rowNumber, error: "Description is required" });
+      return;
+    }
+
+    statement.transactions.push({
+      date,
+      amount,
+      description,
+      reference: mapping.reference ? record[mapping.reference] || undefined : undefined,
+      counterparty: mapping.counterparty ? record[mapping.counterparty] || undefined : undefined,
+    });
+    if (mapping.balance) lastBalance = parseAmount(record[mapping.balance], mapping.decimalComma) ?? lastBalance;
+  });
+
+  const dates = statement.transactions.map(txn => txn.date.getTime());
+  if (dates.length) {
+    statement.startDate = new Date(Math.min(...dates));
+    statement.endDate = new Date(Math.max(...dates));
+  }
+  if (lastBalance !== null) statement.closingBalance = lastBalance;
+  return statement;
+}
+
+// ----------------------------------------------------------------------------
+// MT940
+// ----------------------------------------------------------------------------
+
+function mt940Date(yymmdd: string): Date | null {
+  return utcDate(2000 + Number(yymmdd.slice(0, 2)), Number(yymmdd.slice(2, 4)), Number(yymmdd.slice(4, 6)));
+}
+
+// :60F:C260301GHS1234,56
+function mt940Balance(value: string): { date: Date | null; currency: string; amount: number } | null {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)/);
+  if (!match) return null;
+  const amount = parseAmount(match[4], true);
+  if (amount === null) return null;
+  return { date: mt940Date(match[2]), currency: match[3], amount: match[1] === "D" ? -amount : amount };
+}
+
+// Value date, optional entry date, mark (C, D, RC, RD), optional funds code, amount, type code, references
+const MT940_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?([\d,]+)([NSF][A-Z0-9]{3})([^\/\n]*)(?:\/\/([^\n]*))?/;
+
+export function parseMt940(content: string): ParsedStatement {
+  // Join continuation lines onto the tag they belong to
+  const fields: { tag: string; value: string }[] = [];
+  for (const rawLine of content.replace(/\r/g, "").split("\n")) {
+    const line = rawLine.trimEnd();
+    const tagMatch = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length && line && line !== "-" && !line.startsWith("{")) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  if (!fields.some(field => field.tag === "61" || field.tag === "20")) {
+    throw new StatementParseError("Not an MT940 file: no :20: or :61: fields");
+  }
+
+  const statement: ParsedStatement = { format: "mt940", transactions: [], errors: [] };
+  let line = 0;
+  let current: ParsedTransaction | null = null;
+
+  for (const { tag, value } of fields) {
+    if (tag === "25") {
+      statement.accountNumber = value.split("\n")[0].trim();
+    } else if (tag === "60F" || tag === "60M") {
+      const balance = mt940Balance(value);
+      // Multi-page statements repeat :60M:; the first one is the opening balance
+      if (balance && statement.openingBalance === undefined) {
+        statement.openingBalance = balance.amount;
+        statement.currency = balance.currency;
+        statement.startDate = balance.date ?? undefined;
+      }
+    } else if (tag === "62F" || tag === "62M") {
+      const balance = mt940Balance(value);
+      if (balance) {
+        statement.closingBalance = balance.amount;
+        statement.endDate = balance.date ?? undefined;
+      }
+    } else if (tag === "61") {
+      line++;
+      current = null;
+      const [first, ...supplementary] = value.split("\n");
+      const match = first.match(MT940_LINE);
+      const date = match ? mt940Date(match[1]) : null;
+      const amount = match ? parseAmount(match[5], true) : null;
+      if (!match || !date || amount === null) {
+        statement.errors.push({ row: line, error: `Unreadable :61: line "${first}"` });
+        continue;
+      }
+      // RC is a reversed credit (money out), RD a reversed debit (money in)
+      const outgoing = match[3] === "D" || match[3] === "RC";
+      const reference = match[7].trim();
+      current = {
+        date,
+        amount: outgoing ? -amount : amount,
+        description: supplementary.join(" ").trim() || match[6],
+        reference: reference && reference !== "NONREF" ? reference : undefined,
+        externalId: match[8]?.trim() || undefined,
+      };
+      statement.transactions.push(current);
+    } else if (tag === "86" && current) {
+      const info = value.replace(/\n/g, " ").trim();
+      current.description = info || current.description;
+      // Structured :86: fields (?20..?29 remittance info, ?32/?33 counterparty name)
+      if (/\?\d{2}/.test(info)) {
+        const parts = Array.from(info.matchAll(/\?(\d{2})([^?]*)/g));
+        const remittance = parts.filter(part => Number(part[1]) >= 20 && Number(part[1]) <= 29).map(part => part[2].trim()).join(" ");
+        const name = parts.filter(part => part[1] === "32" || part[1] === "33").map(part => part[2].trim()).join(" ");
+        current.description = [name, remittance].filter(Boolean).join(" - ") || info;
+        current.counterparty = name || undefined;
+      }
+      current = null;
+    }
+  }
+
+  return statement;
+}
+
+// ----------------------------------------------------------------------------
+// Dispatch & fingerprints
+// ----------------------------------------------------------------------------
+
+export function detectStatementFormat(content: string): StatementFormat {
+  const head = content.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  if (/^:20:|\n:20:|\{4:/.test(head)) return "mt940";
+  return "csv";
+}
+
+export function parseStatement(content: string, format: StatementFormat, mapping?: CsvColumnMapping): ParsedStatement {
+  switch (format) {
+    case "ofx":
+      return parseOfx(content);
+    case "mt940":
+      return parseMt940(content);
+    case "csv":
+      if (!mapping) throw new StatementParseError("CSV statements need a column mapping");
+      return parseCsvStatement(content, mapping);
+  }
+}
+
+/**
+ * Stable identity for each line so overlapping statements import once.
+ * Uses the bank's own id when there is one; otherwise date, amount and text,
+ * plus an occurrence counter so two identical fees on the same day both
+ * survive.
+ */
+export function fingerprintTransactions(transactions: ParsedTransaction[]): string[] {
+  const seen = new Map<string, number>();
+  return transactions.map(txn => {
+    const base = txn.externalId
+      ? `id|${txn.externalId}`
+      : [
+          txn.date.toISOString().slice(0, 10),
+          txn.amount.toFixed(2),
+          txn.description.toUpperCase().replace(/\s+/g, " ").trim(),
+          txn.reference ?? "",
+        ].join("|");
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+    return createHash("sha256").update(`${base}|${occurrence}`).digest("hex");
+  });
+}
@@ -0,0 +1,146 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { parseBoundaryFile, parseGeoJsonBoundaries, parseKmlBoundaries, toFeatureCollection } from "./boundaryFormats";
+import { areaHectares } from "./fieldGeometry";
+
+const square = [[36.8, -1.3], [36.801, -1.3], [36.801, -1.299], [36.8, -1.299], [36.8, -1.3]];
+
+describe("GeoJSON", () => {
+  it("reads polygons, closes walked tracks and skips points", () => {
+    const { boundaries, skipped } = parseGeoJsonBoundaries(JSON.stringify({
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", properties: { Name: "North block" }, geometry: { type: "Polygon", coordinates: [square] } },
+        { type: "Feature", properties: { name: "Walk" }, geometry: { type: "LineString", coordinates: square.slice(0, 4) } },
+        { type: "Feature", properties: { name: "Gate" }, geometry: { type: "Point", coordinates: [36.8, -1.3] } },
+      ],
+    }));
+    expect(boundaries.map(boundary => boundary.name)).toEqual(["North block", "Walk"]);
+    expect(areaHectares(boundaries[1].geometry)).toBeCloseTo(areaHectares(boundaries[0].geometry), 6);
+    expect(skipped).toEqual(["Feature 3 (Gate): a Point has no area"]);
+  });
+
+  it("round-trips through the export", () => {
+    const { boundaries } = parseGeoJsonBoundaries(JSON.stringify({ type: "Polygon", coordinates: [square] }));
+    const exported = toFeatureCollection([{ geometry: boundaries[0].geometry, properties: { name: "F1" } }]);
+    expect(parseGeoJsonBoundaries(JSON.stringify(exported)).boundaries[0]).toEqual({ ...boundaries[0], name: "F1", properties: { name: "F1" } });
+  });
+});
+
+describe("KML", () => {
+  it("reads polygons with holes and GPS tracks", () => {
+    const kml = `<?xml version="1.0"?>
+      <kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2"><Document>
+        <Placemark><name><![CDATA[Maize & beans]]></name><Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>36.8,-1.3,0 36.802,-1.3,0 36.802,-1.298,0 36.8,-1.298,0 36.8,-1.3,0</coordinates></LinearRing></outerBoundaryIs>
+          <innerBoundaryIs><LinearRing><coordinates>36.8005,-1.2995 36.801,-1.2995 36.801,-1.299 36.8005,-1.2995</coordinates></LinearRing></innerBoundaryIs>
+        </Polygon></Placemark>
+        <Placemark><name>Walk</name><gx:Track>
+          <when>2026-03-01T08:00:00Z</when><gx:coord>36.8 -1.3 1650</gx:coord>
+          <gx:coord>36.801 -1.3 1650</gx:coord><gx:coord>36.801 -1.299 1650</gx:coord>
+        </gx:Track></Placemark>
+        <Placemark><name>Borehole</name><Point><coordinates>36.8,-1.3</coordinates></Point></Placemark>
+      </Document></kml>`;
+    const { boundaries, skipped } = parseKmlBoundaries(kml);
+    expect(boundaries.map(boundary => boundary.name)).toEqual(["Maize & beans", "Walk"]);
+    expect(boundaries[0].geometry.coordinates).toHaveLength(2);
+    expect(boundaries[1].geometry.coordinates[0]).toHaveLength(4);
+    expect(skipped).toEqual(["Placemark 3 (Borehole): a point has no area"]);
+  });
+});
+
+// Minimal shapefile and ZIP writers for the fixtures
+function shp(rings: number[][][]): Buffer {
+  const points = rings.flat();
+  const content = Buffer.alloc(44 + rings.length * 4 + points.length * 16);
+  content.writeInt32LE(5, 0);
+  content.writeInt32LE(rings.length, 36);
+  content.writeInt32LE(points.length, 40);
+  let start = 0;
+  rings.forEach((ring, index) => {
+    content.writeInt32LE(start, 44 + index * 4);
+    start += ring.length;
+  });
+  points.forEach(([x, y], index) => {
+    content.writeDoubleLE(x, 44 + rings.length * 4 + index * 16);
+    content.writeDoubleLE(y, 44 + rings.length * 4 + index * 16 + 8);
+  });
+  const header = Buffer.alloc(100);
+  header.writeInt32BE(9994, 0);
+  header.writeInt32BE((100 + 8 + content.length) / 2, 24);
+  header.writeInt32LE(1000, 28);
+  header.writeInt32LE(5, 32);
+  const record = Buffer.alloc(8);
+  record.writeInt32BE(1, 0);
+  record.writeInt32BE(content.length / 2, 4);
+  return Buffer.concat([header, record, content]);
+}
+
+function dbf(field: string, values: string[]): Buffer {
+  const header = Buffer.alloc(65);
+  header[0] = 3;
+  header.writeUInt32LE(values.length, 4);
+  header.writeUInt16LE(65, 8);
+  header.writeUInt16LE(21, 10);
+  header.write(field, 32, "latin1");
+  header.write("C", 43, "latin1");
+  header[48] = 20;
+  header[64] = 0x0d;
+  return Buffer.concat([header, ...values.map(value => Buffer.from(` ${value.padEnd(20)}`, "latin1"))]);
+}
+
+function zip(files: Record<string, Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, data] of Object.entries(files)) {
+    const compressed = deflateRawSync(data);
+    const local = Buffer.alloc(30 + name.length);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.write(name, 30);
+    const central = Buffer.alloc(46 + name.length);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    central.write(name, 46);
+    locals.push(local, compressed);
+    centrals.push(central);
+    offset += local.length + compressed.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length, 8);
+  end.writeUInt16LE(centrals.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("shapefile ZIP", () => {
+  // Shapefile outer rings run clockwise, holes anticlockwise
+  const outer = [[36.8, -1.3], [36.8, -1.298], [36.802, -1.298], [36.802, -1.3], [36.8, -1.3]];
+  const hole = [[36.8005, -1.2995], [36.801, -1.2995], [36.801, -1.299], [36.8005, -1.299], [36.8005, -1.2995]];
+
+  it("reads polygons with their dBASE names", () => {
+    const archive = zip({ "fields/blocks.shp": shp([outer, hole]), "fields/blocks.dbf": dbf("NAME", ["Block A"]) });
+    const { boundaries } = parseBoundaryFile("blocks.zip", archive);
+    expect(boundaries).toHaveLength(1);
+    expect(boundaries[0].name).toBe("Block A");
+    expect(boundaries[0].geometry.type).toBe("Polygon");
+    expect(boundaries[0].geometry.coordinates).toHaveLength(2);
+  });
+
+  it("refuses projected shapefiles", () => {
+    const archive = zip({ "utm.shp": shp([outer]), "utm.prj": Buffer.from('PROJCS["WGS_1984_UTM_Zone_37S"]') });
+    expect(() => parseBoundaryFile("utm.zip", archive)).toThrow(/projected coordinate system/);
+    expect(() => parseBoundaryFile("field.gpx", Buffer.from(""))).toThrow(/Unsupported boundary file/);
+  });
+});
@@ -0,0 +1,346 @@
+import { inflateRawSync } from "zlib";
+import type { BoundaryGeometry } from "../../drizzle/schema";
+import { GeometryError, normalizeBoundary, pointInRing, type Position } from "./fieldGeometry";
+
+/**
+ * Boundary file import and export
+ * Reads GeoJSON, KML (Google Earth, most GPS apps) and zipped ESRI
+ * shapefiles into normalized boundaries, and writes GeoJSON back out. Open
+ * tracks from a GPS walk around a field (a GeoJSON LineString, a KML
+ * LineString or gx:Track, a shapefile polyline) are closed into polygons.
+ * Shapefiles must be in WGS84; projected ones are refused rather than
+ * guessed at.
+ */
+
+export type BoundaryFormat = "geojson" | "kml" | "shapefile";
+
+export interface ImportedBoundary {
+  name: string | null;
+  geometry: BoundaryGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface BoundaryImport {
+  boundaries: ImportedBoundary[];
+  /** Features that were not boundaries (points, unreadable shapes) and why */
+  skipped: string[];
+}
+
+const NAME_KEYS = ["name", "fieldname", "field_name", "field", "title", "label", "id"];
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+function featureName(properties: Record<string, unknown>): string | null {
+  const key = Object.keys(properties).find(candidate => NAME_KEYS.includes(candidate.toLowerCase()));
+  const value = key === undefined ? null : properties[key];
+  return value === null || value === undefined || String(value).trim() === "" ? null : String(value).trim();
+}
+
+/** A walked track, closed back to its start */
+function trackToPolygon(track: Position[]): BoundaryGeometry {
+  return { type: "Polygon", coordinates: [[...track, track[0]]] };
+}
+
+function collect(result: BoundaryImport, label: string, read: () => BoundaryGeometry | null, properties: Record<string, unknown>) {
+  try {
+    const geometry = read();
+    if (geometry) result.boundaries.push({ name: featureName(properties), geometry: normalizeBoundary(geometry, label), properties });
+  } catch (error) {
+    if (!(error instanceof GeometryError)) throw error;
+    result.skipped.push(error.message);
+  }
+}
+
+export function detectBoundaryFormat(fileName: string): BoundaryFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "geojson" || extension === "json") return "geojson";
+  if (extension === "kml") return "kml";
+  if (extension === "zip" || extension === "shp") return "shapefile";
+  throw new GeometryError(`Unsupported boundary file "${fileName}"; use GeoJSON, KML or a zipped shapefile`);
+}
+
+export function parseBoundaryFile(fileName: string, content: Buffer): BoundaryImport {
+  const format = detectBoundaryFormat(fileName);
+  if (format === "geojson") return parseGeoJsonBoundaries(content.toString("utf8"));
+  if (format === "kml") return parseKmlBoundaries(content.toString("utf8"));
+  return parseShapefileZip(content);
+}
+
+// ============================================================================
+// GEOJSON
+// ============================================================================
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+/** Polygons as they are, closed LineStrings, and the polygon parts of a GeometryCollection */
+function polygonalGeometry(geometry: GeoJsonGeometry | null, label: string): BoundaryGeometry | null {
+  if (!geometry) throw new GeometryError(`${label}: no geometry`);
+  if (geometry.type === "Polygon" || geometry.type === "MultiPolygon") return geometry as BoundaryGeometry;
+  if (geometry.type === "LineString") return trackToPolygon(geometry.coordinates as Position[]);
+  if (geometry.type === "GeometryCollection") {
+    const parts = (geometry.geometries ?? [])
+      .map(part => polygonalGeometry(part, label))
+      .filter((part): part is BoundaryGeometry => part !== null)
+      .flatMap(part => (part.type === "Polygon" ? [part.coordinates] : part.coordinates));
+    if (parts.length === 0) throw new GeometryError(`${label}: no polygons in the collection`);
+    return { type: "MultiPolygon", coordinates: parts };
+  }
+  throw new GeometryError(`${label}: a ${geometry.type} has no area`);
+}
+
+export function parseGeoJsonBoundaries(text: string): BoundaryImport {
+  let document: { type?: string; features?: unknown[]; geometry?: unknown; properties?: unknown };
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new GeometryError("The file is not valid GeoJSON");
+  }
+
+  const features =
+    document.type === "FeatureCollection"
+      ? document.features ?? []
+      : document.type === "Feature"
+        ? [document]
+        : [{ type: "Feature", geometry: document, properties: {} }];
+
+  const result: BoundaryImport = { boundaries: [], skipped: [] };
+  features.forEach((feature, index) => {
+    const { geometry, properties } = feature as { geometry: GeoJsonGeometry | null; properties?: Record<string, unknown> | null };
+    const props = properties ?? {};
+    const label = `Feature ${index + 1}${featureName(props) ? ` (${featureName(props)})` : ""}`;
+    collect(result, label, () => polygonalGeometry(geometry, label), props);
+  });
+  return result;
+}
+
+// ============================================================================
+// KML
+// ============================================================================
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g");
+  return [...xml.matchAll(pattern)].map(match => match[1]);
+}
+
+/** "lon,lat[,alt] lon,lat[,alt] ..." */
+function kmlCoordinates(text: string): Position[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(",").map(Number) as Position);
+}
+
+function kmlRing(boundaryXml: string): Position[] {
+  return kmlCoordinates(elements(boundaryXml, "coordinates")[0] ?? "");
+}
+
+function kmlGeometry(placemark: string): BoundaryGeometry | null {
+  const polygons = elements(placemark, "Polygon").map(polygon => [
+    kmlRing(elements(polygon, "outerBoundaryIs")[0] ?? ""),
+    ...elements(polygon, "innerBoundaryIs").map(kmlRing),
+  ]);
+  if (polygons.length === 1) return { type: "Polygon", coordinates: polygons[0] };
+  if (polygons.length > 1) return { type: "MultiPolygon", coordinates: polygons };
+
+  const line = elements(placemark, "LineString")[0];
+  if (line !== undefined) return trackToPolygon(kmlRing(line));
+  // gx:Track from GPS loggers: <gx:coord>lon lat alt</gx:coord>
+  const coords = elements(placemark, "coord").map(coord => coord.trim().split(/\s+/).map(Number) as Position);
+  if (coords.length > 0) return trackToPolygon(coords);
+  return null;
+}
+
+export function parseKmlBoundaries(text: string): BoundaryImport {
+  if (!/<kml\b/i.test(text)) throw new GeometryError("The file is not KML");
+  const result: BoundaryImport = { boundaries: [], skipped: [] };
+  elements(text, "Placemark").forEach((placemark, index) => {
+    const withoutGeometry = placemark.replace(/<(?:\w+:)?(?:Polygon|LineString|MultiGeometry|Track)\b[\s\S]*$/, "");
+    const name = elements(withoutGeometry, "name")[0];
+    const description = elements(withoutGeometry, "description")[0];
+    const properties: Record<string, unknown> = {};
+    if (name !== undefined) properties.name = decodeXml(name);
+    if (description !== undefined) properties.description = decodeXml(description);
+    const label = `Placemark ${index + 1}${properties.name ? ` (${properties.name})` : ""}`;
+    collect(
+      result,
+      label,
+      () => {
+        const geometry = kmlGeometry(placemark);
+        if (!geometry) throw new GeometryError(`${label}: a point has no area`);
+        return geometry;
+      },
+      properties
+    );
+  });
+  return result;
+}
+
+// ============================================================================
+// SHAPEFILE (ZIP)
+// ============================================================================
+
+/** Files in a ZIP archive by lower-cased path; stored and deflated entries only */
+function readZip(buffer: Buffer): Map<string, Buffer> {
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65_557); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new GeometryError("The file is not a ZIP archive");
+
+  const files = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  let unzipped = 0;
+  for (let entry = 0; entry < count; entry++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new GeometryError("The ZIP archive is damaged");
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (name.endsWith("/") || name.startsWith("__MACOSX/")) continue;
+    if (method !== 0 && method !== 8) throw new GeometryError(`${name}: unsupported ZIP compression`);
+    const content = method === 0 ? data : inflateRawSync(data, { maxOutputLength: MAX_UNZIPPED_BYTES - unzipped });
+    unzipped += content.length;
+    files.set(name.toLowerCase(), content);
+  }
+  return files;
+}
+
+/** Attribute rows of a dBASE table, values trimmed */
+function readDbf(buffer: Buffer): Array<Record<string, unknown>> {
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+  const fields: Array<{ name: string; length: number }> = [];
+  for (let offset = 32; offset < headerLength - 1 && buffer[offset] !== 0x0d; offset += 32) {
+    fields.push({ name: buffer.toString("latin1", offset, offset + 11).replace(/\0.*$/, ""), length: buffer[offset + 16] });
+  }
+
+  const rows: Array<Record<string, unknown>> = [];
+  for (let record = 0; record < recordCount; record++) {
+    let offset = headerLength + record * recordLength + 1; // deletion flag
+    const row: Record<string, unknown> = {};
+    for (const field of fields) {
+      row[field.name] = buffer.toString("utf8", offset, offset + field.length).trim();
+      offset += field.length;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+const SHP_POLYGON = [5, 15, 25];
+const SHP_POLYLINE = [3, 13, 23];
+
+/**
+ * Shapes of a .shp file. Polygon rings wound clockwise are outer rings and
+ * anticlockwise ones are holes of the outer ring around them.
+ */
+function readShp(buffer: Buffer): Array<BoundaryGeometry | string> {
+  const shapes: Array<BoundaryGeometry | string> = [];
+  let offset = 100;
+  while (offset + 12 <= buffer.length) {
+    const contentLength = buffer.readInt32BE(offset + 4) * 2;
+    const content = offset + 8;
+    offset = content + contentLength;
+    const shapeType = buffer.readInt32LE(content);
+    if (!SHP_POLYGON.includes(shapeType) && !SHP_POLYLINE.includes(shapeType)) {
+      shapes.push(shapeType === 0 ? "an empty shape" : "a shape with no area");
+      continue;
+    }
+
+    const partCount = buffer.readInt32LE(content + 36);
+    const pointCount = buffer.readInt32LE(content + 40);
+    const partStarts = Array.from({ length: partCount }, (_, part) => buffer.readInt32LE(content + 44 + part * 4));
+    const pointsStart = content + 44 + partCount * 4;
+    const rings = partStarts.map((start, part) => {
+      const stop = part + 1 < partCount ? partStarts[part + 1] : pointCount;
+      return Array.from({ length: stop - start }, (_, i): Position => [
+        buffer.readDoubleLE(pointsStart + (start + i) * 16),
+        buffer.readDoubleLE(pointsStart + (start + i) * 16 + 8),
+      ]);
+    });
+
+    if (SHP_POLYLINE.includes(shapeType)) {
+      shapes.push(trackToPolygon(rings.flat()));
+      continue;
+    }
+    const clockwise = (ring: Position[]) =>
+      ring.slice(0, -1).reduce((sum, point, i) => sum + point[0] * ring[i + 1][1] - ring[i + 1][0] * point[1], 0) < 0;
+    const outers = rings.filter(clockwise).map(ring => [ring]);
+    for (const hole of rings.filter(ring => !clockwise(ring))) {
+      const owner = outers.find(([outer]) => pointInRing(hole[0], outer)) ?? outers[0];
+      if (owner) owner.push(hole);
+      else outers.push([hole]);
+    }
+    shapes.push(outers.length === 1 ? { type: "Polygon", coordinates: outers[0] } : { type: "MultiPolygon", coordinates: outers });
+  }
+  return shapes;
+}
+
+export function parseShapefileZip(buffer: Buffer): BoundaryImport {
+  const files = readZip(buffer);
+  const shpNames = [...files.keys()].filter(name => name.endsWith(".shp"));
+  if (shpNames.length === 0) throw new GeometryError("No .shp file in the ZIP archive");
+
+  const result: BoundaryImport = { boundaries: [], skipped: [] };
+  for (const shpName of shpNames) {
+    const base = shpName.slice(0, -4);
+    const prj = files.get(`${base}.prj`)?.toString("latin1");
+    if (prj && /^\s*PROJCS/i.test(prj)) {
+      throw new GeometryError(`${shpName} uses a projected coordinate system; export it in WGS84 (EPSG:4326)`);
+    }
+    const dbf = files.get(`${base}.dbf`);
+    const attributes = dbf ? readDbf(dbf) : [];
+    readShp(files.get(shpName)!).forEach((shape, index) => {
+      const properties = attributes[index] ?? {};
+      const label = `Shape ${index + 1}${featureName(properties) ? ` (${featureName(properties)})` : ""}`;
+      collect(
+        result,
+        label,
+        () => {
+          if (typeof shape === "string") throw new GeometryError(`${label}: ${shape}`);
+          return shape;
+        },
+        properties
+      );
+    });
+  }
+  return result;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export function toFeatureCollection(features: Array<{ geometry: BoundaryGeometry; properties: Record<string, unknown> }>) {
+  return {
+    type: "FeatureCollection" as const,
+    features: features.map(feature => ({ type: "Feature" as const, geometry: feature.geometry, properties: feature.properties })),
+  };
+}
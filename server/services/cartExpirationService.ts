@@ -0,0 +1,24 @@
+import { lt } from "drizzle-orm";
+import { getDb } from "../db";
+import { marketplaceCart } from "../../drizzle/schema";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+
+/**
+ * Cart expiration
+ * Cart items carry an expiresAt that is pushed out whenever the buyer
+ * touches their cart; an hourly queue job deletes the ones that lapsed.
+ */
+
+export async function deleteExpiredCartItems(now = new Date()) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  const [header] = await db.delete(marketplaceCart).where(lt(marketplaceCart.expiresAt, now));
+  return { deleted: header.affectedRows, timestamp: now.toISOString() };
+}
+
+export function initializeCartExpirationJob() {
+  registerJobHandler("cart.expireItems", () => deleteExpiredCartItems());
+  defineCronJob("cart-expiration", "20 * * * *", "cart.expireItems").catch(error =>
+    console.error("[CartExpiration] Could not schedule cleanup:", error)
+  );
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { checkRotation, cropProfile, rankCandidates, scoreCandidate, suggestRotation, type RotationEntry } from "./cropRotation";
+
+const entry = (cropName: string, botanicalFamily?: string): RotationEntry => ({
+  cropName,
+  profile: cropProfile({ cropName, botanicalFamily }),
+});
+
+const maize = entry("Maize");
+const beans = entry("Common Beans");
+const tomato = entry("Tomato");
+const pepper = entry("Hot Pepper");
+const cabbage = entry("Cabbage");
+const sorghum = entry("Sorghum");
+
+describe("cropProfile", () => {
+  it("knows families from names and lets the crop record override them", () => {
+    expect(maize.profile).toMatchObject({ family: "Poaceae", demand: "heavy", nitrogenFixer: false });
+    expect(beans.profile).toMatchObject({ family: "Fabaceae", nitrogenFixer: true, breakSeasons: 2 });
+    expect(entry("Sweet Potato").profile.family).toBe("Convolvulaceae");
+    expect(entry("Irish Potato").profile.family).toBe("Solanaceae");
+    expect(entry("Moringa").profile.family).toBeNull();
+    expect(entry("Moringa", "Moringaceae").profile).toMatchObject({ family: "Moringaceae", breakSeasons: 1 });
+    expect(entry("Mucuna", "Fabaceae").profile.nitrogenFixer).toBe(true);
+  });
+});
+
+describe("scoreCandidate", () => {
+  it("puts a legume after maize and maize after a legume", () => {
+    const ranked = rankCandidates([maize], [sorghum, tomato, beans], null);
+    expect(ranked[0].candidate).toBe(beans);
+    expect(ranked.at(-1)!.candidate).toBe(sorghum);
+    expect(ranked.at(-1)!.violations.map(violation => violation.type)).toEqual(["same_family_consecutive", "disease_break_too_short"]);
+    expect(scoreCandidate([beans], maize, null).reasons).toContain("Uses the nitrogen left by Common Beans");
+  });
+
+  it("holds a family off the field for its break and catches shared soil pests", () => {
+    const afterTomato = scoreCandidate([tomato, beans], pepper, null);
+    expect(afterTomato.violations.map(violation => violation.type)).toEqual(["family_break_too_short"]);
+    expect(scoreCandidate([tomato, beans, maize, cabbage], pepper, null).violations).toEqual([]);
+    // Okra shares root-knot nematodes with tomato though it is a different family
+    expect(scoreCandidate([tomato], entry("Okra"), null).violations.map(violation => violation.type)).toEqual(["disease_break_too_short"]);
+  });
+
+  it("reads the soil test", () => {
+    const poorSoil = { ph: 5.2, nitrogen: 12, organicMatter: 1.4 };
+    const maizeOnPoorSoil = scoreCandidate([cabbage], maize, poorSoil);
+    const beansOnPoorSoil = scoreCandidate([cabbage], beans, poorSoil);
+    expect(maizeOnPoorSoil.reasons.join(" ")).toMatch(/pH 5.2 is outside 5.5–7.5.*nitrogen is low.*Organic matter is low/);
+    expect(beansOnPoorSoil.score).toBeGreaterThan(maizeOnPoorSoil.score);
+  });
+});
+
+describe("checkRotation", () => {
+  it("reports faults in a planned sequence against the field's history", () => {
+    const violations = checkRotation([maize, beans, maize, sorghum, tomato], 2);
+    expect(violations.map(violation => [violation.index, violation.type, violation.severity])).toEqual([
+      [1, "same_family_consecutive", "error"],
+      [1, "disease_break_too_short", "warning"],
+      [2, "no_nitrogen_fixer", "warning"],
+    ]);
+  });
+
+  it("suggests a sequence without faults", () => {
+    const picks = suggestRotation([maize], [maize, sorghum, beans, tomato, cabbage], null, 4);
+    const sequence = [maize, ...picks.map(pick => pick.candidate)];
+    expect(picks[0].candidate).toBe(beans);
+    expect(checkRotation(sequence, 1).filter(violation => violation.severity === "error")).toEqual([]);
+  });
+});
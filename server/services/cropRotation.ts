@@ -0,0 +1,296 @@
+/**
+ * Crop rotation rules
+ * Knows the botanical family, nutrient demand and soil-borne pests and
+ * diseases of the common crops, scores candidate next crops for a field
+ * against what it grew before and its latest soil test, and checks a
+ * planned sequence for rotation faults. No database access;
+ * cropRotationService feeds it a field's crop cycles.
+ *
+ * Rotation is counted in seasons (crop cycles), not years, because many
+ * fields carry two crops a year. A family should stay off the field for its
+ * break (three seasons for Solanaceae and Brassicaceae, whose soil-borne
+ * diseases persist longest), and a crop sharing a pest or disease group
+ * with the crop before it keeps that problem alive.
+ */
+
+export type NutrientDemand = "fixer" | "light" | "medium" | "heavy";
+
+export interface CropProfile {
+  family: string | null;
+  demand: NutrientDemand;
+  nitrogenFixer: boolean;
+  /** Soil-borne pests and diseases the crop carries over to the next one */
+  diseaseGroups: string[];
+  /** Seasons that should pass before the family returns */
+  breakSeasons: number;
+  phRange: [number, number];
+}
+
+export class RotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RotationError";
+  }
+}
+
+/** Seasons back that a shared pest or disease group still counts */
+export const DISEASE_BREAK_SEASONS = 1;
+
+/** Soil test thresholds (mg/kg, organic matter in %) below which a level is low */
+export const SOIL_THRESHOLDS = { nitrogen: 20, phosphorus: 15, potassium: 100, organicMatter: 2 };
+
+const FAMILY_BREAK_SEASONS: Record<string, number> = {
+  Solanaceae: 3,
+  Brassicaceae: 3,
+  Amaryllidaceae: 3,
+  Fabaceae: 2,
+  Cucurbitaceae: 2,
+};
+
+type ProfileEntry = Omit<CropProfile, "breakSeasons" | "nitrogenFixer">;
+
+const CROP_PROFILES: Array<[RegExp, ProfileEntry]> = [
+  [/\b(maize|corn)\b/, { family: "Poaceae", demand: "heavy", diseaseGroups: ["stem borers", "striga", "fall armyworm"], phRange: [5.5, 7.5] }],
+  [/\b(sorghum|millet)\b/, { family: "Poaceae", demand: "medium", diseaseGroups: ["stem borers", "striga"], phRange: [5.5, 8] }],
+  [/\brice\b/, { family: "Poaceae", demand: "heavy", diseaseGroups: ["rice blast"], phRange: [5, 7] }],
+  [/\b(wheat|barley|oats?)\b/, { family: "Poaceae", demand: "medium", diseaseGroups: ["take-all"], phRange: [6, 7.5] }],
+  [/\b(beans?|cowpeas?|groundnuts?|peanuts?|soy ?beans?|soya|peas?|lentils?|chickpeas?|bambara)\b/, {
+    family: "Fabaceae",
+    demand: "fixer",
+    diseaseGroups: ["legume root rots"],
+    phRange: [6, 7.5],
+  }],
+  // Before Solanaceae, which would otherwise claim it as a potato
+  [/\bsweet ?potato(es)?\b/, { family: "Convolvulaceae", demand: "light", diseaseGroups: ["sweet potato weevil"], phRange: [5.5, 6.5] }],
+  [/\b(tomato(es)?|peppers?|chil+i(es)?|eggplants?|garden eggs?|(irish )?potato(es)?)\b/, {
+    family: "Solanaceae",
+    demand: "heavy",
+    diseaseGroups: ["bacterial wilt", "root-knot nematodes"],
+    phRange: [5.5, 7],
+  }],
+  [/\b(cabbages?|kale|broccoli|cauliflower|mustard|canola|rape)\b/, {
+    family: "Brassicaceae",
+    demand: "heavy",
+    diseaseGroups: ["clubroot", "diamondback moth"],
+    phRange: [6, 7.5],
+  }],
+  [/\bcassava\b/, { family: "Euphorbiaceae", demand: "light", diseaseGroups: ["cassava mosaic"], phRange: [5, 7] }],
+  [/\byams?\b/, { family: "Dioscoreaceae", demand: "medium", diseaseGroups: ["yam nematodes"], phRange: [5.5, 7] }],
+  [/\b(cucumbers?|melons?|watermelons?|pumpkins?|squash|courgettes?)\b/, {
+    family: "Cucurbitaceae",
+    demand: "medium",
+    diseaseGroups: ["fusarium wilt", "root-knot nematodes"],
+    phRange: [6, 7],
+  }],
+  [/\b(onions?|garlic|leeks?|shallots?)\b/, { family: "Amaryllidaceae", demand: "medium", diseaseGroups: ["white rot"], phRange: [6, 7.5] }],
+  [/\b(okra|cotton)\b/, { family: "Malvaceae", demand: "medium", diseaseGroups: ["root-knot nematodes"], phRange: [6, 7.5] }],
+  [/\b(sunflowers?|lettuce)\b/, { family: "Asteraceae", demand: "medium", diseaseGroups: ["sclerotinia"], phRange: [6, 7.5] }],
+];
+
+/** Root and tuber crops, which draw heavily on potassium */
+const TUBER_FAMILIES = new Set(["Dioscoreaceae", "Euphorbiaceae", "Convolvulaceae", "Solanaceae"]);
+
+const UNKNOWN: ProfileEntry = { family: null, demand: "medium", diseaseGroups: [], phRange: [5.5, 7.5] };
+
+/** Profile of a crop from its name; a family recorded on the crop wins over the one guessed from the name */
+export function cropProfile(crop: { cropName: string; scientificName?: string | null; botanicalFamily?: string | null }): CropProfile {
+  const name = `${crop.cropName} ${crop.scientificName ?? ""}`.toLowerCase();
+  const entry = CROP_PROFILES.find(([pattern]) => pattern.test(name))?.[1] ?? UNKNOWN;
+  const family = crop.botanicalFamily?.trim() || entry.family;
+  const nitrogenFixer = family === "Fabaceae";
+  return {
+    ...entry,
+    family,
+    demand: nitrogenFixer ? "fixer" : entry.demand === "fixer" ? "medium" : entry.demand,
+    nitrogenFixer,
+    breakSeasons: family ? FAMILY_BREAK_SEASONS[family] ?? 1 : 0,
+  };
+}
+
+export interface RotationEntry {
+  cropName: string;
+  profile: CropProfile;
+}
+
+export interface SoilStatus {
+  ph?: number | null;
+  nitrogen?: number | null;
+  phosphorus?: number | null;
+  potassium?: number | null;
+  organicMatter?: number | null;
+}
+
+export type ViolationType = "same_family_consecutive" | "family_break_too_short" | "disease_break_too_short" | "no_nitrogen_fixer";
+
+export interface RotationViolation {
+  /** Position in the sequence checked (0 is the first crop) */
+  index: number;
+  type: ViolationType;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface CandidateScore {
+  score: number;
+  reasons: string[];
+  violations: Array<Omit<RotationViolation, "index">>;
+}
+
+export type RankedCandidate<C> = CandidateScore & { candidate: C };
+
+function seasonsText(count: number): string {
+  return count <= 1 ? "season" : `${count} seasons`;
+}
+
+/** Rotation faults of putting `next` after `history` (oldest first) */
+function rotationFaults(history: RotationEntry[], next: RotationEntry): Array<Omit<RotationViolation, "index">> {
+  const faults: Array<Omit<RotationViolation, "index">> = [];
+  const last = history.at(-1);
+  const family = next.profile.family;
+
+  if (family && last?.profile.family === family) {
+    faults.push({
+      type: "same_family_consecutive",
+      severity: "error",
+      message: `${next.cropName} follows ${last.cropName}: ${family} twice in a row`,
+    });
+  } else if (family) {
+    const recent = history.slice(-next.profile.breakSeasons);
+    const previous = [...recent].reverse().find(entry => entry.profile.family === family);
+    if (previous) {
+      faults.push({
+        type: "family_break_too_short",
+        severity: "warning",
+        message: `${family} (${previous.cropName}) was on the field within the last ${seasonsText(next.profile.breakSeasons)}`,
+      });
+    }
+  }
+
+  const shared = new Set<string>();
+  for (const entry of history.slice(-DISEASE_BREAK_SEASONS)) {
+    for (const group of entry.profile.diseaseGroups) if (next.profile.diseaseGroups.includes(group)) shared.add(group);
+  }
+  if (shared.size) {
+    faults.push({
+      type: "disease_break_too_short",
+      severity: "warning",
+      message: `${next.cropName} keeps ${[...shared].join(", ")} going from the last ${seasonsText(DISEASE_BREAK_SEASONS)}`,
+    });
+  }
+  return faults;
+}
+
+/**
+ * Score (0–100) for growing `candidate` next, with the reasons. Family
+ * repetition and shared pest or disease groups cost the most; legumes after
+ * heavy feeders, heavy feeders after legumes and crops that suit the soil
+ * test earn points.
+ */
+export function scoreCandidate(history: RotationEntry[], candidate: RotationEntry, soil: SoilStatus | null): CandidateScore {
+  const { profile } = candidate;
+  const last = history.at(-1);
+  const violations = rotationFaults(history, candidate);
+  const reasons: string[] = [];
+  let score = 60;
+
+  for (const violation of violations) {
+    score -= violation.type === "same_family_consecutive" ? 40 : 20;
+    reasons.push(violation.message);
+  }
+  if (profile.family && !violations.some(violation => violation.type !== "disease_break_too_short")) {
+    if (history.length) {
+      score += 10;
+      reasons.push(`No ${profile.family} in the last ${seasonsText(profile.breakSeasons)}`);
+    }
+  } else if (!profile.family) {
+    reasons.push(`Family of ${candidate.cropName} is not known; record it on the crop to check repetition`);
+  }
+  if (last?.profile.diseaseGroups.length && !violations.some(violation => violation.type === "disease_break_too_short")) {
+    score += 10;
+    reasons.push(`Breaks the ${last.profile.diseaseGroups.join(", ")} cycle of ${last.cropName}`);
+  }
+
+  if (profile.nitrogenFixer && last?.profile.demand === "heavy") {
+    score += 15;
+    reasons.push(`Fixes nitrogen after ${last.cropName}, a heavy feeder`);
+  } else if (profile.nitrogenFixer) {
+    score += 5;
+    reasons.push("Fixes nitrogen");
+  } else if (profile.demand === "heavy" && last?.profile.nitrogenFixer) {
+    score += 15;
+    reasons.push(`Uses the nitrogen left by ${last.cropName}`);
+  } else if (profile.demand === "heavy" && last?.profile.demand === "heavy") {
+    score -= 10;
+    reasons.push(`Second heavy feeder in a row after ${last.cropName}`);
+  }
+
+  if (soil) {
+    const [low, high] = profile.phRange;
+    if (soil.ph != null && (soil.ph < low || soil.ph > high)) {
+      score -= 15;
+      reasons.push(`Soil pH ${soil.ph} is outside ${low}–${high} for ${candidate.cropName}`);
+    }
+    if (soil.nitrogen != null && soil.nitrogen < SOIL_THRESHOLDS.nitrogen) {
+      if (profile.nitrogenFixer) {
+        score += 10;
+        reasons.push(`Soil nitrogen is low (${soil.nitrogen} mg/kg); a legume rebuilds it`);
+      } else if (profile.demand === "heavy") {
+        score -= 10;
+        reasons.push(`Soil nitrogen is low (${soil.nitrogen} mg/kg) for a heavy feeder`);
+      }
+    }
+    if (soil.organicMatter != null && soil.organicMatter < SOIL_THRESHOLDS.organicMatter && profile.demand === "heavy") {
+      score -= 5;
+      reasons.push(`Organic matter is low (${soil.organicMatter}%) for a heavy feeder`);
+    }
+    if (soil.potassium != null && soil.potassium < SOIL_THRESHOLDS.potassium && TUBER_FAMILIES.has(profile.family ?? "")) {
+      score -= 5;
+      reasons.push(`Soil potassium is low (${soil.potassium} mg/kg) for a root or tuber crop`);
+    }
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), reasons, violations };
+}
+
+/** Candidates best first; ties keep the candidates' order */
+export function rankCandidates<C extends RotationEntry>(history: RotationEntry[], candidates: C[], soil: SoilStatus | null): RankedCandidate<C>[] {
+  return candidates
+    .map((candidate, order) => ({ candidate, order, ...scoreCandidate(history, candidate, soil) }))
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ order: _order, ...ranked }) => ranked);
+}
+
+/**
+ * Faults in a sequence of crops, each checked against everything before
+ * it. With `startIndex`, the first entries are history already grown and
+ * only later ones are checked; indices are then relative to the plan.
+ */
+export function checkRotation(sequence: RotationEntry[], startIndex = 0): RotationViolation[] {
+  const violations: RotationViolation[] = [];
+  for (let i = Math.max(startIndex, 1); i < sequence.length; i++) {
+    for (const fault of rotationFaults(sequence.slice(0, i), sequence[i])) violations.push({ index: i - startIndex, ...fault });
+  }
+  const planned = sequence.slice(startIndex);
+  if (planned.length >= 3 && !planned.some(entry => entry.profile.nitrogenFixer)) {
+    violations.push({
+      index: planned.length - 1,
+      type: "no_nitrogen_fixer",
+      severity: "warning",
+      message: `No legume in ${planned.length} seasons; soil nitrogen has to come from fertilizer`,
+    });
+  }
+  return violations;
+}
+
+/** Greedy rotation: the best-scoring candidate for each season in turn */
+export function suggestRotation<C extends RotationEntry>(history: RotationEntry[], candidates: C[], soil: SoilStatus | null, seasons: number) {
+  const sequence: RotationEntry[] = [...history];
+  const picks: RankedCandidate<C>[] = [];
+  for (let season = 0; season < seasons && candidates.length; season++) {
+    // The soil test only describes the field as it is now
+    const [best] = rankCandidates(sequence, candidates, season === 0 ? soil : null);
+    picks.push(best);
+    sequence.push(best.candidate);
+  }
+  return picks;
+}
@@ -0,0 +1,421 @@
+import { and, asc, desc, eq, inArray, isNull, ne, or } from "drizzle-orm";
+import { cropCycles, crops, fields, rotationPlans, rotationPlanSeasons, soilTests } from "../../drizzle/schema";
+import type { Crop, RotationPlan } from "../../drizzle/schema";
+import { getDb } from "../db";
+import {
+  checkRotation,
+  cropProfile,
+  rankCandidates,
+  RotationError,
+  scoreCandidate,
+  suggestRotation,
+  type RotationEntry,
+  type SoilStatus,
+} from "./cropRotation";
+
+/**
+ * Crop rotation planning
+ * A field's rotation history is its crop cycles (linked by fieldId, or the
+ * field's current cycle for cycles recorded before cycles had a field),
+ * oldest first; abandoned cycles do not count and "planning" cycles count
+ * as what the field will grow next. Candidates are scored against that
+ * history and the field's latest soil test (a farm-wide test when the field
+ * has none). Plans are saved as drafts with the faults found in them and
+ * become "planning" crop cycles when accepted.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function dateOnly(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function num(value: string | null | undefined): number | null {
+  return value === null || value === undefined ? null : parseFloat(value);
+}
+
+async function requireField(db: Db, farmId: number, fieldId: number) {
+  const [field] = await db
+    .select()
+    .from(fields)
+    .where(and(eq(fields.id, fieldId), eq(fields.farmId, farmId)))
+    .limit(1);
+  if (!field) throw new RotationError("Field not found on this farm");
+  return field;
+}
+
+async function requirePlan(db: Db, farmId: number, planId: number) {
+  const [plan] = await db
+    .select()
+    .from(rotationPlans)
+    .where(and(eq(rotationPlans.id, planId), eq(rotationPlans.farmId, farmId)))
+    .limit(1);
+  if (!plan) throw new RotationError("Rotation plan not found on this farm");
+  return plan;
+}
+
+function cropEntry(crop: Pick<Crop, "cropName" | "scientificName" | "botanicalFamily">): RotationEntry {
+  return { cropName: crop.cropName, profile: cropProfile(crop) };
+}
+
+/** The field's cycles with their crops, oldest first; grown ones then planned ones */
+async function fieldCycles(db: Db, field: { id: number; farmId: number; currentCropCycleId: number | null }) {
+  const rows = await db
+    .select({ cycle: cropCycles, crop: crops })
+    .from(cropCycles)
+    .innerJoin(crops, eq(crops.id, cropCycles.cropId))
+    .where(and(
+      eq(cropCycles.farmId, field.farmId),
+      field.currentCropCycleId !== null
+        ? or(eq(cropCycles.fieldId, field.id), eq(cropCycles.id, field.currentCropCycleId))
+        : eq(cropCycles.fieldId, field.id),
+      ne(cropCycles.status, "abandoned")
+    ))
+    .orderBy(asc(cropCycles.plantingDate), asc(cropCycles.id));
+  const cycles = rows.map(row => ({
+    cycleId: row.cycle.id,
+    cropId: row.crop.id,
+    cropName: row.crop.cropName,
+    varietyName: row.cycle.varietyName,
+    plantingDate: toDate(row.cycle.plantingDate),
+    harvestDate: row.cycle.actualHarvestDate ? toDate(row.cycle.actualHarvestDate) : null,
+    status: row.cycle.status,
+    profile: cropProfile(row.crop),
+  }));
+  return {
+    grown: cycles.filter(cycle => cycle.status !== "planning"),
+    planned: cycles.filter(cycle => cycle.status === "planning"),
+  };
+}
+
+async function latestSoilTest(db: Db, farmId: number, fieldId: number) {
+  const [test] = await db
+    .select()
+    .from(soilTests)
+    .where(and(eq(soilTests.farmId, farmId), or(eq(soilTests.fieldId, fieldId), isNull(soilTests.fieldId))))
+    // A test of the field itself beats a farm-wide one, whatever their dates
+    .orderBy(asc(isNull(soilTests.fieldId)), desc(soilTests.testDate))
+    .limit(1);
+  return test ?? null;
+}
+
+function soilStatus(test: Awaited<ReturnType<typeof latestSoilTest>>): SoilStatus | null {
+  if (!test) return null;
+  return {
+    ph: num(test.phLevel),
+    nitrogen: num(test.nitrogenLevel),
+    phosphorus: num(test.phosphorusLevel),
+    potassium: num(test.potassiumLevel),
+    organicMatter: num(test.organicMatter),
+  };
+}
+
+async function candidateCrops(db: Db, cropIds?: number[]) {
+  const rows = cropIds?.length
+    ? await db.select().from(crops).where(inArray(crops.id, cropIds))
+    : await db.select().from(crops).orderBy(asc(crops.cropName));
+  return rows.map(crop => ({ cropId: crop.id, ...cropEntry(crop) }));
+}
+
+/** What the field grew, what is planned, its soil test and the rotation faults so far */
+export async function getFieldRotation(farmId: number, fieldId: number) {
+  const db = await requireDb();
+  const field = await requireField(db, farmId, fieldId);
+  const { grown, planned } = await fieldCycles(db, field);
+  const soilTest = await latestSoilTest(db, farmId, fieldId);
+  const sequence = [...grown, ...planned];
+  return {
+    field: { id: field.id, fieldName: field.fieldName, fieldCode: field.fieldCode, areaHectares: num(field.areaHectares) },
+    history: grown,
+    planned,
+    soilTest,
+    violations: checkRotation(sequence).map(violation => ({ ...violation, cycleId: sequence[violation.index].cycleId })),
+  };
+}
+
+/** Candidate crops for the field's next season, best first */
+export async function recommendNextCrops(farmId: number, fieldId: number, options: { cropIds?: number[]; limit?: number } = {}) {
+  const db = await requireDb();
+  const field = await requireField(db, farmId, fieldId);
+  const { grown, planned } = await fieldCycles(db, field);
+  const soilTest = await latestSoilTest(db, farmId, fieldId);
+  const ranked = rankCandidates([...grown, ...planned], await candidateCrops(db, options.cropIds), soilStatus(soilTest));
+  return {
+    fieldId,
+    after: [...grown, ...planned].at(-1)?.cropName ?? null,
+    soilTestDate: soilTest?.testDate ?? null,
+    candidates: ranked.slice(0, options.limit ?? 10).map(({ candidate, score, reasons, violations }) => ({
+      cropId: candidate.cropId,
+      cropName: candidate.cropName,
+      family: candidate.profile.family,
+      score,
+      reasons,
+      violations,
+    })),
+  };
+}
+
+/** A sequence of crops for the coming seasons, for the farmer to date and save as a plan */
+export async function suggestFieldRotation(farmId: number, fieldId: number, seasons: number, cropIds?: number[]) {
+  const db = await requireDb();
+  const field = await requireField(db, farmId, fieldId);
+  const { grown, planned } = await fieldCycles(db, field);
+  const soil = soilStatus(await latestSoilTest(db, farmId, fieldId));
+  const picks = suggestRotation([...grown, ...planned], await candidateCrops(db, cropIds), soil, seasons);
+  return picks.map(({ candidate, score, reasons }, index) => ({
+    season: index + 1,
+    cropId: candidate.cropId,
+    cropName: candidate.cropName,
+    family: candidate.profile.family,
+    score,
+    reasons,
+  }));
+}
+
+export interface PlanSeasonInput {
+  cropId: number;
+  varietyName?: string;
+  plantingDate: Date;
+  expectedHarvestDate?: Date;
+}
+
+/** Score each season against the history and the seasons before it, and collect the faults */
+async function evaluatePlan(db: Db, field: Awaited<ReturnType<typeof requireField>>, seasons: PlanSeasonInput[]) {
+  if (!seasons.length) throw new RotationError("A rotation plan needs at least one season");
+  for (let i = 1; i < seasons.length; i++) {
+    if (seasons[i].plantingDate <= seasons[i - 1].plantingDate) throw new RotationError(`Season ${i + 1} must be planted after season ${i}`);
+  }
+  for (const [i, season] of seasons.entries()) {
+    if (season.expectedHarvestDate && season.expectedHarvestDate <= season.plantingDate) {
+      throw new RotationError(`Season ${i + 1} must be harvested after it is planted`);
+    }
+  }
+
+  const { grown, planned } = await fieldCycles(db, field);
+  const history = [...grown, ...planned];
+  const last = history.at(-1);
+  if (last && dateOnly(seasons[0].plantingDate) <= dateOnly(last.plantingDate)) {
+    throw new RotationError(`The plan must start after ${last.cropName} planted on ${last.plantingDate.toISOString().slice(0, 10)}`);
+  }
+
+  const cropRows = await db.select().from(crops).where(inArray(crops.id, [...new Set(seasons.map(season => season.cropId))]));
+  const byId = new Map(cropRows.map(crop => [crop.id, crop]));
+  const entries = seasons.map(season => {
+    const crop = byId.get(season.cropId);
+    if (!crop) throw new RotationError(`Crop ${season.cropId} not found`);
+    return cropEntry(crop);
+  });
+
+  const soil = soilStatus(await latestSoilTest(db, field.farmId, field.id));
+  const scored = entries.map((entry, i) => scoreCandidate([...history, ...entries.slice(0, i)], entry, i === 0 ? soil : null));
+  const violations = checkRotation([...history, ...entries], history.length);
+  return {
+    scored,
+    violations,
+    score: Math.round(scored.reduce((sum, season) => sum + season.score, 0) / scored.length),
+  };
+}
+
+/** Save a plan as a draft with its scores and rotation faults */
+export async function createRotationPlan(input: {
+  farmId: number;
+  fieldId: number;
+  name: string;
+  notes?: string;
+  seasons: PlanSeasonInput[];
+  createdBy?: number;
+}) {
+  const db = await requireDb();
+  const field = await requireField(db, input.farmId, input.fieldId);
+  const evaluation = await evaluatePlan(db, field, input.seasons);
+
+  const planId = await db.transaction(async tx => {
+    const [header] = await tx.insert(rotationPlans).values({
+      farmId: input.farmId,
+      fieldId: input.fieldId,
+      name: input.name,
+      notes: input.notes ?? null,
+      score: evaluation.score,
+      violations: evaluation.violations,
+      createdBy: input.createdBy ?? null,
+    });
+    await tx.insert(rotationPlanSeasons).values(input.seasons.map((season, i) => ({
+      planId: header.insertId,
+      sequence: i + 1,
+      cropId: season.cropId,
+      varietyName: season.varietyName ?? null,
+      plantingDate: dateOnly(season.plantingDate),
+      expectedHarvestDate: season.expectedHarvestDate ? dateOnly(season.expectedHarvestDate) : null,
+      score: evaluation.scored[i].score,
+      reasons: evaluation.scored[i].reasons,
+    })));
+    return header.insertId;
+  });
+  return { planId, score: evaluation.score, violations: evaluation.violations };
+}
+
+export async function listRotationPlans(farmId: number, fieldId?: number) {
+  const db = await requireDb();
+  return db
+    .select({ plan: rotationPlans, fieldName: fields.fieldName })
+    .from(rotationPlans)
+    .innerJoin(fields, eq(fields.id, rotationPlans.fieldId))
+    .where(and(eq(rotationPlans.farmId, farmId), fieldId !== undefined ? eq(rotationPlans.fieldId, fieldId) : undefined))
+    .orderBy(desc(rotationPlans.createdAt))
+    .then(rows => rows.map(row => ({ ...row.plan, fieldName: row.fieldName })));
+}
+
+async function planSeasons(db: Db, planId: number) {
+  return db
+    .select({ season: rotationPlanSeasons, cropName: crops.cropName })
+    .from(rotationPlanSeasons)
+    .innerJoin(crops, eq(crops.id, rotationPlanSeasons.cropId))
+    .where(eq(rotationPlanSeasons.planId, planId))
+    .orderBy(asc(rotationPlanSeasons.sequence))
+    .then(rows => rows.map(row => ({ ...row.season, cropName: row.cropName })));
+}
+
+export async function getRotationPlan(farmId: number, planId: number) {
+  const db = await requireDb();
+  const plan = await requirePlan(db, farmId, planId);
+  return { ...plan, seasons: await planSeasons(db, planId) };
+}
+
+function requireDraft(plan: RotationPlan) {
+  if (plan.status !== "draft") throw new RotationError(`The plan is ${plan.status}`);
+}
+
+/**
+ * Accept a draft: re-checks it against the field as it is now and creates a
+ * "planning" crop cycle per season. Plans with a same-family repeat need
+ * the faults acknowledged.
+ */
+export async function acceptRotationPlan(farmId: number, planId: number, options: { acceptedBy?: number; acknowledgeViolations?: boolean } = {}) {
+  const db = await requireDb();
+  const plan = await requirePlan(db, farmId, planId);
+  requireDraft(plan);
+  const field = await requireField(db, farmId, plan.fieldId);
+  const seasons = await planSeasons(db, planId);
+  const evaluation = await evaluatePlan(db, field, seasons.map(season => ({
+    cropId: season.cropId,
+    plantingDate: toDate(season.plantingDate),
+    expectedHarvestDate: season.expectedHarvestDate ? toDate(season.expectedHarvestDate) : undefined,
+  })));
+  const errors = evaluation.violations.filter(violation => violation.severity === "error");
+  if (errors.length && !options.acknowledgeViolations) {
+    throw new RotationError(`The plan breaks the rotation: ${errors.map(error => error.message).join("; ")}`);
+  }
+
+  const cycleIds = await db.transaction(async tx => {
+    const created: number[] = [];
+    for (const season of seasons) {
+      const [header] = await tx.insert(cropCycles).values({
+        farmId,
+        fieldId: field.id,
+        cropId: season.cropId,
+        varietyName: season.varietyName,
+        plantingDate: toDate(season.plantingDate),
+        expectedHarvestDate: season.expectedHarvestDate ? toDate(season.expectedHarvestDate) : null,
+        areaPlantedHectares: field.areaHectares,
+        status: "planning",
+      });
+      await tx.update(rotationPlanSeasons).set({ cycleId: header.insertId }).where(eq(rotationPlanSeasons.id, season.id));
+      created.push(header.insertId);
+    }
+    await tx
+      .update(rotationPlans)
+      .set({
+        status: "accepted",
+        score: evaluation.score,
+        violations: evaluation.violations,
+        acceptedBy: options.acceptedBy ?? null,
+        acceptedAt: new Date(),
+      })
+      .where(eq(rotationPlans.id, planId));
+    return created;
+  });
+  return { planId, cycleIds, violations: evaluation.violations };
+}
+
+/** Cancel a plan; an accepted plan's cycles that are still only planned are removed */
+export async function cancelRotationPlan(farmId: number, planId: number) {
+  const db = await requireDb();
+  const plan = await requirePlan(db, farmId, planId);
+  if (plan.status === "cancelled") return { planId, removedCycles: 0 };
+
+  return db.transaction(async tx => {
+    let removedCycles = 0;
+    if (plan.status === "accepted") {
+      const seasons = await tx.select({ cycleId: rotationPlanSeasons.cycleId }).from(rotationPlanSeasons).where(eq(rotationPlanSeasons.planId, planId));
+      const cycleIds = seasons.map(season => season.cycleId).filter((id): id is number => id !== null);
+      if (cycleIds.length) {
+        const [removed] = await tx
+          .delete(cropCycles)
+          .where(and(inArray(cropCycles.id, cycleIds), eq(cropCycles.status, "planning")));
+        removedCycles = removed.affectedRows;
+      }
+    }
+    await tx.update(rotationPlans).set({ status: "cancelled" }).where(eq(rotationPlans.id, planId));
+    return { planId, removedCycles };
+  });
+}
+
+/** Rotation faults in every field's grown and planned cycles */
+export async function rotationViolationsReport(farmId: number) {
+  const db = await requireDb();
+  const farmFields = await db
+    .select()
+    .from(fields)
+    .where(and(eq(fields.farmId, farmId), ne(fields.fieldStatus, "archived")))
+    .orderBy(asc(fields.fieldCode));
+
+  const report: Array<{
+    fieldId: number;
+    fieldName: string;
+    fieldCode: string;
+    violations: Array<ReturnType<typeof checkRotation>[number] & { cycleId: number; planned: boolean }>;
+  }> = [];
+  for (const field of farmFields) {
+    const { grown, planned } = await fieldCycles(db, field);
+    const sequence = [...grown, ...planned];
+    const violations = checkRotation(sequence);
+    if (!violations.length) continue;
+    report.push({
+      fieldId: field.id,
+      fieldName: field.fieldName,
+      fieldCode: field.fieldCode,
+      violations: violations.map(violation => ({
+        ...violation,
+        cycleId: sequence[violation.index].cycleId,
+        planned: sequence[violation.index].status === "planning",
+      })),
+    });
+  }
+  return {
+    farmId,
+    fieldsChecked: farmFields.length,
+    fieldsWithViolations: report.length,
+    errors: report.reduce((sum, field) => sum + field.violations.filter(violation => violation.severity === "error").length, 0),
+    fields: report,
+  };
+}
+
+/** Record a crop's botanical family where its name does not give it away */
+export async function setCropFamily(cropId: number, botanicalFamily: string | null) {
+  const db = await requireDb();
+  const [crop] = await db.select().from(crops).where(eq(crops.id, cropId)).limit(1);
+  if (!crop) throw new RotationError("Crop not found");
+  const family = botanicalFamily?.trim() || null;
+  await db.update(crops).set({ botanicalFamily: family }).where(eq(crops.id, cropId));
+  return { cropId, profile: cropProfile({ ...crop, botanicalFamily: family }) };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  dailyYields,
+  daysInMilk,
+  fitWoodCurve,
+  lactationPeak,
+  project305,
+  reconcileBulkTank,
+  sccLinearScore,
+  summarizeMilkQuality,
+  weightedHerdScc,
+  woodYield,
+} from "./dairy";
+
+const curve = { a: 15, b: 0.2, c: 0.004 };
+const testDays = [10, 40, 70, 100, 130, 160].map(dim => ({ dim, liters: woodYield(curve, dim) }));
+
+describe("days in milk", () => {
+  it("counts whole days from calving and sums sessions per day", () => {
+    const calving = new Date("2026-01-01T00:00:00Z");
+    expect(daysInMilk(calving, new Date("2026-01-31T17:00:00Z"))).toBe(30);
+    expect(
+      dailyYields(
+        [
+          { milkedAt: new Date("2026-01-02T06:00:00Z"), liters: 8 },
+          { milkedAt: new Date("2026-01-02T17:00:00Z"), liters: 6.5 },
+          { milkedAt: new Date("2025-12-30T06:00:00Z"), liters: 3 },
+        ],
+        calving
+      )
+    ).toEqual([{ dim: 1, liters: 14.5 }]);
+  });
+});
+
+describe("fitWoodCurve", () => {
+  it("recovers the curve behind monthly test days", () => {
+    const fitted = fitWoodCurve(testDays)!;
+    expect(fitted.a).toBeCloseTo(15, 3);
+    expect(fitted.b).toBeCloseTo(0.2, 5);
+    expect(fitted.c).toBeCloseTo(0.004, 6);
+    expect(lactationPeak(testDays, fitted)).toMatchObject({ dim: 50 });
+  });
+
+  it("refuses too few days or a curve still rising", () => {
+    expect(fitWoodCurve(testDays.slice(0, 2))).toBeNull();
+    expect(fitWoodCurve([{ dim: 5, liters: 10 }, { dim: 10, liters: 12 }, { dim: 15, liters: 14 }, { dim: 20, liters: 16 }])).toBeNull();
+  });
+});
+
+describe("project305", () => {
+  it("extends a fitted curve to day 305", () => {
+    const fitted = fitWoodCurve(testDays);
+    const projection = project305(testDays, { curve: fitted })!;
+    let exact = 0;
+    for (let dim = 1; dim <= 305; dim++) exact += woodYield(curve, dim);
+    expect(projection.method).toBe("wood");
+    expect(projection.lastRecordedDim).toBe(160);
+    expect(Math.abs(projection.projected305Liters - exact) / exact).toBeLessThan(0.02);
+  });
+
+  it("stops at dry-off instead of extrapolating", () => {
+    const points = [{ dim: 10, liters: 20 }, { dim: 20, liters: 10 }];
+    const projection = project305(points, { dryOffDim: 20 })!;
+    // days 1-10 at 20 L, days 11-20 falling by 1 L a day
+    expect(projection).toMatchObject({ method: "complete", projected305Liters: 200 + 145 });
+  });
+
+  it("falls back to persistency from the last week's average", () => {
+    const points = [{ dim: 1, liters: 10 }, { dim: 2, liters: 10 }];
+    const projection = project305(points, { monthlyPersistency: 1 })!;
+    expect(projection.method).toBe("persistency");
+    expect(projection.projected305Liters).toBeCloseTo(3050, 6);
+  });
+});
+
+describe("milk quality", () => {
+  it("weights composition by yield and flags a high latest cell count", () => {
+    const quality = summarizeMilkQuality([
+      { testDate: new Date("2026-03-01"), yieldLiters: 30, fatPercent: 3.5, proteinPercent: 3.1, somaticCellCount: 90_000 },
+      { testDate: new Date("2026-04-01"), yieldLiters: 10, fatPercent: 4.3, proteinPercent: 3.5, somaticCellCount: 400_000 },
+    ]);
+    expect(quality.fatPercent).toBeCloseTo(3.7, 6);
+    expect(quality.latestSomaticCellCount).toBe(400_000);
+    expect(quality.latestLinearScore).toBeCloseTo(5, 6);
+    expect(quality).toMatchObject({ highSccTests: 1, suspectedMastitis: true });
+    expect(sccLinearScore(100_000)).toBe(3);
+  });
+
+  it("weights herd cell count by yield", () => {
+    expect(weightedHerdScc([{ liters: 30, somaticCellCount: 100_000 }, { liters: 10, somaticCellCount: 500_000 }, { liters: 5, somaticCellCount: null }])).toBe(200_000);
+  });
+});
+
+describe("reconcileBulkTank", () => {
+  it("leaves withheld milk out of the expected tank volume", () => {
+    const result = reconcileBulkTank([
+      { date: "2026-04-01", recordedLiters: 410, heldLiters: 20, tankLiters: 385 },
+      { date: "2026-04-02", recordedLiters: 400, heldLiters: 0, tankLiters: 350 },
+    ]);
+    expect(result.days[0]).toMatchObject({ expectedLiters: 390, differenceLiters: -5, flagged: false });
+    expect(result.days[1]).toMatchObject({ differenceLiters: -50, flagged: true });
+    expect(result.totals).toMatchObject({ expectedLiters: 790, tankLiters: 735, differenceLiters: -55 });
+    expect(result.flaggedDays).toBe(1);
+  });
+});
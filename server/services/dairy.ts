@@ -0,0 +1,273 @@
+/**
+ * Dairy lactation maths
+ * Days in milk, lactation curves, 305-day projections, milk quality and
+ * bulk tank reconciliation. No database access; dairyService feeds it
+ * milkings, test days and tank collections.
+ *
+ * Curves use Wood's model y(t) = a·t^b·e^(−ct), fitted by least squares on
+ * ln y. Between recorded days yields are interpolated linearly (the test
+ * interval method); after the last record the fitted curve carries the
+ * lactation to day 305, or, when the records do not yet show a decline,
+ * the last week's average falling at a typical persistency.
+ */
+
+export const STANDARD_LACTATION_DAYS = 305;
+/** Share of the previous month's yield kept each month after peak */
+export const DEFAULT_MONTHLY_PERSISTENCY = 0.93;
+/** Somatic cell count (cells/mL) above which a cow is flagged for subclinical mastitis */
+export const SCC_MASTITIS_THRESHOLD = 200_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DairyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DairyError";
+  }
+}
+
+export interface DailyYield {
+  dim: number;
+  liters: number;
+}
+
+export interface WoodCurve {
+  a: number;
+  b: number;
+  c: number;
+}
+
+function utcDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+/** Whole days since calving; the calving day itself is day 0 */
+export function daysInMilk(calvingDate: Date, on: Date): number {
+  return utcDay(on) - utcDay(calvingDate);
+}
+
+/** Sum milkings into one yield per day in milk, dropping anything before calving */
+export function dailyYields(milkings: Array<{ milkedAt: Date; liters: number }>, calvingDate: Date): DailyYield[] {
+  const byDay = new Map<number, number>();
+  for (const milking of milkings) {
+    const dim = daysInMilk(calvingDate, milking.milkedAt);
+    if (dim < 0) continue;
+    byDay.set(dim, (byDay.get(dim) ?? 0) + milking.liters);
+  }
+  return [...byDay.entries()].map(([dim, liters]) => ({ dim, liters })).sort((a, b) => a.dim - b.dim);
+}
+
+function solve3(m: number[][], v: number[]): number[] | null {
+  const rows = m.map((row, i) => [...row, v[i]]);
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    if (Math.abs(rows[pivot][col]) < 1e-9) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < 3; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 4; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return rows.map((row, i) => row[3] / row[i]);
+}
+
+/**
+ * Least-squares Wood curve. Returns null with fewer than three distinct days
+ * or when the fit has no decline yet (b or c not positive), since such a
+ * curve would grow without limit.
+ */
+export function fitWoodCurve(points: DailyYield[]): WoodCurve | null {
+  const usable = points.filter(point => point.dim >= 1 && point.liters > 0);
+  if (new Set(usable.map(point => point.dim)).size < 3) return null;
+
+  const xtx = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const xty = [0, 0, 0];
+  for (const { dim, liters } of usable) {
+    const x = [1, Math.log(dim), -dim];
+    const y = Math.log(liters);
+    for (let i = 0; i < 3; i++) {
+      xty[i] += x[i] * y;
+      for (let j = 0; j < 3; j++) xtx[i][j] += x[i] * x[j];
+    }
+  }
+  const solution = solve3(xtx, xty);
+  if (!solution) return null;
+  const [lnA, b, c] = solution;
+  if (!(b > 0 && c > 0) || !Number.isFinite(lnA)) return null;
+  return { a: Math.exp(lnA), b, c };
+}
+
+export function woodYield(curve: WoodCurve, dim: number): number {
+  const t = Math.max(1, dim);
+  return curve.a * t ** curve.b * Math.exp(-curve.c * t);
+}
+
+/** Peak day and yield: from the curve when there is one, otherwise the best recorded day */
+export function lactationPeak(points: DailyYield[], curve: WoodCurve | null): DailyYield | null {
+  if (curve) {
+    const dim = Math.round(curve.b / curve.c);
+    if (dim >= 1 && dim <= STANDARD_LACTATION_DAYS) return { dim, liters: woodYield(curve, dim) };
+  }
+  return points.reduce<DailyYield | null>((best, point) => (!best || point.liters > best.liters ? point : best), null);
+}
+
+export interface LactationProjection {
+  /** Yield up to the last recorded day, gaps filled by interpolation */
+  toDateLiters: number;
+  /** Whole-lactation yield to day 305 (or to dry-off when that came first) */
+  projected305Liters: number;
+  method: "complete" | "wood" | "persistency";
+  lastRecordedDim: number;
+}
+
+/**
+ * 305-day yield. Recorded days are interpolated linearly (the first
+ * recorded yield is taken back to calving). A lactation dried off before
+ * day 305 is not extrapolated.
+ */
+export function project305(
+  points: DailyYield[],
+  options: { curve?: WoodCurve | null; dryOffDim?: number | null; monthlyPersistency?: number } = {}
+): LactationProjection | null {
+  const recorded = points.filter(point => point.dim <= STANDARD_LACTATION_DAYS);
+  if (!recorded.length) return null;
+
+  const last = recorded[recorded.length - 1];
+  const end = Math.min(STANDARD_LACTATION_DAYS, options.dryOffDim ?? STANDARD_LACTATION_DAYS);
+  const lastDim = Math.min(last.dim, end);
+
+  let toDate = 0;
+  let index = 0;
+  for (let dim = 1; dim <= lastDim; dim++) {
+    while (index < recorded.length - 1 && recorded[index + 1].dim < dim) index++;
+    const left = recorded[index];
+    const right = recorded[Math.min(index + 1, recorded.length - 1)];
+    if (dim <= left.dim || right.dim === left.dim) {
+      toDate += dim <= left.dim ? left.liters : right.liters;
+    } else {
+      toDate += left.liters + ((right.liters - left.liters) * (dim - left.dim)) / (right.dim - left.dim);
+    }
+  }
+
+  if (options.dryOffDim != null && options.dryOffDim <= last.dim) {
+    return { toDateLiters: toDate, projected305Liters: toDate, method: "complete", lastRecordedDim: last.dim };
+  }
+
+  let remaining = 0;
+  const curve = options.curve ?? null;
+  if (curve) {
+    for (let dim = lastDim + 1; dim <= end; dim++) remaining += woodYield(curve, dim);
+  } else {
+    const week = recorded.filter(point => point.dim > last.dim - 7);
+    const average = week.reduce((sum, point) => sum + point.liters, 0) / week.length;
+    const daily = (options.monthlyPersistency ?? DEFAULT_MONTHLY_PERSISTENCY) ** (1 / 30);
+    for (let dim = lastDim + 1; dim <= end; dim++) remaining += average * daily ** (dim - lastDim);
+  }
+  return {
+    toDateLiters: toDate,
+    projected305Liters: toDate + remaining,
+    method: curve ? "wood" : "persistency",
+    lastRecordedDim: last.dim,
+  };
+}
+
+/** ICAR linear score for a somatic cell count in cells/mL */
+export function sccLinearScore(scc: number): number {
+  return Math.log2(scc / 100_000) + 3;
+}
+
+export interface MilkTestResult {
+  testDate: Date;
+  yieldLiters: number | null;
+  fatPercent: number | null;
+  proteinPercent: number | null;
+  somaticCellCount: number | null;
+}
+
+/**
+ * Per-cow quality over a lactation: yield-weighted fat and protein, the
+ * latest cell count and how many tests were over the mastitis threshold
+ */
+export function summarizeMilkQuality(tests: MilkTestResult[]) {
+  const sorted = [...tests].sort((a, b) => a.testDate.getTime() - b.testDate.getTime());
+  const weighted = (pick: (test: MilkTestResult) => number | null) => {
+    let sum = 0;
+    let weight = 0;
+    for (const test of sorted) {
+      const value = pick(test);
+      if (value === null) continue;
+      const w = test.yieldLiters ?? 1;
+      sum += value * w;
+      weight += w;
+    }
+    return weight ? sum / weight : null;
+  };
+  const counted = sorted.filter(test => test.somaticCellCount !== null);
+  const latest = counted[counted.length - 1] ?? null;
+  return {
+    tests: sorted.length,
+    fatPercent: weighted(test => test.fatPercent),
+    proteinPercent: weighted(test => test.proteinPercent),
+    latestSomaticCellCount: latest?.somaticCellCount ?? null,
+    latestLinearScore: latest ? sccLinearScore(latest.somaticCellCount!) : null,
+    highSccTests: counted.filter(test => test.somaticCellCount! > SCC_MASTITIS_THRESHOLD).length,
+    suspectedMastitis: latest !== null && latest.somaticCellCount! > SCC_MASTITIS_THRESHOLD,
+  };
+}
+
+export interface TankDay {
+  date: string;
+  /** Milk recorded from cows that day */
+  recordedLiters: number;
+  /** Part of recordedLiters withheld for drug withdrawal; it should not be in the tank */
+  heldLiters: number;
+  /** Volume collected from the bulk tank */
+  tankLiters: number;
+}
+
+/**
+ * Compare what the cows gave (less withheld milk) with what left in the
+ * tank. Positive differences mean more in the tank than recorded.
+ */
+export function reconcileBulkTank(days: TankDay[], tolerancePercent = 5) {
+  const rows = days.map(day => {
+    const expectedLiters = day.recordedLiters - day.heldLiters;
+    const differenceLiters = day.tankLiters - expectedLiters;
+    const differencePercent = expectedLiters > 0 ? (differenceLiters / expectedLiters) * 100 : null;
+    return {
+      ...day,
+      expectedLiters,
+      differenceLiters,
+      differencePercent,
+      flagged: differencePercent === null ? day.tankLiters > 0 : Math.abs(differencePercent) > tolerancePercent,
+    };
+  });
+  const expected = rows.reduce((sum, row) => sum + row.expectedLiters, 0);
+  const tank = rows.reduce((sum, row) => sum + row.tankLiters, 0);
+  return {
+    days: rows,
+    totals: {
+      recordedLiters: rows.reduce((sum, row) => sum + row.recordedLiters, 0),
+      heldLiters: rows.reduce((sum, row) => sum + row.heldLiters, 0),
+      expectedLiters: expected,
+      tankLiters: tank,
+      differenceLiters: tank - expected,
+      differencePercent: expected > 0 ? ((tank - expected) / expected) * 100 : null,
+    },
+    flaggedDays: rows.filter(row => row.flagged).length,
+  };
+}
+
+/** Yield-weighted herd cell count, to set against the tank's own count */
+export function weightedHerdScc(cows: Array<{ liters: number; somaticCellCount: number | null }>): number | null {
+  let cells = 0;
+  let liters = 0;
+  for (const cow of cows) {
+    if (cow.somaticCellCount === null || cow.liters <= 0) continue;
+    cells += cow.somaticCellCount * cow.liters;
+    liters += cow.liters;
+  }
+  return liters ? Math.round(cells / liters) : null;
+}
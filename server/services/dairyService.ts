@@ -0,0 +1,494 @@
+import { and, asc, desc, eq, gte, inArray, lte, max } from "drizzle-orm";
+import {
+  animals,
+  breedingRecords,
+  bulkTankCollections,
+  lactations,
+  milkings,
+  milkTests,
+  performanceMetrics,
+  type Lactation,
+} from "../../drizzle/schema";
+import { getDb } from "../db";
+import {
+  dailyYields,
+  DairyError,
+  daysInMilk,
+  fitWoodCurve,
+  lactationPeak,
+  project305,
+  reconcileBulkTank,
+  SCC_MASTITIS_THRESHOLD,
+  summarizeMilkQuality,
+  weightedHerdScc,
+  type TankDay,
+} from "./dairy";
+import { productionHold } from "./withdrawalService";
+
+/**
+ * Dairy herd recording
+ * Calvings open a lactation (and settle the breeding record that led to
+ * them), dry-off closes it. Milkings are stored per session and rolled up
+ * into the day's performanceMetrics row so existing reports keep working;
+ * milk from a cow in drug withdrawal is recorded but held out of the tank
+ * reconciliation.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+/** Breedings older than this before a calving are not taken to be its cause */
+const MAX_GESTATION_DAYS = 320;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function dateOnly(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function requireFarmAnimal(db: Db, farmId: number, animalId: number) {
+  const [animal] = await db
+    .select({ id: animals.id, farmId: animals.farmId, gender: animals.gender, tag: animals.uniqueTagId })
+    .from(animals)
+    .where(and(eq(animals.id, animalId), eq(animals.farmId, farmId)))
+    .limit(1);
+  if (!animal) throw new DairyError("Animal not found on this farm");
+  return animal;
+}
+
+async function currentLactation(db: Db, animalId: number) {
+  const [lactation] = await db
+    .select()
+    .from(lactations)
+    .where(eq(lactations.animalId, animalId))
+    .orderBy(desc(lactations.lactationNumber))
+    .limit(1);
+  return lactation ?? null;
+}
+
+export interface CalvingInput {
+  farmId: number;
+  animalId: number;
+  calvingDate: Date;
+  breedingRecordId?: number;
+  /** For cows whose earlier lactations were never recorded */
+  lactationNumber?: number;
+  calvingEase?: "unassisted" | "assisted" | "difficult" | "caesarean";
+  notes?: string;
+}
+
+/**
+ * Open a new lactation. Any earlier lactation is ended, and the breeding
+ * that led to the calving (given, or the latest pending or confirmed one
+ * within a gestation of the calving date) is marked successful.
+ */
+export async function recordCalving(input: CalvingInput) {
+  const db = await requireDb();
+  const animal = await requireFarmAnimal(db, input.farmId, input.animalId);
+  if (animal.gender === "male") throw new DairyError("Only females can calve");
+  const calvingDate = dateOnly(input.calvingDate);
+
+  const previous = await currentLactation(db, animal.id);
+  if (previous && toDate(previous.calvingDate) >= calvingDate) {
+    throw new DairyError("A later calving is already recorded for this animal");
+  }
+
+  let breedingRecordId = input.breedingRecordId ?? null;
+  if (breedingRecordId !== null) {
+    const [breeding] = await db
+      .select({ id: breedingRecords.id })
+      .from(breedingRecords)
+      .where(and(eq(breedingRecords.id, breedingRecordId), eq(breedingRecords.animalId, animal.id)))
+      .limit(1);
+    if (!breeding) throw new DairyError("Breeding record not found for this animal");
+  } else {
+    const [breeding] = await db
+      .select({ id: breedingRecords.id })
+      .from(breedingRecords)
+      .where(and(
+        eq(breedingRecords.animalId, animal.id),
+        eq(breedingRecords.kind, "service"),
+        inArray(breedingRecords.outcome, ["pending", "successful"]),
+        lte(breedingRecords.breedingDate, calvingDate),
+        gte(breedingRecords.breedingDate, new Date(calvingDate.getTime() - MAX_GESTATION_DAYS * DAY_MS))
+      ))
+      .orderBy(desc(breedingRecords.breedingDate))
+      .limit(1);
+    breedingRecordId = breeding?.id ?? null;
+  }
+
+  if (previous && previous.status !== "ended") {
+    await db
+      .update(lactations)
+      .set({ status: "ended", dryOffDate: previous.dryOffDate ?? calvingDate })
+      .where(eq(lactations.id, previous.id));
+  }
+  if (breedingRecordId !== null) {
+    await db.update(breedingRecords).set({ outcome: "successful" }).where(eq(breedingRecords.id, breedingRecordId));
+  }
+
+  const lactationNumber = input.lactationNumber ?? (previous?.lactationNumber ?? 0) + 1;
+  const [header] = await db.insert(lactations).ignore().values({
+    farmId: animal.farmId,
+    animalId: animal.id,
+    lactationNumber,
+    calvingDate,
+    breedingRecordId,
+    calvingEase: input.calvingEase,
+    notes: input.notes,
+  });
+  if (!header.affectedRows) throw new DairyError(`Lactation ${lactationNumber} is already recorded for this animal`);
+  return { lactationId: header.insertId, lactationNumber, breedingRecordId };
+}
+
+/** Dry off the cow's current lactation */
+export async function dryOff(farmId: number, animalId: number, dryOffDate: Date) {
+  const db = await requireDb();
+  await requireFarmAnimal(db, farmId, animalId);
+  const lactation = await currentLactation(db, animalId);
+  if (!lactation || lactation.status !== "milking") throw new DairyError("This animal is not in milk");
+  const date = dateOnly(dryOffDate);
+  if (date < toDate(lactation.calvingDate)) throw new DairyError("Dry-off cannot be before calving");
+
+  await db.update(lactations).set({ status: "dry", dryOffDate: date }).where(eq(lactations.id, lactation.id));
+  return { lactationId: lactation.id, daysInMilk: daysInMilk(toDate(lactation.calvingDate), date) };
+}
+
+/** Total the day's milkings into performanceMetrics, the record older reports read */
+async function syncDailyMetric(db: Db, animalId: number, day: Date) {
+  const sessions = await db
+    .select({ yieldLiters: milkings.yieldLiters, withdrawalHold: milkings.withdrawalHold })
+    .from(milkings)
+    .where(and(eq(milkings.animalId, animalId), eq(milkings.milkingDate, day)));
+  const total = sessions.reduce((sum, session) => sum + Number(session.yieldLiters), 0).toFixed(2);
+  const held = sessions.some(session => session.withdrawalHold);
+
+  const [existing] = await db
+    .select({ id: performanceMetrics.id })
+    .from(performanceMetrics)
+    .where(and(eq(performanceMetrics.animalId, animalId), eq(performanceMetrics.metricDate, day)))
+    .limit(1);
+  if (existing) {
+    await db
+      .update(performanceMetrics)
+      .set({ milkYieldLiters: total, withdrawalHold: held })
+      .where(eq(performanceMetrics.id, existing.id));
+  } else {
+    await db.insert(performanceMetrics).values({ animalId, metricDate: day, milkYieldLiters: total, withdrawalHold: held });
+  }
+}
+
+export interface MilkingInput {
+  farmId: number;
+  animalId: number;
+  milkingDate: Date;
+  session: "am" | "midday" | "pm";
+  yieldLiters: number;
+  recordedBy?: number;
+}
+
+/** Record (or correct) one session's yield against the cow's lactation */
+export async function recordMilking(input: MilkingInput) {
+  const db = await requireDb();
+  await requireFarmAnimal(db, input.farmId, input.animalId);
+  const lactation = await currentLactation(db, input.animalId);
+  const day = dateOnly(input.milkingDate);
+  if (!lactation || lactation.status !== "milking") {
+    throw new DairyError("This animal is not in milk. Record a calving first.");
+  }
+  if (day < toDate(lactation.calvingDate)) throw new DairyError("Milking date is before the calving");
+
+  const hold = await productionHold(input.animalId, { milk: true }, day);
+  const values = { yieldLiters: input.yieldLiters.toFixed(2), withdrawalHold: hold.held, recordedBy: input.recordedBy ?? null };
+  await db
+    .insert(milkings)
+    .values({
+      farmId: input.farmId,
+      animalId: input.animalId,
+      lactationId: lactation.id,
+      milkingDate: day,
+      session: input.session,
+      ...values,
+    })
+    .onDuplicateKeyUpdate({ set: values });
+  await syncDailyMetric(db, input.animalId, day);
+
+  return {
+    lactationId: lactation.id,
+    daysInMilk: daysInMilk(toDate(lactation.calvingDate), day),
+    withdrawalHold: hold.held,
+    withdrawalClearAt: hold.clearAt,
+  };
+}
+
+export interface MilkTestInput {
+  farmId: number;
+  animalId: number;
+  testDate: Date;
+  yieldLiters?: number;
+  fatPercent?: number;
+  proteinPercent?: number;
+  lactosePercent?: number;
+  somaticCellCount?: number;
+  laboratory?: string;
+  notes?: string;
+}
+
+/** Record test-day results against the lactation the test date falls in */
+export async function recordMilkTest(input: MilkTestInput) {
+  const db = await requireDb();
+  await requireFarmAnimal(db, input.farmId, input.animalId);
+  const day = dateOnly(input.testDate);
+  const [lactation] = await db
+    .select()
+    .from(lactations)
+    .where(and(eq(lactations.animalId, input.animalId), lte(lactations.calvingDate, day)))
+    .orderBy(desc(lactations.calvingDate))
+    .limit(1);
+  if (!lactation) throw new DairyError("No lactation covers this test date");
+
+  const values = {
+    yieldLiters: input.yieldLiters?.toFixed(2) ?? null,
+    fatPercent: input.fatPercent?.toFixed(2) ?? null,
+    proteinPercent: input.proteinPercent?.toFixed(2) ?? null,
+    lactosePercent: input.lactosePercent?.toFixed(2) ?? null,
+    somaticCellCount: input.somaticCellCount ?? null,
+    laboratory: input.laboratory ?? null,
+    notes: input.notes ?? null,
+  };
+  await db
+    .insert(milkTests)
+    .values({ farmId: input.farmId, animalId: input.animalId, lactationId: lactation.id, testDate: day, ...values })
+    .onDuplicateKeyUpdate({ set: values });
+  return {
+    lactationId: lactation.id,
+    suspectedMastitis: input.somaticCellCount !== undefined && input.somaticCellCount > SCC_MASTITIS_THRESHOLD,
+  };
+}
+
+export async function recordBulkTankCollection(input: {
+  farmId: number;
+  collectionDate: Date;
+  volumeLiters: number;
+  buyer?: string;
+  fatPercent?: number;
+  proteinPercent?: number;
+  somaticCellCount?: number;
+  pricePerLiter?: number;
+  notes?: string;
+  recordedBy?: number;
+}) {
+  const db = await requireDb();
+  const [header] = await db.insert(bulkTankCollections).values({
+    farmId: input.farmId,
+    collectionDate: dateOnly(input.collectionDate),
+    volumeLiters: input.volumeLiters.toFixed(2),
+    buyer: input.buyer,
+    fatPercent: input.fatPercent?.toFixed(2),
+    proteinPercent: input.proteinPercent?.toFixed(2),
+    somaticCellCount: input.somaticCellCount,
+    pricePerLiter: input.pricePerLiter?.toFixed(2),
+    notes: input.notes,
+    recordedBy: input.recordedBy,
+  });
+  return { id: header.insertId };
+}
+
+function summarizeLactation(
+  lactation: Lactation,
+  sessions: Array<{ milkingDate: Date | string; yieldLiters: string; withdrawalHold: boolean }>,
+  tests: Array<typeof milkTests.$inferSelect>,
+  now: Date
+) {
+  const calving = toDate(lactation.calvingDate);
+  const points = dailyYields(sessions.map(s => ({ milkedAt: toDate(s.milkingDate), liters: Number(s.yieldLiters) })), calving);
+  const curve = fitWoodCurve(points);
+  const dryOffDim = lactation.dryOffDate ? daysInMilk(calving, toDate(lactation.dryOffDate)) : null;
+  const lastWeek = points.slice(-7);
+  return {
+    lactationId: lactation.id,
+    lactationNumber: lactation.lactationNumber,
+    calvingDate: calving,
+    breedingRecordId: lactation.breedingRecordId,
+    status: lactation.status,
+    dryOffDate: lactation.dryOffDate ? toDate(lactation.dryOffDate) : null,
+    daysInMilk: dryOffDim ?? daysInMilk(calving, now),
+    recordedDays: points.length,
+    averageDailyLiters: lastWeek.length ? lastWeek.reduce((sum, p) => sum + p.liters, 0) / lastWeek.length : null,
+    heldLiters: sessions.filter(s => s.withdrawalHold).reduce((sum, s) => sum + Number(s.yieldLiters), 0),
+    curve,
+    peak: lactationPeak(points, curve),
+    projection: project305(points, { curve, dryOffDim }),
+    dailyYields: points,
+    quality: summarizeMilkQuality(tests.map(test => ({
+      testDate: toDate(test.testDate),
+      yieldLiters: test.yieldLiters === null ? null : Number(test.yieldLiters),
+      fatPercent: test.fatPercent === null ? null : Number(test.fatPercent),
+      proteinPercent: test.proteinPercent === null ? null : Number(test.proteinPercent),
+      somaticCellCount: test.somaticCellCount,
+    }))),
+  };
+}
+
+async function loadLactationDetails(db: Db, rows: Lactation[], now: Date) {
+  if (!rows.length) return [];
+  const ids = rows.map(row => row.id);
+  const sessions = await db
+    .select({
+      lactationId: milkings.lactationId,
+      milkingDate: milkings.milkingDate,
+      yieldLiters: milkings.yieldLiters,
+      withdrawalHold: milkings.withdrawalHold,
+    })
+    .from(milkings)
+    .where(inArray(milkings.lactationId, ids))
+    .orderBy(asc(milkings.milkingDate));
+  const tests = await db.select().from(milkTests).where(inArray(milkTests.lactationId, ids));
+  return rows.map(row => summarizeLactation(
+    row,
+    sessions.filter(session => session.lactationId === row.id),
+    tests.filter(test => test.lactationId === row.id),
+    now
+  ));
+}
+
+/** Every lactation of a cow, newest first, with curve, projection and quality */
+export async function getCowLactations(farmId: number, animalId: number, now = new Date()) {
+  const db = await requireDb();
+  const animal = await requireFarmAnimal(db, farmId, animalId);
+  const rows = await db
+    .select()
+    .from(lactations)
+    .where(eq(lactations.animalId, animalId))
+    .orderBy(desc(lactations.lactationNumber));
+  return { animalId, tag: animal.tag, lactations: await loadLactationDetails(db, rows, now) };
+}
+
+/** Herd figures: cows in milk and dry, days in milk, yields, projections and cell counts */
+export async function getHerdDairySummary(farmId: number, now = new Date()) {
+  const db = await requireDb();
+  const latestNumbers = db
+    .select({ animalId: lactations.animalId, lactationNumber: max(lactations.lactationNumber).as("latestNumber") })
+    .from(lactations)
+    .where(eq(lactations.farmId, farmId))
+    .groupBy(lactations.animalId)
+    .as("latest");
+  const current = await db
+    .select({ lactation: lactations, tag: animals.uniqueTagId, animalStatus: animals.status })
+    .from(lactations)
+    .innerJoin(latestNumbers, and(
+      eq(latestNumbers.animalId, lactations.animalId),
+      eq(latestNumbers.lactationNumber, lactations.lactationNumber)
+    ))
+    .innerJoin(animals, eq(animals.id, lactations.animalId))
+    .where(eq(animals.status, "active"));
+
+  const details = await loadLactationDetails(db, current.map(row => row.lactation), now);
+  const cows = details.map((detail, i) => ({ animalId: current[i].lactation.animalId, tag: current[i].tag, ...detail }));
+  const milking = cows.filter(cow => cow.status === "milking");
+  const average = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+  const projections = milking.map(cow => cow.projection?.projected305Liters).filter((v): v is number => v !== undefined);
+  const daily = milking.map(cow => cow.averageDailyLiters).filter((v): v is number => v !== null);
+  return {
+    farmId,
+    cowsInMilk: milking.length,
+    dryCows: cows.filter(cow => cow.status === "dry").length,
+    averageDaysInMilk: average(milking.map(cow => cow.daysInMilk)),
+    averageDailyLitersPerCow: average(daily),
+    herdDailyLiters: daily.reduce((sum, v) => sum + v, 0),
+    averageProjected305Liters: average(projections),
+    byLactationNumber: Object.entries(
+      milking.reduce<Record<string, number>>((acc, cow) => {
+        const key = cow.lactationNumber >= 3 ? "3+" : String(cow.lactationNumber);
+        acc[key] = (acc[key] ?? 0) + 1;
+        return acc;
+      }, {})
+    ).map(([lactation, count]) => ({ lactation, count })),
+    highSccCows: cows
+      .filter(cow => cow.quality.suspectedMastitis)
+      .map(cow => ({ animalId: cow.animalId, tag: cow.tag, somaticCellCount: cow.quality.latestSomaticCellCount })),
+    cows: cows.map(({ dailyYields: _points, curve: _curve, ...cow }) => cow),
+  };
+}
+
+/**
+ * Day-by-day comparison of recorded milkings with bulk tank collections,
+ * plus the herd's yield-weighted cell count against the tank's
+ */
+export async function reconcileBulkTankPeriod(farmId: number, from: Date, to: Date, tolerancePercent = 5) {
+  const db = await requireDb();
+  const start = dateOnly(from);
+  const end = dateOnly(to);
+  const sessions = await db
+    .select({ milkingDate: milkings.milkingDate, yieldLiters: milkings.yieldLiters, withdrawalHold: milkings.withdrawalHold })
+    .from(milkings)
+    .where(and(eq(milkings.farmId, farmId), gte(milkings.milkingDate, start), lte(milkings.milkingDate, end)));
+  const collections = await db
+    .select()
+    .from(bulkTankCollections)
+    .where(and(
+      eq(bulkTankCollections.farmId, farmId),
+      gte(bulkTankCollections.collectionDate, start),
+      lte(bulkTankCollections.collectionDate, end)
+    ));
+  const tests = await db
+    .select({ yieldLiters: milkTests.yieldLiters, somaticCellCount: milkTests.somaticCellCount })
+    .from(milkTests)
+    .where(and(eq(milkTests.farmId, farmId), gte(milkTests.testDate, start), lte(milkTests.testDate, end)));
+
+  const days = new Map<string, TankDay>();
+  const day = (value: Date | string) => {
+    const key = toDate(value).toISOString().slice(0, 10);
+    let entry = days.get(key);
+    if (!entry) {
+      entry = { date: key, recordedLiters: 0, heldLiters: 0, tankLiters: 0 };
+      days.set(key, entry);
+    }
+    return entry;
+  };
+  for (const session of sessions) {
+    const entry = day(session.milkingDate);
+    entry.recordedLiters += Number(session.yieldLiters);
+    if (session.withdrawalHold) entry.heldLiters += Number(session.yieldLiters);
+  }
+  for (const collection of collections) day(collection.collectionDate).tankLiters += Number(collection.volumeLiters);
+
+  const tankCounts = collections.filter(c => c.somaticCellCount !== null);
+  const tankVolume = tankCounts.reduce((sum, c) => sum + Number(c.volumeLiters), 0);
+  return {
+    farmId,
+    from: start,
+    to: end,
+    ...reconcileBulkTank([...days.values()].sort((a, b) => a.date.localeCompare(b.date)), tolerancePercent),
+    somaticCellCount: {
+      herdWeighted: weightedHerdScc(tests.map(test => ({
+        liters: Number(test.yieldLiters ?? 0),
+        somaticCellCount: test.somaticCellCount,
+      }))),
+      tank: tankVolume
+        ? Math.round(tankCounts.reduce((sum, c) => sum + c.somaticCellCount! * Number(c.volumeLiters), 0) / tankVolume)
+        : null,
+    },
+  };
+}
+
+/** Milk recorded on the farm between two dates, split into saleable and withheld */
+export async function getMilkTotals(farmId: number, from: Date, to: Date) {
+  const db = await requireDb();
+  const sessions = await db
+    .select({ yieldLiters: milkings.yieldLiters, withdrawalHold: milkings.withdrawalHold })
+    .from(milkings)
+    .where(and(eq(milkings.farmId, farmId), gte(milkings.milkingDate, dateOnly(from)), lte(milkings.milkingDate, dateOnly(to))));
+  const total = sessions.reduce((sum, s) => sum + Number(s.yieldLiters), 0);
+  const held = sessions.filter(s => s.withdrawalHold).reduce((sum, s) => sum + Number(s.yieldLiters), 0);
+  return { totalLiters: total, heldLiters: held, saleableLiters: total - held };
+}
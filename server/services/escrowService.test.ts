@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  EscrowTransitionError,
+  getAutoReleaseDays,
+  getCommissionRate,
+  groupPayoutsBySeller,
+  nextEscrowStatus,
+  splitCommission,
+} from "./escrowService";
+
+describe("nextEscrowStatus", () => {
+  it("releases held funds on delivery confirmation or timeout", () => {
+    expect(nextEscrowStatus("held", "delivery_confirmed")).toBe("released");
+    expect(nextEscrowStatus("held", "auto_release")).toBe("released");
+  });
+
+  it("freezes held funds when a dispute is opened", () => {
+    expect(nextEscrowStatus("held", "dispute_opened")).toBe("frozen");
+  });
+
+  it("only lets a ruling move frozen funds", () => {
+    expect(nextEscrowStatus("frozen", "ruling_release")).toBe("released");
+    expect(nextEscrowStatus("frozen", "ruling_refund")).toBe("refunded");
+    expect(() => nextEscrowStatus("frozen", "auto_release")).toThrow(EscrowTransitionError);
+    expect(() => nextEscrowStatus("frozen", "delivery_confirmed")).toThrow(EscrowTransitionError);
+  });
+
+  it("refunds held funds when the order is cancelled", () => {
+    expect(nextEscrowStatus("held", "order_cancelled")).toBe("refunded");
+  });
+
+  it("treats released and refunded as final", () => {
+    expect(() => nextEscrowStatus("released", "ruling_refund")).toThrow(EscrowTransitionError);
+    expect(() => nextEscrowStatus("released", "dispute_opened")).toThrow(EscrowTransitionError);
+    expect(() => nextEscrowStatus("refunded", "ruling_release")).toThrow(EscrowTransitionError);
+  });
+
+  it("lets nothing but the refund itself move a refunding escrow", () => {
+    expect(() => nextEscrowStatus("refunding", "ruling_release")).toThrow(EscrowTransitionError);
+    expect(() => nextEscrowStatus("refunding", "auto_release")).toThrow(EscrowTransitionError);
+    expect(() => nextEscrowStatus("refunding", "order_cancelled")).toThrow(EscrowTransitionError);
+  });
+});
+
+describe("splitCommission", () => {
+  it("rounds commission to cents and gives the seller the remainder", () => {
+    expect(splitCommission(100, 0.05)).toEqual({ commission: 5, seller: 95 });
+    expect(splitCommission(33.33, 0.025)).toEqual({ commission: 0.83, seller: 32.5 });
+  });
+
+  it("never loses a cent between the two shares", () => {
+    for (const amount of [0.01, 19.99, 1234.56, 7.77]) {
+      const { commission, seller } = splitCommission(amount, 0.075);
+      expect(Math.round((commission + seller) * 100)).toBe(Math.round(amount * 100));
+    }
+  });
+});
+
+describe("configuration", () => {
+  const original = { ...process.env };
+  afterEach(() => {
+    process.env = { ...original };
+  });
+
+  it("reads the commission rate and falls back on invalid values", () => {
+    process.env.MARKETPLACE_COMMISSION_RATE = "0.1";
+    expect(getCommissionRate()).toBe(0.1);
+    process.env.MARKETPLACE_COMMISSION_RATE = "1.5";
+    expect(getCommissionRate()).toBe(0.05);
+    delete process.env.MARKETPLACE_COMMISSION_RATE;
+    expect(getCommissionRate()).toBe(0.05);
+  });
+
+  it("reads the auto-release delay", () => {
+    process.env.MARKETPLACE_AUTO_RELEASE_DAYS = "7";
+    expect(getAutoReleaseDays()).toBe(7);
+    process.env.MARKETPLACE_AUTO_RELEASE_DAYS = "soon";
+    expect(getAutoReleaseDays()).toBe(3);
+  });
+});
+
+describe("groupPayoutsBySeller", () => {
+  it("totals released escrows per seller", () => {
+    const groups = groupPayoutsBySeller([
+      { id: 1, sellerId: 10, sellerAmount: "0.10" },
+      { id: 2, sellerId: 11, sellerAmount: "50.00" },
+      { id: 3, sellerId: 10, sellerAmount: "0.20" },
+    ]);
+    expect(groups.get(10)).toEqual({ escrowIds: [1, 3], totalAmount: 0.3 });
+    expect(groups.get(11)).toEqual({ escrowIds: [2], totalAmount: 50 });
+  });
+});
@@ -0,0 +1,367 @@
+import { and, eq, inArray, isNull, lte } from "drizzle-orm";
+import {
+  marketplaceEscrows,
+  marketplaceOrders,
+  marketplacePayoutBatches,
+  marketplaceSellerPayouts,
+  marketplaceTransactions,
+} from "../../drizzle/schema";
+import type { MarketplaceEscrow, MarketplaceOrder } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { defineCronJob, enqueueJob, registerJobHandler } from "./jobQueueService";
+import { refundTransaction } from "./paymentService";
+
+/**
+ * Marketplace escrow
+ * Buyer payments are held per order and only become payable to the seller
+ * once delivery is confirmed or the auto-release deadline after delivery
+ * passes. Opening a dispute freezes the funds; the admin ruling either
+ * releases them to the seller or refunds the buyer. A refund holds the
+ * escrow in "refunding" until the payment provider accepts it, and is
+ * retried from the job queue if the provider call fails. Released funds
+ * are collected into per-seller payout batches.
+ *
+ * Environment:
+ *   MARKETPLACE_COMMISSION_RATE      platform share, e.g. 0.05 (default 5%)
+ *   MARKETPLACE_AUTO_RELEASE_DAYS    days after delivery before funds release (default 3)
+ */
+
+export type EscrowStatus = MarketplaceEscrow["status"];
+
+export type EscrowEvent =
+  | "delivery_confirmed"
+  | "auto_release"
+  | "dispute_opened"
+  | "ruling_release"
+  | "ruling_refund"
+  | "order_cancelled";
+
+export class EscrowTransitionError extends Error {
+  constructor(public readonly from: EscrowStatus, public readonly event: EscrowEvent) {
+    super(`Cannot apply ${event} to escrow that is ${from}`);
+    this.name = "EscrowTransitionError";
+  }
+}
+
+const TRANSITIONS: Record<EscrowStatus, Partial<Record<EscrowEvent, EscrowStatus>>> = {
+  held: {
+    delivery_confirmed: "released",
+    auto_release: "released",
+    dispute_opened: "frozen",
+    order_cancelled: "refunded",
+  },
+  frozen: {
+    ruling_release: "released",
+    ruling_refund: "refunded",
+  },
+  refunding: {},
+  released: {},
+  refunded: {},
+};
+
+export function nextEscrowStatus(current: EscrowStatus, event: EscrowEvent): EscrowStatus {
+  const next = TRANSITIONS[current][event];
+  if (!next) throw new EscrowTransitionError(current, event);
+  return next;
+}
+
+export function getCommissionRate(): number {
+  const rate = parseFloat(process.env.MARKETPLACE_COMMISSION_RATE ?? "0.05");
+  return Number.isFinite(rate) && rate >= 0 && rate < 1 ? rate : 0.05;
+}
+
+export function getAutoReleaseDays(): number {
+  const days = parseInt(process.env.MARKETPLACE_AUTO_RELEASE_DAYS ?? "3", 10);
+  return Number.isFinite(days) && days >= 0 ? days : 3;
+}
+
+/** Split a payment into commission and seller share, rounded to cents. */
+export function splitCommission(amount: number, rate: number) {
+  const cents = Math.round(amount * 100);
+  const commissionCents = Math.round(cents * rate);
+  return { commission: commissionCents / 100, seller: (cents - commissionCents) / 100 };
+}
+
+/** Total each seller's released escrows in cents to avoid float drift. */
+export function groupPayoutsBySeller(escrows: Pick<MarketplaceEscrow, "id" | "sellerId" | "sellerAmount">[]) {
+  const groups = new Map<number, { escrowIds: number[]; totalAmount: number }>();
+  for (const escrow of escrows) {
+    const group = groups.get(escrow.sellerId) ?? { escrowIds: [], totalAmount: 0 };
+    group.escrowIds.push(escrow.id);
+    group.totalAmount = (Math.round(group.totalAmount * 100) + Math.round(parseFloat(escrow.sellerAmount) * 100)) / 100;
+    groups.set(escrow.sellerId, group);
+  }
+  return groups;
+}
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  return db;
+}
+
+export async function getEscrowForOrder(orderId: number) {
+  const db = await requireDb();
+  const [escrow] = await db.select().from(marketplaceEscrows).where(eq(marketplaceEscrows.orderId, orderId)).limit(1);
+  return escrow ?? null;
+}
+
+/**
+ * Hold the payment for an order. Safe to call more than once per order.
+ */
+export async function holdFunds(order: Pick<MarketplaceOrder, "id" | "buyerId" | "sellerId" | "totalAmount">) {
+  const db = await requireDb();
+  const rate = getCommissionRate();
+  const amount = parseFloat(order.totalAmount);
+  const { commission, seller } = splitCommission(amount, rate);
+
+  await db
+    .insert(marketplaceEscrows)
+    .ignore()
+    .values({
+      orderId: order.id,
+      buyerId: order.buyerId,
+      sellerId: order.sellerId,
+      amount: amount.toFixed(2),
+      commissionRate: rate.toFixed(4),
+      commissionAmount: commission.toFixed(2),
+      sellerAmount: seller.toFixed(2),
+      status: "held",
+    });
+  return getEscrowForOrder(order.id);
+}
+
+/**
+ * Move an escrow through the state machine. The update is conditional on
+ * the current status so concurrent transitions cannot both succeed. A move
+ * to refunded claims the escrow as refunding first and only completes once
+ * the buyer's refund goes through; a failed refund is queued for retry and
+ * the escrow stays refunding meanwhile.
+ */
+async function transition(escrow: MarketplaceEscrow, event: EscrowEvent, reason: string): Promise<EscrowStatus> {
+  const db = await requireDb();
+  const next = nextEscrowStatus(escrow.status, event);
+  const now = new Date();
+
+  const [header] = await db
+    .update(marketplaceEscrows)
+    .set({
+      status: next === "refunded" ? "refunding" : next,
+      releaseReason: reason.slice(0, 255),
+      ...(next === "released" ? { releasedAt: now } : {}),
+    })
+    .where(and(eq(marketplaceEscrows.id, escrow.id), eq(marketplaceEscrows.status, escrow.status)));
+  if (header.affectedRows === 0) throw new EscrowTransitionError(escrow.status, event);
+  if (next !== "refunded") return next;
+
+  try {
+    await completeRefund(escrow);
+    return "refunded";
+  } catch (error) {
+    console.error(`[Escrow] Refund for order ${escrow.orderId} failed, queued for retry:`, error);
+    await enqueueJob("escrow.refund", { escrowId: escrow.id }, { uniqueKey: `escrow-refund:${escrow.id}` });
+    return "refunding";
+  }
+}
+
+// Refund the buyer, then mark the escrow refunded; throws (leaving it refunding) if the refund fails
+async function completeRefund(escrow: MarketplaceEscrow) {
+  const db = await requireDb();
+  await refundBuyer(escrow);
+  await db
+    .update(marketplaceEscrows)
+    .set({ status: "refunded", refundedAt: new Date() })
+    .where(and(eq(marketplaceEscrows.id, escrow.id), eq(marketplaceEscrows.status, "refunding")));
+}
+
+/** Retry the refund of an escrow left refunding by a failed provider call */
+export async function retryEscrowRefund(escrowId: number) {
+  const db = await requireDb();
+  const [escrow] = await db.select().from(marketplaceEscrows).where(eq(marketplaceEscrows.id, escrowId)).limit(1);
+  if (!escrow || escrow.status !== "refunding") return { refunded: false };
+  await completeRefund(escrow);
+  return { refunded: true };
+}
+
+// Give the money back through the provider that took it, when there was one
+async function refundBuyer(escrow: MarketplaceEscrow) {
+  const db = await requireDb();
+  const [payment] = await db
+    .select()
+    .from(marketplaceTransactions)
+    .where(and(eq(marketplaceTransactions.orderId, escrow.orderId), eq(marketplaceTransactions.status, "completed")))
+    .limit(1);
+
+  if (payment?.provider) {
+    await refundTransaction(payment);
+  } else {
+    if (payment) {
+      await db.update(marketplaceTransactions).set({ status: "refunded" }).where(eq(marketplaceTransactions.id, payment.id));
+    }
+    await db
+      .update(marketplaceOrders)
+      .set({ paymentStatus: "refunded" })
+      .where(eq(marketplaceOrders.id, escrow.orderId));
+  }
+}
+
+/**
+ * Record a refund that was made outside the escrow flow (for example an
+ * admin refund straight through the provider) so the funds are not
+ * released to the seller as well.
+ */
+export async function markEscrowRefunded(orderId: number, reason: string) {
+  const db = await requireDb();
+  await db
+    .update(marketplaceEscrows)
+    .set({ status: "refunded", refundedAt: new Date(), releaseReason: reason.slice(0, 255) })
+    .where(and(eq(marketplaceEscrows.orderId, orderId), inArray(marketplaceEscrows.status, ["held", "frozen", "refunding"])));
+}
+
+export async function applyEscrowEvent(orderId: number, event: EscrowEvent, reason: string) {
+  const escrow = await getEscrowForOrder(orderId);
+  if (!escrow) return null;
+  return transition(escrow, event, reason);
+}
+
+/** Start the auto-release clock once the seller marks the order delivered. */
+export async function startReleaseTimer(orderId: number, now: Date = new Date()) {
+  const db = await requireDb();
+  const releaseAfter = new Date(now.getTime() + getAutoReleaseDays() * 24 * 60 * 60 * 1000);
+  await db
+    .update(marketplaceEscrows)
+    .set({ releaseAfter })
+    .where(
+      and(eq(marketplaceEscrows.orderId, orderId), eq(marketplaceEscrows.status, "held"), isNull(marketplaceEscrows.releaseAfter))
+    );
+}
+
+export async function releaseDueEscrows(now: Date = new Date()) {
+  const db = await requireDb();
+  const due = await db
+    .select()
+    .from(marketplaceEscrows)
+    .where(and(eq(marketplaceEscrows.status, "held"), lte(marketplaceEscrows.releaseAfter, now)));
+
+  let released = 0;
+  for (const escrow of due) {
+    try {
+      await transition(escrow, "auto_release", "No delivery complaint before the release deadline");
+      released++;
+    } catch (error) {
+      if (!(error instanceof EscrowTransitionError)) throw error;
+    }
+  }
+  return released;
+}
+
+/**
+ * Group released funds that have not been paid out into one batch per
+ * seller, with a payout row per order.
+ */
+export async function buildPayoutBatches() {
+  const db = await requireDb();
+  const released = await db
+    .select()
+    .from(marketplaceEscrows)
+    .where(and(eq(marketplaceEscrows.status, "released"), isNull(marketplaceEscrows.payoutBatchId)));
+
+  const byId = new Map(released.map(e => [e.id, e]));
+  const batches: Array<{ batchId: number; sellerId: number; totalAmount: number; orderCount: number }> = [];
+  for (const [sellerId, { escrowIds, totalAmount }] of Array.from(groupPayoutsBySeller(released).entries())) {
+    const escrows = escrowIds.map(id => byId.get(id)!);
+
+    try {
+      await db.transaction(async tx => {
+        const [batch] = await tx.insert(marketplacePayoutBatches).values({
+          sellerId,
+          totalAmount: totalAmount.toFixed(2),
+          orderCount: escrows.length,
+          status: "pending",
+        });
+        const batchId = batch.insertId;
+
+        // Claim the escrows so a concurrent run cannot batch them twice
+        const [claimed] = await tx
+          .update(marketplaceEscrows)
+          .set({ payoutBatchId: batchId })
+          .where(and(inArray(marketplaceEscrows.id, escrows.map(e => e.id)), isNull(marketplaceEscrows.payoutBatchId)));
+        if (claimed.affectedRows !== escrows.length) {
+          throw new Error(`Escrows for seller ${sellerId} changed while batching`);
+        }
+
+        await tx.insert(marketplaceSellerPayouts).values(
+          escrows.map(e => ({
+            sellerId,
+            orderId: e.orderId,
+            batchId,
+            amount: e.sellerAmount,
+            status: "pending" as const,
+          }))
+        );
+        batches.push({ batchId, sellerId, totalAmount, orderCount: escrows.length });
+      });
+    } catch (error) {
+      // One seller's batch failing should not hold up everyone else's
+      console.error(`[Escrow] Payout batch for seller ${sellerId} failed:`, error);
+    }
+  }
+  return batches;
+}
+
+export async function markPayoutBatch(
+  batchId: number,
+  status: "processing" | "completed" | "failed",
+  transactionReference?: string
+) {
+  const db = await requireDb();
+  const now = new Date();
+  await db.transaction(async tx => {
+    await tx
+      .update(marketplacePayoutBatches)
+      .set({ status, transactionReference, ...(status === "completed" ? { paidAt: now } : {}) })
+      .where(eq(marketplacePayoutBatches.id, batchId));
+    await tx
+      .update(marketplaceSellerPayouts)
+      .set({
+        status,
+        transactionReference,
+        ...(status === "completed" ? { payoutDate: now } : {}),
+      })
+      .where(eq(marketplaceSellerPayouts.batchId, batchId));
+
+    // Failed batches hand their escrows back to the next batch run
+    if (status === "failed") {
+      await tx
+        .update(marketplaceEscrows)
+        .set({ payoutBatchId: null })
+        .where(eq(marketplaceEscrows.payoutBatchId, batchId));
+      await tx.update(marketplaceSellerPayouts).set({ batchId: null }).where(eq(marketplaceSellerPayouts.batchId, batchId));
+    }
+  });
+}
+
+export function initializeEscrowScheduler() {
+  registerJobHandler("escrow.releaseDue", async () => {
+    const released = await releaseDueEscrows();
+    if (released) console.log(`[Escrow] Auto-released ${released} escrows`);
+    return { released };
+  });
+  registerJobHandler<{ escrowId: number }>("escrow.refund", ({ escrowId }) => retryEscrowRefund(escrowId));
+  registerJobHandler("escrow.buildPayoutBatches", async () => {
+    const batches = await buildPayoutBatches();
+    if (batches.length) console.log(`[Escrow] Created ${batches.length} seller payout batches`);
+    return { batches: batches.length };
+  });
+
+  defineCronJob("escrow-auto-release", "0 * * * *", "escrow.releaseDue").catch(error =>
+    console.error("[Escrow] Could not schedule auto-release:", error)
+  );
+  defineCronJob("escrow-payout-batches", "0 6 * * 1", "escrow.buildPayoutBatches").catch(error =>
+    console.error("[Escrow] Could not schedule payout batching:", error)
+  );
+
+  console.log("[Escrow] Auto-release scheduled hourly, payout batches weekly (Mon 06:00)");
+}
@@ -0,0 +1,327 @@
+import { and, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { farms, fields, fieldSegments, fieldWorkerActivityLogs } from "../../drizzle/schema";
+import type { BoundaryGeometry, Field } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { parseBoundaryFile, toFeatureCollection } from "./boundaryFormats";
+import {
+  areaHectares,
+  boundaryWithin,
+  boundingBox,
+  centroid,
+  GeometryError,
+  normalizeBoundary,
+  pointInBoundary,
+  type Position,
+} from "./fieldGeometry";
+
+/**
+ * Farm, field and segment boundaries
+ * A boundary replaces the hand-typed area with one measured from the
+ * polygon, and fills in the single GPS point when it is empty. Segments
+ * must sit inside their field. Fields keep a bounding box so "which field
+ * is this point in?" only tests the polygons that could contain it; field
+ * worker activities logged with GPS and no field are tagged with the field
+ * they fall in once it has a boundary.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+const coordinate = (value: number) => value.toFixed(8);
+
+async function requireField(db: Db, farmId: number, fieldId: number) {
+  const [field] = await db
+    .select()
+    .from(fields)
+    .where(and(eq(fields.id, fieldId), eq(fields.farmId, farmId)))
+    .limit(1);
+  if (!field) throw new GeometryError("Field not found on this farm");
+  return field;
+}
+
+/** Point columns filled from the boundary's centre unless the farmer set them */
+function pointFromBoundary(current: { gpsLatitude: string | null; gpsLongitude: string | null }, boundary: BoundaryGeometry) {
+  if (current.gpsLatitude !== null && current.gpsLongitude !== null) return {};
+  const [longitude, latitude] = centroid(boundary);
+  return { gpsLatitude: coordinate(latitude), gpsLongitude: coordinate(longitude) };
+}
+
+function outsideMessage(what: string, result: { outsidePoints: Position[]; maxOutsideM: number }) {
+  return `${what} extends up to ${result.maxOutsideM} m outside` +
+    (result.outsidePoints.length > 0 ? ` (${result.outsidePoints.length} corner${result.outsidePoints.length === 1 ? "" : "s"} outside)` : "");
+}
+
+export async function setFarmBoundary(farmId: number, geometry: unknown) {
+  const db = await requireDb();
+  const boundary = normalizeBoundary(geometry, "Farm boundary");
+  const [farm] = await db.select().from(farms).where(eq(farms.id, farmId)).limit(1);
+  if (!farm) throw new GeometryError("Farm not found");
+
+  const hectares = areaHectares(boundary);
+  await db
+    .update(farms)
+    .set({ boundary, sizeHectares: hectares.toFixed(2), ...pointFromBoundary(farm, boundary) })
+    .where(eq(farms.id, farmId));
+
+  const farmFields = await db
+    .select({ id: fields.id, fieldName: fields.fieldName, boundary: fields.boundary })
+    .from(fields)
+    .where(and(eq(fields.farmId, farmId), isNotNull(fields.boundary)));
+  const fieldsOutside = farmFields
+    .filter(field => !boundaryWithin(field.boundary!, boundary).within)
+    .map(field => ({ fieldId: field.id, fieldName: field.fieldName }));
+  return { areaHectares: hectares, fieldsOutside };
+}
+
+async function saveFieldBoundary(db: Db, field: Field, boundary: BoundaryGeometry) {
+  const box = boundingBox(boundary);
+  const hectares = areaHectares(boundary);
+  await db
+    .update(fields)
+    .set({
+      boundary,
+      areaHectares: hectares.toFixed(2),
+      boundaryWest: coordinate(box.west),
+      boundarySouth: coordinate(box.south),
+      boundaryEast: coordinate(box.east),
+      boundaryNorth: coordinate(box.north),
+      ...pointFromBoundary(field, boundary),
+    })
+    .where(eq(fields.id, field.id));
+
+  const segments = await db
+    .select({ id: fieldSegments.id, segmentName: fieldSegments.segmentName, boundary: fieldSegments.boundary })
+    .from(fieldSegments)
+    .where(and(eq(fieldSegments.fieldId, field.id), isNotNull(fieldSegments.boundary)));
+  const segmentsOutside = segments
+    .map(segment => ({ segment, result: boundaryWithin(segment.boundary!, boundary) }))
+    .filter(({ result }) => !result.within)
+    .map(({ segment, result }) => ({ segmentId: segment.id, segmentName: segment.segmentName, message: outsideMessage(segment.segmentName, result) }));
+
+  const [farm] = await db.select({ boundary: farms.boundary }).from(farms).where(eq(farms.id, field.farmId)).limit(1);
+  const outsideFarm = farm?.boundary ? !boundaryWithin(boundary, farm.boundary).within : false;
+  const activitiesTagged = await tagActivitiesWithFields(db, field.farmId);
+  return { fieldId: field.id, areaHectares: hectares, outsideFarm, segmentsOutside, activitiesTagged };
+}
+
+/**
+ * Sets a field's boundary and area. Segments that no longer fit and a field
+ * reaching past the farm boundary are reported, not refused, since the
+ * field is usually the better-surveyed line.
+ */
+export async function setFieldBoundary(farmId: number, fieldId: number, geometry: unknown) {
+  const db = await requireDb();
+  const field = await requireField(db, farmId, fieldId);
+  return saveFieldBoundary(db, field, normalizeBoundary(geometry, `${field.fieldName} boundary`));
+}
+
+export async function setSegmentBoundary(farmId: number, segmentId: number, geometry: unknown) {
+  const db = await requireDb();
+  const [segment] = await db
+    .select()
+    .from(fieldSegments)
+    .where(and(eq(fieldSegments.id, segmentId), eq(fieldSegments.farmId, farmId)))
+    .limit(1);
+  if (!segment) throw new GeometryError("Segment not found on this farm");
+  const field = await requireField(db, farmId, segment.fieldId);
+  if (!field.boundary) throw new GeometryError(`${field.fieldName} has no boundary yet; draw the field before its segments`);
+
+  const boundary = normalizeBoundary(geometry, `${segment.segmentName} boundary`);
+  const containment = boundaryWithin(boundary, field.boundary);
+  if (!containment.within) {
+    throw new GeometryError(`${outsideMessage(segment.segmentName, containment)} ${field.fieldName}`);
+  }
+
+  const hectares = areaHectares(boundary);
+  await db
+    .update(fieldSegments)
+    .set({ boundary, areaHectares: hectares.toFixed(2), ...pointFromBoundary(segment, boundary) })
+    .where(eq(fieldSegments.id, segment.id));
+  return { segmentId: segment.id, areaHectares: hectares };
+}
+
+// ============================================================================
+// IMPORT AND EXPORT
+// ============================================================================
+
+function matchField(farmFields: Array<Pick<Field, "id" | "fieldName" | "fieldCode">>, name: string | null) {
+  if (!name) return null;
+  const key = name.trim().toLowerCase();
+  return farmFields.find(field => field.fieldName.toLowerCase() === key || field.fieldCode.toLowerCase() === key) ?? null;
+}
+
+async function readBoundaryFile(db: Db, farmId: number, fileName: string, contentBase64: string) {
+  const parsed = parseBoundaryFile(fileName, Buffer.from(contentBase64, "base64"));
+  const farmFields = await db
+    .select({ id: fields.id, fieldName: fields.fieldName, fieldCode: fields.fieldCode })
+    .from(fields)
+    .where(eq(fields.farmId, farmId));
+  return {
+    skipped: parsed.skipped,
+    features: parsed.boundaries.map((boundary, index) => ({
+      index,
+      name: boundary.name,
+      geometry: boundary.geometry,
+      areaHectares: areaHectares(boundary.geometry),
+      matchedField: matchField(farmFields, boundary.name),
+    })),
+  };
+}
+
+/** What a GeoJSON, KML or shapefile ZIP contains, matched to fields by name or code */
+export async function previewBoundaryFile(farmId: number, fileName: string, contentBase64: string) {
+  const db = await requireDb();
+  return readBoundaryFile(db, farmId, fileName, contentBase64);
+}
+
+/**
+ * Sets field boundaries from a file. Features go to the field named in
+ * `assignments` (feature index to field id) or else the field whose name or
+ * code matches the feature's name; the rest are returned unmatched.
+ */
+export async function importFieldBoundaries(
+  farmId: number,
+  fileName: string,
+  contentBase64: string,
+  assignments: Record<number, number> = {}
+) {
+  const db = await requireDb();
+  const { features, skipped } = await readBoundaryFile(db, farmId, fileName, contentBase64);
+
+  const applied: Array<Awaited<ReturnType<typeof saveFieldBoundary>> & { index: number; name: string | null }> = [];
+  const unmatched: Array<{ index: number; name: string | null; areaHectares: number }> = [];
+  for (const feature of features) {
+    const fieldId = assignments[feature.index] ?? feature.matchedField?.id;
+    if (fieldId === undefined) {
+      unmatched.push({ index: feature.index, name: feature.name, areaHectares: feature.areaHectares });
+      continue;
+    }
+    const field = await requireField(db, farmId, fieldId);
+    applied.push({ index: feature.index, name: feature.name, ...(await saveFieldBoundary(db, field, feature.geometry)) });
+  }
+  return { applied, unmatched, skipped };
+}
+
+/** The farm, its fields and (optionally) their segments as one GeoJSON FeatureCollection */
+export async function exportBoundaries(farmId: number, includeSegments = true) {
+  const db = await requireDb();
+  const [farm] = await db.select().from(farms).where(eq(farms.id, farmId)).limit(1);
+  const farmFields = await db
+    .select()
+    .from(fields)
+    .where(and(eq(fields.farmId, farmId), isNotNull(fields.boundary)));
+  const segments = includeSegments && farmFields.length > 0
+    ? await db
+        .select()
+        .from(fieldSegments)
+        .where(and(inArray(fieldSegments.fieldId, farmFields.map(field => field.id)), isNotNull(fieldSegments.boundary)))
+    : [];
+
+  return toFeatureCollection([
+    ...(farm?.boundary
+      ? [{ geometry: farm.boundary, properties: { kind: "farm", id: farm.id, name: farm.farmName, areaHectares: areaHectares(farm.boundary) } }]
+      : []),
+    ...farmFields.map(field => ({
+      geometry: field.boundary!,
+      properties: {
+        kind: "field",
+        id: field.id,
+        name: field.fieldName,
+        code: field.fieldCode,
+        status: field.fieldStatus,
+        areaHectares: areaHectares(field.boundary!),
+      },
+    })),
+    ...segments.map(segment => ({
+      geometry: segment.boundary!,
+      properties: {
+        kind: "segment",
+        id: segment.id,
+        fieldId: segment.fieldId,
+        name: segment.segmentName,
+        code: segment.segmentCode,
+        areaHectares: areaHectares(segment.boundary!),
+      },
+    })),
+  ]);
+}
+
+// ============================================================================
+// SPATIAL QUERIES
+// ============================================================================
+
+async function fieldAt(db: Db, farmId: number, point: Position) {
+  const [longitude, latitude] = point;
+  const candidates = await db
+    .select()
+    .from(fields)
+    .where(
+      and(
+        eq(fields.farmId, farmId),
+        isNotNull(fields.boundary),
+        sql`${fields.boundaryWest} <= ${longitude} AND ${fields.boundaryEast} >= ${longitude}`,
+        sql`${fields.boundarySouth} <= ${latitude} AND ${fields.boundaryNorth} >= ${latitude}`
+      )
+    );
+  return candidates.find(field => pointInBoundary(field.boundary!, point)) ?? null;
+}
+
+/** The field, and segment within it, that a GPS point (a geotagged photo or activity) falls in */
+export async function locatePoint(farmId: number, latitude: number, longitude: number) {
+  const db = await requireDb();
+  const point: Position = [longitude, latitude];
+  const field = await fieldAt(db, farmId, point);
+  if (!field) return { field: null, segment: null };
+
+  const segments = await db
+    .select()
+    .from(fieldSegments)
+    .where(and(eq(fieldSegments.fieldId, field.id), isNotNull(fieldSegments.boundary)));
+  const segment = segments.find(candidate => pointInBoundary(candidate.boundary!, point)) ?? null;
+  return {
+    field: { id: field.id, fieldName: field.fieldName, fieldCode: field.fieldCode },
+    segment: segment ? { id: segment.id, segmentName: segment.segmentName, segmentCode: segment.segmentCode } : null,
+  };
+}
+
+/** Field id for a GPS point, for tagging new activity logs; null when outside every mapped field */
+export async function findFieldIdAt(farmId: number, latitude: number, longitude: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) return null;
+  return (await fieldAt(db, farmId, [longitude, latitude]))?.id ?? null;
+}
+
+/** Gives geotagged activity logs without a field the field they were logged in */
+async function tagActivitiesWithFields(db: Db, farmId: number): Promise<number> {
+  const untagged = await db
+    .select({ id: fieldWorkerActivityLogs.id, latitude: fieldWorkerActivityLogs.gpsLatitude, longitude: fieldWorkerActivityLogs.gpsLongitude })
+    .from(fieldWorkerActivityLogs)
+    .where(
+      and(
+        eq(fieldWorkerActivityLogs.farmId, farmId),
+        isNull(fieldWorkerActivityLogs.fieldId),
+        isNotNull(fieldWorkerActivityLogs.gpsLatitude),
+        isNotNull(fieldWorkerActivityLogs.gpsLongitude)
+      )
+    );
+  if (untagged.length === 0) return 0;
+
+  const mapped = await db
+    .select({ id: fields.id, boundary: fields.boundary })
+    .from(fields)
+    .where(and(eq(fields.farmId, farmId), isNotNull(fields.boundary)));
+  let tagged = 0;
+  for (const log of untagged) {
+    const point: Position = [parseFloat(log.longitude!), parseFloat(log.latitude!)];
+    const field = mapped.find(candidate => pointInBoundary(candidate.boundary!, point));
+    if (!field) continue;
+    await db.update(fieldWorkerActivityLogs).set({ fieldId: field.id }).where(eq(fieldWorkerActivityLogs.id, log.id));
+    tagged++;
+  }
+  return tagged;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { BoundaryGeometry } from "../../drizzle/schema";
+import {
+  areaHectares,
+  boundaryWithin,
+  boundingBox,
+  centroid,
+  geodesicAreaM2,
+  normalizeBoundary,
+  pointInBoundary,
+} from "./fieldGeometry";
+
+/** Axis-aligned rectangle, corners in degrees */
+const rectangle = (west: number, south: number, east: number, north: number): BoundaryGeometry => ({
+  type: "Polygon",
+  coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]],
+});
+
+describe("normalizeBoundary", () => {
+  it("closes rings, drops altitude and winds outer rings anticlockwise", () => {
+    const boundary = normalizeBoundary({
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [[[0, 0, 12], [0, 1, 12], [1, 1, 12], [1, 0, 12]]] },
+    });
+    expect(boundary.coordinates[0]).toEqual([[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]);
+  });
+
+  it("rejects shapes that cannot be field boundaries", () => {
+    expect(() => normalizeBoundary({ type: "Polygon", coordinates: [[[0, 0], [1, 1], [1, 0], [0, 1]]] })).toThrow(/crosses itself/);
+    expect(() => normalizeBoundary({ type: "Polygon", coordinates: [[[500000, 9000000], [500100, 9000000], [500100, 9000100]]] }))
+      .toThrow(/WGS84/);
+    expect(() => normalizeBoundary({ type: "Point", coordinates: [0, 0] })).toThrow(/Polygon or MultiPolygon/);
+    expect(() => normalizeBoundary({ type: "Polygon", coordinates: [[[0, 0], [1, 0], [1, 1]], [[5, 5], [6, 5], [6, 6]]] }))
+      .toThrow(/hole 1 lies outside/);
+  });
+});
+
+describe("area and location", () => {
+  it("measures area on the sphere", () => {
+    // One degree square on the equator
+    expect(geodesicAreaM2(rectangle(0, 0, 1, 1)) / 1e6).toBeCloseTo(12391, 0);
+    // About a hectare near the equator, and half that at 60° where meridians converge
+    expect(areaHectares(rectangle(36.8, -1.3009, 36.8009, -1.3))).toBeCloseTo(1.0035, 3);
+    expect(areaHectares(rectangle(10, 60, 10.0009, 60.0009)) / areaHectares(rectangle(10, 0, 10.0009, 0.0009))).toBeCloseTo(0.5, 3);
+  });
+
+  it("takes holes out of the area and the point test", () => {
+    const withHole = normalizeBoundary({
+      type: "Polygon",
+      coordinates: [rectangle(0, 0, 0.004, 0.004).coordinates[0], rectangle(0.001, 0.001, 0.002, 0.002).coordinates[0]],
+    });
+    expect(areaHectares(withHole) / areaHectares(rectangle(0, 0, 0.004, 0.004))).toBeCloseTo(15 / 16, 3);
+    expect(pointInBoundary(withHole, [0.003, 0.003])).toBe(true);
+    expect(pointInBoundary(withHole, [0.0015, 0.0015])).toBe(false);
+    expect(pointInBoundary(withHole, [0.005, 0.003])).toBe(false);
+    expect(boundingBox(withHole)).toEqual({ west: 0, south: 0, east: 0.004, north: 0.004 });
+    expect(centroid(rectangle(0, 0, 0.004, 0.002))).toEqual([0.002, 0.001]);
+  });
+});
+
+describe("boundaryWithin", () => {
+  const field = rectangle(36.8, -1.301, 36.802, -1.3);
+
+  it("accepts segments that share the field's edges or wander a metre past them", () => {
+    expect(boundaryWithin(rectangle(36.8, -1.301, 36.801, -1.3), field).within).toBe(true);
+    expect(boundaryWithin(rectangle(36.8, -1.301, 36.80201, -1.3), field).within).toBe(true);
+  });
+
+  it("rejects segments that reach out of the field", () => {
+    const result = boundaryWithin(rectangle(36.801, -1.301, 36.8025, -1.3), field);
+    expect(result.within).toBe(false);
+    expect(result.maxOutsideM).toBeGreaterThan(50);
+    expect(result.outsidePoints.length).toBe(2);
+  });
+
+  it("catches segments cutting across a notch even with every corner inside", () => {
+    // An L-shaped field with its north-east quarter missing
+    const lShape = normalizeBoundary({
+      type: "Polygon",
+      coordinates: [[[0, 0], [0.002, 0], [0.002, 0.001], [0.001, 0.001], [0.001, 0.002], [0, 0.002], [0, 0]]],
+    });
+    const across: BoundaryGeometry = {
+      type: "Polygon",
+      coordinates: [[[0.0005, 0.0005], [0.0019, 0.0005], [0.0019, 0.0009], [0.0009, 0.0019], [0.0005, 0.0019], [0.0005, 0.0005]]],
+    };
+    expect(boundaryWithin(across, lShape).within).toBe(false);
+    expect(boundaryWithin(across, lShape).outsidePoints).toEqual([]);
+  });
+});
@@ -0,0 +1,299 @@
+import type { BoundaryGeometry } from "../../drizzle/schema";
+
+/**
+ * Farm, field and segment boundary geometry
+ * Boundaries are GeoJSON polygons in WGS84 longitude/latitude. Areas are
+ * measured on the sphere (the spherical-excess method used by Turf and most
+ * web GIS tools), so they do not depend on a map projection. Containment
+ * tests work in a flat projection centred on the parent boundary, which is
+ * far inside GPS error at the scale of a farm.
+ */
+
+export type Position = [number, number];
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export class GeometryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeometryError";
+  }
+}
+
+const EARTH_RADIUS_M = 6378137;
+const SQUARE_METRES_PER_HECTARE = 10_000;
+const MAX_VERTICES = 20_000;
+/** Points this close to a parent boundary count as on it, since GPS walks wander */
+export const BOUNDARY_TOLERANCE_M = 2;
+/** Spacing of the points checked along each edge when testing that one boundary lies inside another */
+const EDGE_SAMPLE_M = 10;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+function polygons(boundary: BoundaryGeometry): Position[][][] {
+  return boundary.type === "Polygon" ? [boundary.coordinates] : boundary.coordinates;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/** Twice the signed planar area in degrees; positive when counter-clockwise */
+function signedArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum;
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  const value = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+  return Math.abs(value) < 1e-18 ? 0 : Math.sign(value);
+}
+
+function onSegment(a: Position, b: Position, point: Position): boolean {
+  return (
+    Math.min(a[0], b[0]) <= point[0] && point[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= point[1] && point[1] <= Math.max(a[1], b[1])
+  );
+}
+
+function segmentsIntersect(a: Position, b: Position, c: Position, d: Position): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (
+    (o1 === 0 && onSegment(a, b, c)) ||
+    (o2 === 0 && onSegment(a, b, d)) ||
+    (o3 === 0 && onSegment(c, d, a)) ||
+    (o4 === 0 && onSegment(c, d, b))
+  );
+}
+
+/** Index of the first edge that crosses a later non-adjacent edge, or -1 */
+function selfIntersection(ring: Position[]): number {
+  const edges = ring.length - 1;
+  for (let i = 0; i < edges; i++) {
+    for (let j = i + 2; j < edges; j++) {
+      if (i === 0 && j === edges - 1) continue;
+      if (segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) return i;
+    }
+  }
+  return -1;
+}
+
+function readPosition(value: unknown, where: string): Position {
+  if (!Array.isArray(value) || value.length < 2) throw new GeometryError(`${where}: a position needs a longitude and a latitude`);
+  const [longitude, latitude] = value.map(Number);
+  if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) throw new GeometryError(`${where}: coordinates must be numbers`);
+  if (longitude < -180 || longitude > 180 || latitude < -90 || latitude > 90) {
+    throw new GeometryError(
+      `${where}: (${value[0]}, ${value[1]}) is not a longitude/latitude; boundaries must be in WGS84 degrees`
+    );
+  }
+  return [longitude, latitude];
+}
+
+/** Closed ring with repeated points removed, wound counter-clockwise (outer) or clockwise (hole) */
+function readRing(value: unknown, where: string, hole: boolean): Position[] {
+  if (!Array.isArray(value)) throw new GeometryError(`${where}: a ring must be a list of positions`);
+  const ring: Position[] = [];
+  for (const entry of value) {
+    const position = readPosition(entry, where);
+    const last = ring[ring.length - 1];
+    if (!last || last[0] !== position[0] || last[1] !== position[1]) ring.push(position);
+  }
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (ring.length > 1 && (first[0] !== last[0] || first[1] !== last[1])) ring.push([first[0], first[1]]);
+  if (ring.length < 4) throw new GeometryError(`${where}: a boundary needs at least three distinct corners`);
+  if (ring.length > MAX_VERTICES) throw new GeometryError(`${where}: more than ${MAX_VERTICES} points; simplify the boundary first`);
+
+  const crossing = selfIntersection(ring);
+  if (crossing >= 0) throw new GeometryError(`${where}: the boundary crosses itself near point ${crossing + 1}`);
+  const area = signedArea(ring);
+  if (area === 0) throw new GeometryError(`${where}: the boundary has no area`);
+  return (area > 0) === hole ? ring.reverse() : ring;
+}
+
+function readPolygon(value: unknown, where: string): Position[][] {
+  if (!Array.isArray(value) || value.length === 0) throw new GeometryError(`${where}: a polygon needs an outer ring`);
+  const rings = value.map((ring, index) => readRing(ring, index === 0 ? where : `${where}, hole ${index}`, index > 0));
+  for (let index = 1; index < rings.length; index++) {
+    if (!pointInRing(rings[index][0], rings[0])) throw new GeometryError(`${where}: hole ${index} lies outside the boundary`);
+  }
+  return rings;
+}
+
+/**
+ * Checks a Polygon or MultiPolygon (or a Feature wrapping one) and returns
+ * it in canonical form: closed rings, no repeated points, altitude dropped,
+ * outer rings counter-clockwise and holes clockwise as RFC 7946 asks
+ */
+export function normalizeBoundary(input: unknown, where = "Boundary"): BoundaryGeometry {
+  const geometry = (input as { type?: string; geometry?: unknown })?.type === "Feature" ? (input as { geometry: unknown }).geometry : input;
+  const { type, coordinates } = (geometry ?? {}) as { type?: string; coordinates?: unknown };
+  if (type === "Polygon") return { type, coordinates: readPolygon(coordinates, where) };
+  if (type === "MultiPolygon") {
+    if (!Array.isArray(coordinates) || coordinates.length === 0) throw new GeometryError(`${where}: a MultiPolygon needs at least one polygon`);
+    return {
+      type,
+      coordinates: coordinates.map((polygon, index) => readPolygon(polygon, `${where}, part ${index + 1}`)),
+    };
+  }
+  throw new GeometryError(`${where}: expected a Polygon or MultiPolygon, got ${type ?? "nothing"}`);
+}
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+/** Area enclosed by a closed ring on the WGS84 sphere, in square metres */
+function ringAreaM2(ring: Position[]): number {
+  const points = ring.length - 1;
+  let total = 0;
+  for (let i = 0; i < points; i++) {
+    const lower = ring[i];
+    const middle = ring[(i + 1) % points];
+    const upper = ring[(i + 2) % points];
+    total += (toRadians(upper[0]) - toRadians(lower[0])) * Math.sin(toRadians(middle[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+export function geodesicAreaM2(boundary: BoundaryGeometry): number {
+  return polygons(boundary).reduce(
+    (sum, [outer, ...holes]) => sum + ringAreaM2(outer) - holes.reduce((holeSum, hole) => holeSum + ringAreaM2(hole), 0),
+    0
+  );
+}
+
+export function areaHectares(boundary: BoundaryGeometry): number {
+  return Math.round((geodesicAreaM2(boundary) / SQUARE_METRES_PER_HECTARE) * 10_000) / 10_000;
+}
+
+export function boundingBox(boundary: BoundaryGeometry): BoundingBox {
+  const box = { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+  for (const [outer] of polygons(boundary)) {
+    for (const [longitude, latitude] of outer) {
+      box.west = Math.min(box.west, longitude);
+      box.east = Math.max(box.east, longitude);
+      box.south = Math.min(box.south, latitude);
+      box.north = Math.max(box.north, latitude);
+    }
+  }
+  return box;
+}
+
+/** Area-weighted centre of the outer rings, for the single point older screens and weather lookups use */
+export function centroid(boundary: BoundaryGeometry): Position {
+  let weight = 0;
+  let x = 0;
+  let y = 0;
+  for (const [outer] of polygons(boundary)) {
+    for (let i = 0; i < outer.length - 1; i++) {
+      const [x0, y0] = outer[i];
+      const [x1, y1] = outer[i + 1];
+      const cross = x0 * y1 - x1 * y0;
+      weight += cross;
+      x += (x0 + x1) * cross;
+      y += (y0 + y1) * cross;
+    }
+  }
+  if (weight === 0) return polygons(boundary)[0][0][0];
+  return [x / (3 * weight), y / (3 * weight)];
+}
+
+// ============================================================================
+// CONTAINMENT
+// ============================================================================
+
+/** Ray-casting test against a closed ring */
+export function pointInRing(point: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length - 1; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > point[1] !== yj > point[1] && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function pointInBoundary(boundary: BoundaryGeometry, point: Position): boolean {
+  return polygons(boundary).some(([outer, ...holes]) => pointInRing(point, outer) && !holes.some(hole => pointInRing(point, hole)));
+}
+
+export function pointInBox(box: BoundingBox, point: Position): boolean {
+  return point[0] >= box.west && point[0] <= box.east && point[1] >= box.south && point[1] <= box.north;
+}
+
+/** Metres east and north of `origin` */
+function project(point: Position, origin: Position): Position {
+  const metresPerDegree = (Math.PI / 180) * EARTH_RADIUS_M;
+  return [(point[0] - origin[0]) * metresPerDegree * Math.cos(toRadians(origin[1])), (point[1] - origin[1]) * metresPerDegree];
+}
+
+function distanceToSegmentM(point: Position, a: Position, b: Position): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSquared));
+  return Math.hypot(point[0] - (a[0] + t * dx), point[1] - (a[1] + t * dy));
+}
+
+export interface ContainmentResult {
+  within: boolean;
+  /** Points of the inner boundary found outside the outer one, beyond the tolerance */
+  outsidePoints: Position[];
+  /** Furthest any of them lies from the outer boundary */
+  maxOutsideM: number;
+}
+
+/**
+ * Whether `inner` lies inside `outer`. Every vertex of the inner boundary,
+ * and points every few metres along its edges (so it cannot cut across a
+ * notch in the outer one), must be inside or within `toleranceM` of the
+ * outer boundary. Shared edges, as when a field is split into segments,
+ * count as inside.
+ */
+export function boundaryWithin(
+  inner: BoundaryGeometry,
+  outer: BoundaryGeometry,
+  toleranceM = BOUNDARY_TOLERANCE_M
+): ContainmentResult {
+  const origin = centroid(outer);
+  const outerEdges = polygons(outer).flatMap(rings =>
+    rings.flatMap(ring => ring.slice(0, -1).map((point, i): [Position, Position] => [project(point, origin), project(ring[i + 1], origin)]))
+  );
+  const distanceOutside = (point: Position) =>
+    pointInBoundary(outer, point)
+      ? 0
+      : Math.min(...outerEdges.map(([a, b]) => distanceToSegmentM(project(point, origin), a, b)));
+
+  const outsidePoints: Position[] = [];
+  let maxOutsideM = 0;
+  for (const [ring] of polygons(inner)) {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [a, b] = [ring[i], ring[i + 1]];
+      const [pa, pb] = [project(a, origin), project(b, origin)];
+      const steps = Math.min(100, Math.max(1, Math.ceil(Math.hypot(pb[0] - pa[0], pb[1] - pa[1]) / EDGE_SAMPLE_M)));
+      for (let step = 0; step < steps; step++) {
+        const point: Position = [a[0] + ((b[0] - a[0]) * step) / steps, a[1] + ((b[1] - a[1]) * step) / steps];
+        const distance = distanceOutside(point);
+        if (distance > toleranceM) {
+          if (step === 0) outsidePoints.push(point);
+          maxOutsideM = Math.max(maxOutsideM, distance);
+        }
+      }
+    }
+  }
+  return { within: maxOutsideM === 0, outsidePoints, maxOutsideM: Math.round(maxOutsideM * 10) / 10 };
+}
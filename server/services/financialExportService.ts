@@ -1,6 +1,6 @@
-import { jsPDF } from "jspdf";
 import { Parser } from "json2csv";
 import * as XLSX from "xlsx";
+import { renderPdfLayout, type LayoutBlock } from "../_core/pdfLayout";
 
 export interface ExportOptions {
   farmId: number;
@@ -57,6 +57,8 @@ export interface FinancialReportData {
   }>;
 }
 
+const money = (value: number) => `₵${value.toLocaleString()}`;
+
 /**
  * Generate PDF financial report
  */
@@ -64,163 +66,116 @@ export async function generatePDFReport(
   data: FinancialReportData,
   options: ExportOptions
 ): Promise<Buffer> {
-  const doc = new jsPDF();
-  let yPosition = 20;
-
-  // Title
-  doc.setFontSize(18);
-  doc.text("Financial Report", 20, yPosition);
-  yPosition += 10;
-
-  // Farm Info
-  doc.setFontSize(12);
-  doc.text(`Farm: ${data.farmName}`, 20, yPosition);
-  yPosition += 7;
-  doc.text(`Report Date: ${data.reportDate}`, 20, yPosition);
-  yPosition += 12;
-
-  // Summary Section
-  doc.setFontSize(14);
-  doc.text("Financial Summary", 20, yPosition);
-  yPosition += 8;
-
-  doc.setFontSize(11);
-  doc.text(`Total Income: ₵${data.totalIncome.toLocaleString()}`, 20, yPosition);
-  yPosition += 6;
-  doc.text(`Total Expenses: ₵${data.totalExpenses.toLocaleString()}`, 20, yPosition);
-  yPosition += 6;
-  doc.text(`Net Profit: ₵${data.netProfit.toLocaleString()}`, 20, yPosition);
-  yPosition += 6;
-  doc.text(`Profit Margin: ${data.profitMargin}%`, 20, yPosition);
-  yPosition += 12;
+  const blocks: LayoutBlock[] = [
+    { kind: "heading", text: "Financial Summary" },
+    {
+      kind: "kpis",
+      tiles: [
+        { label: "Total income", value: money(data.totalIncome) },
+        { label: "Total expenses", value: money(data.totalExpenses) },
+        { label: "Net profit", value: money(data.netProfit), tone: data.netProfit >= 0 ? "positive" : "negative" },
+        { label: "Profit margin", value: `${data.profitMargin}%` },
+      ],
+    },
+  ];
 
   // Income & Expenses Section
   if (options.sections.incomeExpenses) {
-    doc.setFontSize(14);
-    doc.text("Income & Expenses", 20, yPosition);
-    yPosition += 8;
-
-    doc.setFontSize(10);
-    doc.text("Revenue:", 20, yPosition);
-    yPosition += 5;
-
-    data.revenue.forEach((item) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 20;
+    blocks.push(
+      { kind: "heading", text: "Income & Expenses" },
+      {
+        kind: "table",
+        columns: [
+          { header: "Date" },
+          { header: "Product", width: 2 },
+          { header: "Quantity", align: "right" },
+          { header: "Amount", align: "right" },
+        ],
+        rows: data.revenue.map((item) => [item.date, item.product, String(item.quantity), money(item.totalAmount)]),
+        emptyText: "No revenue recorded.",
+      },
+      {
+        kind: "table",
+        columns: [
+          { header: "Date" },
+          { header: "Description", width: 2 },
+          { header: "Category" },
+          { header: "Amount", align: "right" },
+        ],
+        rows: data.expenses.map((item) => [item.date, item.description, item.category, money(item.amount)]),
+        emptyText: "No expenses recorded.",
       }
-      doc.text(
-        `${item.product}: ₵${item.totalAmount.toLocaleString()} (${item.quantity} ${item.quantity > 1 ? "units" : "unit"})`,
-        25,
-        yPosition
-      );
-      yPosition += 5;
-    });
-
-    yPosition += 5;
-    doc.text("Expenses:", 20, yPosition);
-    yPosition += 5;
-
-    data.expenses.forEach((item) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 20;
-      }
-      doc.text(
-        `${item.description} (${item.category}): ₵${item.amount.toLocaleString()}`,
-        25,
-        yPosition
-      );
-      yPosition += 5;
-    });
-
-    yPosition += 7;
+    );
   }
 
   // Budget Analysis Section
   if (options.sections.budgetAnalysis) {
-    if (yPosition > 250) {
-      doc.addPage();
-      yPosition = 20;
+    blocks.push({ kind: "heading", text: "Budget Analysis" });
+    if (data.budgetData.length) {
+      blocks.push({
+        kind: "chart",
+        chartType: "bar",
+        title: "Budgeted vs actual",
+        labels: data.budgetData.map((item) => item.category),
+        series: [
+          { name: "Budgeted", values: data.budgetData.map((item) => item.budgeted) },
+          { name: "Actual", values: data.budgetData.map((item) => item.actual) },
+        ],
+      });
     }
-
-    doc.setFontSize(14);
-    doc.text("Budget Analysis", 20, yPosition);
-    yPosition += 8;
-
-    doc.setFontSize(10);
-    data.budgetData.forEach((item) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 20;
-      }
-      const percentage = ((item.actual / item.budgeted) * 100).toFixed(1);
-      doc.text(
-        `${item.category}: ₵${item.actual} / ₵${item.budgeted} (${percentage}%) - Variance: ₵${item.variance}`,
-        25,
-        yPosition
-      );
-      yPosition += 5;
+    blocks.push({
+      kind: "table",
+      columns: [
+        { header: "Category", width: 2 },
+        { header: "Budgeted", align: "right" },
+        { header: "Actual", align: "right" },
+        { header: "Used", align: "right" },
+        { header: "Variance", align: "right" },
+      ],
+      rows: data.budgetData.map((item) => [
+        item.category,
+        money(item.budgeted),
+        money(item.actual),
+        item.budgeted ? `${((item.actual / item.budgeted) * 100).toFixed(1)}%` : "-",
+        money(item.variance),
+      ]),
+      emptyText: "No budget lines for this period.",
     });
-
-    yPosition += 7;
   }
 
   // Veterinary Section
   if (options.sections.veterinaryCosts && data.veterinaryExpenses.length > 0) {
-    if (yPosition > 250) {
-      doc.addPage();
-      yPosition = 20;
-    }
-
-    doc.setFontSize(14);
-    doc.text("Veterinary Expenses", 20, yPosition);
-    yPosition += 8;
-
-    doc.setFontSize(10);
-    data.veterinaryExpenses.forEach((item) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 20;
+    blocks.push(
+      { kind: "heading", text: "Veterinary Expenses" },
+      {
+        kind: "table",
+        columns: [{ header: "Date" }, { header: "Animal" }, { header: "Treatment", width: 2 }, { header: "Cost", align: "right" }],
+        rows: data.veterinaryExpenses.map((item) => [item.date, item.animal, item.treatment, money(item.cost)]),
       }
-      doc.text(
-        `${item.animal} - ${item.treatment}: ₵${item.cost.toLocaleString()}`,
-        25,
-        yPosition
-      );
-      yPosition += 5;
-    });
-
-    yPosition += 7;
+    );
   }
 
   // Insurance Section
   if (options.sections.insuranceClaims && data.insuranceClaims.length > 0) {
-    if (yPosition > 250) {
-      doc.addPage();
-      yPosition = 20;
-    }
-
-    doc.setFontSize(14);
-    doc.text("Insurance Claims", 20, yPosition);
-    yPosition += 8;
-
-    doc.setFontSize(10);
-    data.insuranceClaims.forEach((item) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 20;
+    blocks.push(
+      { kind: "heading", text: "Insurance Claims" },
+      {
+        kind: "table",
+        columns: [{ header: "Date" }, { header: "Type", width: 2 }, { header: "Status" }, { header: "Amount", align: "right" }],
+        rows: data.insuranceClaims.map((item) => [item.date, item.type, item.status, money(item.amount)]),
       }
-      doc.text(
-        `${item.type}: ₵${item.amount.toLocaleString()} (${item.status})`,
-        25,
-        yPosition
-      );
-      yPosition += 5;
-    });
+    );
   }
 
-  return Buffer.from(doc.output("arraybuffer"));
+  return renderPdfLayout({
+    theme: {
+      title: `${data.farmName} - Financial Report`,
+      subtitle: `Report date: ${data.reportDate}`,
+      pageSize: "A4",
+      orientation: "portrait",
+    },
+    blocks,
+  });
 }
 
 /**
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  assessGrowth,
+  averageDailyGain,
+  expectedDailyGain,
+  expectedWeight,
+  feedConversionRatio,
+  growthCurve,
+  parseBreedWeight,
+  parseScaleCsv,
+  summarizeGroupGrowth,
+} from "./growth";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("breed curves", () => {
+  it("reads mature weight from breed text and ignores market weights at an age", () => {
+    expect(parseBreedWeight("400-600 kg")).toBe(500);
+    expect(parseBreedWeight("25 kg")).toBe(25);
+    expect(parseBreedWeight("2-2.5 kg (8 weeks)")).toBeNull();
+    expect(parseBreedWeight(undefined)).toBeNull();
+  });
+
+  it("starts at birth weight and approaches mature weight", () => {
+    const curve = growthCurve("Beef Cattle", 500)!;
+    expect(curve.species).toBe("cattle");
+    expect(expectedWeight(curve, 0)).toBeCloseTo(32.5);
+    expect(expectedWeight(curve, 3650)).toBeGreaterThan(495);
+    expect(expectedDailyGain(curve, 100, 200)).toBeGreaterThan(expectedDailyGain(curve, 600, 700));
+    expect(growthCurve("Tilapia")).toBeNull();
+    expect(growthCurve("Goat")?.matureWeightKg).toBe(35);
+  });
+});
+
+describe("averageDailyGain", () => {
+  it("uses the two-point gain for two weighings and the regression slope for more", () => {
+    expect(averageDailyGain([{ date: day("2026-01-01"), weightKg: 100 }, { date: day("2026-01-11"), weightKg: 108 }]))
+      .toEqual({ adgKg: 0.8, gainKg: 8, days: 10, method: "two_point" });
+
+    const gain = averageDailyGain([
+      { date: day("2026-01-01"), weightKg: 100 },
+      { date: day("2026-01-11"), weightKg: 112 },
+      { date: day("2026-01-21"), weightKg: 116 },
+    ])!;
+    expect(gain.method).toBe("regression");
+    expect(gain.adgKg).toBeCloseTo(0.8);
+    expect(averageDailyGain([{ date: day("2026-01-01"), weightKg: 100 }])).toBeNull();
+  });
+});
+
+describe("assessGrowth", () => {
+  const curve = growthCurve("Cattle", 450)!;
+  const birth = day("2025-06-01");
+
+  it("flags animals gaining well below the breed curve or losing weight", () => {
+    const expected = expectedDailyGain(curve, 214, 244);
+    const slow = assessGrowth(
+      [{ date: day("2026-01-01"), weightKg: 150 }, { date: day("2026-01-31"), weightKg: 150 + 30 * expected * 0.5 }],
+      birth,
+      curve,
+      day("2026-02-01")
+    );
+    expect(slow.relativeGrowth).toBeCloseTo(0.5);
+    expect(slow.poorPerformer).toBe(true);
+
+    const onCurve = assessGrowth(
+      [{ date: day("2026-01-01"), weightKg: 150 }, { date: day("2026-01-31"), weightKg: 150 + 30 * expected }],
+      birth,
+      curve
+    );
+    expect(onCurve.poorPerformer).toBe(false);
+
+    const losing = assessGrowth([{ date: day("2026-01-01"), weightKg: 150 }, { date: day("2026-01-31"), weightKg: 145 }], null, null);
+    expect(losing.reasons[0]).toMatch(/Lost 5.0 kg/);
+  });
+
+  it("falls back to the group spread when there is no breed comparison", () => {
+    const member = (animalId: number, adg: number) => ({
+      animalId,
+      assessment: assessGrowth([{ date: day("2026-01-01"), weightKg: 100 }, { date: day("2026-01-11"), weightKg: 100 + adg * 10 }], null, null),
+    });
+    const group = summarizeGroupGrowth([member(1, 0.9), member(2, 1.0), member(3, 1.1), member(4, 0.3)]);
+    expect(group.meanAdgKg).toBeCloseTo(0.825);
+    expect(group.poorPerformers.map(row => row.animalId)).toEqual([4]);
+  });
+});
+
+describe("feed conversion and scale files", () => {
+  it("divides feed by gain and gives null without gain", () => {
+    expect(feedConversionRatio(600, 100)).toBe(6);
+    expect(feedConversionRatio(600, -2)).toBeNull();
+  });
+
+  it("reads indicator exports by header and header-less files by position", () => {
+    const withHeader = parseScaleCsv("EID,VID,Weight,Date\n982000123,GH-001,245.5,2026-03-01\n982000124,GH-002,abc,2026-03-01\n");
+    expect(withHeader.readings).toEqual([{ row: 2, tag: "GH-001", weightKg: 245.5, weighedAt: day("2026-03-01") }]);
+    expect(withHeader.errors).toEqual([{ row: 3, error: 'Invalid weight "abc"' }]);
+
+    const bare = parseScaleCsv("GH-010,88\nGH-011,91.2\n");
+    expect(bare.readings.map(reading => [reading.tag, reading.weightKg, reading.weighedAt])).toEqual([
+      ["GH-010", 88, null],
+      ["GH-011", 91.2, null],
+    ]);
+  });
+});
@@ -0,0 +1,265 @@
+import { parse } from "csv-parse/sync";
+
+/**
+ * Growth maths
+ * Average daily gain (ADG) from a series of weights, expected growth from a
+ * breed curve, feed conversion, and parsing of scale indicator exports. No
+ * database access; weighingService loads weights and feed.
+ *
+ * Breed curves use Brody's model W(t) = A·(1 − b·e^(−kt)), with A the
+ * mature weight (from the breed record, else the species template) and b
+ * set so that W(0) is the species' typical birth weight. An animal whose
+ * ADG falls below 80% of what the curve expects over the same ages is a
+ * poor performer; without a birth date or curve, the group's own spread is
+ * the yardstick instead.
+ */
+
+export const POOR_PERFORMANCE_RATIO = 0.8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class GrowthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GrowthError";
+  }
+}
+
+export interface WeightPoint {
+  date: Date;
+  weightKg: number;
+}
+
+export interface GrowthCurve {
+  species: string;
+  birthWeightKg: number;
+  matureWeightKg: number;
+  /** Brody maturing rate, per day */
+  rate: number;
+}
+
+const SPECIES_GROWTH: Array<{ pattern: RegExp; species: string; birthFraction: number; rate: number; matureWeightKg: number }> = [
+  { pattern: /buffalo/, species: "buffalo", birthFraction: 0.065, rate: 0.0022, matureWeightKg: 550 },
+  { pattern: /cattle|cow|heifer|bull|steer|beef|dairy|zebu|sanga|n'dama/, species: "cattle", birthFraction: 0.065, rate: 0.0025, matureWeightKg: 450 },
+  { pattern: /goat/, species: "goat", birthFraction: 0.07, rate: 0.006, matureWeightKg: 35 },
+  { pattern: /sheep|ewe|ram|lamb/, species: "sheep", birthFraction: 0.07, rate: 0.006, matureWeightKg: 45 },
+  { pattern: /pig|swine|sow|gilt|hog|boar/, species: "pig", birthFraction: 0.008, rate: 0.0045, matureWeightKg: 180 },
+  { pattern: /rabbit/, species: "rabbit", birthFraction: 0.015, rate: 0.02, matureWeightKg: 4 },
+  { pattern: /chicken|broiler|layer|poultry|fowl|turkey|duck/, species: "poultry", birthFraction: 0.016, rate: 0.03, matureWeightKg: 2.5 },
+];
+
+/**
+ * Mature weight from a breed's free-text weight ("400-600 kg" gives 500).
+ * Weights given at an age ("2-2.5 kg (8 weeks)") are market weights, not
+ * mature ones, and are ignored.
+ */
+export function parseBreedWeight(text: string | null | undefined): number | null {
+  if (!text || /\(|week|month|day/i.test(text)) return null;
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)?\s*(\d+(?:\.\d+)?)?\s*kg/i);
+  if (!match) return null;
+  const low = Number(match[1]);
+  const high = match[2] ? Number(match[2]) : low;
+  return (low + high) / 2;
+}
+
+/** Brody curve for an animal type; the species default mature weight is used when none is on file */
+export function growthCurve(typeName: string | null | undefined, matureWeightKg?: number | null): GrowthCurve | null {
+  const name = (typeName ?? "").toLowerCase();
+  const entry = SPECIES_GROWTH.find(candidate => candidate.pattern.test(name));
+  if (!entry) return null;
+  const mature = matureWeightKg && matureWeightKg > 0 ? matureWeightKg : entry.matureWeightKg;
+  return { species: entry.species, birthWeightKg: mature * entry.birthFraction, matureWeightKg: mature, rate: entry.rate };
+}
+
+export function expectedWeight(curve: GrowthCurve, ageDays: number): number {
+  const b = 1 - curve.birthWeightKg / curve.matureWeightKg;
+  return curve.matureWeightKg * (1 - b * Math.exp(-curve.rate * Math.max(0, ageDays)));
+}
+
+/** Expected ADG between two ages, in kg/day */
+export function expectedDailyGain(curve: GrowthCurve, fromAgeDays: number, toAgeDays: number): number {
+  if (toAgeDays <= fromAgeDays) return 0;
+  return (expectedWeight(curve, toAgeDays) - expectedWeight(curve, fromAgeDays)) / (toAgeDays - fromAgeDays);
+}
+
+export interface DailyGain {
+  adgKg: number;
+  gainKg: number;
+  days: number;
+  method: "two_point" | "regression";
+}
+
+/**
+ * ADG over a series of weights: the least-squares slope when there are
+ * three or more weighings (so one bad reading does not swing it), the
+ * simple difference for two. Null with fewer than two days apart.
+ */
+export function averageDailyGain(points: WeightPoint[]): DailyGain | null {
+  const sorted = [...points].sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (sorted.length < 2) return null;
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const days = (last.date.getTime() - first.date.getTime()) / DAY_MS;
+  if (days < 1) return null;
+  const gainKg = last.weightKg - first.weightKg;
+
+  if (sorted.length === 2) return { adgKg: gainKg / days, gainKg, days, method: "two_point" };
+
+  const xs = sorted.map(point => (point.date.getTime() - first.date.getTime()) / DAY_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = sorted.reduce((sum, point) => sum + point.weightKg, 0) / sorted.length;
+  let sxy = 0;
+  let sxx = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - meanX) * (sorted[i].weightKg - meanY);
+    sxx += (x - meanX) ** 2;
+  });
+  return { adgKg: sxy / sxx, gainKg, days, method: "regression" };
+}
+
+export interface GrowthAssessment {
+  latestWeightKg: number | null;
+  gain: DailyGain | null;
+  expectedAdgKg: number | null;
+  /** Actual over expected ADG; 1 is on the breed curve */
+  relativeGrowth: number | null;
+  ageDays: number | null;
+  expectedWeightKg: number | null;
+  poorPerformer: boolean;
+  reasons: string[];
+}
+
+/** One animal's growth against its breed curve over the weighed period */
+export function assessGrowth(points: WeightPoint[], birthDate: Date | null, curve: GrowthCurve | null, now: Date = new Date()): GrowthAssessment {
+  const sorted = [...points].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const latest = sorted[sorted.length - 1] ?? null;
+  const gain = averageDailyGain(sorted);
+  const reasons: string[] = [];
+
+  let expectedAdgKg: number | null = null;
+  let expectedWeightKg: number | null = null;
+  let ageDays: number | null = null;
+  if (birthDate) ageDays = Math.floor((now.getTime() - birthDate.getTime()) / DAY_MS);
+  if (curve && birthDate && latest) {
+    expectedWeightKg = expectedWeight(curve, (latest.date.getTime() - birthDate.getTime()) / DAY_MS);
+    if (gain) {
+      const fromAge = (sorted[0].date.getTime() - birthDate.getTime()) / DAY_MS;
+      const toAge = (latest.date.getTime() - birthDate.getTime()) / DAY_MS;
+      expectedAdgKg = expectedDailyGain(curve, fromAge, toAge);
+    }
+  }
+  const relativeGrowth = gain && expectedAdgKg ? gain.adgKg / expectedAdgKg : null;
+
+  if (gain && gain.adgKg <= 0) reasons.push(`Lost ${Math.abs(gain.gainKg).toFixed(1)} kg over ${Math.round(gain.days)} days`);
+  else if (relativeGrowth !== null && relativeGrowth < POOR_PERFORMANCE_RATIO) {
+    reasons.push(`Gaining at ${Math.round(relativeGrowth * 100)}% of the breed curve`);
+  }
+
+  return {
+    latestWeightKg: latest?.weightKg ?? null,
+    gain,
+    expectedAdgKg,
+    relativeGrowth,
+    ageDays,
+    expectedWeightKg,
+    poorPerformer: reasons.length > 0,
+    reasons,
+  };
+}
+
+/**
+ * Group ADG and poor performers. Animals without a breed comparison are
+ * judged against the group: more than one standard deviation below its
+ * mean ADG.
+ */
+export function summarizeGroupGrowth<T extends { animalId: number; assessment: GrowthAssessment }>(members: T[]) {
+  const gains = members.map(member => member.assessment.gain?.adgKg).filter((adg): adg is number => adg !== undefined);
+  const meanAdgKg = gains.length ? gains.reduce((sum, adg) => sum + adg, 0) / gains.length : null;
+  const sdAdgKg = meanAdgKg !== null && gains.length > 1
+    ? Math.sqrt(gains.reduce((sum, adg) => sum + (adg - meanAdgKg) ** 2, 0) / (gains.length - 1))
+    : null;
+
+  const rows = members.map(member => {
+    const reasons = [...member.assessment.reasons];
+    const adg = member.assessment.gain?.adgKg;
+    if (!reasons.length && member.assessment.relativeGrowth === null && adg !== undefined && meanAdgKg !== null && sdAdgKg) {
+      if (adg < meanAdgKg - sdAdgKg) reasons.push(`ADG ${adg.toFixed(2)} kg/day is well below the group's ${meanAdgKg.toFixed(2)}`);
+    }
+    return { ...member, poorPerformer: reasons.length > 0, reasons };
+  });
+
+  return {
+    animals: rows.length,
+    weighed: gains.length,
+    meanAdgKg,
+    sdAdgKg,
+    meanRelativeGrowth: (() => {
+      const ratios = members.map(member => member.assessment.relativeGrowth).filter((ratio): ratio is number => ratio !== null);
+      return ratios.length ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : null;
+    })(),
+    poorPerformers: rows.filter(row => row.poorPerformer),
+    members: rows,
+  };
+}
+
+/** Feed eaten per kg of liveweight gained; null when the animal did not gain */
+export function feedConversionRatio(feedKg: number, gainKg: number): number | null {
+  return gainKg > 0 && feedKg > 0 ? feedKg / gainKg : null;
+}
+
+export interface ScaleReading {
+  row: number;
+  tag: string;
+  weightKg: number;
+  weighedAt: Date | null;
+}
+
+const TAG_HEADER = /^(eid|vid|tag|tagid|tagno|eartag|animal|animalid|id|visualid|electronicid|idnumber)$/;
+const WEIGHT_HEADER = /^(weight|wt|liveweight|weightkg|kg)$/;
+const DATE_HEADER = /^(date|datetime|time|weighdate|recorded|timestamp)$/;
+
+/**
+ * Readings from a scale indicator export. Columns are found by header (EID
+ * or VID, Weight, Date in any order, as Tru-Test and Gallagher indicators
+ * write them); a file without a recognisable header is read as tag, weight
+ * and optional date. When both an electronic and a visual ID are present,
+ * the visual one is used, since that is what uniqueTagId usually holds.
+ */
+export function parseScaleCsv(text: string): { readings: ScaleReading[]; errors: Array<{ row: number; error: string }> } {
+  const records = parse(text, { skip_empty_lines: true, trim: true, relax_column_count: true }) as string[][];
+  const errors: Array<{ row: number; error: string }> = [];
+  if (!records.length) return { readings: [], errors };
+
+  const header = records[0].map(cell => cell.toLowerCase().replace(/[^a-z]/g, ""));
+  let tagColumn = header.findIndex(cell => cell === "vid" || cell === "visualid");
+  if (tagColumn < 0) tagColumn = header.findIndex(cell => TAG_HEADER.test(cell));
+  const weightColumn = header.findIndex(cell => WEIGHT_HEADER.test(cell));
+  const hasHeader = tagColumn >= 0 && weightColumn >= 0;
+  const dateColumn = hasHeader ? header.findIndex(cell => DATE_HEADER.test(cell)) : 2;
+  const columns = hasHeader ? { tag: tagColumn, weight: weightColumn } : { tag: 0, weight: 1 };
+
+  const readings: ScaleReading[] = [];
+  records.slice(hasHeader ? 1 : 0).forEach((record, index) => {
+    const row = index + (hasHeader ? 2 : 1);
+    const tag = record[columns.tag]?.trim();
+    const weightKg = Number(record[columns.weight]);
+    if (!tag) {
+      errors.push({ row, error: "Missing tag" });
+      return;
+    }
+    if (!Number.isFinite(weightKg) || weightKg <= 0) {
+      errors.push({ row, error: `Invalid weight "${record[columns.weight] ?? ""}"` });
+      return;
+    }
+    const rawDate = dateColumn >= 0 ? record[dateColumn]?.trim() : undefined;
+    let weighedAt: Date | null = null;
+    if (rawDate) {
+      weighedAt = new Date(rawDate);
+      if (isNaN(weighedAt.getTime())) {
+        errors.push({ row, error: `Invalid date "${rawDate}"` });
+        return;
+      }
+    }
+    readings.push({ row, tag, weightKg, weighedAt });
+  });
+  return { readings, errors };
+}
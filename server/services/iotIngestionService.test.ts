@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  dedupeReadings,
+  DEVICE_KEY_PREFIX,
+  generateDeviceKey,
+  hashDeviceKey,
+  IngestionError,
+  MAX_BATCH_SIZE,
+  parseCsvBatch,
+  parseJsonBatch,
+  unstoredReadings,
+} from "./iotIngestionService";
+
+const receivedAt = new Date("2026-03-01T12:00:00.000Z");
+
+describe("device keys", () => {
+  it("generates prefixed keys and stores only a hash", () => {
+    const { key, keyPrefix, keyHash } = generateDeviceKey();
+
+    expect(key.startsWith(DEVICE_KEY_PREFIX)).toBe(true);
+    expect(key.startsWith(keyPrefix)).toBe(true);
+    expect(keyHash).toBe(hashDeviceKey(key));
+    expect(keyHash).toHaveLength(64);
+    expect(keyHash).not.toContain(key);
+  });
+
+  it("generates unique keys", () => {
+    expect(generateDeviceKey().key).not.toBe(generateDeviceKey().key);
+  });
+});
+
+describe("parseJsonBatch", () => {
+  it("accepts { readings: [...] } with ISO and epoch timestamps", () => {
+    const { readings, rejected } = parseJsonBatch(
+      {
+        readings: [
+          { type: "Soil_Moisture", value: 41.5, unit: "%", timestamp: "2026-03-01T11:59:30.750Z" },
+          { type: "temperature", value: "23.1", timestamp: 1772366340 },
+        ],
+      },
+      receivedAt
+    );
+
+    expect(rejected).toEqual([]);
+    expect(readings[0]).toEqual({
+      readingType: "soil_moisture",
+      value: 41.5,
+      unit: "%",
+      timestamp: new Date("2026-03-01T11:59:30.000Z"),
+    });
+    expect(readings[1].value).toBe(23.1);
+    expect(readings[1].unit).toBeNull();
+    expect(readings[1].timestamp).toEqual(new Date(1772366340 * 1000));
+  });
+
+  it("defaults missing timestamps to the receive time", () => {
+    const { readings } = parseJsonBatch([{ type: "ph", value: 6.4 }], receivedAt);
+    expect(readings[0].timestamp).toEqual(receivedAt);
+  });
+
+  it("rejects bad readings individually", () => {
+    const { readings, rejected } = parseJsonBatch(
+      [
+        { type: "ph", value: 6.4 },
+        { type: "", value: 1 },
+        { type: "ph", value: "abc" },
+        { type: "ph", value: 1, timestamp: "2026-03-02T00:00:00Z" },
+        null,
+      ],
+      receivedAt
+    );
+
+    expect(readings).toHaveLength(1);
+    expect(rejected.map(r => r.index)).toEqual([1, 2, 3, 4]);
+    expect(rejected[2].reason).toMatch(/future/);
+  });
+
+  it("rejects malformed and oversized bodies", () => {
+    expect(() => parseJsonBatch({ foo: 1 })).toThrow(IngestionError);
+    const tooMany = Array.from({ length: MAX_BATCH_SIZE + 1 }, () => ({ type: "ph", value: 7 }));
+    expect(() => parseJsonBatch(tooMany)).toThrow(/exceeds/);
+  });
+});
+
+describe("parseCsvBatch", () => {
+  it("parses compact lines and skips headers and comments", () => {
+    const csv = [
+      "timestamp,type,value,unit",
+      "# buffered while offline",
+      "2026-03-01T11:00:00Z,soil_moisture,38.2,%",
+      "1772362800,temperature,21.4",
+      ",battery,87,%",
+      "",
+    ].join("\n");
+
+    const { readings, rejected } = parseCsvBatch(csv, receivedAt);
+
+    expect(rejected).toEqual([]);
+    expect(readings.map(r => r.readingType)).toEqual(["soil_moisture", "temperature", "battery"]);
+    expect(readings[2].timestamp).toEqual(receivedAt);
+  });
+
+  it("reports the index of bad lines", () => {
+    const { readings, rejected } = parseCsvBatch("2026-03-01T11:00:00Z,ph,\nnot-a-date,ph,7", receivedAt);
+    expect(readings).toHaveLength(0);
+    expect(rejected.map(r => r.index)).toEqual([0, 1]);
+  });
+});
+
+describe("dedupeReadings", () => {
+  it("keeps the last reading per type and timestamp", () => {
+    const { readings } = parseCsvBatch(
+      ["2026-03-01T11:00:00Z,ph,6.1", "2026-03-01T11:00:00.400Z,ph,6.2", "2026-03-01T11:00:00Z,ec,1.1"].join("\n"),
+      receivedAt
+    );
+
+    const deduped = dedupeReadings(readings);
+    expect(deduped).toHaveLength(2);
+    expect(deduped.find(r => r.readingType === "ph")?.value).toBe(6.2);
+  });
+});
+
+describe("unstoredReadings", () => {
+  it("drops readings already stored for the same type and timestamp", () => {
+    const { readings } = parseCsvBatch(
+      ["2026-03-01T11:00:00Z,ph,6.1", "2026-03-01T11:00:00Z,ec,1.1", "2026-03-01T11:05:00Z,ph,6.3"].join("\n"),
+      receivedAt
+    );
+
+    const fresh = unstoredReadings(readings, [
+      { readingType: "ph", readingTimestamp: new Date("2026-03-01T11:00:00Z") },
+      { readingType: "ec", readingTimestamp: new Date("2026-03-01T11:05:00Z") },
+    ]);
+    expect(fresh.map(r => [r.readingType, r.value])).toEqual([["ec", 1.1], ["ph", 6.3]]);
+  });
+});
@@ -0,0 +1,304 @@
+import crypto from "crypto";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { iotDeviceKeys, iotDevices, sensorReadings } from "../../drizzle/schema";
+import type { IotDevice, InsertSensorReading } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { broadcastToFarm } from "../_core/websocket";
+import { processReadings } from "./sensorAlertEngine";
+
+/**
+ * IoT telemetry ingestion
+ * Authenticates physical devices by per-device API key, parses JSON and
+ * compact CSV batches, and bulk-writes them to sensorReadings.
+ */
+
+export const DEVICE_KEY_PREFIX = "fkd_";
+export const MAX_BATCH_SIZE = 5000;
+const INSERT_CHUNK_SIZE = 500;
+const MAX_FUTURE_SKEW_MS = 10 * 60 * 1000;
+const MAX_ABS_VALUE = 99_999_999; // decimal(12,4)
+
+export interface ParsedReading {
+  readingType: string;
+  value: number;
+  unit: string | null;
+  timestamp: Date;
+}
+
+export interface RejectedReading {
+  index: number;
+  reason: string;
+}
+
+export interface ParseResult {
+  readings: ParsedReading[];
+  rejected: RejectedReading[];
+}
+
+export interface IngestResult {
+  accepted: number;
+  duplicates: number;
+  rejected: RejectedReading[];
+}
+
+export class IngestionError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = "IngestionError";
+  }
+}
+
+// ============================================================================
+// DEVICE KEYS
+// ============================================================================
+
+export function hashDeviceKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Generate a new device key. Only the hash is persisted; the plain key is
+ * returned to the caller once so it can be flashed onto the device.
+ */
+export function generateDeviceKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = DEVICE_KEY_PREFIX + crypto.randomBytes(24).toString("base64url");
+  return {
+    key,
+    keyPrefix: key.slice(0, 12),
+    keyHash: hashDeviceKey(key),
+  };
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Resolve the device for a serial + key pair. Returns null for unknown
+ * serials, revoked keys and keys issued to a different device.
+ */
+export async function authenticateDevice(deviceSerial: string, key: string): Promise<IotDevice | null> {
+  if (!deviceSerial || !key?.startsWith(DEVICE_KEY_PREFIX)) return null;
+
+  const db = await getDb();
+  if (!db) throw new IngestionError("Database unavailable", 503);
+
+  const [device] = await db
+    .select()
+    .from(iotDevices)
+    .where(eq(iotDevices.deviceSerial, deviceSerial))
+    .limit(1);
+  if (!device) return null;
+
+  const keyHash = hashDeviceKey(key);
+  const keys = await db
+    .select()
+    .from(iotDeviceKeys)
+    .where(and(eq(iotDeviceKeys.deviceId, device.id), isNull(iotDeviceKeys.revokedAt)));
+
+  const match = keys.find(k => safeEqualHex(k.keyHash, keyHash));
+  if (!match) return null;
+
+  await db
+    .update(iotDeviceKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(iotDeviceKeys.id, match.id));
+
+  return device;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseTimestamp(raw: unknown, receivedAt: Date): Date | null {
+  if (raw === undefined || raw === null || raw === "") return receivedAt;
+
+  let ms: number;
+  if (typeof raw === "number" || (typeof raw === "string" && /^\d+(\.\d+)?$/.test(raw.trim()))) {
+    const numeric = Number(raw);
+    // Accept epoch seconds or epoch milliseconds
+    ms = numeric < 1e12 ? numeric * 1000 : numeric;
+  } else if (typeof raw === "string") {
+    ms = Date.parse(raw);
+  } else {
+    return null;
+  }
+
+  if (!Number.isFinite(ms)) return null;
+  // sensorReadings.readingTimestamp has second precision
+  return new Date(Math.floor(ms / 1000) * 1000);
+}
+
+function validateReading(
+  raw: { type?: unknown; value?: unknown; unit?: unknown; timestamp?: unknown },
+  receivedAt: Date
+): ParsedReading | string {
+  const readingType = typeof raw.type === "string" ? raw.type.trim().toLowerCase() : "";
+  if (!readingType || readingType.length > 100) return "invalid reading type";
+
+  const value = typeof raw.value === "string" ? Number(raw.value) : raw.value;
+  if (typeof value !== "number" || !Number.isFinite(value)) return "value must be a finite number";
+  if (Math.abs(value) > MAX_ABS_VALUE) return "value out of range";
+
+  const unit = typeof raw.unit === "string" && raw.unit.trim() ? raw.unit.trim().slice(0, 50) : null;
+
+  const timestamp = parseTimestamp(raw.timestamp, receivedAt);
+  if (!timestamp) return "invalid timestamp";
+  if (timestamp.getTime() - receivedAt.getTime() > MAX_FUTURE_SKEW_MS) return "timestamp is in the future";
+
+  return { readingType, value, unit, timestamp };
+}
+
+/**
+ * Parse a JSON batch. Accepts either an array of readings or
+ * `{ readings: [...] }`, where each reading is `{ type, value, unit?, timestamp? }`.
+ */
+export function parseJsonBatch(body: unknown, receivedAt: Date = new Date()): ParseResult {
+  const items = Array.isArray(body)
+    ? body
+    : body && typeof body === "object" && Array.isArray((body as any).readings)
+      ? (body as any).readings
+      : null;
+  if (!items) throw new IngestionError("Expected an array of readings or { readings: [...] }");
+  if (items.length > MAX_BATCH_SIZE) throw new IngestionError(`Batch exceeds ${MAX_BATCH_SIZE} readings`, 413);
+
+  const result: ParseResult = { readings: [], rejected: [] };
+  items.forEach((item: unknown, index: number) => {
+    if (!item || typeof item !== "object") {
+      result.rejected.push({ index, reason: "reading must be an object" });
+      return;
+    }
+    const parsed = validateReading(item as any, receivedAt);
+    if (typeof parsed === "string") result.rejected.push({ index, reason: parsed });
+    else result.readings.push(parsed);
+  });
+  return result;
+}
+
+/**
+ * Parse a compact CSV batch, one reading per line:
+ * `timestamp,type,value[,unit]`. Timestamps may be ISO-8601 or epoch
+ * seconds/milliseconds; an empty timestamp means "now". A header line
+ * starting with "timestamp" and lines starting with "#" are skipped.
+ */
+export function parseCsvBatch(text: string, receivedAt: Date = new Date()): ParseResult {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const result: ParseResult = { readings: [], rejected: [] };
+  let index = 0;
+
+  for (const line of lines) {
+    if (!line || line.startsWith("#") || /^timestamp\s*,/i.test(line)) continue;
+    if (index >= MAX_BATCH_SIZE) throw new IngestionError(`Batch exceeds ${MAX_BATCH_SIZE} readings`, 413);
+
+    const [timestamp, type, value, unit] = line.split(",").map(cell => cell.trim());
+    const parsed = validateReading({ timestamp, type, value: value === "" ? undefined : value, unit }, receivedAt);
+    if (typeof parsed === "string") result.rejected.push({ index, reason: parsed });
+    else result.readings.push(parsed);
+    index++;
+  }
+  return result;
+}
+
+/**
+ * Drop readings that repeat a type + timestamp pair within the same batch,
+ * keeping the last value sent.
+ */
+export function dedupeReadings(readings: ParsedReading[]): ParsedReading[] {
+  const byKey = new Map<string, ParsedReading>();
+  for (const reading of readings) {
+    byKey.set(readingKey(reading.readingType, reading.timestamp), reading);
+  }
+  return Array.from(byKey.values());
+}
+
+/** Readings whose type + timestamp pair is not among the rows already stored */
+export function unstoredReadings(
+  readings: ParsedReading[],
+  stored: { readingType: string; readingTimestamp: Date }[]
+): ParsedReading[] {
+  const storedKeys = new Set(stored.map(row => readingKey(row.readingType, row.readingTimestamp)));
+  return readings.filter(reading => !storedKeys.has(readingKey(reading.readingType, reading.timestamp)));
+}
+
+function readingKey(readingType: string, timestamp: Date) {
+  return `${readingType}|${timestamp.getTime()}`;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Bulk-insert readings for a device. Rows that already exist for the same
+ * device, type and timestamp are skipped, so devices can safely retransmit
+ * a batch after a lost acknowledgement; only the readings that were new are
+ * broadcast and evaluated for alerts. The unique index still drops a
+ * reading that a concurrent upload stored in between.
+ */
+export async function ingestReadings(device: IotDevice, parsed: ParseResult): Promise<IngestResult> {
+  const db = await getDb();
+  if (!db) throw new IngestionError("Database unavailable", 503);
+
+  const readings = dedupeReadings(parsed.readings);
+  const fresh: ParsedReading[] = [];
+  let inserted = 0;
+
+  for (let i = 0; i < readings.length; i += INSERT_CHUNK_SIZE) {
+    const batch = readings.slice(i, i + INSERT_CHUNK_SIZE);
+    const stored = await db
+      .select({ readingType: sensorReadings.readingType, readingTimestamp: sensorReadings.readingTimestamp })
+      .from(sensorReadings)
+      .where(and(
+        eq(sensorReadings.deviceId, device.id),
+        inArray(sensorReadings.readingTimestamp, batch.map(reading => reading.timestamp))
+      ));
+    const unstored = unstoredReadings(batch, stored);
+    if (unstored.length === 0) continue;
+
+    const chunk: InsertSensorReading[] = unstored.map(reading => ({
+      deviceId: device.id,
+      readingType: reading.readingType,
+      value: reading.value.toString(),
+      unit: reading.unit,
+      readingTimestamp: reading.timestamp,
+    }));
+    const [header] = await db.insert(sensorReadings).ignore().values(chunk);
+    inserted += header.affectedRows;
+    fresh.push(...unstored);
+  }
+
+  // A batch that was entirely retransmitted has already been broadcast and evaluated
+  if (inserted > 0) {
+    broadcastToFarm(device.farmId, {
+      type: "sensor_readings",
+      data: {
+        deviceId: device.id,
+        deviceSerial: device.deviceSerial,
+        deviceType: device.deviceType,
+        readings: fresh.map(reading => ({
+          readingType: reading.readingType,
+          value: reading.value,
+          unit: reading.unit,
+          timestamp: reading.timestamp.toISOString(),
+        })),
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    try {
+      await processReadings(device, fresh);
+    } catch (error) {
+      // Stored readings stay stored; alerting must not fail the upload
+      console.error("[IoTIngestion] Alert evaluation failed:", error);
+    }
+  }
+
+  return {
+    accepted: inserted,
+    duplicates: parsed.readings.length - inserted,
+    rejected: parsed.rejected,
+  };
+}
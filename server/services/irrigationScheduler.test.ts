@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { planAutomaticRun, scheduleOverlaps, type RunPlanInput } from "./irrigationScheduler";
+import { SimulatedValveController, ValveControllerError } from "./valveController";
+import type { IrrigationRecommendation } from "../irrigationEngine";
+
+const recommendation = (overrides: Partial<IrrigationRecommendation> = {}): IrrigationRecommendation => ({
+  type: "irrigate_now",
+  priority: "critical",
+  reason: "Soil too dry",
+  recommendedDurationMinutes: 30,
+  estimatedWaterNeeded: 30000,
+  weatherFactor: 100,
+  soilMoistureFactor: 20,
+  cropWaterRequirement: 5,
+  ...overrides,
+});
+
+const plan = (overrides: Partial<RunPlanInput> = {}) =>
+  planAutomaticRun({
+    recommendation: recommendation(),
+    flowRateLitersPerMin: 500,
+    maxDailyLiters: null,
+    litersAppliedToday: 0,
+    zoneBusy: false,
+    conflictingSchedule: null,
+    ...overrides,
+  });
+
+describe("planAutomaticRun", () => {
+  it("sizes the run from the zone flow rate", () => {
+    expect(plan()).toEqual({ action: "start", durationMinutes: 60, liters: 30000, capped: false });
+  });
+
+  it("only acts on irrigate_now recommendations", () => {
+    expect(plan({ recommendation: recommendation({ type: "increase" }) })).toEqual({ action: "none" });
+    expect(plan({ recommendation: recommendation({ type: "delay", estimatedWaterNeeded: 0 }) })).toEqual({ action: "none" });
+  });
+
+  it("blocks zones that are already irrigating", () => {
+    expect(plan({ zoneBusy: true })).toMatchObject({ action: "blocked" });
+  });
+
+  it("blocks runs that overlap a schedule", () => {
+    expect(plan({ conflictingSchedule: "Morning" })).toEqual({
+      action: "blocked",
+      reason: 'Conflicts with schedule "Morning"',
+    });
+  });
+
+  it("trims runs to the remaining daily volume", () => {
+    expect(plan({ maxDailyLiters: 20000, litersAppliedToday: 7250 })).toEqual({
+      action: "start",
+      durationMinutes: 25,
+      liters: 12500,
+      capped: true,
+    });
+  });
+
+  it("does not round an uncapped need up past the daily cap", () => {
+    expect(plan({
+      recommendation: recommendation({ estimatedWaterNeeded: 1200 }),
+      flowRateLitersPerMin: 1000,
+      maxDailyLiters: 5000,
+      litersAppliedToday: 3500,
+    })).toEqual({ action: "start", durationMinutes: 1, liters: 1000, capped: true });
+  });
+
+  it("blocks once the daily cap is used up", () => {
+    expect(plan({ maxDailyLiters: 20000, litersAppliedToday: 20000 })).toMatchObject({ action: "blocked" });
+    expect(plan({ maxDailyLiters: 20000, litersAppliedToday: 19800 })).toMatchObject({ action: "blocked" });
+  });
+
+  it("limits a single run to three hours", () => {
+    expect(plan({ recommendation: recommendation({ estimatedWaterNeeded: 500000 }) })).toMatchObject({
+      action: "start",
+      durationMinutes: 180,
+      capped: true,
+    });
+  });
+});
+
+describe("scheduleOverlaps", () => {
+  const schedule = { startTime: "06:00", endTime: "07:00", durationMinutes: 60, daysOfWeek: null, enabled: true };
+  const local = (day: number, hour: number, minute = 0) => new Date(2026, 4, day, hour, minute);
+
+  it("detects overlap with the schedule window", () => {
+    expect(scheduleOverlaps(schedule, local(4, 5, 30), local(4, 6, 15))).toBe(true);
+    expect(scheduleOverlaps(schedule, local(4, 7, 0), local(4, 8, 0))).toBe(false);
+  });
+
+  it("respects days of week", () => {
+    const monday = local(4, 6, 30); // 4 May 2026 is a Monday
+    expect(scheduleOverlaps({ ...schedule, daysOfWeek: "1,3" }, monday, local(4, 7))).toBe(true);
+    expect(scheduleOverlaps({ ...schedule, daysOfWeek: "2,4" }, monday, local(4, 7))).toBe(false);
+  });
+
+  it("handles windows running past midnight", () => {
+    const night = { ...schedule, startTime: "23:30", endTime: null, durationMinutes: 90 };
+    expect(scheduleOverlaps(night, local(5, 0, 30), local(5, 0, 45))).toBe(true);
+  });
+
+  it("ignores disabled or unparseable schedules", () => {
+    expect(scheduleOverlaps({ ...schedule, enabled: false }, local(4, 6), local(4, 7))).toBe(false);
+    expect(scheduleOverlaps({ ...schedule, startTime: "sunrise" }, local(4, 6), local(4, 7))).toBe(false);
+  });
+});
+
+describe("SimulatedValveController", () => {
+  it("records commands and open valves", async () => {
+    const valves = new SimulatedValveController();
+    await valves.open("zone-1", 20);
+    expect(valves.openValves.has("zone-1")).toBe(true);
+    await valves.close("zone-1");
+    expect(valves.openValves.size).toBe(0);
+    expect(valves.commands.map(c => c.action)).toEqual(["open", "close"]);
+  });
+
+  it("can simulate unresponsive valves", async () => {
+    const valves = new SimulatedValveController();
+    valves.failValve("zone-2");
+    await expect(valves.open("zone-2", 10)).rejects.toBeInstanceOf(ValveControllerError);
+  });
+});
@@ -0,0 +1,478 @@
+import { and, desc, eq, gte, inArray, sql } from "drizzle-orm";
+import {
+  farms,
+  irrigationEvents,
+  irrigationRecommendations,
+  irrigationSchedules,
+  irrigationZones,
+  soilMoistureReadings,
+  weatherHistory,
+} from "../../drizzle/schema";
+import type { IrrigationSchedule, IrrigationZone } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+import { calculateIrrigationNeeds, type IrrigationRecommendation } from "../irrigationEngine";
+import { fetchForecast } from "../weatherRouter";
+import { broadcastToFarm } from "../_core/websocket";
+import { getValveController, type ValveController } from "./valveController";
+
+/**
+ * Closed-loop irrigation scheduler
+ * Every cycle reads the latest soil moisture per zone and the rain outlook
+ * for its farm, runs calculateIrrigationNeeds and stores the result as an
+ * irrigation recommendation. Zones in "auto" control mode with a valve
+ * then get an automatic irrigation event and a valve command, subject to
+ * safety interlocks: one run per zone at a time, no overlap with enabled
+ * schedules for the zone, and a daily volume cap. Runs stop when their
+ * duration is up or as soon as moisture reaches the zone's target.
+ */
+
+const DEFAULT_FLOW_RATE_LPM = 1000; // matches calculateIrrigationNeeds' duration estimate
+const DEFAULT_ET_MM_PER_DAY = 5;
+const MAX_READING_AGE_MS = 2 * 60 * 60 * 1000;
+const MAX_RUN_MINUTES = 180;
+const MIN_RUN_MINUTES = 1;
+
+export interface RunPlanInput {
+  recommendation: IrrigationRecommendation;
+  flowRateLitersPerMin: number;
+  maxDailyLiters: number | null;
+  litersAppliedToday: number;
+  zoneBusy: boolean;
+  conflictingSchedule: string | null;
+}
+
+export type RunPlan =
+  | { action: "start"; durationMinutes: number; liters: number; capped: boolean }
+  | { action: "none" }
+  | { action: "blocked"; reason: string };
+
+/**
+ * Decide whether an automatic run should start and for how long. Only
+ * "irrigate_now" recommendations start a run; everything else is advisory.
+ */
+export function planAutomaticRun(input: RunPlanInput): RunPlan {
+  const { recommendation } = input;
+  if (recommendation.type !== "irrigate_now" || recommendation.estimatedWaterNeeded <= 0) {
+    return { action: "none" };
+  }
+  if (input.zoneBusy) {
+    return { action: "blocked", reason: "Zone is already irrigating" };
+  }
+  if (input.conflictingSchedule) {
+    return { action: "blocked", reason: `Conflicts with schedule "${input.conflictingSchedule}"` };
+  }
+
+  let liters = recommendation.estimatedWaterNeeded;
+  let capped = false;
+  let remaining = Infinity;
+  if (input.maxDailyLiters !== null) {
+    remaining = input.maxDailyLiters - input.litersAppliedToday;
+    if (remaining <= 0) {
+      return { action: "blocked", reason: `Daily cap of ${input.maxDailyLiters} L reached` };
+    }
+    if (liters > remaining) {
+      liters = remaining;
+      capped = true;
+    }
+  }
+
+  const flowRate = input.flowRateLitersPerMin > 0 ? input.flowRateLitersPerMin : DEFAULT_FLOW_RATE_LPM;
+  let durationMinutes = Math.ceil(liters / flowRate);
+  if (durationMinutes > MAX_RUN_MINUTES) {
+    durationMinutes = MAX_RUN_MINUTES;
+    capped = true;
+  }
+  // Never round a run up past the daily cap, whether or not the need itself was capped
+  const minutesLeftToday = Math.floor(remaining / flowRate);
+  if (durationMinutes > minutesLeftToday) {
+    durationMinutes = minutesLeftToday;
+    capped = true;
+  }
+  if (durationMinutes < MIN_RUN_MINUTES) {
+    return { action: "blocked", reason: "Remaining daily volume is below one minute of flow" };
+  }
+
+  return { action: "start", durationMinutes, liters: durationMinutes * flowRate, capped };
+}
+
+function parseClock(value: string | null): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Whether an enabled schedule has a run window overlapping [start, end).
+ * Times are server-local, days of week are 0-6 for Sun-Sat (all days when empty).
+ */
+export function scheduleOverlaps(
+  schedule: Pick<IrrigationSchedule, "startTime" | "endTime" | "durationMinutes" | "daysOfWeek" | "enabled">,
+  start: Date,
+  end: Date
+): boolean {
+  if (schedule.enabled === false) return false;
+  const startMinute = parseClock(schedule.startTime);
+  if (startMinute === null) return false;
+
+  const endMinute = parseClock(schedule.endTime);
+  const windowMinutes = endMinute !== null && endMinute > startMinute ? endMinute - startMinute : schedule.durationMinutes;
+  const days = schedule.daysOfWeek
+    ? schedule.daysOfWeek.split(",").map(d => parseInt(d.trim(), 10)).filter(d => d >= 0 && d <= 6)
+    : [];
+
+  // Check windows starting on the previous day too, in case they run past midnight
+  const day = new Date(start);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() - 1);
+  while (day.getTime() < end.getTime()) {
+    if (days.length === 0 || days.includes(day.getDay())) {
+      const windowStart = new Date(day);
+      windowStart.setMinutes(startMinute);
+      const windowEnd = new Date(windowStart.getTime() + windowMinutes * 60000);
+      if (windowStart.getTime() < end.getTime() && windowEnd.getTime() > start.getTime()) return true;
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return false;
+}
+
+const num = (value: string | null | undefined, fallback: number) => {
+  const parsed = value === null || value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+interface FarmWeather {
+  temperature: number | null;
+  humidity: number | null;
+  rainfallForecast: number;
+}
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function loadFarmWeather(db: Db, farmId: number): Promise<FarmWeather> {
+  const [latest] = await db
+    .select()
+    .from(weatherHistory)
+    .where(eq(weatherHistory.farmId, farmId))
+    .orderBy(desc(weatherHistory.recordedAt))
+    .limit(1);
+
+  const weather: FarmWeather = {
+    temperature: latest?.temperature ? parseFloat(latest.temperature) : null,
+    humidity: latest?.humidity ?? null,
+    // Without a forecast, current precipitation is the best rain signal available
+    rainfallForecast: latest?.precipitation ? parseFloat(latest.precipitation) : 0,
+  };
+
+  const [farm] = await db
+    .select({ lat: farms.gpsLatitude, lon: farms.gpsLongitude })
+    .from(farms)
+    .where(eq(farms.id, farmId))
+    .limit(1);
+  if (farm?.lat && farm?.lon) {
+    try {
+      const forecast = await fetchForecast(parseFloat(farm.lat), parseFloat(farm.lon), 1);
+      if (forecast) {
+        weather.rainfallForecast = forecast.reduce((sum, slot) => sum + (slot.rainVolume || 0), 0);
+      }
+    } catch (error) {
+      console.warn(`[IrrigationScheduler] Forecast unavailable for farm ${farmId}:`, (error as Error).message);
+    }
+  }
+
+  return weather;
+}
+
+async function latestMoisture(db: Db, zoneId: number) {
+  const [reading] = await db
+    .select()
+    .from(soilMoistureReadings)
+    .where(eq(soilMoistureReadings.zoneId, zoneId))
+    .orderBy(desc(soilMoistureReadings.readingTime))
+    .limit(1);
+  return reading ?? null;
+}
+
+function startOfDay(now: Date) {
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Close automatic runs whose time is up or whose zone has reached its
+ * target moisture. A failed close leaves the event in progress so the
+ * next cycle retries it.
+ */
+async function finishRuns(db: Db, now: Date, valves: ValveController) {
+  const running = await db
+    .select({ event: irrigationEvents, zone: irrigationZones })
+    .from(irrigationEvents)
+    .innerJoin(irrigationZones, eq(irrigationEvents.zoneId, irrigationZones.id))
+    .where(and(eq(irrigationEvents.status, "in_progress"), eq(irrigationEvents.eventType, "automatic")));
+
+  let stopped = 0;
+  for (const { event, zone } of running) {
+    const plannedEnd = event.startTime.getTime() + (event.durationMinutes ?? 0) * 60000;
+    let reason: string | null = null;
+    if (now.getTime() >= plannedEnd) {
+      reason = "Run completed";
+    } else {
+      const reading = await latestMoisture(db, zone.id);
+      const target = zone.targetMoisture ? parseFloat(zone.targetMoisture) : null;
+      if (reading && target !== null && reading.readingTime > event.startTime && parseFloat(reading.moisturePercentage) >= target) {
+        reason = `Target moisture reached (${parseFloat(reading.moisturePercentage).toFixed(1)}%)`;
+      }
+    }
+    if (!reason) continue;
+
+    try {
+      if (zone.valveId) await valves.close(zone.valveId);
+    } catch (error) {
+      console.error(`[IrrigationScheduler] Failed to close valve for zone ${zone.id}:`, error);
+      continue;
+    }
+
+    const endTime = new Date(Math.min(now.getTime(), plannedEnd));
+    const minutes = Math.max(0, Math.round((endTime.getTime() - event.startTime.getTime()) / 60000));
+    const flowRate = num(zone.flowRateLitersPerMin, DEFAULT_FLOW_RATE_LPM);
+    await db
+      .update(irrigationEvents)
+      .set({
+        status: "completed",
+        endTime,
+        durationMinutes: minutes,
+        waterAppliedLiters: (minutes * flowRate).toFixed(2),
+        reason: `${event.reason ?? ""} | ${reason}`.slice(0, 500),
+      })
+      .where(eq(irrigationEvents.id, event.id));
+
+    broadcastToFarm(zone.farmId, {
+      type: "irrigation_event",
+      data: { zoneId: zone.id, eventId: event.id, status: "completed", reason },
+      timestamp: now.toISOString(),
+    });
+    stopped++;
+  }
+  return stopped;
+}
+
+async function storeRecommendation(db: Db, zoneId: number, recommendation: IrrigationRecommendation) {
+  const [previous] = await db
+    .select()
+    .from(irrigationRecommendations)
+    .where(eq(irrigationRecommendations.zoneId, zoneId))
+    .orderBy(desc(irrigationRecommendations.createdAt))
+    .limit(1);
+  // Re-running every cycle would otherwise repeat the same advice
+  if (
+    previous &&
+    !previous.acknowledged &&
+    previous.recommendationType === recommendation.type &&
+    previous.priority === recommendation.priority
+  ) {
+    return;
+  }
+
+  await db.insert(irrigationRecommendations).values({
+    zoneId,
+    recommendationType: recommendation.type,
+    priority: recommendation.priority,
+    reason: recommendation.reason.slice(0, 500),
+    recommendedDurationMinutes: recommendation.recommendedDurationMinutes,
+    estimatedWaterNeeded: recommendation.estimatedWaterNeeded.toFixed(2),
+    weatherFactor: Math.max(0, Math.min(999, recommendation.weatherFactor)).toFixed(2),
+    soilMoistureFactor: recommendation.soilMoistureFactor.toFixed(2),
+    cropWaterRequirement: recommendation.cropWaterRequirement.toFixed(2),
+  });
+}
+
+async function startRun(db: Db, zone: IrrigationZone, now: Date, valves: ValveController, recommendation: IrrigationRecommendation) {
+  const [busy] = await db
+    .select({ id: irrigationEvents.id })
+    .from(irrigationEvents)
+    .where(and(eq(irrigationEvents.zoneId, zone.id), eq(irrigationEvents.status, "in_progress")))
+    .limit(1);
+
+  const [applied] = await db
+    .select({ liters: sql<string>`coalesce(sum(${irrigationEvents.waterAppliedLiters}), 0)` })
+    .from(irrigationEvents)
+    .where(
+      and(
+        eq(irrigationEvents.zoneId, zone.id),
+        inArray(irrigationEvents.status, ["completed", "in_progress"]),
+        gte(irrigationEvents.startTime, startOfDay(now))
+      )
+    );
+
+  const flowRate = num(zone.flowRateLitersPerMin, DEFAULT_FLOW_RATE_LPM);
+  const schedules = await db
+    .select()
+    .from(irrigationSchedules)
+    .where(and(eq(irrigationSchedules.zoneId, zone.id), eq(irrigationSchedules.enabled, true)));
+  const estimatedEnd = new Date(now.getTime() + Math.min(MAX_RUN_MINUTES, Math.ceil(recommendation.estimatedWaterNeeded / flowRate)) * 60000);
+  const conflict = schedules.find(schedule => scheduleOverlaps(schedule, now, estimatedEnd));
+
+  const plan = planAutomaticRun({
+    recommendation,
+    flowRateLitersPerMin: flowRate,
+    maxDailyLiters: zone.maxDailyLiters ? parseFloat(zone.maxDailyLiters) : null,
+    litersAppliedToday: parseFloat(applied?.liters ?? "0"),
+    zoneBusy: !!busy,
+    conflictingSchedule: conflict?.scheduleName ?? null,
+  });
+  if (plan.action === "none") return false;
+  if (plan.action === "blocked") {
+    console.log(`[IrrigationScheduler] Zone ${zone.id} not started: ${plan.reason}`);
+    return false;
+  }
+
+  const reason = `${recommendation.reason}${plan.capped ? " (limited by safety cap)" : ""}`.slice(0, 500);
+  const [result] = await db.insert(irrigationEvents).values({
+    zoneId: zone.id,
+    eventType: "automatic",
+    startTime: now,
+    durationMinutes: plan.durationMinutes,
+    waterAppliedLiters: plan.liters.toFixed(2),
+    reason,
+    status: "in_progress",
+  });
+
+  try {
+    await valves.open(zone.valveId!, plan.durationMinutes);
+  } catch (error) {
+    await db
+      .update(irrigationEvents)
+      .set({
+        status: "failed",
+        endTime: now,
+        waterAppliedLiters: "0",
+        reason: `Valve command failed: ${(error as Error).message}`.slice(0, 500),
+      })
+      .where(eq(irrigationEvents.id, result.insertId));
+    console.error(`[IrrigationScheduler] Failed to open valve for zone ${zone.id}:`, error);
+    return false;
+  }
+
+  broadcastToFarm(zone.farmId, {
+    type: "irrigation_event",
+    data: { zoneId: zone.id, eventId: result.insertId, status: "in_progress", durationMinutes: plan.durationMinutes },
+    timestamp: now.toISOString(),
+  });
+  return true;
+}
+
+/**
+ * One scheduler pass over all active zones.
+ */
+export async function runIrrigationCycle(
+  now: Date = new Date(),
+  valves: ValveController = getValveController()
+): Promise<{ evaluated: number; started: number; stopped: number }> {
+  const db = await getDb();
+  if (!db) return { evaluated: 0, started: 0, stopped: 0 };
+
+  const stopped = await finishRuns(db, now, valves);
+
+  const zones = await db.select().from(irrigationZones).where(eq(irrigationZones.status, "active"));
+  const weatherByFarm = new Map<number, FarmWeather>();
+  let evaluated = 0;
+  let started = 0;
+
+  for (const zone of zones) {
+    try {
+      const reading = await latestMoisture(db, zone.id);
+      if (!reading || now.getTime() - reading.readingTime.getTime() > MAX_READING_AGE_MS) continue;
+
+      let weather = weatherByFarm.get(zone.farmId);
+      if (!weather) {
+        weather = await loadFarmWeather(db, zone.farmId);
+        weatherByFarm.set(zone.farmId, weather);
+      }
+
+      const soilTemperature = reading.temperature ? parseFloat(reading.temperature) : null;
+      const recommendation = calculateIrrigationNeeds({
+        zoneId: zone.id,
+        currentMoisture: parseFloat(reading.moisturePercentage),
+        targetMoisture: num(zone.targetMoisture, 60),
+        minMoisture: num(zone.minMoisture, 40),
+        maxMoisture: num(zone.maxMoisture, 80),
+        fieldCapacity: num(zone.fieldCapacity, 35),
+        wiltingPoint: num(zone.wiltingPoint, 15),
+        areaHectares: num(zone.areaHectares, 1),
+        cropType: zone.cropType,
+        soilType: zone.soilType ?? "loam",
+        temperature: weather.temperature ?? soilTemperature ?? 25,
+        humidity: weather.humidity ?? 60,
+        rainfallForecast: weather.rainfallForecast,
+        evapotranspirationRate: DEFAULT_ET_MM_PER_DAY,
+      });
+      evaluated++;
+
+      await storeRecommendation(db, zone.id, recommendation);
+
+      if (zone.controlMode === "auto" && zone.valveId) {
+        if (await startRun(db, zone, now, valves, recommendation)) started++;
+      }
+    } catch (error) {
+      console.error(`[IrrigationScheduler] Zone ${zone.id} failed:`, error);
+    }
+  }
+
+  return { evaluated, started, stopped };
+}
+
+/**
+ * Stop a zone's running irrigation immediately (manual override).
+ */
+export async function stopZoneIrrigation(zoneId: number, reason: string, valves: ValveController = getValveController()) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [zone] = await db.select().from(irrigationZones).where(eq(irrigationZones.id, zoneId)).limit(1);
+  if (!zone) return 0;
+  if (zone.valveId) await valves.close(zone.valveId);
+
+  const now = new Date();
+  const running = await db
+    .select()
+    .from(irrigationEvents)
+    .where(and(eq(irrigationEvents.zoneId, zoneId), eq(irrigationEvents.status, "in_progress")));
+  const flowRate = num(zone.flowRateLitersPerMin, DEFAULT_FLOW_RATE_LPM);
+  for (const event of running) {
+    const minutes = Math.max(0, Math.round((now.getTime() - event.startTime.getTime()) / 60000));
+    await db
+      .update(irrigationEvents)
+      .set({
+        status: "completed",
+        endTime: now,
+        durationMinutes: minutes,
+        waterAppliedLiters: (minutes * flowRate).toFixed(2),
+        reason: `${event.reason ?? ""} | ${reason}`.slice(0, 500),
+      })
+      .where(eq(irrigationEvents.id, event.id));
+  }
+  return running.length;
+}
+
+export function initializeIrrigationScheduler() {
+  // A failed cycle is not retried; the next one evaluates every zone again
+  registerJobHandler(
+    "irrigation.runCycle",
+    async () => {
+      const { evaluated, started, stopped } = await runIrrigationCycle();
+      if (started || stopped) {
+        console.log(`[IrrigationScheduler] ${evaluated} zones evaluated, ${started} runs started, ${stopped} stopped`);
+      }
+      return { evaluated, started, stopped };
+    },
+    { maxAttempts: 1 }
+  );
+  defineCronJob("irrigation-cycle", "*/15 * * * *", "irrigation.runCycle").catch(error =>
+    console.error("[IrrigationScheduler] Could not schedule the irrigation cycle:", error)
+  );
+
+  console.log("[IrrigationScheduler] Irrigation cycle scheduled every 15 minutes");
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  CronExpressionError,
+  nextCronOccurrence,
+  parseCronExpression,
+  retryBackoffMs,
+  scheduleOccurrenceKey,
+} from "./jobQueue";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCronExpression", () => {
+  it("expands lists, ranges and steps", () => {
+    const schedule = parseCronExpression("*/15 6-8 1,15 * 1-5");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([6, 7, 8]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(schedule.anyDayOfMonth).toBe(false);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("* * * *")).toThrow(CronExpressionError);
+    expect(() => parseCronExpression("60 * * * *")).toThrow(/outside 0-59/);
+    expect(() => parseCronExpression("* * * * mon")).toThrow(CronExpressionError);
+  });
+});
+
+describe("nextCronOccurrence", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    expect(nextCronOccurrence("*/5 * * * *", at("2026-03-10T10:05:00Z"))).toEqual(at("2026-03-10T10:10:00Z"));
+    expect(nextCronOccurrence("*/5 * * * *", at("2026-03-10T10:07:42Z"))).toEqual(at("2026-03-10T10:10:00Z"));
+  });
+
+  it("rolls over to the next day", () => {
+    expect(nextCronOccurrence("0 6 * * *", at("2026-03-10T18:00:00Z"))).toEqual(at("2026-03-11T06:00:00Z"));
+  });
+
+  it("runs on either restricted day field", () => {
+    // 13th of the month or any Friday; 2026-03-11 is a Wednesday
+    const expression = "0 0 13 * 5";
+    expect(nextCronOccurrence(expression, at("2026-03-11T00:00:00Z"))).toEqual(at("2026-03-13T00:00:00Z"));
+    expect(nextCronOccurrence(expression, at("2026-03-13T00:00:00Z"))).toEqual(at("2026-03-20T00:00:00Z"));
+  });
+
+  it("skips months that do not match", () => {
+    expect(nextCronOccurrence("30 2 1 6 *", at("2026-03-10T00:00:00Z"))).toEqual(at("2026-06-01T02:30:00Z"));
+    expect(nextCronOccurrence("0 0 29 2 *", at("2026-03-01T00:00:00Z"))).toEqual(at("2028-02-29T00:00:00Z"));
+  });
+
+  it("gives up on dates that never exist", () => {
+    expect(() => nextCronOccurrence("0 0 31 2 *", at("2026-01-01T00:00:00Z"))).toThrow(/never matches/);
+  });
+});
+
+describe("retryBackoffMs", () => {
+  it("doubles per attempt up to the cap", () => {
+    expect(retryBackoffMs(1)).toBe(30_000);
+    expect(retryBackoffMs(3)).toBe(120_000);
+    expect(retryBackoffMs(20)).toBe(60 * 60 * 1000);
+    expect(retryBackoffMs(2, 1000, 1500)).toBe(1500);
+  });
+});
+
+describe("scheduleOccurrenceKey", () => {
+  it("is the same for every instance enqueuing one occurrence", () => {
+    const occurrence = at("2026-03-10T06:00:00Z");
+    expect(scheduleOccurrenceKey("weather-check-morning", occurrence)).toBe(
+      scheduleOccurrenceKey("weather-check-morning", new Date(occurrence.getTime()))
+    );
+    expect(scheduleOccurrenceKey("weather-check-morning", occurrence)).toBe("cron:weather-check-morning:2026-03-10T06:00:00.000Z");
+  });
+});
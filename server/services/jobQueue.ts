@@ -0,0 +1,119 @@
+/**
+ * Background job queue
+ * Cron parsing and retry timing for the MySQL-backed queue in
+ * jobQueueService. No database access here, so schedules and backoff can
+ * be tested on their own.
+ *
+ * Cron expressions use the usual five fields (minute hour day-of-month
+ * month day-of-week) with lists, ranges and steps, evaluated in UTC, which
+ * is also local time for our farms (Africa/Accra). As in standard cron,
+ * when both day fields are restricted a day matching either one runs.
+ */
+
+export class CronExpressionError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = "CronExpressionError";
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+function parseField(expression: string, field: string, index: number): Set<number> {
+  const { name, min, max } = FIELDS[index];
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new CronExpressionError(expression, `cannot read ${name} "${part}"`);
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? min : Number(start);
+    const to = range === "*" ? max : end !== undefined ? Number(end) : step ? max : from;
+    const by = step ? Number(step) : 1;
+    if (from < min || to > max || from > to || by < 1) {
+      throw new CronExpressionError(expression, `${name} "${part}" is outside ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new CronExpressionError(expression, "expected 5 fields");
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(expression, field, index)
+  );
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/** First occurrence strictly after `after`, at minute resolution */
+export function nextCronOccurrence(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Jump a whole month, day or hour at a time when that field cannot match
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new Error("Cron expression never matches");
+}
+
+/** Delay before retrying after failed attempt n (1-based): doubles from the base, capped */
+export function retryBackoffMs(attempt: number, baseMs = 30_000, maxMs = 60 * 60 * 1000): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+}
+
+/** Unique key for one occurrence of a schedule, so several instances enqueue it once */
+export function scheduleOccurrenceKey(scheduleName: string, occurrence: Date): string {
+  return `cron:${scheduleName}:${occurrence.toISOString()}`;
+}
@@ -0,0 +1,452 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, inArray, lt, lte, or } from "drizzle-orm";
+import { getDb } from "../db";
+import { backgroundJobs, jobSchedules, type BackgroundJob } from "../../drizzle/schema";
+import { nextCronOccurrence, parseCronExpression, retryBackoffMs, scheduleOccurrenceKey } from "./jobQueue";
+
+/**
+ * Background job queue
+ * Durable jobs in backgroundJobs, shared by every app instance. Workers
+ * claim a job with a conditional update that sets a lease (lockedBy /
+ * lockedUntil), so only one instance runs it; a running job renews its
+ * lease, and a job whose lease lapses (worker crashed or hung) is claimed
+ * again. Failures are retried with exponential backoff until maxAttempts,
+ * then dead-lettered for an admin to inspect and retry.
+ *
+ * Cron schedules live in jobSchedules. Every instance checks them, but each
+ * occurrence is enqueued under a unique key, so it runs once however many
+ * instances are up.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  return db;
+}
+
+export type JobPayload = Record<string, unknown>;
+
+export interface JobContext {
+  jobId: number;
+  attempt: number;
+  /** Aborted when this worker loses the job's lease */
+  signal: AbortSignal;
+}
+
+export type JobHandler<P extends JobPayload = JobPayload> = (payload: P, context: JobContext) => Promise<unknown>;
+
+export interface JobHandlerOptions {
+  /** Attempts before the job is dead-lettered (default 5) */
+  maxAttempts?: number;
+  /** How long a claim lasts without renewal (default 5 minutes) */
+  leaseMs?: number;
+  /** Delay before the first retry; doubles on each further failure (default 30 seconds) */
+  backoffMs?: number;
+}
+
+export interface EnqueueOptions {
+  /** Enqueueing a key that already exists returns the existing job */
+  uniqueKey?: string;
+  runAt?: Date;
+  priority?: number;
+  maxAttempts?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const SCHEDULE_CHECK_MS = 15 * 1000;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+const handlers = new Map<string, { handler: JobHandler<any>; options: JobHandlerOptions }>();
+
+export function registerJobHandler<P extends JobPayload>(
+  name: string,
+  handler: JobHandler<P>,
+  options: JobHandlerOptions = {}
+) {
+  handlers.set(name, { handler, options });
+}
+
+export function unregisterJobHandler(name: string) {
+  handlers.delete(name);
+}
+
+export async function enqueueJob(
+  name: string,
+  payload: JobPayload = {},
+  options: EnqueueOptions = {}
+): Promise<{ id: number; created: boolean }> {
+  const db = await requireDb();
+  const [header] = await db
+    .insert(backgroundJobs)
+    .ignore()
+    .values({
+      name,
+      payload,
+      uniqueKey: options.uniqueKey ?? null,
+      priority: options.priority ?? 0,
+      maxAttempts: options.maxAttempts ?? handlers.get(name)?.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(),
+    });
+  if (header.affectedRows) return { id: header.insertId, created: true };
+
+  const [existing] = await db
+    .select({ id: backgroundJobs.id })
+    .from(backgroundJobs)
+    .where(eq(backgroundJobs.uniqueKey, options.uniqueKey ?? ""))
+    .limit(1);
+  if (!existing) throw new Error(`Could not enqueue job ${name}`);
+  return { id: existing.id, created: false };
+}
+
+/**
+ * Claim one due job this instance has a handler for. A job still marked
+ * running whose lease has lapsed is taken over, or dead-lettered if that
+ * was its last attempt.
+ */
+async function claimNextJob(db: Db): Promise<BackgroundJob | null> {
+  const names = [...handlers.keys()];
+  if (!names.length) return null;
+
+  const now = new Date();
+  const candidates = await db
+    .select()
+    .from(backgroundJobs)
+    .where(
+      and(
+        inArray(backgroundJobs.name, names),
+        or(
+          and(eq(backgroundJobs.status, "pending"), lte(backgroundJobs.runAt, now)),
+          and(eq(backgroundJobs.status, "running"), lt(backgroundJobs.lockedUntil, now))
+        )
+      )
+    )
+    .orderBy(desc(backgroundJobs.priority), asc(backgroundJobs.runAt))
+    .limit(10);
+
+  for (const job of candidates) {
+    // Conditions that only hold if nobody else claimed the job since we read it
+    const unchanged =
+      job.status === "pending"
+        ? eq(backgroundJobs.status, "pending")
+        : and(
+            eq(backgroundJobs.status, "running"),
+            eq(backgroundJobs.lockedBy, job.lockedBy ?? ""),
+            eq(backgroundJobs.lockedUntil, job.lockedUntil ?? now)
+          );
+
+    if (job.status === "running" && job.attempts >= job.maxAttempts) {
+      await db
+        .update(backgroundJobs)
+        .set({
+          status: "dead",
+          lastError: `Lease held by ${job.lockedBy} expired on the final attempt`,
+          lockedBy: null,
+          lockedUntil: null,
+          finishedAt: now,
+        })
+        .where(and(eq(backgroundJobs.id, job.id), unchanged));
+      continue;
+    }
+
+    const leaseMs = handlers.get(job.name)?.options.leaseMs ?? DEFAULT_LEASE_MS;
+    const [claim] = await db
+      .update(backgroundJobs)
+      .set({
+        status: "running",
+        attempts: job.attempts + 1,
+        lockedBy: WORKER_ID,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        startedAt: now,
+      })
+      .where(and(eq(backgroundJobs.id, job.id), unchanged));
+    if (claim.affectedRows) return { ...job, status: "running", attempts: job.attempts + 1, lockedBy: WORKER_ID };
+  }
+  return null;
+}
+
+async function runJob(db: Db, job: BackgroundJob) {
+  const registration = handlers.get(job.name);
+  const leaseMs = registration?.options.leaseMs ?? DEFAULT_LEASE_MS;
+  const owned = and(
+    eq(backgroundJobs.id, job.id),
+    eq(backgroundJobs.status, "running"),
+    eq(backgroundJobs.lockedBy, WORKER_ID)
+  );
+
+  const controller = new AbortController();
+  const heartbeat = setInterval(() => {
+    db.update(backgroundJobs)
+      .set({ lockedUntil: new Date(Date.now() + leaseMs) })
+      .where(owned)
+      .then(([renewed]) => {
+        if (!renewed.affectedRows) controller.abort();
+      })
+      .catch(error => console.error(`[JobQueue] Could not renew lease on job ${job.id}:`, error));
+  }, Math.max(1000, leaseMs / 3));
+
+  try {
+    if (!registration) throw new Error(`No handler registered for ${job.name}`);
+    const result = await registration.handler(job.payload, {
+      jobId: job.id,
+      attempt: job.attempts,
+      signal: controller.signal,
+    });
+    const [done] = await db
+      .update(backgroundJobs)
+      .set({
+        status: "completed",
+        result: result === undefined ? null : result,
+        lastError: null,
+        lockedBy: null,
+        lockedUntil: null,
+        finishedAt: new Date(),
+      })
+      .where(owned);
+    if (!done.affectedRows) console.warn(`[JobQueue] Job ${job.id} finished after its lease was taken over`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = job.attempts >= job.maxAttempts;
+    const retryAt = new Date(Date.now() + retryBackoffMs(job.attempts, registration?.options.backoffMs));
+    await db
+      .update(backgroundJobs)
+      .set({
+        status: dead ? "dead" : "pending",
+        lastError: message.slice(0, 5000),
+        runAt: dead ? job.runAt : retryAt,
+        lockedBy: null,
+        lockedUntil: null,
+        finishedAt: dead ? new Date() : null,
+      })
+      .where(owned);
+    if (dead) {
+      console.error(`[JobQueue] ${job.name} job ${job.id} dead-lettered after ${job.attempts} attempts: ${message}`);
+    } else {
+      console.warn(`[JobQueue] ${job.name} job ${job.id} failed (attempt ${job.attempts}), retrying at ${retryAt.toISOString()}: ${message}`);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Register a cron schedule that enqueues `jobName` at each occurrence.
+ * Safe to call on every boot: an unchanged schedule keeps its next run,
+ * a changed expression is rescheduled, and an admin's pause is kept.
+ */
+export async function defineCronJob(scheduleName: string, cronExpression: string, jobName: string, payload: JobPayload = {}) {
+  const schedule = parseCronExpression(cronExpression);
+  const db = await requireDb();
+  const nextRunAt = nextCronOccurrence(schedule, new Date());
+
+  const [existing] = await db.select().from(jobSchedules).where(eq(jobSchedules.name, scheduleName)).limit(1);
+  if (!existing) {
+    await db.insert(jobSchedules).ignore().values({ name: scheduleName, cronExpression, jobName, payload, nextRunAt });
+  } else if (existing.cronExpression !== cronExpression || existing.jobName !== jobName) {
+    await db.update(jobSchedules).set({ cronExpression, jobName, payload, nextRunAt }).where(eq(jobSchedules.id, existing.id));
+  } else if (JSON.stringify(existing.payload) !== JSON.stringify(payload)) {
+    await db.update(jobSchedules).set({ payload }).where(eq(jobSchedules.id, existing.id));
+  }
+}
+
+/** Enqueue the current occurrence of every due schedule and move each on to its next one */
+export async function runDueSchedules(): Promise<number> {
+  const db = await requireDb();
+  const now = new Date();
+  const due = await db
+    .select()
+    .from(jobSchedules)
+    .where(and(eq(jobSchedules.isActive, true), lte(jobSchedules.nextRunAt, now)));
+
+  let enqueued = 0;
+  for (const schedule of due) {
+    try {
+      const { created } = await enqueueJob(schedule.jobName, schedule.payload, {
+        uniqueKey: scheduleOccurrenceKey(schedule.name, schedule.nextRunAt),
+      });
+      if (created) enqueued++;
+      // Missed occurrences (server down) are not replayed: the next run is the next one from now
+      await db
+        .update(jobSchedules)
+        .set({ lastRunAt: now, nextRunAt: nextCronOccurrence(schedule.cronExpression, now) })
+        .where(and(eq(jobSchedules.id, schedule.id), eq(jobSchedules.nextRunAt, schedule.nextRunAt)));
+    } catch (error) {
+      console.error(`[JobQueue] Schedule ${schedule.name} failed to enqueue:`, error);
+    }
+  }
+  return enqueued;
+}
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let lastScheduleCheck = 0;
+const activeJobs = new Set<number>();
+
+async function poll(concurrency: number) {
+  if (polling) return;
+  polling = true;
+  try {
+    const db = await requireDb();
+    if (Date.now() - lastScheduleCheck >= SCHEDULE_CHECK_MS) {
+      lastScheduleCheck = Date.now();
+      await runDueSchedules();
+    }
+    while (activeJobs.size < concurrency) {
+      const job = await claimNextJob(db);
+      if (!job) break;
+      activeJobs.add(job.id);
+      runJob(db, job)
+        .catch(error => console.error(`[JobQueue] Job ${job.id} crashed the worker loop:`, error))
+        .finally(() => activeJobs.delete(job.id));
+    }
+  } catch (error) {
+    console.error("[JobQueue] Poll failed:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+export function startJobWorker(options: { concurrency?: number; pollMs?: number } = {}) {
+  if (pollTimer) return;
+  const concurrency = options.concurrency ?? 4;
+  pollTimer = setInterval(() => void poll(concurrency), options.pollMs ?? 2000);
+  console.log(`[JobQueue] Worker ${WORKER_ID} started (${concurrency} concurrent jobs)`);
+}
+
+export function stopJobWorker() {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+}
+
+// ---------------------------------------------------------------------------
+// Administration
+// ---------------------------------------------------------------------------
+
+export type JobStatus = BackgroundJob["status"];
+
+export async function listJobs(filter: { status?: JobStatus; name?: string; limit?: number; offset?: number } = {}) {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(backgroundJobs)
+    .where(
+      and(
+        filter.status ? eq(backgroundJobs.status, filter.status) : undefined,
+        filter.name ? eq(backgroundJobs.name, filter.name) : undefined
+      )
+    )
+    .orderBy(desc(backgroundJobs.updatedAt), desc(backgroundJobs.id))
+    .limit(filter.limit ?? 50)
+    .offset(filter.offset ?? 0);
+}
+
+export async function getJob(jobId: number) {
+  const db = await requireDb();
+  const [job] = await db.select().from(backgroundJobs).where(eq(backgroundJobs.id, jobId)).limit(1);
+  return job ?? null;
+}
+
+/** Job counts per name and status, plus how overdue the oldest pending job is */
+export async function getJobStats() {
+  const db = await requireDb();
+  const rows = await db
+    .select({ name: backgroundJobs.name, status: backgroundJobs.status, count: count() })
+    .from(backgroundJobs)
+    .groupBy(backgroundJobs.name, backgroundJobs.status);
+  const [oldest] = await db
+    .select({ runAt: backgroundJobs.runAt })
+    .from(backgroundJobs)
+    .where(and(eq(backgroundJobs.status, "pending"), lte(backgroundJobs.runAt, new Date())))
+    .orderBy(asc(backgroundJobs.runAt))
+    .limit(1);
+
+  const totals: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0, cancelled: 0 };
+  const byName: Record<string, Partial<Record<JobStatus, number>>> = {};
+  for (const row of rows) {
+    totals[row.status] += row.count;
+    (byName[row.name] ??= {})[row.status] = row.count;
+  }
+  return {
+    totals,
+    byName,
+    oldestPendingDelayMs: oldest ? Date.now() - oldest.runAt.getTime() : 0,
+    workerId: WORKER_ID,
+    activeOnThisWorker: activeJobs.size,
+  };
+}
+
+/** Put dead-lettered or cancelled jobs back in the queue with a fresh set of attempts */
+export async function retryJobs(filter: { jobIds?: number[]; name?: string }) {
+  const db = await requireDb();
+  const [header] = await db
+    .update(backgroundJobs)
+    .set({ status: "pending", attempts: 0, runAt: new Date(), finishedAt: null, lockedBy: null, lockedUntil: null })
+    .where(
+      and(
+        inArray(backgroundJobs.status, ["dead", "cancelled"]),
+        filter.jobIds ? inArray(backgroundJobs.id, filter.jobIds.length ? filter.jobIds : [0]) : undefined,
+        filter.name ? eq(backgroundJobs.name, filter.name) : undefined
+      )
+    );
+  return header.affectedRows;
+}
+
+/** Cancel a job that has not started; running jobs finish their attempt */
+export async function cancelJob(jobId: number) {
+  const db = await requireDb();
+  const [header] = await db
+    .update(backgroundJobs)
+    .set({ status: "cancelled", finishedAt: new Date() })
+    .where(and(eq(backgroundJobs.id, jobId), eq(backgroundJobs.status, "pending")));
+  return header.affectedRows > 0;
+}
+
+export async function listSchedules() {
+  const db = await requireDb();
+  return db.select().from(jobSchedules).orderBy(asc(jobSchedules.name));
+}
+
+export async function setScheduleActive(scheduleName: string, isActive: boolean) {
+  const db = await requireDb();
+  const [schedule] = await db.select().from(jobSchedules).where(eq(jobSchedules.name, scheduleName)).limit(1);
+  if (!schedule) return false;
+  await db
+    .update(jobSchedules)
+    .set({
+      isActive,
+      // Resuming starts from the next occurrence rather than catching up
+      ...(isActive && !schedule.isActive ? { nextRunAt: nextCronOccurrence(schedule.cronExpression, new Date()) } : {}),
+    })
+    .where(eq(jobSchedules.id, schedule.id));
+  return true;
+}
+
+/** Enqueue a schedule's job now, outside its cron timing */
+export async function runScheduleNow(scheduleName: string) {
+  const db = await requireDb();
+  const [schedule] = await db.select().from(jobSchedules).where(eq(jobSchedules.name, scheduleName)).limit(1);
+  if (!schedule) return null;
+  return enqueueJob(schedule.jobName, schedule.payload);
+}
+
+/** Delete completed and cancelled jobs older than the retention period; dead jobs stay until handled */
+export async function pruneFinishedJobs(retentionDays = 14) {
+  const db = await requireDb();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const [header] = await db
+    .delete(backgroundJobs)
+    .where(and(inArray(backgroundJobs.status, ["completed", "cancelled"]), lt(backgroundJobs.updatedAt, cutoff)));
+  return { deleted: header.affectedRows };
+}
+
+export function initializeJobQueue() {
+  registerJobHandler("jobs.prune", () => pruneFinishedJobs());
+  defineCronJob("prune-finished-jobs", "45 3 * * *", "jobs.prune").catch(error =>
+    console.error("[JobQueue] Could not define prune schedule:", error)
+  );
+  startJobWorker();
+}
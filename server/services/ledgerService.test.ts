@@ -0,0 +1,322 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { expenses, journalEntries, journalLines, ledgerAccounts } from "../../drizzle/schema";
+
+vi.mock("../db", async importOriginal => {
+  const actual = await importOriginal<typeof import("../db")>();
+  return { ...actual, getDb: vi.fn() };
+});
+
+import { getDb } from "../db";
+import { memoryDb, type MemoryTables } from "./memoryDb.testing";
+import {
+  ACCOUNTS,
+  buildBalanceSheet,
+  buildProfitAndLoss,
+  draftsForExpense,
+  draftsForInvoice,
+  draftsForPayroll,
+  draftsForRevenue,
+  expenseAccountFor,
+  LedgerError,
+  revenueAccountFor,
+  summarizeTrialBalance,
+  syncLedger,
+  validateLines,
+  type AccountTotals,
+  type EntryDraft,
+} from "./ledgerService";
+
+const updatedAt = new Date("2026-03-10T12:00:00Z");
+
+// Sum every draft into per-account totals, as the ledger queries would
+function totalsFrom(drafts: Array<EntryDraft | null>): AccountTotals[] {
+  const chart: Record<string, AccountTotals["type"]> = {
+    [ACCOUNTS.cash]: "asset",
+    [ACCOUNTS.receivable]: "asset",
+    [ACCOUNTS.fixedAssets]: "asset",
+    [ACCOUNTS.payable]: "liability",
+    [ACCOUNTS.wagesPayable]: "liability",
+    [ACCOUNTS.deductionsPayable]: "liability",
+    [ACCOUNTS.ownersEquity]: "equity",
+    [ACCOUNTS.cropSales]: "revenue",
+    [ACCOUNTS.invoicedSales]: "revenue",
+    [ACCOUNTS.feed]: "expense",
+    [ACCOUNTS.wages]: "expense",
+  };
+  const totals = new Map<string, AccountTotals>();
+  for (const draft of drafts) {
+    for (const line of draft?.lines ?? []) {
+      const row = totals.get(line.accountCode) ?? {
+        accountId: Number(line.accountCode),
+        code: line.accountCode,
+        name: line.accountCode,
+        type: chart[line.accountCode],
+        debit: 0,
+        credit: 0,
+      };
+      row.debit += line.debit ?? 0;
+      row.credit += line.credit ?? 0;
+      totals.set(line.accountCode, row);
+    }
+  }
+  return Array.from(totals.values());
+}
+
+describe("validateLines", () => {
+  it("accepts balanced entries", () => {
+    expect(() =>
+      validateLines([
+        { accountCode: "5000", debit: 10.1 },
+        { accountCode: "5100", debit: 0.2 },
+        { accountCode: "1000", credit: 10.3 },
+      ])
+    ).not.toThrow();
+  });
+
+  it("rejects unbalanced, one-line and two-sided entries", () => {
+    expect(() => validateLines([{ accountCode: "5000", debit: 10 }, { accountCode: "1000", credit: 9.99 }])).toThrow(LedgerError);
+    expect(() => validateLines([{ accountCode: "5000", debit: 10 }])).toThrow(LedgerError);
+    expect(() => validateLines([{ accountCode: "5000", debit: 10, credit: 10 }, { accountCode: "1000" }])).toThrow(LedgerError);
+  });
+});
+
+describe("account mapping", () => {
+  it("maps both expense tables' categories", () => {
+    expect(expenseAccountFor("feed")).toBe(ACCOUNTS.feed);
+    expect(expenseAccountFor("fertilizers")).toBe(ACCOUNTS.cropInputs);
+    expect(expenseAccountFor("fertilizer")).toBe(ACCOUNTS.cropInputs);
+    expect(expenseAccountFor("fuel")).toBe(ACCOUNTS.transport);
+    expect(expenseAccountFor("something new")).toBe(ACCOUNTS.otherExpenses);
+  });
+
+  it("maps both revenue tables' types", () => {
+    expect(revenueAccountFor("crop_sale")).toBe(ACCOUNTS.cropSales);
+    expect(revenueAccountFor("crop_sales")).toBe(ACCOUNTS.cropSales);
+    expect(revenueAccountFor("milk_production")).toBe(ACCOUNTS.animalProducts);
+    expect(revenueAccountFor(null)).toBe(ACCOUNTS.otherIncome);
+  });
+});
+
+describe("posting rules", () => {
+  const expense = {
+    farmId: 1,
+    expenseType: "feed" as const,
+    amount: "250.00",
+    expenseDate: new Date("2026-03-01"),
+    paymentStatus: "pending" as const,
+    paymentDate: null,
+    description: "Layer mash",
+    updatedAt,
+  };
+
+  it("accrues unpaid expenses to payables and settles them once paid", () => {
+    const pending = draftsForExpense(expense);
+    expect(pending.expense?.lines).toEqual([
+      { accountCode: ACCOUNTS.feed, debit: 250 },
+      { accountCode: ACCOUNTS.payable, credit: 250 },
+    ]);
+    expect(pending.expense_payment).toBeNull();
+
+    const paid = draftsForExpense({ ...expense, paymentStatus: "paid" });
+    expect(paid.expense_payment?.lines).toEqual([
+      { accountCode: ACCOUNTS.payable, debit: 250 },
+      { accountCode: ACCOUNTS.cash, credit: 250 },
+    ]);
+  });
+
+  it("posts revenue to receivables until it is received", () => {
+    const drafts = draftsForRevenue({
+      farmId: 1,
+      revenueType: "crop_sale",
+      amount: "1000",
+      revenueDate: new Date("2026-03-02"),
+      paymentStatus: "paid",
+      paymentDate: null,
+      description: "Maize",
+      updatedAt,
+    });
+    expect(drafts.revenue?.lines[1]).toEqual({ accountCode: ACCOUNTS.cropSales, credit: 1000 });
+    expect(drafts.revenue_receipt?.lines[0]).toEqual({ accountCode: ACCOUNTS.cash, debit: 1000 });
+  });
+
+  it("ignores draft and cancelled invoices and records partial payments", () => {
+    const invoice = {
+      farmId: 1,
+      invoiceNumber: "INV-7",
+      invoiceType: "revenue" as const,
+      vendorOrBuyer: "Agro Ltd",
+      invoiceDate: new Date("2026-03-03"),
+      totalAmount: "500.00",
+      paidAmount: "200.00",
+      paymentStatus: "draft" as const,
+      paidAt: null,
+      updatedAt,
+    };
+    expect(draftsForInvoice(invoice)).toEqual({ invoice: null, invoice_payment: null });
+    expect(draftsForInvoice({ ...invoice, paymentStatus: "cancelled" })).toEqual({ invoice: null, invoice_payment: null });
+
+    const partial = draftsForInvoice({ ...invoice, paymentStatus: "partial" });
+    expect(partial.invoice?.lines[0]).toEqual({ accountCode: ACCOUNTS.receivable, debit: 500 });
+    expect(partial.invoice_payment?.lines[0]).toEqual({ accountCode: ACCOUNTS.cash, debit: 200 });
+  });
+
+  it("dates invoice payments on the payment, not the last edit", () => {
+    const invoice = {
+      farmId: 1,
+      invoiceNumber: "INV-8",
+      invoiceType: "revenue" as const,
+      vendorOrBuyer: "Agro Ltd",
+      invoiceDate: new Date("2026-03-03"),
+      totalAmount: "500.00",
+      paidAmount: "500.00",
+      paymentStatus: "paid" as const,
+      paidAt: new Date("2026-03-06"),
+      updatedAt,
+    };
+    expect(draftsForInvoice(invoice).invoice_payment?.entryDate).toEqual(new Date("2026-03-06"));
+    expect(draftsForInvoice({ ...invoice, paidAt: null }).invoice_payment?.entryDate).toEqual(new Date("2026-03-03"));
+  });
+
+  it("splits payroll into net wages and withheld deductions", () => {
+    const drafts = draftsForPayroll({
+      farmId: 1,
+      workerId: 4,
+      payrollPeriodEnd: new Date("2026-03-31"),
+      totalPay: "900.00",
+      deductions: "100.00",
+      status: "paid",
+      paidAt: null,
+      updatedAt,
+    });
+    expect(drafts.payroll?.lines).toEqual([
+      { accountCode: ACCOUNTS.wages, debit: 1000 },
+      { accountCode: ACCOUNTS.wagesPayable, credit: 900 },
+      { accountCode: ACCOUNTS.deductionsPayable, credit: 100 },
+    ]);
+    expect(drafts.payroll_payment?.lines).toEqual([
+      { accountCode: ACCOUNTS.wagesPayable, debit: 900 },
+      { accountCode: ACCOUNTS.cash, credit: 900 },
+    ]);
+  });
+
+  it("does not post payroll until it is approved", () => {
+    const drafts = draftsForPayroll({
+      farmId: 1,
+      workerId: 4,
+      payrollPeriodEnd: new Date("2026-03-31"),
+      totalPay: "900.00",
+      deductions: "0",
+      status: "draft",
+      paidAt: null,
+      updatedAt,
+    });
+    expect(drafts).toEqual({ payroll: null, payroll_payment: null });
+  });
+});
+
+describe("reports", () => {
+  const drafts = [
+    { farmId: 1, entryDate: updatedAt, description: "Capital", lines: [{ accountCode: ACCOUNTS.cash, debit: 5000 }, { accountCode: ACCOUNTS.ownersEquity, credit: 5000 }] },
+    ...Object.values(
+      draftsForExpense({
+        farmId: 1,
+        expenseType: "feed",
+        amount: "300",
+        expenseDate: updatedAt,
+        paymentStatus: "paid",
+        paymentDate: null,
+        description: "Feed",
+        updatedAt,
+      })
+    ),
+    ...Object.values(
+      draftsForRevenue({
+        farmId: 1,
+        revenueType: "crop_sale",
+        amount: "1200.50",
+        revenueDate: updatedAt,
+        paymentStatus: "pending",
+        paymentDate: null,
+        description: "Tomatoes",
+        updatedAt,
+      })
+    ),
+  ];
+  const totals = totalsFrom(drafts);
+
+  it("produces a balanced trial balance", () => {
+    const trial = summarizeTrialBalance(totals);
+    expect(trial.balanced).toBe(true);
+    expect(trial.totalDebit).toBe(trial.totalCredit);
+    // Payables were accrued and settled, so the account nets to zero and drops out
+    expect(trial.accounts.find(account => account.code === ACCOUNTS.payable)).toBeUndefined();
+  });
+
+  it("computes profit and loss from revenue and expense accounts", () => {
+    const pnl = buildProfitAndLoss(totals);
+    expect(pnl.totalRevenue).toBe(1200.5);
+    expect(pnl.totalExpenses).toBe(300);
+    expect(pnl.netIncome).toBe(900.5);
+  });
+
+  it("balances the balance sheet with current earnings in equity", () => {
+    const sheet = buildBalanceSheet(totals);
+    expect(sheet.totalAssets).toBe(5000 - 300 + 1200.5);
+    expect(sheet.totalLiabilities).toBe(0);
+    expect(sheet.totalEquity).toBe(5900.5);
+    expect(sheet.equity.map(line => line.name)).toContain("Current earnings");
+    expect(sheet.balanced).toBe(true);
+  });
+});
+
+describe("syncLedger", () => {
+  const expense = {
+    id: 7,
+    farmId: 1,
+    expenseType: "feed",
+    amount: "100.00",
+    expenseDate: new Date("2026-03-05"),
+    paymentStatus: "pending",
+    paymentDate: null,
+    description: "Layer mash",
+    updatedAt,
+  };
+  let tables: MemoryTables;
+
+  beforeEach(() => {
+    tables = new Map([[expenses, [{ ...expense }]]]);
+    vi.mocked(getDb).mockResolvedValue(memoryDb(tables) as any);
+  });
+
+  // Net debits per entry date on the feed account
+  const feedByDay = () => {
+    const feed = tables.get(ledgerAccounts)!.find(account => account.code === ACCOUNTS.feed)!;
+    const totals: Record<string, number> = {};
+    for (const line of tables.get(journalLines)!.filter(line => line.accountId === feed.id)) {
+      const entry = tables.get(journalEntries)!.find(row => row.id === line.entryId)!;
+      const day = entry.entryDate.toISOString().slice(0, 10);
+      totals[day] = (totals[day] ?? 0) + Number(line.debit) - Number(line.credit);
+    }
+    return totals;
+  };
+
+  it("reverses and reposts an edited record on the original date", async () => {
+    expect(await syncLedger("expense", 7)).toBe(1);
+    expect(await syncLedger("expense", 7)).toBe(0);
+
+    tables.get(expenses)![0].amount = "150.00";
+    expect(await syncLedger("expense", 7)).toBe(2);
+    const reversal = tables.get(journalEntries)!.find(entry => entry.sourceType === "reversal")!;
+    expect(reversal.entryDate).toEqual(expense.expenseDate);
+    expect(feedByDay()).toEqual({ "2026-03-05": 150 });
+  });
+
+  it("moves an entry whose date changed", async () => {
+    await syncLedger("expense", 7);
+    tables.get(expenses)![0].expenseDate = new Date("2026-04-02");
+
+    expect(await syncLedger("expense", 7)).toBe(2);
+    expect(feedByDay()).toEqual({ "2026-03-05": 0, "2026-04-02": 100 });
+    expect(await syncLedger("expense", 7)).toBe(0);
+  });
+});
@@ -0,0 +1,781 @@
+import { and, eq, gt, gte, inArray, isNull, lte, sql, type SQL } from "drizzle-orm";
+import {
+  expenses,
+  farmAssets,
+  farmExpenses,
+  farmRevenue,
+  invoices,
+  journalEntries,
+  journalLines,
+  ledgerAccounts,
+  payrollRecords,
+  revenue,
+} from "../../drizzle/schema";
+import type { Expense, FarmAsset, FarmExpense, FarmRevenue, Invoice, PayrollRecord, Revenue } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+
+/**
+ * Double-entry general ledger
+ * Every farm gets a default chart of accounts. Business records (expenses,
+ * revenue, invoices, payroll, asset purchases) are turned into balanced
+ * journal entries by syncLedger, which derives the postings from the
+ * record's current state: a new or changed record is posted, a deleted or
+ * cancelled one is reversed. Entries are never edited in place, so the
+ * ledger keeps a full history of corrections.
+ */
+
+export type AccountType = "asset" | "liability" | "equity" | "revenue" | "expense";
+
+export const ACCOUNTS = {
+  cash: "1000",
+  receivable: "1100",
+  fixedAssets: "1500",
+  payable: "2000",
+  wagesPayable: "2100",
+  deductionsPayable: "2200",
+  ownersEquity: "3000",
+  cropSales: "4000",
+  livestockSales: "4100",
+  animalProducts: "4200",
+  serviceIncome: "4300",
+  invoicedSales: "4400",
+  otherIncome: "4900",
+  feed: "5000",
+  veterinary: "5100",
+  cropInputs: "5200",
+  wages: "5300",
+  equipment: "5400",
+  utilities: "5500",
+  transport: "5600",
+  rentInsurance: "5700",
+  otherExpenses: "5900",
+} as const;
+
+export const DEFAULT_CHART: Array<{ code: string; name: string; type: AccountType }> = [
+  { code: ACCOUNTS.cash, name: "Cash and Mobile Money", type: "asset" },
+  { code: ACCOUNTS.receivable, name: "Accounts Receivable", type: "asset" },
+  { code: ACCOUNTS.fixedAssets, name: "Equipment and Fixed Assets", type: "asset" },
+  { code: ACCOUNTS.payable, name: "Accounts Payable", type: "liability" },
+  { code: ACCOUNTS.wagesPayable, name: "Wages Payable", type: "liability" },
+  { code: ACCOUNTS.deductionsPayable, name: "Payroll Deductions Payable", type: "liability" },
+  { code: ACCOUNTS.ownersEquity, name: "Owner's Equity", type: "equity" },
+  { code: ACCOUNTS.cropSales, name: "Crop Sales", type: "revenue" },
+  { code: ACCOUNTS.livestockSales, name: "Livestock Sales", type: "revenue" },
+  { code: ACCOUNTS.animalProducts, name: "Milk, Egg and Wool Sales", type: "revenue" },
+  { code: ACCOUNTS.serviceIncome, name: "Service Income", type: "revenue" },
+  { code: ACCOUNTS.invoicedSales, name: "Invoiced Sales", type: "revenue" },
+  { code: ACCOUNTS.otherIncome, name: "Other Income", type: "revenue" },
+  { code: ACCOUNTS.feed, name: "Feed", type: "expense" },
+  { code: ACCOUNTS.veterinary, name: "Veterinary and Medication", type: "expense" },
+  { code: ACCOUNTS.cropInputs, name: "Seeds, Fertilizer and Crop Protection", type: "expense" },
+  { code: ACCOUNTS.wages, name: "Wages and Labor", type: "expense" },
+  { code: ACCOUNTS.equipment, name: "Equipment and Maintenance", type: "expense" },
+  { code: ACCOUNTS.utilities, name: "Utilities and Water", type: "expense" },
+  { code: ACCOUNTS.transport, name: "Transport and Fuel", type: "expense" },
+  { code: ACCOUNTS.rentInsurance, name: "Rent and Insurance", type: "expense" },
+  { code: ACCOUNTS.otherExpenses, name: "Other Expenses", type: "expense" },
+];
+
+// Covers both the expenses.expenseType enum and the farmExpenses categories
+const EXPENSE_ACCOUNTS: Record<string, string> = {
+  feed: ACCOUNTS.feed,
+  medication: ACCOUNTS.veterinary,
+  veterinary: ACCOUNTS.veterinary,
+  seeds: ACCOUNTS.cropInputs,
+  fertilizer: ACCOUNTS.cropInputs,
+  fertilizers: ACCOUNTS.cropInputs,
+  pesticides: ACCOUNTS.cropInputs,
+  labor: ACCOUNTS.wages,
+  equipment: ACCOUNTS.equipment,
+  maintenance: ACCOUNTS.equipment,
+  utilities: ACCOUNTS.utilities,
+  water: ACCOUNTS.utilities,
+  transport: ACCOUNTS.transport,
+  fuel: ACCOUNTS.transport,
+  rent: ACCOUNTS.rentInsurance,
+  insurance: ACCOUNTS.rentInsurance,
+};
+
+// Covers both the revenue.revenueType enum and the farmRevenue sources
+const REVENUE_ACCOUNTS: Record<string, string> = {
+  crop_sale: ACCOUNTS.cropSales,
+  produce_sale: ACCOUNTS.cropSales,
+  crop_sales: ACCOUNTS.cropSales,
+  animal_sale: ACCOUNTS.livestockSales,
+  meat_sale: ACCOUNTS.livestockSales,
+  livestock_sales: ACCOUNTS.livestockSales,
+  fish_sales: ACCOUNTS.livestockSales,
+  milk_production: ACCOUNTS.animalProducts,
+  egg_production: ACCOUNTS.animalProducts,
+  wool_production: ACCOUNTS.animalProducts,
+  breeding_service: ACCOUNTS.serviceIncome,
+  services: ACCOUNTS.serviceIncome,
+};
+
+export function expenseAccountFor(category: string | null | undefined): string {
+  return EXPENSE_ACCOUNTS[(category ?? "").toLowerCase()] ?? ACCOUNTS.otherExpenses;
+}
+
+export function revenueAccountFor(category: string | null | undefined): string {
+  return REVENUE_ACCOUNTS[(category ?? "").toLowerCase()] ?? ACCOUNTS.otherIncome;
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+export interface LineInput {
+  accountCode: string;
+  debit?: number;
+  credit?: number;
+  memo?: string;
+}
+
+export interface EntryDraft {
+  farmId: number;
+  entryDate: Date;
+  description: string;
+  lines: LineInput[];
+}
+
+const toCents = (value: number | string | null | undefined) => Math.round(parseFloat(String(value ?? 0)) * 100) || 0;
+const fromCents = (cents: number) => cents / 100;
+
+/** Throws unless every line is one-sided and debits equal credits. */
+export function validateLines(lines: LineInput[]) {
+  if (lines.length < 2) throw new LedgerError("A journal entry needs at least two lines");
+  let debits = 0;
+  let credits = 0;
+  for (const line of lines) {
+    const debit = toCents(line.debit);
+    const credit = toCents(line.credit);
+    if (debit < 0 || credit < 0) throw new LedgerError("Line amounts cannot be negative");
+    if ((debit > 0) === (credit > 0)) throw new LedgerError(`Line for ${line.accountCode} must have either a debit or a credit`);
+    debits += debit;
+    credits += credit;
+  }
+  if (debits !== credits) {
+    throw new LedgerError(`Entry is unbalanced: debits ${fromCents(debits)} != credits ${fromCents(credits)}`);
+  }
+}
+
+function toDate(value: Date | string | null | undefined, fallback: Date): Date {
+  if (!value) return fallback;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? fallback : date;
+}
+
+function pair(amount: number, debitCode: string, creditCode: string): LineInput[] {
+  return [
+    { accountCode: debitCode, debit: amount },
+    { accountCode: creditCode, credit: amount },
+  ];
+}
+
+// ============================================================================
+// POSTING RULES
+// Each returns the entries a record should currently have, keyed by source
+// type. Null means the record should have no entry of that type.
+// ============================================================================
+
+type Drafts = Record<string, EntryDraft | null>;
+
+export function draftsForExpense(row: Pick<Expense, "farmId" | "expenseType" | "amount" | "expenseDate" | "paymentStatus" | "paymentDate" | "description" | "updatedAt">): Drafts {
+  const amount = fromCents(toCents(row.amount));
+  if (amount <= 0) return { expense: null, expense_payment: null };
+  const date = toDate(row.expenseDate, row.updatedAt);
+  return {
+    expense: {
+      farmId: row.farmId,
+      entryDate: date,
+      description: row.description,
+      lines: pair(amount, expenseAccountFor(row.expenseType), ACCOUNTS.payable),
+    },
+    expense_payment:
+      row.paymentStatus === "paid"
+        ? {
+            farmId: row.farmId,
+            entryDate: toDate(row.paymentDate, date),
+            description: `Payment: ${row.description}`,
+            lines: pair(amount, ACCOUNTS.payable, ACCOUNTS.cash),
+          }
+        : null,
+  };
+}
+
+export function draftsForRevenue(row: Pick<Revenue, "farmId" | "revenueType" | "amount" | "revenueDate" | "paymentStatus" | "paymentDate" | "description" | "updatedAt">): Drafts {
+  const amount = fromCents(toCents(row.amount));
+  if (amount <= 0) return { revenue: null, revenue_receipt: null };
+  const date = toDate(row.revenueDate, row.updatedAt);
+  return {
+    revenue: {
+      farmId: row.farmId,
+      entryDate: date,
+      description: row.description,
+      lines: pair(amount, ACCOUNTS.receivable, revenueAccountFor(row.revenueType)),
+    },
+    revenue_receipt:
+      row.paymentStatus === "paid"
+        ? {
+            farmId: row.farmId,
+            entryDate: toDate(row.paymentDate, date),
+            description: `Receipt: ${row.description}`,
+            lines: pair(amount, ACCOUNTS.cash, ACCOUNTS.receivable),
+          }
+        : null,
+  };
+}
+
+// farmExpenses and farmRevenue have no payment status and are treated as cash
+export function draftsForFarmExpense(row: Pick<FarmExpense, "farmId" | "category" | "amount" | "expenseDate" | "description" | "updatedAt">): Drafts {
+  const amount = fromCents(toCents(row.amount));
+  return {
+    farm_expense:
+      amount > 0
+        ? {
+            farmId: row.farmId,
+            entryDate: toDate(row.expenseDate, row.updatedAt),
+            description: row.description || `${row.category} expense`,
+            lines: pair(amount, expenseAccountFor(row.category), ACCOUNTS.cash),
+          }
+        : null,
+  };
+}
+
+export function draftsForFarmRevenue(row: Pick<FarmRevenue, "farmId" | "source" | "amount" | "saleDate" | "buyer" | "updatedAt">): Drafts {
+  const amount = fromCents(toCents(row.amount));
+  return {
+    farm_revenue:
+      amount > 0
+        ? {
+            farmId: row.farmId,
+            entryDate: toDate(row.saleDate, row.updatedAt),
+            description: row.buyer ? `${row.source} to ${row.buyer}` : row.source,
+            lines: pair(amount, ACCOUNTS.cash, revenueAccountFor(row.source)),
+          }
+        : null,
+  };
+}
+
+// Drafts are quotes; an invoice is only recognised once it has been issued
+const ISSUED_INVOICE_STATUSES: Invoice["paymentStatus"][] = ["sent", "pending", "partial", "paid", "overdue"];
+
+export function draftsForInvoice(row: Pick<Invoice, "farmId" | "invoiceNumber" | "invoiceType" | "vendorOrBuyer" | "invoiceDate" | "totalAmount" | "paidAmount" | "paymentStatus" | "paidAt" | "updatedAt">): Drafts {
+  const total = fromCents(toCents(row.totalAmount));
+  if (total <= 0 || !ISSUED_INVOICE_STATUSES.includes(row.paymentStatus)) return { invoice: null, invoice_payment: null };
+
+  const isSale = row.invoiceType === "revenue";
+  const paid =
+    row.paymentStatus === "paid" ? total : row.paymentStatus === "partial" ? Math.min(fromCents(toCents(row.paidAmount)), total) : 0;
+  const date = toDate(row.invoiceDate, row.updatedAt);
+  return {
+    invoice: {
+      farmId: row.farmId,
+      entryDate: date,
+      description: `Invoice ${row.invoiceNumber} ${isSale ? "to" : "from"} ${row.vendorOrBuyer}`,
+      lines: isSale ? pair(total, ACCOUNTS.receivable, ACCOUNTS.invoicedSales) : pair(total, ACCOUNTS.otherExpenses, ACCOUNTS.payable),
+    },
+    invoice_payment:
+      paid > 0
+        ? {
+            farmId: row.farmId,
+            entryDate: toDate(row.paidAt, date),
+            description: `Payment on invoice ${row.invoiceNumber}`,
+            lines: isSale ? pair(paid, ACCOUNTS.cash, ACCOUNTS.receivable) : pair(paid, ACCOUNTS.payable, ACCOUNTS.cash),
+          }
+        : null,
+  };
+}
+
+/**
+ * Approved payroll accrues gross wages against what is owed to the worker
+ * and to the deduction recipients; paying it clears the wages payable.
+ */
+export function draftsForPayroll(row: Pick<PayrollRecord, "farmId" | "workerId" | "payrollPeriodEnd" | "totalPay" | "deductions" | "status" | "paidAt" | "updatedAt">): Drafts {
+  const net = toCents(row.totalPay);
+  const deductions = toCents(row.deductions);
+  if (net + deductions <= 0 || (row.status !== "approved" && row.status !== "paid")) return { payroll: null, payroll_payment: null };
+
+  const period = toDate(row.payrollPeriodEnd, row.updatedAt);
+  const lines: LineInput[] = [{ accountCode: ACCOUNTS.wages, debit: fromCents(net + deductions) }];
+  if (net > 0) lines.push({ accountCode: ACCOUNTS.wagesPayable, credit: fromCents(net) });
+  if (deductions > 0) lines.push({ accountCode: ACCOUNTS.deductionsPayable, credit: fromCents(deductions) });
+
+  return {
+    payroll: {
+      farmId: row.farmId,
+      entryDate: period,
+      description: `Payroll for worker ${row.workerId}`,
+      lines,
+    },
+    payroll_payment:
+      row.status === "paid" && net > 0
+        ? {
+            farmId: row.farmId,
+            entryDate: toDate(row.paidAt, period),
+            description: `Wages paid to worker ${row.workerId}`,
+            lines: pair(fromCents(net), ACCOUNTS.wagesPayable, ACCOUNTS.cash),
+          }
+        : null,
+  };
+}
+
+export function draftsForAsset(row: Pick<FarmAsset, "farmId" | "name" | "purchaseDate" | "purchaseValue" | "updatedAt">): Drafts {
+  const amount = fromCents(toCents(row.purchaseValue));
+  return {
+    asset_purchase:
+      amount > 0
+        ? {
+            farmId: row.farmId,
+            entryDate: toDate(row.purchaseDate, row.updatedAt),
+            description: `Purchase of ${row.name}`,
+            lines: pair(amount, ACCOUNTS.fixedAssets, ACCOUNTS.cash),
+          }
+        : null,
+  };
+}
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  return db;
+}
+
+interface LedgerSource {
+  types: string[];
+  load(db: Db, id: number): Promise<Drafts | null>;
+  unposted(db: Db, limit: number, farmId?: number): Promise<number[]>;
+}
+
+type SourceTable = typeof expenses | typeof revenue | typeof farmExpenses | typeof farmRevenue | typeof invoices | typeof payrollRecords | typeof farmAssets;
+
+// Records that should have a primary entry but do not
+function unpostedIds(table: SourceTable, sourceType: string, eligible: SQL) {
+  return async (db: Db, limit: number, farmId?: number) => {
+    const rows = await db
+      .select({ id: table.id })
+      .from(table)
+      .leftJoin(journalEntries, eq(journalEntries.sourceKey, sql`concat(${sourceType}, ':', ${table.id})`))
+      .where(and(isNull(journalEntries.id), eligible, farmId ? eq(table.farmId, farmId) : undefined))
+      .limit(limit);
+    return rows.map(row => row.id);
+  };
+}
+
+const SOURCES = {
+  expense: {
+    types: ["expense", "expense_payment"],
+    load: async (db, id) => {
+      const [row] = await db.select().from(expenses).where(eq(expenses.id, id)).limit(1);
+      return row ? draftsForExpense(row) : null;
+    },
+    unposted: unpostedIds(expenses, "expense", gt(expenses.amount, "0")),
+  },
+  revenue: {
+    types: ["revenue", "revenue_receipt"],
+    load: async (db, id) => {
+      const [row] = await db.select().from(revenue).where(eq(revenue.id, id)).limit(1);
+      return row ? draftsForRevenue(row) : null;
+    },
+    unposted: unpostedIds(revenue, "revenue", gt(revenue.amount, "0")),
+  },
+  farm_expense: {
+    types: ["farm_expense"],
+    load: async (db, id) => {
+      const [row] = await db.select().from(farmExpenses).where(eq(farmExpenses.id, id)).limit(1);
+      return row ? draftsForFarmExpense(row) : null;
+    },
+    unposted: unpostedIds(farmExpenses, "farm_expense", gt(farmExpenses.amount, "0")),
+  },
+  farm_revenue: {
+    types: ["farm_revenue"],
+    load: async (db, id) => {
+      const [row] = await db.select().from(farmRevenue).where(eq(farmRevenue.id, id)).limit(1);
+      return row ? draftsForFarmRevenue(row) : null;
+    },
+    unposted: unpostedIds(farmRevenue, "farm_revenue", gt(farmRevenue.amount, "0")),
+  },
+  invoice: {
+    types: ["invoice", "invoice_payment"],
+    load: async (db, id) => {
+      const [row] = await db.select().from(invoices).where(eq(invoices.id, id)).limit(1);
+      return row ? draftsForInvoice(row) : null;
+    },
+    unposted: unpostedIds(
+      invoices,
+      "invoice",
+      and(gt(invoices.totalAmount, "0"), inArray(invoices.paymentStatus, ISSUED_INVOICE_STATUSES))!
+    ),
+  },
+  payroll: {
+    types: ["payroll", "payroll_payment"],
+    load: async (db, id) => {
+      const [row] = await db.select().from(payrollRecords).where(eq(payrollRecords.id, id)).limit(1);
+      return row ? draftsForPayroll(row) : null;
+    },
+    unposted: unpostedIds(payrollRecords, "payroll", inArray(payrollRecords.status, ["approved", "paid"])),
+  },
+  asset: {
+    types: ["asset_purchase"],
+    load: async (db, id) => {
+      const [row] = await db.select().from(farmAssets).where(eq(farmAssets.id, id)).limit(1);
+      return row ? draftsForAsset(row) : null;
+    },
+    unposted: unpostedIds(farmAssets, "asset_purchase", gt(farmAssets.purchaseValue, "0")),
+  },
+} satisfies Record<string, LedgerSource>;
+
+export type LedgerSourceKind = keyof typeof SOURCES;
+
+/** Create any missing default accounts and return the farm's code → id map. */
+export async function ensureChartOfAccounts(farmId: number) {
+  const db = await requireDb();
+  let accounts = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.farmId, farmId));
+  const existing = new Set(accounts.map(account => account.code));
+  const missing = DEFAULT_CHART.filter(account => !existing.has(account.code));
+  if (missing.length > 0) {
+    await db
+      .insert(ledgerAccounts)
+      .ignore()
+      .values(missing.map(account => ({ ...account, farmId, isSystem: true })));
+    accounts = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.farmId, farmId));
+  }
+  return new Map(accounts.map(account => [account.code, account]));
+}
+
+async function loadLines(db: Db, entryId: number) {
+  return db
+    .select({ accountId: journalLines.accountId, debit: journalLines.debit, credit: journalLines.credit, memo: journalLines.memo })
+    .from(journalLines)
+    .where(eq(journalLines.entryId, entryId));
+}
+
+// entryDate is a DATE column, so entries on the same day are dated the same
+function sameDay(a: Date | string, b: Date | string) {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+// Order-independent fingerprint of an entry's lines
+function lineSignature(lines: Array<{ accountId: number; debit: number | string; credit: number | string }>) {
+  return lines
+    .map(line => `${line.accountId}:${toCents(line.debit)}:${toCents(line.credit)}`)
+    .sort()
+    .join("|");
+}
+
+/**
+ * Insert a balanced entry. Entries with a sourceKey are idempotent: if a
+ * live entry already has the key, nothing is inserted and null is returned.
+ */
+export async function postJournalEntry(
+  draft: EntryDraft & { sourceType: string; sourceId?: number | null; sourceKey?: string | null; reversesEntryId?: number; createdBy?: number }
+) {
+  validateLines(draft.lines);
+  const db = await requireDb();
+  const accounts = await ensureChartOfAccounts(draft.farmId);
+  const resolved = draft.lines.map(line => {
+    const account = accounts.get(line.accountCode);
+    if (!account) throw new LedgerError(`Unknown account ${line.accountCode} for farm ${draft.farmId}`);
+    return { ...line, accountId: account.id };
+  });
+
+  return db.transaction(async tx => {
+    const [header] = await tx
+      .insert(journalEntries)
+      .ignore()
+      .values({
+        farmId: draft.farmId,
+        entryDate: draft.entryDate,
+        description: draft.description.slice(0, 500),
+        sourceType: draft.sourceType,
+        sourceId: draft.sourceId ?? null,
+        sourceKey: draft.sourceKey ?? null,
+        reversesEntryId: draft.reversesEntryId,
+        createdBy: draft.createdBy,
+      });
+    if (header.affectedRows === 0) return null;
+
+    await tx.insert(journalLines).values(
+      resolved.map(line => ({
+        entryId: header.insertId,
+        accountId: line.accountId,
+        debit: (line.debit ?? 0).toFixed(2),
+        credit: (line.credit ?? 0).toFixed(2),
+        memo: line.memo,
+      }))
+    );
+    return header.insertId;
+  });
+}
+
+/**
+ * Post the mirror image of an entry, dated the same day so the original
+ * period nets to zero, and free its source key.
+ */
+export async function reverseJournalEntry(entryId: number, reason: string, createdBy?: number) {
+  const db = await requireDb();
+  const [entry] = await db.select().from(journalEntries).where(eq(journalEntries.id, entryId)).limit(1);
+  if (!entry) throw new LedgerError("Journal entry not found");
+  if (entry.reversedAt) throw new LedgerError("Journal entry has already been reversed");
+  if (entry.sourceType === "reversal") throw new LedgerError("A reversal cannot itself be reversed");
+
+  const lines = await loadLines(db, entry.id);
+  return db.transaction(async tx => {
+    const [claimed] = await tx
+      .update(journalEntries)
+      .set({ reversedAt: new Date(), sourceKey: null })
+      .where(and(eq(journalEntries.id, entry.id), isNull(journalEntries.reversedAt)));
+    if (claimed.affectedRows === 0) throw new LedgerError("Journal entry has already been reversed");
+
+    const [header] = await tx.insert(journalEntries).values({
+      farmId: entry.farmId,
+      entryDate: entry.entryDate,
+      description: `Reversal of #${entry.id}: ${reason}`.slice(0, 500),
+      sourceType: "reversal",
+      sourceId: entry.id,
+      sourceKey: `reversal:${entry.id}`,
+      reversesEntryId: entry.id,
+      createdBy,
+    });
+    await tx.insert(journalLines).values(
+      lines.map(line => ({
+        entryId: header.insertId,
+        accountId: line.accountId,
+        debit: line.credit,
+        credit: line.debit,
+        memo: line.memo,
+      }))
+    );
+    return header.insertId;
+  });
+}
+
+/**
+ * Bring the ledger in line with a record's current state. Safe to call
+ * after any create, update, status change or delete.
+ */
+export async function syncLedger(kind: LedgerSourceKind, id: number, createdBy?: number) {
+  const db = await requireDb();
+  const source: LedgerSource = SOURCES[kind];
+  const drafts = await source.load(db, id);
+  let changed = 0;
+
+  for (const sourceType of source.types) {
+    const sourceKey = `${sourceType}:${id}`;
+    const draft = drafts?.[sourceType] ?? null;
+    const [live] = await db.select().from(journalEntries).where(eq(journalEntries.sourceKey, sourceKey)).limit(1);
+
+    if (live && draft) {
+      const accounts = await ensureChartOfAccounts(draft.farmId);
+      const wanted = lineSignature(
+        draft.lines.map(line => ({ accountId: accounts.get(line.accountCode)?.id ?? 0, debit: line.debit ?? 0, credit: line.credit ?? 0 }))
+      );
+      const unchanged = live.farmId === draft.farmId && sameDay(live.entryDate, draft.entryDate);
+      if (unchanged && wanted === lineSignature(await loadLines(db, live.id))) continue;
+    }
+    if (live) {
+      await reverseJournalEntry(live.id, draft ? "source record changed" : "source record removed", createdBy);
+      changed++;
+    }
+    if (draft) {
+      await postJournalEntry({ ...draft, sourceType, sourceId: id, sourceKey, createdBy });
+      changed++;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Fire-and-log wrapper for routers: a failed posting must not undo the
+ * business record, and the nightly sync picks up anything missed.
+ */
+export async function recordInLedger(kind: LedgerSourceKind, ids: number | number[], createdBy?: number) {
+  for (const id of Array.isArray(ids) ? ids : [ids]) {
+    try {
+      await syncLedger(kind, id, createdBy);
+    } catch (error) {
+      console.error(`[Ledger] Failed to post ${kind} ${id}:`, error);
+    }
+  }
+}
+
+/** Post records that have never reached the ledger, e.g. older data. */
+export async function postUnpostedRecords(options: { farmId?: number; batchSize?: number } = {}) {
+  const db = await requireDb();
+  let posted = 0;
+  for (const kind of Object.keys(SOURCES) as LedgerSourceKind[]) {
+    const ids = await SOURCES[kind].unposted(db, options.batchSize ?? 500, options.farmId);
+    for (const id of ids) {
+      try {
+        posted += await syncLedger(kind, id);
+      } catch (error) {
+        console.error(`[Ledger] Failed to post ${kind} ${id}:`, error);
+      }
+    }
+  }
+  return posted;
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+export interface AccountTotals {
+  accountId: number;
+  code: string;
+  name: string;
+  type: AccountType;
+  debit: number;
+  credit: number;
+}
+
+// Assets and expenses carry debit balances; everything else carries credits
+const DEBIT_NORMAL: AccountType[] = ["asset", "expense"];
+
+export function accountBalance(row: Pick<AccountTotals, "type" | "debit" | "credit">) {
+  const net = toCents(row.debit) - toCents(row.credit);
+  return fromCents(DEBIT_NORMAL.includes(row.type) ? net : -net);
+}
+
+export function summarizeTrialBalance(rows: AccountTotals[]) {
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const accounts = rows
+    .map(row => {
+      const net = toCents(row.debit) - toCents(row.credit);
+      totalDebit += Math.max(net, 0);
+      totalCredit += Math.max(-net, 0);
+      return { ...row, debitBalance: fromCents(Math.max(net, 0)), creditBalance: fromCents(Math.max(-net, 0)) };
+    })
+    .filter(row => row.debitBalance !== 0 || row.creditBalance !== 0)
+    .sort((a, b) => a.code.localeCompare(b.code));
+  return { accounts, totalDebit: fromCents(totalDebit), totalCredit: fromCents(totalCredit), balanced: totalDebit === totalCredit };
+}
+
+function section(rows: AccountTotals[], type: AccountType) {
+  const lines = rows
+    .filter(row => row.type === type)
+    .map(row => ({ accountId: row.accountId, code: row.code, name: row.name, amount: accountBalance(row) }))
+    .filter(line => line.amount !== 0)
+    .sort((a, b) => a.code.localeCompare(b.code));
+  return { lines, total: fromCents(lines.reduce((sum, line) => sum + toCents(line.amount), 0)) };
+}
+
+export function buildProfitAndLoss(rows: AccountTotals[]) {
+  const income = section(rows, "revenue");
+  const costs = section(rows, "expense");
+  const netIncome = fromCents(toCents(income.total) - toCents(costs.total));
+  return {
+    revenue: income.lines,
+    expenses: costs.lines,
+    totalRevenue: income.total,
+    totalExpenses: costs.total,
+    netIncome,
+    profitMargin: income.total > 0 ? (netIncome / income.total) * 100 : 0,
+  };
+}
+
+/**
+ * Balance sheet from all postings up to a date. Revenue and expense
+ * accounts are never closed, so their net appears as current earnings.
+ */
+export function buildBalanceSheet(rows: AccountTotals[]) {
+  const assets = section(rows, "asset");
+  const liabilities = section(rows, "liability");
+  const equity = section(rows, "equity");
+  const earnings = buildProfitAndLoss(rows).netIncome;
+  const equityLines = earnings !== 0 ? [...equity.lines, { accountId: 0, code: "", name: "Current earnings", amount: earnings }] : equity.lines;
+  const totalEquity = fromCents(toCents(equity.total) + toCents(earnings));
+  return {
+    assets: assets.lines,
+    liabilities: liabilities.lines,
+    equity: equityLines,
+    totalAssets: assets.total,
+    totalLiabilities: liabilities.total,
+    totalEquity,
+    balanced: toCents(assets.total) === toCents(liabilities.total) + toCents(totalEquity),
+  };
+}
+
+/** Debit and credit totals per account for one farm and date range. */
+export async function getAccountTotals(farmId: number, range: { from?: Date; to?: Date } = {}): Promise<AccountTotals[]> {
+  const db = await requireDb();
+  await ensureChartOfAccounts(farmId);
+
+  const totals = await db
+    .select({
+      accountId: journalLines.accountId,
+      debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+      credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+    })
+    .from(journalLines)
+    .innerJoin(journalEntries, eq(journalLines.entryId, journalEntries.id))
+    .where(
+      and(
+        eq(journalEntries.farmId, farmId),
+        range.from ? gte(journalEntries.entryDate, range.from) : undefined,
+        range.to ? lte(journalEntries.entryDate, range.to) : undefined
+      )
+    )
+    .groupBy(journalLines.accountId);
+
+  const byAccount = new Map(totals.map(row => [row.accountId, row]));
+  const accounts = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.farmId, farmId));
+  return accounts.map(account => ({
+    accountId: account.id,
+    code: account.code,
+    name: account.name,
+    type: account.type,
+    debit: parseFloat(byAccount.get(account.id)?.debit ?? "0"),
+    credit: parseFloat(byAccount.get(account.id)?.credit ?? "0"),
+  }));
+}
+
+export async function getEntriesWithLines(farmId: number, range: { from?: Date; to?: Date; limit: number; offset: number }) {
+  const db = await requireDb();
+  const entries = await db
+    .select()
+    .from(journalEntries)
+    .where(
+      and(
+        eq(journalEntries.farmId, farmId),
+        range.from ? gte(journalEntries.entryDate, range.from) : undefined,
+        range.to ? lte(journalEntries.entryDate, range.to) : undefined
+      )
+    )
+    .orderBy(sql`${journalEntries.entryDate} DESC`, sql`${journalEntries.id} DESC`)
+    .limit(range.limit)
+    .offset(range.offset);
+  if (entries.length === 0) return [];
+
+  const lines = await db
+    .select({ line: journalLines, code: ledgerAccounts.code, name: ledgerAccounts.name })
+    .from(journalLines)
+    .innerJoin(ledgerAccounts, eq(journalLines.accountId, ledgerAccounts.id))
+    .where(inArray(journalLines.entryId, entries.map(entry => entry.id)));
+  return entries.map(entry => ({
+    ...entry,
+    lines: lines
+      .filter(row => row.line.entryId === entry.id)
+      .map(row => ({ ...row.line, accountCode: row.code, accountName: row.name })),
+  }));
+}
+
+export function initializeLedgerScheduler() {
+  registerJobHandler("ledger.postUnposted", async () => {
+    const posted = await postUnpostedRecords();
+    if (posted) console.log(`[Ledger] Posted ${posted} journal entries for unposted records`);
+    return { posted };
+  });
+  defineCronJob("ledger-nightly-posting", "15 2 * * *", "ledger.postUnposted").catch(error =>
+    console.error("[Ledger] Could not schedule nightly posting:", error)
+  );
+
+  console.log("[Ledger] Unposted records are swept nightly at 02:15");
+}
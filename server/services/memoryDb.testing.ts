@@ -0,0 +1,63 @@
+import { Column, Param, SQL, StringChunk, is } from "drizzle-orm";
+
+/**
+ * In-memory stand-in for the drizzle MySQL client, for service tests that
+ * need real reads after writes. Filters understand eq, isNull and and();
+ * other operators are not supported.
+ */
+
+export type MemoryTables = Map<unknown, Array<Record<string, any>>>;
+
+function matches(row: Record<string, any>, condition: SQL | undefined): boolean {
+  if (!condition) return true;
+  const nested = condition.queryChunks.filter(chunk => is(chunk, SQL)) as SQL[];
+  if (nested.length) return nested.every(child => matches(row, child));
+  const column = condition.queryChunks.find(chunk => is(chunk, Column)) as Column;
+  const param = condition.queryChunks.find(chunk => is(chunk, Param)) as Param | undefined;
+  const text = condition.queryChunks.map(chunk => (is(chunk, StringChunk) ? chunk.value.join("") : "")).join("");
+  return text.includes("is null") ? row[column.name] == null : row[column.name] === param?.value;
+}
+
+export function memoryDb(tables: MemoryTables) {
+  const rows = (table: unknown) => tables.get(table) ?? tables.set(table, []).get(table)!;
+  const select = () => ({
+    from: (table: unknown) => {
+      let result = rows(table);
+      const chain: any = {
+        where: (condition?: SQL) => ((result = result.filter(row => matches(row, condition))), chain),
+        // Copies, as a real driver returns, so later writes do not change rows already read
+        limit: async (count: number) => result.slice(0, count).map(row => ({ ...row })),
+        then: (resolve: (value: unknown) => unknown) => resolve(result.map(row => ({ ...row }))),
+      };
+      return chain;
+    },
+  });
+  const insert = (table: unknown) => {
+    let ignore = false;
+    const chain: any = {
+      ignore: () => ((ignore = true), chain),
+      values: async (values: Record<string, any> | Array<Record<string, any>>) => {
+        const list = rows(table);
+        let insertId = 0;
+        for (const value of Array.isArray(values) ? values : [values]) {
+          if (ignore && value.sourceKey && list.some(row => row.sourceKey === value.sourceKey)) return [{ affectedRows: 0 }];
+          insertId = Math.max(0, ...list.map(row => row.id)) + 1;
+          list.push({ id: insertId, ...value });
+        }
+        return [{ affectedRows: 1, insertId }];
+      },
+    };
+    return chain;
+  };
+  const update = (table: unknown) => ({
+    set: (values: Record<string, any>) => ({
+      where: async (condition?: SQL) => {
+        const hit = rows(table).filter(row => matches(row, condition));
+        hit.forEach(row => Object.assign(row, values));
+        return [{ affectedRows: hit.length }];
+      },
+    }),
+  });
+  const db = { select, insert, update, transaction: async (work: (tx: unknown) => unknown) => work(db) };
+  return db;
+}
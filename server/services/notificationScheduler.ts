@@ -6,6 +6,8 @@ import {
   checkStockAlerts,
   checkOrderStatusUpdates,
 } from './websocketNotificationTriggers';
+import { processFailedNotifications } from './notificationRetryService';
+import { defineCronJob, registerJobHandler } from './jobQueueService';
 
 interface CronJob {
   name: string;
@@ -81,6 +83,12 @@ export function initializeNotificationScheduler(): void {
     }
   }
 
+  // Failed deliveries are retried from the durable job queue so only one instance resends them
+  registerJobHandler('notifications.retryFailed', () => processFailedNotifications());
+  defineCronJob('notification-retries', '*/5 * * * *', 'notifications.retryFailed').catch((error) => {
+    console.error('[NotificationScheduler] Could not schedule notification retries:', error);
+  });
+
   console.log(`[NotificationScheduler] Notification scheduler initialized with ${jobs.size} jobs`);
 }
 
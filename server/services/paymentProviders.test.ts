@@ -0,0 +1,138 @@
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  FakePaymentProvider,
+  FlutterwaveProvider,
+  PaystackProvider,
+  WebhookSignatureError,
+  toMinorUnits,
+} from "./paymentProviders";
+import { generatePaymentReference, resolvePaymentOutcome } from "./paymentService";
+
+const paystackBody = JSON.stringify({
+  event: "charge.success",
+  data: { id: 302961, reference: "FK-1-ABC", amount: 125050, currency: "GHS", status: "success" },
+});
+
+describe("PaystackProvider.parseWebhook", () => {
+  const provider = new PaystackProvider("sk_test_secret");
+  const sign = (body: string) => createHmac("sha512", "sk_test_secret").update(body).digest("hex");
+
+  it("accepts correctly signed events and converts minor units", () => {
+    const event = provider.parseWebhook(Buffer.from(paystackBody), { "x-paystack-signature": sign(paystackBody) });
+    expect(event).toMatchObject({
+      type: "payment",
+      reference: "FK-1-ABC",
+      status: "success",
+      amount: 1250.5,
+      currency: "GHS",
+      providerTransactionId: "302961",
+    });
+  });
+
+  it("rejects missing or forged signatures", () => {
+    expect(() => provider.parseWebhook(paystackBody, {})).toThrow(WebhookSignatureError);
+    const tampered = paystackBody.replace("125050", "999999");
+    expect(() => provider.parseWebhook(tampered, { "x-paystack-signature": sign(paystackBody) })).toThrow(
+      WebhookSignatureError
+    );
+  });
+
+  it("ignores events it does not handle", () => {
+    const body = JSON.stringify({ event: "subscription.create", data: {} });
+    expect(provider.parseWebhook(body, { "x-paystack-signature": sign(body) }).type).toBe("ignored");
+  });
+});
+
+describe("FlutterwaveProvider.parseWebhook", () => {
+  const provider = new FlutterwaveProvider("FLWSECK_TEST", "dashboard-hash");
+  const body = JSON.stringify({
+    event: "charge.completed",
+    data: { id: 4975363, tx_ref: "FK-2-XYZ", amount: 500, currency: "NGN", status: "successful" },
+  });
+
+  it("verifies HMAC-signed events", () => {
+    const signature = createHmac("sha256", "dashboard-hash").update(body).digest("base64");
+    expect(provider.parseWebhook(body, { "flutterwave-signature": signature })).toMatchObject({
+      type: "payment",
+      reference: "FK-2-XYZ",
+      status: "success",
+      amount: 500,
+      providerTransactionId: "4975363",
+    });
+  });
+
+  it("accepts the legacy verif-hash header", () => {
+    expect(provider.parseWebhook(body, { "verif-hash": "dashboard-hash" }).reference).toBe("FK-2-XYZ");
+    expect(() => provider.parseWebhook(body, { "verif-hash": "wrong" })).toThrow(WebhookSignatureError);
+  });
+
+  it("refuses webhooks when no secret is configured", () => {
+    expect(() => new FlutterwaveProvider("FLWSECK_TEST").parseWebhook(body, { "verif-hash": "" })).toThrow(
+      WebhookSignatureError
+    );
+  });
+});
+
+describe("checkout with the fake provider", () => {
+  const pending = { status: "pending" as const, amount: "150.00", currency: "GHS" };
+
+  it("runs initialize, pay, webhook and verify", async () => {
+    const provider = new FakePaymentProvider();
+    const reference = generatePaymentReference(7);
+    const init = await provider.initialize({
+      reference,
+      amount: 150,
+      currency: "GHS",
+      email: "buyer@example.com",
+      channel: "mobile_money",
+    });
+    expect(init.authorizationUrl).toContain(encodeURIComponent(reference));
+    expect((await provider.verify(reference)).status).toBe("pending");
+
+    const webhook = provider.completePayment(reference);
+    const event = provider.parseWebhook(webhook.body, webhook.headers);
+    expect(event).toMatchObject({ type: "payment", reference, status: "success", amount: 150 });
+    expect(resolvePaymentOutcome(pending, { ...event, reference, status: "success" })).toBe("completed");
+
+    // A redelivered webhook after the row was completed changes nothing
+    expect(
+      resolvePaymentOutcome({ ...pending, status: "completed" }, { ...event, reference, status: "success" })
+    ).toBe("duplicate");
+
+    expect((await provider.verify(reference)).status).toBe("success");
+    await provider.refund(reference);
+    expect((await provider.verify(reference)).status).toBe("refunded");
+  });
+
+  it("rejects underpayments and currency mismatches", () => {
+    const result = { reference: "R", status: "success" as const, amount: 149.5, currency: "GHS" };
+    expect(resolvePaymentOutcome(pending, result)).toBe("rejected");
+    expect(resolvePaymentOutcome(pending, { ...result, amount: 150, currency: "NGN" })).toBe("rejected");
+    expect(resolvePaymentOutcome(pending, { ...result, amount: null })).toBe("rejected");
+  });
+
+  it("only refunds completed payments", () => {
+    const refund = { reference: "R", status: "refunded" as const, amount: 150, currency: "GHS" };
+    expect(resolvePaymentOutcome({ ...pending, status: "completed" }, refund)).toBe("refunded");
+    expect(resolvePaymentOutcome(pending, refund)).toBe("duplicate");
+  });
+
+  it("signs webhooks with its own secret", () => {
+    const provider = new FakePaymentProvider("one");
+    const other = new FakePaymentProvider("two");
+    return provider
+      .initialize({ reference: "R1", amount: 1, currency: "GHS", email: "a@b.co", channel: "card" })
+      .then(() => {
+        const webhook = provider.failPayment("R1");
+        expect(() => other.parseWebhook(webhook.body, webhook.headers)).toThrow(WebhookSignatureError);
+      });
+  });
+});
+
+describe("toMinorUnits", () => {
+  it("avoids floating point drift", () => {
+    expect(toMinorUnits(19.99)).toBe(1999);
+    expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+  });
+});
@@ -0,0 +1,460 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Payment provider adapters
+ * Paystack and Flutterwave behind one interface (initialize, verify,
+ * refund, webhook parsing) so checkout code does not care which gateway a
+ * payment went through. The fake provider keeps everything in memory and
+ * signs its own webhooks, so the whole checkout flow can run in tests.
+ *
+ * Environment:
+ *   PAYSTACK_SECRET_KEY            API calls and webhook HMAC (SHA-512)
+ *   FLUTTERWAVE_SECRET_KEY         API calls
+ *   FLUTTERWAVE_WEBHOOK_SECRET     "secret hash" set in the Flutterwave dashboard
+ */
+
+export type PaymentProviderName = "paystack" | "flutterwave" | "fake";
+
+export type PaymentChannel = "mobile_money" | "card" | "bank_transfer";
+
+export interface InitializePaymentParams {
+  reference: string;
+  amount: number; // major units, e.g. 12.50 GHS
+  currency: string;
+  email: string;
+  phone?: string;
+  name?: string;
+  channel: PaymentChannel;
+  callbackUrl?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitializedPayment {
+  authorizationUrl: string;
+  reference: string;
+  providerTransactionId?: string;
+}
+
+export type ProviderPaymentStatus = "success" | "failed" | "pending" | "refunded";
+
+export interface VerifiedPayment {
+  reference: string;
+  status: ProviderPaymentStatus;
+  amount: number; // major units
+  currency: string;
+  paidAt: Date | null;
+  providerTransactionId?: string;
+}
+
+export interface RefundResult {
+  reference: string;
+  amount: number | null; // null when the provider refunds the full amount
+  status: "pending" | "processed";
+}
+
+export interface PaymentWebhookEvent {
+  type: "payment" | "refund" | "ignored";
+  reference: string | null;
+  status: ProviderPaymentStatus | null;
+  amount: number | null;
+  currency: string | null;
+  providerTransactionId?: string;
+  rawType: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  initialize(params: InitializePaymentParams): Promise<InitializedPayment>;
+  verify(reference: string): Promise<VerifiedPayment>;
+  refund(reference: string, amount?: number, providerTransactionId?: string): Promise<RefundResult>;
+  /** Verify the signature and normalise the payload. Throws WebhookSignatureError on a bad signature. */
+  parseWebhook(rawBody: Buffer | string, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string, public readonly provider: PaymentProviderName) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = "Invalid webhook signature") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+function header(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function parseJson(rawBody: Buffer | string): any {
+  try {
+    return JSON.parse(rawBody.toString());
+  } catch {
+    throw new WebhookSignatureError("Webhook body is not valid JSON");
+  }
+}
+
+// Gateways take amounts in minor units (kobo, pesewas, cents)
+export const toMinorUnits = (amount: number) => Math.round(amount * 100);
+export const fromMinorUnits = (amount: number) => amount / 100;
+
+async function requestJson(
+  provider: PaymentProviderName,
+  url: string,
+  secretKey: string,
+  init: { method: "GET" | "POST"; body?: unknown }
+): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method,
+      headers: { Authorization: `Bearer ${secretKey}`, "Content-Type": "application/json" },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: AbortSignal.timeout(15000),
+    });
+  } catch (error) {
+    throw new PaymentProviderError(`${provider} unreachable: ${(error as Error).message}`, provider);
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || !payload || payload.status === false || payload.status === "error") {
+    throw new PaymentProviderError(payload?.message || `${provider} request failed (HTTP ${response.status})`, provider);
+  }
+  return payload;
+}
+
+const PAYSTACK_CHANNELS: Record<PaymentChannel, string> = {
+  mobile_money: "mobile_money",
+  card: "card",
+  bank_transfer: "bank_transfer",
+};
+
+export class PaystackProvider implements PaymentProvider {
+  readonly name = "paystack" as const;
+  private readonly baseUrl = "https://api.paystack.co";
+
+  constructor(private readonly secretKey: string) {}
+
+  async initialize(params: InitializePaymentParams): Promise<InitializedPayment> {
+    const payload = await requestJson(this.name, `${this.baseUrl}/transaction/initialize`, this.secretKey, {
+      method: "POST",
+      body: {
+        email: params.email,
+        amount: toMinorUnits(params.amount),
+        currency: params.currency,
+        reference: params.reference,
+        callback_url: params.callbackUrl,
+        channels: [PAYSTACK_CHANNELS[params.channel]],
+        metadata: params.metadata,
+      },
+    });
+    return { authorizationUrl: payload.data.authorization_url, reference: payload.data.reference };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const payload = await requestJson(
+      this.name,
+      `${this.baseUrl}/transaction/verify/${encodeURIComponent(reference)}`,
+      this.secretKey,
+      { method: "GET" }
+    );
+    const data = payload.data;
+    return {
+      reference: data.reference,
+      status: PaystackProvider.mapStatus(data.status),
+      amount: fromMinorUnits(data.amount),
+      currency: data.currency,
+      paidAt: data.paid_at ? new Date(data.paid_at) : null,
+      providerTransactionId: data.id?.toString(),
+    };
+  }
+
+  async refund(reference: string, amount?: number): Promise<RefundResult> {
+    const payload = await requestJson(this.name, `${this.baseUrl}/refund`, this.secretKey, {
+      method: "POST",
+      body: { transaction: reference, ...(amount !== undefined ? { amount: toMinorUnits(amount) } : {}) },
+    });
+    return {
+      reference,
+      amount: amount ?? null,
+      status: payload.data?.status === "processed" ? "processed" : "pending",
+    };
+  }
+
+  parseWebhook(rawBody: Buffer | string, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent {
+    const signature = header(headers, "x-paystack-signature");
+    const expected = createHmac("sha512", this.secretKey).update(rawBody).digest("hex");
+    if (!signature || !safeEqual(signature, expected)) throw new WebhookSignatureError();
+
+    const body = parseJson(rawBody);
+    const data = body.data ?? {};
+    switch (body.event) {
+      case "charge.success":
+        return {
+          type: "payment",
+          reference: data.reference ?? null,
+          status: "success",
+          amount: typeof data.amount === "number" ? fromMinorUnits(data.amount) : null,
+          currency: data.currency ?? null,
+          providerTransactionId: data.id?.toString(),
+          rawType: body.event,
+        };
+      case "refund.processed":
+        return {
+          type: "refund",
+          reference: data.transaction_reference ?? data.transaction?.reference ?? null,
+          status: "refunded",
+          amount: typeof data.amount === "number" ? fromMinorUnits(data.amount) : null,
+          currency: data.currency ?? null,
+          rawType: body.event,
+        };
+      default:
+        return { type: "ignored", reference: null, status: null, amount: null, currency: null, rawType: String(body.event) };
+    }
+  }
+
+  private static mapStatus(status: string): ProviderPaymentStatus {
+    if (status === "success") return "success";
+    if (status === "failed" || status === "abandoned" || status === "reversed") return "failed";
+    return "pending";
+  }
+}
+
+const FLUTTERWAVE_OPTIONS: Record<PaymentChannel, string> = {
+  mobile_money: "mobilemoneyghana,mobilemoneyuganda,mobilemoneyrwanda,mobilemoneyzambia,mobilemoneyfranco,mpesa",
+  card: "card",
+  bank_transfer: "banktransfer",
+};
+
+export class FlutterwaveProvider implements PaymentProvider {
+  readonly name = "flutterwave" as const;
+  private readonly baseUrl = "https://api.flutterwave.com/v3";
+
+  constructor(private readonly secretKey: string, private readonly webhookSecret?: string) {}
+
+  async initialize(params: InitializePaymentParams): Promise<InitializedPayment> {
+    const payload = await requestJson(this.name, `${this.baseUrl}/payments`, this.secretKey, {
+      method: "POST",
+      body: {
+        tx_ref: params.reference,
+        amount: params.amount,
+        currency: params.currency,
+        redirect_url: params.callbackUrl,
+        payment_options: FLUTTERWAVE_OPTIONS[params.channel],
+        customer: { email: params.email, phonenumber: params.phone, name: params.name },
+        meta: params.metadata,
+        customizations: { title: "FarmKonnect Payment" },
+      },
+    });
+    return { authorizationUrl: payload.data.link, reference: params.reference };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const payload = await requestJson(
+      this.name,
+      `${this.baseUrl}/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`,
+      this.secretKey,
+      { method: "GET" }
+    );
+    const data = payload.data;
+    return {
+      reference: data.tx_ref,
+      status: FlutterwaveProvider.mapStatus(data.status),
+      amount: Number(data.amount),
+      currency: data.currency,
+      paidAt: data.created_at ? new Date(data.created_at) : null,
+      providerTransactionId: data.id?.toString(),
+    };
+  }
+
+  async refund(reference: string, amount?: number, providerTransactionId?: string): Promise<RefundResult> {
+    // Refunds are keyed by Flutterwave's transaction id, not tx_ref
+    const transactionId = providerTransactionId ?? (await this.verify(reference)).providerTransactionId;
+    if (!transactionId) throw new PaymentProviderError("Transaction id unknown for refund", this.name);
+
+    const payload = await requestJson(this.name, `${this.baseUrl}/transactions/${transactionId}/refund`, this.secretKey, {
+      method: "POST",
+      body: amount !== undefined ? { amount } : {},
+    });
+    return {
+      reference,
+      amount: amount ?? null,
+      status: payload.data?.status === "completed" ? "processed" : "pending",
+    };
+  }
+
+  parseWebhook(rawBody: Buffer | string, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent {
+    if (!this.webhookSecret) throw new WebhookSignatureError("Flutterwave webhook secret is not configured");
+
+    // Newer accounts sign the body; older ones echo the dashboard secret hash
+    const signature = header(headers, "flutterwave-signature");
+    const legacyHash = header(headers, "verif-hash");
+    const valid = signature
+      ? safeEqual(signature, createHmac("sha256", this.webhookSecret).update(rawBody).digest("base64"))
+      : !!legacyHash && safeEqual(legacyHash, this.webhookSecret);
+    if (!valid) throw new WebhookSignatureError();
+
+    const body = parseJson(rawBody);
+    const data = body.data ?? {};
+    const event = body.event ?? body["event.type"];
+    if (event === "charge.completed") {
+      return {
+        type: "payment",
+        reference: data.tx_ref ?? null,
+        status: FlutterwaveProvider.mapStatus(data.status),
+        amount: data.amount !== undefined ? Number(data.amount) : null,
+        currency: data.currency ?? null,
+        providerTransactionId: data.id?.toString(),
+        rawType: event,
+      };
+    }
+    if (event === "refund.completed") {
+      return {
+        type: "refund",
+        reference: data.tx_ref ?? null,
+        status: "refunded",
+        amount: data.amount_refunded !== undefined ? Number(data.amount_refunded) : null,
+        currency: data.currency ?? null,
+        rawType: event,
+      };
+    }
+    return { type: "ignored", reference: null, status: null, amount: null, currency: null, rawType: String(event) };
+  }
+
+  private static mapStatus(status: string): ProviderPaymentStatus {
+    if (status === "successful") return "success";
+    if (status === "failed" || status === "cancelled") return "failed";
+    return "pending";
+  }
+}
+
+interface FakeTransaction {
+  reference: string;
+  amount: number;
+  currency: string;
+  status: ProviderPaymentStatus;
+  paidAt: Date | null;
+}
+
+/**
+ * In-memory provider for tests and local development. Payments stay
+ * pending until completePayment/failPayment is called, which returns a
+ * signed webhook request for the caller to deliver.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake" as const;
+  readonly transactions = new Map<string, FakeTransaction>();
+
+  constructor(private readonly webhookSecret: string = "fake-webhook-secret") {}
+
+  async initialize(params: InitializePaymentParams): Promise<InitializedPayment> {
+    if (this.transactions.has(params.reference)) {
+      throw new PaymentProviderError("Duplicate reference", this.name);
+    }
+    this.transactions.set(params.reference, {
+      reference: params.reference,
+      amount: params.amount,
+      currency: params.currency,
+      status: "pending",
+      paidAt: null,
+    });
+    return {
+      authorizationUrl: `/fake-checkout/${encodeURIComponent(params.reference)}`,
+      reference: params.reference,
+      providerTransactionId: `fake_${randomBytes(4).toString("hex")}`,
+    };
+  }
+
+  async verify(reference: string): Promise<VerifiedPayment> {
+    const transaction = this.transactions.get(reference);
+    if (!transaction) throw new PaymentProviderError("Transaction not found", this.name);
+    return { ...transaction };
+  }
+
+  async refund(reference: string, amount?: number): Promise<RefundResult> {
+    const transaction = this.transactions.get(reference);
+    if (!transaction || transaction.status !== "success") {
+      throw new PaymentProviderError("Only successful payments can be refunded", this.name);
+    }
+    transaction.status = "refunded";
+    return { reference, amount: amount ?? null, status: "processed" };
+  }
+
+  parseWebhook(rawBody: Buffer | string, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent {
+    const signature = header(headers, "x-fake-signature");
+    const expected = createHmac("sha256", this.webhookSecret).update(rawBody).digest("hex");
+    if (!signature || !safeEqual(signature, expected)) throw new WebhookSignatureError();
+
+    const body = parseJson(rawBody);
+    return {
+      type: body.event === "payment" || body.event === "refund" ? body.event : "ignored",
+      reference: body.reference ?? null,
+      status: body.status ?? null,
+      amount: body.amount ?? null,
+      currency: body.currency ?? null,
+      rawType: String(body.event),
+    };
+  }
+
+  /** Simulate the customer paying; returns the webhook the provider would send. */
+  completePayment(reference: string, overrides: { amount?: number; currency?: string } = {}) {
+    return this.settle(reference, "success", overrides);
+  }
+
+  failPayment(reference: string) {
+    return this.settle(reference, "failed", {});
+  }
+
+  private settle(reference: string, status: ProviderPaymentStatus, overrides: { amount?: number; currency?: string }) {
+    const transaction = this.transactions.get(reference);
+    if (!transaction) throw new PaymentProviderError("Transaction not found", this.name);
+    transaction.status = status;
+    transaction.paidAt = status === "success" ? new Date() : null;
+
+    const body = JSON.stringify({
+      event: "payment",
+      reference,
+      status,
+      amount: overrides.amount ?? transaction.amount,
+      currency: overrides.currency ?? transaction.currency,
+    });
+    const signature = createHmac("sha256", this.webhookSecret).update(body).digest("hex");
+    return { body, headers: { "x-fake-signature": signature } };
+  }
+}
+
+const providers = new Map<PaymentProviderName, PaymentProvider>();
+
+/**
+ * Provider for a name, built from environment keys on first use.
+ * Returns null when the provider is not configured.
+ */
+export function getPaymentProvider(name: PaymentProviderName): PaymentProvider | null {
+  const cached = providers.get(name);
+  if (cached) return cached;
+
+  let provider: PaymentProvider | null = null;
+  if (name === "paystack" && process.env.PAYSTACK_SECRET_KEY) {
+    provider = new PaystackProvider(process.env.PAYSTACK_SECRET_KEY);
+  } else if (name === "flutterwave" && process.env.FLUTTERWAVE_SECRET_KEY) {
+    provider = new FlutterwaveProvider(process.env.FLUTTERWAVE_SECRET_KEY, process.env.FLUTTERWAVE_WEBHOOK_SECRET);
+  }
+  if (provider) providers.set(name, provider);
+  return provider;
+}
+
+/** Register or replace a provider, e.g. a FakePaymentProvider in tests. */
+export function setPaymentProvider(provider: PaymentProvider | null, name?: PaymentProviderName) {
+  if (provider) providers.set(name ?? provider.name, provider);
+  else if (name) providers.delete(name);
+}
@@ -0,0 +1,239 @@
+import { randomBytes } from "crypto";
+import { and, eq } from "drizzle-orm";
+import { marketplaceOrders, marketplaceTransactions } from "../../drizzle/schema";
+import type { MarketplaceOrder, MarketplaceTransaction } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { holdFunds, markEscrowRefunded } from "./escrowService";
+import {
+  getPaymentProvider,
+  PaymentProviderError,
+  type PaymentChannel,
+  type PaymentProvider,
+  type PaymentProviderName,
+  type ProviderPaymentStatus,
+} from "./paymentProviders";
+
+/**
+ * Marketplace checkout on top of the payment provider adapters.
+ * A payment is a marketplaceTransactions row keyed by our reference
+ * (transactionId), which is also the reference given to the provider.
+ * Verification and webhooks both go through applyPaymentResult, whose
+ * status changes are conditional so repeated deliveries are no-ops.
+ */
+
+export type PaymentOutcome = "completed" | "failed" | "refunded" | "pending" | "duplicate" | "rejected" | "unknown";
+
+export interface PaymentResult {
+  reference: string;
+  status: ProviderPaymentStatus;
+  amount: number | null;
+  currency: string | null;
+  providerTransactionId?: string;
+}
+
+// Amounts are stored with two decimals
+const AMOUNT_TOLERANCE = 0.005;
+
+export function generatePaymentReference(orderId: number): string {
+  return `FK-${orderId}-${Date.now().toString(36)}-${randomBytes(3).toString("hex")}`.toUpperCase();
+}
+
+export function requireProvider(name: PaymentProviderName): PaymentProvider {
+  const provider = getPaymentProvider(name);
+  if (!provider) throw new PaymentProviderError(`${name} is not configured`, name);
+  return provider;
+}
+
+/**
+ * Decide what a provider result means for a stored transaction. Pure so
+ * the amount/currency checks can be tested without a database.
+ */
+export function resolvePaymentOutcome(
+  transaction: Pick<MarketplaceTransaction, "status" | "amount" | "currency">,
+  result: PaymentResult
+): PaymentOutcome {
+  switch (result.status) {
+    case "success": {
+      if (transaction.status !== "pending") return "duplicate";
+      if (result.amount === null || result.amount + AMOUNT_TOLERANCE < parseFloat(transaction.amount)) return "rejected";
+      if (transaction.currency && result.currency && transaction.currency !== result.currency.toUpperCase()) return "rejected";
+      return "completed";
+    }
+    case "failed":
+      return transaction.status === "pending" ? "failed" : "duplicate";
+    case "refunded":
+      return transaction.status === "completed" ? "refunded" : "duplicate";
+    default:
+      return "pending";
+  }
+}
+
+export async function startCheckout(params: {
+  order: MarketplaceOrder;
+  provider: PaymentProviderName;
+  channel: PaymentChannel;
+  currency: string;
+  email: string;
+  phone?: string;
+  name?: string;
+  callbackUrl?: string;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  const provider = requireProvider(params.provider);
+
+  const reference = generatePaymentReference(params.order.id);
+  const amount = parseFloat(params.order.totalAmount);
+  await db.insert(marketplaceTransactions).values({
+    orderId: params.order.id,
+    transactionId: reference,
+    amount: params.order.totalAmount,
+    paymentMethod: params.channel,
+    status: "pending",
+    provider: provider.name,
+    currency: params.currency,
+  });
+
+  try {
+    const initialized = await provider.initialize({
+      reference,
+      amount,
+      currency: params.currency,
+      email: params.email,
+      phone: params.phone,
+      name: params.name,
+      channel: params.channel,
+      callbackUrl: params.callbackUrl,
+      metadata: { orderId: params.order.id, orderNumber: params.order.orderNumber },
+    });
+    if (initialized.providerTransactionId) {
+      await db
+        .update(marketplaceTransactions)
+        .set({ providerTransactionId: initialized.providerTransactionId })
+        .where(eq(marketplaceTransactions.transactionId, reference));
+    }
+    return { reference, amount, authorizationUrl: initialized.authorizationUrl };
+  } catch (error) {
+    await db
+      .update(marketplaceTransactions)
+      .set({ status: "failed", notes: `Initialization failed: ${(error as Error).message}` })
+      .where(eq(marketplaceTransactions.transactionId, reference));
+    throw error;
+  }
+}
+
+export async function findTransaction(reference: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  const [transaction] = await db
+    .select()
+    .from(marketplaceTransactions)
+    .where(eq(marketplaceTransactions.transactionId, reference))
+    .limit(1);
+  return transaction ?? null;
+}
+
+/**
+ * Apply a verified or webhook-reported result to the transaction and its
+ * order. Only the provider that started the payment may settle it.
+ */
+export async function applyPaymentResult(providerName: PaymentProviderName, result: PaymentResult): Promise<PaymentOutcome> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const transaction = await findTransaction(result.reference);
+  if (!transaction || transaction.provider !== providerName) return "unknown";
+
+  const outcome = resolvePaymentOutcome(transaction, result);
+  const now = new Date();
+
+  if (outcome === "completed") {
+    const [header] = await db
+      .update(marketplaceTransactions)
+      .set({
+        status: "completed",
+        completedAt: now,
+        providerTransactionId: result.providerTransactionId ?? transaction.providerTransactionId,
+      })
+      .where(and(eq(marketplaceTransactions.id, transaction.id), eq(marketplaceTransactions.status, "pending")));
+    if (header.affectedRows === 0) return "duplicate";
+
+    await db
+      .update(marketplaceOrders)
+      .set({ paymentStatus: "paid" })
+      .where(and(eq(marketplaceOrders.id, transaction.orderId), eq(marketplaceOrders.paymentStatus, "unpaid")));
+
+    const [order] = await db.select().from(marketplaceOrders).where(eq(marketplaceOrders.id, transaction.orderId)).limit(1);
+    if (order) await holdFunds(order);
+  } else if (outcome === "rejected") {
+    await db
+      .update(marketplaceTransactions)
+      .set({
+        status: "failed",
+        notes: `Provider reported ${result.amount ?? "?"} ${result.currency ?? ""}, expected ${transaction.amount} ${transaction.currency ?? ""}`.trim(),
+      })
+      .where(and(eq(marketplaceTransactions.id, transaction.id), eq(marketplaceTransactions.status, "pending")));
+  } else if (outcome === "failed") {
+    const [header] = await db
+      .update(marketplaceTransactions)
+      .set({ status: "failed" })
+      .where(and(eq(marketplaceTransactions.id, transaction.id), eq(marketplaceTransactions.status, "pending")));
+    if (header.affectedRows === 0) return "duplicate";
+  } else if (outcome === "refunded") {
+    await markRefunded(transaction, result.amount);
+  }
+
+  return outcome;
+}
+
+async function markRefunded(transaction: MarketplaceTransaction, amount: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  // Partial refunds keep the payment completed and are only noted
+  const full = amount === null || amount + AMOUNT_TOLERANCE >= parseFloat(transaction.amount);
+  if (!full) {
+    await db
+      .update(marketplaceTransactions)
+      .set({ notes: `${transaction.notes ? `${transaction.notes}\n` : ""}Partial refund of ${amount}` })
+      .where(eq(marketplaceTransactions.id, transaction.id));
+    return;
+  }
+
+  const [header] = await db
+    .update(marketplaceTransactions)
+    .set({ status: "refunded" })
+    .where(and(eq(marketplaceTransactions.id, transaction.id), eq(marketplaceTransactions.status, "completed")));
+  if (header.affectedRows > 0) {
+    await db
+      .update(marketplaceOrders)
+      .set({ paymentStatus: "refunded" })
+      .where(eq(marketplaceOrders.id, transaction.orderId));
+    await markEscrowRefunded(transaction.orderId, `Payment ${transaction.transactionId} refunded`);
+  }
+}
+
+/** Ask the provider for the current status and apply it. */
+export async function verifyTransaction(transaction: MarketplaceTransaction) {
+  const providerName = transaction.provider as PaymentProviderName | null;
+  if (!providerName) throw new Error("Transaction was not made through a payment provider");
+
+  const verified = await requireProvider(providerName).verify(transaction.transactionId!);
+  const outcome = await applyPaymentResult(providerName, verified);
+  return { verified, outcome };
+}
+
+export async function refundTransaction(transaction: MarketplaceTransaction, amount?: number) {
+  const providerName = transaction.provider as PaymentProviderName | null;
+  if (!providerName) throw new Error("Transaction was not made through a payment provider");
+  if (transaction.status !== "completed") throw new Error("Only completed payments can be refunded");
+
+  const refund = await requireProvider(providerName).refund(
+    transaction.transactionId!,
+    amount,
+    transaction.providerTransactionId ?? undefined
+  );
+  // Processed refunds are final now; pending ones are settled by the refund webhook
+  if (refund.status === "processed") await markRefunded(transaction, refund.amount);
+  return refund;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { inbreedingRisk, MAX_TREE_GENERATIONS, PedigreeError, PedigreeGraph } from "./pedigree";
+
+// 1 and 2 are founders; 3 and 4 are their full-sib offspring; 5 is a
+// founder mated to 3 to give 6; 7 is from the full-sib mating 3 × 4 and
+// 8 from 1 × his daughter 4
+const graph = new PedigreeGraph([
+  { animalId: 3, sireId: 1, damId: 2 },
+  { animalId: 4, sireId: 1, damId: 2 },
+  { animalId: 6, sireId: 3, damId: 5 },
+  { animalId: 7, sireId: 3, damId: 4 },
+  { animalId: 8, sireId: 1, damId: 4 },
+]);
+
+describe("PedigreeGraph", () => {
+  it("gives founders and unrelated matings no inbreeding", () => {
+    expect(graph.inbreeding(1)).toBe(0);
+    expect(graph.inbreeding(3)).toBe(0);
+    expect(graph.matingInbreeding(1, 2)).toBe(0);
+  });
+
+  it("matches the textbook coefficients", () => {
+    // Full siblings
+    expect(graph.inbreeding(7)).toBeCloseTo(0.25);
+    // Sire × daughter
+    expect(graph.inbreeding(8)).toBeCloseTo(0.25);
+    // Nephew × aunt
+    expect(graph.matingInbreeding(6, 4)).toBeCloseTo(0.125);
+    // An inbred animal's self-coancestry rises above one half
+    expect(graph.coancestry(7, 7)).toBeCloseTo(0.625);
+  });
+
+  it("ranks sires by the inbreeding their offspring would have", () => {
+    const ranked = graph.rankSires(4, [3, 5, 1, 5]);
+    expect(ranked.map(entry => entry.sireId)).toEqual([5, 1, 3]);
+    expect(ranked[0].risk).toBe("none");
+    expect(ranked[2].risk).toBe("high");
+  });
+
+  it("lists shared ancestors nearest first and builds trees of any depth", () => {
+    expect(graph.commonAncestors(6, 4)[0]).toEqual({ animalId: 1, generationsFromA: 2, generationsFromB: 1 });
+    const tree = graph.tree(7, 2, id => ({ id }));
+    expect(tree.sire?.sire?.animalId).toBe(1);
+    expect(tree.sire?.sire?.sire).toBeNull();
+    expect(tree.inbreedingCoefficient).toBeCloseTo(0.25);
+    expect(graph.depth(7)).toBe(2);
+  });
+
+  it("caps tree depth but not the pedigree behind the coefficients", () => {
+    // A single sire line MAX_TREE_GENERATIONS + 5 deep ending in a full-sib mating
+    const line = Array.from({ length: MAX_TREE_GENERATIONS + 5 }, (_, i) => ({ animalId: 100 + i + 1, sireId: 100 + i, damId: null }));
+    const deep = new PedigreeGraph([
+      { animalId: 3, sireId: 1, damId: 2 },
+      { animalId: 4, sireId: 1, damId: 2 },
+      { animalId: 100, sireId: 3, damId: 4 },
+      ...line,
+    ]);
+    const bottom = 100 + MAX_TREE_GENERATIONS + 5;
+    expect(deep.depth(bottom)).toBe(MAX_TREE_GENERATIONS + 7);
+    expect(deep.tree(bottom, MAX_TREE_GENERATIONS, () => null).inbreedingCoefficient).toBe(0);
+    expect(() => deep.tree(bottom, MAX_TREE_GENERATIONS + 1, () => null)).toThrow(PedigreeError);
+    expect(deep.inbreeding(100)).toBeCloseTo(0.25);
+  });
+
+  it("drops links that would make an animal its own ancestor", () => {
+    const looped = new PedigreeGraph([
+      { animalId: 10, sireId: 11, damId: null },
+      { animalId: 11, sireId: 10, damId: null },
+    ]);
+    expect(looped.inbreeding(10)).toBe(0);
+    expect(looped.ancestors(10).size).toBeLessThanOrEqual(1);
+  });
+
+  it("grades risk at the first-cousin and half-sibling levels", () => {
+    expect(inbreedingRisk(0)).toBe("none");
+    expect(inbreedingRisk(1 / 32)).toBe("low");
+    expect(inbreedingRisk(1 / 16)).toBe("moderate");
+    expect(inbreedingRisk(1 / 8)).toBe("high");
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Pedigree graph and Wright's coefficient of inbreeding
+ * Built once from parentage links (animal → sire, dam) and queried many
+ * times: coancestry between any two animals, an animal's inbreeding, the
+ * inbreeding a mating would give, and ancestor trees. No database access;
+ * pedigreeService loads the links.
+ *
+ * Coancestry uses the recursive tabular method: with `a` not an ancestor of
+ * `b`, f(a,b) = ½·[f(sire(a),b) + f(dam(a),b)], and f(a,a) = ½·(1 + F(a)),
+ * where F(a) = f(sire(a), dam(a)) is Wright's coefficient. Unknown parents
+ * count as unrelated founders. Recursing on the animal with the deeper
+ * pedigree guarantees it is not an ancestor of the other, and every pair
+ * is worked out once.
+ */
+
+export interface ParentLink {
+  animalId: number;
+  sireId: number | null;
+  damId: number | null;
+}
+
+export interface PedigreeNode<A> {
+  animalId: number;
+  animal: A | null;
+  inbreedingCoefficient: number;
+  sire: PedigreeNode<A> | null;
+  dam: PedigreeNode<A> | null;
+}
+
+export class PedigreeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PedigreeError";
+  }
+}
+
+/**
+ * Deepest ancestor tree that is built. The tree repeats an ancestor once
+ * for every path to it, so in a closed herd it can double with each
+ * generation; inbreeding coefficients and depth always use the full
+ * pedigree regardless.
+ */
+export const MAX_TREE_GENERATIONS = 20;
+
+export type InbreedingRisk = "none" | "low" | "moderate" | "high";
+
+/** Offspring of first cousins are at 1/16, of half-siblings at 1/8 */
+export function inbreedingRisk(coefficient: number): InbreedingRisk {
+  if (coefficient <= 0) return "none";
+  if (coefficient < 1 / 16) return "low";
+  if (coefficient < 1 / 8) return "moderate";
+  return "high";
+}
+
+export class PedigreeGraph {
+  private readonly parents = new Map<number, { sireId: number | null; damId: number | null }>();
+  private readonly depths = new Map<number, number>();
+  private readonly coancestries = new Map<string, number>();
+
+  /**
+   * Later links for the same animal replace earlier ones. A link that would
+   * make an animal its own ancestor is dropped rather than looping forever.
+   */
+  constructor(links: ParentLink[]) {
+    for (const link of links) {
+      const sireId = link.sireId === link.animalId ? null : link.sireId;
+      const damId = link.damId === link.animalId ? null : link.damId;
+      if (sireId === null && damId === null) continue;
+      this.parents.set(link.animalId, { sireId, damId });
+    }
+    for (const animalId of [...this.parents.keys()]) this.depth(animalId, new Set());
+  }
+
+  sireOf(animalId: number): number | null {
+    return this.parents.get(animalId)?.sireId ?? null;
+  }
+
+  damOf(animalId: number): number | null {
+    return this.parents.get(animalId)?.damId ?? null;
+  }
+
+  /** Generations of known ancestry above the animal (founders are 0) */
+  depth(animalId: number, visiting: Set<number> = new Set()): number {
+    const known = this.depths.get(animalId);
+    if (known !== undefined) return known;
+    const parents = this.parents.get(animalId);
+    if (!parents) return 0;
+
+    visiting.add(animalId);
+    let depth = 0;
+    for (const key of ["sireId", "damId"] as const) {
+      const parentId = parents[key];
+      if (parentId === null) continue;
+      if (visiting.has(parentId)) {
+        parents[key] = null;
+        continue;
+      }
+      depth = Math.max(depth, this.depth(parentId, visiting) + 1);
+    }
+    visiting.delete(animalId);
+    this.depths.set(animalId, depth);
+    return depth;
+  }
+
+  /** Probability that alleles drawn at random from `a` and `b` are identical by descent */
+  coancestry(a: number | null, b: number | null): number {
+    if (a === null || b === null) return 0;
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    const cached = this.coancestries.get(key);
+    if (cached !== undefined) return cached;
+
+    let value: number;
+    if (a === b) {
+      value = 0.5 * (1 + this.coancestry(this.sireOf(a), this.damOf(a)));
+    } else {
+      const [younger, other] = this.depth(a) >= this.depth(b) ? [a, b] : [b, a];
+      if (!this.parents.has(younger)) {
+        value = 0;
+      } else {
+        value = 0.5 * (this.coancestry(this.sireOf(younger), other) + this.coancestry(this.damOf(younger), other));
+      }
+    }
+    this.coancestries.set(key, value);
+    return value;
+  }
+
+  /** Wright's coefficient of inbreeding */
+  inbreeding(animalId: number): number {
+    return this.coancestry(this.sireOf(animalId), this.damOf(animalId));
+  }
+
+  /** Inbreeding of offspring from this mating: the coancestry of the parents */
+  matingInbreeding(sireId: number, damId: number): number {
+    return this.coancestry(sireId, damId);
+  }
+
+  /** Every known ancestor with the fewest generations back to it */
+  ancestors(animalId: number, maxGenerations = Infinity): Map<number, number> {
+    const found = new Map<number, number>();
+    let frontier = [animalId];
+    for (let generation = 1; frontier.length && generation <= maxGenerations; generation++) {
+      const next: number[] = [];
+      for (const id of frontier) {
+        for (const parentId of [this.sireOf(id), this.damOf(id)]) {
+          if (parentId === null || found.has(parentId)) continue;
+          found.set(parentId, generation);
+          next.push(parentId);
+        }
+      }
+      frontier = next;
+    }
+    return found;
+  }
+
+  /**
+   * Ancestors shared by two animals (an animal counts as its own ancestor
+   * here, so a parent-offspring pair shares the parent), nearest first
+   */
+  commonAncestors(a: number, b: number): Array<{ animalId: number; generationsFromA: number; generationsFromB: number }> {
+    const fromA = this.ancestors(a);
+    fromA.set(a, 0);
+    const fromB = this.ancestors(b);
+    fromB.set(b, 0);
+    const shared: Array<{ animalId: number; generationsFromA: number; generationsFromB: number }> = [];
+    for (const [animalId, generationsFromA] of fromA) {
+      const generationsFromB = fromB.get(animalId);
+      if (generationsFromB !== undefined) shared.push({ animalId, generationsFromA, generationsFromB });
+    }
+    return shared.sort((x, y) => x.generationsFromA + x.generationsFromB - (y.generationsFromA + y.generationsFromB));
+  }
+
+  /** Ancestor tree `generations` deep, with each animal's details looked up by `describe` */
+  tree<A>(animalId: number, generations: number, describe: (animalId: number) => A | null): PedigreeNode<A> {
+    if (generations > MAX_TREE_GENERATIONS) {
+      throw new PedigreeError(`Pedigree trees go at most ${MAX_TREE_GENERATIONS} generations deep`);
+    }
+    const build = (id: number, remaining: number): PedigreeNode<A> => {
+      const sireId = this.sireOf(id);
+      const damId = this.damOf(id);
+      return {
+        animalId: id,
+        animal: describe(id),
+        inbreedingCoefficient: this.inbreeding(id),
+        sire: remaining > 0 && sireId !== null ? build(sireId, remaining - 1) : null,
+        dam: remaining > 0 && damId !== null ? build(damId, remaining - 1) : null,
+      };
+    };
+    return build(animalId, generations);
+  }
+
+  /** Candidate sires ordered by the inbreeding their offspring with this dam would have, lowest first */
+  rankSires(damId: number, sireIds: number[]) {
+    return [...new Set(sireIds)]
+      .filter(sireId => sireId !== damId)
+      .map(sireId => {
+        const coefficient = this.matingInbreeding(sireId, damId);
+        return { sireId, offspringInbreeding: coefficient, risk: inbreedingRisk(coefficient) };
+      })
+      .sort((a, b) => a.offspringInbreeding - b.offspringInbreeding || a.sireId - b.sireId);
+  }
+}
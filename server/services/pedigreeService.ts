@@ -0,0 +1,170 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { animals, breedingRecords, semenBatches, type Animal } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { inbreedingRisk, PedigreeError, PedigreeGraph, type ParentLink } from "./pedigree";
+
+/**
+ * Pedigree loading
+ * Reads parentage rows from breedingRecords a generation at a time (one
+ * query per generation, however many animals) until every ancestor is
+ * found, including animals kept on other farms, and hands them to
+ * PedigreeGraph for the inbreeding maths.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+/** Ancestry deeper than this is ignored; it only guards against runaway data */
+const MAX_GENERATIONS = 50;
+
+export interface LoadedPedigree {
+  graph: PedigreeGraph;
+  animals: Map<number, Animal>;
+}
+
+/** Full lineage of the given animals: their parents, their parents' parents, and so on */
+async function loadLineage(db: Db, startIds: number[]): Promise<LoadedPedigree> {
+  const links = new Map<number, ParentLink>();
+  const seen = new Set<number>(startIds);
+  let frontier = [...seen];
+
+  for (let generation = 0; frontier.length && generation <= MAX_GENERATIONS; generation++) {
+    const rows = await db
+      .select({ id: breedingRecords.id, animalId: breedingRecords.animalId, sireId: breedingRecords.sireId, damId: breedingRecords.damId })
+      .from(breedingRecords)
+      .where(and(eq(breedingRecords.kind, "parentage"), inArray(breedingRecords.animalId, frontier)))
+      .orderBy(desc(breedingRecords.id));
+
+    const next: number[] = [];
+    for (const row of rows) {
+      if (links.has(row.animalId) || (row.sireId === null && row.damId === null)) continue;
+      // Newest link wins when an animal's parentage was recorded more than once
+      links.set(row.animalId, { animalId: row.animalId, sireId: row.sireId, damId: row.damId });
+      for (const parentId of [row.sireId, row.damId]) {
+        if (parentId === null || seen.has(parentId)) continue;
+        seen.add(parentId);
+        next.push(parentId);
+      }
+    }
+    frontier = next;
+  }
+
+  const rows = seen.size ? await db.select().from(animals).where(inArray(animals.id, [...seen])) : [];
+  return {
+    graph: new PedigreeGraph([...links.values()]),
+    animals: new Map(rows.map(row => [row.id, row])),
+  };
+}
+
+/** Lineage of every animal on a farm */
+export async function loadFarmPedigree(farmId: number): Promise<LoadedPedigree> {
+  const db = await requireDb();
+  const herd = await db.select({ id: animals.id }).from(animals).where(eq(animals.farmId, farmId));
+  return loadLineage(db, herd.map(row => row.id));
+}
+
+/** Lineage of a few animals only */
+export async function loadAnimalPedigree(animalIds: number[]): Promise<LoadedPedigree> {
+  const db = await requireDb();
+  return loadLineage(db, animalIds);
+}
+
+function summarize(animal: Animal | undefined) {
+  if (!animal) return null;
+  return { id: animal.id, tag: animal.uniqueTagId, gender: animal.gender, breed: animal.breed, birthDate: animal.birthDate, status: animal.status };
+}
+
+/** Ancestor tree of any depth, with each animal's inbreeding coefficient */
+export async function getPedigreeTree(animalId: number, generations: number) {
+  const { graph, animals: details } = await loadAnimalPedigree([animalId]);
+  const animal = details.get(animalId);
+  if (!animal) throw new PedigreeError("Animal not found");
+  return {
+    animal,
+    inbreedingCoefficient: graph.inbreeding(animalId),
+    knownGenerations: graph.depth(animalId),
+    sire: graph.sireOf(animalId) === null ? null : graph.tree(graph.sireOf(animalId)!, generations - 1, id => summarize(details.get(id))),
+    dam: graph.damOf(animalId) === null ? null : graph.tree(graph.damOf(animalId)!, generations - 1, id => summarize(details.get(id))),
+  };
+}
+
+/** Wright's coefficient for the offspring of a mating, with the ancestors the parents share */
+export async function analyzeMating(sireId: number, damId: number) {
+  const { graph, animals: details } = await loadAnimalPedigree([sireId, damId]);
+  const sire = details.get(sireId);
+  const dam = details.get(damId);
+  if (!sire || !dam) throw new PedigreeError("One or both animals not found");
+  if (sire.gender === "female" || dam.gender === "male") throw new PedigreeError("Sire must be male and dam female");
+
+  const coefficient = graph.matingInbreeding(sireId, damId);
+  return {
+    sire: summarize(sire),
+    dam: summarize(dam),
+    coancestry: coefficient,
+    offspringInbreeding: coefficient,
+    risk: inbreedingRisk(coefficient),
+    sireInbreeding: graph.inbreeding(sireId),
+    damInbreeding: graph.inbreeding(damId),
+    commonAncestors: graph.commonAncestors(sireId, damId).map(shared => ({ ...shared, animal: summarize(details.get(shared.animalId)) })),
+  };
+}
+
+/**
+ * Active males of the dam's type on her farm, plus sires of the farm's AI
+ * straws that are recorded as animals, ranked by the inbreeding their
+ * offspring with her would have
+ */
+export async function rankSiresForDam(farmId: number, damId: number) {
+  const db = await requireDb();
+  const [dam] = await db.select().from(animals).where(and(eq(animals.id, damId), eq(animals.farmId, farmId))).limit(1);
+  if (!dam) throw new PedigreeError("Dam not found on this farm");
+  if (dam.gender !== "female") throw new PedigreeError("Sires are ranked for females");
+
+  const bulls = await db
+    .select({ id: animals.id })
+    .from(animals)
+    .where(and(eq(animals.farmId, farmId), eq(animals.typeId, dam.typeId), eq(animals.gender, "male"), eq(animals.status, "active")));
+  const straws = await db
+    .select({ sireAnimalId: semenBatches.sireAnimalId, sireCode: semenBatches.sireCode, strawsRemaining: semenBatches.strawsRemaining })
+    .from(semenBatches)
+    .where(eq(semenBatches.farmId, farmId));
+  const strawSires = new Map<number, string>();
+  for (const straw of straws) {
+    if (straw.sireAnimalId !== null && straw.strawsRemaining > 0) strawSires.set(straw.sireAnimalId, straw.sireCode);
+  }
+
+  const candidates = [...bulls.map(bull => bull.id), ...strawSires.keys()];
+  const { graph, animals: details } = await loadAnimalPedigree([damId, ...candidates]);
+  return {
+    dam: summarize(dam),
+    damInbreeding: graph.inbreeding(damId),
+    sires: graph.rankSires(damId, candidates).map(ranked => ({
+      ...ranked,
+      sire: summarize(details.get(ranked.sireId)),
+      source: strawSires.has(ranked.sireId) ? "semen" as const : "herd" as const,
+      sireCode: strawSires.get(ranked.sireId) ?? null,
+    })),
+  };
+}
+
+/** Inbreeding coefficient of every animal on the farm, highest first */
+export async function getHerdInbreeding(farmId: number) {
+  const { graph, animals: details } = await loadFarmPedigree(farmId);
+  const herd = [...details.values()].filter(animal => animal.farmId === farmId);
+  const coefficients = herd
+    .map(animal => ({ ...summarize(animal)!, inbreedingCoefficient: graph.inbreeding(animal.id), knownGenerations: graph.depth(animal.id) }))
+    .sort((a, b) => b.inbreedingCoefficient - a.inbreedingCoefficient);
+  const inbred = coefficients.filter(entry => entry.inbreedingCoefficient > 0);
+  return {
+    animals: coefficients,
+    inbredCount: inbred.length,
+    averageInbreeding: coefficients.length
+      ? coefficients.reduce((sum, entry) => sum + entry.inbreedingCoefficient, 0) / coefficients.length
+      : 0,
+  };
+}
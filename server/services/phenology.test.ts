@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  accumulateGdd,
+  dailyGdd,
+  dueStageTriggers,
+  gddProfile,
+  mergeDailyTemperatures,
+  PhenologyError,
+  projectMaturityDate,
+  stageForGdd,
+  type DailyTemperature,
+} from "./phenology";
+
+const day = (iso: string, min: number, max: number, source: DailyTemperature["source"] = "weather"): DailyTemperature => ({
+  date: new Date(`${iso}T00:00:00Z`),
+  min,
+  max,
+  source,
+});
+
+/** n consecutive days from start with the same temperatures */
+function run(start: string, n: number, min: number, max: number) {
+  const first = new Date(`${start}T00:00:00Z`).getTime();
+  return Array.from({ length: n }, (_, i) => day(new Date(first + i * 86_400_000).toISOString().slice(0, 10), min, max));
+}
+
+const maize = gddProfile({ cropName: "Maize", scientificName: "Zea mays" });
+
+describe("dailyGdd", () => {
+  it("holds temperatures between the base and the upper threshold", () => {
+    expect(dailyGdd(15, 25, 10, 30)).toBe(10);
+    expect(dailyGdd(5, 25, 10, 30)).toBe(7.5);
+    expect(dailyGdd(20, 36, 10, 30)).toBe(15);
+    expect(dailyGdd(2, 8, 10, 30)).toBe(0);
+    expect(dailyGdd(2, 8, 0, 30)).toBe(5);
+    expect(() => dailyGdd(20, 15, 10, 30)).toThrow(PhenologyError);
+  });
+});
+
+describe("gddProfile", () => {
+  it("knows base temperatures and stages by crop", () => {
+    expect(maize).toMatchObject({ crop: "maize", baseTemperature: 10 });
+    expect(gddProfile({ cropName: "Winter Wheat" }).baseTemperature).toBe(0);
+    expect(gddProfile({ cropName: "Cassava" })).toMatchObject({ crop: "other", stages: [] });
+  });
+});
+
+describe("accumulateGdd", () => {
+  it("prefers the station's reading on days both sources have", () => {
+    const merged = mergeDailyTemperatures(
+      [day("2026-03-02", 16, 28, "sensor")],
+      [day("2026-03-02", 14, 24), day("2026-03-01", 14, 24)]
+    );
+    expect(merged.map(entry => entry.source)).toEqual(["weather", "sensor"]);
+    expect(accumulateGdd(merged, maize).map(entry => [entry.gdd, entry.cumulativeGdd])).toEqual([[9, 9], [12, 21]]);
+  });
+});
+
+describe("stages and harvest", () => {
+  // 15 °C·d a day for maize
+  const series = accumulateGdd(run("2026-03-01", 20, 20, 30), maize);
+
+  it("predicts the stage from accumulated heat", () => {
+    expect(series.at(-1)!.cumulativeGdd).toBe(300);
+    expect(stageForGdd(maize, 300)).toMatchObject({ stage: { code: "V6" }, next: { code: "VT" }, gddToNext: 330, mature: false });
+    expect(stageForGdd(maize, 10).stage).toBeNull();
+    expect(stageForGdd(maize, 1500).mature).toBe(true);
+  });
+
+  it("projects maturity from recent heat", () => {
+    // 1150 °C·d left at 15 a day is 77 more days after 20 March
+    expect(projectMaturityDate(maize, series)).toEqual(new Date("2026-06-05T00:00:00Z"));
+    expect(projectMaturityDate(gddProfile({ cropName: "Cassava" }), series)).toBeNull();
+    expect(projectMaturityDate(maize, accumulateGdd(run("2026-07-01", 5, 4, 9), maize))).toBeNull();
+  });
+
+  it("creates stage tasks once, and not for stages long past", () => {
+    // V6 (260) reached on the 18th day, 18 March
+    const asOf = new Date("2026-03-21T00:00:00Z");
+    const due = dueStageTriggers(maize, series, asOf, new Set());
+    expect(due.map(entry => [entry.trigger.key, entry.reachedOn.toISOString().slice(0, 10)])).toEqual([["topdress-v6", "2026-03-18"]]);
+    expect(due[0].dueDate).toEqual(new Date("2026-03-21T00:00:00Z"));
+    expect(dueStageTriggers(maize, series, asOf, new Set(["topdress-v6"]))).toEqual([]);
+    expect(dueStageTriggers(maize, series, new Date("2026-04-10T00:00:00Z"), new Set())).toEqual([]);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Crop phenology from growing degree days
+ * A crop advances through its growth stages as heat accumulates, not as
+ * days pass: each day adds the amount by which its mean temperature
+ * exceeded the crop's base temperature. Temperatures are held between the
+ * base and an upper threshold first, since growth neither reverses in the
+ * cold nor speeds up past the threshold (the modified average method used
+ * for maize). Stage thresholds are °C·d from planting for typical
+ * mid-season varieties. No database access; phenologyService feeds it a
+ * cycle's daily temperatures.
+ */
+
+export interface PhenologyStage {
+  code: string;
+  name: string;
+  /** Growing degree days from planting at which the stage is reached */
+  gdd: number;
+}
+
+/** A task to create when a cycle reaches a stage */
+export interface StageTrigger {
+  key: string;
+  stage: string;
+  title: string;
+  description: string;
+  taskType: "inspection" | "spraying" | "other";
+  priority: "medium" | "high";
+  estimatedHours: number;
+  dueInDays: number;
+}
+
+export interface GddProfile {
+  crop: string;
+  baseTemperature: number;
+  upperThreshold: number;
+  /** In order; the last one is harvest maturity */
+  stages: PhenologyStage[];
+  triggers: StageTrigger[];
+}
+
+export interface DailyTemperature {
+  date: Date;
+  min: number;
+  max: number;
+  source: "weather" | "sensor";
+}
+
+export interface GddDay extends DailyTemperature {
+  gdd: number;
+  cumulativeGdd: number;
+}
+
+export class PhenologyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PhenologyError";
+  }
+}
+
+/** Days of recent heat that the harvest projection assumes will continue */
+export const PROJECTION_WINDOW_DAYS = 14;
+
+/** A stage reached longer ago than this no longer creates its task */
+export const STAGE_TRIGGER_WINDOW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scout = (stage: string, name: string, watchFor: string): StageTrigger => ({
+  key: `scout-${stage.toLowerCase()}`,
+  stage,
+  title: `Scout at ${name}`,
+  description: `The crop has reached ${name}. Walk the field and check for ${watchFor}.`,
+  taskType: "inspection",
+  priority: "high",
+  estimatedHours: 2,
+  dueInDays: 2,
+});
+
+const topDress = (stage: string, name: string): StageTrigger => ({
+  key: `topdress-${stage.toLowerCase()}`,
+  stage,
+  title: `Top-dress nitrogen at ${name}`,
+  description: `The crop has reached ${name}, when its nitrogen uptake climbs. Apply the nitrogen top-dressing.`,
+  taskType: "other",
+  priority: "high",
+  estimatedHours: 4,
+  dueInDays: 3,
+});
+
+const PROFILES: Array<[RegExp, GddProfile]> = [
+  [/\b(maize|corn|zea mays)\b/, {
+    crop: "maize",
+    baseTemperature: 10,
+    upperThreshold: 30,
+    stages: [
+      { code: "VE", name: "emergence", gdd: 65 },
+      { code: "V6", name: "six-leaf", gdd: 260 },
+      { code: "VT", name: "tasselling", gdd: 630 },
+      { code: "R1", name: "silking", gdd: 680 },
+      { code: "R6", name: "physiological maturity", gdd: 1450 },
+    ],
+    triggers: [topDress("V6", "V6"), scout("VT", "tasselling", "fall armyworm, stem borers and leaf blight")],
+  }],
+  [/\b(sorghum|millet)\b/, {
+    crop: "sorghum",
+    baseTemperature: 10,
+    upperThreshold: 35,
+    stages: [
+      { code: "VE", name: "emergence", gdd: 80 },
+      { code: "PI", name: "panicle initiation", gdd: 500 },
+      { code: "FL", name: "flowering", gdd: 850 },
+      { code: "PM", name: "physiological maturity", gdd: 1400 },
+    ],
+    triggers: [topDress("PI", "panicle initiation"), scout("FL", "flowering", "midge, head bugs and birds")],
+  }],
+  [/\b(rice|oryza)\b/, {
+    crop: "rice",
+    baseTemperature: 10,
+    upperThreshold: 35,
+    stages: [
+      { code: "TL", name: "tillering", gdd: 400 },
+      { code: "PI", name: "panicle initiation", gdd: 850 },
+      { code: "HD", name: "heading", gdd: 1200 },
+      { code: "MT", name: "maturity", gdd: 1800 },
+    ],
+    triggers: [topDress("PI", "panicle initiation"), scout("HD", "heading", "blast, stem borers and rice bugs")],
+  }],
+  [/\b(wheat|barley|triticum)\b/, {
+    crop: "wheat",
+    baseTemperature: 0,
+    upperThreshold: 30,
+    stages: [
+      { code: "EM", name: "emergence", gdd: 120 },
+      { code: "TL", name: "tillering", gdd: 400 },
+      { code: "JT", name: "jointing", gdd: 750 },
+      { code: "FL", name: "flowering", gdd: 1200 },
+      { code: "MT", name: "maturity", gdd: 1900 },
+    ],
+    triggers: [topDress("TL", "tillering"), scout("FL", "flowering", "rusts, head blight and aphids")],
+  }],
+  [/\b(beans?|cowpeas?|soy ?beans?|soya|phaseolus)\b/, {
+    crop: "beans",
+    baseTemperature: 10,
+    upperThreshold: 30,
+    stages: [
+      { code: "VE", name: "emergence", gdd: 90 },
+      { code: "V3", name: "third trifoliate", gdd: 250 },
+      { code: "R1", name: "flowering", gdd: 450 },
+      { code: "R9", name: "maturity", gdd: 1000 },
+    ],
+    triggers: [scout("R1", "flowering", "aphids, pod borers and bean rust")],
+  }],
+  [/\b(tomato(es)?|solanum lycopersicum)\b/, {
+    crop: "tomato",
+    baseTemperature: 10,
+    upperThreshold: 30,
+    stages: [
+      { code: "FL", name: "flowering", gdd: 350 },
+      { code: "FS", name: "fruit set", gdd: 550 },
+      { code: "MT", name: "first ripe fruit", gdd: 1100 },
+    ],
+    triggers: [scout("FL", "flowering", "Tuta absoluta, whitefly and early blight")],
+  }],
+];
+
+/** Unknown crops still accumulate heat, but have no stages to predict */
+const DEFAULT_PROFILE: GddProfile = { crop: "other", baseTemperature: 10, upperThreshold: 30, stages: [], triggers: [] };
+
+export function gddProfile(crop: { cropName: string; scientificName?: string | null }): GddProfile {
+  const name = `${crop.cropName} ${crop.scientificName ?? ""}`.toLowerCase();
+  return PROFILES.find(([pattern]) => pattern.test(name))?.[1] ?? DEFAULT_PROFILE;
+}
+
+function round1(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+export function dayKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function dailyGdd(min: number, max: number, baseTemperature: number, upperThreshold: number): number {
+  if (min > max) throw new PhenologyError(`Minimum temperature ${min} is above the maximum ${max}`);
+  const clamp = (value: number) => Math.min(Math.max(value, baseTemperature), upperThreshold);
+  return round1((clamp(min) + clamp(max)) / 2 - baseTemperature);
+}
+
+/** One temperature per day, the station's where it reported and the weather feed's otherwise */
+export function mergeDailyTemperatures(station: DailyTemperature[], weather: DailyTemperature[]): DailyTemperature[] {
+  const byDay = new Map<string, DailyTemperature>();
+  for (const day of weather) byDay.set(dayKey(day.date), day);
+  for (const day of station) byDay.set(dayKey(day.date), day);
+  return Array.from(byDay.values()).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function accumulateGdd(days: DailyTemperature[], profile: GddProfile): GddDay[] {
+  let cumulativeGdd = 0;
+  return [...days]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(day => {
+      const gdd = dailyGdd(day.min, day.max, profile.baseTemperature, profile.upperThreshold);
+      cumulativeGdd = round1(cumulativeGdd + gdd);
+      return { ...day, gdd, cumulativeGdd };
+    });
+}
+
+export function stageForGdd(profile: GddProfile, accumulatedGdd: number) {
+  const reached = profile.stages.filter(stage => accumulatedGdd >= stage.gdd);
+  const stage = reached.at(-1) ?? null;
+  const next = profile.stages[reached.length] ?? null;
+  return {
+    stage,
+    next,
+    gddToNext: next ? round1(next.gdd - accumulatedGdd) : null,
+    mature: profile.stages.length > 0 && next === null,
+  };
+}
+
+/** The day each stage was reached, for the stages reached so far */
+export function stageDates(profile: GddProfile, series: GddDay[]): Map<string, Date> {
+  const dates = new Map<string, Date>();
+  for (const stage of profile.stages) {
+    const day = series.find(entry => entry.cumulativeGdd >= stage.gdd);
+    if (day) dates.set(stage.code, day.date);
+  }
+  return dates;
+}
+
+/**
+ * The day the crop reaches maturity: the day it did, or a projection that
+ * assumes the mean heat of the last PROJECTION_WINDOW_DAYS days goes on.
+ * Null for crops without stages and while there is no heat to go on.
+ */
+export function projectMaturityDate(profile: GddProfile, series: GddDay[]): Date | null {
+  const maturity = profile.stages.at(-1);
+  const last = series.at(-1);
+  if (!maturity || !last) return null;
+  const reachedOn = stageDates(profile, series).get(maturity.code);
+  if (reachedOn) return reachedOn;
+
+  const recent = series.slice(-PROJECTION_WINDOW_DAYS);
+  const meanDailyGdd = recent.reduce((sum, day) => sum + day.gdd, 0) / recent.length;
+  if (meanDailyGdd <= 0) return null;
+  const daysLeft = Math.ceil((maturity.gdd - last.cumulativeGdd) / meanDailyGdd);
+  return new Date(last.date.getTime() + daysLeft * DAY_MS);
+}
+
+/**
+ * Triggers whose stage has been reached and that have not created their
+ * task yet. Stages reached more than STAGE_TRIGGER_WINDOW_DAYS before asOf
+ * are left alone, so a cycle tracked late does not get a pile of stale tasks.
+ */
+export function dueStageTriggers(profile: GddProfile, series: GddDay[], asOf: Date, created: Set<string>) {
+  const reached = stageDates(profile, series);
+  const earliest = asOf.getTime() - STAGE_TRIGGER_WINDOW_DAYS * DAY_MS;
+  return profile.triggers.flatMap(trigger => {
+    const reachedOn = reached.get(trigger.stage);
+    if (!reachedOn || created.has(trigger.key) || reachedOn.getTime() < earliest) return [];
+    const dueDate = new Date(Math.max(reachedOn.getTime() + trigger.dueInDays * DAY_MS, asOf.getTime()));
+    return [{ trigger, reachedOn, dueDate }];
+  });
+}
@@ -0,0 +1,329 @@
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, lt, sql } from "drizzle-orm";
+import {
+  cropCycles,
+  cropGddDaily,
+  crops,
+  cropStageTasks,
+  farms,
+  iotDevices,
+  sensorReadingsDaily,
+  taskAssignments,
+  weatherHistory,
+} from "../../drizzle/schema";
+import { getDb } from "../db";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+import {
+  accumulateGdd,
+  dayKey,
+  dueStageTriggers,
+  gddProfile,
+  mergeDailyTemperatures,
+  PhenologyError,
+  projectMaturityDate,
+  stageDates,
+  stageForGdd,
+  type DailyTemperature,
+} from "./phenology";
+
+/**
+ * Crop phenology tracking
+ * Once a day every planted cycle's growing degree days are rebuilt from
+ * planting up to yesterday. A day's temperatures come from the farm's
+ * active weather station (its daily sensor rollup) when it reported, and
+ * otherwise from the lowest and highest weatherHistory reading of the day.
+ * The cycle keeps its accumulated heat and predicted stage, its expected
+ * harvest date follows the projected maturity, and reaching a stage with a
+ * trigger (top-dressing at V6, scouting at flowering, ...) creates a task
+ * for the farm owner, once per cycle and trigger.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Cycles in the ground; planning, completed and abandoned ones are left as they are */
+const TRACKED_STATUSES = ["planted", "growing", "harvesting"] as const;
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function dateOnly(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function num(value: string | null | undefined): number | null {
+  return value === null || value === undefined ? null : parseFloat(value);
+}
+
+function decimal(value: number, places: number): string {
+  return value.toFixed(places);
+}
+
+async function requireCycle(db: Db, farmId: number, cycleId: number) {
+  const [row] = await db
+    .select({ cycle: cropCycles, crop: crops })
+    .from(cropCycles)
+    .innerJoin(crops, eq(crops.id, cropCycles.cropId))
+    .where(and(eq(cropCycles.id, cycleId), eq(cropCycles.farmId, farmId)))
+    .limit(1);
+  if (!row) throw new PhenologyError("Crop cycle not found on this farm");
+  return row;
+}
+
+async function farmOwnerId(db: Db, farmId: number) {
+  const [farm] = await db.select({ ownerId: farms.farmerUserId }).from(farms).where(eq(farms.id, farmId)).limit(1);
+  if (!farm) throw new PhenologyError("Farm not found");
+  return farm.ownerId;
+}
+
+/** Daily temperatures for the farm over [from, to) */
+async function farmTemperatures(db: Db, farmId: number, from: Date, to: Date): Promise<DailyTemperature[]> {
+  const day = sql<string>`DATE_FORMAT(${weatherHistory.recordedAt}, '%Y-%m-%d')`;
+  const weatherDays = await db
+    .select({
+      day,
+      min: sql<string>`MIN(${weatherHistory.temperature})`,
+      max: sql<string>`MAX(${weatherHistory.temperature})`,
+    })
+    .from(weatherHistory)
+    .where(and(
+      eq(weatherHistory.farmId, farmId),
+      gte(weatherHistory.recordedAt, from),
+      lt(weatherHistory.recordedAt, to),
+      sql`${weatherHistory.temperature} IS NOT NULL`,
+    ))
+    .groupBy(day);
+
+  const stationDays = await db
+    .select({ bucketStart: sensorReadingsDaily.bucketStart, min: sensorReadingsDaily.minValue, max: sensorReadingsDaily.maxValue })
+    .from(sensorReadingsDaily)
+    .innerJoin(iotDevices, eq(iotDevices.id, sensorReadingsDaily.deviceId))
+    .where(and(
+      eq(iotDevices.farmId, farmId),
+      eq(iotDevices.deviceType, "weather_station"),
+      eq(iotDevices.status, "active"),
+      eq(sensorReadingsDaily.readingType, "temperature"),
+      gte(sensorReadingsDaily.bucketStart, from),
+      lt(sensorReadingsDaily.bucketStart, to),
+    ))
+    .orderBy(asc(sensorReadingsDaily.bucketStart), asc(sensorReadingsDaily.deviceId));
+
+  // With several stations, the first to report a day stands for it
+  const station = new Map<string, DailyTemperature>();
+  for (const row of stationDays) {
+    const date = dateOnly(row.bucketStart);
+    if (!station.has(dayKey(date))) station.set(dayKey(date), { date, min: parseFloat(row.min), max: parseFloat(row.max), source: "sensor" });
+  }
+
+  return mergeDailyTemperatures(
+    Array.from(station.values()),
+    weatherDays.map(row => ({ date: new Date(`${row.day}T00:00:00Z`), min: parseFloat(row.min), max: parseFloat(row.max), source: "weather" }))
+  );
+}
+
+/**
+ * Rebuild a cycle's growing degree days up to the day before asOf (or its
+ * harvest), move its predicted stage and expected harvest date, and create
+ * the tasks for stages it has just reached.
+ */
+export async function updateCycleGdd(farmId: number, cycleId: number, asOf = new Date()) {
+  const db = await requireDb();
+  const { cycle, crop } = await requireCycle(db, farmId, cycleId);
+  const profile = gddProfile(crop);
+
+  const from = dateOnly(toDate(cycle.plantingDate));
+  const harvested = cycle.actualHarvestDate ? dateOnly(toDate(cycle.actualHarvestDate)).getTime() + DAY_MS : Infinity;
+  const to = new Date(Math.min(dateOnly(asOf).getTime(), harvested));
+  const series = to > from ? accumulateGdd(await farmTemperatures(db, cycle.farmId, from, to), profile) : [];
+
+  const accumulatedGdd = series.at(-1)?.cumulativeGdd ?? 0;
+  const { stage } = stageForGdd(profile, accumulatedGdd);
+  const maturityDate = projectMaturityDate(profile, series);
+  const existing = await db
+    .select({ triggerKey: cropStageTasks.triggerKey })
+    .from(cropStageTasks)
+    .where(eq(cropStageTasks.cycleId, cycle.id));
+  const due = dueStageTriggers(profile, series, asOf, new Set(existing.map(row => row.triggerKey)));
+  const workerId = due.length ? await farmOwnerId(db, cycle.farmId) : null;
+
+  const tasks = await db.transaction(async tx => {
+    await tx.delete(cropGddDaily).where(eq(cropGddDaily.cycleId, cycle.id));
+    for (let i = 0; i < series.length; i += 500) {
+      await tx.insert(cropGddDaily).values(series.slice(i, i + 500).map(day => ({
+        cycleId: cycle.id,
+        date: day.date,
+        minTemperature: decimal(day.min, 2),
+        maxTemperature: decimal(day.max, 2),
+        gdd: decimal(day.gdd, 1),
+        cumulativeGdd: decimal(day.cumulativeGdd, 1),
+        source: day.source,
+      })));
+    }
+    await tx.update(cropCycles).set({
+      accumulatedGdd: decimal(accumulatedGdd, 1),
+      growthStage: stage?.code ?? null,
+      gddUpdatedAt: new Date(),
+      ...(maturityDate && !cycle.actualHarvestDate ? { expectedHarvestDate: maturityDate } : {}),
+    }).where(eq(cropCycles.id, cycle.id));
+
+    const created = [];
+    for (const { trigger, reachedOn, dueDate } of due) {
+      const [task] = await tx.insert(taskAssignments).values({
+        taskId: randomUUID(),
+        farmId: cycle.farmId,
+        workerId: workerId!,
+        title: `${trigger.title}: ${crop.cropName}${cycle.varietyName ? ` (${cycle.varietyName})` : ""}`,
+        description: `${trigger.description} Reached ${reachedOn.toISOString().slice(0, 10)} at ${accumulatedGdd} GDD.`,
+        taskType: trigger.taskType,
+        priority: trigger.priority,
+        dueDate,
+        estimatedHours: decimal(trigger.estimatedHours, 2),
+        notes: `Crop cycle ${cycle.id}, stage ${trigger.stage}`,
+        createdBy: workerId!,
+      });
+      await tx.insert(cropStageTasks).values({
+        cycleId: cycle.id,
+        triggerKey: trigger.key,
+        stage: trigger.stage,
+        taskAssignmentId: task.insertId,
+        reachedOn,
+      });
+      created.push({ triggerKey: trigger.key, stage: trigger.stage, taskAssignmentId: task.insertId, dueDate });
+    }
+    return created;
+  });
+
+  return {
+    cycleId: cycle.id,
+    accumulatedGdd,
+    growthStage: stage?.code ?? null,
+    expectedHarvestDate: maturityDate ?? (cycle.expectedHarvestDate ? toDate(cycle.expectedHarvestDate) : null),
+    daysTracked: series.length,
+    tasksCreated: tasks,
+  };
+}
+
+/** The daily job: every cycle in the ground, on every farm */
+export async function updateActiveCycles(asOf = new Date()) {
+  const db = await requireDb();
+  const cycles = await db
+    .select({ id: cropCycles.id, farmId: cropCycles.farmId })
+    .from(cropCycles)
+    .where(inArray(cropCycles.status, [...TRACKED_STATUSES]));
+
+  let updated = 0;
+  let tasksCreated = 0;
+  const failed: Array<{ cycleId: number; error: string }> = [];
+  for (const cycle of cycles) {
+    try {
+      const result = await updateCycleGdd(cycle.farmId, cycle.id, asOf);
+      updated++;
+      tasksCreated += result.tasksCreated.length;
+    } catch (error) {
+      failed.push({ cycleId: cycle.id, error: (error as Error).message });
+    }
+  }
+  return { updated, tasksCreated, failed, timestamp: asOf.toISOString() };
+}
+
+/** A cycle's heat, stages (reached on which day, or how far off) and stage tasks */
+export async function getCyclePhenology(farmId: number, cycleId: number) {
+  const db = await requireDb();
+  const { cycle, crop } = await requireCycle(db, farmId, cycleId);
+  const profile = gddProfile(crop);
+
+  const days = await db
+    .select()
+    .from(cropGddDaily)
+    .where(eq(cropGddDaily.cycleId, cycle.id))
+    .orderBy(asc(cropGddDaily.date));
+  const series = days.map(row => ({
+    date: dateOnly(toDate(row.date)),
+    min: num(row.minTemperature)!,
+    max: num(row.maxTemperature)!,
+    source: row.source,
+    gdd: num(row.gdd)!,
+    cumulativeGdd: num(row.cumulativeGdd)!,
+  }));
+  const accumulatedGdd = num(cycle.accumulatedGdd) ?? 0;
+  const reached = stageDates(profile, series);
+  const tasks = await db
+    .select({ link: cropStageTasks, task: taskAssignments })
+    .from(cropStageTasks)
+    .innerJoin(taskAssignments, eq(taskAssignments.id, cropStageTasks.taskAssignmentId))
+    .where(eq(cropStageTasks.cycleId, cycle.id))
+    .orderBy(asc(cropStageTasks.reachedOn));
+
+  return {
+    cycle,
+    cropName: crop.cropName,
+    profile: { crop: profile.crop, baseTemperature: profile.baseTemperature, upperThreshold: profile.upperThreshold },
+    accumulatedGdd,
+    ...stageForGdd(profile, accumulatedGdd),
+    stages: profile.stages.map(stage => ({
+      ...stage,
+      reachedOn: reached.get(stage.code) ?? null,
+      gddRemaining: Math.max(0, Math.round((stage.gdd - accumulatedGdd) * 10) / 10),
+    })),
+    expectedHarvestDate: cycle.expectedHarvestDate ? toDate(cycle.expectedHarvestDate) : null,
+    gddUpdatedAt: cycle.gddUpdatedAt,
+    daysFromStation: series.filter(day => day.source === "sensor").length,
+    days: series,
+    stageTasks: tasks.map(({ link, task }) => ({
+      triggerKey: link.triggerKey,
+      stage: link.stage,
+      reachedOn: link.reachedOn,
+      taskAssignmentId: task.id,
+      title: task.title,
+      status: task.status,
+      dueDate: task.dueDate,
+    })),
+  };
+}
+
+/** The farm's cycles in the ground with their heat and predicted stage */
+export async function listFarmPhenology(farmId: number) {
+  const db = await requireDb();
+  const rows = await db
+    .select({ cycle: cropCycles, crop: crops })
+    .from(cropCycles)
+    .innerJoin(crops, eq(crops.id, cropCycles.cropId))
+    .where(and(eq(cropCycles.farmId, farmId), inArray(cropCycles.status, [...TRACKED_STATUSES])))
+    .orderBy(desc(cropCycles.plantingDate));
+
+  return rows.map(({ cycle, crop }) => {
+    const profile = gddProfile(crop);
+    const accumulatedGdd = num(cycle.accumulatedGdd) ?? 0;
+    const { next, gddToNext, mature } = stageForGdd(profile, accumulatedGdd);
+    return {
+      cycleId: cycle.id,
+      fieldId: cycle.fieldId,
+      cropName: crop.cropName,
+      varietyName: cycle.varietyName,
+      plantingDate: cycle.plantingDate,
+      accumulatedGdd,
+      growthStage: cycle.growthStage,
+      nextStage: next?.code ?? null,
+      gddToNext,
+      mature,
+      expectedHarvestDate: cycle.expectedHarvestDate,
+      gddUpdatedAt: cycle.gddUpdatedAt,
+    };
+  });
+}
+
+export function initializePhenologyJob() {
+  registerJobHandler("phenology.updateGdd", () => updateActiveCycles());
+  // After midnight UTC, once yesterday's readings are in
+  defineCronJob("crop-phenology", "30 0 * * *", "phenology.updateGdd").catch(error =>
+    console.error("[Phenology] Could not schedule the daily update:", error)
+  );
+}
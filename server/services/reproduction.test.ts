@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  expectedDueDate,
+  isReturnToHeat,
+  nextExpectedHeat,
+  pregnancyCheckDate,
+  reproductiveKpis,
+  reproductiveStatus,
+  speciesProfile,
+  type ServiceEvent,
+} from "./reproduction";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const cattle = speciesProfile("Dairy Cattle")!;
+
+describe("speciesProfile", () => {
+  it("matches animal types by name and skips species without a cycle profile", () => {
+    expect(speciesProfile("West African Dwarf Goat")?.birthTerm).toBe("kidding");
+    expect(speciesProfile("Large White Pig")?.gestationDays).toBe(114);
+    expect(speciesProfile("Water Buffalo")?.species).toBe("buffalo");
+    expect(speciesProfile("Broiler Chicken")).toBeNull();
+    expect(speciesProfile(null)).toBeNull();
+  });
+});
+
+describe("cycle dates", () => {
+  it("derives due date and pregnancy check from the service date", () => {
+    const served = day("2026-03-01");
+    expect(expectedDueDate(cattle, served)).toEqual(day("2026-12-09"));
+    expect(pregnancyCheckDate(cattle, served)).toEqual(day("2026-04-05"));
+  });
+
+  it("skips missed heats to the next one ahead", () => {
+    expect(nextExpectedHeat(cattle, day("2026-03-01"), day("2026-03-05"))).toEqual(day("2026-03-22"));
+    expect(nextExpectedHeat(cattle, day("2026-03-01"), day("2026-04-20"))).toEqual(day("2026-05-03"));
+  });
+
+  it("treats a heat most of a cycle after service as a return", () => {
+    expect(isReturnToHeat(cattle, day("2026-03-01"), day("2026-03-04"))).toBe(false);
+    expect(isReturnToHeat(cattle, day("2026-03-01"), day("2026-03-21"))).toBe(true);
+  });
+});
+
+describe("reproductiveStatus", () => {
+  const now = day("2026-05-01");
+
+  it("is open with the next heat counted from the latest heat or birth", () => {
+    const status = reproductiveStatus(cattle, { heats: [day("2026-04-20")], services: [], births: [day("2026-02-01")] }, now);
+    expect(status.state).toBe("open");
+    expect(status.nextHeat).toEqual(day("2026-05-11"));
+    expect(status.daysSinceBirth).toBe(89);
+  });
+
+  it("is served with a check due while the service is pending", () => {
+    const services: ServiceEvent[] = [{ id: 1, animalId: 7, breedingDate: day("2026-04-10"), outcome: "pending" }];
+    const status = reproductiveStatus(cattle, { heats: [], services, births: [] }, now);
+    expect(status.state).toBe("served");
+    expect(status.pregnancyCheckDue).toEqual(day("2026-05-15"));
+    expect(status.nextHeat).toEqual(day("2026-05-01"));
+  });
+
+  it("is pregnant, then due, after a confirmed service, and ignores services before the last birth", () => {
+    const services: ServiceEvent[] = [
+      { id: 1, animalId: 7, breedingDate: day("2025-04-20"), outcome: "successful" },
+      { id: 2, animalId: 7, breedingDate: day("2026-03-01"), outcome: "successful" },
+    ];
+    const births = [day("2026-01-28")];
+    expect(reproductiveStatus(cattle, { heats: [], services, births }, now).state).toBe("pregnant");
+    const due = reproductiveStatus(cattle, { heats: [], services, births }, day("2026-12-01"));
+    expect(due.state).toBe("due");
+    expect(due.currentService?.id).toBe(2);
+    expect(due.nextHeat).toBeNull();
+  });
+});
+
+describe("reproductiveKpis", () => {
+  it("computes conception rates, services per conception, calving interval and days open", () => {
+    const services: ServiceEvent[] = [
+      // Cow 1: conceived at the second service after her first calving
+      { id: 1, animalId: 1, breedingDate: day("2025-03-01"), outcome: "unsuccessful" },
+      { id: 2, animalId: 1, breedingDate: day("2025-03-22"), outcome: "successful" },
+      // Cow 2: conceived first time, then lost it, then conceived again
+      { id: 3, animalId: 2, breedingDate: day("2025-04-01"), outcome: "aborted" },
+      { id: 4, animalId: 2, breedingDate: day("2025-07-01"), outcome: "successful" },
+      // Still waiting for a result
+      { id: 5, animalId: 3, breedingDate: day("2026-04-01"), outcome: "pending" },
+    ];
+    const births = [
+      { animalId: 1, birthDate: day("2025-01-01") },
+      { animalId: 1, birthDate: day("2025-12-30") },
+      { animalId: 2, birthDate: day("2025-01-15") },
+    ];
+    const kpis = reproductiveKpis(services, births);
+
+    expect(kpis.resolvedServices).toBe(4);
+    expect(kpis.conceptions).toBe(3);
+    expect(kpis.conceptionRate).toBeCloseTo(75);
+    expect(kpis.servicesPerConception).toBeCloseTo(4 / 3);
+    // First services: cow 1 (failed), cow 2 (conceived), cow 2 again after the abortion (conceived)
+    expect(kpis.firstServiceConceptionRate).toBeCloseTo((2 / 3) * 100);
+    expect(kpis.calvingIntervalDays).toBe(363);
+    // Cow 1: 80 days, cow 2: 76 days to the aborted conception and 167 to the next
+    expect(kpis.daysOpen).toBeCloseTo((80 + 76 + 167) / 3);
+  });
+
+  it("returns nulls without data", () => {
+    const kpis = reproductiveKpis([], []);
+    expect(kpis.conceptionRate).toBeNull();
+    expect(kpis.servicesPerConception).toBeNull();
+    expect(kpis.calvingIntervalDays).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Reproductive cycle maths
+ * Species profiles (gestation, oestrous cycle, when to confirm pregnancy),
+ * expected heats and due dates, where a female stands in her cycle, and the
+ * herd fertility figures. No database access; reproductionService feeds it
+ * heats, services and births.
+ *
+ * A "service" is a mating or insemination, recorded as a breedingRecords
+ * row. Its outcome stays pending until a pregnancy check or a birth settles
+ * it; a heat seen most of a cycle after the service also settles it as
+ * unsuccessful, since a pregnant female does not come back into heat.
+ */
+
+export interface SpeciesProfile {
+  species: string;
+  gestationDays: number;
+  /** Length of the oestrous cycle; for rabbits, the receptivity interval */
+  cycleDays: number;
+  /** Days after service when a pregnancy diagnosis is reliable */
+  pregnancyCheckDays: number;
+  /** What the birth is called: calving, kidding, farrowing... */
+  birthTerm: string;
+}
+
+const SPECIES_PROFILES: Array<{ pattern: RegExp; profile: SpeciesProfile }> = [
+  { pattern: /buffalo/, profile: { species: "buffalo", gestationDays: 310, cycleDays: 21, pregnancyCheckDays: 45, birthTerm: "calving" } },
+  { pattern: /cattle|cow|heifer|bull|dairy|beef|zebu|sanga|n'dama/, profile: { species: "cattle", gestationDays: 283, cycleDays: 21, pregnancyCheckDays: 35, birthTerm: "calving" } },
+  { pattern: /goat/, profile: { species: "goat", gestationDays: 150, cycleDays: 21, pregnancyCheckDays: 45, birthTerm: "kidding" } },
+  { pattern: /sheep|ewe|ram/, profile: { species: "sheep", gestationDays: 147, cycleDays: 17, pregnancyCheckDays: 45, birthTerm: "lambing" } },
+  { pattern: /pig|swine|sow|gilt|hog/, profile: { species: "pig", gestationDays: 114, cycleDays: 21, pregnancyCheckDays: 28, birthTerm: "farrowing" } },
+  { pattern: /rabbit/, profile: { species: "rabbit", gestationDays: 31, cycleDays: 16, pregnancyCheckDays: 12, birthTerm: "kindling" } },
+];
+
+/** Share of a cycle after a service from which a new heat means the service failed */
+const RETURN_TO_HEAT_FRACTION = 0.75;
+/** A confirmed pregnancy with no birth recorded this long after its due date is no longer shown as pregnant */
+const OVERDUE_BIRTH_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ReproductionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReproductionError";
+  }
+}
+
+/** Profile for an animal type, matched on its name ("Dairy Goat" is a goat); null for poultry and the like */
+export function speciesProfile(typeName: string | null | undefined): SpeciesProfile | null {
+  const name = (typeName ?? "").toLowerCase();
+  return SPECIES_PROFILES.find(entry => entry.pattern.test(name))?.profile ?? null;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+export function expectedDueDate(profile: SpeciesProfile, serviceDate: Date): Date {
+  return addDays(serviceDate, profile.gestationDays);
+}
+
+export function pregnancyCheckDate(profile: SpeciesProfile, serviceDate: Date): Date {
+  return addDays(serviceDate, profile.pregnancyCheckDays);
+}
+
+/**
+ * Next heat on or after `now`, counting whole cycles on from the last heat
+ * or service. Heats that were missed are skipped rather than reported as
+ * overdue.
+ */
+export function nextExpectedHeat(profile: SpeciesProfile, lastHeat: Date, now: Date): Date {
+  const elapsed = Math.max(0, daysBetween(lastHeat, now));
+  const cycles = Math.max(1, Math.ceil(elapsed / profile.cycleDays));
+  return addDays(lastHeat, cycles * profile.cycleDays);
+}
+
+/** Whether a heat on `heatDate` shows that the service on `serviceDate` did not take */
+export function isReturnToHeat(profile: SpeciesProfile, serviceDate: Date, heatDate: Date): boolean {
+  return daysBetween(serviceDate, heatDate) >= profile.cycleDays * RETURN_TO_HEAT_FRACTION;
+}
+
+export type ServiceOutcome = "pending" | "successful" | "unsuccessful" | "aborted";
+
+export interface ServiceEvent {
+  id: number;
+  animalId: number;
+  breedingDate: Date;
+  outcome: ServiceOutcome;
+}
+
+export interface BirthEvent {
+  animalId: number;
+  birthDate: Date;
+}
+
+export type ReproductiveState = "open" | "served" | "pregnant" | "due";
+
+export interface ReproductiveStatus {
+  state: ReproductiveState;
+  lastHeat: Date | null;
+  nextHeat: Date | null;
+  currentService: ServiceEvent | null;
+  pregnancyCheckDue: Date | null;
+  dueDate: Date | null;
+  daysSinceBirth: number | null;
+}
+
+/**
+ * Where one female stands: open (watch for heat), served (awaiting a
+ * pregnancy check), pregnant, or due within two weeks. Only services since
+ * her last birth count; a successful one among them is the pregnancy she
+ * is carrying.
+ */
+export function reproductiveStatus(
+  profile: SpeciesProfile,
+  events: { heats: Date[]; services: ServiceEvent[]; births: Date[] },
+  now: Date
+): ReproductiveStatus {
+  const lastHeat = events.heats.filter(heat => heat <= now).sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+  const lastBirth = events.births.filter(birth => birth <= now).sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+  const service = [...events.services]
+    .filter(entry => entry.breedingDate <= now && (!lastBirth || entry.breedingDate > lastBirth))
+    .sort((a, b) => b.breedingDate.getTime() - a.breedingDate.getTime())
+    .find(entry =>
+      entry.outcome === "pending" ||
+      (entry.outcome === "successful" && daysBetween(expectedDueDate(profile, entry.breedingDate), now) <= OVERDUE_BIRTH_DAYS)
+    ) ?? null;
+  const daysSinceBirth = lastBirth ? daysBetween(lastBirth, now) : null;
+
+  if (service) {
+    const dueDate = expectedDueDate(profile, service.breedingDate);
+    if (service.outcome === "successful") {
+      return {
+        state: daysBetween(now, dueDate) <= 14 ? "due" : "pregnant",
+        lastHeat, nextHeat: null, currentService: service, pregnancyCheckDue: null, dueDate, daysSinceBirth,
+      };
+    }
+    return {
+      state: "served",
+      lastHeat,
+      nextHeat: nextExpectedHeat(profile, service.breedingDate, now),
+      currentService: service,
+      pregnancyCheckDue: pregnancyCheckDate(profile, service.breedingDate),
+      dueDate,
+      daysSinceBirth,
+    };
+  }
+
+  const reference = [lastHeat, lastBirth].filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+  return {
+    state: "open",
+    lastHeat,
+    nextHeat: reference ? nextExpectedHeat(profile, reference, now) : null,
+    currentService: null,
+    pregnancyCheckDue: null,
+    dueDate: null,
+    daysSinceBirth,
+  };
+}
+
+export interface ReproductiveKpis {
+  services: number;
+  /** Services with a known result (pending ones are left out) */
+  resolvedServices: number;
+  conceptions: number;
+  /** Conceptions per resolved service, as a percentage */
+  conceptionRate: number | null;
+  firstServiceConceptionRate: number | null;
+  servicesPerConception: number | null;
+  births: number;
+  /** Mean days between successive births of the same female */
+  calvingIntervalDays: number | null;
+  /** Mean days from a birth to the service that next got the female pregnant */
+  daysOpen: number | null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function percentage(part: number, whole: number): number | null {
+  return whole ? (part / whole) * 100 : null;
+}
+
+/**
+ * Herd fertility. Aborted services count as conceptions, since the female
+ * did conceive. A first service is the first after a birth (or the first
+ * ever); services after a conception start a new round.
+ */
+export function reproductiveKpis(services: ServiceEvent[], births: BirthEvent[]): ReproductiveKpis {
+  const conceived = (service: ServiceEvent) => service.outcome === "successful" || service.outcome === "aborted";
+  const resolved = services.filter(service => service.outcome !== "pending");
+  const conceptions = resolved.filter(conceived);
+
+  const byAnimal = new Map<number, { services: ServiceEvent[]; births: Date[] }>();
+  const entry = (animalId: number) => {
+    if (!byAnimal.has(animalId)) byAnimal.set(animalId, { services: [], births: [] });
+    return byAnimal.get(animalId)!;
+  };
+  for (const service of services) entry(service.animalId).services.push(service);
+  for (const birth of births) entry(birth.animalId).births.push(birth.birthDate);
+
+  let firstServices = 0;
+  let firstServiceConceptions = 0;
+  const intervals: number[] = [];
+  const daysOpen: number[] = [];
+  for (const animal of byAnimal.values()) {
+    const ordered = [...animal.services].sort((a, b) => a.breedingDate.getTime() - b.breedingDate.getTime());
+    const birthDates = [...animal.births].sort((a, b) => a.getTime() - b.getTime());
+    for (let i = 1; i < birthDates.length; i++) intervals.push(daysBetween(birthDates[i - 1], birthDates[i]));
+
+    let roundOpen = true;
+    let lastBirthIndex = -1;
+    for (const service of ordered) {
+      while (lastBirthIndex + 1 < birthDates.length && birthDates[lastBirthIndex + 1] < service.breedingDate) {
+        lastBirthIndex++;
+        roundOpen = true;
+      }
+      if (roundOpen && service.outcome !== "pending") {
+        firstServices++;
+        if (conceived(service)) firstServiceConceptions++;
+      }
+      if (roundOpen) roundOpen = false;
+      if (conceived(service)) {
+        if (lastBirthIndex >= 0) daysOpen.push(daysBetween(birthDates[lastBirthIndex], service.breedingDate));
+        roundOpen = true;
+      }
+    }
+  }
+
+  return {
+    services: services.length,
+    resolvedServices: resolved.length,
+    conceptions: conceptions.length,
+    conceptionRate: percentage(conceptions.length, resolved.length),
+    firstServiceConceptionRate: percentage(firstServiceConceptions, firstServices),
+    servicesPerConception: conceptions.length ? resolved.length / conceptions.length : null,
+    births: births.length,
+    calvingIntervalDays: mean(intervals),
+    daysOpen: mean(daysOpen),
+  };
+}
@@ -0,0 +1,697 @@
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, isNotNull, lte, sql } from "drizzle-orm";
+import {
+  animals,
+  animalTypes,
+  breedingRecords,
+  farms,
+  heatObservations,
+  lactations,
+  pregnancyChecks,
+  semenBatches,
+  taskAssignments,
+} from "../../drizzle/schema";
+import { getDb } from "../db";
+import { recordCalving } from "./dairyService";
+import {
+  expectedDueDate,
+  isReturnToHeat,
+  nextExpectedHeat,
+  pregnancyCheckDate,
+  ReproductionError,
+  reproductiveKpis,
+  reproductiveStatus,
+  speciesProfile,
+  type BirthEvent,
+  type ServiceEvent,
+  type SpeciesProfile,
+} from "./reproduction";
+
+/**
+ * Reproductive recording
+ * Heats, services (natural or AI from a semen batch), pregnancy checks and
+ * births for each female. A service schedules its pregnancy diagnosis as a
+ * farm task; a birth registers the offspring in animals with parentage
+ * rows in breedingRecords, and can open the dam's lactation.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function dateOnly(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function requireFarmAnimal(db: Db, farmId: number, animalId: number) {
+  const [animal] = await db
+    .select({
+      id: animals.id,
+      farmId: animals.farmId,
+      typeId: animals.typeId,
+      tag: animals.uniqueTagId,
+      gender: animals.gender,
+      breed: animals.breed,
+      status: animals.status,
+      typeName: animalTypes.typeName,
+    })
+    .from(animals)
+    .leftJoin(animalTypes, eq(animalTypes.id, animals.typeId))
+    .where(and(eq(animals.id, animalId), eq(animals.farmId, farmId)))
+    .limit(1);
+  if (!animal) throw new ReproductionError("Animal not found on this farm");
+  return animal;
+}
+
+/** A female of a species with a known reproductive cycle */
+async function requireBreedingFemale(db: Db, farmId: number, animalId: number) {
+  const animal = await requireFarmAnimal(db, farmId, animalId);
+  if (animal.gender !== "female") throw new ReproductionError("Reproductive events are recorded on females");
+  const profile = speciesProfile(animal.typeName);
+  if (!profile) throw new ReproductionError(`No reproductive profile for animal type "${animal.typeName ?? "unknown"}"`);
+  return { animal, profile };
+}
+
+/** The female's latest service that is still waiting for a result */
+async function pendingService(db: Db, animalId: number) {
+  const [service] = await db
+    .select()
+    .from(breedingRecords)
+    .where(and(
+      eq(breedingRecords.animalId, animalId),
+      eq(breedingRecords.kind, "service"),
+      eq(breedingRecords.outcome, "pending")
+    ))
+    .orderBy(desc(breedingRecords.breedingDate))
+    .limit(1);
+  return service ?? null;
+}
+
+/** Close a service's open pregnancy checks and their tasks */
+async function settleChecks(db: Db, breedingRecordId: number, result: "pregnant" | "open" | "cancelled") {
+  const open = await db
+    .select({ id: pregnancyChecks.id, taskId: pregnancyChecks.taskId })
+    .from(pregnancyChecks)
+    .where(and(eq(pregnancyChecks.breedingRecordId, breedingRecordId), eq(pregnancyChecks.result, "pending")));
+  if (!open.length) return;
+  await db.update(pregnancyChecks).set({ result }).where(inArray(pregnancyChecks.id, open.map(check => check.id)));
+  const taskIds = open.map(check => check.taskId).filter((id): id is number => id !== null);
+  if (taskIds.length) {
+    await db
+      .update(taskAssignments)
+      .set({ status: "cancelled" })
+      .where(and(inArray(taskAssignments.id, taskIds), eq(taskAssignments.status, "pending")));
+  }
+}
+
+async function farmOwnerId(db: Db, farmId: number) {
+  const [farm] = await db.select({ ownerId: farms.farmerUserId }).from(farms).where(eq(farms.id, farmId)).limit(1);
+  if (!farm) throw new ReproductionError("Farm not found");
+  return farm.ownerId;
+}
+
+export interface HeatInput {
+  farmId: number;
+  animalId: number;
+  observedAt: Date;
+  intensity?: "weak" | "moderate" | "strong";
+  method?: "visual" | "tail_paint" | "pedometer" | "teaser" | "other";
+  notes?: string;
+  recordedBy?: number;
+}
+
+/**
+ * Record a heat. A heat most of a cycle after a pending service means the
+ * service did not take: it is marked unsuccessful and its check cancelled.
+ */
+export async function recordHeat(input: HeatInput) {
+  const db = await requireDb();
+  const { animal, profile } = await requireBreedingFemale(db, input.farmId, input.animalId);
+
+  const [header] = await db.insert(heatObservations).values({
+    farmId: animal.farmId,
+    animalId: animal.id,
+    observedAt: input.observedAt,
+    intensity: input.intensity,
+    method: input.method,
+    notes: input.notes,
+    recordedBy: input.recordedBy,
+  });
+
+  let failedServiceId: number | null = null;
+  const service = await pendingService(db, animal.id);
+  if (service && isReturnToHeat(profile, toDate(service.breedingDate), input.observedAt)) {
+    await db.update(breedingRecords).set({ outcome: "unsuccessful" }).where(eq(breedingRecords.id, service.id));
+    await settleChecks(db, service.id, "cancelled");
+    failedServiceId = service.id;
+  }
+
+  return {
+    heatId: header.insertId,
+    nextExpectedHeat: nextExpectedHeat(profile, input.observedAt, input.observedAt),
+    failedServiceId,
+  };
+}
+
+export interface SemenBatchInput {
+  farmId: number;
+  sireCode: string;
+  sireName?: string;
+  sireAnimalId?: number;
+  breed?: string;
+  batchNumber: string;
+  supplier?: string;
+  straws: number;
+  receivedAt: Date;
+  notes?: string;
+}
+
+export async function registerSemenBatch(input: SemenBatchInput) {
+  const db = await requireDb();
+  if (input.sireAnimalId !== undefined) {
+    const [sire] = await db.select({ gender: animals.gender }).from(animals).where(eq(animals.id, input.sireAnimalId)).limit(1);
+    if (!sire || sire.gender !== "male") throw new ReproductionError("Sire not found");
+  }
+  const [header] = await db.insert(semenBatches).ignore().values({
+    farmId: input.farmId,
+    sireCode: input.sireCode.trim(),
+    sireName: input.sireName,
+    sireAnimalId: input.sireAnimalId,
+    breed: input.breed,
+    batchNumber: input.batchNumber.trim(),
+    supplier: input.supplier,
+    strawsReceived: input.straws,
+    strawsRemaining: input.straws,
+    receivedAt: dateOnly(input.receivedAt),
+    notes: input.notes,
+  });
+  if (!header.affectedRows) throw new ReproductionError(`Batch ${input.batchNumber} of ${input.sireCode} is already registered`);
+  return { semenBatchId: header.insertId };
+}
+
+export async function listSemenBatches(farmId: number, includeEmpty = false) {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(semenBatches)
+    .where(and(eq(semenBatches.farmId, farmId), includeEmpty ? undefined : sql`${semenBatches.strawsRemaining} > 0`))
+    .orderBy(asc(semenBatches.sireCode), desc(semenBatches.receivedAt));
+}
+
+export interface ServiceInput {
+  farmId: number;
+  animalId: number;
+  serviceDate: Date;
+  method: "natural" | "ai";
+  /** The bull, buck or boar for natural service */
+  sireId?: number;
+  /** Straw used for AI; one straw is taken from the batch */
+  semenBatchId?: number;
+  technician?: string;
+  notes?: string;
+  createdBy: number;
+  /** Who gets the pregnancy check task; defaults to the farm owner */
+  assignCheckTo?: number;
+}
+
+/**
+ * Record a mating or insemination. The expected due date follows from the
+ * species' gestation, and a pregnancy check is scheduled as a health_check
+ * task for when diagnosis becomes reliable.
+ */
+export async function recordService(input: ServiceInput) {
+  const db = await requireDb();
+  const { animal, profile } = await requireBreedingFemale(db, input.farmId, input.animalId);
+  const serviceDate = dateOnly(input.serviceDate);
+
+  let sireId = input.sireId ?? null;
+  let sireLabel: string;
+  let semenBatchId: number | null = null;
+  if (input.method === "natural") {
+    if (sireId === null) throw new ReproductionError("Natural service needs the sire");
+    const [sire] = await db
+      .select({ gender: animals.gender, tag: animals.uniqueTagId })
+      .from(animals)
+      .where(eq(animals.id, sireId))
+      .limit(1);
+    if (!sire || sire.gender !== "male") throw new ReproductionError("Sire not found");
+    sireLabel = sire.tag ?? `#${sireId}`;
+  } else {
+    if (input.semenBatchId === undefined) throw new ReproductionError("AI needs the semen batch the straw came from");
+    const [batch] = await db
+      .select()
+      .from(semenBatches)
+      .where(and(eq(semenBatches.id, input.semenBatchId), eq(semenBatches.farmId, animal.farmId)))
+      .limit(1);
+    if (!batch) throw new ReproductionError("Semen batch not found on this farm");
+    const [taken] = await db
+      .update(semenBatches)
+      .set({ strawsRemaining: sql`${semenBatches.strawsRemaining} - 1` })
+      .where(and(eq(semenBatches.id, batch.id), sql`${semenBatches.strawsRemaining} > 0`));
+    if (!taken.affectedRows) throw new ReproductionError(`No straws left in batch ${batch.batchNumber}`);
+    semenBatchId = batch.id;
+    sireId = sireId ?? batch.sireAnimalId;
+    sireLabel = batch.sireName ? `${batch.sireName} (${batch.sireCode})` : batch.sireCode;
+  }
+
+  // Serving her again means the earlier service did not take
+  const previous = await pendingService(db, animal.id);
+  if (previous && isReturnToHeat(profile, toDate(previous.breedingDate), serviceDate)) {
+    await db.update(breedingRecords).set({ outcome: "unsuccessful" }).where(eq(breedingRecords.id, previous.id));
+    await settleChecks(db, previous.id, "cancelled");
+  }
+
+  const dueDate = expectedDueDate(profile, serviceDate);
+  const [header] = await db.insert(breedingRecords).values({
+    animalId: animal.id,
+    breedingDate: serviceDate,
+    sireId,
+    expectedDueDate: dueDate,
+    outcome: "pending",
+    kind: "service",
+    method: input.method,
+    semenBatchId,
+    technician: input.technician,
+    notes: input.notes,
+  });
+  const breedingRecordId = header.insertId;
+
+  const checkDate = pregnancyCheckDate(profile, serviceDate);
+  const tag = animal.tag ?? `#${animal.id}`;
+  const [task] = await db.insert(taskAssignments).values({
+    taskId: randomUUID(),
+    farmId: animal.farmId,
+    workerId: input.assignCheckTo ?? (await farmOwnerId(db, animal.farmId)),
+    title: `Pregnancy check: ${tag}`,
+    description: `${input.method === "ai" ? "Inseminated" : "Served"} ${serviceDate.toISOString().slice(0, 10)} by ${sireLabel}. ` +
+      `Confirm pregnancy; ${profile.birthTerm} expected ${dueDate.toISOString().slice(0, 10)} if pregnant.`,
+    taskType: "health_check",
+    priority: "medium",
+    dueDate: checkDate,
+    estimatedHours: "0.5",
+    notes: `Breeding record ${breedingRecordId}`,
+    createdBy: input.createdBy,
+  });
+  const [check] = await db.insert(pregnancyChecks).values({
+    farmId: animal.farmId,
+    animalId: animal.id,
+    breedingRecordId,
+    dueDate: checkDate,
+    taskId: task.insertId,
+  });
+
+  return {
+    breedingRecordId,
+    expectedDueDate: dueDate,
+    pregnancyCheck: { id: check.insertId, dueDate: checkDate, taskId: task.insertId },
+    nextHeatIfOpen: nextExpectedHeat(profile, serviceDate, serviceDate),
+  };
+}
+
+export interface PregnancyCheckInput {
+  farmId: number;
+  checkId: number;
+  result: "pregnant" | "open" | "inconclusive";
+  method: "palpation" | "ultrasound" | "blood_test" | "observation";
+  checkedAt: Date;
+  notes?: string;
+  checkedBy?: number;
+}
+
+/**
+ * Record the diagnosis. Pregnant settles the service as successful, open as
+ * unsuccessful; inconclusive leaves it pending and books a re-check two
+ * weeks later.
+ */
+export async function recordPregnancyCheck(input: PregnancyCheckInput) {
+  const db = await requireDb();
+  const [check] = await db
+    .select()
+    .from(pregnancyChecks)
+    .where(and(eq(pregnancyChecks.id, input.checkId), eq(pregnancyChecks.farmId, input.farmId)))
+    .limit(1);
+  if (!check) throw new ReproductionError("Pregnancy check not found on this farm");
+  if (check.result !== "pending") throw new ReproductionError(`This check is already ${check.result}`);
+
+  const checkedAt = dateOnly(input.checkedAt);
+  await db
+    .update(pregnancyChecks)
+    .set({ result: input.result, method: input.method, checkedAt, checkedBy: input.checkedBy, notes: input.notes })
+    .where(eq(pregnancyChecks.id, check.id));
+  if (check.taskId !== null) {
+    await db
+      .update(taskAssignments)
+      .set({ status: "completed", completedAt: new Date() })
+      .where(eq(taskAssignments.id, check.taskId));
+  }
+
+  let recheck: { id: number; dueDate: Date } | null = null;
+  if (input.result === "inconclusive") {
+    const dueDate = new Date(checkedAt.getTime() + 14 * DAY_MS);
+    const [header] = await db.insert(pregnancyChecks).values({
+      farmId: check.farmId,
+      animalId: check.animalId,
+      breedingRecordId: check.breedingRecordId,
+      dueDate,
+    });
+    recheck = { id: header.insertId, dueDate };
+  } else {
+    await db
+      .update(breedingRecords)
+      .set({ outcome: input.result === "pregnant" ? "successful" : "unsuccessful" })
+      .where(and(eq(breedingRecords.id, check.breedingRecordId), eq(breedingRecords.outcome, "pending")));
+  }
+  return { checkId: check.id, breedingRecordId: check.breedingRecordId, result: input.result, recheck };
+}
+
+async function requireService(db: Db, animalId: number, breedingRecordId: number) {
+  const [service] = await db
+    .select()
+    .from(breedingRecords)
+    .where(and(
+      eq(breedingRecords.id, breedingRecordId),
+      eq(breedingRecords.animalId, animalId),
+      eq(breedingRecords.kind, "service")
+    ))
+    .limit(1);
+  if (!service) throw new ReproductionError("Service not found for this animal");
+  return service;
+}
+
+/** A pregnancy lost before term */
+export async function recordPregnancyLoss(farmId: number, animalId: number, breedingRecordId: number, notes?: string) {
+  const db = await requireDb();
+  await requireBreedingFemale(db, farmId, animalId);
+  const service = await requireService(db, animalId, breedingRecordId);
+  if (service.outcome === "unsuccessful") throw new ReproductionError("This service did not result in a pregnancy");
+  await db
+    .update(breedingRecords)
+    .set({ outcome: "aborted", notes: notes ? [service.notes, notes].filter(Boolean).join("\n") : service.notes })
+    .where(eq(breedingRecords.id, service.id));
+  await settleChecks(db, service.id, "cancelled");
+  return { breedingRecordId: service.id };
+}
+
+export interface BirthInput {
+  farmId: number;
+  damId: number;
+  birthDate: Date;
+  /** The service that produced the birth; found automatically when left out */
+  breedingRecordId?: number;
+  offspring: Array<{
+    tagId?: string;
+    gender: "male" | "female" | "unknown";
+    breed?: string;
+    stillborn?: boolean;
+  }>;
+  ease?: "unassisted" | "assisted" | "difficult" | "caesarean";
+  /** Also open a lactation for the dam (dairy cows, goats and sheep) */
+  startLactation?: boolean;
+  notes?: string;
+}
+
+/**
+ * Record a calving, kidding, farrowing... Settles the service as
+ * successful, registers each offspring in animals under the dam's type
+ * with a parentage row naming sire and dam, and optionally opens the
+ * dam's lactation.
+ */
+export async function recordBirth(input: BirthInput) {
+  const db = await requireDb();
+  const { animal: dam, profile } = await requireBreedingFemale(db, input.farmId, input.damId);
+  if (!input.offspring.length) throw new ReproductionError("Record at least one offspring");
+  const birthDate = dateOnly(input.birthDate);
+
+  let service;
+  if (input.breedingRecordId !== undefined) {
+    service = await requireService(db, dam.id, input.breedingRecordId);
+  } else {
+    // Allow a tenth over the species' gestation for late births
+    const earliest = new Date(birthDate.getTime() - profile.gestationDays * 1.1 * DAY_MS);
+    [service] = await db
+      .select()
+      .from(breedingRecords)
+      .where(and(
+        eq(breedingRecords.animalId, dam.id),
+        eq(breedingRecords.kind, "service"),
+        inArray(breedingRecords.outcome, ["pending", "successful"]),
+        lte(breedingRecords.breedingDate, birthDate),
+        gte(breedingRecords.breedingDate, earliest)
+      ))
+      .orderBy(desc(breedingRecords.breedingDate))
+      .limit(1);
+  }
+
+  let lactation: Awaited<ReturnType<typeof recordCalving>> | null = null;
+  if (input.startLactation) {
+    lactation = await recordCalving({
+      farmId: dam.farmId,
+      animalId: dam.id,
+      calvingDate: birthDate,
+      breedingRecordId: service?.id,
+      calvingEase: input.ease,
+      notes: input.notes,
+    });
+  }
+  if (service) {
+    await db.update(breedingRecords).set({ outcome: "successful" }).where(eq(breedingRecords.id, service.id));
+    await settleChecks(db, service.id, "pregnant");
+  }
+
+  const offspring: Array<{ animalId: number; tag: string | null; gender: string; stillborn: boolean }> = [];
+  for (const young of input.offspring) {
+    const [header] = await db.insert(animals).values({
+      farmId: dam.farmId,
+      typeId: dam.typeId,
+      uniqueTagId: young.tagId?.trim() || null,
+      birthDate,
+      gender: young.gender,
+      breed: young.breed ?? dam.breed,
+      status: young.stillborn ? "deceased" : "active",
+    });
+    await db.insert(breedingRecords).values({
+      animalId: header.insertId,
+      kind: "parentage",
+      breedingDate: service ? toDate(service.breedingDate) : birthDate,
+      sireId: service?.sireId ?? null,
+      damId: dam.id,
+      expectedDueDate: service?.expectedDueDate ?? null,
+      outcome: "successful",
+      method: service?.method ?? null,
+      semenBatchId: service?.semenBatchId ?? null,
+      notes: [`Born ${birthDate.toISOString().slice(0, 10)} (${profile.birthTerm}${input.ease ? `, ${input.ease}` : ""})`, input.notes]
+        .filter(Boolean)
+        .join("\n"),
+    });
+    offspring.push({ animalId: header.insertId, tag: young.tagId?.trim() || null, gender: young.gender, stillborn: Boolean(young.stillborn) });
+  }
+
+  return {
+    damId: dam.id,
+    birthTerm: profile.birthTerm,
+    breedingRecordId: service?.id ?? null,
+    offspring,
+    lactationId: lactation?.lactationId ?? null,
+  };
+}
+
+interface FarmHistory {
+  females: Array<{ id: number; tag: string | null; profile: SpeciesProfile }>;
+  heats: Map<number, Date[]>;
+  services: ServiceEvent[];
+  births: BirthEvent[];
+}
+
+/** Active and past breeding females of the farm with their heats, services and births */
+async function loadFarmHistory(db: Db, farmId: number, animalId?: number): Promise<FarmHistory> {
+  const rows = await db
+    .select({ id: animals.id, tag: animals.uniqueTagId, typeName: animalTypes.typeName })
+    .from(animals)
+    .leftJoin(animalTypes, eq(animalTypes.id, animals.typeId))
+    .where(and(
+      eq(animals.farmId, farmId),
+      eq(animals.gender, "female"),
+      animalId !== undefined ? eq(animals.id, animalId) : undefined
+    ));
+  const females = rows.flatMap(row => {
+    const profile = speciesProfile(row.typeName);
+    return profile ? [{ id: row.id, tag: row.tag, profile }] : [];
+  });
+  const ids = females.map(female => female.id);
+  if (!ids.length) return { females, heats: new Map(), services: [], births: [] };
+
+  const heatRows = await db
+    .select({ animalId: heatObservations.animalId, observedAt: heatObservations.observedAt })
+    .from(heatObservations)
+    .where(inArray(heatObservations.animalId, ids));
+  const heats = new Map<number, Date[]>();
+  for (const row of heatRows) heats.set(row.animalId, [...(heats.get(row.animalId) ?? []), row.observedAt]);
+
+  const serviceRows = await db
+    .select({ id: breedingRecords.id, animalId: breedingRecords.animalId, breedingDate: breedingRecords.breedingDate, outcome: breedingRecords.outcome })
+    .from(breedingRecords)
+    .where(and(inArray(breedingRecords.animalId, ids), eq(breedingRecords.kind, "service")));
+  const services = serviceRows.map(row => ({
+    id: row.id,
+    animalId: row.animalId,
+    breedingDate: toDate(row.breedingDate),
+    outcome: row.outcome ?? "pending",
+  }));
+
+  // Births come from registered offspring and from calvings recorded through dairy; twins are one birth
+  const offspringRows = await db
+    .select({ damId: breedingRecords.damId, birthDate: animals.birthDate })
+    .from(breedingRecords)
+    .innerJoin(animals, eq(animals.id, breedingRecords.animalId))
+    .where(and(eq(breedingRecords.kind, "parentage"), inArray(breedingRecords.damId, ids), isNotNull(animals.birthDate)));
+  const calvingRows = await db
+    .select({ damId: lactations.animalId, birthDate: lactations.calvingDate })
+    .from(lactations)
+    .where(inArray(lactations.animalId, ids));
+  const seen = new Set<string>();
+  const births: BirthEvent[] = [];
+  for (const row of [...offspringRows, ...calvingRows]) {
+    if (row.damId === null || row.birthDate === null) continue;
+    const birthDate = dateOnly(toDate(row.birthDate));
+    const key = `${row.damId}:${birthDate.getTime()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    births.push({ animalId: row.damId, birthDate });
+  }
+  return { females, heats, services, births };
+}
+
+function statusFor(history: FarmHistory, female: FarmHistory["females"][number], now: Date) {
+  return reproductiveStatus(female.profile, {
+    heats: history.heats.get(female.id) ?? [],
+    services: history.services.filter(service => service.animalId === female.id),
+    births: history.births.filter(birth => birth.animalId === female.id).map(birth => birth.birthDate),
+  }, now);
+}
+
+/**
+ * Reproductive calendar: each female's state, and the expected heats,
+ * pregnancy checks and due dates falling in the next `days` days
+ */
+export async function getReproductiveCalendar(farmId: number, days = 30, now = new Date()) {
+  const db = await requireDb();
+  const history = await loadFarmHistory(db, farmId);
+  const until = new Date(now.getTime() + days * DAY_MS);
+
+  const checks = history.females.length
+    ? await db
+      .select({ id: pregnancyChecks.id, animalId: pregnancyChecks.animalId, dueDate: pregnancyChecks.dueDate, breedingRecordId: pregnancyChecks.breedingRecordId })
+      .from(pregnancyChecks)
+      .where(and(eq(pregnancyChecks.farmId, farmId), eq(pregnancyChecks.result, "pending"), lte(pregnancyChecks.dueDate, until)))
+    : [];
+
+  const females = history.females.map(female => ({
+    animalId: female.id,
+    tag: female.tag,
+    species: female.profile.species,
+    ...statusFor(history, female, now),
+  }));
+
+  const events: Array<{ date: Date; type: "heat" | "pregnancy_check" | "birth"; animalId: number; tag: string | null; overdue: boolean; checkId?: number }> = [];
+  for (const female of females) {
+    if (female.nextHeat && female.nextHeat <= until) {
+      events.push({ date: female.nextHeat, type: "heat", animalId: female.animalId, tag: female.tag, overdue: false });
+    }
+    if (female.state !== "open" && female.dueDate && female.dueDate <= until) {
+      events.push({ date: female.dueDate, type: "birth", animalId: female.animalId, tag: female.tag, overdue: female.dueDate < now });
+    }
+  }
+  const tags = new Map(females.map(female => [female.animalId, female.tag]));
+  for (const check of checks) {
+    const date = toDate(check.dueDate);
+    events.push({ date, type: "pregnancy_check", animalId: check.animalId, tag: tags.get(check.animalId) ?? null, overdue: date < dateOnly(now), checkId: check.id });
+  }
+  events.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const counts = { open: 0, served: 0, pregnant: 0, due: 0 };
+  for (const female of females) counts[female.state]++;
+  return { females, events, counts, windowDays: days };
+}
+
+/** One female's heats, services with their checks, births and current state */
+export async function getAnimalReproduction(farmId: number, animalId: number, now = new Date()) {
+  const db = await requireDb();
+  const { animal, profile } = await requireBreedingFemale(db, farmId, animalId);
+  const history = await loadFarmHistory(db, farmId, animalId);
+
+  const services = await db
+    .select()
+    .from(breedingRecords)
+    .where(and(eq(breedingRecords.animalId, animalId), eq(breedingRecords.kind, "service")))
+    .orderBy(desc(breedingRecords.breedingDate));
+  const checks = services.length
+    ? await db
+      .select()
+      .from(pregnancyChecks)
+      .where(inArray(pregnancyChecks.breedingRecordId, services.map(service => service.id)))
+      .orderBy(asc(pregnancyChecks.dueDate))
+    : [];
+  const heats = await db
+    .select()
+    .from(heatObservations)
+    .where(eq(heatObservations.animalId, animalId))
+    .orderBy(desc(heatObservations.observedAt));
+  const offspring = await db
+    .select({ animalId: animals.id, tag: animals.uniqueTagId, gender: animals.gender, birthDate: animals.birthDate, status: animals.status, sireId: breedingRecords.sireId })
+    .from(breedingRecords)
+    .innerJoin(animals, eq(animals.id, breedingRecords.animalId))
+    .where(and(eq(breedingRecords.kind, "parentage"), eq(breedingRecords.damId, animalId)))
+    .orderBy(desc(animals.birthDate));
+
+  const female = history.females[0];
+  return {
+    animalId,
+    tag: animal.tag,
+    species: profile.species,
+    status: female ? statusFor(history, female, now) : null,
+    kpis: reproductiveKpis(history.services, history.births),
+    heats,
+    services: services.map(service => ({ ...service, pregnancyChecks: checks.filter(check => check.breedingRecordId === service.id) })),
+    offspring,
+  };
+}
+
+/**
+ * Herd fertility: conception rate (overall and at first service), services
+ * per conception, calving interval and days open. With a period, services
+ * and births are those dated within it; intervals still look back to the
+ * previous birth.
+ */
+export async function getReproductiveKpis(farmId: number, period?: { from: Date; to: Date }) {
+  const db = await requireDb();
+  const history = await loadFarmHistory(db, farmId);
+  const inPeriod = (date: Date) => !period || (date >= period.from && date <= period.to);
+
+  const bySpecies = new Map<string, number[]>();
+  for (const female of history.females) {
+    bySpecies.set(female.profile.species, [...(bySpecies.get(female.profile.species) ?? []), female.id]);
+  }
+  const summarize = (ids: Set<number> | null) => {
+    const services = history.services.filter(service => (!ids || ids.has(service.animalId)) && inPeriod(service.breedingDate));
+    const allBirths = history.births.filter(birth => !ids || ids.has(birth.animalId));
+    const kpis = reproductiveKpis(services, allBirths);
+    return { ...kpis, births: allBirths.filter(birth => inPeriod(birth.birthDate)).length };
+  };
+
+  return {
+    period: period ?? null,
+    females: history.females.length,
+    overall: summarize(null),
+    bySpecies: [...bySpecies.entries()].map(([species, ids]) => ({ species, females: ids.length, ...summarize(new Set(ids)) })),
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  matchQuality,
+  queryTerms,
+  scoreDocuments,
+  spellingCorrections,
+  termWeights,
+  tokenize,
+  typoDistance,
+  type Posting,
+} from "./searchIndex";
+
+describe("tokenize", () => {
+  it("lower-cases, strips accents and drops stopwords", () => {
+    expect(tokenize("Maïze for the Dry Season")).toEqual(["maize", "dry", "season"]);
+  });
+
+  it("keeps codes findable both joined and in parts", () => {
+    expect(tokenize("TAG-0012")).toEqual(["tag0012", "tag", "0012"]);
+    expect(tokenize("INV/24/117")).toEqual(["inv24117", "inv", "24", "117"]);
+  });
+
+  it("dedupes query terms", () => {
+    expect(queryTerms("Maize maize seed")).toEqual(["maize", "seed"]);
+  });
+});
+
+describe("termWeights", () => {
+  it("weights title terms above body terms", () => {
+    const weights = termWeights({ title: "Broiler flock", subtitle: null, body: ["broiler feed"] });
+    expect(weights.get("broiler")).toBe(4);
+    expect(weights.get("flock")).toBe(3);
+    expect(weights.get("feed")).toBe(1);
+  });
+});
+
+describe("matchQuality", () => {
+  it("prefers exact over prefix over misspelling", () => {
+    expect(matchQuality("maize", "maize")).toBe(1);
+    expect(matchQuality("mai", "maize")).toBe(0.8);
+    expect(matchQuality("maiz", "maize")).toBe(0.8);
+    expect(matchQuality("miaze", "maize")).toBe(0.5);
+    expect(matchQuality("brioler", "broiler")).toBe(0.5);
+  });
+
+  it("never fuzzes short terms or numbers", () => {
+    expect(matchQuality("cow", "cat")).toBe(0);
+    expect(matchQuality("tag0013", "tag0012")).toBe(0);
+    expect(matchQuality("12", "13")).toBe(0);
+  });
+});
+
+describe("typoDistance", () => {
+  it("counts a swap of neighbouring letters as one edit", () => {
+    expect(typoDistance("miaze", "maize")).toBe(1);
+    expect(typoDistance("brioler", "broiler")).toBe(1);
+    expect(typoDistance("goat", "goats")).toBe(1);
+    expect(typoDistance("sheep", "sheep")).toBe(0);
+  });
+});
+
+describe("scoreDocuments", () => {
+  const postings: Posting[] = [
+    { documentId: 1, term: "maize", weight: 3 },
+    { documentId: 1, term: "north", weight: 1 },
+    { documentId: 2, term: "maize", weight: 1 },
+    { documentId: 3, term: "north", weight: 3 },
+  ];
+
+  it("requires every query term to match", () => {
+    const scores = scoreDocuments(["maize", "north"], postings);
+    expect([...scores.keys()]).toEqual([1]);
+  });
+
+  it("ranks title hits above body hits and exact above fuzzy", () => {
+    const scores = scoreDocuments(["maize"], postings);
+    expect(scores.get(1)).toBeGreaterThan(scores.get(2)!);
+    const fuzzy = scoreDocuments(["miaze"], postings);
+    expect(fuzzy.get(1)).toBeLessThan(scores.get(1)!);
+  });
+});
+
+describe("spellingCorrections", () => {
+  it("reports only terms that matched as misspellings", () => {
+    expect(spellingCorrections(["miaze", "nor"], ["maize", "north"])).toEqual({ miaze: "maize" });
+  });
+});
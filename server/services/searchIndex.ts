@@ -0,0 +1,169 @@
+/**
+ * Global search index
+ * Tokenising, term weighting and typo-tolerant matching for the inverted
+ * index kept in searchDocuments/searchTerms. No database access here, so
+ * the matching rules can be tested on their own.
+ *
+ * A query term matches an index term exactly, as a prefix ("mai" finds
+ * "maize") or as a close misspelling ("maiz", "brioler"). Short terms and
+ * numbers must match exactly or by prefix, so "12" never matches "13".
+ */
+
+export const SEARCH_ENTITY_TYPES = [
+  "animal",
+  "farm",
+  "field",
+  "crop_cycle",
+  "product",
+  "task",
+  "invoice",
+  "supplier",
+] as const;
+
+export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
+
+export interface IndexableDocument {
+  entityType: SearchEntityType;
+  entityId: number;
+  farmId: number | null;
+  visibility: "farm" | "public";
+  title: string;
+  subtitle?: string | null;
+  /** Searchable text that is not shown in results */
+  body?: (string | null | undefined)[];
+  path: string;
+  updatedAt?: Date | null;
+}
+
+export interface Posting {
+  documentId: number;
+  term: string;
+  weight: number;
+}
+
+const STOPWORDS = new Set(["a", "an", "and", "at", "by", "for", "in", "is", "of", "on", "or", "the", "to", "with"]);
+const MAX_TERM_LENGTH = 64;
+export const TITLE_WEIGHT = 3;
+const SUBTITLE_WEIGHT = 2;
+
+export function normalizeText(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Split text into index terms. Codes written with separators ("TAG-0012",
+ * "INV/24/117") also yield their joined form, so "tag0012" finds them too.
+ */
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const terms: string[] = [];
+  for (const chunk of normalizeText(text).split(/\s+/)) {
+    const parts = chunk.split(/[^a-z0-9]+/).filter(Boolean);
+    if (parts.length > 1) terms.push(parts.join(""));
+    terms.push(...parts);
+  }
+  return terms
+    .filter(term => term.length > 1 && !STOPWORDS.has(term))
+    .map(term => term.slice(0, MAX_TERM_LENGTH));
+}
+
+/** Distinct query terms, in the order typed */
+export function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query))].slice(0, 8);
+}
+
+/** Term -> weight for one document; title terms outweigh subtitle and body terms */
+export function termWeights(doc: Pick<IndexableDocument, "title" | "subtitle" | "body">): Map<string, number> {
+  const weights = new Map<string, number>();
+  const add = (text: string | null | undefined, weight: number) => {
+    for (const term of tokenize(text)) weights.set(term, (weights.get(term) ?? 0) + weight);
+  };
+  add(doc.title, TITLE_WEIGHT);
+  add(doc.subtitle, SUBTITLE_WEIGHT);
+  for (const text of doc.body ?? []) add(text, 1);
+  return weights;
+}
+
+/**
+ * Edit distance that counts swapping two neighbouring letters as one edit,
+ * the most common typing slip ("miaze" for "maize")
+ */
+export function typoDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/** Edits allowed when matching a query term as a misspelling */
+export function typoBudget(term: string): number {
+  if (term.length <= 3 || /\d/.test(term)) return 0;
+  return term.length <= 6 ? 1 : 2;
+}
+
+/** 1 for an exact match, 0.8 for a prefix, 0.5 for a close misspelling, 0 otherwise */
+export function matchQuality(queryTerm: string, indexTerm: string): number {
+  if (queryTerm === indexTerm) return 1;
+  if (indexTerm.startsWith(queryTerm)) return 0.8;
+  const budget = typoBudget(queryTerm);
+  if (!budget || Math.abs(queryTerm.length - indexTerm.length) > budget) return 0;
+  return typoDistance(queryTerm, indexTerm) <= budget ? 0.5 : 0;
+}
+
+/**
+ * Score documents against the query. A document must match every query
+ * term; its score (0-1) is the mean of the best match per term, with hits
+ * in the title counting for more than hits in the body.
+ */
+export function scoreDocuments(terms: string[], postings: Posting[]): Map<number, number> {
+  const best = new Map<number, number[]>();
+  for (const posting of postings) {
+    let scores = best.get(posting.documentId);
+    if (!scores) {
+      scores = terms.map(() => 0);
+      best.set(posting.documentId, scores);
+    }
+    terms.forEach((term, index) => {
+      const quality = matchQuality(term, posting.term);
+      if (!quality) return;
+      const weighted = quality * (0.7 + 0.3 * Math.min(1, posting.weight / TITLE_WEIGHT));
+      scores![index] = Math.max(scores![index], weighted);
+    });
+  }
+
+  const scored = new Map<number, number>();
+  for (const [documentId, scores] of best) {
+    if (scores.every(score => score > 0)) {
+      scored.set(documentId, scores.reduce((sum, score) => sum + score, 0) / scores.length);
+    }
+  }
+  return scored;
+}
+
+/**
+ * Query terms that only matched as misspellings, mapped to the closest index
+ * term, so the UI can say "showing results for maize".
+ */
+export function spellingCorrections(terms: string[], indexTerms: string[]): Record<string, string> {
+  const corrections: Record<string, string> = {};
+  for (const term of terms) {
+    if (indexTerms.some(candidate => matchQuality(term, candidate) >= 0.8)) continue;
+    let closest: { term: string; distance: number } | null = null;
+    for (const candidate of indexTerms) {
+      if (!matchQuality(term, candidate)) continue;
+      const distance = typoDistance(term, candidate);
+      if (!closest || distance < closest.distance) closest = { term: candidate, distance };
+    }
+    if (closest) corrections[term] = closest.term;
+  }
+  return corrections;
+}
@@ -0,0 +1,498 @@
+import { and, between, desc, eq, gte, inArray, isNotNull, like, max, or, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+import {
+  animals,
+  animalTypes,
+  cropCycles,
+  crops,
+  farms,
+  fertilizerInventory,
+  fields,
+  invoices,
+  marketplaceProducts,
+  searchDocuments,
+  searchTerms,
+  taskAssignments,
+  type User,
+} from "../../drizzle/schema";
+import { listAccessibleFarmIds } from "../_core/farmAccess";
+import { refreshTrendingSearches } from "../db/searchAnalytics";
+import { SearchRankingService } from "./searchRankingService";
+import {
+  matchQuality,
+  queryTerms,
+  scoreDocuments,
+  spellingCorrections,
+  termWeights,
+  typoBudget,
+  SEARCH_ENTITY_TYPES,
+  type IndexableDocument,
+  type SearchEntityType,
+} from "./searchIndex";
+
+/**
+ * Global search
+ * Keeps the inverted index (searchDocuments/searchTerms) in step with the
+ * records it covers and answers queries against it. A sweep every five
+ * minutes indexes rows changed since the newest indexed change; the nightly
+ * rebuild re-reads everything and drops documents whose record is gone.
+ *
+ * Queries only see documents of farms the user can view, plus public
+ * marketplace listings. Suppliers come from fertilizer inventory, the only
+ * place supplier names are stored. Forum posts are not indexed: the forum
+ * routers serve sample data and have no table yet.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  return db;
+}
+
+interface SearchSource {
+  /** Documents for rows changed since `since`, or for every row when null */
+  load(db: Db, since: Date | null): Promise<IndexableDocument[]>;
+  /** Ids of the rows that should still have a document */
+  ids(db: Db): Promise<number[]>;
+}
+
+const money = (amount: string | number | null) => `GHS ${Number(amount ?? 0).toFixed(2)}`;
+const day = (value: Date | string | null) => (value ? new Date(value).toISOString().slice(0, 10) : null);
+const describe = (...parts: (string | null | undefined)[]) => parts.filter(Boolean).join(" · ") || null;
+const pluckIds = (rows: { id: number }[]) => rows.map(row => row.id);
+
+const SOURCES: Record<SearchEntityType, SearchSource> = {
+  animal: {
+    load: async (db, since) => {
+      const rows = await db
+        .select({
+          id: animals.id,
+          farmId: animals.farmId,
+          tag: animals.uniqueTagId,
+          breed: animals.breed,
+          gender: animals.gender,
+          status: animals.status,
+          typeName: animalTypes.typeName,
+          updatedAt: animals.updatedAt,
+        })
+        .from(animals)
+        .leftJoin(animalTypes, eq(animalTypes.id, animals.typeId))
+        .where(since ? gte(animals.updatedAt, since) : undefined);
+      return rows.map(row => ({
+        entityType: "animal" as const,
+        entityId: row.id,
+        farmId: row.farmId,
+        visibility: "farm" as const,
+        title: row.tag ?? `Animal #${row.id}`,
+        subtitle: describe(row.breed, row.typeName, row.status),
+        body: [row.gender],
+        path: `/livestock-management?animal=${row.id}`,
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db => pluckIds(await db.select({ id: animals.id }).from(animals)),
+  },
+
+  farm: {
+    load: async (db, since) => {
+      const rows = await db.select().from(farms).where(since ? gte(farms.updatedAt, since) : undefined);
+      return rows.map(row => ({
+        entityType: "farm" as const,
+        entityId: row.id,
+        farmId: row.id,
+        visibility: "farm" as const,
+        title: row.farmName,
+        subtitle: describe(row.location, row.farmType ? `${row.farmType} farm` : null),
+        body: [row.description],
+        path: "/farms",
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db => pluckIds(await db.select({ id: farms.id }).from(farms)),
+  },
+
+  field: {
+    load: async (db, since) => {
+      const rows = await db.select().from(fields).where(since ? gte(fields.updatedAt, since) : undefined);
+      return rows.map(row => ({
+        entityType: "field" as const,
+        entityId: row.id,
+        farmId: row.farmId,
+        visibility: "farm" as const,
+        title: `${row.fieldName} (${row.fieldCode})`,
+        subtitle: describe(`${Number(row.areaHectares)} ha`, row.soilType, row.fieldStatus),
+        body: [row.description, row.waterSource],
+        path: `/crops?field=${row.id}`,
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db => pluckIds(await db.select({ id: fields.id }).from(fields)),
+  },
+
+  crop_cycle: {
+    load: async (db, since) => {
+      const rows = await db
+        .select({
+          id: cropCycles.id,
+          farmId: cropCycles.farmId,
+          variety: cropCycles.varietyName,
+          status: cropCycles.status,
+          plantingDate: cropCycles.plantingDate,
+          cropName: crops.cropName,
+          scientificName: crops.scientificName,
+          updatedAt: cropCycles.updatedAt,
+        })
+        .from(cropCycles)
+        .leftJoin(crops, eq(crops.id, cropCycles.cropId))
+        .where(since ? gte(cropCycles.updatedAt, since) : undefined);
+      return rows.map(row => ({
+        entityType: "crop_cycle" as const,
+        entityId: row.id,
+        farmId: row.farmId,
+        visibility: "farm" as const,
+        title: describe(row.cropName ?? "Crop", row.variety)!,
+        subtitle: describe(row.status, row.plantingDate ? `planted ${day(row.plantingDate)}` : null),
+        body: [row.scientificName],
+        path: `/crops?cycle=${row.id}`,
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db => pluckIds(await db.select({ id: cropCycles.id }).from(cropCycles)),
+  },
+
+  // Active listings are public; anything else stays visible to the seller's farm only
+  product: {
+    load: async (db, since) => {
+      const rows = await db
+        .select()
+        .from(marketplaceProducts)
+        .where(since ? gte(marketplaceProducts.updatedAt, since) : undefined);
+      return rows.map(row => ({
+        entityType: "product" as const,
+        entityId: row.id,
+        farmId: row.farmId,
+        visibility: row.status === "active" ? ("public" as const) : ("farm" as const),
+        title: row.name,
+        subtitle: describe(row.category, `${money(row.price)}/${row.unit}`),
+        body: [row.productType, row.description],
+        path: `/marketplace?product=${row.id}`,
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db => pluckIds(await db.select({ id: marketplaceProducts.id }).from(marketplaceProducts)),
+  },
+
+  task: {
+    load: async (db, since) => {
+      const rows = await db
+        .select()
+        .from(taskAssignments)
+        .where(since ? gte(taskAssignments.updatedAt, since) : undefined);
+      return rows.map(row => ({
+        entityType: "task" as const,
+        entityId: row.id,
+        farmId: row.farmId,
+        visibility: "farm" as const,
+        title: row.title,
+        subtitle: describe(row.taskType.replace(/_/g, " "), row.status.replace(/_/g, " "), `due ${day(row.dueDate)}`),
+        body: [`T${row.id}`, row.description, row.notes],
+        path: `/field-worker/tasks/${row.id}`,
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db => pluckIds(await db.select({ id: taskAssignments.id }).from(taskAssignments)),
+  },
+
+  invoice: {
+    load: async (db, since) => {
+      const rows = await db.select().from(invoices).where(since ? gte(invoices.updatedAt, since) : undefined);
+      return rows.map(row => ({
+        entityType: "invoice" as const,
+        entityId: row.id,
+        farmId: row.farmId,
+        visibility: "farm" as const,
+        title: row.invoiceNumber,
+        subtitle: describe(row.vendorOrBuyer, `${row.currency} ${Number(row.totalAmount).toFixed(2)}`, row.paymentStatus),
+        body: [row.invoiceType, row.notes],
+        path: `/farm-finance?invoice=${row.id}`,
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db => pluckIds(await db.select({ id: invoices.id }).from(invoices)),
+  },
+
+  supplier: {
+    load: async (db, since) => {
+      const rows = await db
+        .select()
+        .from(fertilizerInventory)
+        .where(and(isNotNull(fertilizerInventory.supplier), since ? gte(fertilizerInventory.updatedAt, since) : undefined));
+      return rows.map(row => ({
+        entityType: "supplier" as const,
+        entityId: row.id,
+        farmId: row.farmId,
+        visibility: "farm" as const,
+        title: row.supplier!,
+        subtitle: `Supplies ${row.fertilizerType}`,
+        body: [row.supplierContact],
+        path: "/fertilizer-tracking",
+        updatedAt: row.updatedAt,
+      }));
+    },
+    ids: async db =>
+      pluckIds(
+        await db
+          .select({ id: fertilizerInventory.id })
+          .from(fertilizerInventory)
+          .where(isNotNull(fertilizerInventory.supplier))
+      ),
+  },
+};
+
+async function writeDocument(db: Db, doc: IndexableDocument) {
+  const values = {
+    farmId: doc.farmId,
+    visibility: doc.visibility,
+    title: doc.title.slice(0, 255),
+    subtitle: doc.subtitle?.slice(0, 255) ?? null,
+    path: doc.path.slice(0, 255),
+    sourceUpdatedAt: doc.updatedAt ?? null,
+  };
+  await db.transaction(async tx => {
+    await tx
+      .insert(searchDocuments)
+      .values({ entityType: doc.entityType, entityId: doc.entityId, ...values })
+      .onDuplicateKeyUpdate({ set: values });
+    const [row] = await tx
+      .select({ id: searchDocuments.id })
+      .from(searchDocuments)
+      .where(and(eq(searchDocuments.entityType, doc.entityType), eq(searchDocuments.entityId, doc.entityId)))
+      .limit(1);
+
+    await tx.delete(searchTerms).where(eq(searchTerms.documentId, row.id));
+    const weights = [...termWeights(doc)];
+    if (weights.length) {
+      await tx.insert(searchTerms).values(weights.map(([term, weight]) => ({ term, documentId: row.id, weight })));
+    }
+  });
+}
+
+async function removeDocuments(db: Db, ids: number[]) {
+  if (!ids.length) return;
+  await db.transaction(async tx => {
+    await tx.delete(searchTerms).where(inArray(searchTerms.documentId, ids));
+    await tx.delete(searchDocuments).where(inArray(searchDocuments.id, ids));
+  });
+}
+
+/**
+ * Index records changed since the last sweep. With `full`, re-read every
+ * record and drop documents whose record no longer exists.
+ */
+export async function refreshSearchIndex(options: { full?: boolean; entityTypes?: SearchEntityType[] } = {}) {
+  const db = await requireDb();
+  const summary: Record<string, { indexed: number; removed: number }> = {};
+
+  for (const entityType of options.entityTypes ?? SEARCH_ENTITY_TYPES) {
+    const source = SOURCES[entityType];
+    let since: Date | null = null;
+    if (!options.full) {
+      const [latest] = await db
+        .select({ at: max(searchDocuments.sourceUpdatedAt) })
+        .from(searchDocuments)
+        .where(eq(searchDocuments.entityType, entityType));
+      since = latest?.at ?? null;
+    }
+
+    const docs = await source.load(db, since);
+    for (const doc of docs) await writeDocument(db, doc);
+
+    let removed = 0;
+    if (options.full) {
+      const live = new Set(await source.ids(db));
+      const indexed = await db
+        .select({ id: searchDocuments.id, entityId: searchDocuments.entityId })
+        .from(searchDocuments)
+        .where(eq(searchDocuments.entityType, entityType));
+      const stale = indexed.filter(doc => !live.has(doc.entityId)).map(doc => doc.id);
+      await removeDocuments(db, stale);
+      removed = stale.length;
+    }
+    summary[entityType] = { indexed: docs.length, removed };
+  }
+  return summary;
+}
+
+export interface SearchOptions {
+  limit: number;
+  entityTypes?: SearchEntityType[];
+  farmId?: number;
+}
+
+export interface SearchHit {
+  id: number;
+  name: string;
+  category: SearchEntityType;
+  subtitle: string | null;
+  path: string;
+  farmId: number | null;
+  relevanceScore: number;
+}
+
+const MAX_CANDIDATE_TERMS = 2000;
+const MAX_POSTINGS = 5000;
+const MAX_RANKED = 200;
+
+/**
+ * Search the index. Candidate index terms are those starting with a query
+ * term, plus terms of similar length sharing its first letter for
+ * misspellings; documents must match every query term and are then ranked
+ * by SearchRankingService.
+ */
+export async function searchIndex(
+  user: Pick<User, "id" | "role">,
+  query: string,
+  options: SearchOptions
+): Promise<{ results: SearchHit[]; corrections: Record<string, string> }> {
+  const terms = queryTerms(query);
+  if (!terms.length) return { results: [], corrections: {} };
+  const db = await requireDb();
+
+  const candidates = await db
+    .selectDistinct({ term: searchTerms.term })
+    .from(searchTerms)
+    .where(
+      or(
+        ...terms.map(term => {
+          const budget = typoBudget(term);
+          const prefix = like(searchTerms.term, `${term}%`);
+          if (!budget) return prefix;
+          return or(
+            prefix,
+            and(
+              like(searchTerms.term, `${term[0]}%`),
+              between(sql`char_length(${searchTerms.term})`, term.length - budget, term.length + budget)
+            )
+          );
+        })
+      )
+    )
+    .limit(MAX_CANDIDATE_TERMS);
+  const matched = candidates.map(row => row.term).filter(candidate => terms.some(term => matchQuality(term, candidate) > 0));
+  if (!matched.length) return { results: [], corrections: {} };
+
+  const visibleFarms = await listAccessibleFarmIds(user);
+  const visible =
+    visibleFarms === null
+      ? undefined
+      : or(
+          eq(searchDocuments.visibility, "public"),
+          visibleFarms.length ? inArray(searchDocuments.farmId, visibleFarms) : undefined
+        );
+  const postings = await db
+    .select({ documentId: searchTerms.documentId, term: searchTerms.term, weight: searchTerms.weight })
+    .from(searchTerms)
+    .innerJoin(searchDocuments, eq(searchDocuments.id, searchTerms.documentId))
+    .where(
+      and(
+        inArray(searchTerms.term, matched),
+        visible,
+        options.entityTypes?.length ? inArray(searchDocuments.entityType, options.entityTypes) : undefined,
+        options.farmId !== undefined ? eq(searchDocuments.farmId, options.farmId) : undefined
+      )
+    )
+    .limit(MAX_POSTINGS);
+
+  const scores = scoreDocuments(terms, postings);
+  const topIds = [...scores]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_RANKED)
+    .map(([documentId]) => documentId);
+  const docs = topIds.length ? await db.select().from(searchDocuments).where(inArray(searchDocuments.id, topIds)) : [];
+
+  const ranked = SearchRankingService.rankResults(
+    docs.map(doc => ({
+      id: doc.entityId,
+      name: doc.title,
+      category: doc.entityType as SearchEntityType,
+      subtitle: doc.subtitle,
+      path: doc.path,
+      farmId: doc.farmId,
+      updatedAt: doc.sourceUpdatedAt ?? doc.indexedAt,
+      clickCount: doc.clickCount,
+      matchScore: scores.get(doc.id),
+    })),
+    query
+  );
+
+  return {
+    results: ranked.slice(0, options.limit).map(result => ({
+      id: Number(result.id),
+      name: result.name,
+      category: result.category as SearchEntityType,
+      subtitle: result.subtitle,
+      path: result.path,
+      farmId: result.farmId,
+      relevanceScore: Math.round((result.relevanceScore ?? 0) * 10) / 10,
+    })),
+    corrections: spellingCorrections(terms, matched),
+  };
+}
+
+/** Titles starting with the typed text, for the search box dropdown */
+export async function autocompleteTitles(user: Pick<User, "id" | "role">, prefix: string, limit: number) {
+  const db = await requireDb();
+  const visibleFarms = await listAccessibleFarmIds(user);
+  const escaped = prefix.replace(/[\\%_]/g, match => `\\${match}`);
+  const rows = await db
+    .selectDistinct({ text: searchDocuments.title, category: searchDocuments.entityType })
+    .from(searchDocuments)
+    .where(
+      and(
+        like(searchDocuments.title, `${escaped}%`),
+        visibleFarms === null
+          ? undefined
+          : or(
+              eq(searchDocuments.visibility, "public"),
+              visibleFarms.length ? inArray(searchDocuments.farmId, visibleFarms) : undefined
+            )
+      )
+    )
+    .orderBy(desc(searchDocuments.clickCount))
+    .limit(limit);
+  return rows;
+}
+
+/** Count a click on a result; clicked documents rank higher next time */
+export async function recordDocumentClick(entityType: SearchEntityType, entityId: number) {
+  const db = await requireDb();
+  await db
+    .update(searchDocuments)
+    .set({ clickCount: sql`${searchDocuments.clickCount} + 1` })
+    .where(and(eq(searchDocuments.entityType, entityType), eq(searchDocuments.entityId, entityId)));
+}
+
+export function initializeSearchIndexScheduler() {
+  // The sweeps run again within minutes, so a failed one is not retried
+  registerJobHandler("search.refreshIndex", () => refreshSearchIndex(), { maxAttempts: 1 });
+  registerJobHandler("search.refreshTrending", () => refreshTrendingSearches(), { maxAttempts: 1 });
+  registerJobHandler("search.rebuildIndex", async () => {
+    const summary = await refreshSearchIndex({ full: true });
+    console.log("[SearchIndex] Nightly rebuild:", JSON.stringify(summary));
+    return summary;
+  });
+
+  defineCronJob("search-index-sweep", "*/5 * * * *", "search.refreshIndex").catch(error =>
+    console.error("[SearchIndex] Could not schedule the index sweep:", error)
+  );
+  defineCronJob("search-trending-refresh", "*/15 * * * *", "search.refreshTrending").catch(error =>
+    console.error("[SearchIndex] Could not schedule the trending refresh:", error)
+  );
+  defineCronJob("search-index-rebuild", "30 2 * * *", "search.rebuildIndex").catch(error =>
+    console.error("[SearchIndex] Could not schedule the nightly rebuild:", error)
+  );
+  console.log("[SearchIndex] Index sweep every 5 minutes, trending searches every 15 minutes, full rebuild nightly");
+}
@@ -6,7 +6,9 @@
 interface SearchResult {
   id: number | string;
   name: string;
-  category: "animal" | "farm" | "crop";
+  category: "animal" | "farm" | "crop" | "field" | "crop_cycle" | "product" | "task" | "invoice" | "supplier";
+  /** How well the text matched, 0-1, when the result comes from the search index */
+  matchScore?: number;
   createdAt?: Date;
   updatedAt?: Date;
   clickCount?: number;
@@ -60,6 +62,11 @@ export class SearchRankingService {
     const textMatchBonus = this.calculateTextMatchBonus(result.name, searchQuery);
     score += textMatchBonus;
 
+    // 6. Index match score (0-20 points), so typo and body matches rank below exact title hits
+    if (result.matchScore !== undefined) {
+      score += Math.min(1, Math.max(0, result.matchScore)) * 20;
+    }
+
     // Normalize to 0-100
     return Math.min(100, Math.max(0, score));
   }
@@ -121,10 +128,11 @@ export class SearchRankingService {
   private static calculateTypeRelevanceScore(result: SearchResult): number {
     // Animals are most relevant for most searches
     if (result.category === "animal") return 1.0;
-    // Farms are secondary
-    if (result.category === "farm") return 0.7;
-    // Crops are tertiary
-    if (result.category === "crop") return 0.5;
+    // Day-to-day farm records come next
+    if (result.category === "farm" || result.category === "field" || result.category === "task") return 0.7;
+    if (result.category === "crop_cycle" || result.category === "invoice") return 0.6;
+    // Crops and market listings are tertiary
+    if (result.category === "crop" || result.category === "product") return 0.5;
     return 0.3;
   }
 
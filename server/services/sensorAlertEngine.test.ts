@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeCondition,
+  evaluateReading,
+  evaluateStaleness,
+  toRuleLimits,
+  type AlertCondition,
+  type RuleLimits,
+} from "./sensorAlertEngine";
+import type { SensorAlertRule } from "../../drizzle/schema";
+
+const t0 = new Date("2026-05-01T06:00:00Z");
+const at = (minutes: number) => new Date(t0.getTime() + minutes * 60000);
+
+const limits = (overrides: Partial<RuleLimits> = {}): RuleLimits => ({
+  minValue: null,
+  maxValue: null,
+  maxRateOfChange: null,
+  staleAfterMinutes: null,
+  hysteresis: 0,
+  ...overrides,
+});
+
+function walk(rule: RuleLimits, values: number[], active = new Set<AlertCondition>()) {
+  const events: string[] = [];
+  let previous: { value: number; timestamp: Date } | null = null;
+  values.forEach((value, i) => {
+    const reading = { value, timestamp: at(i) };
+    const { trigger, resolve } = evaluateReading(rule, reading, previous, active);
+    resolve.forEach(c => events.push(`-${c}@${i}`));
+    trigger.forEach(c => events.push(`+${c}@${i}`));
+    previous = reading;
+  });
+  return events;
+}
+
+describe("evaluateReading", () => {
+  it("opens and closes threshold alerts", () => {
+    const rule = limits({ minValue: 20, maxValue: 40 });
+    expect(walk(rule, [30, 41, 45, 35, 19, 25])).toEqual([
+      "+threshold_high@1",
+      "-threshold_high@3",
+      "+threshold_low@4",
+      "-threshold_low@5",
+    ]);
+  });
+
+  it("applies hysteresis so values near the limit do not flap", () => {
+    const rule = limits({ maxValue: 40, hysteresis: 2 });
+    expect(walk(rule, [41, 39.5, 40.5, 39, 38, 41])).toEqual([
+      "+threshold_high@0",
+      "-threshold_high@4",
+      "+threshold_high@5",
+    ]);
+  });
+
+  it("does not re-raise conditions that are already open", () => {
+    const active = new Set<AlertCondition>(["threshold_high"]);
+    expect(walk(limits({ maxValue: 40 }), [50, 55], active)).toEqual([]);
+    expect(active.has("threshold_high")).toBe(true);
+  });
+
+  it("flags rate-of-change per minute", () => {
+    const rule = limits({ maxRateOfChange: 5 });
+    // One reading per minute: +2, +10, +1
+    expect(walk(rule, [30, 32, 42, 43])).toEqual(["+rate_of_change@2", "-rate_of_change@3"]);
+  });
+
+  it("ignores rate-of-change without a previous reading", () => {
+    const active = new Set<AlertCondition>();
+    const result = evaluateReading(limits({ maxRateOfChange: 1 }), { value: 100, timestamp: t0 }, null, active);
+    expect(result.trigger).toEqual([]);
+  });
+
+  it("resolves stale data on any new reading", () => {
+    const active = new Set<AlertCondition>(["stale_data"]);
+    const result = evaluateReading(limits({ staleAfterMinutes: 30 }), { value: 1, timestamp: t0 }, null, active);
+    expect(result.resolve).toEqual(["stale_data"]);
+    expect(active.size).toBe(0);
+  });
+});
+
+describe("evaluateStaleness", () => {
+  const rule = limits({ staleAfterMinutes: 30 });
+
+  it("raises when the sensor has been silent too long", () => {
+    const active = new Set<AlertCondition>();
+    expect(evaluateStaleness(rule, at(0), at(31), active).trigger).toEqual(["stale_data"]);
+    expect(evaluateStaleness(rule, at(0), at(45), active).trigger).toEqual([]);
+  });
+
+  it("raises for devices that never reported", () => {
+    expect(evaluateStaleness(rule, null, at(0), new Set()).trigger).toEqual(["stale_data"]);
+  });
+
+  it("clears once data is fresh again", () => {
+    const active = new Set<AlertCondition>(["stale_data"]);
+    expect(evaluateStaleness(rule, at(20), at(25), active).resolve).toEqual(["stale_data"]);
+  });
+
+  it("does nothing for rules without a staleness limit", () => {
+    expect(evaluateStaleness(limits(), null, at(1000), new Set())).toEqual({ trigger: [], resolve: [] });
+  });
+});
+
+describe("toRuleLimits", () => {
+  it("parses decimal columns", () => {
+    const rule = {
+      id: 1,
+      name: "Tank temperature",
+      readingType: "temperature",
+      minValue: null,
+      maxValue: "32.5000",
+      maxRateOfChange: "0.5000",
+      staleAfterMinutes: 15,
+      hysteresis: "1.0000",
+    } as SensorAlertRule;
+
+    const parsed = toRuleLimits(rule);
+    expect(parsed).toEqual({ minValue: null, maxValue: 32.5, maxRateOfChange: 0.5, staleAfterMinutes: 15, hysteresis: 1 });
+    expect(describeCondition(rule, parsed, "threshold_high", 34)).toContain("above the maximum of 32.5");
+  });
+});
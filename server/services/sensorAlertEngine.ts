@@ -0,0 +1,390 @@
+import { and, desc, eq, inArray, isNull, lt, or, sql } from "drizzle-orm";
+import { alerts, farms, iotDevices, sensorAlertRules, sensorReadings } from "../../drizzle/schema";
+import type { IotDevice, SensorAlertRule } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+import { broadcastToFarm } from "../_core/websocket";
+import { createIoTSensorAlert } from "../notificationService";
+import { emitWorkflowEvent } from "./workflowRunner";
+
+/**
+ * Sensor alert rule engine
+ * Turns incoming sensorReadings into alerts using per-device or
+ * per-readingType rules (min/max thresholds, rate-of-change limits and
+ * "no data for N minutes" checks). Threshold alerts use hysteresis so a
+ * value hovering around a limit does not open and close alerts repeatedly,
+ * and alerts resolve themselves once readings come back into range.
+ */
+
+export type AlertCondition = "threshold_high" | "threshold_low" | "rate_of_change" | "stale_data";
+
+export interface RuleLimits {
+  minValue: number | null;
+  maxValue: number | null;
+  maxRateOfChange: number | null; // absolute change per minute
+  staleAfterMinutes: number | null;
+  hysteresis: number;
+}
+
+export interface ReadingPoint {
+  value: number;
+  timestamp: Date;
+}
+
+export interface Evaluation {
+  trigger: AlertCondition[];
+  resolve: AlertCondition[];
+}
+
+export function toRuleLimits(rule: SensorAlertRule): RuleLimits {
+  const num = (value: string | null) => (value === null ? null : parseFloat(value));
+  return {
+    minValue: num(rule.minValue),
+    maxValue: num(rule.maxValue),
+    maxRateOfChange: num(rule.maxRateOfChange),
+    staleAfterMinutes: rule.staleAfterMinutes,
+    hysteresis: Math.abs(parseFloat(rule.hysteresis ?? "0")) || 0,
+  };
+}
+
+/**
+ * Evaluate one reading against a rule given the conditions already open.
+ * Mutates `active` so a batch of readings can be walked in order.
+ */
+export function evaluateReading(
+  limits: RuleLimits,
+  reading: ReadingPoint,
+  previous: ReadingPoint | null,
+  active: Set<AlertCondition>
+): Evaluation {
+  const result: Evaluation = { trigger: [], resolve: [] };
+  const open = (condition: AlertCondition) => {
+    if (!active.has(condition)) {
+      active.add(condition);
+      result.trigger.push(condition);
+    }
+  };
+  const close = (condition: AlertCondition) => {
+    if (active.delete(condition)) result.resolve.push(condition);
+  };
+
+  // Any reading proves the sensor is reporting again
+  close("stale_data");
+
+  if (limits.maxValue !== null) {
+    if (reading.value > limits.maxValue) open("threshold_high");
+    else if (reading.value <= limits.maxValue - limits.hysteresis) close("threshold_high");
+  }
+
+  if (limits.minValue !== null) {
+    if (reading.value < limits.minValue) open("threshold_low");
+    else if (reading.value >= limits.minValue + limits.hysteresis) close("threshold_low");
+  }
+
+  if (limits.maxRateOfChange !== null && previous) {
+    const minutes = (reading.timestamp.getTime() - previous.timestamp.getTime()) / 60000;
+    if (minutes > 0) {
+      const rate = Math.abs(reading.value - previous.value) / minutes;
+      if (rate > limits.maxRateOfChange) open("rate_of_change");
+      else close("rate_of_change");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Decide whether a sensor has gone quiet. `lastReadingAt` is null when the
+ * device has never reported the rule's reading type.
+ */
+export function evaluateStaleness(
+  limits: RuleLimits,
+  lastReadingAt: Date | null,
+  now: Date,
+  active: Set<AlertCondition>
+): Evaluation {
+  const result: Evaluation = { trigger: [], resolve: [] };
+  if (limits.staleAfterMinutes === null || limits.staleAfterMinutes <= 0) return result;
+
+  const silentMs = lastReadingAt ? now.getTime() - lastReadingAt.getTime() : Infinity;
+  if (silentMs > limits.staleAfterMinutes * 60000) {
+    if (!active.has("stale_data")) {
+      active.add("stale_data");
+      result.trigger.push("stale_data");
+    }
+  } else if (active.delete("stale_data")) {
+    result.resolve.push("stale_data");
+  }
+  return result;
+}
+
+export function describeCondition(
+  rule: Pick<SensorAlertRule, "name" | "readingType">,
+  limits: RuleLimits,
+  condition: AlertCondition,
+  value: number | null
+): string {
+  switch (condition) {
+    case "threshold_high":
+      return `${rule.name}: ${rule.readingType} ${value} is above the maximum of ${limits.maxValue}`;
+    case "threshold_low":
+      return `${rule.name}: ${rule.readingType} ${value} is below the minimum of ${limits.minValue}`;
+    case "rate_of_change":
+      return `${rule.name}: ${rule.readingType} changed faster than ${limits.maxRateOfChange} per minute (now ${value})`;
+    case "stale_data":
+      return `${rule.name}: no ${rule.readingType} data for more than ${limits.staleAfterMinutes} minutes`;
+  }
+}
+
+const NOTIFICATION_PRIORITY = {
+  info: "low",
+  warning: "medium",
+  critical: "critical",
+} as const;
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function loadOpenConditions(db: Db, ruleId: number, deviceId: number) {
+  const rows = await db
+    .select()
+    .from(alerts)
+    .where(and(eq(alerts.ruleId, ruleId), eq(alerts.deviceId, deviceId), eq(alerts.isResolved, false)));
+  return new Map(rows.map(row => [row.alertType as AlertCondition, row]));
+}
+
+async function openAlert(
+  db: Db,
+  rule: SensorAlertRule,
+  device: Pick<IotDevice, "id" | "farmId" | "deviceSerial">,
+  condition: AlertCondition,
+  value: number | null
+) {
+  const limits = toRuleLimits(rule);
+  const message = describeCondition(rule, limits, condition, value);
+
+  const [inserted] = await db.insert(alerts).values({
+    deviceId: device.id,
+    farmId: device.farmId,
+    alertType: condition,
+    message,
+    severity: rule.severity,
+    ruleId: rule.id,
+    readingType: rule.readingType,
+    triggerValue: value === null ? null : value.toString(),
+  });
+
+  broadcastToFarm(device.farmId, {
+    type: "sensor_alert",
+    data: { ruleId: rule.id, deviceId: device.id, condition, severity: rule.severity, message, timestamp: new Date().toISOString() },
+  });
+
+  try {
+    const [farm] = await db.select().from(farms).where(eq(farms.id, device.farmId)).limit(1);
+    if (farm) {
+      await createIoTSensorAlert(
+        farm.farmerUserId,
+        device.id,
+        `${device.deviceSerial} (${rule.readingType})`,
+        message,
+        NOTIFICATION_PRIORITY[rule.severity]
+      );
+    }
+  } catch (error) {
+    console.error("[SensorAlertEngine] Failed to send notification:", error);
+  }
+
+  // Automations run in the background so ingestion is not held up by SMS or webhooks
+  void emitWorkflowEvent(
+    device.farmId,
+    "sensor_alert",
+    {
+      alertId: inserted.insertId,
+      deviceId: device.id,
+      deviceName: device.deviceSerial,
+      readingType: rule.readingType,
+      condition,
+      severity: rule.severity,
+      value,
+      message,
+    },
+    `sensor_alert:${inserted.insertId}`
+  );
+}
+
+async function resolveAlerts(db: Db, alertIds: number[], farmId: number, deviceId: number) {
+  if (alertIds.length === 0) return;
+  await db
+    .update(alerts)
+    .set({ isResolved: true, resolvedAt: new Date() })
+    .where(inArray(alerts.id, alertIds));
+  broadcastToFarm(farmId, {
+    type: "sensor_alert_resolved",
+    data: { alertIds, deviceId, timestamp: new Date().toISOString() },
+  });
+}
+
+/**
+ * Run the farm's rules over readings that were just stored for a device.
+ */
+export async function processReadings(
+  device: Pick<IotDevice, "id" | "farmId" | "deviceSerial">,
+  readings: { readingType: string; value: number; timestamp: Date }[]
+): Promise<{ triggered: number; resolved: number }> {
+  const stats = { triggered: 0, resolved: 0 };
+  if (readings.length === 0) return stats;
+
+  const db = await getDb();
+  if (!db) return stats;
+
+  const readingTypes = Array.from(new Set(readings.map(r => r.readingType)));
+  const rules = await db
+    .select()
+    .from(sensorAlertRules)
+    .where(and(
+      eq(sensorAlertRules.farmId, device.farmId),
+      eq(sensorAlertRules.isActive, true),
+      inArray(sensorAlertRules.readingType, readingTypes),
+      or(eq(sensorAlertRules.deviceId, device.id), isNull(sensorAlertRules.deviceId))
+    ));
+
+  for (const rule of rules) {
+    const series = readings
+      .filter(r => r.readingType === rule.readingType)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (series.length === 0) continue;
+
+    const limits = toRuleLimits(rule);
+    const openAlerts = await loadOpenConditions(db, rule.id, device.id);
+    const active = new Set(openAlerts.keys());
+
+    let previous: ReadingPoint | null = null;
+    if (limits.maxRateOfChange !== null) {
+      const [before] = await db
+        .select()
+        .from(sensorReadings)
+        .where(and(
+          eq(sensorReadings.deviceId, device.id),
+          eq(sensorReadings.readingType, rule.readingType),
+          lt(sensorReadings.readingTimestamp, series[0].timestamp)
+        ))
+        .orderBy(desc(sensorReadings.readingTimestamp))
+        .limit(1);
+      if (before) previous = { value: parseFloat(before.value), timestamp: new Date(before.readingTimestamp) };
+    }
+
+    for (const reading of series) {
+      const { trigger, resolve } = evaluateReading(limits, reading, previous, active);
+      previous = reading;
+
+      const toResolve = resolve.map(c => openAlerts.get(c)?.id).filter((id): id is number => id !== undefined);
+      await resolveAlerts(db, toResolve, device.farmId, device.id);
+      resolve.forEach(c => openAlerts.delete(c));
+      stats.resolved += toResolve.length;
+
+      for (const condition of trigger) {
+        await openAlert(db, rule, device, condition, reading.value);
+        stats.triggered++;
+      }
+      if (trigger.length > 0) {
+        // Pick up the new rows so a later reading in the batch can resolve them
+        for (const [condition, row] of await loadOpenConditions(db, rule.id, device.id)) {
+          openAlerts.set(condition, row);
+        }
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Raise or clear "no data" alerts for every active rule with a staleness limit.
+ */
+export async function scanStaleSensors(now: Date = new Date()): Promise<{ triggered: number; resolved: number }> {
+  const stats = { triggered: 0, resolved: 0 };
+  const db = await getDb();
+  if (!db) return stats;
+
+  const rules = await db
+    .select()
+    .from(sensorAlertRules)
+    .where(and(eq(sensorAlertRules.isActive, true), sql`${sensorAlertRules.staleAfterMinutes} > 0`));
+
+  for (const rule of rules) {
+    const devices = await db
+      .select()
+      .from(iotDevices)
+      .where(and(
+        eq(iotDevices.farmId, rule.farmId),
+        eq(iotDevices.status, "active"),
+        rule.deviceId === null ? undefined : eq(iotDevices.id, rule.deviceId)
+      ));
+    if (devices.length === 0) continue;
+
+    const latest = await db
+      .select({
+        deviceId: sensorReadings.deviceId,
+        lastReadingAt: sql<string>`max(${sensorReadings.readingTimestamp})`,
+      })
+      .from(sensorReadings)
+      .where(and(
+        inArray(sensorReadings.deviceId, devices.map(d => d.id)),
+        eq(sensorReadings.readingType, rule.readingType)
+      ))
+      .groupBy(sensorReadings.deviceId);
+    const lastByDevice = new Map(latest.map(row => [row.deviceId, new Date(row.lastReadingAt)]));
+
+    const limits = toRuleLimits(rule);
+    for (const device of devices) {
+      // Farm-wide rules only watch devices that have reported this type before
+      if (rule.deviceId === null && !lastByDevice.has(device.id)) continue;
+
+      const openAlerts = await loadOpenConditions(db, rule.id, device.id);
+      const { trigger, resolve } = evaluateStaleness(
+        limits,
+        lastByDevice.get(device.id) ?? null,
+        now,
+        new Set(openAlerts.keys())
+      );
+
+      if (resolve.length > 0) {
+        await resolveAlerts(db, [openAlerts.get("stale_data")!.id], device.farmId, device.id);
+        stats.resolved++;
+      }
+      if (trigger.length > 0) {
+        await openAlert(db, rule, device, "stale_data", null);
+        stats.triggered++;
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Initialize the staleness scan. Threshold and rate-of-change rules are
+ * evaluated inline as readings arrive; only "no data" needs a clock.
+ */
+export function initializeSensorAlertScheduler() {
+  // A failed scan is not retried; the next one five minutes later covers it
+  registerJobHandler(
+    "sensorAlerts.scanStale",
+    async () => {
+      const { triggered, resolved } = await scanStaleSensors();
+      if (triggered || resolved) {
+        console.log(`[SensorAlertEngine] Stale scan: ${triggered} raised, ${resolved} resolved`);
+      }
+      return { triggered, resolved };
+    },
+    { maxAttempts: 1 }
+  );
+  defineCronJob("sensor-stale-scan", "*/5 * * * *", "sensorAlerts.scanStale").catch(error =>
+    console.error("[SensorAlertEngine] Could not schedule the staleness scan:", error)
+  );
+
+  console.log("[SensorAlertEngine] Staleness scan scheduled every 5 minutes");
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  bucketStart,
+  chooseResolution,
+  mergeRollups,
+  summarizeReadings,
+  RAW_RETENTION_DAYS,
+} from "./sensorRollupService";
+
+const now = new Date("2026-05-10T12:00:00Z");
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 3600000);
+const at = (iso: string) => new Date(iso);
+
+describe("bucketStart", () => {
+  it("truncates to UTC hour and day boundaries", () => {
+    expect(bucketStart(at("2026-05-10T12:34:56Z"), "hour")).toEqual(at("2026-05-10T12:00:00Z"));
+    expect(bucketStart(at("2026-05-10T23:59:59Z"), "day")).toEqual(at("2026-05-10T00:00:00Z"));
+  });
+});
+
+describe("chooseResolution", () => {
+  it("uses raw rows for short recent windows", () => {
+    expect(chooseResolution(hoursAgo(24), now, now)).toBe("raw");
+  });
+
+  it("falls back to hourly and daily rollups as the window grows", () => {
+    expect(chooseResolution(hoursAgo(24 * 7), now, now)).toBe("hour");
+    expect(chooseResolution(hoursAgo(24 * 365), now, now)).toBe("day");
+  });
+
+  it("never picks raw data that may have been pruned", () => {
+    const from = hoursAgo(24 * (RAW_RETENTION_DAYS + 5));
+    expect(chooseResolution(from, new Date(from.getTime() + 3600000), now)).toBe("hour");
+  });
+});
+
+describe("summarizeReadings", () => {
+  it("computes min, max, avg, count and last value per bucket", () => {
+    const points = summarizeReadings(
+      [
+        { value: 30, timestamp: at("2026-05-10T10:45:00Z"), unit: "%" },
+        { value: 10, timestamp: at("2026-05-10T10:05:00Z"), unit: "%" },
+        { value: 20, timestamp: at("2026-05-10T10:30:00Z"), unit: "%" },
+        { value: 50, timestamp: at("2026-05-10T11:00:00Z"), unit: "%" },
+      ],
+      "hour"
+    );
+
+    expect(points).toHaveLength(2);
+    expect(points[0]).toMatchObject({
+      bucketStart: at("2026-05-10T10:00:00Z"),
+      min: 10,
+      max: 30,
+      avg: 20,
+      count: 3,
+      last: 30,
+      lastAt: at("2026-05-10T10:45:00Z"),
+      unit: "%",
+    });
+    expect(points[1]).toMatchObject({ bucketStart: at("2026-05-10T11:00:00Z"), count: 1, last: 50 });
+  });
+
+  it("skips non-numeric values", () => {
+    expect(summarizeReadings([{ value: NaN, timestamp: now }], "hour")).toEqual([]);
+  });
+});
+
+describe("mergeRollups", () => {
+  it("weights averages by reading count when merging hours into days", () => {
+    const hours = summarizeReadings(
+      [
+        { value: 10, timestamp: at("2026-05-10T01:00:00Z") },
+        { value: 20, timestamp: at("2026-05-10T01:30:00Z") },
+        { value: 30, timestamp: at("2026-05-10T01:45:00Z") },
+        { value: 60, timestamp: at("2026-05-10T05:00:00Z") },
+        { value: 5, timestamp: at("2026-05-11T00:10:00Z") },
+      ],
+      "hour"
+    );
+
+    const days = mergeRollups(hours, "day");
+    expect(days).toHaveLength(2);
+    expect(days[0]).toMatchObject({
+      bucketStart: at("2026-05-10T00:00:00Z"),
+      min: 10,
+      max: 60,
+      avg: 30,
+      count: 4,
+      last: 60,
+    });
+    expect(days[1]).toMatchObject({ bucketStart: at("2026-05-11T00:00:00Z"), avg: 5, count: 1 });
+  });
+
+  it("matches summarising the raw readings directly", () => {
+    const raw = Array.from({ length: 48 }, (_, i) => ({
+      value: Math.sin(i) * 10 + 20,
+      timestamp: new Date(at("2026-05-10T00:00:00Z").getTime() + i * 30 * 60000),
+    }));
+
+    const merged = mergeRollups(summarizeReadings(raw, "hour"), "day");
+    const direct = summarizeReadings(raw, "day");
+    expect(merged).toHaveLength(1);
+    expect(merged[0].avg).toBeCloseTo(direct[0].avg, 9);
+    expect(merged[0]).toMatchObject({ min: direct[0].min, max: direct[0].max, count: 48, last: direct[0].last });
+  });
+});
@@ -0,0 +1,431 @@
+import { and, asc, eq, gt, gte, lt, lte, max, min, sql } from "drizzle-orm";
+import { sensorReadings, sensorReadingsDaily, sensorReadingsHourly } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+
+/**
+ * Sensor history rollups
+ * Summarises raw sensorReadings into hourly and daily buckets (min, max,
+ * avg, count and last value) so long time windows can be charted without
+ * pulling every raw row. The job tracks the highest raw id it has seen and
+ * only recomputes buckets touched by newer rows, which also picks up late
+ * or backfilled readings. Raw rows older than the retention window are
+ * pruned once their hours have been rolled up.
+ */
+
+export type Resolution = "raw" | "hour" | "day";
+
+export interface RawPoint {
+  value: number;
+  timestamp: Date;
+  unit?: string | null;
+}
+
+export interface RollupPoint {
+  bucketStart: Date;
+  min: number;
+  max: number;
+  avg: number;
+  count: number;
+  last: number;
+  lastAt: Date;
+  unit: string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Windows up to this size are served from raw rows, then from hourly rollups
+const RAW_WINDOW_MS = 2 * DAY_MS;
+const HOURLY_WINDOW_MS = 90 * DAY_MS;
+
+export const RAW_RETENTION_DAYS = parseInt(process.env.SENSOR_RAW_RETENTION_DAYS || "30", 10);
+export const HOURLY_RETENTION_DAYS = parseInt(process.env.SENSOR_HOURLY_RETENTION_DAYS || "400", 10);
+
+const PRUNE_BATCH_SIZE = 10000;
+
+export function bucketStart(date: Date, resolution: "hour" | "day"): Date {
+  const size = resolution === "hour" ? HOUR_MS : DAY_MS;
+  return new Date(Math.floor(date.getTime() / size) * size);
+}
+
+/**
+ * Pick the coarsest resolution that still gives a useful number of points
+ * for the window. Raw data is never chosen once it may have been pruned.
+ */
+export function chooseResolution(from: Date, to: Date, now: Date = new Date()): Resolution {
+  const span = to.getTime() - from.getTime();
+  const rawAvailableFrom = now.getTime() - RAW_RETENTION_DAYS * DAY_MS;
+  if (span <= RAW_WINDOW_MS && from.getTime() >= rawAvailableFrom) return "raw";
+  if (span <= HOURLY_WINDOW_MS) return "hour";
+  return "day";
+}
+
+/** Group raw readings into buckets. Input does not need to be sorted. */
+export function summarizeReadings(readings: RawPoint[], resolution: "hour" | "day"): RollupPoint[] {
+  const buckets = new Map<number, RollupPoint>();
+
+  for (const reading of readings) {
+    if (!Number.isFinite(reading.value)) continue;
+    const start = bucketStart(reading.timestamp, resolution);
+    const existing = buckets.get(start.getTime());
+    if (!existing) {
+      buckets.set(start.getTime(), {
+        bucketStart: start,
+        min: reading.value,
+        max: reading.value,
+        avg: reading.value,
+        count: 1,
+        last: reading.value,
+        lastAt: reading.timestamp,
+        unit: reading.unit ?? null,
+      });
+      continue;
+    }
+
+    existing.min = Math.min(existing.min, reading.value);
+    existing.max = Math.max(existing.max, reading.value);
+    existing.avg += (reading.value - existing.avg) / (existing.count + 1);
+    existing.count += 1;
+    if (reading.timestamp.getTime() >= existing.lastAt.getTime()) {
+      existing.last = reading.value;
+      existing.lastAt = reading.timestamp;
+      existing.unit = reading.unit ?? existing.unit;
+    }
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+}
+
+/** Merge finer rollups (e.g. hours) into coarser buckets (e.g. days). */
+export function mergeRollups(points: RollupPoint[], resolution: "hour" | "day"): RollupPoint[] {
+  const buckets = new Map<number, RollupPoint>();
+
+  for (const point of points) {
+    if (point.count <= 0) continue;
+    const start = bucketStart(point.bucketStart, resolution);
+    const existing = buckets.get(start.getTime());
+    if (!existing) {
+      buckets.set(start.getTime(), { ...point, bucketStart: start });
+      continue;
+    }
+
+    const count = existing.count + point.count;
+    existing.avg = (existing.avg * existing.count + point.avg * point.count) / count;
+    existing.count = count;
+    existing.min = Math.min(existing.min, point.min);
+    existing.max = Math.max(existing.max, point.max);
+    if (point.lastAt.getTime() >= existing.lastAt.getTime()) {
+      existing.last = point.last;
+      existing.lastAt = point.lastAt;
+      existing.unit = point.unit ?? existing.unit;
+    }
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+}
+
+type RollupRow = typeof sensorReadingsHourly.$inferSelect;
+
+function fromRow(row: RollupRow): RollupPoint {
+  return {
+    bucketStart: row.bucketStart,
+    min: parseFloat(row.minValue),
+    max: parseFloat(row.maxValue),
+    avg: parseFloat(row.avgValue),
+    count: row.readingCount,
+    last: parseFloat(row.lastValue),
+    lastAt: row.lastReadingAt,
+    unit: row.unit,
+  };
+}
+
+function toRow(deviceId: number, readingType: string, point: RollupPoint) {
+  return {
+    deviceId,
+    readingType,
+    bucketStart: point.bucketStart,
+    minValue: point.min.toString(),
+    maxValue: point.max.toString(),
+    avgValue: point.avg.toFixed(4),
+    readingCount: point.count,
+    lastValue: point.last.toString(),
+    lastReadingAt: point.lastAt,
+    unit: point.unit,
+  };
+}
+
+const upsertColumns = {
+  minValue: sql`values(minValue)`,
+  maxValue: sql`values(maxValue)`,
+  avgValue: sql`values(avgValue)`,
+  readingCount: sql`values(readingCount)`,
+  lastValue: sql`values(lastValue)`,
+  lastReadingAt: sql`values(lastReadingAt)`,
+  unit: sql`values(unit)`,
+};
+
+// Highest sensorReadings.id already folded into the rollups. Recovered on
+// the first run after a restart from the newest hourly bucket.
+let rolledUpToId: number | null = null;
+
+async function initialWatermark(db: NonNullable<Awaited<ReturnType<typeof getDb>>>): Promise<number> {
+  const [latest] = await db.select({ updatedAt: max(sensorReadingsHourly.updatedAt) }).from(sensorReadingsHourly);
+  if (!latest?.updatedAt) return 0;
+
+  // Re-process anything stored since shortly before the last rollup ran
+  const since = new Date(latest.updatedAt.getTime() - HOUR_MS);
+  const [first] = await db
+    .select({ id: min(sensorReadings.id) })
+    .from(sensorReadings)
+    .where(gte(sensorReadings.createdAt, since));
+  if (first?.id) return first.id - 1;
+
+  const [last] = await db.select({ id: max(sensorReadings.id) }).from(sensorReadings);
+  return last?.id ?? 0;
+}
+
+/**
+ * Recompute the hourly and daily buckets touched by raw readings stored
+ * since the previous run.
+ */
+export async function rollupSensorReadings(): Promise<{ hourly: number; daily: number }> {
+  const db = await getDb();
+  if (!db) return { hourly: 0, daily: 0 };
+
+  const fromId = rolledUpToId ?? (await initialWatermark(db));
+
+  const touched = await db
+    .select({
+      deviceId: sensorReadings.deviceId,
+      readingType: sensorReadings.readingType,
+      firstAt: min(sensorReadings.readingTimestamp),
+      lastAt: max(sensorReadings.readingTimestamp),
+      maxId: max(sensorReadings.id),
+    })
+    .from(sensorReadings)
+    .where(gt(sensorReadings.id, fromId))
+    .groupBy(sensorReadings.deviceId, sensorReadings.readingType);
+
+  let hourly = 0;
+  let daily = 0;
+  let toId = fromId;
+
+  for (const series of touched) {
+    if (!series.firstAt || !series.lastAt || !series.maxId) continue;
+    toId = Math.max(toId, series.maxId);
+
+    // Whole days are recomputed so the daily rows can be rebuilt from hours
+    const dayFrom = bucketStart(series.firstAt, "day");
+    const dayTo = new Date(bucketStart(series.lastAt, "day").getTime() + DAY_MS);
+
+    const raw = await db
+      .select({ value: sensorReadings.value, timestamp: sensorReadings.readingTimestamp, unit: sensorReadings.unit })
+      .from(sensorReadings)
+      .where(
+        and(
+          eq(sensorReadings.deviceId, series.deviceId),
+          eq(sensorReadings.readingType, series.readingType),
+          gte(sensorReadings.readingTimestamp, dayFrom),
+          lt(sensorReadings.readingTimestamp, dayTo)
+        )
+      );
+
+    const hours = summarizeReadings(
+      raw.map(r => ({ value: parseFloat(r.value), timestamp: r.timestamp, unit: r.unit })),
+      "hour"
+    );
+    // Hours whose raw rows may already be pruned keep their stored rollup
+    const rawCutoff = Date.now() - RAW_RETENTION_DAYS * DAY_MS;
+    const touchedHours = hours.filter(
+      h => h.bucketStart.getTime() >= Math.max(bucketStart(series.firstAt!, "hour").getTime(), rawCutoff)
+        && h.bucketStart.getTime() <= series.lastAt!.getTime()
+    );
+    if (touchedHours.length > 0) {
+      await db
+        .insert(sensorReadingsHourly)
+        .values(touchedHours.map(h => toRow(series.deviceId, series.readingType, h)))
+        .onDuplicateKeyUpdate({ set: upsertColumns });
+      hourly += touchedHours.length;
+    }
+
+    // Raw rows for older hours in these days may already be pruned, so
+    // days are rebuilt from the stored hourly rows instead
+    const storedHours = await db
+      .select()
+      .from(sensorReadingsHourly)
+      .where(
+        and(
+          eq(sensorReadingsHourly.deviceId, series.deviceId),
+          eq(sensorReadingsHourly.readingType, series.readingType),
+          gte(sensorReadingsHourly.bucketStart, dayFrom),
+          lt(sensorReadingsHourly.bucketStart, dayTo)
+        )
+      );
+    const days = mergeRollups(storedHours.map(fromRow), "day");
+    if (days.length > 0) {
+      await db
+        .insert(sensorReadingsDaily)
+        .values(days.map(d => toRow(series.deviceId, series.readingType, d)))
+        .onDuplicateKeyUpdate({ set: upsertColumns });
+      daily += days.length;
+    }
+  }
+
+  rolledUpToId = toId;
+  return { hourly, daily };
+}
+
+async function deleteInBatches(run: () => Promise<[{ affectedRows: number }, ...unknown[]]>): Promise<number> {
+  let total = 0;
+  for (;;) {
+    const [header] = await run();
+    const affected = header.affectedRows;
+    total += affected;
+    if (affected < PRUNE_BATCH_SIZE) return total;
+  }
+}
+
+/**
+ * Delete raw readings past the raw retention window and hourly rollups
+ * past the hourly retention window. Daily rollups are kept indefinitely.
+ * Raw rows are only pruned up to the rollup watermark so nothing is
+ * dropped before it has been summarised.
+ */
+export async function pruneSensorHistory(now: Date = new Date()): Promise<{ raw: number; hourly: number }> {
+  const db = await getDb();
+  if (!db || rolledUpToId === null) return { raw: 0, hourly: 0 };
+
+  const rawCutoff = new Date(now.getTime() - RAW_RETENTION_DAYS * DAY_MS);
+  const hourlyCutoff = new Date(now.getTime() - HOURLY_RETENTION_DAYS * DAY_MS);
+  const watermark = rolledUpToId;
+
+  const raw = await deleteInBatches(() =>
+    db
+      .delete(sensorReadings)
+      .where(and(lt(sensorReadings.readingTimestamp, rawCutoff), lte(sensorReadings.id, watermark)))
+      .limit(PRUNE_BATCH_SIZE)
+  );
+  const hourly = await deleteInBatches(() =>
+    db.delete(sensorReadingsHourly).where(lt(sensorReadingsHourly.bucketStart, hourlyCutoff)).limit(PRUNE_BATCH_SIZE)
+  );
+
+  return { raw, hourly };
+}
+
+export interface HistorySeries {
+  readingType: string;
+  unit: string | null;
+  points: RollupPoint[];
+}
+
+/**
+ * Load history for a device between two instants at the requested
+ * resolution ("auto" picks one from the window size).
+ */
+export async function getSensorHistory(params: {
+  deviceId: number;
+  from: Date;
+  to: Date;
+  readingType?: string;
+  resolution?: Resolution | "auto";
+}): Promise<{ resolution: Resolution; series: HistorySeries[] }> {
+  const resolution =
+    !params.resolution || params.resolution === "auto"
+      ? chooseResolution(params.from, params.to)
+      : params.resolution;
+
+  const db = await getDb();
+  if (!db) return { resolution, series: [] };
+
+  const grouped = new Map<string, RollupPoint[]>();
+  const push = (readingType: string, point: RollupPoint) => {
+    const points = grouped.get(readingType) ?? [];
+    points.push(point);
+    grouped.set(readingType, points);
+  };
+
+  if (resolution === "raw") {
+    const rows = await db
+      .select()
+      .from(sensorReadings)
+      .where(
+        and(
+          eq(sensorReadings.deviceId, params.deviceId),
+          params.readingType ? eq(sensorReadings.readingType, params.readingType) : undefined,
+          gte(sensorReadings.readingTimestamp, params.from),
+          lte(sensorReadings.readingTimestamp, params.to)
+        )
+      )
+      .orderBy(asc(sensorReadings.readingTimestamp));
+
+    for (const row of rows) {
+      const value = parseFloat(row.value);
+      push(row.readingType, {
+        bucketStart: row.readingTimestamp,
+        min: value,
+        max: value,
+        avg: value,
+        count: 1,
+        last: value,
+        lastAt: row.readingTimestamp,
+        unit: row.unit,
+      });
+    }
+  } else {
+    const table = resolution === "hour" ? sensorReadingsHourly : sensorReadingsDaily;
+    const rows = await db
+      .select()
+      .from(table)
+      .where(
+        and(
+          eq(table.deviceId, params.deviceId),
+          params.readingType ? eq(table.readingType, params.readingType) : undefined,
+          gte(table.bucketStart, bucketStart(params.from, resolution)),
+          lte(table.bucketStart, params.to)
+        )
+      )
+      .orderBy(asc(table.bucketStart));
+
+    for (const row of rows) push(row.readingType, fromRow(row));
+  }
+
+  return {
+    resolution,
+    series: Array.from(grouped.entries()).map(([readingType, points]) => ({
+      readingType,
+      unit: points[points.length - 1]?.unit ?? null,
+      points,
+    })),
+  };
+}
+
+export function initializeSensorRollupScheduler() {
+  // Rollups pick up where the last one stopped, so a failed run is left to the next
+  registerJobHandler(
+    "sensorRollups.rollup",
+    async () => {
+      const { hourly, daily } = await rollupSensorReadings();
+      if (hourly || daily) {
+        console.log(`[SensorRollups] Updated ${hourly} hourly and ${daily} daily buckets`);
+      }
+      return { hourly, daily };
+    },
+    { maxAttempts: 1 }
+  );
+  registerJobHandler("sensorRollups.prune", async () => {
+    await rollupSensorReadings();
+    const { raw, hourly } = await pruneSensorHistory();
+    console.log(`[SensorRollups] Pruned ${raw} raw readings and ${hourly} hourly buckets`);
+    return { raw, hourly };
+  });
+
+  defineCronJob("sensor-rollups", "*/10 * * * *", "sensorRollups.rollup").catch(error =>
+    console.error("[SensorRollups] Could not schedule rollups:", error)
+  );
+  defineCronJob("sensor-retention-prune", "30 3 * * *", "sensorRollups.prune").catch(error =>
+    console.error("[SensorRollups] Could not schedule the retention prune:", error)
+  );
+
+  console.log("[SensorRollups] Rollups scheduled every 10 minutes, retention prune daily at 03:30");
+}
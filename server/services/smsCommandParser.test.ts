@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { classifyExpense, editDistance, parseQuantity, parseSmsCommand } from "./smsCommandParser";
+
+describe("parseSmsCommand", () => {
+  it("parses feeding records with either unit spacing", () => {
+    expect(parseSmsCommand("FEED TAG123 5KG maize")).toEqual({
+      ok: true,
+      command: { type: "feed", tag: "TAG123", quantityKg: 5, feedType: "maize" },
+      farmId: undefined,
+    });
+    expect(parseSmsCommand("feed tag123 2.5 kg layer mash")).toMatchObject({
+      command: { tag: "TAG123", quantityKg: 2.5, feedType: "layer mash" },
+    });
+  });
+
+  it("parses production counts", () => {
+    expect(parseSmsCommand("EGG 240")).toMatchObject({ ok: true, command: { type: "eggs", count: 240, tag: undefined } });
+    expect(parseSmsCommand("eggs 30 flock2")).toMatchObject({ command: { count: 30, tag: "FLOCK2" } });
+    expect(parseSmsCommand("MILK COW7 12.5L")).toMatchObject({ command: { type: "milk", tag: "COW7", litres: 12.5 } });
+    expect(parseSmsCommand("WT PIG3 84 kg")).toMatchObject({ command: { type: "weight", tag: "PIG3", kg: 84 } });
+  });
+
+  it("parses expenses and guesses the type", () => {
+    expect(parseSmsCommand("EXP 150 fuel")).toMatchObject({
+      command: { type: "expense", amount: 150, description: "fuel", expenseType: "transport" },
+    });
+    expect(parseSmsCommand("F12 EXP GHS1,200.50 NPK fertilizer")).toMatchObject({
+      farmId: 12,
+      command: { amount: 1200.5, expenseType: "fertilizer" },
+    });
+  });
+
+  it("parses task completion", () => {
+    expect(parseSmsCommand("DONE T45")).toMatchObject({ command: { type: "done", taskId: 45 } });
+    expect(parseSmsCommand("done 7")).toMatchObject({ command: { taskId: 7 } });
+  });
+
+  it("explains what is wrong and shows the format", () => {
+    expect(parseSmsCommand("FEED TAG123 five maize")).toEqual({
+      ok: false,
+      error: '"five" is not a quantity in kg. Format: FEED <tag> <kg>KG <feed>, e.g. FEED TAG123 5KG maize',
+    });
+    expect(parseSmsCommand("FEED TAG123 5L maize")).toMatchObject({ ok: false });
+    expect(parseSmsCommand("EXP 150")).toMatchObject({ ok: false, error: expect.stringContaining("Say what the money was for") });
+    expect(parseSmsCommand("EGG 12.5")).toMatchObject({ ok: false });
+  });
+
+  it("suggests the keyword a typo was probably meant to be", () => {
+    expect(parseSmsCommand("FED TAG1 5KG maize")).toMatchObject({ ok: false, error: expect.stringContaining("Did you mean FEED?") });
+    const unknown = parseSmsCommand("hello there");
+    expect(unknown.ok).toBe(false);
+    expect(!unknown.ok && unknown.error).toContain("Commands:");
+  });
+});
+
+describe("helpers", () => {
+  it("reads quantities with currency and unit decorations", () => {
+    expect(parseQuantity("5KG", ["KG"])).toBe(5);
+    expect(parseQuantity("₵20")).toBe(20);
+    expect(parseQuantity("0")).toBeNull();
+    expect(parseQuantity("5KG")).toBeNull();
+  });
+
+  it("classifies expense descriptions", () => {
+    expect(classifyExpense("vaccine for birds")).toBe("medication");
+    expect(classifyExpense("vet visit")).toBe("veterinary");
+    expect(classifyExpense("paid casuals")).toBe("labor");
+    expect(classifyExpense("gift")).toBe("other");
+  });
+
+  it("measures edit distance", () => {
+    expect(editDistance("FED", "FEED")).toBe(1);
+    expect(editDistance("DONE", "DONE")).toBe(0);
+  });
+});
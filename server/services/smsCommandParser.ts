@@ -0,0 +1,217 @@
+/**
+ * SMS command parser
+ * Turns keyword messages from field workers into structured commands:
+ *
+ *   FEED TAG123 5KG maize bran    feeding record (kg, feed type)
+ *   EGG 240 [FLOCK1]              egg count, for the farm's only flock if no tag
+ *   MILK COW7 12.5L               milk yield in litres
+ *   WEIGHT PIG3 84KG              body weight (WT also works)
+ *   EXP 150 fuel for pump         expense, type guessed from the description
+ *   DONE T45                      complete task 45
+ *   HELP                          list of commands
+ *
+ * Keywords are case-insensitive. Senders with several farms start with the
+ * farm code, e.g. "F12 EXP 150 fuel". Errors come back as a short reply that
+ * shows the expected format, so the sender can fix the message and resend.
+ */
+
+import { expenses } from "../../drizzle/schema";
+
+export type ExpenseType = (typeof expenses.expenseType.enumValues)[number];
+
+export type SmsCommand =
+  | { type: "feed"; tag: string; quantityKg: number; feedType: string }
+  | { type: "eggs"; count: number; tag?: string }
+  | { type: "milk"; tag: string; litres: number }
+  | { type: "weight"; tag: string; kg: number }
+  | { type: "expense"; amount: number; description: string; expenseType: ExpenseType }
+  | { type: "done"; taskId: number }
+  | { type: "help" };
+
+export type ParsedSms =
+  | { ok: true; command: SmsCommand; farmId?: number }
+  | { ok: false; error: string };
+
+export const SMS_USAGE = {
+  FEED: "FEED <tag> <kg>KG <feed>, e.g. FEED TAG123 5KG maize",
+  EGG: "EGG <count> [tag], e.g. EGG 240",
+  MILK: "MILK <tag> <litres>L, e.g. MILK COW7 12L",
+  WEIGHT: "WEIGHT <tag> <kg>KG, e.g. WEIGHT PIG3 84KG",
+  EXP: "EXP <amount> <what for>, e.g. EXP 150 fuel",
+  DONE: "DONE <task no.>, e.g. DONE T45",
+} as const;
+
+const KEYWORDS: Record<string, keyof typeof SMS_USAGE | "HELP"> = {
+  FEED: "FEED",
+  EGG: "EGG",
+  EGGS: "EGG",
+  MILK: "MILK",
+  WEIGHT: "WEIGHT",
+  WT: "WEIGHT",
+  EXP: "EXP",
+  EXPENSE: "EXP",
+  DONE: "DONE",
+  HELP: "HELP",
+};
+
+export const HELP_REPLY = `Commands: FEED tag 5KG feed | EGG 240 | MILK tag 12L | WEIGHT tag 84KG | EXP 150 fuel | DONE T45`;
+
+// Longest keywords first so "maize bran" wins over "maize"
+const EXPENSE_KEYWORDS: [ExpenseType, string[]][] = [
+  ["veterinary", ["vet", "veterinary", "veterinarian", "clinic"]],
+  ["medication", ["drug", "drugs", "medicine", "vaccine", "vaccines", "dewormer", "antibiotic", "antibiotics"]],
+  ["feed", ["feed", "maize", "bran", "mash", "concentrate", "fodder", "hay", "soya"]],
+  ["transport", ["fuel", "petrol", "diesel", "transport", "trotro", "taxi", "okada", "lorry", "truck"]],
+  ["labor", ["labour", "labor", "wages", "wage", "casuals", "workers"]],
+  ["fertilizer", ["fertilizer", "fertiliser", "npk", "urea", "manure", "compost"]],
+  ["seeds", ["seed", "seeds", "seedlings", "suckers"]],
+  ["pesticides", ["pesticide", "pesticides", "herbicide", "weedicide", "insecticide", "spray", "fungicide"]],
+  ["water", ["water", "borehole"]],
+  ["utilities", ["electricity", "ecg", "light", "prepaid", "internet", "airtime"]],
+  ["maintenance", ["repair", "repairs", "maintenance", "servicing"]],
+  ["equipment", ["equipment", "tools", "tool", "cutlass", "sprayer", "wheelbarrow"]],
+  ["rent", ["rent", "lease"]],
+  ["insurance", ["insurance"]],
+];
+
+export function classifyExpense(description: string): ExpenseType {
+  const words = new Set(description.toLowerCase().split(/[^a-z]+/).filter(Boolean));
+  for (const [type, keywords] of EXPENSE_KEYWORDS) {
+    if (keywords.some(keyword => words.has(keyword))) return type;
+  }
+  return "other";
+}
+
+/** Edit distance, used to suggest the keyword a sender probably meant */
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function suggestKeyword(word: string): string | null {
+  let best: { keyword: string; distance: number } | null = null;
+  for (const keyword of Object.keys(KEYWORDS)) {
+    const distance = editDistance(word, keyword);
+    if (distance <= Math.max(1, Math.floor(keyword.length / 3)) && (!best || distance < best.distance)) {
+      best = { keyword, distance };
+    }
+  }
+  return best?.keyword ?? null;
+}
+
+/** "5KG", "5.5kg", "1,200", "GHS150", "12L" -> number; unit suffix must match when given */
+export function parseQuantity(token: string | undefined, units: string[] = []): number | null {
+  if (!token) return null;
+  const match = token.toUpperCase().replace(/,/g, "").match(/^(?:GHS|GH₵|₵)?(\d+(?:\.\d+)?)([A-Z]*)$/);
+  if (!match) return null;
+  if (match[2] && !units.includes(match[2])) return null;
+  const value = Number(match[1]);
+  return value > 0 ? value : null;
+}
+
+const KG = ["KG", "KGS"];
+const LITRES = ["L", "LT", "LTR", "LITRE", "LITRES", "LITER", "LITERS"];
+
+// Allow "5 KG" as well as "5KG" by folding a lone unit token into the number before it
+function foldUnits(tokens: string[], units: string[]): string[] {
+  const folded: string[] = [];
+  for (const token of tokens) {
+    const previous = folded[folded.length - 1];
+    if (previous && /^\d+(\.\d+)?$/.test(previous) && units.includes(token.toUpperCase())) folded[folded.length - 1] = previous + token;
+    else folded.push(token);
+  }
+  return folded;
+}
+
+const fail = (keyword: keyof typeof SMS_USAGE, problem: string): ParsedSms => ({
+  ok: false,
+  error: `${problem}. Format: ${SMS_USAGE[keyword]}`,
+});
+
+export function parseSmsCommand(message: string): ParsedSms {
+  let tokens = message.trim().split(/\s+/).filter(Boolean);
+  if (!tokens.length) return { ok: false, error: `Empty message. ${HELP_REPLY}` };
+
+  let farmId: number | undefined;
+  const farmCode = tokens[0].match(/^F(\d+)$/i);
+  if (farmCode && tokens.length > 1) {
+    farmId = Number(farmCode[1]);
+    tokens = tokens.slice(1);
+  }
+
+  const word = tokens[0].toUpperCase();
+  const keyword = KEYWORDS[word];
+  if (!keyword) {
+    const suggestion = suggestKeyword(word);
+    return {
+      ok: false,
+      error: suggestion
+        ? `Unknown command "${tokens[0]}". Did you mean ${suggestion}? ${SMS_USAGE[KEYWORDS[suggestion] as keyof typeof SMS_USAGE] ?? HELP_REPLY}`
+        : `Unknown command "${tokens[0]}". ${HELP_REPLY}`,
+    };
+  }
+  const args = tokens.slice(1);
+  const done = (command: SmsCommand): ParsedSms => ({ ok: true, command, farmId });
+
+  switch (keyword) {
+    case "HELP":
+      return done({ type: "help" });
+
+    case "FEED": {
+      const [tag, quantity, ...feed] = foldUnits(args, KG);
+      if (!tag) return fail("FEED", "Animal tag missing");
+      const quantityKg = parseQuantity(quantity, KG);
+      if (quantityKg === null) return fail("FEED", `"${quantity ?? ""}" is not a quantity in kg`);
+      if (!feed.length) return fail("FEED", "Feed type missing");
+      return done({ type: "feed", tag: tag.toUpperCase(), quantityKg, feedType: feed.join(" ") });
+    }
+
+    case "EGG": {
+      const [count, tag, ...extra] = args;
+      const eggs = parseQuantity(count);
+      if (eggs === null || !Number.isInteger(eggs)) return fail("EGG", `"${count ?? ""}" is not an egg count`);
+      if (extra.length) return fail("EGG", "Too many words");
+      return done({ type: "eggs", count: eggs, tag: tag?.toUpperCase() });
+    }
+
+    case "MILK": {
+      const [tag, quantity] = foldUnits(args, LITRES);
+      if (!tag) return fail("MILK", "Animal tag missing");
+      const litres = parseQuantity(quantity, LITRES);
+      if (litres === null) return fail("MILK", `"${quantity ?? ""}" is not a quantity in litres`);
+      return done({ type: "milk", tag: tag.toUpperCase(), litres });
+    }
+
+    case "WEIGHT": {
+      const [tag, quantity] = foldUnits(args, KG);
+      if (!tag) return fail("WEIGHT", "Animal tag missing");
+      const kg = parseQuantity(quantity, KG);
+      if (kg === null) return fail("WEIGHT", `"${quantity ?? ""}" is not a weight in kg`);
+      return done({ type: "weight", tag: tag.toUpperCase(), kg });
+    }
+
+    case "EXP": {
+      const [amountToken, ...description] = args;
+      const amount = parseQuantity(amountToken);
+      if (amount === null) return fail("EXP", `"${amountToken ?? ""}" is not an amount`);
+      if (!description.length) return fail("EXP", "Say what the money was for");
+      const text = description.join(" ");
+      return done({ type: "expense", amount: Math.round(amount * 100) / 100, description: text, expenseType: classifyExpense(text) });
+    }
+
+    case "DONE": {
+      const match = args[0]?.match(/^T?(\d+)$/i);
+      if (!match || args.length > 1) return fail("DONE", `"${args.join(" ")}" is not a task number`);
+      return done({ type: "done", taskId: Number(match[1]) });
+    }
+  }
+}
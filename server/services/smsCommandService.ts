@@ -0,0 +1,308 @@
+import { and, eq, inArray, like, or, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  animals,
+  animalTypes,
+  expenses,
+  farms,
+  farmWorkers,
+  feedingRecords,
+  performanceMetrics,
+  smsInboundMessages,
+  taskAssignments,
+} from "../../drizzle/schema";
+import { hasFarmRole } from "../_core/farmAccess";
+import { recordInLedger } from "./ledgerService";
+import { productionHold } from "./withdrawalService";
+import { HELP_REPLY, parseSmsCommand, type SmsCommand } from "./smsCommandParser";
+import { phoneVariants, type UssdProvider } from "./ussdEngine";
+import { resolveCaller } from "./ussdService";
+
+/**
+ * Inbound SMS commands
+ * Applies parsed keyword messages to the sender's farm and builds the reply.
+ * Senders are registered users with editor access or better, or active farm
+ * workers whose contact number matches; workers can only record for the
+ * farm that employs them. Every message is logged with its outcome.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+const POULTRY_TYPES = ["poultry", "chicken", "layer", "broiler", "hen", "duck", "turkey", "guinea"];
+
+export interface InboundSms {
+  provider: UssdProvider;
+  externalId: string;
+  from: string;
+  text: string;
+}
+
+export interface InboundResult {
+  status: "processed" | "rejected" | "unregistered" | "duplicate";
+  /** SMS to send back; null when nothing should be sent */
+  reply: string | null;
+}
+
+interface SenderFarm {
+  id: number;
+  name: string;
+}
+
+interface Sender {
+  userId: number | null;
+  workerId: number | null;
+  farms: SenderFarm[];
+}
+
+class SmsCommandError extends Error {}
+
+async function resolveSender(db: Db, phone: string): Promise<Sender | null> {
+  const caller = await resolveCaller(db, phone);
+  const recordable = caller.farms.filter(farm => hasFarmRole(farm.role, "editor"));
+
+  const workers = await db
+    .select({ id: farmWorkers.id, farmId: farmWorkers.farmId, farmName: farms.farmName })
+    .from(farmWorkers)
+    .innerJoin(farms, eq(farms.id, farmWorkers.farmId))
+    .where(and(inArray(farmWorkers.contact, phoneVariants(phone)), eq(farmWorkers.status, "active")));
+
+  if (!caller.user && !workers.length) return null;
+  const farmsById = new Map<number, SenderFarm>(recordable.map(farm => [farm.id, { id: farm.id, name: farm.name }]));
+  for (const worker of workers) farmsById.set(worker.farmId, { id: worker.farmId, name: worker.farmName });
+  return { userId: caller.user?.id ?? null, workerId: workers[0]?.id ?? null, farms: [...farmsById.values()] };
+}
+
+function pickFarm(sender: Sender, farmId: number | undefined): SenderFarm {
+  if (farmId !== undefined) {
+    const farm = sender.farms.find(candidate => candidate.id === farmId);
+    if (!farm) throw new SmsCommandError(`You cannot record for farm F${farmId}.`);
+    return farm;
+  }
+  if (sender.farms.length === 1) return sender.farms[0];
+  const codes = sender.farms.slice(0, 4).map(farm => `F${farm.id} ${farm.name}`).join(", ");
+  throw new SmsCommandError(`You have several farms. Start with the farm code, e.g. F${sender.farms[0].id} EXP 150 fuel. Farms: ${codes}`);
+}
+
+async function findAnimal(db: Db, sender: Sender, tag: string, farmId: number | undefined) {
+  const farmIds = farmId !== undefined ? [pickFarm(sender, farmId).id] : sender.farms.map(farm => farm.id);
+  const [animal] = await db
+    .select({ id: animals.id, farmId: animals.farmId, tag: animals.uniqueTagId })
+    .from(animals)
+    .where(and(eq(animals.uniqueTagId, tag), inArray(animals.farmId, farmIds)))
+    .limit(1);
+  if (!animal) throw new SmsCommandError(`No animal with tag ${tag} on your farm. Check the tag and resend.`);
+  return animal;
+}
+
+/** The farm's only poultry flock, for "EGG 240" without a tag */
+async function findFlock(db: Db, farm: SenderFarm) {
+  const flocks = await db
+    .select({ id: animals.id, tag: animals.uniqueTagId })
+    .from(animals)
+    .innerJoin(animalTypes, eq(animalTypes.id, animals.typeId))
+    .where(and(
+      eq(animals.farmId, farm.id),
+      eq(animals.status, "active"),
+      or(...POULTRY_TYPES.map(type => like(sql`lower(${animalTypes.typeName})`, `%${type}%`)))
+    ))
+    .limit(2);
+  if (flocks.length === 1) return flocks[0];
+  throw new SmsCommandError(
+    flocks.length ? "You have several flocks. Add the flock tag, e.g. EGG 240 FLOCK1" : "No poultry flock found on your farm."
+  );
+}
+
+/**
+ * Eggs and milk add up over the day's collections; weight replaces the day's
+ * value. Milk or eggs from an animal in withdrawal mark the day as held.
+ */
+async function recordMetric(db: Db, animalId: number, update: { eggCount?: number; milkYieldLiters?: number; weightKg?: number }) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const hold = await productionHold(animalId, {
+    milk: update.milkYieldLiters !== undefined,
+    eggs: update.eggCount !== undefined,
+  });
+  const [existing] = await db
+    .select()
+    .from(performanceMetrics)
+    .where(and(eq(performanceMetrics.animalId, animalId), eq(performanceMetrics.metricDate, today)))
+    .limit(1);
+
+  if (!existing) {
+    const [header] = await db.insert(performanceMetrics).values({
+      animalId,
+      metricDate: today,
+      eggCount: update.eggCount,
+      milkYieldLiters: update.milkYieldLiters?.toFixed(2),
+      weightKg: update.weightKg?.toFixed(2),
+      withdrawalHold: hold.held,
+    });
+    return { id: header.insertId, eggCount: update.eggCount ?? 0, milkYieldLiters: update.milkYieldLiters ?? 0, hold };
+  }
+
+  const eggCount = update.eggCount !== undefined ? (existing.eggCount ?? 0) + update.eggCount : existing.eggCount;
+  const milk = update.milkYieldLiters !== undefined ? Number(existing.milkYieldLiters ?? 0) + update.milkYieldLiters : null;
+  await db
+    .update(performanceMetrics)
+    .set({
+      eggCount,
+      ...(milk !== null ? { milkYieldLiters: milk.toFixed(2) } : {}),
+      ...(update.weightKg !== undefined ? { weightKg: update.weightKg.toFixed(2) } : {}),
+      ...(hold.held ? { withdrawalHold: true } : {}),
+    })
+    .where(eq(performanceMetrics.id, existing.id));
+  return { id: existing.id, eggCount: eggCount ?? 0, milkYieldLiters: milk ?? 0, hold };
+}
+
+function holdNotice(hold: Awaited<ReturnType<typeof productionHold>>) {
+  if (!hold.held || !hold.clearAt) return "";
+  return ` WITHDRAWAL: do not sell until ${hold.clearAt.toISOString().slice(0, 10)}.`;
+}
+
+async function applyCommand(db: Db, sender: Sender, command: Exclude<SmsCommand, { type: "help" }>, farmId: number | undefined) {
+  switch (command.type) {
+    case "feed": {
+      const animal = await findAnimal(db, sender, command.tag, farmId);
+      const [header] = await db.insert(feedingRecords).values({
+        animalId: animal.id,
+        feedDate: new Date(),
+        feedType: command.feedType.slice(0, 255),
+        quantityKg: command.quantityKg.toFixed(2),
+        notes: "Recorded by SMS",
+      });
+      return {
+        farmId: animal.farmId,
+        recordType: "feedingRecord",
+        recordId: header.insertId,
+        reply: `OK: ${command.quantityKg}kg ${command.feedType} for ${command.tag} recorded.`,
+      };
+    }
+
+    case "eggs": {
+      const farm = command.tag ? null : pickFarm(sender, farmId);
+      const animal = command.tag ? await findAnimal(db, sender, command.tag, farmId) : { ...(await findFlock(db, farm!)), farmId: farm!.id };
+      const metric = await recordMetric(db, animal.id, { eggCount: command.count });
+      return {
+        farmId: animal.farmId,
+        recordType: "performanceMetric",
+        recordId: metric.id,
+        reply: `OK: ${command.count} eggs recorded${animal.tag ? ` for ${animal.tag}` : ""}. Today's total: ${metric.eggCount}.${holdNotice(metric.hold)}`,
+      };
+    }
+
+    case "milk": {
+      const animal = await findAnimal(db, sender, command.tag, farmId);
+      const metric = await recordMetric(db, animal.id, { milkYieldLiters: command.litres });
+      return {
+        farmId: animal.farmId,
+        recordType: "performanceMetric",
+        recordId: metric.id,
+        reply: `OK: ${command.litres}L milk for ${command.tag}. Today's total: ${Number(metric.milkYieldLiters).toFixed(1)}L.${holdNotice(metric.hold)}`,
+      };
+    }
+
+    case "weight": {
+      const animal = await findAnimal(db, sender, command.tag, farmId);
+      const metric = await recordMetric(db, animal.id, { weightKg: command.kg });
+      return {
+        farmId: animal.farmId,
+        recordType: "performanceMetric",
+        recordId: metric.id,
+        reply: `OK: ${command.tag} weighs ${command.kg}kg today.`,
+      };
+    }
+
+    case "expense": {
+      const farm = pickFarm(sender, farmId);
+      const today = new Date();
+      const [header] = await db.insert(expenses).values({
+        farmId: farm.id,
+        expenseType: command.expenseType,
+        description: command.description.slice(0, 500),
+        amount: command.amount.toFixed(2),
+        expenseDate: today,
+        paymentStatus: "paid",
+        paymentDate: today,
+        notes: "Recorded by SMS",
+      });
+      await recordInLedger("expense", header.insertId, sender.userId ?? undefined);
+      return {
+        farmId: farm.id,
+        recordType: "expense",
+        recordId: header.insertId,
+        reply: `OK: GHS ${command.amount.toFixed(2)} ${command.expenseType.replace(/_/g, " ")} expense recorded (${command.description}).`,
+      };
+    }
+
+    case "done": {
+      const farmIds = farmId !== undefined ? [pickFarm(sender, farmId).id] : sender.farms.map(farm => farm.id);
+      const [task] = await db
+        .select()
+        .from(taskAssignments)
+        .where(and(eq(taskAssignments.id, command.taskId), inArray(taskAssignments.farmId, farmIds)))
+        .limit(1);
+      if (!task) throw new SmsCommandError(`Task T${command.taskId} not found on your farm.`);
+      if (task.status === "completed") throw new SmsCommandError(`Task T${task.id} is already done.`);
+      if (task.status === "cancelled") throw new SmsCommandError(`Task T${task.id} was cancelled.`);
+      await db
+        .update(taskAssignments)
+        .set({ status: "completed", completedAt: new Date() })
+        .where(eq(taskAssignments.id, task.id));
+      return { farmId: task.farmId, recordType: "task", recordId: task.id, reply: `OK: T${task.id} "${task.title}" marked done.` };
+    }
+  }
+}
+
+export async function handleInboundSms(message: InboundSms): Promise<InboundResult> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  // Lookups before the log insert, so a failure here leaves the message free to be redelivered
+  const sender = await resolveSender(db, message.from);
+  const [logged] = await db.insert(smsInboundMessages).ignore().values({
+    provider: message.provider,
+    externalId: message.externalId.slice(0, 100),
+    fromNumber: message.from.slice(0, 20),
+    body: message.text,
+  });
+  if (!logged.affectedRows) return { status: "duplicate", reply: null };
+  const logId = logged.insertId;
+  const finish = async (
+    result: InboundResult & { status: "processed" | "rejected" | "unregistered" },
+    details: Partial<typeof smsInboundMessages.$inferInsert> = {}
+  ) => {
+    await db
+      .update(smsInboundMessages)
+      .set({ status: result.status, reply: result.reply, ...details })
+      .where(eq(smsInboundMessages.id, logId));
+    return result;
+  };
+
+  if (!sender) {
+    return finish({ status: "unregistered", reply: "This number is not registered with FarmKonnect. Ask your farm manager to add it." });
+  }
+  const who = { userId: sender.userId, workerId: sender.workerId };
+
+  const parsed = parseSmsCommand(message.text);
+  if (!parsed.ok) return finish({ status: "rejected", reply: parsed.error }, who);
+  const { command, farmId } = parsed;
+  if (command.type === "help") return finish({ status: "processed", reply: HELP_REPLY }, { ...who, command: "help" });
+  if (!sender.farms.length) {
+    return finish({ status: "rejected", reply: "Your account cannot record data for any farm." }, { ...who, command: command.type });
+  }
+
+  try {
+    const outcome = await applyCommand(db, sender, command, farmId);
+    return finish(
+      { status: "processed", reply: outcome.reply },
+      { ...who, command: command.type, farmId: outcome.farmId, recordType: outcome.recordType, recordId: outcome.recordId }
+    );
+  } catch (error) {
+    if (!(error instanceof SmsCommandError)) {
+      console.error(`[SmsCommands] Failed to apply "${message.text}" from ${message.from}:`, error);
+    }
+    const reply = error instanceof SmsCommandError ? error.message : "Sorry, that could not be saved. Please try again later.";
+    return finish({ status: "rejected", reply }, { ...who, command: command.type });
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  activePreHarvestInterval,
+  planTankMix,
+  sprayIntervals,
+  sprayRegisterCsv,
+  sprayWeatherWarnings,
+  type TankMixProduct,
+} from "./sprayCompliance";
+
+const insecticide: TankMixProduct = {
+  productId: 1,
+  productName: "Karate 2.5 EC",
+  activeIngredient: "lambda-cyhalothrin 25 g/L",
+  unit: "L",
+  preHarvestIntervalDays: 7,
+  reEntryIntervalHours: 24,
+};
+const fungicide: TankMixProduct = {
+  productId: 2,
+  productName: "Ridomil Gold",
+  activeIngredient: "metalaxyl-M 40 g/kg + mancozeb 640 g/kg",
+  unit: "kg",
+  preHarvestIntervalDays: 14,
+  reEntryIntervalHours: 48,
+};
+
+describe("tank mix", () => {
+  it("works out quantities from rate and area unless measured", () => {
+    const lines = planTankMix([
+      { ...insecticide, ratePerHectare: 0.4 },
+      { ...fungicide, ratePerHectare: 2.5, quantityUsed: 6.1 },
+    ], 2.35);
+    expect(lines.map(line => line.quantityUsed)).toEqual([0.94, 6.1]);
+  });
+
+  it("rejects mixes that cannot be sprayed", () => {
+    expect(() => planTankMix([], 1)).toThrow(/at least one product/);
+    expect(() => planTankMix([{ ...insecticide, ratePerHectare: 0.4 }], 0)).toThrow(/area/);
+    expect(() => planTankMix([{ ...insecticide, ratePerHectare: 0 }], 1)).toThrow(/Rate for Karate/);
+    expect(() => planTankMix([{ ...insecticide, ratePerHectare: 1 }, { ...insecticide, ratePerHectare: 1 }], 1)).toThrow(/twice/);
+  });
+});
+
+describe("intervals", () => {
+  const appliedAt = new Date("2026-03-01T16:30:00Z");
+
+  it("takes the longest PHI and REI in the mix", () => {
+    const intervals = sprayIntervals(appliedAt, [insecticide, fungicide]);
+    expect(intervals.phiDays).toBe(14);
+    expect(intervals.reEntryAt).toEqual(new Date("2026-03-03T16:30:00Z"));
+    expect(intervals.safeHarvestDate).toEqual(new Date("2026-03-15T00:00:00Z"));
+  });
+
+  it("blocks harvest until the latest safe harvest day", () => {
+    const sprays = [
+      { id: 1, safeHarvestDate: new Date("2026-03-08T00:00:00Z") },
+      { id: 2, safeHarvestDate: new Date("2026-03-15T00:00:00Z") },
+    ];
+    expect(activePreHarvestInterval(sprays, new Date("2026-03-07T12:00:00Z"))?.id).toBe(2);
+    expect(activePreHarvestInterval(sprays, new Date("2026-03-14T23:00:00Z"))?.id).toBe(2);
+    expect(activePreHarvestInterval(sprays, new Date("2026-03-15T06:00:00Z"))).toBeNull();
+  });
+});
+
+describe("records", () => {
+  it("flags drift and evaporation weather without refusing it", () => {
+    expect(sprayWeatherWarnings({ temperatureC: 24, humidityPercent: 65, windSpeedKmh: 8 })).toEqual([]);
+    expect(sprayWeatherWarnings({ temperatureC: 33, humidityPercent: 30, windSpeedKmh: 20, weatherConditions: "Light rain" }))
+      .toHaveLength(4);
+  });
+
+  it("exports one register row per product", () => {
+    const csv = sprayRegisterCsv([{
+      appliedAt: new Date("2026-03-01T16:30:00Z"),
+      fieldName: "North block",
+      cropName: "Tomato",
+      varietyName: "Pectomech",
+      areaSprayedHectares: 2.35,
+      target: "Tuta absoluta, late blight",
+      operatorName: "K. Mensah",
+      equipment: "Knapsack 16 L",
+      waterVolumeLitersPerHa: 400,
+      temperatureC: 26,
+      humidityPercent: 70,
+      windSpeedKmh: 6,
+      windDirection: "NE",
+      weatherConditions: "Clear",
+      reEntryAt: new Date("2026-03-03T16:30:00Z"),
+      safeHarvestDate: new Date("2026-03-15T00:00:00Z"),
+      products: [
+        { ...insecticide, registrationNumber: "FRC/1234", ratePerHectare: 0.4, quantityUsed: 0.94 },
+        { ...fungicide, registrationNumber: null, ratePerHectare: 2.5, quantityUsed: 5.875 },
+      ],
+    }]);
+    const lines = csv.split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('2026-03-01,16:30,North block,Tomato,Pectomech,2.35,"Tuta absoluta, late blight",Karate 2.5 EC');
+    expect(lines[2]).toContain(",14,2026-03-15,48,2026-03-03 16:30");
+  });
+});
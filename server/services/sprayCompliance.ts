@@ -0,0 +1,233 @@
+import { generateCSV } from "./csvExport";
+
+/**
+ * Spray records and pre-harvest intervals
+ * Works out what a tank mix uses, when workers may go back into the field
+ * (re-entry interval, REI) and when the crop may be harvested again
+ * (pre-harvest interval, PHI), and lays sprays out as a spray register in
+ * the shape GlobalG.A.P. auditors ask for. No database access;
+ * sprayService stores sprays, moves the chemical stock and refuses
+ * harvests inside a PHI.
+ *
+ * The longest interval in the tank mix governs the whole spray. PHI days
+ * are counted from the calendar day of application, so a 7-day PHI on a
+ * spray on 1 March allows harvest from 8 March.
+ */
+
+export type ChemicalUnit = "L" | "kg";
+
+export interface TankMixProduct {
+  productId: number;
+  productName: string;
+  activeIngredient: string;
+  unit: ChemicalUnit;
+  preHarvestIntervalDays: number;
+  reEntryIntervalHours: number;
+}
+
+export interface TankMixLine extends TankMixProduct {
+  ratePerHectare: number;
+  quantityUsed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SprayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SprayError";
+  }
+}
+
+/** Thrown when a harvest falls inside the PHI of a spray on the crop */
+export class PreHarvestIntervalError extends SprayError {
+  constructor(
+    public readonly safeHarvestDate: Date,
+    public readonly products: string[]
+  ) {
+    super(
+      `Harvest is blocked until ${isoDate(safeHarvestDate)}: pre-harvest interval of ${products.join(", ")} still running`
+    );
+    this.name = "PreHarvestIntervalError";
+  }
+}
+
+export function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Midnight UTC of the date's calendar day */
+export function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Tank mix lines with the quantity each product uses over the sprayed area.
+ * A quantity given explicitly (e.g. measured from the container) wins over
+ * rate × area.
+ */
+export function planTankMix(
+  products: Array<TankMixProduct & { ratePerHectare: number; quantityUsed?: number }>,
+  areaHectares: number
+): TankMixLine[] {
+  if (!products.length) throw new SprayError("A spray needs at least one product in the tank mix");
+  if (!(areaHectares > 0)) throw new SprayError("Sprayed area must be greater than zero");
+  const seen = new Set<number>();
+  return products.map(product => {
+    if (seen.has(product.productId)) throw new SprayError(`${product.productName} is in the tank mix twice`);
+    seen.add(product.productId);
+    if (!(product.ratePerHectare > 0)) throw new SprayError(`Rate for ${product.productName} must be greater than zero`);
+    const quantityUsed = round3(product.quantityUsed ?? product.ratePerHectare * areaHectares);
+    if (!(quantityUsed > 0)) throw new SprayError(`Quantity of ${product.productName} must be greater than zero`);
+    return { ...product, quantityUsed };
+  });
+}
+
+/** Re-entry time and first safe harvest day for a spray, from the longest intervals in its mix */
+export function sprayIntervals(appliedAt: Date, lines: Array<Pick<TankMixLine, "preHarvestIntervalDays" | "reEntryIntervalHours">>) {
+  const phiDays = Math.max(0, ...lines.map(line => line.preHarvestIntervalDays));
+  const reiHours = Math.max(0, ...lines.map(line => line.reEntryIntervalHours));
+  return {
+    phiDays,
+    reiHours,
+    reEntryAt: new Date(appliedAt.getTime() + reiHours * 60 * 60 * 1000),
+    safeHarvestDate: new Date(startOfDay(appliedAt).getTime() + phiDays * DAY_MS),
+  };
+}
+
+/**
+ * The spray holding up a harvest on the given day: the one whose safe
+ * harvest date is latest and still after that day, or null when the crop
+ * may be harvested
+ */
+export function activePreHarvestInterval<S extends { safeHarvestDate: Date }>(sprays: S[], harvestDate: Date): S | null {
+  const day = startOfDay(harvestDate).getTime();
+  let blocking: S | null = null;
+  for (const spray of sprays) {
+    const safe = startOfDay(spray.safeHarvestDate).getTime();
+    if (safe > day && (!blocking || safe > startOfDay(blocking.safeHarvestDate).getTime())) blocking = spray;
+  }
+  return blocking;
+}
+
+export interface SprayWeather {
+  temperatureC?: number | null;
+  humidityPercent?: number | null;
+  windSpeedKmh?: number | null;
+  weatherConditions?: string | null;
+}
+
+/**
+ * Conditions at application that raise drift or efficacy concerns. They are
+ * recorded with the spray rather than refused; the operator was there.
+ */
+export function sprayWeatherWarnings(weather: SprayWeather): string[] {
+  const warnings: string[] = [];
+  const { temperatureC, humidityPercent, windSpeedKmh, weatherConditions } = weather;
+  if (windSpeedKmh != null && windSpeedKmh > 15) warnings.push(`Wind ${windSpeedKmh} km/h is above 15 km/h; high drift risk`);
+  if (windSpeedKmh != null && windSpeedKmh < 3) warnings.push(`Wind ${windSpeedKmh} km/h is below 3 km/h; temperature inversion risk`);
+  if (temperatureC != null && temperatureC > 30) warnings.push(`Temperature ${temperatureC}°C is above 30°C; spray droplets evaporate`);
+  if (humidityPercent != null && humidityPercent < 40) warnings.push(`Relative humidity ${humidityPercent}% is below 40%; spray droplets evaporate`);
+  if (weatherConditions && /\b(rain|shower|storm|drizzle)/i.test(weatherConditions)) {
+    warnings.push("Rain at application can wash the product off");
+  }
+  return warnings;
+}
+
+export interface SprayRegisterEntry {
+  appliedAt: Date;
+  fieldName: string | null;
+  cropName: string | null;
+  varietyName: string | null;
+  areaSprayedHectares: number;
+  target: string | null;
+  operatorName: string;
+  equipment: string | null;
+  waterVolumeLitersPerHa: number | null;
+  temperatureC: number | null;
+  humidityPercent: number | null;
+  windSpeedKmh: number | null;
+  windDirection: string | null;
+  weatherConditions: string | null;
+  reEntryAt: Date;
+  safeHarvestDate: Date;
+  products: Array<{
+    productName: string;
+    activeIngredient: string;
+    registrationNumber: string | null;
+    ratePerHectare: number;
+    unit: ChemicalUnit;
+    quantityUsed: number;
+    preHarvestIntervalDays: number;
+    reEntryIntervalHours: number;
+  }>;
+}
+
+export const SPRAY_REGISTER_HEADERS = [
+  "Date",
+  "Time",
+  "Field",
+  "Crop",
+  "Variety",
+  "Area (ha)",
+  "Target",
+  "Trade name",
+  "Active ingredient",
+  "Registration no.",
+  "Rate per ha",
+  "Unit",
+  "Quantity applied",
+  "Water volume (L/ha)",
+  "Equipment",
+  "Operator",
+  "Temperature (°C)",
+  "Humidity (%)",
+  "Wind (km/h)",
+  "Wind direction",
+  "Weather",
+  "PHI (days)",
+  "Earliest harvest",
+  "REI (hours)",
+  "Re-entry from",
+];
+
+/** Spray register rows, one per product in each tank mix, in application order */
+export function sprayRegisterRows(entries: SprayRegisterEntry[]): Array<Array<string | number | null>> {
+  return [...entries]
+    .sort((a, b) => a.appliedAt.getTime() - b.appliedAt.getTime())
+    .flatMap(entry =>
+      entry.products.map(product => [
+        isoDate(entry.appliedAt),
+        entry.appliedAt.toISOString().slice(11, 16),
+        entry.fieldName,
+        entry.cropName,
+        entry.varietyName,
+        entry.areaSprayedHectares,
+        entry.target,
+        product.productName,
+        product.activeIngredient,
+        product.registrationNumber,
+        product.ratePerHectare,
+        product.unit,
+        product.quantityUsed,
+        entry.waterVolumeLitersPerHa,
+        entry.equipment,
+        entry.operatorName,
+        entry.temperatureC,
+        entry.humidityPercent,
+        entry.windSpeedKmh,
+        entry.windDirection,
+        entry.weatherConditions,
+        product.preHarvestIntervalDays,
+        isoDate(entry.safeHarvestDate),
+        product.reEntryIntervalHours,
+        entry.reEntryAt.toISOString().slice(0, 16).replace("T", " "),
+      ])
+    );
+}
+
+export function sprayRegisterCsv(entries: SprayRegisterEntry[]): string {
+  return generateCSV({ filename: "spray-register.csv", headers: SPRAY_REGISTER_HEADERS, rows: sprayRegisterRows(entries) });
+}
@@ -0,0 +1,541 @@
+import { and, asc, desc, eq, gt, gte, inArray, lte, or, sql } from "drizzle-orm";
+import {
+  chemicalProducts,
+  chemicalStockTransactions,
+  cropCycles,
+  cropHealthRecords,
+  crops,
+  cropTreatments,
+  fields,
+  sprayApplicationProducts,
+  sprayApplications,
+} from "../../drizzle/schema";
+import { getDb } from "../db";
+import {
+  activePreHarvestInterval,
+  isoDate,
+  planTankMix,
+  PreHarvestIntervalError,
+  SprayError,
+  sprayIntervals,
+  sprayRegisterCsv,
+  sprayWeatherWarnings,
+  startOfDay,
+  type ChemicalUnit,
+  type SprayRegisterEntry,
+  type SprayWeather,
+} from "./sprayCompliance";
+
+/**
+ * Crop protection records
+ * A farm's plant protection products and their stock, and the spray log:
+ * each spray is tied to a field and/or crop cycle, takes its products out
+ * of stock in the same transaction, and when it treats a recorded pest or
+ * disease it is also logged as a cropTreatments row on that health record.
+ * Yield records for a crop cycle are refused while the PHI of a spray on
+ * the cycle, or on the field it is growing in, is still running.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+/** Days before expiry at which a product is flagged */
+const EXPIRY_WARNING_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function num(value: string | null | undefined): number | null {
+  return value === null || value === undefined ? null : parseFloat(value);
+}
+
+function decimal(value: number | null | undefined, places: number): string | null {
+  return value === null || value === undefined ? null : value.toFixed(places);
+}
+
+async function requireProduct(db: Db, farmId: number, productId: number) {
+  const [product] = await db
+    .select()
+    .from(chemicalProducts)
+    .where(and(eq(chemicalProducts.id, productId), eq(chemicalProducts.farmId, farmId)))
+    .limit(1);
+  if (!product) throw new SprayError("Chemical product not found on this farm");
+  return product;
+}
+
+export interface ChemicalProductInput {
+  name: string;
+  activeIngredient: string;
+  formulation?: string;
+  registrationNumber?: string;
+  unit: ChemicalUnit;
+  reorderLevel?: number;
+  preHarvestIntervalDays: number;
+  reEntryIntervalHours: number;
+  batchNumber?: string;
+  expiryDate?: Date;
+  unitCost?: number;
+  storageLocation?: string;
+  notes?: string;
+}
+
+function productValues<T extends Partial<ChemicalProductInput>>(input: T) {
+  const { reorderLevel, unitCost, expiryDate, ...rest } = input;
+  return {
+    ...rest,
+    ...(reorderLevel !== undefined ? { reorderLevel: decimal(reorderLevel, 3) } : {}),
+    ...(unitCost !== undefined ? { unitCost: decimal(unitCost, 2) } : {}),
+    ...(expiryDate !== undefined ? { expiryDate: startOfDay(expiryDate) } : {}),
+  };
+}
+
+/** Register a product; opening stock goes in as a purchase so the ledger adds up */
+export async function addChemicalProduct(
+  farmId: number,
+  input: ChemicalProductInput & { openingStock?: number },
+  recordedBy?: number
+) {
+  const db = await requireDb();
+  const { openingStock, ...product } = input;
+  const [header] = await db.insert(chemicalProducts).values({
+    farmId,
+    ...productValues(product),
+    currentStock: decimal(openingStock ?? 0, 3)!,
+  });
+  if (openingStock) {
+    await db.insert(chemicalStockTransactions).values({
+      farmId,
+      productId: header.insertId,
+      transactionType: "purchase",
+      quantity: decimal(openingStock, 3)!,
+      transactionDate: startOfDay(new Date()),
+      recordedBy: recordedBy ?? null,
+      notes: "Opening stock",
+    });
+  }
+  return { productId: header.insertId };
+}
+
+export async function updateChemicalProduct(farmId: number, productId: number, input: Partial<ChemicalProductInput>) {
+  const db = await requireDb();
+  await requireProduct(db, farmId, productId);
+  await db.update(chemicalProducts).set(productValues(input)).where(eq(chemicalProducts.id, productId));
+  return { productId };
+}
+
+/** A farm's products with low-stock and expiry flags */
+export async function listChemicalProducts(farmId: number, now = new Date()) {
+  const db = await requireDb();
+  const products = await db
+    .select()
+    .from(chemicalProducts)
+    .where(eq(chemicalProducts.farmId, farmId))
+    .orderBy(asc(chemicalProducts.name));
+  const today = startOfDay(now).getTime();
+  return products.map(product => {
+    const stock = num(product.currentStock) ?? 0;
+    const reorderLevel = num(product.reorderLevel);
+    const expiry = product.expiryDate ? startOfDay(toDate(product.expiryDate)).getTime() : null;
+    return {
+      ...product,
+      lowStock: reorderLevel !== null && stock <= reorderLevel,
+      expired: expiry !== null && expiry < today,
+      expiringSoon: expiry !== null && expiry >= today && expiry - today <= EXPIRY_WARNING_DAYS * DAY_MS,
+    };
+  });
+}
+
+/**
+ * Purchases add stock; disposals and adjustments with a negative quantity
+ * take it away, but never below zero
+ */
+export async function recordStockMovement(input: {
+  farmId: number;
+  productId: number;
+  transactionType: "purchase" | "adjustment" | "disposal";
+  quantity: number;
+  transactionDate: Date;
+  recordedBy?: number;
+  notes?: string;
+}) {
+  const db = await requireDb();
+  const product = await requireProduct(db, input.farmId, input.productId);
+  const quantity =
+    input.transactionType === "disposal" ? -Math.abs(input.quantity)
+    : input.transactionType === "purchase" ? Math.abs(input.quantity)
+    : input.quantity;
+  if (quantity === 0) throw new SprayError("Quantity must not be zero");
+
+  return db.transaction(async tx => {
+    const [moved] = await tx
+      .update(chemicalProducts)
+      .set({ currentStock: sql`${chemicalProducts.currentStock} + ${quantity}` })
+      .where(and(eq(chemicalProducts.id, product.id), sql`${chemicalProducts.currentStock} + ${quantity} >= 0`));
+    if (!moved.affectedRows) throw new SprayError(`Only ${product.currentStock} ${product.unit} of ${product.name} in stock`);
+    const [header] = await tx.insert(chemicalStockTransactions).values({
+      farmId: input.farmId,
+      productId: product.id,
+      transactionType: input.transactionType,
+      quantity: decimal(quantity, 3)!,
+      transactionDate: startOfDay(input.transactionDate),
+      recordedBy: input.recordedBy ?? null,
+      notes: input.notes ?? null,
+    });
+    return { transactionId: header.insertId };
+  });
+}
+
+export async function listStockMovements(farmId: number, productId: number) {
+  const db = await requireDb();
+  await requireProduct(db, farmId, productId);
+  return db
+    .select()
+    .from(chemicalStockTransactions)
+    .where(eq(chemicalStockTransactions.productId, productId))
+    .orderBy(desc(chemicalStockTransactions.transactionDate), desc(chemicalStockTransactions.id));
+}
+
+export interface SprayInput extends SprayWeather {
+  farmId: number;
+  fieldId?: number;
+  cycleId?: number;
+  /** Pest or disease record the spray treats; logs a cropTreatments row against it */
+  healthRecordId?: number;
+  target?: string;
+  appliedAt: Date;
+  areaSprayedHectares: number;
+  waterVolumeLitersPerHa?: number;
+  equipment?: string;
+  operatorName: string;
+  operatorUserId?: number;
+  windDirection?: string;
+  notes?: string;
+  tankMix: Array<{ productId: number; ratePerHectare: number; quantityUsed?: number }>;
+  recordedBy?: number;
+}
+
+/**
+ * Record a spray: resolves the crop cycle from the field when only the
+ * field is given, fixes the REI and PHI from the tank mix and takes the
+ * products out of stock. Expired products and mixes the stock cannot cover
+ * are refused and nothing is written.
+ */
+export async function recordSpray(input: SprayInput) {
+  const db = await requireDb();
+  if (input.fieldId === undefined && input.cycleId === undefined) {
+    throw new SprayError("A spray must be recorded against a field or a crop cycle");
+  }
+
+  let cycleId = input.cycleId ?? null;
+  if (input.fieldId !== undefined) {
+    const [field] = await db
+      .select({ id: fields.id, currentCropCycleId: fields.currentCropCycleId })
+      .from(fields)
+      .where(and(eq(fields.id, input.fieldId), eq(fields.farmId, input.farmId)))
+      .limit(1);
+    if (!field) throw new SprayError("Field not found on this farm");
+    cycleId = cycleId ?? field.currentCropCycleId;
+  }
+  if (cycleId !== null) {
+    const [cycle] = await db
+      .select({ id: cropCycles.id })
+      .from(cropCycles)
+      .where(and(eq(cropCycles.id, cycleId), eq(cropCycles.farmId, input.farmId)))
+      .limit(1);
+    if (!cycle) throw new SprayError("Crop cycle not found on this farm");
+  }
+  if (input.healthRecordId !== undefined) {
+    const [record] = await db
+      .select({ id: cropHealthRecords.id, cycleId: cropHealthRecords.cycleId })
+      .from(cropHealthRecords)
+      .innerJoin(cropCycles, eq(cropCycles.id, cropHealthRecords.cycleId))
+      .where(and(eq(cropHealthRecords.id, input.healthRecordId), eq(cropCycles.farmId, input.farmId)))
+      .limit(1);
+    if (!record) throw new SprayError("Crop health record not found on this farm");
+    if (cycleId !== null && record.cycleId !== cycleId) throw new SprayError("The health record belongs to a different crop cycle");
+    cycleId = record.cycleId;
+  }
+
+  const productIds = input.tankMix.map(line => line.productId);
+  const products = productIds.length
+    ? await db
+        .select()
+        .from(chemicalProducts)
+        .where(and(eq(chemicalProducts.farmId, input.farmId), inArray(chemicalProducts.id, productIds)))
+    : [];
+  const byId = new Map(products.map(product => [product.id, product]));
+  const appliedDay = startOfDay(input.appliedAt).getTime();
+  const lines = planTankMix(
+    input.tankMix.map(line => {
+      const product = byId.get(line.productId);
+      if (!product) throw new SprayError(`Chemical product ${line.productId} not found on this farm`);
+      if (product.expiryDate && startOfDay(toDate(product.expiryDate)).getTime() < appliedDay) {
+        throw new SprayError(`${product.name} expired on ${isoDate(toDate(product.expiryDate))}`);
+      }
+      return {
+        productId: product.id,
+        productName: product.name,
+        activeIngredient: product.activeIngredient,
+        unit: product.unit,
+        preHarvestIntervalDays: product.preHarvestIntervalDays,
+        reEntryIntervalHours: product.reEntryIntervalHours,
+        ratePerHectare: line.ratePerHectare,
+        quantityUsed: line.quantityUsed,
+      };
+    }),
+    input.areaSprayedHectares
+  );
+  const intervals = sprayIntervals(input.appliedAt, lines);
+  const warnings = sprayWeatherWarnings(input);
+
+  const sprayApplicationId = await db.transaction(async tx => {
+    const [header] = await tx.insert(sprayApplications).values({
+      farmId: input.farmId,
+      fieldId: input.fieldId ?? null,
+      cycleId,
+      healthRecordId: input.healthRecordId ?? null,
+      target: input.target ?? null,
+      appliedAt: input.appliedAt,
+      areaSprayedHectares: decimal(input.areaSprayedHectares, 2)!,
+      waterVolumeLitersPerHa: decimal(input.waterVolumeLitersPerHa, 2),
+      equipment: input.equipment ?? null,
+      operatorName: input.operatorName,
+      operatorUserId: input.operatorUserId ?? null,
+      temperatureC: decimal(input.temperatureC, 1),
+      humidityPercent: decimal(input.humidityPercent, 1),
+      windSpeedKmh: decimal(input.windSpeedKmh, 1),
+      windDirection: input.windDirection ?? null,
+      weatherConditions: input.weatherConditions ?? null,
+      reEntryAt: intervals.reEntryAt,
+      safeHarvestDate: intervals.safeHarvestDate,
+      notes: input.notes ?? null,
+      recordedBy: input.recordedBy ?? null,
+    });
+    const sprayId = header.insertId;
+
+    for (const line of lines) {
+      const [taken] = await tx
+        .update(chemicalProducts)
+        .set({ currentStock: sql`${chemicalProducts.currentStock} - ${line.quantityUsed}` })
+        .where(and(eq(chemicalProducts.id, line.productId), gte(chemicalProducts.currentStock, line.quantityUsed.toFixed(3))));
+      if (!taken.affectedRows) {
+        const product = byId.get(line.productId)!;
+        throw new SprayError(`Not enough ${line.productName} in stock: ${line.quantityUsed} ${line.unit} needed, ${product.currentStock} on hand`);
+      }
+      await tx.insert(sprayApplicationProducts).values({
+        sprayApplicationId: sprayId,
+        productId: line.productId,
+        productName: line.productName,
+        activeIngredient: line.activeIngredient,
+        ratePerHectare: line.ratePerHectare.toFixed(3),
+        unit: line.unit,
+        quantityUsed: line.quantityUsed.toFixed(3),
+        preHarvestIntervalDays: line.preHarvestIntervalDays,
+        reEntryIntervalHours: line.reEntryIntervalHours,
+      });
+      await tx.insert(chemicalStockTransactions).values({
+        farmId: input.farmId,
+        productId: line.productId,
+        transactionType: "spray",
+        quantity: (-line.quantityUsed).toFixed(3),
+        sprayApplicationId: sprayId,
+        transactionDate: startOfDay(input.appliedAt),
+        recordedBy: input.recordedBy ?? null,
+      });
+    }
+
+    if (input.healthRecordId !== undefined) {
+      const cost = lines.reduce((sum, line) => sum + line.quantityUsed * (num(byId.get(line.productId)!.unitCost) ?? 0), 0);
+      const [treatment] = await tx.insert(cropTreatments).values({
+        healthRecordId: input.healthRecordId,
+        treatmentDate: startOfDay(input.appliedAt),
+        treatmentType: "chemical spray",
+        productName: lines.map(line => line.productName).join(" + ").slice(0, 255),
+        dosage: lines.map(line => `${line.ratePerHectare} ${line.unit}/ha`).join(" + ").slice(0, 255),
+        applicationMethod: input.equipment ?? null,
+        cost: cost > 0 ? cost.toFixed(2) : null,
+        appliedByUserId: input.operatorUserId ?? null,
+        notes: `Spray application #${sprayId}`,
+      });
+      await tx.update(sprayApplications).set({ cropTreatmentId: treatment.insertId }).where(eq(sprayApplications.id, sprayId));
+      await tx.update(cropHealthRecords).set({ status: "treated" }).where(eq(cropHealthRecords.id, input.healthRecordId));
+    }
+    return sprayId;
+  });
+
+  return {
+    sprayApplicationId,
+    cycleId,
+    reEntryAt: intervals.reEntryAt,
+    safeHarvestDate: intervals.safeHarvestDate,
+    warnings,
+  };
+}
+
+async function loadSprays(db: Db, where: ReturnType<typeof and>) {
+  const sprays = await db
+    .select({
+      spray: sprayApplications,
+      fieldName: fields.fieldName,
+      cropName: crops.cropName,
+      varietyName: cropCycles.varietyName,
+    })
+    .from(sprayApplications)
+    .leftJoin(fields, eq(fields.id, sprayApplications.fieldId))
+    .leftJoin(cropCycles, eq(cropCycles.id, sprayApplications.cycleId))
+    .leftJoin(crops, eq(crops.id, cropCycles.cropId))
+    .where(where)
+    .orderBy(desc(sprayApplications.appliedAt));
+  const ids = sprays.map(row => row.spray.id);
+  const lines = ids.length
+    ? await db
+        .select({ line: sprayApplicationProducts, registrationNumber: chemicalProducts.registrationNumber })
+        .from(sprayApplicationProducts)
+        .leftJoin(chemicalProducts, eq(chemicalProducts.id, sprayApplicationProducts.productId))
+        .where(inArray(sprayApplicationProducts.sprayApplicationId, ids))
+        .orderBy(asc(sprayApplicationProducts.id))
+    : [];
+  return sprays.map(row => ({
+    ...row.spray,
+    fieldName: row.fieldName,
+    cropName: row.cropName,
+    varietyName: row.varietyName,
+    products: lines
+      .filter(entry => entry.line.sprayApplicationId === row.spray.id)
+      .map(entry => ({ ...entry.line, registrationNumber: entry.registrationNumber })),
+  }));
+}
+
+export async function listSprays(farmId: number, filter: { fieldId?: number; cycleId?: number; from?: Date; to?: Date } = {}) {
+  const db = await requireDb();
+  return loadSprays(db, and(
+    eq(sprayApplications.farmId, farmId),
+    filter.fieldId !== undefined ? eq(sprayApplications.fieldId, filter.fieldId) : undefined,
+    filter.cycleId !== undefined ? eq(sprayApplications.cycleId, filter.cycleId) : undefined,
+    filter.from ? gte(sprayApplications.appliedAt, filter.from) : undefined,
+    filter.to ? lte(sprayApplications.appliedAt, filter.to) : undefined
+  ));
+}
+
+/** Fields and cycles under a running REI or PHI, with when each ends */
+export async function listActiveRestrictions(farmId: number, now = new Date()) {
+  const db = await requireDb();
+  const sprays = await loadSprays(db, and(
+    eq(sprayApplications.farmId, farmId),
+    or(gt(sprayApplications.reEntryAt, now), gt(sprayApplications.safeHarvestDate, startOfDay(now)))
+  ));
+  return sprays.map(spray => ({
+    sprayApplicationId: spray.id,
+    fieldId: spray.fieldId,
+    fieldName: spray.fieldName,
+    cycleId: spray.cycleId,
+    cropName: spray.cropName,
+    products: spray.products.map(product => product.productName),
+    appliedAt: spray.appliedAt,
+    reEntryAt: spray.reEntryAt > now ? spray.reEntryAt : null,
+    safeHarvestDate: toDate(spray.safeHarvestDate) > startOfDay(now) ? toDate(spray.safeHarvestDate) : null,
+  }));
+}
+
+/** Sprays that hold up harvest of a cycle: on the cycle itself or on a field it is growing in */
+async function harvestSprays(db: Db, cycleId: number) {
+  const cycleFields = await db.select({ id: fields.id }).from(fields).where(eq(fields.currentCropCycleId, cycleId));
+  const [cycle] = await db.select({ fieldId: cropCycles.fieldId }).from(cropCycles).where(eq(cropCycles.id, cycleId)).limit(1);
+  const fieldIds = [...new Set([...cycleFields.map(field => field.id), ...(cycle?.fieldId ? [cycle.fieldId] : [])])];
+  const rows = await db
+    .select({ id: sprayApplications.id, safeHarvestDate: sprayApplications.safeHarvestDate })
+    .from(sprayApplications)
+    .where(or(
+      eq(sprayApplications.cycleId, cycleId),
+      fieldIds.length ? inArray(sprayApplications.fieldId, fieldIds) : undefined
+    ));
+  return rows.map(row => ({ id: row.id, safeHarvestDate: toDate(row.safeHarvestDate) }));
+}
+
+/** Whether a crop cycle may be harvested on a day, and if not, until when and because of what */
+export async function getHarvestStatus(cycleId: number, harvestDate = new Date()) {
+  const db = await requireDb();
+  const blocking = activePreHarvestInterval(await harvestSprays(db, cycleId), harvestDate);
+  if (!blocking) return { cycleId, harvestAllowed: true as const, safeHarvestDate: null, products: [] as string[] };
+  const products = await db
+    .select({ productName: sprayApplicationProducts.productName })
+    .from(sprayApplicationProducts)
+    .where(eq(sprayApplicationProducts.sprayApplicationId, blocking.id));
+  return {
+    cycleId,
+    harvestAllowed: false as const,
+    sprayApplicationId: blocking.id,
+    safeHarvestDate: blocking.safeHarvestDate,
+    products: products.map(product => product.productName),
+  };
+}
+
+/** Harvest status for one of a farm's crop cycles */
+export async function getCycleHarvestStatus(farmId: number, cycleId: number, harvestDate = new Date()) {
+  const db = await requireDb();
+  const [cycle] = await db
+    .select({ id: cropCycles.id })
+    .from(cropCycles)
+    .where(and(eq(cropCycles.id, cycleId), eq(cropCycles.farmId, farmId)))
+    .limit(1);
+  if (!cycle) throw new SprayError("Crop cycle not found on this farm");
+  return getHarvestStatus(cycleId, harvestDate);
+}
+
+/** Throws PreHarvestIntervalError when a PHI on the cycle is still running on the harvest day */
+export async function assertHarvestAllowed(cycleId: number, harvestDate: Date) {
+  const status = await getHarvestStatus(cycleId, harvestDate);
+  if (!status.harvestAllowed) throw new PreHarvestIntervalError(status.safeHarvestDate, status.products);
+}
+
+/** The farm's spray register for a period, as rows and as CSV */
+export async function exportSprayRegister(farmId: number, from: Date, to: Date) {
+  const db = await requireDb();
+  const sprays = await loadSprays(db, and(
+    eq(sprayApplications.farmId, farmId),
+    gte(sprayApplications.appliedAt, from),
+    lte(sprayApplications.appliedAt, to)
+  ));
+  const entries: SprayRegisterEntry[] = sprays.map(spray => ({
+    appliedAt: spray.appliedAt,
+    fieldName: spray.fieldName,
+    cropName: spray.cropName,
+    varietyName: spray.varietyName,
+    areaSprayedHectares: num(spray.areaSprayedHectares)!,
+    target: spray.target,
+    operatorName: spray.operatorName,
+    equipment: spray.equipment,
+    waterVolumeLitersPerHa: num(spray.waterVolumeLitersPerHa),
+    temperatureC: num(spray.temperatureC),
+    humidityPercent: num(spray.humidityPercent),
+    windSpeedKmh: num(spray.windSpeedKmh),
+    windDirection: spray.windDirection,
+    weatherConditions: spray.weatherConditions,
+    reEntryAt: spray.reEntryAt,
+    safeHarvestDate: toDate(spray.safeHarvestDate),
+    products: spray.products.map(product => ({
+      productName: product.productName,
+      activeIngredient: product.activeIngredient,
+      registrationNumber: product.registrationNumber,
+      ratePerHectare: num(product.ratePerHectare)!,
+      unit: product.unit,
+      quantityUsed: num(product.quantityUsed)!,
+      preHarvestIntervalDays: product.preHarvestIntervalDays,
+      reEntryIntervalHours: product.reEntryIntervalHours,
+    })),
+  }));
+  return {
+    farmId,
+    period: { from, to },
+    sprayCount: entries.length,
+    filename: `spray-register-${isoDate(from)}-to-${isoDate(to)}.csv`,
+    csv: sprayRegisterCsv(entries),
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  USSD_MAX_LENGTH,
+  formatAfricasTalkingResponse,
+  formatHubtelResponse,
+  newInputs,
+  paginate,
+  parseAfricasTalkingRequest,
+  parseHubtelRequest,
+  parsePositiveNumber,
+  phoneVariants,
+  stepSession,
+  UssdInputError,
+  type UssdContext,
+  type UssdMenu,
+} from "./ussdEngine";
+
+interface TestContext extends UssdContext {
+  saved: unknown[];
+  registered: boolean;
+}
+
+const crops = Array.from({ length: 30 }, (_, index) => `Crop number ${index + 1}: GHS ${(index + 1) * 10}.00/bag`);
+
+const menu: UssdMenu<TestContext> = {
+  start: "main",
+  screens: {
+    main: {
+      kind: "menu",
+      title: "Main",
+      options: [
+        { label: "Prices", next: "prices" },
+        { label: "Record sale", next: "crop", visible: ctx => ctx.registered },
+      ],
+    },
+    prices: { kind: "list", title: "Prices:", items: async () => crops.map(label => ({ label, value: label })), empty: "None" },
+    crop: {
+      kind: "list",
+      title: "Crop:",
+      items: async () => [{ label: "Maize", value: "maize" }, { label: "Rice", value: "rice" }],
+      empty: "None",
+      select: { next: "amount", store: "crop" },
+    },
+    amount: { kind: "input", prompt: "Amount:", store: "amount", parse: value => parsePositiveNumber(value), next: "save" },
+    save: {
+      kind: "end",
+      run: async ctx => {
+        ctx.saved.push({ ...ctx.state.data });
+        return `Saved ${ctx.state.data.amount} ${ctx.state.data.crop}`;
+      },
+    },
+  },
+};
+
+const session = (registered = true): TestContext => ({
+  state: { screen: "main", stack: [], page: 0, data: {} },
+  saved: [],
+  registered,
+});
+
+describe("stepSession", () => {
+  it("walks a form to its end screen and runs it once", async () => {
+    const ctx = session();
+    expect(await stepSession(menu, ctx, [])).toEqual({ text: "Main\n1. Prices\n2. Record sale", end: false });
+    expect((await stepSession(menu, ctx, ["2", "1"])).text).toBe("Amount:\n0. Back");
+    const reply = await stepSession(menu, ctx, ["1,500"]);
+    expect(reply).toEqual({ text: "Saved 1500 maize", end: true });
+    expect(ctx.saved).toEqual([{ crop: "maize", amount: 1500 }]);
+  });
+
+  it("re-asks with a message on bad input and supports back and home", async () => {
+    const ctx = session();
+    await stepSession(menu, ctx, ["2", "1"]);
+    expect((await stepSession(menu, ctx, ["abc"])).text).toBe("Enter a number above 0.\nAmount:\n0. Back");
+    expect((await stepSession(menu, ctx, ["0"])).text).toContain("Crop:");
+    expect((await stepSession(menu, ctx, ["00"])).text).toBe("Main\n1. Prices\n2. Record sale");
+    expect((await stepSession(menu, ctx, ["7"])).text).toBe("Invalid choice.\nMain\n1. Prices\n2. Record sale");
+  });
+
+  it("hides options the caller cannot use", async () => {
+    const ctx = session(false);
+    expect((await stepSession(menu, ctx, [])).text).toBe("Main\n1. Prices");
+    expect((await stepSession(menu, ctx, ["2"])).text).toContain("Invalid choice.");
+  });
+
+  it("pages long lists within the USSD limit", async () => {
+    const ctx = session();
+    const first = await stepSession(menu, ctx, ["1"]);
+    expect(first.text.length).toBeLessThanOrEqual(USSD_MAX_LENGTH);
+    expect(first.text).toContain("98. More");
+    const second = await stepSession(menu, ctx, ["98"]);
+    expect(second.text).not.toContain("Crop number 1:");
+    expect(second.text.length).toBeLessThanOrEqual(USSD_MAX_LENGTH);
+  });
+});
+
+describe("paginate", () => {
+  it("keeps numbering stable and omits More on the last page", () => {
+    const lines = Array.from({ length: 12 }, (_, index) => `${index + 1}. Item with a fairly long name`);
+    const pages: string[] = [];
+    for (let page = 0, more = true; more; page++) {
+      const result = paginate("Pick one:", lines, page);
+      pages.push(result.text);
+      more = result.hasMore;
+    }
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.every(page => page.length <= USSD_MAX_LENGTH)).toBe(true);
+    expect(pages.at(-1)).not.toContain("98. More");
+    expect(pages.join("\n")).toContain("12. Item");
+  });
+});
+
+describe("gateway adapters", () => {
+  it("reads Africa's Talking cumulative text", () => {
+    const request = parseAfricasTalkingRequest({ sessionId: "ATx1", serviceCode: "*384*12#", phoneNumber: "+233244000111", text: "2*1*150" });
+    expect(newInputs(request, 2)).toEqual(["150"]);
+    expect(parseAfricasTalkingRequest({ sessionId: "ATx1", phoneNumber: "+233244000111", text: "" }).kind).toBe("start");
+    expect(formatAfricasTalkingResponse({ text: "Main", end: false })).toBe("CON Main");
+  });
+
+  it("reads Hubtel session types", () => {
+    const base = { SessionId: "h1", Mobile: "233244000111", ServiceCode: "714", Operator: "mtn" };
+    expect(parseHubtelRequest({ ...base, Type: "Initiation", Message: "*714#" }).kind).toBe("start");
+    const response = parseHubtelRequest({ ...base, Type: "Response", Message: "2" });
+    expect(newInputs(response, 5)).toEqual(["2"]);
+    expect(parseHubtelRequest({ ...base, Type: "Timeout" }).kind).toBe("end");
+    expect(formatHubtelResponse({ text: "Bye", end: true })).toEqual({ Type: "Release", Message: "Bye", ClientState: "" });
+    expect(() => parseHubtelRequest({ Type: "Response" })).toThrow(UssdInputError);
+  });
+
+  it("matches the phone formats users save", () => {
+    expect(phoneVariants("+233 24 400 0111")).toEqual(expect.arrayContaining(["+233244000111", "233244000111", "0244000111"]));
+    expect(phoneVariants("0244000111")).toContain("+233244000111");
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * USSD menu engine
+ * Menus are declared as a map of screens (menu, list, input, end) and the
+ * engine moves a session through them one input at a time. Session state is
+ * plain JSON so it can be stored between gateway requests. Long lists are
+ * paged to fit the 182-character USSD limit.
+ *
+ * Navigation keys on every continuing screen:
+ *   0   back        00  main menu        98  more (next page)
+ *
+ * Gateway adapters translate Africa's Talking (form post, cumulative
+ * "1*2*3" text, plain-text "CON"/"END" reply) and Hubtel (JSON with a
+ * Type of Initiation/Response/Release/Timeout) into one request shape.
+ */
+
+export const USSD_MAX_LENGTH = 182;
+
+export const NAV = { back: "0", home: "00", more: "98" } as const;
+
+export interface UssdState {
+  screen: string;
+  stack: string[];
+  page: number;
+  data: Record<string, any>;
+  error?: string;
+}
+
+export interface UssdContext {
+  state: UssdState;
+}
+
+export interface UssdOption<C extends UssdContext> {
+  label: string;
+  next: string;
+  visible?: (ctx: C) => boolean;
+  /** Values merged into state.data when the option is picked */
+  set?: Record<string, unknown>;
+}
+
+export interface UssdListItem {
+  label: string;
+  value: unknown;
+}
+
+export type UssdScreen<C extends UssdContext> =
+  | { kind: "menu"; title: string | ((ctx: C) => string); options: UssdOption<C>[] }
+  | {
+      kind: "list";
+      title: string | ((ctx: C) => string);
+      items: (ctx: C) => Promise<UssdListItem[]>;
+      empty: string;
+      /** Where a selection goes and the data key it is stored under; lists without it are read-only */
+      select?: { next: string; store: string };
+    }
+  | {
+      kind: "input";
+      prompt: string | ((ctx: C) => string);
+      store: string;
+      /** Throw UssdInputError to ask again */
+      parse?: (value: string, ctx: C) => unknown;
+      next: string;
+    }
+  | { kind: "end"; run: (ctx: C) => Promise<string> };
+
+export interface UssdMenu<C extends UssdContext> {
+  start: string | ((ctx: C) => string);
+  screens: Record<string, UssdScreen<C>>;
+}
+
+export interface UssdReply {
+  text: string;
+  end: boolean;
+}
+
+export class UssdInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UssdInputError";
+  }
+}
+
+export function initialState<C extends UssdContext>(menu: UssdMenu<C>, ctx: Omit<C, "state"> & { state?: UssdState }): UssdState {
+  const screen = typeof menu.start === "function" ? menu.start(ctx as C) : menu.start;
+  return { screen, stack: [], page: 0, data: {} };
+}
+
+const text = <C extends UssdContext>(value: string | ((ctx: C) => string), ctx: C) =>
+  typeof value === "function" ? value(ctx) : value;
+
+function visibleOptions<C extends UssdContext>(screen: Extract<UssdScreen<C>, { kind: "menu" }>, ctx: C) {
+  return screen.options.filter(option => !option.visible || option.visible(ctx));
+}
+
+export function truncate(value: string, max: number = USSD_MAX_LENGTH): string {
+  return value.length <= max ? value : `${value.slice(0, max - 3)}...`;
+}
+
+/**
+ * Split numbered lines into pages that fit the USSD limit together with the
+ * header and the navigation footer. Numbers continue across pages, so the
+ * number a user types always maps to the same item.
+ */
+export function paginate(header: string, lines: string[], page: number, max: number = USSD_MAX_LENGTH) {
+  const pages: number[][] = [];
+  let current: number[] = [];
+  let length = 0;
+  const footer = (more: boolean) => `${more ? `\n${NAV.more}. More` : ""}\n${NAV.back}. Back`.length;
+  const budget = max - header.length;
+
+  lines.forEach((line, index) => {
+    const cost = line.length + 1;
+    // Leave room for the "More" footer unless this could be the last line
+    const room = budget - footer(index < lines.length - 1);
+    if (current.length && length + cost > room) {
+      pages.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(index);
+    length += cost;
+  });
+  if (current.length) pages.push(current);
+
+  const pageIndex = Math.min(Math.max(0, page), Math.max(0, pages.length - 1));
+  const shown = pages[pageIndex] ?? [];
+  const hasMore = pageIndex < pages.length - 1;
+  const body = shown.map(index => truncate(lines[index], budget - footer(hasMore) - 1));
+  return {
+    text: [header, ...body, ...(hasMore ? [`${NAV.more}. More`] : []), `${NAV.back}. Back`].join("\n"),
+    page: pageIndex,
+    pageCount: pages.length,
+    hasMore,
+  };
+}
+
+/** Render the session's current screen. End screens run their action here. */
+export async function renderScreen<C extends UssdContext>(menu: UssdMenu<C>, ctx: C): Promise<UssdReply> {
+  const screen = menu.screens[ctx.state.screen];
+  if (!screen) return { text: "Service unavailable. Please dial again.", end: true };
+  const error = ctx.state.error ? `${ctx.state.error}\n` : "";
+  ctx.state.error = undefined;
+
+  switch (screen.kind) {
+    case "menu": {
+      const options = visibleOptions(screen, ctx).map((option, index) => `${index + 1}. ${option.label}`);
+      const footer = ctx.state.stack.length ? [`${NAV.back}. Back`] : [];
+      return { text: truncate([error + text(screen.title, ctx), ...options, ...footer].join("\n")), end: false };
+    }
+    case "list": {
+      const items = await screen.items(ctx);
+      if (!items.length) return { text: truncate(screen.empty), end: true };
+      const lines = items.map((item, index) => (screen.select ? `${index + 1}. ${item.label}` : item.label));
+      const page = paginate(error + text(screen.title, ctx), lines, ctx.state.page);
+      ctx.state.page = page.page;
+      return { text: page.text, end: false };
+    }
+    case "input":
+      return { text: truncate(`${error}${text(screen.prompt, ctx)}\n${NAV.back}. Back`), end: false };
+    case "end":
+      return { text: truncate(await screen.run(ctx)), end: true };
+  }
+}
+
+function goTo<C extends UssdContext>(ctx: C, next: string) {
+  ctx.state.stack.push(ctx.state.screen);
+  ctx.state.screen = next;
+  ctx.state.page = 0;
+}
+
+/**
+ * Apply one input to the session. Returns false when the input could not be
+ * understood; the current screen is then shown again with a message.
+ */
+export async function applyInput<C extends UssdContext>(menu: UssdMenu<C>, ctx: C, rawInput: string): Promise<boolean> {
+  const input = rawInput.trim();
+  const { state } = ctx;
+  const screen = menu.screens[state.screen];
+  if (!screen || screen.kind === "end") return false;
+
+  if (input === NAV.home) {
+    const start = typeof menu.start === "function" ? menu.start(ctx) : menu.start;
+    Object.assign(state, { screen: start, stack: [], page: 0 });
+    return true;
+  }
+  if (input === NAV.back && state.stack.length) {
+    state.screen = state.stack.pop()!;
+    state.page = 0;
+    return true;
+  }
+
+  switch (screen.kind) {
+    case "menu": {
+      const option = visibleOptions(screen, ctx)[Number(input) - 1];
+      if (!/^\d+$/.test(input) || !option) break;
+      if (option.set) Object.assign(state.data, option.set);
+      goTo(ctx, option.next);
+      return true;
+    }
+    case "list": {
+      if (input === NAV.more) {
+        state.page += 1;
+        return true;
+      }
+      if (!screen.select || !/^\d+$/.test(input)) break;
+      const items = await screen.items(ctx);
+      const item = items[Number(input) - 1];
+      if (!item) break;
+      state.data[screen.select.store] = item.value;
+      goTo(ctx, screen.select.next);
+      return true;
+    }
+    case "input": {
+      try {
+        state.data[screen.store] = screen.parse ? screen.parse(input, ctx) : input;
+      } catch (error) {
+        if (!(error instanceof UssdInputError)) throw error;
+        state.error = error.message;
+        return false;
+      }
+      goTo(ctx, screen.next);
+      return true;
+    }
+  }
+
+  state.error = "Invalid choice.";
+  return false;
+}
+
+/** Apply the new inputs in order and render where the session ends up */
+export async function stepSession<C extends UssdContext>(menu: UssdMenu<C>, ctx: C, inputs: string[]): Promise<UssdReply> {
+  for (const input of inputs) {
+    await applyInput(menu, ctx, input);
+    if (menu.screens[ctx.state.screen]?.kind === "end") break;
+  }
+  return renderScreen(menu, ctx);
+}
+
+// ============================================================================
+// INPUT HELPERS
+// ============================================================================
+
+export function parsePositiveNumber(value: string, max: number = 1_000_000): number {
+  const amount = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(amount) || amount <= 0) throw new UssdInputError("Enter a number above 0.");
+  if (amount > max) throw new UssdInputError(`Enter a number up to ${max}.`);
+  return Math.round(amount * 100) / 100;
+}
+
+export function parseText(value: string, maxLength: number = 100): string {
+  const cleaned = value.replace(/\s+/g, " ").trim();
+  if (cleaned.length < 2) throw new UssdInputError("Please enter some text.");
+  return cleaned.slice(0, maxLength);
+}
+
+/**
+ * The forms a number can take across gateways and user profiles:
+ * "+233244123456", "233244123456" and "0244123456".
+ */
+export function phoneVariants(phone: string, countryCode: string = "233"): string[] {
+  const digits = phone.replace(/[^\d]/g, "");
+  if (!digits) return [];
+  let national = digits;
+  if (digits.startsWith(countryCode)) national = digits.slice(countryCode.length);
+  else if (digits.startsWith("0")) national = digits.slice(1);
+  return [...new Set([`+${countryCode}${national}`, `${countryCode}${national}`, `0${national}`, phone.trim()])];
+}
+
+// ============================================================================
+// GATEWAY ADAPTERS
+// ============================================================================
+
+export type UssdProvider = "africastalking" | "hubtel";
+
+export interface UssdRequest {
+  provider: UssdProvider;
+  sessionId: string;
+  phoneNumber: string;
+  serviceCode: string;
+  kind: "start" | "input" | "end";
+  /** Hubtel: the single new input */
+  input?: string;
+  /** Africa's Talking: every input so far, joined with "*" */
+  path?: string;
+}
+
+export function parseAfricasTalkingRequest(body: Record<string, unknown>): UssdRequest {
+  const sessionId = String(body.sessionId ?? "");
+  const phoneNumber = String(body.phoneNumber ?? "");
+  if (!sessionId || !phoneNumber) throw new UssdInputError("sessionId and phoneNumber are required");
+  const path = String(body.text ?? "");
+  return {
+    provider: "africastalking",
+    sessionId,
+    phoneNumber,
+    serviceCode: String(body.serviceCode ?? ""),
+    kind: path === "" ? "start" : "input",
+    path,
+  };
+}
+
+/** Inputs in the cumulative path that the session has not applied yet */
+export function newInputs(request: UssdRequest, applied: number): string[] {
+  if (request.kind !== "input") return [];
+  if (request.provider === "hubtel") return [request.input ?? ""];
+  return (request.path ?? "").split("*").slice(applied);
+}
+
+export function formatAfricasTalkingResponse(reply: UssdReply): string {
+  return `${reply.end ? "END" : "CON"} ${reply.text}`;
+}
+
+export function parseHubtelRequest(body: Record<string, unknown>): UssdRequest {
+  const sessionId = String(body.SessionId ?? "");
+  const phoneNumber = String(body.Mobile ?? "");
+  if (!sessionId || !phoneNumber) throw new UssdInputError("SessionId and Mobile are required");
+  const type = String(body.Type ?? "").toLowerCase();
+  return {
+    provider: "hubtel",
+    sessionId,
+    phoneNumber,
+    serviceCode: String(body.ServiceCode ?? ""),
+    kind: type === "initiation" ? "start" : type === "response" ? "input" : "end",
+    input: String(body.Message ?? ""),
+  };
+}
+
+export function formatHubtelResponse(reply: UssdReply) {
+  return { Type: reply.end ? "Release" : "Response", Message: reply.text, ClientState: "" };
+}
@@ -0,0 +1,411 @@
+import { and, asc, eq, gte, inArray, isNull, or, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  animals,
+  expenses,
+  farmPermissions,
+  farms,
+  feedingRecords,
+  marketplaceProducts,
+  taskAssignments,
+  users,
+  ussdSessions,
+  vetAppointments,
+  veterinarians,
+} from "../../drizzle/schema";
+import { hasFarmRole, type FarmRole } from "../_core/farmAccess";
+import { recordInLedger } from "./ledgerService";
+import {
+  initialState,
+  newInputs,
+  parsePositiveNumber,
+  parseText,
+  phoneVariants,
+  stepSession,
+  type UssdContext,
+  type UssdMenu,
+  type UssdReply,
+  type UssdRequest,
+  type UssdState,
+} from "./ussdEngine";
+
+/**
+ * FarmKonnect USSD service
+ * The menu feature-phone farmers see when they dial the short code, backed
+ * by their own records: open tasks, market prices from active marketplace
+ * listings, upcoming vet appointments, and short forms for recording a
+ * feeding or an expense. The caller is identified by phone number; the
+ * gateway vouches for the number, so nothing else is asked.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+const PRICE_WINDOW_DAYS = 30;
+
+export interface FarmChoice {
+  id: number;
+  name: string;
+  role: FarmRole;
+}
+
+export interface FarmUssdContext extends UssdContext {
+  db: Db;
+  phoneNumber: string;
+  user: { id: number; name: string | null } | null;
+  farms: FarmChoice[];
+}
+
+const farmOf = (ctx: FarmUssdContext) => ctx.state.data.farm as FarmChoice | undefined;
+const canRecord = (ctx: FarmUssdContext) => hasFarmRole(farmOf(ctx)?.role ?? null, "editor");
+const shortDate = (value: Date) => `${String(value.getDate()).padStart(2, "0")}/${String(value.getMonth() + 1).padStart(2, "0")}`;
+const titleCase = (value: string) => value.replace(/_/g, " ").replace(/^\w/, letter => letter.toUpperCase());
+
+function requireFarm(ctx: FarmUssdContext) {
+  const farm = farmOf(ctx);
+  if (!farm) throw new Error("No farm selected");
+  return farm;
+}
+
+export const farmUssdMenu: UssdMenu<FarmUssdContext> = {
+  start: ctx => (!ctx.user ? "guest" : ctx.farms.length === 1 ? "main" : ctx.farms.length ? "select_farm" : "no_farm"),
+  screens: {
+    guest: {
+      kind: "menu",
+      title: "Welcome to FarmKonnect\nThis number is not registered.",
+      options: [
+        { label: "Market prices", next: "prices" },
+        { label: "How to register", next: "register_info" },
+      ],
+    },
+    register_info: {
+      kind: "end",
+      run: async () => "Register at farmkonnect.com or ask your extension officer to add this phone number to your profile.",
+    },
+    no_farm: {
+      kind: "end",
+      run: async ctx => `Hello ${ctx.user?.name ?? "farmer"}, you have no farm yet. Add one at farmkonnect.com.`,
+    },
+    select_farm: {
+      kind: "list",
+      title: "Choose a farm:",
+      items: async ctx => ctx.farms.map(farm => ({ label: farm.name, value: farm })),
+      empty: "No farms found.",
+      select: { next: "main", store: "farm" },
+    },
+    main: {
+      kind: "menu",
+      title: ctx => `FarmKonnect - ${farmOf(ctx)?.name ?? ""}`,
+      options: [
+        { label: "My tasks", next: "tasks" },
+        { label: "Market prices", next: "prices" },
+        { label: "Vet appointments", next: "vet_appointments" },
+        { label: "Record feeding", next: "feeding_animal", visible: canRecord },
+        { label: "Record expense", next: "expense_type", visible: canRecord },
+        { label: "Switch farm", next: "select_farm", visible: ctx => ctx.farms.length > 1 },
+      ],
+    },
+
+    // Tasks
+    tasks: {
+      kind: "list",
+      title: "Open tasks:",
+      items: async ctx => {
+        const rows = await ctx.db
+          .select()
+          .from(taskAssignments)
+          .where(and(
+            eq(taskAssignments.farmId, requireFarm(ctx).id),
+            inArray(taskAssignments.status, ["pending", "in_progress"])
+          ))
+          .orderBy(asc(taskAssignments.dueDate))
+          .limit(50);
+        return rows.map(task => ({
+          label: `${task.title} (${shortDate(task.dueDate)})`,
+          value: { id: task.id, title: task.title, dueDate: task.dueDate.toISOString(), priority: task.priority, status: task.status },
+        }));
+      },
+      empty: "No open tasks. Well done!",
+      select: { next: "task_detail", store: "task" },
+    },
+    task_detail: {
+      kind: "menu",
+      title: ctx => {
+        const task = ctx.state.data.task;
+        return `${task.title}\nDue ${shortDate(new Date(task.dueDate))}, ${task.priority} priority`;
+      },
+      options: [
+        { label: "Start task", next: "task_started", visible: ctx => ctx.state.data.task?.status === "pending" && canRecord(ctx) },
+        { label: "Mark done", next: "task_done", visible: canRecord },
+      ],
+    },
+    task_started: {
+      kind: "end",
+      run: async ctx => {
+        await ctx.db
+          .update(taskAssignments)
+          .set({ status: "in_progress" })
+          .where(and(eq(taskAssignments.id, ctx.state.data.task.id), eq(taskAssignments.farmId, requireFarm(ctx).id)));
+        return `Started: ${ctx.state.data.task.title}`;
+      },
+    },
+    task_done: {
+      kind: "end",
+      run: async ctx => {
+        await ctx.db
+          .update(taskAssignments)
+          .set({ status: "completed", completedAt: new Date() })
+          .where(and(eq(taskAssignments.id, ctx.state.data.task.id), eq(taskAssignments.farmId, requireFarm(ctx).id)));
+        return `Done: ${ctx.state.data.task.title}`;
+      },
+    },
+
+    // Market prices
+    prices: {
+      kind: "list",
+      title: `Market prices (GHS, last ${PRICE_WINDOW_DAYS} days):`,
+      items: async ctx => {
+        const since = new Date(Date.now() - PRICE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const rows = await ctx.db
+          .select({
+            productType: marketplaceProducts.productType,
+            unit: marketplaceProducts.unit,
+            averagePrice: sql<string>`avg(${marketplaceProducts.price})`,
+            listings: sql<number>`count(*)`,
+          })
+          .from(marketplaceProducts)
+          .where(and(eq(marketplaceProducts.status, "active"), gte(marketplaceProducts.updatedAt, since)))
+          .groupBy(marketplaceProducts.productType, marketplaceProducts.unit)
+          .orderBy(sql`count(*) desc`)
+          .limit(40);
+        return rows.map(row => ({
+          label: `${row.productType}: ${Number(row.averagePrice).toFixed(2)}/${row.unit}`,
+          value: row.productType,
+        }));
+      },
+      empty: "No market prices available right now.",
+    },
+
+    // Vet appointments
+    vet_appointments: {
+      kind: "list",
+      title: "Upcoming vet visits:",
+      items: async ctx => {
+        const rows = await ctx.db
+          .select({ appointment: vetAppointments, clinic: veterinarians.clinicName, clinicPhone: veterinarians.clinicPhone })
+          .from(vetAppointments)
+          .leftJoin(veterinarians, eq(veterinarians.id, vetAppointments.veterinarianId))
+          .where(and(
+            eq(vetAppointments.farmId, requireFarm(ctx).id),
+            inArray(vetAppointments.status, ["scheduled", "confirmed"]),
+            gte(vetAppointments.appointmentDate, new Date())
+          ))
+          .orderBy(asc(vetAppointments.appointmentDate))
+          .limit(20);
+        return rows.map(({ appointment, clinic, clinicPhone }) => {
+          const at = appointment.appointmentDate;
+          const time = `${String(at.getHours()).padStart(2, "0")}:${String(at.getMinutes()).padStart(2, "0")}`;
+          return {
+            label: `${shortDate(at)} ${time} ${titleCase(appointment.appointmentType)}${clinic ? ` - ${clinic}` : ""}${clinicPhone ? ` ${clinicPhone}` : ""}`,
+            value: appointment.id,
+          };
+        });
+      },
+      empty: "No upcoming vet appointments.",
+    },
+
+    // Record feeding
+    feeding_animal: {
+      kind: "list",
+      title: "Which animal?",
+      items: async ctx => {
+        const rows = await ctx.db
+          .select({ id: animals.id, tag: animals.uniqueTagId, breed: animals.breed })
+          .from(animals)
+          .where(and(eq(animals.farmId, requireFarm(ctx).id), or(eq(animals.status, "active"), isNull(animals.status))))
+          .orderBy(asc(animals.uniqueTagId))
+          .limit(200);
+        return rows.map(animal => {
+          const tag = animal.tag ?? `#${animal.id}`;
+          return { label: animal.breed ? `${tag} ${animal.breed}` : tag, value: { id: animal.id, tag } };
+        });
+      },
+      empty: "No active animals on this farm.",
+      select: { next: "feeding_type", store: "animal" },
+    },
+    feeding_type: {
+      kind: "input",
+      prompt: "Feed type (e.g. maize bran):",
+      store: "feedType",
+      parse: value => parseText(value),
+      next: "feeding_quantity",
+    },
+    feeding_quantity: {
+      kind: "input",
+      prompt: "Quantity in kg:",
+      store: "quantityKg",
+      parse: value => parsePositiveNumber(value, 100_000),
+      next: "feeding_confirm",
+    },
+    feeding_confirm: {
+      kind: "menu",
+      title: ctx => `Record ${ctx.state.data.quantityKg}kg ${ctx.state.data.feedType} for ${ctx.state.data.animal.tag}?`,
+      options: [
+        { label: "Confirm", next: "feeding_save" },
+        { label: "Cancel", next: "cancelled" },
+      ],
+    },
+    feeding_save: {
+      kind: "end",
+      run: async ctx => {
+        const { animal, feedType, quantityKg } = ctx.state.data;
+        const [owned] = await ctx.db
+          .select({ id: animals.id })
+          .from(animals)
+          .where(and(eq(animals.id, animal.id), eq(animals.farmId, requireFarm(ctx).id)))
+          .limit(1);
+        if (!owned) return "That animal is no longer on this farm. Nothing was saved.";
+        await ctx.db.insert(feedingRecords).values({
+          animalId: animal.id,
+          feedDate: new Date(),
+          feedType,
+          quantityKg: String(quantityKg),
+          notes: "Recorded by USSD",
+        });
+        return `Saved: ${quantityKg}kg ${feedType} for ${animal.tag}.`;
+      },
+    },
+
+    // Record expense
+    expense_type: {
+      kind: "list",
+      title: "Expense type:",
+      items: async () => expenses.expenseType.enumValues.map(type => ({ label: titleCase(type), value: type })),
+      empty: "No expense types.",
+      select: { next: "expense_amount", store: "expenseType" },
+    },
+    expense_amount: {
+      kind: "input",
+      prompt: "Amount paid (GHS):",
+      store: "amount",
+      parse: value => parsePositiveNumber(value),
+      next: "expense_description",
+    },
+    expense_description: {
+      kind: "input",
+      prompt: "What was it for?",
+      store: "description",
+      parse: value => parseText(value, 200),
+      next: "expense_confirm",
+    },
+    expense_confirm: {
+      kind: "menu",
+      title: ctx => `Record GHS ${ctx.state.data.amount.toFixed(2)} ${titleCase(ctx.state.data.expenseType)}: ${ctx.state.data.description}?`,
+      options: [
+        { label: "Confirm", next: "expense_save" },
+        { label: "Cancel", next: "cancelled" },
+      ],
+    },
+    expense_save: {
+      kind: "end",
+      run: async ctx => {
+        const { expenseType, amount, description } = ctx.state.data;
+        const today = new Date();
+        const [header] = await ctx.db.insert(expenses).values({
+          farmId: requireFarm(ctx).id,
+          expenseType,
+          description,
+          amount: amount.toFixed(2),
+          expenseDate: today,
+          paymentStatus: "paid",
+          paymentDate: today,
+          notes: `Recorded by USSD from ${ctx.phoneNumber}`,
+        });
+        await recordInLedger("expense", header.insertId, ctx.user?.id);
+        return `Saved: GHS ${amount.toFixed(2)} for ${description}.`;
+      },
+    },
+
+    cancelled: { kind: "end", run: async () => "Cancelled. Nothing was saved." },
+  },
+};
+
+/** Resolve the caller and the farms they can use from their phone number */
+export async function resolveCaller(db: Db, phoneNumber: string) {
+  const variants = phoneVariants(phoneNumber);
+  const [user] = variants.length
+    ? await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.phone, variants)).limit(1)
+    : [];
+  if (!user) return { user: null, farms: [] as FarmChoice[] };
+
+  const owned = await db.select({ id: farms.id, name: farms.farmName }).from(farms).where(eq(farms.farmerUserId, user.id));
+  const shared = await db
+    .select({ id: farms.id, name: farms.farmName, role: farmPermissions.role, expiresAt: farmPermissions.expiresAt })
+    .from(farmPermissions)
+    .innerJoin(farms, eq(farms.id, farmPermissions.farmId))
+    .where(eq(farmPermissions.userId, user.id));
+
+  const now = Date.now();
+  const choices: FarmChoice[] = owned.map(farm => ({ ...farm, role: "owner" as const }));
+  for (const farm of shared) {
+    if (farm.expiresAt && farm.expiresAt.getTime() <= now) continue;
+    if (!choices.some(choice => choice.id === farm.id)) choices.push({ id: farm.id, name: farm.name, role: farm.role });
+  }
+  return { user, farms: choices };
+}
+
+/**
+ * Handle one gateway request: load or start the session, apply the inputs
+ * it has not seen yet and store the new state.
+ */
+export async function handleUssdRequest(request: UssdRequest): Promise<UssdReply> {
+  const db = await getDb();
+  if (!db) return { text: "Service temporarily unavailable. Please try again later.", end: true };
+
+  const where = and(eq(ussdSessions.provider, request.provider), eq(ussdSessions.sessionId, request.sessionId));
+  if (request.kind === "end") {
+    await db.update(ussdSessions).set({ status: "ended" }).where(where);
+    return { text: "", end: true };
+  }
+
+  const caller = await resolveCaller(db, request.phoneNumber);
+  let [session] = await db.select().from(ussdSessions).where(where).limit(1);
+  if (session && session.status !== "active") {
+    return { text: "This session has ended. Please dial again.", end: true };
+  }
+
+  let state: UssdState;
+  let applied = 0;
+  if (!session) {
+    const base = { db, phoneNumber: request.phoneNumber, ...caller };
+    state = initialState(farmUssdMenu, base);
+    if (caller.farms.length === 1) state.data.farm = caller.farms[0];
+    await db.insert(ussdSessions).values({
+      sessionId: request.sessionId,
+      provider: request.provider,
+      phoneNumber: request.phoneNumber,
+      serviceCode: request.serviceCode || null,
+      userId: caller.user?.id ?? null,
+      state,
+    });
+    [session] = await db.select().from(ussdSessions).where(where).limit(1);
+  } else {
+    state = session.state as UssdState;
+    applied = session.inputCount;
+  }
+
+  const ctx: FarmUssdContext = { db, state, phoneNumber: request.phoneNumber, ...caller };
+  const inputs = newInputs(request, applied);
+  const reply = await stepSession(farmUssdMenu, ctx, inputs);
+
+  await db
+    .update(ussdSessions)
+    .set({
+      state: ctx.state,
+      farmId: farmOf(ctx)?.id ?? null,
+      inputCount: applied + inputs.length,
+      status: reply.end ? "ended" : "active",
+      lastResponse: reply.text,
+    })
+    .where(eq(ussdSessions.id, session.id));
+  return reply;
+}
@@ -0,0 +1,116 @@
+/**
+ * Valve controller adapters
+ * The irrigation scheduler talks to field hardware through this interface
+ * so the same scheduling logic can drive a real controller gateway or the
+ * in-memory simulator used in development and tests.
+ */
+
+export interface ValveCommand {
+  action: "open" | "close";
+  valveId: string;
+  durationMinutes?: number;
+  at: Date;
+}
+
+export interface ValveController {
+  readonly name: string;
+  /** Open a valve. Controllers should also close it after durationMinutes as a failsafe. */
+  open(valveId: string, durationMinutes: number): Promise<void>;
+  close(valveId: string): Promise<void>;
+}
+
+export class ValveControllerError extends Error {
+  constructor(message: string, public readonly valveId: string) {
+    super(message);
+    this.name = "ValveControllerError";
+  }
+}
+
+/** Records commands in memory and tracks which valves are open. */
+export class SimulatedValveController implements ValveController {
+  readonly name = "simulated";
+  readonly commands: ValveCommand[] = [];
+  readonly openValves = new Set<string>();
+  private readonly failing = new Set<string>();
+
+  async open(valveId: string, durationMinutes: number) {
+    if (this.failing.has(valveId)) throw new ValveControllerError("Valve did not respond", valveId);
+    this.commands.push({ action: "open", valveId, durationMinutes, at: new Date() });
+    this.openValves.add(valveId);
+  }
+
+  async close(valveId: string) {
+    if (this.failing.has(valveId)) throw new ValveControllerError("Valve did not respond", valveId);
+    this.commands.push({ action: "close", valveId, at: new Date() });
+    this.openValves.delete(valveId);
+  }
+
+  /** Make every command to this valve fail, to exercise error handling. */
+  failValve(valveId: string) {
+    this.failing.add(valveId);
+  }
+}
+
+/**
+ * Sends commands to an HTTP controller gateway:
+ * POST {baseUrl}/valves/{valveId}/open  { durationMinutes }
+ * POST {baseUrl}/valves/{valveId}/close
+ */
+export class HttpValveController implements ValveController {
+  readonly name = "http";
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+    private readonly timeoutMs: number = 10000
+  ) {}
+
+  async open(valveId: string, durationMinutes: number) {
+    await this.send(valveId, "open", { durationMinutes });
+  }
+
+  async close(valveId: string) {
+    await this.send(valveId, "close", {});
+  }
+
+  private async send(valveId: string, action: "open" | "close", body: Record<string, unknown>) {
+    const url = `${this.baseUrl.replace(/\/$/, "")}/valves/${encodeURIComponent(valveId)}/${action}`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new ValveControllerError(`Controller unreachable: ${(error as Error).message}`, valveId);
+    }
+    if (!response.ok) {
+      throw new ValveControllerError(`Controller rejected ${action} (HTTP ${response.status})`, valveId);
+    }
+  }
+}
+
+let controller: ValveController | null = null;
+
+/**
+ * The configured controller: VALVE_CONTROLLER_URL selects the HTTP gateway,
+ * otherwise commands go to the simulator.
+ */
+export function getValveController(): ValveController {
+  if (!controller) {
+    const url = process.env.VALVE_CONTROLLER_URL;
+    controller = url
+      ? new HttpValveController(url, process.env.VALVE_CONTROLLER_API_KEY)
+      : new SimulatedValveController();
+  }
+  return controller;
+}
+
+export function setValveController(next: ValveController | null) {
+  controller = next;
+}
@@ -0,0 +1,415 @@
+import { and, asc, desc, eq, gte, inArray, isNotNull, lte } from "drizzle-orm";
+import {
+  animals,
+  animalTypes,
+  breeds,
+  feedingRecords,
+  performanceMetrics,
+  sessionWeights,
+  speciesTemplates,
+  weighingSessions,
+} from "../../drizzle/schema";
+import { getDb } from "../db";
+import {
+  assessGrowth,
+  averageDailyGain,
+  expectedWeight,
+  feedConversionRatio,
+  GrowthError,
+  growthCurve,
+  parseBreedWeight,
+  parseScaleCsv,
+  summarizeGroupGrowth,
+  type GrowthCurve,
+  type WeightPoint,
+} from "./growth";
+
+/**
+ * Weighing sessions and growth
+ * A session weighs a pen or group in one go, by tag scan or from a scale
+ * indicator's CSV. Each weight is also written to the day's
+ * performanceMetrics row, which stays the animal's weight history (older
+ * single weights recorded there count too). Growth is compared with the
+ * breed curve, and feed from feedingRecords gives the conversion ratio.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function dateOnly(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function requireSession(db: Db, farmId: number, sessionId: number) {
+  const [session] = await db
+    .select()
+    .from(weighingSessions)
+    .where(and(eq(weighingSessions.id, sessionId), eq(weighingSessions.farmId, farmId)))
+    .limit(1);
+  if (!session) throw new GrowthError("Weighing session not found on this farm");
+  return session;
+}
+
+/** Put the weight on the day's performanceMetrics row, which older reports and the growth series read */
+async function syncDailyWeight(db: Db, animalId: number, day: Date, weightKg: number) {
+  const [existing] = await db
+    .select({ id: performanceMetrics.id })
+    .from(performanceMetrics)
+    .where(and(eq(performanceMetrics.animalId, animalId), eq(performanceMetrics.metricDate, day)))
+    .limit(1);
+  if (existing) {
+    await db.update(performanceMetrics).set({ weightKg: weightKg.toFixed(2) }).where(eq(performanceMetrics.id, existing.id));
+  } else {
+    await db.insert(performanceMetrics).values({ animalId, metricDate: day, weightKg: weightKg.toFixed(2) });
+  }
+}
+
+async function saveWeight(
+  db: Db,
+  session: { id: number; sessionDate: Date | string },
+  animalId: number,
+  weightKg: number,
+  weighedAt: Date | null,
+  scannedTag: string | null
+) {
+  const at = weighedAt ?? toDate(session.sessionDate);
+  await db
+    .insert(sessionWeights)
+    .values({ sessionId: session.id, animalId, weightKg: weightKg.toFixed(2), weighedAt: at, scannedTag })
+    .onDuplicateKeyUpdate({ set: { weightKg: weightKg.toFixed(2), weighedAt: at, scannedTag } });
+  await syncDailyWeight(db, animalId, dateOnly(at), weightKg);
+}
+
+export async function openWeighingSession(input: {
+  farmId: number;
+  groupName: string;
+  sessionDate: Date;
+  method?: "tag_scan" | "csv_import" | "manual";
+  scaleName?: string;
+  notes?: string;
+  createdBy?: number;
+}) {
+  const db = await requireDb();
+  const [header] = await db.insert(weighingSessions).values({
+    farmId: input.farmId,
+    groupName: input.groupName.trim(),
+    sessionDate: dateOnly(input.sessionDate),
+    method: input.method,
+    scaleName: input.scaleName,
+    notes: input.notes,
+    createdBy: input.createdBy,
+  });
+  return { sessionId: header.insertId };
+}
+
+/**
+ * Record one animal from a tag scan (or by id for manual entry). Weighing
+ * the same animal again in the session replaces its weight.
+ */
+export async function recordSessionWeight(input: {
+  farmId: number;
+  sessionId: number;
+  tag?: string;
+  animalId?: number;
+  weightKg: number;
+  weighedAt?: Date;
+}) {
+  const db = await requireDb();
+  const session = await requireSession(db, input.farmId, input.sessionId);
+  if (session.status !== "open") throw new GrowthError("This weighing session is closed");
+  if (!(input.weightKg > 0)) throw new GrowthError("Weight must be positive");
+
+  const tag = input.tag?.trim() || null;
+  const [animal] = await db
+    .select({ id: animals.id, tag: animals.uniqueTagId })
+    .from(animals)
+    .where(and(
+      eq(animals.farmId, input.farmId),
+      tag !== null ? eq(animals.uniqueTagId, tag) : eq(animals.id, input.animalId ?? -1)
+    ))
+    .limit(1);
+  if (!animal) throw new GrowthError(tag !== null ? `No animal with tag ${tag} on this farm` : "Animal not found on this farm");
+
+  await saveWeight(db, session, animal.id, input.weightKg, input.weighedAt ?? null, tag);
+  return { animalId: animal.id, tag: animal.tag, weightKg: input.weightKg };
+}
+
+/**
+ * Load a scale indicator export into the session. Rows whose tag is not on
+ * the farm are reported, not fatal, so the rest of the pen still loads.
+ */
+export async function importScaleCsv(farmId: number, sessionId: number, csv: string) {
+  const db = await requireDb();
+  const session = await requireSession(db, farmId, sessionId);
+  if (session.status !== "open") throw new GrowthError("This weighing session is closed");
+
+  let parsed: ReturnType<typeof parseScaleCsv>;
+  try {
+    parsed = parseScaleCsv(csv);
+  } catch (error) {
+    throw new GrowthError(`Could not read the CSV: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const tags = [...new Set(parsed.readings.map(reading => reading.tag))];
+  const herd = tags.length
+    ? await db
+      .select({ id: animals.id, tag: animals.uniqueTagId })
+      .from(animals)
+      .where(and(eq(animals.farmId, farmId), inArray(animals.uniqueTagId, tags)))
+    : [];
+  const byTag = new Map(herd.map(animal => [animal.tag!, animal.id]));
+
+  const unknownTags: Array<{ row: number; tag: string }> = [];
+  let imported = 0;
+  for (const reading of parsed.readings) {
+    const animalId = byTag.get(reading.tag);
+    if (animalId === undefined) {
+      unknownTags.push({ row: reading.row, tag: reading.tag });
+      continue;
+    }
+    await saveWeight(db, session, animalId, reading.weightKg, reading.weighedAt, reading.tag);
+    imported++;
+  }
+  return { imported, unknownTags, errors: parsed.errors };
+}
+
+export async function closeWeighingSession(farmId: number, sessionId: number) {
+  const db = await requireDb();
+  const session = await requireSession(db, farmId, sessionId);
+  if (session.status === "closed") throw new GrowthError("This weighing session is already closed");
+  await db.update(weighingSessions).set({ status: "closed", closedAt: new Date() }).where(eq(weighingSessions.id, session.id));
+  return getSessionReport(farmId, sessionId);
+}
+
+export async function listWeighingSessions(farmId: number, groupName?: string) {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(weighingSessions)
+    .where(and(eq(weighingSessions.farmId, farmId), groupName ? eq(weighingSessions.groupName, groupName) : undefined))
+    .orderBy(desc(weighingSessions.sessionDate), desc(weighingSessions.id));
+}
+
+interface GrowthSubject {
+  id: number;
+  tag: string | null;
+  birthDate: Date | null;
+  curve: GrowthCurve | null;
+}
+
+/** Each animal's breed curve: mature weight from its breed record, else the species template */
+async function loadSubjects(db: Db, animalIds: number[]): Promise<GrowthSubject[]> {
+  if (!animalIds.length) return [];
+  const rows = await db
+    .select({
+      id: animals.id,
+      tag: animals.uniqueTagId,
+      birthDate: animals.birthDate,
+      breed: animals.breed,
+      typeName: animalTypes.typeName,
+    })
+    .from(animals)
+    .leftJoin(animalTypes, eq(animalTypes.id, animals.typeId))
+    .where(inArray(animals.id, animalIds));
+
+  const breedNames = [...new Set(rows.map(row => row.breed).filter((breed): breed is string => !!breed))];
+  const breedRows = breedNames.length
+    ? await db
+      .select({ breedName: breeds.breedName, characteristics: breeds.characteristics, speciesName: speciesTemplates.speciesName, speciesWeight: speciesTemplates.matureWeightKg })
+      .from(breeds)
+      .leftJoin(speciesTemplates, eq(speciesTemplates.id, breeds.speciesId))
+      .where(inArray(breeds.breedName, breedNames))
+    : [];
+  const templates = await db
+    .select({ speciesName: speciesTemplates.speciesName, matureWeightKg: speciesTemplates.matureWeightKg })
+    .from(speciesTemplates);
+
+  return rows.map(row => {
+    const typeName = row.typeName ?? "";
+    const breed = breedRows.find(candidate =>
+      candidate.breedName.toLowerCase() === row.breed?.toLowerCase() &&
+      (!candidate.speciesName || growthCurve(candidate.speciesName)?.species === growthCurve(typeName)?.species)
+    );
+    let matureWeightKg: number | null = null;
+    if (breed) {
+      try {
+        matureWeightKg = parseBreedWeight(JSON.parse(breed.characteristics ?? "{}").weight);
+      } catch {
+        matureWeightKg = null;
+      }
+      matureWeightKg ??= breed.speciesWeight ? Number(breed.speciesWeight) : null;
+    }
+    if (matureWeightKg === null) {
+      const species = growthCurve(typeName)?.species;
+      const template = templates.find(candidate => species && growthCurve(candidate.speciesName)?.species === species);
+      matureWeightKg = template?.matureWeightKg ? Number(template.matureWeightKg) : null;
+    }
+    return {
+      id: row.id,
+      tag: row.tag,
+      birthDate: row.birthDate ? toDate(row.birthDate) : null,
+      curve: growthCurve(typeName, matureWeightKg),
+    };
+  });
+}
+
+async function loadWeights(db: Db, animalIds: number[], from?: Date, to?: Date) {
+  const series = new Map<number, WeightPoint[]>();
+  if (!animalIds.length) return series;
+  const rows = await db
+    .select({ animalId: performanceMetrics.animalId, metricDate: performanceMetrics.metricDate, weightKg: performanceMetrics.weightKg })
+    .from(performanceMetrics)
+    .where(and(
+      inArray(performanceMetrics.animalId, animalIds),
+      isNotNull(performanceMetrics.weightKg),
+      from ? gte(performanceMetrics.metricDate, dateOnly(from)) : undefined,
+      to ? lte(performanceMetrics.metricDate, dateOnly(to)) : undefined
+    ))
+    .orderBy(asc(performanceMetrics.metricDate));
+  for (const row of rows) {
+    const points = series.get(row.animalId) ?? [];
+    points.push({ date: toDate(row.metricDate), weightKg: Number(row.weightKg) });
+    series.set(row.animalId, points);
+  }
+  return series;
+}
+
+/**
+ * Growth of a set of animals over a period: ADG, breed curve comparison
+ * and, where feed was recorded, the feed conversion ratio. Feed counts
+ * from each animal's first weighing in the period to its last.
+ */
+async function analyzeGrowth(db: Db, animalIds: number[], from: Date | undefined, to: Date | undefined, now: Date) {
+  const subjects = await loadSubjects(db, animalIds);
+  const weights = await loadWeights(db, animalIds, from, to);
+  const withSpan = subjects
+    .map(subject => ({ subject, points: weights.get(subject.id) ?? [] }))
+    .filter(entry => entry.points.length > 0);
+  const spanStart = withSpan.length ? new Date(Math.min(...withSpan.map(entry => entry.points[0].date.getTime()))) : null;
+  const spanEnd = withSpan.length ? new Date(Math.max(...withSpan.map(entry => entry.points[entry.points.length - 1].date.getTime()))) : null;
+  const feedRows = spanStart && spanEnd
+    ? await db
+      .select({ animalId: feedingRecords.animalId, feedDate: feedingRecords.feedDate, quantityKg: feedingRecords.quantityKg })
+      .from(feedingRecords)
+      .where(and(inArray(feedingRecords.animalId, animalIds), gte(feedingRecords.feedDate, spanStart), lte(feedingRecords.feedDate, spanEnd)))
+    : [];
+
+  const members = subjects.map(subject => {
+    const points = weights.get(subject.id) ?? [];
+    const assessment = assessGrowth(points, subject.birthDate, subject.curve, now);
+    let feedKg: number | null = null;
+    if (points.length >= 2) {
+      const first = points[0].date.getTime();
+      const last = points[points.length - 1].date.getTime();
+      const eaten = feedRows
+        .filter(row => row.animalId === subject.id && toDate(row.feedDate).getTime() >= first && toDate(row.feedDate).getTime() <= last)
+        .reduce((sum, row) => sum + Number(row.quantityKg), 0);
+      feedKg = eaten > 0 ? eaten : null;
+    }
+    return {
+      animalId: subject.id,
+      tag: subject.tag,
+      species: subject.curve?.species ?? null,
+      weighings: points.length,
+      assessment,
+      feedKg,
+      feedConversionRatio: feedKg !== null && assessment.gain ? feedConversionRatio(feedKg, assessment.gain.gainKg) : null,
+    };
+  });
+
+  const summary = summarizeGroupGrowth(members);
+  const totalFeed = members.reduce((sum, member) => sum + (member.feedKg ?? 0), 0);
+  const totalGain = members.reduce((sum, member) => sum + (member.feedKg !== null ? member.assessment.gain?.gainKg ?? 0 : 0), 0);
+  return { ...summary, feedConversionRatio: feedConversionRatio(totalFeed, totalGain) };
+}
+
+/** The animals weighed in a session, their gain since their previous weighing and the session's poor performers */
+export async function getSessionReport(farmId: number, sessionId: number, now = new Date()) {
+  const db = await requireDb();
+  const session = await requireSession(db, farmId, sessionId);
+  const weighed = await db
+    .select({ animalId: sessionWeights.animalId, weightKg: sessionWeights.weightKg, weighedAt: sessionWeights.weighedAt })
+    .from(sessionWeights)
+    .where(eq(sessionWeights.sessionId, session.id));
+  const ids = weighed.map(row => row.animalId);
+
+  // Previous weight of each animal before this session
+  const history = await loadWeights(db, ids, undefined, toDate(session.sessionDate));
+  const sessionDay = dateOnly(toDate(session.sessionDate)).getTime();
+  const sinceLast = weighed.map(row => {
+    const earlier = (history.get(row.animalId) ?? []).filter(point => point.date.getTime() < sessionDay);
+    const previous = earlier[earlier.length - 1] ?? null;
+    const gain = previous ? averageDailyGain([previous, { date: toDate(row.weighedAt), weightKg: Number(row.weightKg) }]) : null;
+    return { animalId: row.animalId, weightKg: Number(row.weightKg), previous, adgSinceLastKg: gain?.adgKg ?? null };
+  });
+
+  const growth = await analyzeGrowth(db, ids, undefined, toDate(session.sessionDate), now);
+  const weightsKg = sinceLast.map(row => row.weightKg);
+  return {
+    session,
+    weighed: weighed.length,
+    meanWeightKg: weightsKg.length ? weightsKg.reduce((sum, weight) => sum + weight, 0) / weightsKg.length : null,
+    minWeightKg: weightsKg.length ? Math.min(...weightsKg) : null,
+    maxWeightKg: weightsKg.length ? Math.max(...weightsKg) : null,
+    animals: sinceLast,
+    growth,
+  };
+}
+
+/**
+ * Growth of everything weighed under a group name, over the period (or all
+ * of its history)
+ */
+export async function getGroupGrowth(farmId: number, groupName: string, period?: { from: Date; to: Date }, now = new Date()) {
+  const db = await requireDb();
+  const sessions = await db
+    .select({ id: weighingSessions.id, sessionDate: weighingSessions.sessionDate })
+    .from(weighingSessions)
+    .where(and(eq(weighingSessions.farmId, farmId), eq(weighingSessions.groupName, groupName)))
+    .orderBy(asc(weighingSessions.sessionDate));
+  if (!sessions.length) throw new GrowthError(`No weighing sessions for group ${groupName}`);
+  const members = await db
+    .selectDistinct({ animalId: sessionWeights.animalId })
+    .from(sessionWeights)
+    .where(inArray(sessionWeights.sessionId, sessions.map(session => session.id)));
+  const growth = await analyzeGrowth(db, members.map(member => member.animalId), period?.from, period?.to, now);
+  return { groupName, sessions: sessions.length, firstSession: sessions[0].sessionDate, lastSession: sessions[sessions.length - 1].sessionDate, ...growth };
+}
+
+/** One animal's weights with its breed curve alongside, ADG and feed conversion */
+export async function getAnimalGrowth(farmId: number, animalId: number, now = new Date()) {
+  const db = await requireDb();
+  const [animal] = await db.select({ id: animals.id }).from(animals).where(and(eq(animals.id, animalId), eq(animals.farmId, farmId))).limit(1);
+  if (!animal) throw new GrowthError("Animal not found on this farm");
+  const [subject] = await loadSubjects(db, [animalId]);
+  const points = (await loadWeights(db, [animalId])).get(animalId) ?? [];
+  const growth = await analyzeGrowth(db, [animalId], undefined, undefined, now);
+  const member = growth.members[0];
+
+  return {
+    animalId,
+    tag: subject.tag,
+    curve: subject.curve,
+    weights: points.map(point => ({
+      ...point,
+      expectedWeightKg: subject.curve && subject.birthDate
+        ? expectedWeight(subject.curve, (point.date.getTime() - subject.birthDate.getTime()) / DAY_MS)
+        : null,
+    })),
+    assessment: member.assessment,
+    poorPerformer: member.poorPerformer,
+    reasons: member.reasons,
+    feedKg: member.feedKg,
+    feedConversionRatio: member.feedConversionRatio,
+  };
+}
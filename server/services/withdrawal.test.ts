@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeClearDates,
+  latestClearDates,
+  listingWithdrawalProduct,
+  overallClearDate,
+  selectWithdrawalRule,
+  STANDARD_WITHDRAWAL,
+  WithdrawalError,
+  type WithdrawalRule,
+} from "./withdrawal";
+
+const rule = (overrides: Partial<WithdrawalRule>): WithdrawalRule => ({
+  id: 1,
+  farmId: null,
+  medicationName: "oxytetracycline la",
+  species: null,
+  meatDays: 28,
+  milkHours: 168,
+  eggDays: 7,
+  ...overrides,
+});
+
+describe("selectWithdrawalRule", () => {
+  const rules = [
+    rule({ id: 1 }),
+    rule({ id: 2, species: "cattle", meatDays: 21 }),
+    rule({ id: 3, farmId: 9, meatDays: 35 }),
+    rule({ id: 4, farmId: 9, species: "goat", meatDays: 42 }),
+    rule({ id: 5, medicationName: "penicillin" }),
+  ];
+
+  it("prefers the farm's own rule, then the species rule", () => {
+    const pick = (speciesName: string, farmId: number) =>
+      selectWithdrawalRule(rules, { medicationName: "Oxytetracycline  LA", speciesName, farmId })?.id;
+    expect(pick("Dairy Goat", 9)).toBe(4);
+    expect(pick("Cattle", 9)).toBe(3);
+    expect(pick("Cattle", 2)).toBe(2);
+    expect(pick("Sheep", 2)).toBe(1);
+  });
+
+  it("returns null when the medication has no period on file", () => {
+    expect(selectWithdrawalRule(rules, { medicationName: "ivermectin", speciesName: "Cattle", farmId: 2 })).toBeNull();
+  });
+
+  it("takes the longest period among equally specific rules", () => {
+    const tied = [rule({ id: 7, milkHours: 72 }), rule({ id: 8, milkHours: 96 })];
+    expect(selectWithdrawalRule(tied, { medicationName: "oxytetracycline la", speciesName: null, farmId: 1 })?.id).toBe(8);
+  });
+});
+
+describe("clear dates", () => {
+  const lastDose = new Date("2026-05-01T08:00:00Z");
+
+  it("adds each product's period to the last dose", () => {
+    const clear = computeClearDates(lastDose, { meatDays: 14, milkHours: 96, eggDays: 0 });
+    expect(clear.meat).toEqual(new Date("2026-05-15T08:00:00Z"));
+    expect(clear.milk).toEqual(new Date("2026-05-05T08:00:00Z"));
+    expect(clear.eggs).toEqual(lastDose);
+  });
+
+  it("keeps the latest date per product across treatments and ignores passed ones", () => {
+    const first = computeClearDates(lastDose, STANDARD_WITHDRAWAL);
+    const second = computeClearDates(new Date("2026-05-10T08:00:00Z"), { meatDays: 3, milkHours: 240, eggDays: 0 });
+    const now = new Date("2026-05-12T00:00:00Z");
+    const latest = latestClearDates(
+      [first, second].map(c => ({ meatClearAt: c.meat, milkClearAt: c.milk, eggClearAt: c.eggs })),
+      now
+    );
+    expect(latest.meat).toEqual(first.meat);
+    expect(latest.milk).toEqual(second.milk);
+    expect(latest.eggs).toBeNull();
+    expect(overallClearDate(latest)).toEqual(first.meat);
+    expect(overallClearDate({ meat: null, milk: null, eggs: null })).toBeNull();
+  });
+});
+
+describe("listingWithdrawalProduct", () => {
+  it("recognises animal products from category and type", () => {
+    expect(listingWithdrawalProduct("Poultry", "Fresh Eggs")).toBe("eggs");
+    expect(listingWithdrawalProduct("Dairy", "Wagashi")).toBe("milk");
+    expect(listingWithdrawalProduct("Meat", "Beef")).toBe("meat");
+    expect(listingWithdrawalProduct("Livestock", "Goat")).toBe("meat");
+    expect(listingWithdrawalProduct("Vegetables", "Tomato")).toBeNull();
+  });
+});
+
+describe("WithdrawalError", () => {
+  it("names the animal and its clear date", () => {
+    const error = new WithdrawalError("meat", [
+      { animalId: 4, tag: "GH-014", clearAt: new Date("2026-06-02T10:00:00Z") },
+      { animalId: 5, tag: null, clearAt: new Date("2026-05-30T10:00:00Z") },
+    ]);
+    expect(error.message).toBe("2 animals are in meat withdrawal, including GH-014 until 2026-06-02");
+    expect(new WithdrawalError("milk", [{ animalId: 5, tag: null, clearAt: new Date("2026-05-30T10:00:00Z") }]).message).toBe(
+      "Animal #5 is in milk withdrawal until 2026-05-30"
+    );
+  });
+});
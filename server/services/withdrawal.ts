@@ -0,0 +1,130 @@
+/**
+ * Drug withdrawal periods
+ * After a treatment, meat, milk and eggs from the animal must not enter the
+ * food chain until the label withdrawal period has passed. This module
+ * picks the period that applies to a treatment and works out clear dates;
+ * withdrawalService stores them and enforces them.
+ *
+ * The clock starts at the last dose. When no label period is on file for a
+ * medication and species, the minimums for off-label use apply (28 days
+ * meat, 7 days milk and eggs), so an unknown drug never means "no
+ * withdrawal".
+ */
+
+export const WITHDRAWAL_PRODUCTS = ["meat", "milk", "eggs"] as const;
+export type WithdrawalProduct = (typeof WITHDRAWAL_PRODUCTS)[number];
+
+export interface WithdrawalPeriodDays {
+  meatDays: number;
+  milkHours: number;
+  eggDays: number;
+}
+
+export interface WithdrawalRule extends WithdrawalPeriodDays {
+  id: number;
+  farmId: number | null;
+  medicationName: string;
+  species: string | null;
+}
+
+export type ClearDates = Record<WithdrawalProduct, Date>;
+
+export const STANDARD_WITHDRAWAL: WithdrawalPeriodDays = { meatDays: 28, milkHours: 7 * 24, eggDays: 7 };
+export const NO_WITHDRAWAL: WithdrawalPeriodDays = { meatDays: 0, milkHours: 0, eggDays: 0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class WithdrawalError extends Error {
+  constructor(
+    public readonly product: WithdrawalProduct,
+    public readonly animals: Array<{ animalId: number; tag: string | null; clearAt: Date }>
+  ) {
+    const [first] = animals;
+    const tag = first.tag ?? `#${first.animalId}`;
+    const until = first.clearAt.toISOString().slice(0, 10);
+    super(
+      animals.length === 1
+        ? `Animal ${tag} is in ${product} withdrawal until ${until}`
+        : `${animals.length} animals are in ${product} withdrawal, including ${tag} until ${until}`
+    );
+    this.name = "WithdrawalError";
+  }
+}
+
+export function normalizeMedicationName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Most specific rule for a treatment: a farm's own rule beats a general one,
+ * and a species rule beats an any-species one. Rules for a species match
+ * animal types that contain the species name ("goat" matches "Dairy Goat").
+ * Among equally specific rules the longest periods win.
+ */
+export function selectWithdrawalRule<R extends WithdrawalRule>(
+  rules: R[],
+  treatment: { medicationName: string; speciesName: string | null; farmId: number }
+): R | null {
+  const medication = normalizeMedicationName(treatment.medicationName);
+  const species = treatment.speciesName?.toLowerCase() ?? "";
+  let best: { rule: R; score: number; total: number } | null = null;
+
+  for (const rule of rules) {
+    if (normalizeMedicationName(rule.medicationName) !== medication) continue;
+    if (rule.farmId !== null && rule.farmId !== treatment.farmId) continue;
+    if (rule.species !== null && !species.includes(rule.species.toLowerCase())) continue;
+
+    const score = (rule.farmId !== null ? 2 : 0) + (rule.species !== null ? 1 : 0);
+    const total = rule.meatDays * 24 + rule.milkHours + rule.eggDays * 24;
+    if (!best || score > best.score || (score === best.score && total > best.total)) {
+      best = { rule, score, total };
+    }
+  }
+  return best?.rule ?? null;
+}
+
+export function computeClearDates(lastDoseAt: Date, period: WithdrawalPeriodDays): ClearDates {
+  const start = lastDoseAt.getTime();
+  return {
+    meat: new Date(start + period.meatDays * DAY_MS),
+    milk: new Date(start + period.milkHours * 60 * 60 * 1000),
+    eggs: new Date(start + period.eggDays * DAY_MS),
+  };
+}
+
+/** Latest clear date per product across an animal's treatments; null when nothing is withheld */
+export function latestClearDates(
+  treatments: Array<{ meatClearAt: Date; milkClearAt: Date; eggClearAt: Date }>,
+  now: Date
+): Record<WithdrawalProduct, Date | null> {
+  const latest: Record<WithdrawalProduct, Date | null> = { meat: null, milk: null, eggs: null };
+  for (const treatment of treatments) {
+    const dates: ClearDates = { meat: treatment.meatClearAt, milk: treatment.milkClearAt, eggs: treatment.eggClearAt };
+    for (const product of WITHDRAWAL_PRODUCTS) {
+      const date = dates[product];
+      if (date > now && (!latest[product] || date > latest[product]!)) latest[product] = date;
+    }
+  }
+  return latest;
+}
+
+/** The animal's overall clear date: when every product is clear again, or null if it already is */
+export function overallClearDate(latest: Record<WithdrawalProduct, Date | null>): Date | null {
+  const dates = WITHDRAWAL_PRODUCTS.map(product => latest[product]).filter((date): date is Date => date !== null);
+  return dates.length ? new Date(Math.max(...dates.map(date => date.getTime()))) : null;
+}
+
+const LISTING_KEYWORDS: Array<[WithdrawalProduct, RegExp]> = [
+  ["eggs", /\beggs?\b/],
+  ["milk", /\b(milk|dairy|cheese|wagashi|wara|yogh?urt|butter|cream|ghee)\b/],
+  ["meat", /\b(meat|beef|pork|mutton|chevon|lamb|veal|goat|sheep|cattle|pig|broiler|chicken|guinea fowl|turkey|duck|carcass|sausage|livestock)\b/],
+];
+
+/** Which animal product a marketplace listing is, judged from its category and type */
+export function listingWithdrawalProduct(category: string, productType: string): WithdrawalProduct | null {
+  const text = `${category} ${productType}`.toLowerCase();
+  for (const [product, pattern] of LISTING_KEYWORDS) {
+    if (pattern.test(text)) return product;
+  }
+  return null;
+}
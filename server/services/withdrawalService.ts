@@ -0,0 +1,357 @@
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lte, or } from "drizzle-orm";
+import {
+  animals,
+  animalTypes,
+  animalWithdrawals,
+  marketplaceProducts,
+  performanceMetrics,
+  withdrawalPeriods,
+} from "../../drizzle/schema";
+import { getDb } from "../db";
+import {
+  computeClearDates,
+  latestClearDates,
+  listingWithdrawalProduct,
+  normalizeMedicationName,
+  overallClearDate,
+  selectWithdrawalRule,
+  STANDARD_WITHDRAWAL,
+  WithdrawalError,
+  type WithdrawalPeriodDays,
+  type WithdrawalProduct,
+} from "./withdrawal";
+
+/**
+ * Withdrawal tracking
+ * Records a withdrawal for every treatment (prescriptions, medication usage
+ * or manual entry) and answers "is this animal clear for meat, milk or
+ * eggs?" for the sale, slaughter, production and marketplace paths. Sales
+ * and slaughter of an animal in meat withdrawal are refused; milk and eggs
+ * recorded during withdrawal are kept but held back from saleable totals.
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db;
+}
+
+export interface TreatmentInput {
+  animalId: number;
+  /** When given, the animal must belong to this farm */
+  farmId?: number;
+  medicationName: string;
+  lastDoseAt: Date;
+  source: "prescription" | "medication_usage" | "manual";
+  sourceId?: number;
+  recordedBy?: number;
+  /** Period to use when no label period is on file (defaults to the standard minimums) */
+  fallback?: WithdrawalPeriodDays;
+}
+
+/** Store the withdrawal for one treatment; recording the same source twice is a no-op */
+export async function recordTreatment(input: TreatmentInput) {
+  const db = await requireDb();
+  const [animal] = await db
+    .select({ id: animals.id, farmId: animals.farmId, typeName: animalTypes.typeName })
+    .from(animals)
+    .leftJoin(animalTypes, eq(animalTypes.id, animals.typeId))
+    .where(eq(animals.id, input.animalId))
+    .limit(1);
+  if (!animal || (input.farmId !== undefined && animal.farmId !== input.farmId)) return null;
+
+  const medicationName = normalizeMedicationName(input.medicationName);
+  const rules = await db
+    .select()
+    .from(withdrawalPeriods)
+    .where(and(
+      eq(withdrawalPeriods.medicationName, medicationName),
+      or(isNull(withdrawalPeriods.farmId), eq(withdrawalPeriods.farmId, animal.farmId))
+    ));
+  const rule = selectWithdrawalRule(rules, { medicationName, speciesName: animal.typeName, farmId: animal.farmId });
+  const clear = computeClearDates(input.lastDoseAt, rule ?? input.fallback ?? STANDARD_WITHDRAWAL);
+
+  const [header] = await db.insert(animalWithdrawals).ignore().values({
+    farmId: animal.farmId,
+    animalId: animal.id,
+    medicationName,
+    source: input.source,
+    sourceId: input.sourceId ?? null,
+    ruleId: rule?.id ?? null,
+    lastDoseAt: input.lastDoseAt,
+    meatClearAt: clear.meat,
+    milkClearAt: clear.milk,
+    eggClearAt: clear.eggs,
+    recordedBy: input.recordedBy ?? null,
+  });
+  return { id: header.insertId, created: header.affectedRows > 0, ruleId: rule?.id ?? null, clear };
+}
+
+/** Clear dates for one of a farm's animals plus the treatments still holding it */
+export async function getAnimalWithdrawalStatus(farmId: number, animalId: number, now = new Date()) {
+  const db = await requireDb();
+  const treatments = await db
+    .select()
+    .from(animalWithdrawals)
+    .where(and(eq(animalWithdrawals.farmId, farmId), eq(animalWithdrawals.animalId, animalId)))
+    .orderBy(desc(animalWithdrawals.lastDoseAt));
+  const latest = latestClearDates(treatments, now);
+  const clearDate = overallClearDate(latest);
+  return {
+    animalId,
+    inWithdrawal: clearDate !== null,
+    clearDate,
+    products: latest,
+    activeTreatments: treatments.filter(t => t.meatClearAt > now || t.milkClearAt > now || t.eggClearAt > now),
+  };
+}
+
+const CLEAR_COLUMN = {
+  meat: animalWithdrawals.meatClearAt,
+  milk: animalWithdrawals.milkClearAt,
+  eggs: animalWithdrawals.eggClearAt,
+} as const;
+
+/** Animals among animalIds still in withdrawal for a product, with their clear dates */
+export async function findAnimalsInWithdrawal(animalIds: number[], product: WithdrawalProduct, now = new Date()) {
+  if (!animalIds.length) return [];
+  const db = await requireDb();
+  const rows = await db
+    .select({ animalId: animalWithdrawals.animalId, clearAt: CLEAR_COLUMN[product], tag: animals.uniqueTagId })
+    .from(animalWithdrawals)
+    .innerJoin(animals, eq(animals.id, animalWithdrawals.animalId))
+    .where(and(inArray(animalWithdrawals.animalId, animalIds), gt(CLEAR_COLUMN[product], now)));
+
+  const byAnimal = new Map<number, { animalId: number; tag: string | null; clearAt: Date }>();
+  for (const row of rows) {
+    const current = byAnimal.get(row.animalId);
+    if (!current || row.clearAt > current.clearAt) byAnimal.set(row.animalId, row);
+  }
+  return [...byAnimal.values()].sort((a, b) => b.clearAt.getTime() - a.clearAt.getTime());
+}
+
+/** Throws WithdrawalError when any of the animals is still in withdrawal for the product */
+export async function assertAnimalsClear(animalIds: number[], product: WithdrawalProduct, now = new Date()) {
+  const held = await findAnimalsInWithdrawal(animalIds, product, now);
+  if (held.length) throw new WithdrawalError(product, held);
+}
+
+/** Products of a production record that are being withheld, and until when */
+export async function productionHold(animalId: number, recorded: { milk?: boolean; eggs?: boolean }, at = new Date()) {
+  const products: WithdrawalProduct[] = [];
+  if (recorded.milk) products.push("milk");
+  if (recorded.eggs) products.push("eggs");
+
+  let clearAt: Date | null = null;
+  const held: WithdrawalProduct[] = [];
+  for (const product of products) {
+    const [animal] = await findAnimalsInWithdrawal([animalId], product, at);
+    if (!animal) continue;
+    held.push(product);
+    if (!clearAt || animal.clearAt > clearAt) clearAt = animal.clearAt;
+  }
+  return { held: held.length > 0, products: held, clearAt };
+}
+
+/** Animals on a farm currently in withdrawal, latest clear date first */
+export async function listFarmWithdrawals(farmId: number, now = new Date()) {
+  const db = await requireDb();
+  const treatments = await db
+    .select({
+      withdrawal: animalWithdrawals,
+      tag: animals.uniqueTagId,
+      typeName: animalTypes.typeName,
+    })
+    .from(animalWithdrawals)
+    .innerJoin(animals, eq(animals.id, animalWithdrawals.animalId))
+    .leftJoin(animalTypes, eq(animalTypes.id, animals.typeId))
+    .where(and(
+      eq(animalWithdrawals.farmId, farmId),
+      or(gt(animalWithdrawals.meatClearAt, now), gt(animalWithdrawals.milkClearAt, now), gt(animalWithdrawals.eggClearAt, now))
+    ));
+
+  const byAnimal = new Map<number, { animalId: number; tag: string | null; typeName: string | null; medications: Set<string>; rows: typeof treatments }>();
+  for (const row of treatments) {
+    const entry = byAnimal.get(row.withdrawal.animalId) ?? {
+      animalId: row.withdrawal.animalId,
+      tag: row.tag,
+      typeName: row.typeName,
+      medications: new Set<string>(),
+      rows: [],
+    };
+    entry.medications.add(row.withdrawal.medicationName);
+    entry.rows.push(row);
+    byAnimal.set(entry.animalId, entry);
+  }
+
+  return [...byAnimal.values()]
+    .map(entry => {
+      const products = latestClearDates(entry.rows.map(row => row.withdrawal), now);
+      return {
+        animalId: entry.animalId,
+        tag: entry.tag,
+        typeName: entry.typeName,
+        medications: [...entry.medications],
+        products,
+        clearDate: overallClearDate(products)!,
+      };
+    })
+    .sort((a, b) => b.clearDate.getTime() - a.clearDate.getTime());
+}
+
+/**
+ * Whether a farm listing of meat, milk or eggs should be flagged: some of
+ * the farm's animals are in withdrawal for that product
+ */
+export async function listingWithdrawalFlag(farmId: number, category: string, productType: string, now = new Date()) {
+  const product = listingWithdrawalProduct(category, productType);
+  if (!product) return null;
+  const db = await requireDb();
+  const rows = await db
+    .select({ animalId: animalWithdrawals.animalId, clearAt: CLEAR_COLUMN[product] })
+    .from(animalWithdrawals)
+    .where(and(eq(animalWithdrawals.farmId, farmId), gt(CLEAR_COLUMN[product], now)))
+    .orderBy(desc(CLEAR_COLUMN[product]));
+  if (!rows.length) return null;
+  return { product, animalCount: new Set(rows.map(row => row.animalId)).size, clearAt: rows[0].clearAt };
+}
+
+/**
+ * Residue compliance for a farm over a period: treatments and the periods
+ * applied, animals still in withdrawal, milk and eggs withheld, and active
+ * listings of products the farm is withholding
+ */
+export async function buildResidueComplianceReport(farmId: number, from: Date, to: Date, now = new Date()) {
+  const db = await requireDb();
+
+  const treatments = await db
+    .select({ withdrawal: animalWithdrawals, tag: animals.uniqueTagId })
+    .from(animalWithdrawals)
+    .innerJoin(animals, eq(animals.id, animalWithdrawals.animalId))
+    .where(and(
+      eq(animalWithdrawals.farmId, farmId),
+      gte(animalWithdrawals.lastDoseAt, from),
+      lte(animalWithdrawals.lastDoseAt, to)
+    ))
+    .orderBy(asc(animalWithdrawals.lastDoseAt));
+
+  const held = await db
+    .select({
+      metricDate: performanceMetrics.metricDate,
+      animalId: performanceMetrics.animalId,
+      tag: animals.uniqueTagId,
+      milkYieldLiters: performanceMetrics.milkYieldLiters,
+      eggCount: performanceMetrics.eggCount,
+    })
+    .from(performanceMetrics)
+    .innerJoin(animals, eq(animals.id, performanceMetrics.animalId))
+    .where(and(
+      eq(animals.farmId, farmId),
+      eq(performanceMetrics.withdrawalHold, true),
+      gte(performanceMetrics.metricDate, from),
+      lte(performanceMetrics.metricDate, to)
+    ));
+
+  const inWithdrawal = await listFarmWithdrawals(farmId, now);
+
+  const listings = await db
+    .select({
+      id: marketplaceProducts.id,
+      name: marketplaceProducts.name,
+      category: marketplaceProducts.category,
+      productType: marketplaceProducts.productType,
+    })
+    .from(marketplaceProducts)
+    .where(and(eq(marketplaceProducts.farmId, farmId), eq(marketplaceProducts.status, "active")));
+  const withheld = new Set<WithdrawalProduct>();
+  for (const animal of inWithdrawal) {
+    for (const product of ["meat", "milk", "eggs"] as const) if (animal.products[product]) withheld.add(product);
+  }
+  const flaggedListings = listings
+    .map(listing => ({ ...listing, product: listingWithdrawalProduct(listing.category, listing.productType) }))
+    .filter(listing => listing.product !== null && withheld.has(listing.product));
+
+  const standardPeriodTreatments = treatments.filter(row => row.withdrawal.ruleId === null);
+  const milkWithheldLiters = held.reduce((sum, row) => sum + Number(row.milkYieldLiters ?? 0), 0);
+  const eggsWithheld = held.reduce((sum, row) => sum + (row.eggCount ?? 0), 0);
+
+  const issues: string[] = [];
+  if (standardPeriodTreatments.length) {
+    const names = [...new Set(standardPeriodTreatments.map(row => row.withdrawal.medicationName))];
+    issues.push(`No label withdrawal period on file for ${names.join(", ")}; the standard minimums were applied`);
+  }
+  for (const listing of flaggedListings) {
+    issues.push(`Listing "${listing.name}" is active while animals are in ${listing.product} withdrawal`);
+  }
+
+  return {
+    farmId,
+    period: { from, to },
+    generatedAt: now,
+    summary: {
+      treatmentsRecorded: treatments.length,
+      animalsTreated: new Set(treatments.map(row => row.withdrawal.animalId)).size,
+      animalsInWithdrawal: inWithdrawal.length,
+      productionRecordsHeld: held.length,
+      milkWithheldLiters: Number(milkWithheldLiters.toFixed(2)),
+      eggsWithheld,
+      flaggedListings: flaggedListings.length,
+    },
+    compliant: flaggedListings.length === 0,
+    issues,
+    treatments: treatments.map(row => ({
+      animalId: row.withdrawal.animalId,
+      tag: row.tag,
+      medicationName: row.withdrawal.medicationName,
+      source: row.withdrawal.source,
+      lastDoseAt: row.withdrawal.lastDoseAt,
+      meatClearAt: row.withdrawal.meatClearAt,
+      milkClearAt: row.withdrawal.milkClearAt,
+      eggClearAt: row.withdrawal.eggClearAt,
+      standardPeriodApplied: row.withdrawal.ruleId === null,
+    })),
+    inWithdrawal,
+    heldProduction: held,
+    flaggedListings,
+  };
+}
+
+export async function listWithdrawalPeriods(farmId?: number) {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(withdrawalPeriods)
+    .where(farmId !== undefined ? or(isNull(withdrawalPeriods.farmId), eq(withdrawalPeriods.farmId, farmId)) : isNull(withdrawalPeriods.farmId))
+    .orderBy(asc(withdrawalPeriods.medicationName), asc(withdrawalPeriods.species));
+}
+
+/** Create or replace the period for a medication/species pair (farmId null for the general label period) */
+export async function setWithdrawalPeriod(input: {
+  farmId: number | null;
+  medicationName: string;
+  species: string | null;
+  meatDays: number;
+  milkHours: number;
+  eggDays: number;
+  notes?: string;
+}) {
+  const db = await requireDb();
+  const medicationName = normalizeMedicationName(input.medicationName);
+  const species = input.species?.trim().toLowerCase() || null;
+  const where = and(
+    eq(withdrawalPeriods.medicationName, medicationName),
+    input.farmId === null ? isNull(withdrawalPeriods.farmId) : eq(withdrawalPeriods.farmId, input.farmId),
+    species === null ? isNull(withdrawalPeriods.species) : eq(withdrawalPeriods.species, species)
+  );
+  const values = { meatDays: input.meatDays, milkHours: input.milkHours, eggDays: input.eggDays, notes: input.notes ?? null };
+
+  const [existing] = await db.select({ id: withdrawalPeriods.id }).from(withdrawalPeriods).where(where).limit(1);
+  if (existing) {
+    await db.update(withdrawalPeriods).set(values).where(eq(withdrawalPeriods.id, existing.id));
+    return { id: existing.id, created: false };
+  }
+  const [header] = await db.insert(withdrawalPeriods).values({ farmId: input.farmId, medicationName, species, ...values });
+  return { id: header.insertId, created: true };
+}
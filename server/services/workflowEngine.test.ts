@@ -0,0 +1,207 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  WORKFLOW_TEMPLATES,
+  WorkflowValidationError,
+  evaluateCondition,
+  executeGraph,
+  interpolate,
+  isPrivateAddress,
+  normalizeTriggerEvent,
+  recipientProblem,
+  retryDelayMinutes,
+  validateWorkflowGraph,
+  type ActionHandlers,
+  type FarmRecipients,
+  type WorkflowContext,
+  type WorkflowGraph,
+} from "./workflowEngine";
+
+const context = (event: Record<string, unknown>): WorkflowContext => ({ farmId: 1, event, steps: {} });
+
+function handlers(overrides: Partial<ActionHandlers> = {}): ActionHandlers {
+  const ok = () => vi.fn(async (config: Record<string, any>) => ({ ok: true, config }));
+  return {
+    create_task: ok(),
+    send_sms: ok(),
+    send_email: ok(),
+    send_push: ok(),
+    call_webhook: ok(),
+    update_record: ok(),
+    ...overrides,
+  };
+}
+
+const branching: WorkflowGraph = {
+  nodes: [
+    { id: "t", type: "trigger" },
+    { id: "critical", type: "condition", config: { condition: { field: "severity", operator: "eq", value: "critical" } } },
+    { id: "sms", type: "notification", config: { channel: "sms", message: "{{deviceName}} reads {{value}}" } },
+    { id: "task", type: "action", config: { action: "create_task", title: "Check {{deviceName}}" } },
+    { id: "log", type: "action", config: { action: "call_webhook", url: "https://example.com/hook", payload: { task: "{{steps.task.taskId}}" } } },
+  ],
+  edges: [
+    { source: "t", target: "critical" },
+    { source: "critical", target: "sms", branch: "true" },
+    { source: "critical", target: "task", branch: "false" },
+    { source: "sms", target: "log" },
+  ],
+};
+
+describe("validateWorkflowGraph", () => {
+  it("accepts the built-in templates", () => {
+    for (const template of WORKFLOW_TEMPLATES) expect(() => validateWorkflowGraph(template)).not.toThrow();
+  });
+
+  it("collects every structural problem", () => {
+    try {
+      validateWorkflowGraph({
+        nodes: [
+          { id: "a", type: "action", config: { action: "launch_rockets" } },
+          { id: "b", type: "condition", config: { field: "x", operator: "near" } },
+          { id: "c", type: "action", config: { action: "call_webhook", url: "ftp://x" } },
+        ],
+        edges: [{ source: "a", target: "z" }],
+      });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(WorkflowValidationError);
+      expect((error as WorkflowValidationError).problems).toEqual([
+        "expected exactly one trigger node, found 0",
+        "action a needs one of: create_task, send_sms, send_email, send_push, call_webhook, update_record",
+        'condition b: unknown operator "near"',
+        "webhook c needs an http(s) url",
+        "edge a -> z points at a missing node",
+      ]);
+    }
+  });
+
+  it("rejects cycles", () => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        { id: "t", type: "trigger" },
+        { id: "a", type: "action", config: { action: "send_push" } },
+        { id: "b", type: "action", config: { action: "send_push" } },
+      ],
+      edges: [
+        { source: "t", target: "a" },
+        { source: "a", target: "b" },
+        { source: "b", target: "a" },
+      ],
+    };
+    expect(() => validateWorkflowGraph(graph)).toThrow(/cycle/);
+  });
+});
+
+describe("recipients", () => {
+  const farm: FarmRecipients = { userIds: [1, 4], emails: ["Owner@Farm.test", "hand@farm.test"], phones: ["+233 24 000 0001"] };
+  const graph = (config: Record<string, unknown>): WorkflowGraph => ({
+    nodes: [
+      { id: "t", type: "trigger" },
+      { id: "n", type: "action", config },
+    ],
+    edges: [{ source: "t", target: "n" }],
+  });
+
+  it("accepts owners, grantees and workers of the farm", () => {
+    expect(recipientProblem("send_email", { to: " owner@farm.test" }, farm)).toBeNull();
+    expect(recipientProblem("send_sms", { to: "+233240000001" }, farm)).toBeNull();
+    expect(recipientProblem("send_push", { userId: "4" }, farm)).toBeNull();
+    expect(recipientProblem("create_task", { title: "Feed" }, farm)).toBeNull();
+  });
+
+  it("refuses anyone outside the farm", () => {
+    expect(recipientProblem("send_push", { userId: 99 }, farm)).toMatch(/not a member/);
+    expect(recipientProblem("create_task", { workerId: 99 }, farm)).toMatch(/not a member/);
+    expect(recipientProblem("send_email", { to: "victim@elsewhere.test" }, farm)).toMatch(/not a member/);
+    expect(recipientProblem("send_sms", { to: "+233 55 999 9999" }, farm)).toMatch(/not a member/);
+  });
+
+  it("rejects fixed outside recipients on save and leaves placeholders to the run", () => {
+    expect(() => validateWorkflowGraph(graph({ action: "send_push", title: "Hi", message: "Hi", userId: 99 }), farm)).toThrow(
+      "action n: userId 99 is not a member or worker of this farm"
+    );
+    expect(() => validateWorkflowGraph(graph({ action: "send_email", to: "{{email}}" }), farm)).not.toThrow();
+    expect(() => validateWorkflowGraph(graph({ action: "create_task", title: "{{title}}", workerId: 99 }), farm)).toThrow(/workerId 99/);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("refuses internal, loopback and link-local targets", () => {
+    for (const address of ["10.1.2.3", "127.0.0.1", "169.254.169.254", "172.20.0.5", "192.168.1.1", "100.64.0.1", "0.0.0.0", "::1", "::", "fe80::1", "fd00::7", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::10.0.0.1", "not-an-ip"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe("conditions and templates", () => {
+  it("evaluates nested groups against the event", () => {
+    const event = context({ severity: "critical", value: 41.5, readingType: "temperature", tags: ["barn"] });
+    expect(evaluateCondition({ all: [{ field: "value", operator: "gte", value: 40 }, { field: "severity", operator: "in", value: ["warning", "critical"] }] }, event)).toBe(true);
+    expect(evaluateCondition({ any: [{ field: "event.readingType", operator: "eq", value: "humidity" }, { field: "tags", operator: "contains", value: "barn" }] }, event)).toBe(true);
+    expect(evaluateCondition({ field: "missing", operator: "exists" }, event)).toBe(false);
+  });
+
+  it("fills placeholders and keeps lone values typed", () => {
+    const ctx = { ...context({ taskId: 42, title: "Spray" }), steps: { sms: { to: "+233" } } };
+    expect(interpolate({ id: "{{taskId}}", text: "{{title}} to {{steps.sms.to}}{{nothing}}" }, ctx)).toEqual({ id: 42, text: "Spray to +233" });
+  });
+
+  it("normalizes builder trigger labels", () => {
+    expect(normalizeTriggerEvent("Budget Exceeded")).toBe("budget_exceeded");
+    expect(normalizeTriggerEvent("prescription-due")).toBe("prescription_due");
+  });
+});
+
+describe("executeGraph", () => {
+  it("follows only the branch the condition chose", async () => {
+    const actions = handlers();
+    const result = await executeGraph(branching, context({ severity: "critical", deviceName: "Probe 7", value: 41 }), actions);
+    expect(result.status).toBe("completed");
+    expect(result.steps.map(step => step.nodeId)).toEqual(["t", "critical", "sms", "log"]);
+    expect(actions.send_sms).toHaveBeenCalledWith({ channel: "sms", message: "Probe 7 reads 41" }, expect.anything());
+    expect(actions.create_task).not.toHaveBeenCalled();
+  });
+
+  it("passes earlier step outputs to later actions", async () => {
+    const actions = handlers({ create_task: vi.fn(async () => ({ taskId: 9 })) });
+    const graph: WorkflowGraph = {
+      nodes: branching.nodes,
+      edges: [
+        { source: "t", target: "critical" },
+        { source: "critical", target: "task", branch: "false" },
+        { source: "task", target: "log" },
+      ],
+    };
+    await executeGraph(graph, context({ severity: "info", deviceName: "Probe 7" }), actions);
+    expect(actions.call_webhook).toHaveBeenCalledWith(expect.objectContaining({ payload: { task: 9 } }), expect.anything());
+  });
+
+  it("stops at the first failure and resumes without repeating finished actions", async () => {
+    const webhook = vi.fn().mockRejectedValueOnce(new Error("HTTP 502")).mockResolvedValueOnce({ status: 200 });
+    const actions = handlers({ call_webhook: webhook });
+    const event = { severity: "critical", deviceName: "Probe 7", value: 41 };
+
+    const first = await executeGraph(branching, context(event), actions);
+    expect(first).toMatchObject({ status: "failed", error: "log: HTTP 502" });
+    expect(first.steps.at(-1)).toMatchObject({ nodeId: "log", status: "failed" });
+
+    const done = new Map(first.steps.filter(step => step.status === "completed" && step.nodeType === "notification").map(step => [step.nodeId, step.output]));
+    const second = await executeGraph(branching, context(event), actions, done);
+    expect(second.status).toBe("completed");
+    expect(second.steps.find(step => step.nodeId === "sms")?.status).toBe("skipped");
+    expect(actions.send_sms).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("retryDelayMinutes", () => {
+  it("backs off and caps at a day", () => {
+    expect([1, 2, 3].map(retryDelayMinutes)).toEqual([1, 5, 25]);
+    expect(retryDelayMinutes(10)).toBe(1440);
+  });
+});
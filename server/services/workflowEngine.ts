@@ -0,0 +1,505 @@
+/**
+ * Workflow engine
+ * Validates and executes workflow graphs: one trigger node, condition nodes
+ * that gate their outgoing edges, and action/notification nodes whose side
+ * effects are delegated to handlers. Execution is a pure walk over the graph
+ * so it can be tested without a database; workflowRunner supplies the real
+ * handlers and persists the step log.
+ *
+ * Edges leaving a condition node can carry `branch: "true" | "false"`; an
+ * edge without a branch follows the true outcome.
+ */
+
+export const WORKFLOW_EVENTS = ["budget_exceeded", "sensor_alert", "task_overdue", "prescription_due", "manual"] as const;
+export type WorkflowEvent = (typeof WORKFLOW_EVENTS)[number];
+
+export const WORKFLOW_ACTIONS = [
+  "create_task",
+  "send_sms",
+  "send_email",
+  "send_push",
+  "call_webhook",
+  "update_record",
+] as const;
+export type WorkflowAction = (typeof WORKFLOW_ACTIONS)[number];
+
+export type NodeType = "trigger" | "condition" | "action" | "notification";
+
+export interface WorkflowNode {
+  id: string;
+  type: NodeType;
+  label?: string;
+  config?: Record<string, any>;
+  position?: { x: number; y: number };
+}
+
+export interface WorkflowEdge {
+  id?: string;
+  source: string;
+  target: string;
+  branch?: "true" | "false";
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+}
+
+export const CONDITION_OPERATORS = ["eq", "neq", "gt", "gte", "lt", "lte", "contains", "in", "exists"] as const;
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+
+export type Condition =
+  | { field: string; operator: ConditionOperator; value?: unknown }
+  | { all: Condition[] }
+  | { any: Condition[] };
+
+export class WorkflowValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid workflow: ${problems.join("; ")}`);
+    this.name = "WorkflowValidationError";
+  }
+}
+
+/** "Budget Exceeded" and "budget-exceeded" both mean budget_exceeded */
+export function normalizeTriggerEvent(trigger: string): string {
+  return trigger.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+export function isWorkflowEvent(value: string): value is WorkflowEvent {
+  return (WORKFLOW_EVENTS as readonly string[]).includes(value);
+}
+
+/** Notification nodes pick the action from their channel */
+export function actionFor(node: WorkflowNode): WorkflowAction | null {
+  const config = node.config ?? {};
+  const action = node.type === "notification" ? (config.channel ? `send_${config.channel}` : null) : config.action;
+  return typeof action === "string" && (WORKFLOW_ACTIONS as readonly string[]).includes(action) ? (action as WorkflowAction) : null;
+}
+
+function conditionProblems(condition: unknown, where: string): string[] {
+  if (!condition || typeof condition !== "object") return [`${where}: condition is missing`];
+  const value = condition as Record<string, unknown>;
+  if (Array.isArray(value.all) || Array.isArray(value.any)) {
+    const list = (value.all ?? value.any) as unknown[];
+    if (!list.length) return [`${where}: empty condition group`];
+    return list.flatMap((child, index) => conditionProblems(child, `${where}[${index}]`));
+  }
+  if (typeof value.field !== "string" || !value.field) return [`${where}: condition needs a field`];
+  if (!(CONDITION_OPERATORS as readonly string[]).includes(value.operator as string)) {
+    return [`${where}: unknown operator "${String(value.operator)}"`];
+  }
+  if (value.operator === "in" && !Array.isArray(value.value)) return [`${where}: "in" needs a list`];
+  return [];
+}
+
+/**
+ * People on a farm a workflow may contact: the owner and active grantees by
+ * user id, plus farm workers, who have contact details but no account.
+ * Actions can never reach anyone outside the run's farm.
+ */
+export interface FarmRecipients {
+  userIds: number[];
+  emails: string[];
+  phones: string[];
+}
+
+// Config key naming the recipient of each action that contacts someone
+const RECIPIENT_FIELDS: Partial<Record<WorkflowAction, { key: string; kind: keyof FarmRecipients }>> = {
+  create_task: { key: "workerId", kind: "userIds" },
+  send_sms: { key: "to", kind: "phones" },
+  send_email: { key: "to", kind: "emails" },
+  send_push: { key: "userId", kind: "userIds" },
+};
+
+const recipientKey = {
+  userIds: (value: unknown) => String(Number(value)),
+  emails: (value: unknown) => String(value).trim().toLowerCase(),
+  phones: (value: unknown) => String(value).replace(/\D/g, ""),
+};
+
+/**
+ * Problem with the recipient an action's config names, or null when it is
+ * unset (the handler falls back to the farm owner) or on the farm.
+ */
+export function recipientProblem(action: WorkflowAction, config: Record<string, any>, recipients: FarmRecipients): string | null {
+  const field = RECIPIENT_FIELDS[action];
+  const value = field ? config[field.key] : undefined;
+  if (!field || value === undefined || value === null || value === "") return null;
+  const key = recipientKey[field.kind];
+  const known = key(value) !== "" && (recipients[field.kind] as unknown[]).some(candidate => key(candidate) === key(value));
+  return known ? null : `${field.key} ${String(value)} is not a member or worker of this farm`;
+}
+
+function ipv4Private(octets: number[]): boolean {
+  const [a, b] = octets;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && octets[2] === 0) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+// Eight 16-bit groups, or null when the text is not an IPv6 address
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIpv4(dotted[2]);
+    if (!v4) return null;
+    text = `${dotted[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const groups = (half: string) => (half ? half.split(":") : []);
+  const head = groups(halves[0]);
+  const tail = halves.length === 2 ? groups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const all = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!all.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return all.map(group => parseInt(group, 16));
+}
+
+/**
+ * True for addresses a webhook must never reach: private, loopback,
+ * link-local, carrier-grade NAT, multicast and reserved ranges, including
+ * IPv4 addresses embedded in IPv6. Anything unparseable counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const v4 = parseIpv4(address);
+  if (v4) return ipv4Private(v4);
+  const v6 = parseIpv6(address);
+  if (!v6) return true;
+  const embedded = [v6[6] >> 8, v6[6] & 0xff, v6[7] >> 8, v6[7] & 0xff];
+  if (v6.slice(0, 5).every(group => group === 0) && (v6[5] === 0xffff || v6[5] === 0)) {
+    // ::ffff:a.b.c.d, the deprecated ::a.b.c.d, and :: / ::1 themselves
+    return v6[5] === 0 && v6[6] === 0 ? true : ipv4Private(embedded);
+  }
+  if (v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every(group => group === 0)) return ipv4Private(embedded);
+  return (v6[0] & 0xfe00) === 0xfc00 || (v6[0] & 0xffc0) === 0xfe80 || (v6[0] & 0xff00) === 0xff00;
+}
+
+/** Trigger conditions filter which events start a run; same shape as a condition node */
+export function validateTriggerConditions(condition: unknown): asserts condition is Condition {
+  const problems = conditionProblems(condition, "trigger conditions");
+  if (problems.length) throw new WorkflowValidationError(problems);
+}
+
+/**
+ * Structural checks run on save: one trigger, known actions, valid
+ * conditions, edges between existing nodes and no cycles. With the farm's
+ * recipients, fixed recipients must belong to the farm; placeholders are
+ * only known at run time, where the runner checks them again.
+ */
+export function validateWorkflowGraph(graph: WorkflowGraph, recipients?: FarmRecipients): void {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  for (const node of graph.nodes) {
+    if (ids.has(node.id)) problems.push(`duplicate node id "${node.id}"`);
+    ids.add(node.id);
+  }
+
+  const triggers = graph.nodes.filter(node => node.type === "trigger");
+  if (triggers.length !== 1) problems.push(`expected exactly one trigger node, found ${triggers.length}`);
+
+  for (const node of graph.nodes) {
+    const name = node.label ? `"${node.label}"` : node.id;
+    if (node.type === "condition") {
+      problems.push(...conditionProblems(node.config?.condition ?? node.config, `condition ${name}`));
+    } else if (node.type === "action" || node.type === "notification") {
+      if (!actionFor(node)) {
+        problems.push(
+          node.type === "notification"
+            ? `notification ${name} needs a channel (sms, email or push)`
+            : `action ${name} needs one of: ${WORKFLOW_ACTIONS.join(", ")}`
+        );
+      }
+      if (actionFor(node) === "call_webhook" && !/^https?:\/\//i.test(String(node.config?.url ?? ""))) {
+        problems.push(`webhook ${name} needs an http(s) url`);
+      }
+      const action = actionFor(node);
+      const field = action && RECIPIENT_FIELDS[action];
+      const recipient = field ? node.config?.[field.key] : undefined;
+      if (action && recipients && !(typeof recipient === "string" && recipient.includes("{{"))) {
+        const problem = recipientProblem(action, node.config ?? {}, recipients);
+        if (problem) problems.push(`${node.type} ${name}: ${problem}`);
+      }
+    }
+  }
+
+  for (const edge of graph.edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) {
+      problems.push(`edge ${edge.source} -> ${edge.target} points at a missing node`);
+    }
+    if (edge.target === triggers[0]?.id) problems.push("nothing can lead into the trigger");
+  }
+
+  if (!problems.length && topologicalOrder(graph) === null) problems.push("workflow contains a cycle");
+  if (problems.length) throw new WorkflowValidationError(problems);
+}
+
+// Kahn's algorithm; null when the graph has a cycle
+function topologicalOrder(graph: WorkflowGraph): WorkflowNode[] | null {
+  const incoming = new Map(graph.nodes.map(node => [node.id, 0]));
+  for (const edge of graph.edges) incoming.set(edge.target, (incoming.get(edge.target) ?? 0) + 1);
+  const queue = graph.nodes.filter(node => incoming.get(node.id) === 0);
+  const byId = new Map(graph.nodes.map(node => [node.id, node]));
+  const order: WorkflowNode[] = [];
+  while (queue.length) {
+    const node = queue.shift()!;
+    order.push(node);
+    for (const edge of graph.edges.filter(candidate => candidate.source === node.id)) {
+      const remaining = incoming.get(edge.target)! - 1;
+      incoming.set(edge.target, remaining);
+      if (remaining === 0) queue.push(byId.get(edge.target)!);
+    }
+  }
+  return order.length === graph.nodes.length ? order : null;
+}
+
+export interface WorkflowContext {
+  farmId: number;
+  event: Record<string, any>;
+  steps: Record<string, unknown>;
+}
+
+/** Look up "event.severity", "steps.task-1.taskId"; bare paths read the event */
+export function resolvePath(context: WorkflowContext, path: string): unknown {
+  const parts = path.split(".");
+  let current: any = parts[0] === "event" || parts[0] === "steps" || parts[0] === "farmId" ? context : context.event;
+  for (const part of parts) {
+    if (current === null || current === undefined) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+export function evaluateCondition(condition: Condition, context: WorkflowContext): boolean {
+  if ("all" in condition) return condition.all.every(child => evaluateCondition(child, context));
+  if ("any" in condition) return condition.any.some(child => evaluateCondition(child, context));
+
+  const actual = resolvePath(context, condition.field);
+  const expected = condition.value;
+  const numeric = (value: unknown) => (typeof value === "number" ? value : Number(value));
+  switch (condition.operator) {
+    case "exists":
+      return actual !== undefined && actual !== null && actual !== "";
+    case "eq":
+      return String(actual) === String(expected);
+    case "neq":
+      return String(actual) !== String(expected);
+    case "gt":
+      return numeric(actual) > numeric(expected);
+    case "gte":
+      return numeric(actual) >= numeric(expected);
+    case "lt":
+      return numeric(actual) < numeric(expected);
+    case "lte":
+      return numeric(actual) <= numeric(expected);
+    case "contains":
+      return Array.isArray(actual)
+        ? actual.map(String).includes(String(expected))
+        : String(actual ?? "").toLowerCase().includes(String(expected).toLowerCase());
+    case "in":
+      return Array.isArray(expected) && expected.map(String).includes(String(actual));
+  }
+}
+
+/** Replace {{event.field}} placeholders in every string of an action's config */
+export function interpolate<T>(value: T, context: WorkflowContext): T {
+  if (typeof value === "string") {
+    const whole = value.match(/^\{\{\s*([\w.-]+)\s*\}\}$/);
+    // A lone placeholder keeps the value's type, so ids stay numbers
+    if (whole) return resolvePath(context, whole[1]) as T;
+    return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) => {
+      const resolved = resolvePath(context, path);
+      return resolved === undefined || resolved === null ? "" : String(resolved);
+    }) as T;
+  }
+  if (Array.isArray(value)) return value.map(item => interpolate(item, context)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, context)])) as T;
+  }
+  return value;
+}
+
+export type ActionHandler = (config: Record<string, any>, context: WorkflowContext) => Promise<unknown>;
+export type ActionHandlers = Record<WorkflowAction, ActionHandler>;
+
+export interface StepResult {
+  nodeId: string;
+  nodeType: NodeType;
+  status: "completed" | "failed" | "skipped";
+  output?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface ExecutionResult {
+  status: "completed" | "failed";
+  steps: StepResult[];
+  error?: string;
+}
+
+/**
+ * Walk the graph in topological order. A node runs when at least one edge
+ * into it is live. `completed` holds action outputs from earlier attempts;
+ * those nodes are not run again, which keeps retries from re-sending an SMS
+ * that already went out.
+ */
+export async function executeGraph(
+  graph: WorkflowGraph,
+  context: WorkflowContext,
+  handlers: ActionHandlers,
+  completed: Map<string, unknown> = new Map()
+): Promise<ExecutionResult> {
+  const order = topologicalOrder(graph);
+  if (!order) return { status: "failed", steps: [], error: "workflow contains a cycle" };
+
+  const live = new Set<string>();
+  const steps: StepResult[] = [];
+  const activate = (node: WorkflowNode, outcome?: boolean) => {
+    for (const edge of graph.edges) {
+      if (edge.source !== node.id) continue;
+      const branch = edge.branch ?? "true";
+      if (outcome === undefined || (branch === "true") === outcome) live.add(edge.target);
+    }
+  };
+
+  for (const node of order) {
+    if (node.type === "trigger") {
+      steps.push({ nodeId: node.id, nodeType: node.type, status: "completed", durationMs: 0 });
+      activate(node);
+      continue;
+    }
+    if (!live.has(node.id)) continue;
+
+    const started = Date.now();
+    if (node.type === "condition") {
+      const outcome = evaluateCondition((node.config?.condition ?? node.config) as Condition, context);
+      steps.push({ nodeId: node.id, nodeType: node.type, status: "completed", output: { result: outcome }, durationMs: 0 });
+      activate(node, outcome);
+      continue;
+    }
+
+    if (completed.has(node.id)) {
+      context.steps[node.id] = completed.get(node.id);
+      steps.push({ nodeId: node.id, nodeType: node.type, status: "skipped", output: completed.get(node.id), durationMs: 0 });
+      activate(node);
+      continue;
+    }
+
+    const action = actionFor(node);
+    try {
+      if (!action) throw new Error(`Node ${node.id} has no runnable action`);
+      const output = await handlers[action](interpolate(node.config ?? {}, context), context);
+      context.steps[node.id] = output;
+      steps.push({ nodeId: node.id, nodeType: node.type, status: "completed", output, durationMs: Date.now() - started });
+      activate(node);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      steps.push({ nodeId: node.id, nodeType: node.type, status: "failed", error: message, durationMs: Date.now() - started });
+      return { status: "failed", steps, error: `${node.label ?? node.id}: ${message}` };
+    }
+  }
+
+  return { status: "completed", steps };
+}
+
+/** Minutes to wait before retry n (1-based): 1, 5, 25, ... capped at a day */
+export function retryDelayMinutes(attempt: number): number {
+  return Math.min(24 * 60, Math.pow(5, Math.max(0, attempt - 1)));
+}
+
+export interface WorkflowTemplate extends WorkflowGraph {
+  key: string;
+  name: string;
+  description: string;
+  trigger: WorkflowEvent;
+  templateCategory: string;
+}
+
+/** Starting points offered in the builder, one per domain event */
+export const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
+  {
+    key: "budget-overrun",
+    name: "Budget Overrun Escalation",
+    description: "Text the owner and open a review task when spending passes the budget by more than 10%",
+    trigger: "budget_exceeded",
+    templateCategory: "Finance",
+    nodes: [
+      { id: "trigger", type: "trigger", label: "Budget Exceeded" },
+      { id: "large", type: "condition", label: "Over by more than 10%", config: { condition: { field: "variancePercent", operator: "gt", value: 10 } } },
+      { id: "sms", type: "notification", label: "SMS owner", config: { channel: "sms", message: "{{category}} is {{variancePercent}}% over budget" } },
+      { id: "task", type: "action", label: "Review spending", config: { action: "create_task", title: "Review {{category}} spending", priority: "high", dueInHours: 48 } },
+    ],
+    edges: [
+      { source: "trigger", target: "large" },
+      { source: "large", target: "sms", branch: "true" },
+      { source: "sms", target: "task" },
+    ],
+  },
+  {
+    key: "critical-sensor",
+    name: "Critical Sensor Response",
+    description: "Push an alert and create an inspection task when a sensor reports a critical reading",
+    trigger: "sensor_alert",
+    templateCategory: "IoT",
+    nodes: [
+      { id: "trigger", type: "trigger", label: "Sensor Alert" },
+      { id: "critical", type: "condition", label: "Critical severity", config: { condition: { field: "severity", operator: "eq", value: "critical" } } },
+      { id: "push", type: "notification", label: "Push alert", config: { channel: "push", title: "{{deviceName}}: {{readingType}} alert", message: "{{message}}", priority: "critical" } },
+      { id: "task", type: "action", label: "Inspect device", config: { action: "create_task", title: "Inspect {{deviceName}}", taskType: "maintenance", priority: "urgent", dueInHours: 4 } },
+    ],
+    edges: [
+      { source: "trigger", target: "critical" },
+      { source: "critical", target: "push", branch: "true" },
+      { source: "push", target: "task" },
+    ],
+  },
+  {
+    key: "overdue-task",
+    name: "Overdue Task Reminder",
+    description: "Escalate urgent tasks and email the owner when a task passes its due date",
+    trigger: "task_overdue",
+    templateCategory: "Operations",
+    nodes: [
+      { id: "trigger", type: "trigger", label: "Task Overdue" },
+      { id: "email", type: "notification", label: "Email owner", config: { channel: "email", subject: "Task overdue: {{title}}", body: "<p>{{title}} is {{hoursOverdue}} hours overdue.</p>" } },
+      { id: "escalate", type: "action", label: "Mark urgent", config: { action: "update_record", record: "task", id: "{{taskId}}", set: { priority: "urgent" } } },
+    ],
+    edges: [
+      { source: "trigger", target: "email" },
+      { source: "email", target: "escalate" },
+    ],
+  },
+  {
+    key: "prescription-dose",
+    name: "Prescription Dose Reminder",
+    description: "Text a reminder and schedule the dose as a health task on the day it is due",
+    trigger: "prescription_due",
+    templateCategory: "Animal Health",
+    nodes: [
+      { id: "trigger", type: "trigger", label: "Prescription Due" },
+      { id: "sms", type: "notification", label: "SMS reminder", config: { channel: "sms", message: "Give {{medicationName}} ({{dosage}}) to animal {{animalId}} today" } },
+      { id: "task", type: "action", label: "Dose task", config: { action: "create_task", title: "Administer {{medicationName}}", taskType: "health_check", dueInHours: 8 } },
+    ],
+    edges: [
+      { source: "trigger", target: "sms" },
+      { source: "sms", target: "task" },
+    ],
+  },
+];
@@ -0,0 +1,710 @@
+import { createHmac, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { and, asc, desc, eq, gte, inArray, lt, lte, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { defineCronJob, registerJobHandler } from "./jobQueueService";
+import {
+  alerts,
+  budgetVarianceAlerts,
+  farmPermissions,
+  farms,
+  farmWorkers,
+  prescriptionCompliance,
+  prescriptions,
+  pushSubscriptions,
+  taskAssignments,
+  users,
+  workflowRuns,
+  workflowRunSteps,
+  workflows,
+  workflowVersions,
+  type Workflow,
+} from "../../drizzle/schema";
+import { sendSMS } from "../_core/sms";
+import { sendEmail } from "../_core/email";
+import { pushNotifications } from "../_core/pushNotifications";
+import { broadcastToUser } from "../_core/websocket";
+import { createNotification } from "../notificationService";
+import {
+  evaluateCondition,
+  actionFor,
+  executeGraph,
+  isPrivateAddress,
+  isWorkflowEvent,
+  recipientProblem,
+  retryDelayMinutes,
+  validateTriggerConditions,
+  validateWorkflowGraph,
+  WorkflowValidationError,
+  type ActionHandlers,
+  type Condition,
+  type FarmRecipients,
+  type WorkflowAction,
+  type WorkflowContext,
+  type WorkflowEvent,
+  type WorkflowGraph,
+} from "./workflowEngine";
+
+/**
+ * Workflow runner
+ * Connects the engine to the rest of the app: domain events start runs for
+ * the farm's active workflows, each run executes the version it was started
+ * with, every step is logged, and failed runs are retried with backoff
+ * (completed actions are not repeated). Task-overdue and prescription-due
+ * events come from a scan rather than a write path, so they are deduplicated
+ * per task / dose.
+ *
+ * Environment:
+ *   WORKFLOW_WEBHOOK_SECRET   signs webhook bodies (X-Workflow-Signature, HMAC-SHA256)
+ */
+
+type Db = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+
+async function requireDb(): Promise<Db> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+  return db;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+// Set by the runner; a workflow's own headers cannot replace them
+const RESERVED_WEBHOOK_HEADERS = ["content-type", "host", "x-workflow-signature"];
+
+/**
+ * Refuse webhook urls whose host resolves to a private, loopback or
+ * link-local address, so workflows cannot probe the internal network.
+ */
+async function assertPublicWebhook(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Webhook url is not valid");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new Error("Webhook url must be http(s)");
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Webhook host ${host} could not be resolved`);
+  }
+  if (!addresses.length || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Webhook host ${host} resolves to a private address`);
+  }
+}
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+export interface WorkflowDefinition extends WorkflowGraph {
+  triggerEvent: string;
+  triggerConditions?: Condition | null;
+}
+
+/** Owner, active grantees and farm workers: everyone a workflow on the farm may contact */
+async function farmRecipients(db: Db, farmId: number, now: Date = new Date()): Promise<FarmRecipients> {
+  const person = { id: users.id, email: users.email, phone: users.phone };
+  const owners = await db.select(person).from(farms).innerJoin(users, eq(users.id, farms.farmerUserId)).where(eq(farms.id, farmId));
+  const grantees = await db
+    .select({ ...person, expiresAt: farmPermissions.expiresAt })
+    .from(farmPermissions)
+    .innerJoin(users, eq(users.id, farmPermissions.userId))
+    .where(eq(farmPermissions.farmId, farmId));
+  const workers = await db
+    .select({ email: farmWorkers.email, phone: farmWorkers.contact })
+    .from(farmWorkers)
+    .where(eq(farmWorkers.farmId, farmId));
+
+  const members = [...owners, ...grantees.filter(grantee => !grantee.expiresAt || grantee.expiresAt.getTime() > now.getTime())];
+  const present = (value: string | null): value is string => Boolean(value);
+  return {
+    userIds: members.map(member => member.id),
+    emails: [...members, ...workers].map(contact => contact.email).filter(present),
+    phones: [...members, ...workers].map(contact => contact.phone).filter(present),
+  };
+}
+
+async function checkDefinition(db: Db, farmId: number, definition: WorkflowDefinition) {
+  if (!isWorkflowEvent(definition.triggerEvent)) {
+    throw new WorkflowValidationError([`unknown trigger event "${definition.triggerEvent}"`]);
+  }
+  validateWorkflowGraph(definition, await farmRecipients(db, farmId));
+  if (definition.triggerConditions) validateTriggerConditions(definition.triggerConditions);
+
+  // Urls built from placeholders are checked when the run resolves them
+  const problems: string[] = [];
+  for (const node of definition.nodes) {
+    const url = String(node.config?.url ?? "");
+    if (actionFor(node) !== "call_webhook" || url.includes("{{")) continue;
+    try {
+      await assertPublicWebhook(url);
+    } catch (error) {
+      problems.push(`webhook ${node.label ? `"${node.label}"` : node.id}: ${(error as Error).message}`);
+    }
+  }
+  if (problems.length) throw new WorkflowValidationError(problems);
+}
+
+/** Create a workflow together with its first version */
+export async function createWorkflow(
+  input: WorkflowDefinition & {
+    farmId: number;
+    name: string;
+    description?: string;
+    isTemplate?: boolean;
+    templateCategory?: string;
+    maxRetries?: number;
+  },
+  createdBy: number
+): Promise<number> {
+  const db = await requireDb();
+  await checkDefinition(db, input.farmId, input);
+  const [header] = await db.insert(workflows).values({
+    farmId: input.farmId,
+    name: input.name,
+    description: input.description,
+    triggerEvent: input.triggerEvent,
+    triggerConditions: input.triggerConditions ?? null,
+    nodes: input.nodes,
+    edges: input.edges,
+    maxRetries: input.maxRetries,
+    isTemplate: input.isTemplate ?? false,
+    templateCategory: input.templateCategory,
+    createdBy,
+  });
+  await db.insert(workflowVersions).values({
+    workflowId: header.insertId,
+    versionNumber: 1,
+    triggerEvent: input.triggerEvent,
+    triggerConditions: input.triggerConditions ?? null,
+    nodes: input.nodes,
+    edges: input.edges,
+    versionNotes: "Initial version",
+    createdBy,
+  });
+  return header.insertId;
+}
+
+/**
+ * Snapshot a new definition as the next version and make it current. Runs
+ * already started keep executing the version they were started with.
+ */
+export async function saveWorkflowVersion(
+  workflowId: number,
+  definition: WorkflowDefinition,
+  versionNotes: string,
+  createdBy: number
+): Promise<number> {
+  const db = await requireDb();
+  const [workflow] = await db.select({ farmId: workflows.farmId }).from(workflows).where(eq(workflows.id, workflowId)).limit(1);
+  if (!workflow) throw new Error(`Workflow ${workflowId} not found`);
+  await checkDefinition(db, workflow.farmId, definition);
+  const [latest] = await db
+    .select({ versionNumber: workflowVersions.versionNumber })
+    .from(workflowVersions)
+    .where(eq(workflowVersions.workflowId, workflowId))
+    .orderBy(desc(workflowVersions.versionNumber))
+    .limit(1);
+  const versionNumber = (latest?.versionNumber ?? 0) + 1;
+
+  await db
+    .update(workflowVersions)
+    .set({ status: "superseded" })
+    .where(and(eq(workflowVersions.workflowId, workflowId), eq(workflowVersions.status, "active")));
+  await db.insert(workflowVersions).values({
+    workflowId,
+    versionNumber,
+    triggerEvent: definition.triggerEvent,
+    triggerConditions: definition.triggerConditions ?? null,
+    nodes: definition.nodes,
+    edges: definition.edges,
+    versionNotes,
+    createdBy,
+  });
+  await db
+    .update(workflows)
+    .set({
+      triggerEvent: definition.triggerEvent,
+      triggerConditions: definition.triggerConditions ?? null,
+      nodes: definition.nodes,
+      edges: definition.edges,
+      currentVersion: versionNumber,
+    })
+    .where(eq(workflows.id, workflowId));
+  return versionNumber;
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+const TASK_TYPES = taskAssignments.taskType.enumValues;
+const TASK_PRIORITIES = taskAssignments.priority.enumValues;
+
+/** Fields an update_record action may change, per record type */
+export const RECORD_UPDATES = {
+  task: { status: taskAssignments.status.enumValues, priority: TASK_PRIORITIES },
+  prescription: { status: prescriptions.status.enumValues, complianceStatus: prescriptions.complianceStatus.enumValues },
+  sensor_alert: { isResolved: [true, false] },
+  budget_alert: { acknowledged: [true, false] },
+} as const;
+
+export type UpdatableRecord = keyof typeof RECORD_UPDATES;
+
+export function validateRecordUpdate(record: string, set: Record<string, unknown>): asserts record is UpdatableRecord {
+  const allowed = RECORD_UPDATES[record as UpdatableRecord] as Record<string, readonly unknown[]> | undefined;
+  if (!allowed) throw new Error(`Unknown record type "${record}"`);
+  const entries = Object.entries(set ?? {});
+  if (!entries.length) throw new Error("Nothing to update");
+  for (const [field, value] of entries) {
+    if (!allowed[field]) throw new Error(`${record}.${field} cannot be updated by a workflow`);
+    if (!allowed[field].includes(value)) throw new Error(`Invalid value for ${record}.${field}: ${String(value)}`);
+  }
+}
+
+async function farmOwner(db: Db, farmId: number) {
+  const [row] = await db
+    .select({ id: users.id, name: users.name, email: users.email, phone: users.phone })
+    .from(farms)
+    .innerJoin(users, eq(users.id, farms.farmerUserId))
+    .where(eq(farms.id, farmId))
+    .limit(1);
+  if (!row) throw new Error(`Farm ${farmId} has no owner`);
+  return row;
+}
+
+async function updateRecord(db: Db, farmId: number, record: UpdatableRecord, id: number, set: Record<string, unknown>) {
+  const now = new Date();
+  let result;
+  switch (record) {
+    case "task":
+      result = await db
+        .update(taskAssignments)
+        .set({ ...set, ...(set.status === "completed" ? { completedAt: now } : {}) })
+        .where(and(eq(taskAssignments.id, id), eq(taskAssignments.farmId, farmId)));
+      break;
+    case "prescription":
+      result = await db
+        .update(prescriptions)
+        .set(set)
+        .where(and(eq(prescriptions.id, id), eq(prescriptions.farmId, farmId)));
+      break;
+    case "sensor_alert":
+      result = await db
+        .update(alerts)
+        .set({ isResolved: Boolean(set.isResolved), resolvedAt: set.isResolved ? now : null })
+        .where(and(eq(alerts.id, id), eq(alerts.farmId, farmId)));
+      break;
+    case "budget_alert":
+      result = await db
+        .update(budgetVarianceAlerts)
+        .set({ acknowledged: Boolean(set.acknowledged), acknowledgedAt: set.acknowledged ? now : null })
+        .where(and(eq(budgetVarianceAlerts.id, id), eq(budgetVarianceAlerts.farmId, farmId)));
+      break;
+  }
+  const [header] = result;
+  if (header.affectedRows === 0) throw new Error(`${record} ${id} not found on farm ${farmId}`);
+  return { record, id, updated: set };
+}
+
+function createActionHandlers(db: Db, run: { id: number; workflowId: number; farmId: number; createdBy: number }): ActionHandlers {
+  // Recipients were checked on save, but placeholders only resolve now
+  let recipients: Promise<FarmRecipients> | undefined;
+  const checkRecipient = async (action: WorkflowAction, config: Record<string, any>) => {
+    recipients ??= farmRecipients(db, run.farmId);
+    const problem = recipientProblem(action, config, await recipients);
+    if (problem) throw new Error(problem);
+  };
+
+  return {
+    async create_task(config) {
+      if (!config.title) throw new Error("create_task needs a title");
+      await checkRecipient("create_task", config);
+      const owner = await farmOwner(db, run.farmId);
+      const taskUuid = randomUUID();
+      const dueInHours = Number(config.dueInHours ?? 24);
+      const [header] = await db.insert(taskAssignments).values({
+        taskId: taskUuid,
+        farmId: run.farmId,
+        workerId: Number(config.workerId ?? owner.id),
+        title: String(config.title).slice(0, 255),
+        description: config.description ? String(config.description) : null,
+        taskType: TASK_TYPES.includes(config.taskType) ? config.taskType : "other",
+        priority: TASK_PRIORITIES.includes(config.priority) ? config.priority : "medium",
+        dueDate: new Date(Date.now() + dueInHours * 60 * 60 * 1000),
+        estimatedHours: String(config.estimatedHours ?? 1),
+        notes: `Created by workflow ${run.workflowId} (run ${run.id})`,
+        createdBy: run.createdBy,
+      });
+      return { taskId: header.insertId, taskUuid };
+    },
+
+    async send_sms(config) {
+      await checkRecipient("send_sms", config);
+      const to = config.to ? String(config.to) : (await farmOwner(db, run.farmId)).phone;
+      if (!to) throw new Error("No phone number to send the SMS to");
+      if (!config.message) throw new Error("send_sms needs a message");
+      const result = await sendSMS({ to, message: String(config.message) });
+      if (!result.success) throw new Error(result.error ?? "SMS failed");
+      return { to, messageId: result.messageId };
+    },
+
+    async send_email(config) {
+      await checkRecipient("send_email", config);
+      const to = config.to ? String(config.to) : (await farmOwner(db, run.farmId)).email;
+      if (!config.subject || !config.body) throw new Error("send_email needs a subject and body");
+      const result = await sendEmail({ to, subject: String(config.subject), html: String(config.body) });
+      if (!result.success) throw new Error(result.error ?? "Email failed");
+      return { to, messageId: result.messageId };
+    },
+
+    async send_push(config) {
+      await checkRecipient("send_push", config);
+      if (!config.title || !config.message) throw new Error("send_push needs a title and message");
+      const userId = Number(config.userId ?? (await farmOwner(db, run.farmId)).id);
+      const priority = ["low", "medium", "high", "critical"].includes(config.priority) ? config.priority : "medium";
+      await createNotification({
+        userId,
+        type: "system_alert",
+        title: String(config.title),
+        message: String(config.message),
+        priority,
+        actionUrl: config.actionUrl ? String(config.actionUrl) : undefined,
+      });
+      broadcastToUser(userId, { type: "workflow_notification", data: { workflowId: run.workflowId, title: config.title, message: config.message } });
+
+      const subscriptions = await db
+        .select()
+        .from(pushSubscriptions)
+        .where(and(eq(pushSubscriptions.userId, userId), eq(pushSubscriptions.isActive, true)));
+      let delivered = 0;
+      for (const subscription of subscriptions) {
+        const result = await pushNotifications.sendNotification(
+          { endpoint: subscription.endpoint, keys: { auth: subscription.auth, p256dh: subscription.p256dh } },
+          { title: String(config.title), body: String(config.message), tag: `workflow-${run.workflowId}` }
+        );
+        if (result.success) delivered++;
+        else if (result.error === "Subscription expired") {
+          await db.update(pushSubscriptions).set({ isActive: false }).where(eq(pushSubscriptions.id, subscription.id));
+        }
+      }
+      return { userId, devices: delivered };
+    },
+
+    async call_webhook(config, context) {
+      const url = String(config.url ?? "");
+      await assertPublicWebhook(url);
+      const body = JSON.stringify({
+        workflowId: run.workflowId,
+        runId: run.id,
+        farmId: run.farmId,
+        event: context.event,
+        payload: config.payload ?? null,
+      });
+      const headers: Record<string, string> = {};
+      const custom = config.headers && typeof config.headers === "object" && !Array.isArray(config.headers) ? config.headers : {};
+      for (const [name, value] of Object.entries(custom)) {
+        if (!RESERVED_WEBHOOK_HEADERS.includes(name.toLowerCase())) headers[name] = String(value);
+      }
+      headers["Content-Type"] = "application/json";
+      const secret = process.env.WORKFLOW_WEBHOOK_SECRET;
+      if (secret) headers["X-Workflow-Signature"] = createHmac("sha256", secret).update(body).digest("hex");
+
+      // Redirects are not followed: they could point back into the private network
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) throw new Error(`Webhook returned HTTP ${response.status}`);
+      return { status: response.status };
+    },
+
+    async update_record(config) {
+      const set = (config.set ?? {}) as Record<string, unknown>;
+      validateRecordUpdate(String(config.record), set);
+      const id = Number(config.id);
+      if (!Number.isInteger(id) || id <= 0) throw new Error(`Invalid record id "${String(config.id)}"`);
+      return updateRecord(db, run.farmId, config.record as UpdatableRecord, id, set);
+    },
+  };
+}
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+/** Create a run for the workflow's current version; null if the dedupe key was already used */
+export async function startRun(
+  workflow: Pick<Workflow, "id" | "farmId" | "currentVersion">,
+  event: string,
+  data: Record<string, unknown>,
+  options: { dedupeKey?: string; triggeredBy?: number } = {}
+): Promise<number | null> {
+  const db = await requireDb();
+  const [header] = await db
+    .insert(workflowRuns)
+    .ignore()
+    .values({
+      workflowId: workflow.id,
+      farmId: workflow.farmId,
+      versionNumber: workflow.currentVersion,
+      triggerEvent: event,
+      triggerData: data,
+      dedupeKey: options.dedupeKey,
+      triggeredBy: options.triggeredBy,
+    });
+  return header.affectedRows ? header.insertId : null;
+}
+
+/**
+ * Execute (or resume) a run. Claims the run first so a retry sweep and a
+ * manual retry cannot execute it twice.
+ */
+export async function executeRun(runId: number) {
+  const db = await requireDb();
+  const [run] = await db.select().from(workflowRuns).where(eq(workflowRuns.id, runId)).limit(1);
+  if (!run) throw new Error(`Workflow run ${runId} not found`);
+
+  const startedAt = new Date();
+  const attempt = run.attempt + 1;
+  const [claim] = await db
+    .update(workflowRuns)
+    .set({ status: "running", attempt, startedAt: run.startedAt ?? startedAt, nextRetryAt: null })
+    .where(and(eq(workflowRuns.id, runId), inArray(workflowRuns.status, ["pending", "retrying"])));
+  if (claim.affectedRows === 0) return null;
+
+  const [workflow] = await db.select().from(workflows).where(eq(workflows.id, run.workflowId)).limit(1);
+  const [version] = await db
+    .select()
+    .from(workflowVersions)
+    .where(and(eq(workflowVersions.workflowId, run.workflowId), eq(workflowVersions.versionNumber, run.versionNumber)))
+    .limit(1);
+  if (!workflow || !version) {
+    await db
+      .update(workflowRuns)
+      .set({ status: "failed", error: "Workflow version no longer exists", completedAt: new Date() })
+      .where(eq(workflowRuns.id, runId));
+    return "failed" as const;
+  }
+
+  // Outputs of actions that already succeeded on an earlier attempt
+  const previous = await db
+    .select()
+    .from(workflowRunSteps)
+    .where(and(eq(workflowRunSteps.runId, runId), eq(workflowRunSteps.status, "completed")))
+    .orderBy(asc(workflowRunSteps.id));
+  const completed = new Map(
+    previous.filter(step => step.nodeType === "action" || step.nodeType === "notification").map(step => [step.nodeId, step.output])
+  );
+
+  const context: WorkflowContext = {
+    farmId: run.farmId,
+    event: (run.triggerData ?? {}) as Record<string, any>,
+    steps: {},
+  };
+  const graph = { nodes: version.nodes, edges: version.edges } as WorkflowGraph;
+  const handlers = createActionHandlers(db, { id: run.id, workflowId: run.workflowId, farmId: run.farmId, createdBy: workflow.createdBy });
+  const result = await executeGraph(graph, context, handlers, completed);
+
+  if (result.steps.length) {
+    await db.insert(workflowRunSteps).values(
+      result.steps.map(step => ({
+        runId,
+        attempt,
+        nodeId: step.nodeId.slice(0, 64),
+        nodeType: step.nodeType,
+        status: step.status,
+        output: step.output ?? null,
+        error: step.error ?? null,
+        durationMs: step.durationMs,
+      }))
+    );
+  }
+
+  const finishedAt = new Date();
+  const canRetry = result.status === "failed" && attempt <= workflow.maxRetries;
+  await db
+    .update(workflowRuns)
+    .set({
+      status: result.status === "completed" ? "completed" : canRetry ? "retrying" : "failed",
+      error: result.error ?? null,
+      nextRetryAt: canRetry ? new Date(finishedAt.getTime() + retryDelayMinutes(attempt) * 60 * 1000) : null,
+      completedAt: canRetry ? null : finishedAt,
+      durationMs: finishedAt.getTime() - (run.startedAt ?? startedAt).getTime(),
+    })
+    .where(eq(workflowRuns.id, runId));
+  return canRetry ? ("retrying" as const) : result.status;
+}
+
+/** Manually retry a failed run now */
+export async function retryRun(runId: number) {
+  const db = await requireDb();
+  const [header] = await db
+    .update(workflowRuns)
+    .set({ status: "retrying", nextRetryAt: new Date(), completedAt: null })
+    .where(and(eq(workflowRuns.id, runId), eq(workflowRuns.status, "failed")));
+  if (header.affectedRows === 0) return null;
+  return executeRun(runId);
+}
+
+/**
+ * Start every active workflow on the farm listening for this event whose
+ * trigger conditions match. Never throws: automation must not break the
+ * write that raised the event.
+ */
+export async function emitWorkflowEvent(
+  farmId: number,
+  event: WorkflowEvent,
+  data: Record<string, unknown>,
+  dedupeKey?: string
+): Promise<number[]> {
+  const started: number[] = [];
+  try {
+    const db = await requireDb();
+    const listeners = await db
+      .select()
+      .from(workflows)
+      .where(and(
+        eq(workflows.farmId, farmId),
+        eq(workflows.triggerEvent, event),
+        eq(workflows.isActive, true),
+        eq(workflows.isTemplate, false)
+      ));
+
+    for (const workflow of listeners) {
+      const context: WorkflowContext = { farmId, event: data, steps: {} };
+      if (workflow.triggerConditions && !evaluateCondition(workflow.triggerConditions as Condition, context)) continue;
+      const runId = await startRun(workflow, event, data, { dedupeKey });
+      if (runId === null) continue;
+      started.push(runId);
+      await executeRun(runId);
+    }
+  } catch (error) {
+    console.error(`[Workflows] Failed to handle ${event} for farm ${farmId}:`, error);
+  }
+  return started;
+}
+
+export async function processDueRetries(now: Date = new Date()) {
+  const db = await requireDb();
+  const due = await db
+    .select({ id: workflowRuns.id })
+    .from(workflowRuns)
+    .where(and(eq(workflowRuns.status, "retrying"), lte(workflowRuns.nextRetryAt, now)))
+    .orderBy(asc(workflowRuns.nextRetryAt))
+    .limit(25);
+  for (const { id } of due) {
+    try {
+      await executeRun(id);
+    } catch (error) {
+      console.error(`[Workflows] Retry of run ${id} failed:`, error);
+    }
+  }
+  return due.length;
+}
+
+// Farms that have at least one active workflow for the event
+async function listeningFarms(db: Db, event: WorkflowEvent) {
+  const rows = await db
+    .selectDistinct({ farmId: workflows.farmId })
+    .from(workflows)
+    .where(and(eq(workflows.triggerEvent, event), eq(workflows.isActive, true), eq(workflows.isTemplate, false)));
+  return rows.map(row => row.farmId);
+}
+
+export async function scanOverdueTasks(now: Date = new Date()) {
+  const db = await requireDb();
+  const farmIds = await listeningFarms(db, "task_overdue");
+  if (!farmIds.length) return 0;
+
+  const overdue = await db
+    .select()
+    .from(taskAssignments)
+    .where(and(
+      inArray(taskAssignments.farmId, farmIds),
+      inArray(taskAssignments.status, ["pending", "in_progress"]),
+      lt(taskAssignments.dueDate, now)
+    ))
+    .limit(500);
+  for (const task of overdue) {
+    await emitWorkflowEvent(
+      task.farmId,
+      "task_overdue",
+      {
+        taskId: task.id,
+        taskUuid: task.taskId,
+        title: task.title,
+        taskType: task.taskType,
+        priority: task.priority,
+        workerId: task.workerId,
+        dueDate: task.dueDate.toISOString(),
+        hoursOverdue: Math.floor((now.getTime() - task.dueDate.getTime()) / (60 * 60 * 1000)),
+      },
+      `task_overdue:${task.id}`
+    );
+  }
+  return overdue.length;
+}
+
+export async function scanPrescriptionsDue(now: Date = new Date()) {
+  const db = await requireDb();
+  const farmIds = await listeningFarms(db, "prescription_due");
+  if (!farmIds.length) return 0;
+
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const doses = await db
+    .select({ dose: prescriptionCompliance, prescription: prescriptions })
+    .from(prescriptionCompliance)
+    .innerJoin(prescriptions, eq(prescriptions.id, prescriptionCompliance.prescriptionId))
+    .where(and(
+      inArray(prescriptions.farmId, farmIds),
+      eq(prescriptions.status, "active"),
+      gte(prescriptionCompliance.doseDate, today),
+      lte(prescriptionCompliance.doseDate, today),
+      sql`coalesce(${prescriptionCompliance.administered}, false) = false`
+    ))
+    .limit(500);
+  for (const { dose, prescription } of doses) {
+    await emitWorkflowEvent(
+      prescription.farmId,
+      "prescription_due",
+      {
+        prescriptionId: prescription.id,
+        complianceId: dose.id,
+        animalId: prescription.animalId,
+        medicationName: prescription.medicationName,
+        dosage: prescription.dosage,
+        doseTime: dose.doseTime,
+        doseDate: today.toISOString().slice(0, 10),
+      },
+      `prescription_due:${dose.id}`
+    );
+  }
+  return doses.length;
+}
+
+export function initializeWorkflowScheduler() {
+  // Both sweeps run again shortly, so a failed sweep is not retried
+  registerJobHandler("workflows.processRetries", () => processDueRetries(), { maxAttempts: 1 });
+  registerJobHandler(
+    "workflows.scanEvents",
+    async () => {
+      await scanOverdueTasks();
+      await scanPrescriptionsDue();
+    },
+    { maxAttempts: 1 }
+  );
+
+  defineCronJob("workflow-retries", "* * * * *", "workflows.processRetries").catch(error =>
+    console.error("[Workflows] Could not schedule the retry sweep:", error)
+  );
+  defineCronJob("workflow-event-scan", "*/15 * * * *", "workflows.scanEvents").catch(error =>
+    console.error("[Workflows] Could not schedule the event scan:", error)
+  );
+  console.log("[Workflows] Retries checked every minute, overdue tasks and due prescriptions every 15 minutes");
+}
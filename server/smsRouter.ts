@@ -1,13 +1,17 @@
-import { router, protectedProcedure, publicProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "./db";
-import { users } from "../drizzle/schema";
-import { eq } from "drizzle-orm";
+import { smsInboundMessages, users } from "../drizzle/schema";
+import { desc, eq } from "drizzle-orm";
+import { formatAfricasTalkingResponse, parseAfricasTalkingRequest } from "./services/ussdEngine";
+import { handleUssdRequest } from "./services/ussdService";
 
 /**
  * SMS/USSD Integration Router
- * Supports Africa's Talking and Hubtel for SMS and USSD services
+ * Supports Africa's Talking and Hubtel for SMS and USSD services.
+ * Inbound keyword SMS ("EGG 240", "DONE T45") arrive at
+ * /api/sms/inbound/:provider and are applied by smsCommandService.
  * 
  * Setup Instructions:
  * 
@@ -18,7 +22,8 @@ import { eq } from "drizzle-orm";
  *    - AFRICASTALKING_API_KEY
  *    - AFRICASTALKING_USERNAME
  * 4. Purchase SMS credits
- * 5. Configure USSD code (e.g., *384*1234#)
+ * 5. Configure USSD code (e.g., *384*1234#) with callback
+ *    https://your-domain.com/api/ussd/africastalking?token=$USSD_CALLBACK_TOKEN
  * 
  * HUBTEL:
  * 1. Sign up at https://hubtel.com
@@ -27,6 +32,8 @@ import { eq } from "drizzle-orm";
  *    - HUBTEL_CLIENT_ID
  *    - HUBTEL_CLIENT_SECRET
  * 4. Purchase SMS credits
+ * 5. Point the USSD application at
+ *    https://your-domain.com/api/ussd/hubtel?token=$USSD_CALLBACK_TOKEN
  */
 
 export const smsRouter = router({
@@ -139,9 +146,11 @@ export const smsRouter = router({
 
   /**
    * USSD Session Handler
-   * This endpoint receives USSD requests from Africa's Talking
+   * Same engine as the gateway callbacks in /api/ussd/*, taking the
+   * Africa's Talking request shape. Admin-only: it acts as whichever
+   * phone number it is given, so it is a simulator, not a gateway endpoint.
    */
-  handleUSSD: publicProcedure
+  handleUSSD: protectedProcedure
     .input(
       z.object({
         sessionId: z.string(),
@@ -150,115 +159,37 @@ export const smsRouter = router({
         text: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      const db = await getDb();
-      
-      // Parse user input
-      const textArray = input.text.split("*");
-      const level = textArray.length;
-      const lastInput = textArray[textArray.length - 1];
-
-      let response = "";
-
-      // USSD Menu Structure
-      if (input.text === "") {
-        // Main menu
-        response = "CON Welcome to FarmKonnect\n";
-        response += "1. Check Weather\n";
-        response += "2. Market Prices\n";
-        response += "3. Training Programs\n";
-        response += "4. My Farm Status\n";
-        response += "5. Contact Extension Agent";
-      } else if (input.text === "1") {
-        // Weather submenu
-        response = "CON Select your region:\n";
-        response += "1. Greater Accra\n";
-        response += "2. Ashanti\n";
-        response += "3. Northern\n";
-        response += "4. Volta\n";
-        response += "5. Back";
-      } else if (input.text === "1*1") {
-        // Weather for Greater Accra
-        response = "END Weather for Greater Accra:\n";
-        response += "Temp: 28°C\n";
-        response += "Condition: Partly Cloudy\n";
-        response += "Rainfall: 60% chance\n";
-        response += "Good for: Planting maize";
-      } else if (input.text === "2") {
-        // Market prices
-        response = "END Today's Market Prices:\n";
-        response += "Maize: GHS 150/bag\n";
-        response += "Rice: GHS 280/bag\n";
-        response += "Tomatoes: GHS 45/crate\n";
-        response += "Cassava: GHS 120/bag";
-      } else if (input.text === "3") {
-        // Training programs
-        response = "END Upcoming Training:\n";
-        response += "1. Modern Irrigation - Jan 15\n";
-        response += "2. Pest Control - Jan 20\n";
-        response += "3. Soil Management - Jan 25\n";
-        response += "Call 0244123456 to register";
-      } else if (input.text === "4") {
-        // Farm status (requires user lookup)
-        if (db) {
-          const user = await db.select().from(users).where(eq(users.phone, input.phoneNumber));
-          if (user.length > 0) {
-            response = "END Your Farm Status:\n";
-            response += "Active Crops: 3\n";
-            response += "Livestock: 25 chickens\n";
-            response += "Pending Orders: 2\n";
-            response += "Next Task: Fertilizer application";
-          } else {
-            response = "END Phone number not registered.\n";
-            response += "Visit farmkonnect.com to register";
-          }
-        } else {
-          response = "END Service temporarily unavailable";
-        }
-      } else if (input.text === "5") {
-        // Contact extension agent
-        response = "END Extension Agent Contact:\n";
-        response += "Name: Kwame Mensah\n";
-        response += "Phone: 0244567890\n";
-        response += "Region: Greater Accra\n";
-        response += "Available: Mon-Fri 8am-5pm";
-      } else {
-        // Invalid input
-        response = "END Invalid selection.\n";
-        response += "Please dial the code again.";
+    .mutation(async ({ input, ctx }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only admins can use the USSD simulator",
+        });
       }
 
+      const reply = await handleUssdRequest(parseAfricasTalkingRequest(input));
       return {
-        response,
+        response: formatAfricasTalkingResponse(reply),
         sessionId: input.sessionId,
-        instructions: [
-          "USSD SETUP GUIDE:",
-          "",
-          "1. Configure webhook in Africa's Talking dashboard:",
-          "   POST https://your-domain.com/api/trpc/sms.handleUSSD",
-          "",
-          "2. USSD Response Format:",
-          "   - CON: Continue session (show menu)",
-          "   - END: End session (show final message)",
-          "",
-          "3. Menu Navigation:",
-          "   - input.text = '' → Main menu",
-          "   - input.text = '1' → First level selection",
-          "   - input.text = '1*2' → Second level selection",
-          "",
-          "4. Session Management:",
-          "   - Store session data in Redis/database",
-          "   - Handle back navigation",
-          "   - Implement timeout handling",
-          "",
-          "5. Testing:",
-          "   - Use Africa's Talking USSD simulator",
-          "   - Test all menu paths",
-          "   - Verify response formatting",
-        ],
       };
     }),
 
+  /**
+   * Inbound SMS commands recorded for a farm (see /api/sms/inbound/*)
+   */
+  listInboundMessages: farmProcedure("viewer")
+    .input(z.object({ farmId: z.number(), limit: z.number().int().min(1).max(200).default(50) }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+      return db
+        .select()
+        .from(smsInboundMessages)
+        .where(eq(smsInboundMessages.farmId, input.farmId))
+        .orderBy(desc(smsInboundMessages.createdAt), desc(smsInboundMessages.id))
+        .limit(input.limit);
+    }),
+
   /**
    * Send weather alerts via SMS
    */
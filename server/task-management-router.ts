@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "./trpc";
+import { router, protectedProcedure, farmProcedure } from "./trpc";
 import { z } from "zod";
 import { db } from "./db";
 import {
@@ -113,7 +113,7 @@ export const taskManagementRouter = router({
     }),
 
   // Get all tasks for a farm
-  getTasksByFarm: protectedProcedure
+  getTasksByFarm: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), status: z.string().optional() }))
     .query(async ({ input }) => {
       const conditions = [eq(taskAssignments.farmId, input.farmId)];
@@ -130,7 +130,7 @@ export const taskManagementRouter = router({
     }),
 
   // Get tasks for a specific worker
-  getWorkerTasks: protectedProcedure
+  getWorkerTasks: farmProcedure("viewer")
     .input(z.object({ workerId: z.number(), farmId: z.number() }))
     .query(async ({ input }) => {
       return await db
@@ -222,7 +222,7 @@ export const taskManagementRouter = router({
     }),
 
   // Get completion records for a worker
-  getWorkerCompletionRecords: protectedProcedure
+  getWorkerCompletionRecords: farmProcedure("viewer")
     .input(z.object({ workerId: z.number(), farmId: z.number(), limit: z.number().default(50) }))
     .query(async ({ input }) => {
       return await db
@@ -234,7 +234,7 @@ export const taskManagementRouter = router({
     }),
 
   // Get worker performance metrics
-  getWorkerMetrics: protectedProcedure
+  getWorkerMetrics: farmProcedure("viewer")
     .input(z.object({ workerId: z.number(), farmId: z.number(), period: z.enum(["daily", "weekly", "monthly", "yearly"]) }))
     .query(async ({ input }) => {
       const today = new Date();
@@ -265,7 +265,7 @@ export const taskManagementRouter = router({
     }),
 
   // Get performance alerts for a farm
-  getPerformanceAlerts: protectedProcedure
+  getPerformanceAlerts: farmProcedure("viewer")
     .input(z.object({ farmId: z.number(), resolved: z.boolean().optional() }))
     .query(async ({ input }) => {
       const conditions = [eq(workerPerformanceAlerts.farmId, input.farmId)];
@@ -323,7 +323,7 @@ export const taskManagementRouter = router({
     }),
 
   // Get task templates for a farm
-  getTaskTemplates: protectedProcedure
+  getTaskTemplates: farmProcedure("viewer")
     .input(z.object({ farmId: z.number() }))
     .query(async ({ input }) => {
       return await db
@@ -1,4 +1,4 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { getDb } from "./db";
@@ -199,9 +199,9 @@ export const transportRouter = router({
 
   // Product Listings (for logistics integration)
   listings: router({
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(z.object({
-        farmId: z.number().optional(),
+        farmId: z.number(),
         productType: z.enum(["crop", "livestock", "processed"]).optional(),
         status: z.enum(["active", "sold_out", "delisted"]).optional(),
       }))
@@ -209,18 +209,14 @@ export const transportRouter = router({
         const db = await getDb();
         if (!db) return [];
         
-        const conditions = [];
-        if (input.farmId) conditions.push(eq(productListings.farmId, input.farmId));
+        const conditions = [eq(productListings.farmId, input.farmId)];
         if (input.productType) conditions.push(eq(productListings.productType, input.productType));
         if (input.status) conditions.push(eq(productListings.status, input.status));
         
-        if (conditions.length > 0) {
-          return await db.select().from(productListings).where(and(...conditions));
-        }
-        return await db.select().from(productListings);
+        return await db.select().from(productListings).where(and(...conditions));
       }),
 
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(z.object({
         farmId: z.number(),
         productType: z.enum(["crop", "livestock", "processed"]),
@@ -1,7 +1,7 @@
 import { getDb } from "./db";
 import { farms, weatherHistory, alerts } from "../drizzle/schema";
 import { notifyOwner } from "./_core/notification";
-import cron from "node-cron";
+import { defineCronJob, registerJobHandler } from "./services/jobQueueService";
 
 const OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY;
 const OPENWEATHER_BASE_URL = "https://api.openweathermap.org/data/2.5";
@@ -276,37 +276,26 @@ export async function runWeatherCheck(checkTime: "6 AM" | "6 PM") {
 }
 
 /**
- * Initialize cron jobs for 6 AM and 6 PM checks
+ * Schedule the 6 AM and 6 PM checks on the durable job queue, so the
+ * digest goes out once however many app instances are running.
+ * Africa/Accra is UTC, which the queue's schedules use.
  * This should be called from server startup
  */
 export function initializeWeatherCron() {
-  console.log("[WeatherCron] Initializing weather cron jobs");
-
-  // Schedule for 6 AM (every day at 6:00 AM)
-  // Cron format: minute hour day month dayOfWeek
-  cron.schedule("0 6 * * *", () => {
-    console.log("[WeatherCron] Triggering 6 AM weather check");
-    runWeatherCheck("6 AM").catch((error) => {
-      console.error("[WeatherCron] Error in 6 AM check:", error);
+  console.log("[WeatherCron] Initializing weather checks");
+
+  registerJobHandler<{ checkTime: "6 AM" | "6 PM" }>("weather.check", ({ checkTime }) => runWeatherCheck(checkTime));
+
+  Promise.all([
+    defineCronJob("weather-check-morning", "0 6 * * *", "weather.check", { checkTime: "6 AM" }),
+    defineCronJob("weather-check-evening", "0 18 * * *", "weather.check", { checkTime: "6 PM" }),
+  ])
+    .then(() => {
+      console.log("[WeatherCron] Checks scheduled:");
+      console.log("  - Morning check: 6:00 AM (Africa/Accra)");
+      console.log("  - Evening check: 6:00 PM (Africa/Accra)");
+    })
+    .catch((error) => {
+      console.error("[WeatherCron] Could not schedule weather checks:", error);
     });
-  }, {
-    timezone: "Africa/Accra" // Ghana timezone
-  });
-  
-  // Schedule for 6 PM (every day at 6:00 PM)
-  cron.schedule("0 18 * * *", () => {
-    console.log("[WeatherCron] Triggering 6 PM weather check");
-    runWeatherCheck("6 PM").catch((error) => {
-      console.error("[WeatherCron] Error in 6 PM check:", error);
-    });
-  }, {
-    timezone: "Africa/Accra" // Ghana timezone
-  });
-
-  console.log("[WeatherCron] Cron jobs scheduled:");
-  console.log("  - Morning check: 6:00 AM (Africa/Accra)");
-  console.log("  - Evening check: 6:00 PM (Africa/Accra)");
-
-  // Manual trigger for testing (uncomment to test immediately)
-  // runWeatherCheck("6 AM").catch(console.error);
 }
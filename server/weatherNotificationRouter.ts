@@ -1,4 +1,4 @@
-import { protectedProcedure, router } from "./_core/trpc";
+import { protectedProcedure, farmProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { farms, weatherHistory } from "../drizzle/schema";
@@ -228,7 +228,7 @@ export const weatherNotificationRouter = router({
   }),
 
   // Store weather data for historical analysis
-  storeWeatherData: protectedProcedure
+  storeWeatherData: farmProcedure("editor")
     .input(
       z.object({
         farmId: z.number(),
@@ -418,7 +418,7 @@ ${alerts.some((a) => a.severity === "critical") ? "- Take immediate action for c
   }),
 
   // Get historical weather trends
-  getWeatherTrends: protectedProcedure
+  getWeatherTrends: farmProcedure("viewer")
     .input(
       z.object({
         farmId: z.number(),
@@ -39,6 +39,49 @@ const getMockForecastData = () => {
   return forecasts;
 };
 
+/**
+ * Fetch the 3-hourly OpenWeather forecast. Returns null when the API is
+ * not configured or the request fails, so callers can decide whether mock
+ * data is acceptable.
+ */
+export async function fetchForecast(latitude: number, longitude: number, days: number = 5) {
+  if (!OPENWEATHER_API_KEY) return null;
+
+  const response = await fetch(
+    `${OPENWEATHER_BASE_URL}/forecast?lat=${latitude}&lon=${longitude}&appid=${OPENWEATHER_API_KEY}&units=metric`
+  );
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  return data.list.slice(0, days * 8).map((item: any) => ({
+    timestamp: new Date(item.dt * 1000),
+    temperature: item.main.temp,
+    feelsLike: item.main.feels_like,
+    humidity: item.main.humidity,
+    pressure: item.main.pressure,
+    windSpeed: item.wind.speed,
+    cloudiness: item.clouds.all,
+    description: item.weather[0].description,
+    icon: item.weather[0].icon,
+    rainProbability: item.pop * 100,
+    rainVolume: item.rain?.["3h"] || 0,
+    isMockData: false,
+  })) as Array<{
+    timestamp: Date;
+    temperature: number;
+    feelsLike: number;
+    humidity: number;
+    pressure: number;
+    windSpeed: number;
+    cloudiness: number;
+    description: string;
+    icon: string;
+    rainProbability: number;
+    rainVolume: number;
+    isMockData: boolean;
+  }>;
+}
+
 export const weatherRouter = router({
   getCurrentWeather: protectedProcedure
     .input(z.object({ latitude: z.number(), longitude: z.number() }))
@@ -87,31 +130,12 @@ export const weatherRouter = router({
           return getMockForecastData();
         }
 
-        const response = await fetch(
-          `${OPENWEATHER_BASE_URL}/forecast?lat=${input.latitude}&lon=${input.longitude}&appid=${OPENWEATHER_API_KEY}&units=metric`
-        );
-
-        if (!response.ok) {
+        const forecasts = await fetchForecast(input.latitude, input.longitude, input.days);
+        if (!forecasts) {
           console.warn("Forecast API request failed, returning mock data");
           return getMockForecastData();
         }
 
-        const data = await response.json();
-        const forecasts = data.list.slice(0, input.days * 8).map((item: any) => ({
-          timestamp: new Date(item.dt * 1000),
-          temperature: item.main.temp,
-          feelsLike: item.main.feels_like,
-          humidity: item.main.humidity,
-          pressure: item.main.pressure,
-          windSpeed: item.wind.speed,
-          cloudiness: item.clouds.all,
-          description: item.weather[0].description,
-          icon: item.weather[0].icon,
-          rainProbability: item.pop * 100,
-          rainVolume: item.rain?.["3h"] || 0,
-          isMockData: false,
-        }));
-
         return forecasts;
       } catch (error) {
         console.error("Forecast API error:", error);
@@ -1,9 +1,11 @@
-import { router, protectedProcedure } from "./_core/trpc";
+import { router, protectedProcedure, farmProcedure } from "./_core/trpc";
 import { z } from "zod";
 import { getDb } from "./db";
 import { TRPCError } from "@trpc/server";
-import { eq } from "drizzle-orm";
-import { farmWorkers } from "../drizzle/schema";
+import { desc, eq } from "drizzle-orm";
+import { farmWorkers, payrollRecords, type User } from "../drizzle/schema";
+import { hasFarmRole, loadFarmAccess, type FarmRole } from "./_core/farmAccess";
+import { recordInLedger } from "./services/ledgerService";
 import {
   getWorkersByFarm,
   getWorkerById,
@@ -15,13 +17,23 @@ import {
   calculateWorkerSalary,
 } from "./_core/workforceUtils";
 
+async function requireWorkerAccess(user: Pick<User, "id" | "role">, workerId: number, minRole: FarmRole) {
+  const worker = await getWorkerById(workerId);
+  if (!worker) throw new TRPCError({ code: "NOT_FOUND", message: "Worker not found" });
+  const access = await loadFarmAccess(user, worker.farmId);
+  if (!access || !hasFarmRole(access.role, minRole)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "No access to this worker's farm" });
+  }
+  return worker;
+}
+
 export const workforceRouter = router({
   // ============================================================================
   // WORKER MANAGEMENT
   // ============================================================================
 
   workers: router({
-    create: protectedProcedure
+    create: farmProcedure("editor")
       .input(
         z.object({
           farmId: z.number(),
@@ -47,7 +59,7 @@ export const workforceRouter = router({
         return await db.insert(farmWorkers).values(values);
       }),
 
-    list: protectedProcedure
+    list: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -197,12 +209,31 @@ export const workforceRouter = router({
           notes: z.string().optional(),
         })
       )
-      .mutation(async ({ input }) => {
-        // Record payout (in production, create a payroll_records table)
+      .mutation(async ({ ctx, input }) => {
+        const db = await getDb();
+        if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
+        const worker = await requireWorkerAccess(ctx.user, input.workerId, "admin");
+
+        const amount = input.amount.toFixed(2);
+        const [result] = await db.insert(payrollRecords).values({
+          farmId: worker.farmId,
+          workerId: worker.id,
+          payrollPeriodStart: new Date(input.year, input.month - 1, 1),
+          payrollPeriodEnd: new Date(input.year, input.month, 0),
+          hourlyRate: "0",
+          basePay: amount,
+          totalPay: amount,
+          status: "paid",
+          paidAt: new Date(),
+          notes: input.notes ? `${input.paymentMethod}: ${input.notes}` : input.paymentMethod,
+        });
+        await recordInLedger("payroll", result.insertId, ctx.user.id);
+
         return {
           success: true,
           message: `Payout of ${input.amount} processed for worker ${input.workerId}`,
           paymentMethod: input.paymentMethod,
+          payrollRecordId: result.insertId,
         };
       }),
 
@@ -213,9 +244,17 @@ export const workforceRouter = router({
           limit: z.number().default(12),
         })
       )
-      .query(async ({ input }) => {
-        // Return payroll history (in production, query payroll_records table)
-        return [];
+      .query(async ({ ctx, input }) => {
+        const db = await getDb();
+        if (!db) return [];
+        await requireWorkerAccess(ctx.user, input.workerId, "viewer");
+
+        return await db
+          .select()
+          .from(payrollRecords)
+          .where(eq(payrollRecords.workerId, input.workerId))
+          .orderBy(desc(payrollRecords.payrollPeriodEnd))
+          .limit(input.limit);
       }),
   }),
 
@@ -259,7 +298,7 @@ export const workforceRouter = router({
   // ============================================================================
 
   teams: router({
-    getTeamByFarm: protectedProcedure
+    getTeamByFarm: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),
@@ -269,7 +308,7 @@ export const workforceRouter = router({
         return await getTeamByRole(input.farmId);
       }),
 
-    getTeamStats: protectedProcedure
+    getTeamStats: farmProcedure("viewer")
       .input(
         z.object({
           farmId: z.number(),